@@ -0,0 +1,52 @@
+/**
+ * scripts/expire_credits.ts
+ *
+ * Credit expiry job — removes every user's expired credits (promotional
+ * grants past their expiry date) with a negative credit_ledger entry per
+ * bucket, via expire_due_credits(p_all). The database runs the same sweep
+ * hourly (pg_cron, 20250209000045_scheduled_sweeps); use this to run it by
+ * hand. Balance checks also expire a user's own credits first, so a missed
+ * run never lets expired credits be spent.
+ *
+ * Usage:
+ *   npx tsx scripts/expire_credits.ts
+ *
+ * Requires NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY in .env.local
+ */
+
+import { config } from "dotenv";
+config({ path: ".env.local" });
+
+import { createClient } from "@supabase/supabase-js";
+
+async function main() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!url || !key) {
+    console.error(
+      "Missing NEXT_PUBLIC_SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY in .env.local"
+    );
+    process.exit(1);
+  }
+
+  const supabase = createClient(url, key, {
+    auth: { persistSession: false },
+  });
+
+  const { data, error } = await supabase.rpc("expire_due_credits", {
+    p_all: true,
+  });
+
+  if (error) {
+    console.error("Credit expiry failed:", error.message);
+    process.exit(1);
+  }
+
+  console.log(`Expired ${data as number} credits.`);
+}
+
+main().catch((err) => {
+  console.error("Fatal:", err);
+  process.exit(1);
+});
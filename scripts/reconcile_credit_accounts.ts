@@ -0,0 +1,101 @@
+/**
+ * scripts/reconcile_credit_accounts.ts
+ *
+ * Reconciliation job for materialized credit balances — checks that every
+ * credit_accounts.balance equals the sum of that user's credit_ledger
+ * entries and prints any drift. Each run is recorded in
+ * credit_reconciliation_runs and the audit log.
+ *
+ * Exits with status 2 when drift is found (and not fixed), so it can be
+ * scheduled and alerted on.
+ *
+ * Usage:
+ *   npx tsx scripts/reconcile_credit_accounts.ts         # report only
+ *   npx tsx scripts/reconcile_credit_accounts.ts --fix   # reset drifted balances to the ledger
+ *
+ * Requires NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY in .env.local
+ */
+
+import { config } from "dotenv";
+config({ path: ".env.local" });
+
+import { createClient } from "@supabase/supabase-js";
+
+const FIX = process.argv.includes("--fix");
+
+interface ReconciliationResult {
+  run_id: string;
+  accounts_checked: number;
+  drifted_accounts: number;
+  fixed: boolean;
+  drift: {
+    user_id: string;
+    /** null when the user has ledger entries but no account row */
+    balance: number | null;
+    ledger_balance: number;
+    drift: number;
+  }[];
+}
+
+async function main() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!url || !key) {
+    console.error(
+      "Missing NEXT_PUBLIC_SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY in .env.local"
+    );
+    process.exit(1);
+  }
+
+  const supabase = createClient(url, key, {
+    auth: { persistSession: false },
+  });
+
+  const { data, error } = await supabase.rpc("reconcile_credit_accounts", {
+    p_fix: FIX,
+  });
+
+  if (error) {
+    console.error("Reconciliation failed:", error.message);
+    process.exit(1);
+  }
+
+  const result = data as ReconciliationResult;
+
+  console.log("=".repeat(50));
+  console.log("credit_accounts — reconciliation");
+  console.log("=".repeat(50));
+  console.log();
+  console.log(`  Run:              ${result.run_id}`);
+  console.log(`  Accounts checked: ${result.accounts_checked}`);
+  console.log(`  Drifted:          ${result.drifted_accounts}`);
+  console.log();
+
+  if (result.drifted_accounts === 0) {
+    console.log("  All balances match the ledger.");
+    return;
+  }
+
+  console.table(
+    result.drift.map((d) => ({
+      user: d.user_id,
+      balance: d.balance ?? "(no account)",
+      ledger: d.ledger_balance,
+      drift: d.drift,
+    }))
+  );
+
+  if (result.fixed) {
+    console.log(`\n  Reset ${result.drifted_accounts} balance(s) to the ledger sum.`);
+    return;
+  }
+
+  console.log("\n  Re-run with --fix to reset these balances to the ledger sum.");
+  process.exit(2);
+}
+
+main().catch((err) => {
+  console.error("Fatal:", err);
+  process.exit(1);
+});
@@ -0,0 +1,43 @@
+/**
+ * scripts/run_tests.ts
+ *
+ * Runs every unit test file under src/ (*.test.ts, see src/lib/testing.ts),
+ * each in its own process so env changes in one file can't leak into the
+ * next. Exits non-zero if any file fails. Needs no database — the pricing
+ * parity check against SQL is scripts/test_pricing.ts (npm run test:pricing).
+ *
+ * Usage:
+ *   npm test
+ *   npx tsx scripts/run_tests.ts
+ */
+
+import { readdirSync } from "node:fs";
+import { join } from "node:path";
+import { spawnSync } from "node:child_process";
+
+const ROOT = "src";
+
+function main() {
+  const files = readdirSync(ROOT, { recursive: true, encoding: "utf8" })
+    .filter((f) => f.endsWith(".test.ts"))
+    .map((f) => join(ROOT, f))
+    .sort();
+
+  const failed: string[] = [];
+
+  for (const file of files) {
+    console.log(`\n--- ${file}`);
+    const result = spawnSync(process.execPath, ["--import", "tsx", file], {
+      stdio: "inherit",
+    });
+    if (result.status !== 0) failed.push(file);
+  }
+
+  console.log(`\n${files.length - failed.length}/${files.length} test files passed`);
+  if (failed.length > 0) {
+    for (const file of failed) console.error(`  ✗ ${file}`);
+    process.exit(1);
+  }
+}
+
+main();
@@ -1,155 +1,282 @@
 /**
  * scripts/test_pricing.ts
  *
- * Sanity-check script that mirrors the create_booking RPC pricing logic
- * and prints a breakdown for a set of sample durations.
+ * Parity check between the TypeScript quote (calculateRentalPrice in
+ * src/lib/pricing.ts) and the SQL implementation that create_booking
+ * charges with (compute_rental_price RPC).
+ *
+ * Runs a matrix of durations × hourly rates through both, for every
+ * pricing policy version in the database. Then, for every car unit with
+ * surge modifiers, runs a matrix of pick-up times × durations through
+ * calculateRentalPrice (with the unit's modifiers) and quote_booking_price.
+ * Exits non-zero on any mismatch.
  *
  * Usage:
  *   npx tsx scripts/test_pricing.ts
- *   npx tsx scripts/test_pricing.ts --rate 25    # custom hourly rate
+ *   npx tsx scripts/test_pricing.ts --rate 25    # single hourly rate
  */
 
+import { config } from "dotenv";
+config({ path: ".env.local" });
+
+import { createClient } from "@supabase/supabase-js";
+import {
+  calculateRentalPrice,
+  pricingPolicyFromRow,
+  rateModifierFromRow,
+  type PricingBreakdown,
+  type PricingPolicyRow,
+  type RateModifierRow,
+} from "../src/lib/pricing";
+
 // ---------------------------------------------------------------------------
-// Parse optional --rate flag (default 20 cr/hr)
+// Parse optional --rate flag (default: a spread of rates)
 // ---------------------------------------------------------------------------
 const rateFlag = process.argv.indexOf("--rate");
-const HOURLY_RATE =
-  rateFlag >= 0 ? parseInt(process.argv[rateFlag + 1], 10) : 20;
+const RATES =
+  rateFlag >= 0 ? [parseInt(process.argv[rateFlag + 1], 10)] : [1, 7, 10, 25];
 
-if (!Number.isFinite(HOURLY_RATE) || HOURLY_RATE <= 0) {
+if (RATES.some((r) => !Number.isFinite(r) || r <= 0)) {
   console.error("Invalid --rate value. Must be a positive integer.");
   process.exit(1);
 }
 
 // ---------------------------------------------------------------------------
-// Pricing logic (mirrors the SQL RPC exactly)
+// Duration matrix (minutes): every 30 min for the first two days, which
+// covers every cap/day boundary, plus daily steps across the weekly tier.
 // ---------------------------------------------------------------------------
-interface PricingResult {
-  label: string;
-  durationMinutes: number;
-  durationHours: number;
-  pricingMode: "HOURLY" | "DAY_CAP" | "WEEK_CAP";
-  hourlyRate: number;
-  dayPrice: number;
-  billableDays: number | null;
-  totalCredits: number;
-}
+const DURATIONS: number[] = [
+  ...Array.from({ length: 96 }, (_, i) => (i + 1) * 30),
+  61, 89, 299, 301, 1439, 1441,
+  ...Array.from({ length: 20 }, (_, i) => (i + 3) * 24 * 60),
+  7 * 24 * 60 - 30, 7 * 24 * 60 + 30, 10 * 24 * 60 + 90, 13 * 24 * 60 + 360,
+];
 
-function computePrice(
-  label: string,
-  durationMinutes: number,
-  hourlyRate: number
-): PricingResult {
-  const durationHours = durationMinutes / 60;
-  const dayPrice = hourlyRate * 5;
-
-  if (durationHours <= 5) {
-    // Straight hourly (ceil so partial hours round up)
-    const totalCredits = Math.ceil(hourlyRate * durationHours);
-    return {
-      label,
-      durationMinutes,
-      durationHours,
-      pricingMode: "HOURLY",
-      hourlyRate,
-      dayPrice,
-      billableDays: null,
-      totalCredits,
-    };
-  }
+// ---------------------------------------------------------------------------
+// Surge matrix: pick-ups every 90 min across a week (hits every local
+// half-hour position over time), × durations from one slot to several days.
+// Starts the Monday after the script runs, so future holidays are in range.
+// ---------------------------------------------------------------------------
+const SURGE_STARTS_MS: number[] = (() => {
+  const monday = new Date();
+  monday.setUTCHours(12, 0, 0, 0);
+  monday.setUTCDate(monday.getUTCDate() + ((8 - monday.getUTCDay()) % 7 || 7));
+  return Array.from({ length: 112 }, (_, i) => monday.getTime() + i * 90 * 60_000);
+})();
+const SURGE_DURATIONS = [30, 90, 240, 330, 24 * 60, 2 * 24 * 60 + 150, 8 * 24 * 60];
 
-  // Day/week cap pricing
-  const totalDays = Math.ceil(durationHours / 24);
-  const weeks = Math.floor(totalDays / 7);
-  const remainder = totalDays % 7;
-  const remBillable = Math.min(remainder, 5);
-  const billableDays = weeks * 5 + remBillable;
-  const totalCredits = billableDays * dayPrice;
-
-  const pricingMode: "DAY_CAP" | "WEEK_CAP" =
-    totalDays === 1 ? "DAY_CAP" : "WEEK_CAP";
-
-  return {
-    label,
-    durationMinutes,
-    durationHours,
-    pricingMode,
-    hourlyRate,
-    dayPrice,
-    billableDays,
-    totalCredits,
-  };
+// Fields compared between the TS breakdown and the SQL jsonb result
+interface SqlPrice {
+  policy_version: number;
+  total_credits: number;
+  pricing_mode: string;
+  full_weeks: number | null;
+  week_rate: number | null;
+  full_days: number | null;
+  remainder_hours: number;
+  remainder_cost: number;
+  day_rate: number;
+  duration_hours: number;
 }
 
-// ---------------------------------------------------------------------------
-// Sample durations
-// ---------------------------------------------------------------------------
-const samples: { label: string; minutes: number }[] = [
-  { label: "1 hour", minutes: 60 },
-  { label: "2.5 hours", minutes: 150 },
-  { label: "4 hours", minutes: 240 },
-  { label: "5 hours", minutes: 300 },
-  { label: "6 hours", minutes: 360 },
-  { label: "12 hours", minutes: 720 },
-  { label: "1 day (24 h)", minutes: 1440 },
-  { label: "2 days", minutes: 2880 },
-  { label: "5 days", minutes: 7200 },
-  { label: "7 days (1 week)", minutes: 10080 },
-  { label: "10 days", minutes: 14400 },
-  { label: "14 days (2 weeks)", minutes: 20160 },
-];
+function diff(ts: PricingBreakdown, sql: SqlPrice): string[] {
+  const pairs: [string, unknown, unknown][] = [
+    ["totalCredits", ts.totalCredits, sql.total_credits],
+    ["pricingMode", ts.pricingMode, sql.pricing_mode],
+    ["fullWeeks", ts.fullWeeks, sql.full_weeks],
+    ["weekRate", ts.weekRate, sql.week_rate],
+    ["fullDays", ts.fullDays, sql.full_days],
+    ["remainderHours", ts.remainderHours, sql.remainder_hours],
+    ["remainderCost", ts.remainderCost, sql.remainder_cost],
+    ["dayRate", ts.dayRate, sql.day_rate],
+    ["durationHours", ts.durationHours, sql.duration_hours],
+    ["policyVersion", ts.policyVersion, sql.policy_version],
+  ];
+  return pairs
+    .filter(([, a, b]) => a !== b)
+    .map(([field, a, b]) => `${field}: ts=${a} sql=${b}`);
+}
 
-// ---------------------------------------------------------------------------
-// Print results
-// ---------------------------------------------------------------------------
-console.log("=".repeat(80));
-console.log(
-  `ForzaCars Pricing Sanity Check — hourly rate: ${HOURLY_RATE} cr/hr`
-);
-console.log("=".repeat(80));
-console.log();
-
-const PAD = {
-  label: 20,
-  hrs: 8,
-  mode: 10,
-  days: 6,
-  total: 8,
-};
-
-function pad(s: string, n: number) {
-  return s.padEnd(n);
+interface SqlQuote {
+  total_credits: number;
+  base_credits: number;
+  surcharge_credits: number;
+  surcharges: { modifier_id: string; hours: number; credits: number }[];
 }
-function rpad(s: string, n: number) {
-  return s.padStart(n);
+
+function diffQuote(ts: PricingBreakdown, sql: SqlQuote): string[] {
+  const tsLines = ts.surcharges.map((l) => `${l.modifierId}:${l.hours}h:${l.credits}`);
+  const sqlLines = sql.surcharges.map((l) => `${l.modifier_id}:${l.hours}h:${l.credits}`);
+  const pairs: [string, unknown, unknown][] = [
+    ["totalCredits", ts.totalCredits, sql.total_credits],
+    ["baseCredits", ts.baseCredits, sql.base_credits],
+    ["surchargeCredits", ts.surchargeCredits, sql.surcharge_credits],
+    ["surcharges", tsLines.join(","), sqlLines.join(",")],
+  ];
+  return pairs
+    .filter(([, a, b]) => a !== b)
+    .map(([field, a, b]) => `${field}: ts=${a} sql=${b}`);
 }
 
-console.log(
-  pad("Duration", PAD.label) +
-    rpad("Hours", PAD.hrs) +
-    "  " +
-    pad("Mode", PAD.mode) +
-    rpad("Days", PAD.days) +
-    "  " +
-    rpad("Total", PAD.total)
-);
-console.log("-".repeat(PAD.label + PAD.hrs + PAD.mode + PAD.days + PAD.total + 4));
-
-for (const s of samples) {
-  const r = computePrice(s.label, s.minutes, HOURLY_RATE);
-  console.log(
-    pad(r.label, PAD.label) +
-      rpad(r.durationHours.toString(), PAD.hrs) +
-      "  " +
-      pad(r.pricingMode, PAD.mode) +
-      rpad(r.billableDays?.toString() ?? "-", PAD.days) +
-      "  " +
-      rpad(`${r.totalCredits} cr`, PAD.total)
-  );
+async function main() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!url || !key) {
+    console.error(
+      "Missing NEXT_PUBLIC_SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY in .env.local"
+    );
+    process.exit(1);
+  }
+
+  const supabase = createClient(url, key, {
+    auth: { persistSession: false },
+  });
+
+  const { data: rows, error } = await supabase
+    .from("pricing_policies")
+    .select("id, version, day_cap_hours, hours_per_day, min_duration_minutes, weekly_billable_days")
+    .order("version");
+
+  if (error || !rows || rows.length === 0) {
+    console.error("Could not load pricing_policies:", error?.message ?? "no rows");
+    process.exit(1);
+  }
+
+  let checked = 0;
+  let failures = 0;
+
+  for (const row of rows as PricingPolicyRow[]) {
+    const policy = pricingPolicyFromRow(row);
+    console.log(
+      `Policy v${policy.version}: ${policy.dayCapHours}h cap, ` +
+        `${policy.hoursPerDay}h days, min ${policy.minDurationMinutes} min` +
+        (policy.weeklyBillableDays ? `, week = ${policy.weeklyBillableDays} days` : "")
+    );
+
+    for (const rate of RATES) {
+      for (const minutes of DURATIONS) {
+        const ts = calculateRentalPrice(minutes, rate, policy);
+
+        const { data, error: rpcError } = await supabase.rpc(
+          "compute_rental_price",
+          {
+            p_duration_min: minutes,
+            p_hourly_rate: rate,
+            p_policy_id: policy.id,
+          }
+        );
+
+        checked++;
+
+        if (rpcError) {
+          failures++;
+          console.error(`  ✗ ${minutes} min @ ${rate} cr/hr: ${rpcError.message}`);
+          continue;
+        }
+
+        const mismatches = diff(ts, data as SqlPrice);
+        if (mismatches.length > 0) {
+          failures++;
+          console.error(`  ✗ ${minutes} min @ ${rate} cr/hr: ${mismatches.join(", ")}`);
+        }
+      }
+    }
+  }
+
+  // ---- Surge parity ----
+  const { data: modifierRows, error: modifierError } = await supabase
+    .from("rate_modifiers")
+    .select("id, business_id, car_unit_id, kind, label, multiplier_pct, days_of_week, start_time, end_time, holiday_date")
+    .eq("active", true);
+
+  if (modifierError) {
+    console.error("Could not load rate_modifiers:", modifierError.message);
+    process.exit(1);
+  }
+
+  const modifiers = (modifierRows ?? []) as (RateModifierRow & {
+    business_id: string;
+    car_unit_id: string | null;
+  })[];
+
+  const { data: units } = modifiers.length
+    ? await supabase
+        .from("car_units")
+        .select("id, business_id, credits_per_hour, car_models ( suggested_credits_per_hour )")
+        .in("business_id", Array.from(new Set(modifiers.map((m) => m.business_id))))
+        .eq("active", true)
+    : { data: [] };
+
+  if (!units || units.length === 0) {
+    console.log("\nNo car units with surge modifiers — skipping surge parity.");
+  } else {
+    const { data: policyRows } = await supabase.rpc("unit_pricing_policies", {
+      p_unit_ids: units.map((u) => u.id),
+    });
+    const unitPolicies = new Map(
+      ((policyRows ?? []) as (PricingPolicyRow & { car_unit_id: string })[]).map((r) => [
+        r.car_unit_id,
+        pricingPolicyFromRow(r),
+      ])
+    );
+
+    for (const unit of units) {
+      const model = unit.car_models as unknown as { suggested_credits_per_hour: number | null } | null;
+      const rate = unit.credits_per_hour ?? model?.suggested_credits_per_hour;
+      const policy = unitPolicies.get(unit.id);
+      if (!rate || !policy) continue;
+
+      const unitModifiers = modifiers
+        .filter(
+          (m) =>
+            m.business_id === unit.business_id &&
+            (m.car_unit_id === null || m.car_unit_id === unit.id)
+        )
+        .map(rateModifierFromRow);
+
+      console.log(
+        `\nUnit ${unit.id}: ${rate} cr/hr, policy v${policy.version}, ` +
+          `${unitModifiers.length} modifier(s)`
+      );
+
+      for (const startMs of SURGE_STARTS_MS) {
+        for (const minutes of SURGE_DURATIONS) {
+          const start = new Date(startMs).toISOString();
+          const end = new Date(startMs + minutes * 60_000).toISOString();
+          const ts = calculateRentalPrice(minutes, rate, policy, {
+            start,
+            end,
+            modifiers: unitModifiers,
+          });
+
+          const { data, error: rpcError } = await supabase.rpc("quote_booking_price", {
+            p_car_unit_id: unit.id,
+            p_start_ts: start,
+            p_end_ts: end,
+          });
+
+          checked++;
+
+          if (rpcError) {
+            failures++;
+            console.error(`  ✗ ${start} + ${minutes} min: ${rpcError.message}`);
+            continue;
+          }
+
+          const mismatches = diffQuote(ts, data as SqlQuote);
+          if (mismatches.length > 0) {
+            failures++;
+            console.error(`  ✗ ${start} + ${minutes} min: ${mismatches.join(", ")}`);
+          }
+        }
+      }
+    }
+  }
+
+  console.log();
+  console.log(`${checked} quotes checked, ${failures} mismatch(es).`);
+  if (failures > 0) process.exit(1);
 }
 
-console.log();
-console.log(`Day price (5 h cap): ${HOURLY_RATE * 5} cr`);
-console.log(`Week price (5 days): ${HOURLY_RATE * 5 * 5} cr`);
-console.log();
-console.log("Done.");
+main();
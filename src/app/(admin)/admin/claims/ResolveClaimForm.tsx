@@ -0,0 +1,66 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { resolveDamageClaim } from "./actions";
+
+/**
+ * Decide a damage claim: how much of the claimed amount the business keeps
+ * (0 rejects it) and why. The customer is messaged the note.
+ */
+export default function ResolveClaimForm({
+  claimId,
+  amount,
+}: {
+  claimId: string;
+  /** Credits claimed by the business (the most that can be kept) */
+  amount: number;
+}) {
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+
+  function handleSubmit(formData: FormData) {
+    setError(null);
+    startTransition(async () => {
+      const res = await resolveDamageClaim(formData);
+      if (!res.success) setError(res.error ?? "Failed");
+    });
+  }
+
+  return (
+    <form action={handleSubmit} className="space-y-3">
+      <input type="hidden" name="claim_id" value={claimId} />
+      <div className="flex flex-wrap items-end gap-3">
+        <label className="flex flex-col gap-1 text-xs font-medium text-gray-500">
+          Credits kept (0–{amount})
+          <input
+            name="captured"
+            type="number"
+            min={0}
+            max={amount}
+            defaultValue={amount}
+            required
+            className="h-9 w-28 rounded-lg border border-gray-300 px-2 text-sm text-gray-900"
+          />
+        </label>
+        <label className="flex min-w-64 flex-1 flex-col gap-1 text-xs font-medium text-gray-500">
+          Decision note (sent to the customer)
+          <input
+            name="note"
+            type="text"
+            maxLength={2000}
+            required
+            className="h-9 rounded-lg border border-gray-300 px-2 text-sm text-gray-900"
+          />
+        </label>
+        <button
+          type="submit"
+          disabled={isPending}
+          className="h-9 rounded-lg bg-gray-900 px-4 text-sm font-medium text-white hover:bg-gray-700 disabled:opacity-50"
+        >
+          {isPending ? "Resolving…" : "Resolve"}
+        </button>
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </form>
+  );
+}
@@ -0,0 +1,60 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+import { createClient } from "@/lib/supabase/server";
+import { getProfile } from "@/lib/auth/getProfile";
+import { rateLimit } from "@/lib/rateLimit";
+
+interface ActionResult {
+  success: boolean;
+  error?: string;
+}
+
+const resolveSchema = z.object({
+  claim_id: z.string().uuid("Invalid damage claim"),
+  captured: z.coerce
+    .number("Enter the credits to keep")
+    .int("Keep a whole number of credits")
+    .min(0, "Credits kept can't be negative"),
+  note: z
+    .string()
+    .trim()
+    .min(1, "Explain the decision")
+    .max(2000, "Note must be 2000 characters or fewer"),
+});
+
+// ---------------------------------------------------------------------------
+// Resolve a damage claim  (calls the admin_resolve_damage_claim RPC)
+// ---------------------------------------------------------------------------
+
+export async function resolveDamageClaim(formData: FormData): Promise<ActionResult> {
+  const profile = await getProfile();
+  if (!profile || profile.role !== "ADMIN") {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  const rl = rateLimit(`${profile.id}:admin_claim`, 20, 60_000);
+  if (!rl.ok) return { success: false, error: "Too many requests." };
+
+  const parsed = resolveSchema.safeParse({
+    claim_id: formData.get("claim_id") ?? "",
+    captured: formData.get("captured") ?? "",
+    note: formData.get("note") ?? "",
+  });
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.issues[0].message };
+  }
+
+  const supabase = await createClient();
+  const { error } = await supabase.rpc("admin_resolve_damage_claim", {
+    p_claim_id: parsed.data.claim_id,
+    p_captured: parsed.data.captured,
+    p_note: parsed.data.note,
+  });
+
+  if (error) return { success: false, error: error.message };
+
+  revalidatePath("/admin/claims");
+  return { success: true };
+}
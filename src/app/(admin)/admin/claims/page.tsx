@@ -0,0 +1,166 @@
+import { createClient } from "@/lib/supabase/server";
+import { formatDateRange, TIMEZONE_LABEL } from "@/lib/timezone";
+import { CONDITION_REPORT_KINDS, CONDITION_REPORT_LABELS } from "@/lib/conditionReport";
+import { getBookingConditionReports } from "@/lib/bookingConditionReports";
+import { DAMAGE_CLAIM_COLUMNS, type DamageClaim } from "@/lib/deposits";
+import ConditionReportView from "@/components/ConditionReportView";
+import DamageClaimSummary from "@/components/DamageClaimSummary";
+import ResolveClaimForm from "./ResolveClaimForm";
+
+export const metadata = { title: "Damage Claims — ForzaCars" };
+
+interface ClaimRow extends DamageClaim {
+  booking_id: string;
+  bookings: {
+    start_ts: string;
+    end_ts: string;
+    car_units: {
+      display_name: string | null;
+      vin: string;
+      car_models: { display_name: string } | null;
+    } | null;
+  } | null;
+  businesses: { name: string } | null;
+  customer: { email: string } | null;
+  booking_deposits: { amount: number } | null;
+}
+
+const CLAIM_SELECT = `
+  ${DAMAGE_CLAIM_COLUMNS},
+  booking_id,
+  bookings ( start_ts, end_ts, car_units ( display_name, vin, car_models ( display_name ) ) ),
+  businesses ( name ),
+  customer:profiles!damage_claims_customer_id_fkey ( email ),
+  booking_deposits ( amount )
+`;
+
+export default async function AdminClaimsPage() {
+  const supabase = await createClient();
+
+  // RLS: admins can read every claim, deposit and condition report
+  const { data: openRows } = await supabase
+    .from("damage_claims")
+    .select(CLAIM_SELECT)
+    .in("status", ["OPEN", "DISPUTED"])
+    .order("created_at", { ascending: true });
+
+  const { data: settledRows } = await supabase
+    .from("damage_claims")
+    .select(CLAIM_SELECT)
+    .in("status", ["ACCEPTED", "RESOLVED"])
+    .order("created_at", { ascending: false })
+    .limit(20);
+
+  // Disputes first; claims the customer hasn't answered can be decided too
+  const open = ((openRows ?? []) as unknown as ClaimRow[]).sort(
+    (a, b) => Number(b.status === "DISPUTED") - Number(a.status === "DISPUTED")
+  );
+  const settled = (settledRows ?? []) as unknown as ClaimRow[];
+
+  const evidence = await Promise.all(
+    open.map((c) => getBookingConditionReports(c.booking_id))
+  );
+
+  return (
+    <section className="mx-auto max-w-5xl px-6 py-10">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight text-gray-900">
+          Damage Claims
+        </h1>
+        <p className="mt-1 text-gray-500">
+          Businesses&apos; claims against security deposits. Disputed claims need
+          a decision; the customer is messaged the outcome and whatever isn&apos;t
+          kept is returned to their wallet.
+          <span className="ml-2 text-xs text-gray-400">
+            · Times shown in {TIMEZONE_LABEL}
+          </span>
+        </p>
+      </div>
+
+      <div className="mt-8">
+        <h2 className="text-lg font-semibold text-gray-900">
+          Open
+          <span className="ml-2 text-sm font-normal text-gray-400">({open.length})</span>
+        </h2>
+
+        {open.length === 0 ? (
+          <p className="mt-4 text-sm text-gray-400">No open claims.</p>
+        ) : (
+          <ul className="mt-4 space-y-4">
+            {open.map((claim, i) => (
+              <li
+                key={claim.id}
+                className="rounded-xl border border-gray-200 bg-white p-6 shadow-sm"
+              >
+                <ClaimHeader claim={claim} />
+                <div className="mt-4">
+                  <DamageClaimSummary
+                    claim={claim}
+                    deposit={claim.booking_deposits?.amount ?? claim.amount_credits}
+                  />
+                </div>
+
+                <div className="mt-6 grid gap-6 border-t border-gray-100 pt-4 sm:grid-cols-2">
+                  {CONDITION_REPORT_KINDS.map((kind) => (
+                    <div key={kind}>
+                      <h3 className="mb-2 text-sm font-semibold text-gray-700">
+                        {CONDITION_REPORT_LABELS[kind]} condition
+                      </h3>
+                      <ConditionReportView kind={kind} report={evidence[i].get(kind)} />
+                    </div>
+                  ))}
+                </div>
+
+                <div className="mt-6 border-t border-gray-100 pt-4">
+                  <ResolveClaimForm claimId={claim.id} amount={claim.amount_credits} />
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {settled.length > 0 && (
+        <div className="mt-10">
+          <h2 className="text-lg font-semibold text-gray-900">Recently settled</h2>
+          <ul className="mt-4 space-y-4">
+            {settled.map((claim) => (
+              <li
+                key={claim.id}
+                className="rounded-xl border border-gray-200 bg-white p-6 shadow-sm"
+              >
+                <ClaimHeader claim={claim} />
+                <div className="mt-4">
+                  <DamageClaimSummary
+                    claim={claim}
+                    deposit={claim.booking_deposits?.amount ?? claim.amount_credits}
+                  />
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </section>
+  );
+}
+
+function ClaimHeader({ claim }: { claim: ClaimRow }) {
+  const unit = claim.bookings?.car_units;
+  const unitName = unit?.display_name ?? unit?.car_models?.display_name ?? unit?.vin ?? "Unit";
+
+  return (
+    <div>
+      <p className="font-semibold text-gray-900">
+        {unitName}
+        <span className="ml-2 text-sm font-normal text-gray-500">
+          {claim.businesses?.name ?? "—"}
+        </span>
+      </p>
+      <p className="mt-0.5 text-sm text-gray-500">
+        {claim.customer?.email ?? "—"}
+        {claim.bookings && ` · ${formatDateRange(claim.bookings.start_ts, claim.bookings.end_ts)}`}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,258 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { decisionStatus, type CreditRequestStatus } from "@/lib/creditRequests";
+import { formatUtcForDisplay } from "@/lib/timezone";
+import { decideCreditRequest, decideCreditRequests } from "./actions";
+
+const DECIDE_LABELS: Record<Exclude<CreditRequestStatus, "PENDING">, string> = {
+  APPROVED: "Approve",
+  PARTIALLY_APPROVED: "Approve part",
+  DENIED: "Deny",
+};
+
+export interface PendingCreditRequest {
+  id: string;
+  amount: number;
+  note: string | null;
+  created_at: string;
+  email: string | null;
+}
+
+/**
+ * Pending credit requests: tick several to approve or deny them together,
+ * approve one in full with a click, or open a row to approve part of it.
+ */
+export default function CreditRequestQueue({
+  requests,
+}: {
+  requests: PendingCreditRequest[];
+}) {
+  const [isPending, startTransition] = useTransition();
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [bulkNote, setBulkNote] = useState("");
+
+  const allSelected = requests.length > 0 && selected.size === requests.length;
+
+  function toggle(id: string) {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  }
+
+  function run(action: () => Promise<{ success: boolean; error?: string; decided?: number }>) {
+    setError(null);
+    setNotice(null);
+    startTransition(async () => {
+      const res = await action();
+      if (!res.success) {
+        setError(res.error ?? "Failed");
+        return;
+      }
+      setSelected(new Set());
+      setOpenId(null);
+      setBulkNote("");
+      setNotice(`${res.decided ?? 0} request${res.decided === 1 ? "" : "s"} decided.`);
+    });
+  }
+
+  function decideSelected(decision: "approve" | "deny") {
+    const formData = new FormData();
+    for (const id of selected) formData.append("request_id", id);
+    formData.set("decision", decision);
+    formData.set("note", bulkNote);
+    run(() => decideCreditRequests(formData));
+  }
+
+  function approveInFull(request: PendingCreditRequest) {
+    const formData = new FormData();
+    formData.set("request_id", request.id);
+    formData.set("approved", String(request.amount));
+    formData.set("note", "");
+    run(() => decideCreditRequest(formData));
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Bulk actions */}
+      <div className="flex flex-wrap items-end gap-3 rounded-xl border border-gray-200 bg-gray-50 p-4">
+        <label className="flex min-w-64 flex-1 flex-col gap-1 text-xs font-medium text-gray-500">
+          Note for the selected requests (optional, shown to the customer)
+          <input
+            type="text"
+            maxLength={500}
+            value={bulkNote}
+            onChange={(e) => setBulkNote(e.target.value)}
+            className="h-9 rounded-lg border border-gray-300 bg-white px-2 text-sm text-gray-900"
+          />
+        </label>
+        <button
+          type="button"
+          onClick={() => decideSelected("approve")}
+          disabled={isPending || selected.size === 0}
+          className="h-9 rounded-lg bg-green-600 px-4 text-sm font-medium text-white hover:bg-green-700 disabled:opacity-50"
+        >
+          Approve selected ({selected.size})
+        </button>
+        <button
+          type="button"
+          onClick={() => decideSelected("deny")}
+          disabled={isPending || selected.size === 0}
+          className="h-9 rounded-lg bg-red-600 px-4 text-sm font-medium text-white hover:bg-red-700 disabled:opacity-50"
+        >
+          Deny selected ({selected.size})
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {notice && <p className="text-sm text-green-700">{notice}</p>}
+
+      <div className="overflow-hidden rounded-xl border border-gray-200 bg-white shadow-sm">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50 text-left text-xs font-semibold uppercase tracking-wider text-gray-500">
+            <tr>
+              <th className="w-10 px-4 py-3">
+                <input
+                  type="checkbox"
+                  aria-label="Select all"
+                  checked={allSelected}
+                  onChange={() =>
+                    setSelected(allSelected ? new Set() : new Set(requests.map((r) => r.id)))
+                  }
+                />
+              </th>
+              <th className="px-4 py-3">Customer</th>
+              <th className="px-4 py-3">Credits</th>
+              <th className="px-4 py-3">Note</th>
+              <th className="px-4 py-3">Requested</th>
+              <th className="px-4 py-3 text-right">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {requests.map((request) => (
+              <RequestRow
+                key={request.id}
+                request={request}
+                checked={selected.has(request.id)}
+                open={openId === request.id}
+                disabled={isPending}
+                onToggle={() => toggle(request.id)}
+                onOpen={() => setOpenId(openId === request.id ? null : request.id)}
+                onApprove={() => approveInFull(request)}
+                onDecide={(formData) => run(() => decideCreditRequest(formData))}
+              />
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+function RequestRow({
+  request,
+  checked,
+  open,
+  disabled,
+  onToggle,
+  onOpen,
+  onApprove,
+  onDecide,
+}: {
+  request: PendingCreditRequest;
+  checked: boolean;
+  open: boolean;
+  disabled: boolean;
+  onToggle: () => void;
+  onOpen: () => void;
+  onApprove: () => void;
+  onDecide: (formData: FormData) => void;
+}) {
+  const [approved, setApproved] = useState(request.amount);
+
+  return (
+    <>
+      <tr className={checked ? "bg-indigo-50/50" : undefined}>
+        <td className="px-4 py-3">
+          <input
+            type="checkbox"
+            aria-label={`Select request from ${request.email ?? "customer"}`}
+            checked={checked}
+            onChange={onToggle}
+          />
+        </td>
+        <td className="px-4 py-3 text-gray-900">{request.email ?? "—"}</td>
+        <td className="px-4 py-3 font-semibold text-gray-900">{request.amount}</td>
+        <td className="max-w-xs px-4 py-3 text-gray-600">
+          <p className="line-clamp-2">{request.note ?? "—"}</p>
+        </td>
+        <td className="whitespace-nowrap px-4 py-3 text-gray-500">
+          {formatUtcForDisplay(request.created_at, "MMM d, h:mm a")}
+        </td>
+        <td className="whitespace-nowrap px-4 py-3 text-right">
+          <button
+            type="button"
+            onClick={onApprove}
+            disabled={disabled}
+            className="rounded-md bg-green-600 px-3 py-1 text-xs font-medium text-white hover:bg-green-700 disabled:opacity-50"
+          >
+            Approve
+          </button>
+          <button
+            type="button"
+            onClick={onOpen}
+            disabled={disabled}
+            className="ml-2 rounded-md border border-gray-300 px-3 py-1 text-xs font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            {open ? "Close" : "Decide…"}
+          </button>
+        </td>
+      </tr>
+      {open && (
+        <tr className="bg-gray-50">
+          <td />
+          <td colSpan={5} className="px-4 py-3">
+            <form action={onDecide} className="flex flex-wrap items-end gap-3">
+              <input type="hidden" name="request_id" value={request.id} />
+              <label className="flex flex-col gap-1 text-xs font-medium text-gray-500">
+                Credits approved (0–{request.amount})
+                <input
+                  name="approved"
+                  type="number"
+                  min={0}
+                  max={request.amount}
+                  value={approved}
+                  onChange={(e) => setApproved(Number(e.target.value))}
+                  required
+                  className="h-9 w-28 rounded-lg border border-gray-300 bg-white px-2 text-sm text-gray-900"
+                />
+              </label>
+              <label className="flex min-w-64 flex-1 flex-col gap-1 text-xs font-medium text-gray-500">
+                Note (optional, shown to the customer)
+                <input
+                  name="note"
+                  type="text"
+                  maxLength={500}
+                  className="h-9 rounded-lg border border-gray-300 bg-white px-2 text-sm text-gray-900"
+                />
+              </label>
+              <button
+                type="submit"
+                disabled={disabled}
+                className="h-9 rounded-lg bg-gray-900 px-4 text-sm font-medium text-white hover:bg-gray-700 disabled:opacity-50"
+              >
+                {DECIDE_LABELS[decisionStatus(request.amount, approved)]}
+              </button>
+            </form>
+          </td>
+        </tr>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,108 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+import { createClient } from "@/lib/supabase/server";
+import { getProfile } from "@/lib/auth/getProfile";
+import { rateLimit } from "@/lib/rateLimit";
+
+interface ActionResult {
+  success: boolean;
+  error?: string;
+  decided?: number;
+}
+
+const noteSchema = z
+  .string()
+  .trim()
+  .max(500, "Note must be 500 characters or fewer");
+
+const decideSchema = z.object({
+  request_id: z.string().uuid("Invalid credit request"),
+  approved: z.coerce
+    .number("Enter the credits to approve")
+    .int("Approve a whole number of credits")
+    .min(0, "Approved credits can't be negative"),
+  note: noteSchema,
+});
+
+const bulkSchema = z.object({
+  request_ids: z
+    .array(z.string().uuid("Invalid credit request"))
+    .min(1, "Select at least one request")
+    .max(100, "Decide at most 100 requests at a time"),
+  decision: z.enum(["approve", "deny"], "Choose approve or deny"),
+  note: noteSchema,
+});
+
+// ---------------------------------------------------------------------------
+// Decide one request — approve some or all of it, or 0 to deny
+// (calls the admin_decide_credit_request RPC)
+// ---------------------------------------------------------------------------
+
+export async function decideCreditRequest(formData: FormData): Promise<ActionResult> {
+  const profile = await getProfile();
+  if (!profile || profile.role !== "ADMIN") {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  const rl = rateLimit(`${profile.id}:admin_credit_request`, 30, 60_000);
+  if (!rl.ok) return { success: false, error: "Too many requests." };
+
+  const parsed = decideSchema.safeParse({
+    request_id: formData.get("request_id") ?? "",
+    approved: formData.get("approved") ?? "",
+    note: formData.get("note") ?? "",
+  });
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.issues[0].message };
+  }
+
+  const supabase = await createClient();
+  const { error } = await supabase.rpc("admin_decide_credit_request", {
+    p_request_id: parsed.data.request_id,
+    p_approved: parsed.data.approved,
+    p_note: parsed.data.note,
+  });
+
+  if (error) return { success: false, error: error.message };
+
+  revalidatePath("/admin/credit-requests");
+  return { success: true, decided: 1 };
+}
+
+// ---------------------------------------------------------------------------
+// Bulk approve (in full) or deny the selected requests
+// (calls the admin_decide_credit_requests RPC)
+// ---------------------------------------------------------------------------
+
+export async function decideCreditRequests(formData: FormData): Promise<ActionResult> {
+  const profile = await getProfile();
+  if (!profile || profile.role !== "ADMIN") {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  const rl = rateLimit(`${profile.id}:admin_credit_request`, 30, 60_000);
+  if (!rl.ok) return { success: false, error: "Too many requests." };
+
+  const parsed = bulkSchema.safeParse({
+    request_ids: formData.getAll("request_id"),
+    decision: formData.get("decision") ?? "",
+    note: formData.get("note") ?? "",
+  });
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.issues[0].message };
+  }
+
+  const supabase = await createClient();
+  const { data, error } = await supabase.rpc("admin_decide_credit_requests", {
+    p_request_ids: parsed.data.request_ids,
+    p_approve: parsed.data.decision === "approve",
+    p_note: parsed.data.note,
+  });
+
+  if (error) return { success: false, error: error.message };
+
+  revalidatePath("/admin/credit-requests");
+  return { success: true, decided: data as number };
+}
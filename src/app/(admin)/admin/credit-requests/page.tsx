@@ -0,0 +1,119 @@
+import { createClient } from "@/lib/supabase/server";
+import { formatUtcForDisplay, TIMEZONE_LABEL } from "@/lib/timezone";
+import {
+  CREDIT_REQUEST_COLUMNS,
+  CREDIT_REQUEST_STATUS_LABELS,
+  CREDIT_REQUEST_STATUS_STYLES,
+  type CreditRequest,
+} from "@/lib/creditRequests";
+import CreditRequestQueue, { type PendingCreditRequest } from "./CreditRequestQueue";
+
+export const metadata = { title: "Credit Requests — ForzaCars" };
+
+interface RequestRow extends CreditRequest {
+  customer: { email: string } | null;
+  decider: { email: string } | null;
+}
+
+const REQUEST_SELECT = `
+  ${CREDIT_REQUEST_COLUMNS},
+  customer:profiles!credit_requests_user_id_fkey ( email ),
+  decider:profiles!credit_requests_decided_by_fkey ( email )
+`;
+
+export default async function AdminCreditRequestsPage() {
+  const supabase = await createClient();
+
+  // RLS: admins can read every request; oldest first so nobody waits long
+  const { data: pendingRows } = await supabase
+    .from("credit_requests")
+    .select(REQUEST_SELECT)
+    .eq("status", "PENDING")
+    .order("created_at", { ascending: true });
+
+  const { data: decidedRows } = await supabase
+    .from("credit_requests")
+    .select(REQUEST_SELECT)
+    .neq("status", "PENDING")
+    .order("decided_at", { ascending: false })
+    .limit(20);
+
+  const pending: PendingCreditRequest[] = (
+    (pendingRows ?? []) as unknown as RequestRow[]
+  ).map((r) => ({
+    id: r.id,
+    amount: r.amount,
+    note: r.note,
+    created_at: r.created_at,
+    email: r.customer?.email ?? null,
+  }));
+  const decided = (decidedRows ?? []) as unknown as RequestRow[];
+
+  return (
+    <section className="mx-auto max-w-5xl px-6 py-10">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight text-gray-900">
+          Credit Requests
+        </h1>
+        <p className="mt-1 text-gray-500">
+          Customers&apos; requests for credits. Approved credits are added to the
+          customer&apos;s wallet straight away; they see each decision and note on
+          their wallet page.
+          <span className="ml-2 text-xs text-gray-400">
+            · Times shown in {TIMEZONE_LABEL}
+          </span>
+        </p>
+      </div>
+
+      <div className="mt-8">
+        <h2 className="text-lg font-semibold text-gray-900">
+          Pending
+          <span className="ml-2 text-sm font-normal text-gray-400">({pending.length})</span>
+        </h2>
+
+        {pending.length === 0 ? (
+          <p className="mt-4 text-sm text-gray-400">No pending requests.</p>
+        ) : (
+          <div className="mt-4">
+            <CreditRequestQueue requests={pending} />
+          </div>
+        )}
+      </div>
+
+      {decided.length > 0 && (
+        <div className="mt-10">
+          <h2 className="text-lg font-semibold text-gray-900">Recently decided</h2>
+          <ul className="mt-4 divide-y divide-gray-100 rounded-xl border border-gray-200 bg-white shadow-sm">
+            {decided.map((request) => (
+              <li key={request.id} className="px-5 py-4">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900">
+                      {request.customer?.email ?? "—"}
+                      <span className="ml-2 font-normal text-gray-500">
+                        {request.approved_credits} of {request.amount} credits
+                      </span>
+                    </p>
+                    <p className="mt-0.5 text-xs text-gray-400">
+                      {request.decided_at &&
+                        formatUtcForDisplay(request.decided_at, "MMM d, h:mm a")}
+                      {request.decider && ` · by ${request.decider.email}`}
+                      {request.decision_note && ` · ${request.decision_note}`}
+                    </p>
+                  </div>
+                  <span
+                    className={`shrink-0 rounded-full px-2.5 py-0.5 text-xs font-medium ${
+                      CREDIT_REQUEST_STATUS_STYLES[request.status]
+                    }`}
+                  >
+                    {CREDIT_REQUEST_STATUS_LABELS[request.status]}
+                  </span>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </section>
+  );
+}
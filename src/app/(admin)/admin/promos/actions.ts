@@ -0,0 +1,80 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+import { createClient } from "@/lib/supabase/server";
+import { getProfile } from "@/lib/auth/getProfile";
+import { rateLimit } from "@/lib/rateLimit";
+import { promoCodeFormValues, promoCodeRow, promoCodeSchema } from "@/lib/promoCodes";
+
+interface ActionResult {
+  success: boolean;
+  error?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Create promo code (platform-wide or for one business)
+// ---------------------------------------------------------------------------
+
+export async function createPromoCode(formData: FormData): Promise<ActionResult> {
+  const profile = await getProfile();
+  if (!profile || profile.role !== "ADMIN") {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  const rl = rateLimit(`${profile.id}:admin_promo`, 10, 60_000);
+  if (!rl.ok) return { success: false, error: "Too many requests." };
+
+  const parsed = promoCodeSchema.safeParse(promoCodeFormValues(formData));
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.issues[0].message };
+  }
+
+  const businessId = (formData.get("business_id") as string) || null;
+  if (businessId && !z.string().uuid().safeParse(businessId).success) {
+    return { success: false, error: "Invalid business" };
+  }
+
+  // RLS: admin can insert any promo code
+  const supabase = await createClient();
+  const { error } = await supabase.from("promo_codes").insert({
+    ...promoCodeRow(parsed.data),
+    business_id: businessId,
+    created_by: profile.id,
+  });
+
+  if (error) {
+    if (error.message.includes("duplicate") || error.message.includes("unique")) {
+      return { success: false, error: "That code already exists." };
+    }
+    return { success: false, error: error.message };
+  }
+
+  revalidatePath("/admin/promos");
+  return { success: true };
+}
+
+// ---------------------------------------------------------------------------
+// Activate / deactivate promo code
+// ---------------------------------------------------------------------------
+
+export async function setPromoCodeActive(
+  promoId: string,
+  active: boolean
+): Promise<ActionResult> {
+  const profile = await getProfile();
+  if (!profile || profile.role !== "ADMIN") {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  const supabase = await createClient();
+  const { error } = await supabase
+    .from("promo_codes")
+    .update({ active })
+    .eq("id", promoId);
+
+  if (error) return { success: false, error: error.message };
+
+  revalidatePath("/admin/promos");
+  return { success: true };
+}
@@ -0,0 +1,67 @@
+import { createClient } from "@/lib/supabase/server";
+import PromoCodeForm from "@/components/PromoCodeForm";
+import PromoCodeTable from "@/components/PromoCodeTable";
+import type { PromoCodeListItem } from "@/components/PromoCodeRow";
+import { createPromoCode, setPromoCodeActive } from "./actions";
+
+export default async function AdminPromosPage() {
+  const supabase = await createClient();
+
+  // RLS: admin can read all promo codes and businesses
+  const { data: promos } = await supabase
+    .from("promo_codes")
+    .select("id, code, business_id, discount_type, discount_value, pi_class, first_booking_only, max_uses_per_user, max_redemptions, starts_at, expires_at, active")
+    .order("created_at", { ascending: false });
+
+  const { data: businesses } = await supabase
+    .from("businesses")
+    .select("id, name")
+    .order("name");
+
+  // Redemptions = non-canceled bookings carrying the code
+  const { data: redeemed } = promos?.length
+    ? await supabase
+        .from("bookings")
+        .select("promo_code_id")
+        .in("promo_code_id", promos.map((p) => p.id))
+        .neq("status", "CANCELED")
+    : { data: [] };
+
+  const redemptionMap = new Map<string, number>();
+  for (const row of redeemed ?? []) {
+    const pid = row.promo_code_id as string;
+    redemptionMap.set(pid, (redemptionMap.get(pid) ?? 0) + 1);
+  }
+
+  const businessNames = new Map((businesses ?? []).map((b) => [b.id, b.name as string]));
+
+  const items: PromoCodeListItem[] = (promos ?? []).map((p) => ({
+    ...p,
+    scope_label: p.business_id
+      ? businessNames.get(p.business_id) ?? "—"
+      : "All businesses",
+    redemptions: redemptionMap.get(p.id) ?? 0,
+  }));
+
+  return (
+    <section className="mx-auto max-w-7xl px-6 py-10">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight text-gray-900">
+          Promo Codes
+        </h1>
+        <p className="mt-1 text-gray-500">
+          Platform-wide codes and every business&apos;s codes. Deactivated codes
+          can no longer be redeemed; existing bookings keep their discount.
+        </p>
+      </div>
+
+      <div className="mt-8">
+        <PromoCodeForm action={createPromoCode} businesses={businesses ?? []} />
+      </div>
+
+      <div className="mt-8">
+        <PromoCodeTable promos={items} onSetActive={setPromoCodeActive} />
+      </div>
+    </section>
+  );
+}
@@ -2,6 +2,7 @@
 
 import { useState, useRef } from "react";
 import { grantCredits } from "./actions";
+import { MAX_PROMO_EXPIRY_DAYS } from "@/lib/creditBuckets";
 
 export default function GrantCreditsForm({ userId }: { userId: string }) {
   const [open, setOpen] = useState(false);
@@ -55,6 +56,15 @@ export default function GrantCreditsForm({ userId }: { userId: string }) {
         placeholder="Reason"
         className="h-7 w-28 rounded border border-gray-300 px-1 text-xs"
       />
+      <input
+        name="expires_in_days"
+        type="number"
+        min={1}
+        max={MAX_PROMO_EXPIRY_DAYS}
+        placeholder="Expires (days)"
+        title="Optional — makes these promotional credits that are spent first and expire after this many days"
+        className="h-7 w-24 rounded border border-gray-300 px-1 text-xs"
+      />
       <button
         type="submit"
         className="h-7 rounded bg-indigo-600 px-2 text-xs font-medium text-white hover:bg-indigo-500"
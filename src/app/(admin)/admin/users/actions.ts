@@ -4,6 +4,7 @@ import { revalidatePath } from "next/cache";
 import { createClient } from "@/lib/supabase/server";
 import { getProfile } from "@/lib/auth/getProfile";
 import { rateLimit } from "@/lib/rateLimit";
+import { MAX_PROMO_EXPIRY_DAYS } from "@/lib/creditBuckets";
 
 interface ActionResult {
   success: boolean;
@@ -12,7 +13,8 @@ interface ActionResult {
 }
 
 // ---------------------------------------------------------------------------
-// Grant credits  (calls the admin_grant_credits RPC)
+// Grant credits  (calls the admin_grant_credits RPC, or
+// admin_grant_promotional_credits when an expiry is given)
 // ---------------------------------------------------------------------------
 
 export async function grantCredits(formData: FormData): Promise<ActionResult> {
@@ -34,12 +36,33 @@ export async function grantCredits(formData: FormData): Promise<ActionResult> {
   }
   if (!reason) return { success: false, error: "Reason is required." };
 
+  // Optional: promotional credits that expire after N days
+  const expiresRaw = (formData.get("expires_in_days") as string | null)?.trim();
+  const expiresInDays = expiresRaw ? parseInt(expiresRaw, 10) : null;
+  if (
+    expiresInDays !== null &&
+    (!Number.isFinite(expiresInDays) || expiresInDays < 1 || expiresInDays > MAX_PROMO_EXPIRY_DAYS)
+  ) {
+    return {
+      success: false,
+      error: `Expiry must be between 1 and ${MAX_PROMO_EXPIRY_DAYS} days.`,
+    };
+  }
+
   const supabase = await createClient();
-  const { data, error } = await supabase.rpc("admin_grant_credits", {
-    p_user_id: userId,
-    p_amount: amount,
-    p_reason: reason,
-  });
+  const { data, error } =
+    expiresInDays === null
+      ? await supabase.rpc("admin_grant_credits", {
+          p_user_id: userId,
+          p_amount: amount,
+          p_reason: reason,
+        })
+      : await supabase.rpc("admin_grant_promotional_credits", {
+          p_user_id: userId,
+          p_amount: amount,
+          p_reason: reason,
+          p_expires_in_days: expiresInDays,
+        });
 
   if (error) return { success: false, error: error.message };
 
@@ -9,6 +9,8 @@ interface Props {
     start_ts: string;
     end_ts: string;
     reason: string | null;
+    /** Bulk / recurring batch it was created in */
+    batch_id: string | null;
     unit_label: string;
   };
 }
@@ -44,6 +46,14 @@ export default function BlackoutRow({ blackout }: Props) {
     <tr className={`${isPending ? "opacity-50" : ""} ${isPast ? "text-gray-400" : ""}`}>
       <td className="px-6 py-4 font-medium text-gray-900">
         {blackout.unit_label}
+        {blackout.batch_id && (
+          <span
+            title={`Batch ${blackout.batch_id}`}
+            className="ml-2 inline-block rounded-full bg-violet-50 px-1.5 py-0.5 text-[10px] font-medium text-violet-700"
+          >
+            Batch {blackout.batch_id.slice(0, 8)}
+          </span>
+        )}
       </td>
       <td className="px-6 py-4">{fmt(blackout.start_ts)}</td>
       <td className="px-6 py-4">{fmt(blackout.end_ts)}</td>
@@ -0,0 +1,310 @@
+"use client";
+
+import { useRef, useState, useTransition } from "react";
+import { formatUtcForDisplay } from "@/lib/timezone";
+import {
+  BLACKOUT_CONFLICT_ACTION_LABELS,
+  BLACKOUT_FREQUENCY_LABELS,
+  MAX_BLACKOUT_OCCURRENCES,
+  type BlackoutBatchPreview,
+  type BlackoutConflictAction,
+  type BlackoutFrequency,
+} from "@/lib/blackoutBatch";
+import { createBlackoutBatch, previewBlackoutBatch } from "./actions";
+
+interface Option {
+  id: string;
+  label: string;
+}
+
+function fmt(iso: string) {
+  return formatUtcForDisplay(iso, "MMM d, h:mm a");
+}
+
+/**
+ * Blackouts for many units and/or a repeating window. "Check conflicts"
+ * previews the batch and the bookings it overlaps; creating it is only
+ * offered for the previewed input.
+ */
+export default function BulkBlackoutForm({
+  units,
+  models,
+}: {
+  units: Option[];
+  models: Option[];
+}) {
+  const formRef = useRef<HTMLFormElement>(null);
+  const [frequency, setFrequency] = useState<BlackoutFrequency>("WEEKLY");
+  const [repeatLimit, setRepeatLimit] = useState<"count" | "until">("count");
+  const [preview, setPreview] = useState<BlackoutBatchPreview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  function handleChange(e: React.FormEvent<HTMLFormElement>) {
+    // Any edit except the conflict choice invalidates the conflict report
+    if ((e.target as HTMLInputElement).name === "conflict_action") return;
+    setPreview(null);
+    setSuccess(null);
+  }
+
+  function handlePreview() {
+    if (!formRef.current) return;
+    const formData = new FormData(formRef.current);
+    setError(null);
+    setSuccess(null);
+    startTransition(async () => {
+      const res = await previewBlackoutBatch(formData);
+      if (!res.success) {
+        setError(res.error ?? "Failed");
+        setPreview(null);
+      } else {
+        setPreview(res.preview ?? null);
+      }
+    });
+  }
+
+  function handleCreate(formData: FormData) {
+    setError(null);
+    startTransition(async () => {
+      const res = await createBlackoutBatch(formData);
+      if (!res.success || !res.result) {
+        setError(res.error ?? "Failed");
+        return;
+      }
+      const r = res.result;
+      const parts = [`${r.blackouts} blackout${r.blackouts !== 1 ? "s" : ""} created`];
+      if (r.notified > 0) parts.push(`${r.notified} customer${r.notified !== 1 ? "s" : ""} messaged`);
+      if (r.refunded > 0) {
+        parts.push(
+          `${r.refunded} booking${r.refunded !== 1 ? "s" : ""} canceled (${r.refund_credits} credits refunded)`
+        );
+      }
+      formRef.current?.reset();
+      setFrequency("WEEKLY");
+      setRepeatLimit("count");
+      setPreview(null);
+      setSuccess(`${parts.join(" · ")}.`);
+    });
+  }
+
+  if (units.length === 0) return null;
+
+  const repeating = frequency !== "ONCE";
+
+  return (
+    <form
+      ref={formRef}
+      action={handleCreate}
+      onChange={handleChange}
+      className="rounded-xl border border-gray-200 bg-white p-5 shadow-sm"
+    >
+      <h3 className="text-sm font-semibold text-gray-900">
+        Bulk or recurring blackout
+      </h3>
+      <p className="mt-1 text-xs text-gray-500">
+        Block several units at once or a repeating slot, e.g. every Monday
+        6:00–9:00 AM for servicing. Times are Central Time.
+      </p>
+
+      <div className="mt-4 flex flex-wrap items-end gap-3">
+        <label className="flex flex-col gap-1 text-xs font-medium text-gray-500">
+          Units *
+          <select
+            name="target"
+            required
+            defaultValue="all"
+            className="h-9 w-56 rounded-lg border border-gray-300 px-2 text-sm text-gray-900"
+          >
+            <option value="all">All active units</option>
+            <optgroup label="Every active unit of a model">
+              {models.map((m) => (
+                <option key={m.id} value={`model:${m.id}`}>
+                  {m.label}
+                </option>
+              ))}
+            </optgroup>
+            <optgroup label="One unit">
+              {units.map((u) => (
+                <option key={u.id} value={`unit:${u.id}`}>
+                  {u.label}
+                </option>
+              ))}
+            </optgroup>
+          </select>
+        </label>
+
+        <label className="flex flex-col gap-1 text-xs font-medium text-gray-500">
+          {repeating ? "First start *" : "Start *"}
+          <input
+            name="start_ts"
+            type="datetime-local"
+            required
+            className="h-9 rounded-lg border border-gray-300 px-2 text-sm text-gray-900"
+          />
+        </label>
+
+        <label className="flex flex-col gap-1 text-xs font-medium text-gray-500">
+          {repeating ? "First end *" : "End *"}
+          <input
+            name="end_ts"
+            type="datetime-local"
+            required
+            className="h-9 rounded-lg border border-gray-300 px-2 text-sm text-gray-900"
+          />
+        </label>
+
+        <label className="flex flex-col gap-1 text-xs font-medium text-gray-500">
+          Repeat
+          <select
+            name="frequency"
+            value={frequency}
+            onChange={(e) => setFrequency(e.target.value as BlackoutFrequency)}
+            className="h-9 w-32 rounded-lg border border-gray-300 px-2 text-sm text-gray-900"
+          >
+            {(Object.keys(BLACKOUT_FREQUENCY_LABELS) as BlackoutFrequency[]).map((f) => (
+              <option key={f} value={f}>
+                {BLACKOUT_FREQUENCY_LABELS[f]}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        {repeating && (
+          <>
+            <label className="flex flex-col gap-1 text-xs font-medium text-gray-500">
+              Ends
+              <select
+                name="repeat_limit"
+                value={repeatLimit}
+                onChange={(e) => setRepeatLimit(e.target.value as "count" | "until")}
+                className="h-9 w-28 rounded-lg border border-gray-300 px-2 text-sm text-gray-900"
+              >
+                <option value="count">After</option>
+                <option value="until">On date</option>
+              </select>
+            </label>
+
+            {repeatLimit === "count" ? (
+              <label className="flex flex-col gap-1 text-xs font-medium text-gray-500">
+                Times
+                <input
+                  name="occurrences"
+                  type="number"
+                  min={2}
+                  max={MAX_BLACKOUT_OCCURRENCES}
+                  defaultValue={4}
+                  className="h-9 w-20 rounded-lg border border-gray-300 px-2 text-sm text-gray-900"
+                />
+              </label>
+            ) : (
+              <label className="flex flex-col gap-1 text-xs font-medium text-gray-500">
+                Last date
+                <input
+                  name="until_date"
+                  type="date"
+                  className="h-9 rounded-lg border border-gray-300 px-2 text-sm text-gray-900"
+                />
+              </label>
+            )}
+          </>
+        )}
+
+        <label className="flex flex-col gap-1 text-xs font-medium text-gray-500">
+          Reason
+          <input
+            name="reason"
+            placeholder="e.g. Servicing"
+            className="h-9 w-40 rounded-lg border border-gray-300 px-2 text-sm text-gray-900 placeholder:text-gray-400"
+          />
+        </label>
+
+        <button
+          type="button"
+          onClick={handlePreview}
+          disabled={isPending}
+          className="h-9 rounded-lg border border-gray-300 px-4 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+        >
+          Check conflicts
+        </button>
+      </div>
+
+      {/* Conflict report */}
+      {preview && (
+        <div className="mt-5 border-t border-gray-100 pt-4">
+          <p className="text-sm text-gray-700">
+            Creates <strong>{preview.blackouts}</strong> blackout
+            {preview.blackouts !== 1 ? "s" : ""} — {preview.occurrences} occurrence
+            {preview.occurrences !== 1 ? "s" : ""} on {preview.units} unit
+            {preview.units !== 1 ? "s" : ""}.
+          </p>
+
+          {preview.conflicts.length === 0 ? (
+            <p className="mt-2 text-sm text-green-600">No confirmed bookings overlap.</p>
+          ) : (
+            <>
+              <p className="mt-2 text-sm text-amber-700">
+                {preview.conflicts.length} confirmed booking
+                {preview.conflicts.length !== 1 ? "s overlap" : " overlaps"}:
+              </p>
+              <div className="mt-2 overflow-x-auto rounded-lg border border-amber-200">
+                <table className="min-w-full divide-y divide-amber-100 text-sm">
+                  <thead className="bg-amber-50">
+                    <tr>
+                      <th className="px-4 py-2 text-left font-medium text-amber-800">Unit</th>
+                      <th className="px-4 py-2 text-left font-medium text-amber-800">Customer</th>
+                      <th className="px-4 py-2 text-left font-medium text-amber-800">From</th>
+                      <th className="px-4 py-2 text-left font-medium text-amber-800">To</th>
+                      <th className="px-4 py-2 text-left font-medium text-amber-800">Credits</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-amber-50">
+                    {preview.conflicts.map((c) => (
+                      <tr key={c.booking_id}>
+                        <td className="px-4 py-2 text-gray-900">{c.unit_name}</td>
+                        <td className="px-4 py-2 text-gray-600">{c.customer_email}</td>
+                        <td className="px-4 py-2">{fmt(c.start_ts)}</td>
+                        <td className="px-4 py-2">{fmt(c.end_ts)}</td>
+                        <td className="px-4 py-2">{c.credits_charged}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <fieldset className="mt-3 space-y-1.5">
+                <legend className="text-xs font-medium text-gray-500">
+                  What should happen to these bookings?
+                </legend>
+                {(Object.keys(BLACKOUT_CONFLICT_ACTION_LABELS) as BlackoutConflictAction[]).map(
+                  (action) => (
+                    <label key={action} className="flex items-center gap-2 text-sm text-gray-700">
+                      <input
+                        type="radio"
+                        name="conflict_action"
+                        value={action}
+                        defaultChecked={action === "NOTIFY"}
+                      />
+                      {BLACKOUT_CONFLICT_ACTION_LABELS[action]}
+                    </label>
+                  )
+                )}
+              </fieldset>
+            </>
+          )}
+
+          <button
+            type="submit"
+            disabled={isPending || preview.blackouts === 0}
+            className="mt-4 h-9 rounded-lg bg-gray-900 px-4 text-sm font-medium text-white hover:bg-gray-700 disabled:opacity-50"
+          >
+            Create {preview.blackouts} Blackout{preview.blackouts !== 1 ? "s" : ""}
+          </button>
+        </div>
+      )}
+
+      {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+      {success && <p className="mt-3 text-sm text-green-600">{success}</p>}
+    </form>
+  );
+}
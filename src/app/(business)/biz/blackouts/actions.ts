@@ -1,9 +1,20 @@
 "use server";
 
 import { revalidatePath } from "next/cache";
+import { after } from "next/server";
+import { z } from "zod";
+import { fromZonedTime } from "date-fns-tz";
 import { createClient } from "@/lib/supabase/server";
 import { getProfile } from "@/lib/auth/getProfile";
 import { rateLimit } from "@/lib/rateLimit";
+import { sendPendingWaitlistEmails } from "@/lib/waitlist";
+import { sendCancellationEmail } from "@/lib/email/cancellation";
+import { BUSINESS_TIMEZONE } from "@/lib/timezone";
+import {
+  MAX_BLACKOUT_OCCURRENCES,
+  type BlackoutBatchPreview,
+  type BlackoutBatchResult,
+} from "@/lib/blackoutBatch";
 
 const RATE_MAX = 10;
 const RATE_WINDOW = 60_000;
@@ -56,6 +67,7 @@ export async function addBlackout(formData: FormData): Promise<ActionResult> {
   if (error) return { success: false, error: error.message };
 
   revalidatePath("/biz/blackouts");
+  revalidatePath("/biz/calendar");
   return { success: true };
 }
 
@@ -78,6 +90,157 @@ export async function deleteBlackout(blackoutId: string): Promise<ActionResult>
 
   if (error) return { success: false, error: error.message };
 
+  // The delete trigger notifies waitlisted customers in-app; email them too
+  after(sendPendingWaitlistEmails);
+
   revalidatePath("/biz/blackouts");
+  revalidatePath("/biz/calendar");
   return { success: true };
 }
+
+
+// ---------------------------------------------------------------------------
+// Bulk / recurring blackouts
+// ---------------------------------------------------------------------------
+
+const LOCAL_DATETIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/;
+
+const batchSchema = z
+  .object({
+    target: z
+      .string()
+      .regex(/^(all|(unit|model):[0-9a-f-]{36})$/i, "Choose which units to black out"),
+    start_ts: z.string().regex(LOCAL_DATETIME, "Choose a start time"),
+    end_ts: z.string().regex(LOCAL_DATETIME, "Choose an end time"),
+    frequency: z.enum(["ONCE", "DAILY", "WEEKLY"], "Choose how often it repeats"),
+    repeat_limit: z.enum(["count", "until"]),
+    occurrences: z.coerce
+      .number()
+      .int("Occurrences must be a whole number")
+      .min(2, "Repeat at least 2 times")
+      .max(MAX_BLACKOUT_OCCURRENCES, `Repeat at most ${MAX_BLACKOUT_OCCURRENCES} times`)
+      .optional(),
+    until_date: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid end date")
+      .optional(),
+    reason: z.string().trim().max(200, "Reason is too long").optional(),
+    conflict_action: z.enum(["NONE", "NOTIFY", "REFUND"]).default("NONE"),
+  })
+  .superRefine((v, ctx) => {
+    if (v.frequency === "ONCE") return;
+    if (v.repeat_limit === "count" && v.occurrences === undefined) {
+      ctx.addIssue({ code: "custom", message: "How many times should it repeat?" });
+    }
+    if (v.repeat_limit === "until" && v.until_date === undefined) {
+      ctx.addIssue({ code: "custom", message: "Choose the last date it repeats on" });
+    }
+  });
+
+/**
+ * Parse the bulk blackout form into create/preview_blackout_batch args.
+ * Times are entered in Central Time.
+ */
+function parseBatchForm(formData: FormData) {
+  const field = (name: string) => {
+    const value = formData.get(name);
+    return typeof value === "string" && value !== "" ? value : undefined;
+  };
+
+  const parsed = batchSchema.safeParse({
+    target: field("target") ?? "",
+    start_ts: field("start_ts") ?? "",
+    end_ts: field("end_ts") ?? "",
+    frequency: field("frequency"),
+    repeat_limit: field("repeat_limit") ?? "count",
+    occurrences: field("occurrences"),
+    until_date: field("until_date"),
+    reason: field("reason"),
+    conflict_action: field("conflict_action"),
+  });
+  if (!parsed.success) {
+    return { error: parsed.error.issues[0].message } as const;
+  }
+
+  const v = parsed.data;
+  const [kind, id] = v.target.split(":");
+  const repeating = v.frequency !== "ONCE";
+
+  return {
+    args: {
+      p_car_unit_id: kind === "unit" ? id : null,
+      p_car_model_id: kind === "model" ? id : null,
+      p_start_ts: fromZonedTime(`${v.start_ts}:00`, BUSINESS_TIMEZONE).toISOString(),
+      p_end_ts: fromZonedTime(`${v.end_ts}:00`, BUSINESS_TIMEZONE).toISOString(),
+      p_frequency: v.frequency,
+      p_occurrences: repeating && v.repeat_limit === "count" ? v.occurrences : null,
+      p_until_date: repeating && v.repeat_limit === "until" ? v.until_date : null,
+    },
+    reason: v.reason || null,
+    conflictAction: v.conflict_action,
+  } as const;
+}
+
+export async function previewBlackoutBatch(
+  formData: FormData
+): Promise<ActionResult & { preview?: BlackoutBatchPreview }> {
+  const profile = await getProfile();
+  if (!profile || profile.role !== "BUSINESS") {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  const rl = rateLimit(`${profile.id}:biz_blackout_preview`, 30, RATE_WINDOW);
+  if (!rl.ok) return { success: false, error: "Too many requests. Slow down." };
+
+  const parsed = parseBatchForm(formData);
+  if ("error" in parsed) return { success: false, error: parsed.error };
+
+  const supabase = await createClient();
+  const { data, error } = await supabase.rpc("preview_blackout_batch", parsed.args);
+
+  if (error) return { success: false, error: error.message };
+
+  return { success: true, preview: data as BlackoutBatchPreview };
+}
+
+export async function createBlackoutBatch(
+  formData: FormData
+): Promise<ActionResult & { result?: BlackoutBatchResult }> {
+  const profile = await getProfile();
+  if (!profile || profile.role !== "BUSINESS") {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  const rl = rateLimit(`${profile.id}:biz_blackout`, RATE_MAX, RATE_WINDOW);
+  if (!rl.ok) return { success: false, error: "Too many requests. Slow down." };
+
+  const parsed = parseBatchForm(formData);
+  if ("error" in parsed) return { success: false, error: parsed.error };
+
+  // Blackouts, notifications and refunds are written in one transaction
+  const supabase = await createClient();
+  const { data, error } = await supabase.rpc("create_blackout_batch", {
+    ...parsed.args,
+    p_reason: parsed.reason,
+    p_conflict_action: parsed.conflictAction,
+  });
+
+  if (error) return { success: false, error: error.message };
+
+  const result = data as BlackoutBatchResult;
+
+  // Refunded customers also get the usual cancellation email
+  for (const conflict of result.conflicts.filter((c) => c.canceled)) {
+    sendCancellationEmail({
+      to: conflict.customer_email,
+      bookingId: conflict.booking_id,
+      refundCredits: conflict.credits_charged,
+      refundPct: 1,
+    });
+  }
+
+  revalidatePath("/biz/blackouts");
+  revalidatePath("/biz/calendar");
+  revalidatePath("/biz/bookings");
+  return { success: true, result };
+}
@@ -1,6 +1,7 @@
 import { createClient } from "@/lib/supabase/server";
 import { getProfile } from "@/lib/auth/getProfile";
 import AddBlackoutForm from "./AddBlackoutForm";
+import BulkBlackoutForm from "./BulkBlackoutForm";
 import BlackoutRow from "./BlackoutRow";
 
 export default async function BusinessBlackoutsPage() {
@@ -12,7 +13,7 @@ export default async function BusinessBlackoutsPage() {
   // Fetch the business's car_units (for the dropdown) — RLS scoped
   const { data: units } = await supabase
     .from("car_units")
-    .select("id, display_name, vin, car_models ( display_name )")
+    .select("id, car_model_id, display_name, vin, car_models ( display_name )")
     .order("display_name");
 
   const unitOptions = (units ?? []).map((u) => ({
@@ -23,10 +24,22 @@ export default async function BusinessBlackoutsPage() {
       u.vin,
   }));
 
+  // Fleet models, for blacking out every unit of one model
+  const modelOptions = Array.from(
+    new Map(
+      (units ?? []).map((u) => [
+        u.car_model_id,
+        (u.car_models as unknown as { display_name: string } | null)?.display_name ?? "—",
+      ])
+    ).entries()
+  )
+    .map(([id, label]) => ({ id, label }))
+    .sort((a, b) => a.label.localeCompare(b.label));
+
   // Fetch blackouts for business car_units — RLS scoped
   const { data: blackouts } = await supabase
     .from("car_blackouts")
-    .select("id, car_unit_id, start_ts, end_ts, reason, car_units ( display_name, vin, car_models ( display_name ) )")
+    .select("id, car_unit_id, start_ts, end_ts, reason, batch_id, car_units ( display_name, vin, car_models ( display_name ) )")
     .order("start_ts", { ascending: false });
 
   return (
@@ -54,6 +67,10 @@ export default async function BusinessBlackoutsPage() {
             <AddBlackoutForm units={unitOptions} />
           </div>
 
+          <div className="mt-4">
+            <BulkBlackoutForm units={unitOptions} models={modelOptions} />
+          </div>
+
           {/* Blackout list */}
           <div className="mt-8 overflow-x-auto rounded-xl border border-gray-200 bg-white shadow-sm">
             <table className="min-w-full divide-y divide-gray-200 text-sm">
@@ -87,6 +104,7 @@ export default async function BusinessBlackoutsPage() {
                           start_ts: b.start_ts,
                           end_ts: b.end_ts,
                           reason: b.reason,
+                          batch_id: b.batch_id,
                           unit_label: unitLabel,
                         }}
                       />
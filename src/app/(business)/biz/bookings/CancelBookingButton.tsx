@@ -0,0 +1,94 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { businessCancelBooking } from "./actions";
+
+/**
+ * Cancel a customer's booking from the business side. Asks for a reason
+ * (sent to the customer) and always refunds in full.
+ */
+export default function CancelBookingButton({
+  bookingId,
+  credits,
+}: {
+  bookingId: string;
+  credits: number;
+}) {
+  const [isPending, startTransition] = useTransition();
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [refunded, setRefunded] = useState<number | null>(null);
+
+  function handleConfirm() {
+    setError(null);
+    startTransition(async () => {
+      const res = await businessCancelBooking(bookingId, reason);
+      if (!res.success) {
+        setError(res.error ?? "Failed");
+      } else {
+        setRefunded(res.refundCredits ?? 0);
+      }
+    });
+  }
+
+  if (refunded !== null) {
+    return (
+      <div className="text-sm">
+        <p className="font-medium text-red-600">Canceled</p>
+        <p className="text-xs text-gray-500">
+          {refunded} credit{refunded !== 1 ? "s" : ""} refunded
+        </p>
+      </div>
+    );
+  }
+
+  if (!open) {
+    return (
+      <button
+        onClick={() => setOpen(true)}
+        className="text-sm text-red-500 hover:text-red-700"
+      >
+        Cancel
+      </button>
+    );
+  }
+
+  return (
+    <div className="w-64 space-y-2">
+      <textarea
+        value={reason}
+        onChange={(e) => setReason(e.target.value)}
+        maxLength={500}
+        rows={2}
+        autoFocus
+        placeholder="Reason, sent to the customer (e.g. car failed inspection)"
+        className="w-full rounded-lg border border-gray-300 px-2 py-1.5 text-sm text-gray-900 placeholder:text-gray-400"
+      />
+      <p className="text-[11px] text-gray-500">
+        The customer gets all {credits} credit{credits !== 1 ? "s" : ""} back, a message and an
+        email.
+      </p>
+      <div className="flex gap-3">
+        <button
+          onClick={handleConfirm}
+          disabled={isPending || reason.trim() === ""}
+          className="rounded-lg bg-red-600 px-3 py-1 text-xs font-medium text-white hover:bg-red-700 disabled:opacity-50"
+        >
+          {isPending ? "Canceling…" : "Cancel & refund"}
+        </button>
+        <button
+          onClick={() => {
+            setOpen(false);
+            setError(null);
+          }}
+          disabled={isPending}
+          className="text-xs text-gray-500 hover:text-gray-700"
+        >
+          Keep booking
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
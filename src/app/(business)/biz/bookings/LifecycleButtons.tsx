@@ -0,0 +1,85 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { checkOutBooking, checkInBooking, markNoShow } from "./actions";
+import type { LifecycleActions } from "@/lib/bookingLifecycle";
+
+/**
+ * Check-out / check-in / no-show buttons for one booking. Which ones show
+ * is decided by lifecycleActions() on the server; the RPCs re-check.
+ */
+export default function LifecycleButtons({
+  bookingId,
+  actions,
+}: {
+  bookingId: string;
+  actions: LifecycleActions;
+}) {
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+  const [lateFee, setLateFee] = useState<{ charged: number; uncollected: number } | null>(
+    null
+  );
+
+  function run(action: (id: string) => ReturnType<typeof checkInBooking>) {
+    setError(null);
+    startTransition(async () => {
+      const res = await action(bookingId);
+      if (!res.success) {
+        setError(res.error ?? "Failed");
+      } else if (res.lateFee || res.lateFeeUncollected) {
+        setLateFee({ charged: res.lateFee ?? 0, uncollected: res.lateFeeUncollected ?? 0 });
+      }
+    });
+  }
+
+  if (lateFee !== null) {
+    return (
+      <p className="text-xs font-medium text-amber-700">
+        Returned late · {lateFee.charged} credit{lateFee.charged !== 1 ? "s" : ""} charged
+        {lateFee.uncollected > 0 &&
+          ` · ${lateFee.uncollected} not covered by the customer's balance`}
+      </p>
+    );
+  }
+
+  if (!actions.checkOut && !actions.checkIn && !actions.noShow) return null;
+
+  return (
+    <div className="space-y-1">
+      <div className="flex flex-wrap gap-2">
+        {actions.checkOut && (
+          <button
+            onClick={() => run(checkOutBooking)}
+            disabled={isPending}
+            className="rounded-lg bg-gray-900 px-3 py-1 text-xs font-medium text-white hover:bg-gray-700 disabled:opacity-50"
+          >
+            Check out
+          </button>
+        )}
+        {actions.checkIn && (
+          <button
+            onClick={() => run(checkInBooking)}
+            disabled={isPending}
+            className="rounded-lg bg-gray-900 px-3 py-1 text-xs font-medium text-white hover:bg-gray-700 disabled:opacity-50"
+          >
+            Check in
+          </button>
+        )}
+        {actions.noShow && (
+          <button
+            onClick={() => {
+              if (!window.confirm("Mark as a no-show? The customer is not refunded.")) return;
+              run(markNoShow);
+            }}
+            disabled={isPending}
+            className="text-xs text-gray-500 hover:text-gray-800 disabled:opacity-50"
+          >
+            No-show
+          </button>
+        )}
+      </div>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
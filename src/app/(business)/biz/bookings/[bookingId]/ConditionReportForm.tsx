@@ -0,0 +1,179 @@
+"use client";
+
+import { useRef, useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { saveConditionReport } from "../actions";
+import {
+  CONDITION_REPORT_LABELS,
+  MAX_CONDITION_PHOTOS,
+  formatFuelLevel,
+  type ConditionReport,
+  type ConditionReportKind,
+} from "@/lib/conditionReport";
+
+const FUEL_LEVELS = [0, 1, 2, 3, 4, 5, 6, 7, 8];
+const ALLOWED_TYPES = ["image/png", "image/jpeg", "image/jpg", "image/webp"];
+
+/**
+ * Pick-up or return condition report: readings and damage notes, then
+ * photos (uploaded one by one once the report has been saved).
+ */
+export default function ConditionReportForm({
+  bookingId,
+  kind,
+  report,
+}: {
+  bookingId: string;
+  kind: ConditionReportKind;
+  report: ConditionReport | undefined;
+}) {
+  const router = useRouter();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isPending, startTransition] = useTransition();
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  const photoCount = report?.photos.length ?? 0;
+
+  function handleSave(formData: FormData) {
+    setError(null);
+    setSaved(false);
+    startTransition(async () => {
+      const res = await saveConditionReport(formData);
+      if (!res.success) {
+        setError(res.error ?? "Failed");
+      } else {
+        setSaved(true);
+        router.refresh();
+      }
+    });
+  }
+
+  async function handleFiles(e: React.ChangeEvent<HTMLInputElement>) {
+    const files = Array.from(e.target.files ?? []);
+    if (!report || files.length === 0) return;
+
+    if (photoCount + files.length > MAX_CONDITION_PHOTOS) {
+      setError(`A report can have at most ${MAX_CONDITION_PHOTOS} photos.`);
+      return;
+    }
+    if (files.some((f) => !ALLOWED_TYPES.includes(f.type))) {
+      setError("Invalid file type. Use PNG, JPEG, or WEBP.");
+      return;
+    }
+    if (files.some((f) => f.size > 5 * 1024 * 1024)) {
+      setError("File too large. Maximum 5 MB per photo.");
+      return;
+    }
+
+    setUploading(true);
+    setError(null);
+
+    try {
+      for (const file of files) {
+        const formData = new FormData();
+        formData.append("file", file);
+        const res = await fetch(`/api/biz/condition-reports/${report.id}/photos`, {
+          method: "POST",
+          body: formData,
+        });
+        if (!res.ok) {
+          const data = await res.json();
+          setError(data.error || "Upload failed");
+          break;
+        }
+      }
+    } catch {
+      setError("Upload failed. Please try again.");
+    } finally {
+      setUploading(false);
+      if (fileInputRef.current) fileInputRef.current.value = "";
+      router.refresh();
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <form action={handleSave} className="space-y-3">
+        <input type="hidden" name="booking_id" value={bookingId} />
+        <input type="hidden" name="kind" value={kind} />
+        <div className="flex flex-wrap items-end gap-3">
+          <label className="flex flex-col gap-1 text-xs font-medium text-gray-500">
+            Mileage
+            <input
+              name="mileage"
+              type="number"
+              min={0}
+              defaultValue={report?.mileage ?? ""}
+              className="h-9 w-32 rounded-lg border border-gray-300 px-2 text-sm text-gray-900"
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-xs font-medium text-gray-500">
+            Fuel
+            <select
+              name="fuel_level"
+              defaultValue={report?.fuelLevel ?? ""}
+              className="h-9 rounded-lg border border-gray-300 px-2 text-sm text-gray-900"
+            >
+              <option value="">—</option>
+              {FUEL_LEVELS.map((level) => (
+                <option key={level} value={level}>
+                  {formatFuelLevel(level)}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+        <label className="flex flex-col gap-1 text-xs font-medium text-gray-500">
+          Damage notes
+          <textarea
+            name="damage_notes"
+            rows={3}
+            maxLength={2000}
+            defaultValue={report?.damageNotes ?? ""}
+            placeholder="Scratches, dents, chips, interior wear — and where"
+            className="w-full rounded-lg border border-gray-300 px-2 py-1.5 text-sm text-gray-900 placeholder:text-gray-400"
+          />
+        </label>
+        <div className="flex items-center gap-3">
+          <button
+            type="submit"
+            disabled={isPending}
+            className="h-9 rounded-lg bg-gray-900 px-4 text-sm font-medium text-white hover:bg-gray-700 disabled:opacity-50"
+          >
+            {isPending ? "Saving…" : report ? "Update report" : `Save ${CONDITION_REPORT_LABELS[kind].toLowerCase()} report`}
+          </button>
+          {saved && !isPending && <span className="text-xs text-green-700">Saved</span>}
+        </div>
+      </form>
+
+      {report && (
+        <div className="flex items-center gap-3">
+          <input
+            type="file"
+            ref={fileInputRef}
+            onChange={handleFiles}
+            accept="image/png,image/jpeg,image/jpg,image/webp"
+            multiple
+            className="hidden"
+            disabled={uploading}
+          />
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={uploading || photoCount >= MAX_CONDITION_PHOTOS}
+            className="rounded-lg border border-gray-300 px-3 py-1.5 text-xs font-medium text-gray-600 hover:bg-gray-100 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {uploading ? "Uploading…" : "Add photos"}
+          </button>
+          <span className="text-xs text-gray-400">
+            {photoCount}/{MAX_CONDITION_PHOTOS} photos
+          </span>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
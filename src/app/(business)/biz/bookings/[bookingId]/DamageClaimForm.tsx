@@ -0,0 +1,73 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { fileDamageClaim } from "../actions";
+
+/**
+ * Claim part or all of the security deposit for damage found at return.
+ */
+export default function DamageClaimForm({
+  bookingId,
+  deposit,
+}: {
+  bookingId: string;
+  /** Deposit held for the booking, in credits (the most that can be claimed) */
+  deposit: number;
+}) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+
+  function handleSubmit(formData: FormData) {
+    setError(null);
+    startTransition(async () => {
+      const res = await fileDamageClaim(formData);
+      if (!res.success) {
+        setError(res.error ?? "Failed");
+      } else {
+        router.refresh();
+      }
+    });
+  }
+
+  return (
+    <form action={handleSubmit} className="space-y-3">
+      <input type="hidden" name="booking_id" value={bookingId} />
+      <label className="flex flex-col gap-1 text-xs font-medium text-gray-500">
+        Credits to claim (up to {deposit})
+        <input
+          name="amount"
+          type="number"
+          min={1}
+          max={deposit}
+          required
+          className="h-9 w-32 rounded-lg border border-gray-300 px-2 text-sm text-gray-900"
+        />
+      </label>
+      <label className="flex flex-col gap-1 text-xs font-medium text-gray-500">
+        What was damaged
+        <textarea
+          name="description"
+          rows={3}
+          maxLength={2000}
+          required
+          placeholder="The damage, where it is and how the amount was worked out"
+          className="w-full rounded-lg border border-gray-300 px-2 py-1.5 text-sm text-gray-900 placeholder:text-gray-400"
+        />
+      </label>
+      <p className="text-xs text-gray-400">
+        The customer is messaged and can accept or dispute the claim; an admin
+        decides disputes. The return condition report above is the evidence.
+      </p>
+      <button
+        type="submit"
+        disabled={isPending}
+        className="h-9 rounded-lg bg-gray-900 px-4 text-sm font-medium text-white hover:bg-gray-700 disabled:opacity-50"
+      >
+        {isPending ? "Filing…" : "File damage claim"}
+      </button>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </form>
+  );
+}
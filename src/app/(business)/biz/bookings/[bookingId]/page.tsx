@@ -0,0 +1,154 @@
+import { notFound } from "next/navigation";
+import Link from "next/link";
+import { createClient } from "@/lib/supabase/server";
+import { formatDateRange, formatUtcForDisplay, TIMEZONE_LABEL } from "@/lib/timezone";
+import { BOOKING_STATUS_LABELS, type BookingStatus } from "@/lib/bookingLifecycle";
+import {
+  CONDITION_REPORT_KINDS,
+  CONDITION_REPORT_LABELS,
+  conditionReportEditable,
+} from "@/lib/conditionReport";
+import { getBookingConditionReports } from "@/lib/bookingConditionReports";
+import {
+  DAMAGE_CLAIM_COLUMNS,
+  canFileDamageClaim,
+  claimDeadline,
+  describeDeposit,
+  type BookingDeposit,
+  type DamageClaim,
+} from "@/lib/deposits";
+import ConditionReportView from "@/components/ConditionReportView";
+import DamageClaimSummary from "@/components/DamageClaimSummary";
+import ConditionReportForm from "./ConditionReportForm";
+import DamageClaimForm from "./DamageClaimForm";
+
+export const metadata = {
+  title: "Booking | ForzaCars Rentals",
+};
+
+export default async function BusinessBookingPage({
+  params,
+}: {
+  params: Promise<{ bookingId: string }>;
+}) {
+  const { bookingId } = await params;
+  const supabase = await createClient();
+
+  // RLS: only bookings on the business's own units are returned
+  const { data: booking } = await supabase
+    .from("bookings")
+    .select(
+      `
+      id,
+      start_ts,
+      end_ts,
+      status,
+      returned_at,
+      car_units ( display_name, vin, car_models ( display_name ) ),
+      profiles!bookings_customer_id_fkey ( email )
+    `
+    )
+    .eq("id", bookingId)
+    .maybeSingle();
+
+  if (!booking) notFound();
+
+  const unit = booking.car_units as unknown as {
+    display_name: string | null;
+    vin: string;
+    car_models: { display_name: string } | null;
+  } | null;
+  const unitName = unit?.display_name ?? unit?.car_models?.display_name ?? unit?.vin ?? "Unit";
+  const status = booking.status as BookingStatus;
+  const reports = await getBookingConditionReports(bookingId);
+
+  // Security deposit and any damage claim against it
+  const { data: depositRow } = await supabase
+    .from("booking_deposits")
+    .select("amount, status, captured_credits")
+    .eq("booking_id", bookingId)
+    .maybeSingle();
+  const deposit = depositRow as BookingDeposit | null;
+
+  const { data: claimRow } = await supabase
+    .from("damage_claims")
+    .select(DAMAGE_CLAIM_COLUMNS)
+    .eq("booking_id", bookingId)
+    .maybeSingle();
+  const claim = claimRow as unknown as DamageClaim | null;
+
+  const returnedAt = booking.returned_at ? new Date(booking.returned_at) : null;
+  const canClaim = canFileDamageClaim(status, returnedAt, deposit, !!claim);
+
+  return (
+    <section className="mx-auto max-w-4xl px-6 py-10">
+      <Link href="/biz/bookings" className="text-sm text-gray-500 hover:text-gray-900">
+        ← Bookings
+      </Link>
+
+      <div className="mt-4">
+        <h1 className="text-3xl font-bold tracking-tight text-gray-900">{unitName}</h1>
+        <p className="mt-1 text-gray-500">
+          {(booking.profiles as unknown as { email: string } | null)?.email ?? "—"} ·{" "}
+          {formatDateRange(booking.start_ts, booking.end_ts)}
+          <span className="ml-2 text-xs text-gray-400">({TIMEZONE_LABEL})</span>
+        </p>
+        <p className="mt-2 text-sm font-medium text-gray-700">{BOOKING_STATUS_LABELS[status]}</p>
+      </div>
+
+      {CONDITION_REPORT_KINDS.map((kind) => {
+        const report = reports.get(kind);
+        const editable = conditionReportEditable(kind, status, returnedAt, !!claim);
+
+        return (
+          <div
+            key={kind}
+            className="mt-8 rounded-xl border border-gray-200 bg-white p-6 shadow-sm"
+          >
+            <h2 className="text-lg font-semibold text-gray-900">
+              {CONDITION_REPORT_LABELS[kind]} condition
+            </h2>
+            <div className="mt-4">
+              <ConditionReportView kind={kind} report={report} />
+            </div>
+            {editable && (
+              <details open={!report} className="mt-6 border-t border-gray-100 pt-4">
+                <summary className="cursor-pointer text-sm font-medium text-gray-700">
+                  {report ? "Edit report & add photos" : "Write report"}
+                </summary>
+                <div className="mt-4">
+                  <ConditionReportForm bookingId={bookingId} kind={kind} report={report} />
+                </div>
+              </details>
+            )}
+          </div>
+        );
+      })}
+
+      {deposit && (
+        <div className="mt-8 rounded-xl border border-gray-200 bg-white p-6 shadow-sm">
+          <h2 className="text-lg font-semibold text-gray-900">Security deposit</h2>
+          <p className="mt-1 text-sm text-gray-600">{describeDeposit(deposit)}</p>
+
+          {claim && (
+            <div className="mt-4">
+              <DamageClaimSummary claim={claim} deposit={deposit.amount} />
+            </div>
+          )}
+
+          {canClaim && returnedAt && (
+            <div className="mt-6 border-t border-gray-100 pt-4">
+              <p className="mb-3 text-sm text-gray-500">
+                Damage can be claimed until{" "}
+                {formatUtcForDisplay(claimDeadline(returnedAt).toISOString(), "MMM d, h:mm a")}
+                {!reports.get("CHECK_IN") && " — write the return condition report first"}
+                . Without a claim the deposit is returned to the customer then.
+              </p>
+              <DamageClaimForm bookingId={bookingId} deposit={deposit.amount} />
+            </div>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
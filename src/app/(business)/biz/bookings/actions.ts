@@ -0,0 +1,281 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { after } from "next/server";
+import { z } from "zod";
+import { createClient } from "@/lib/supabase/server";
+import { getProfile } from "@/lib/auth/getProfile";
+import { rateLimit } from "@/lib/rateLimit";
+import { sendPendingWaitlistEmails } from "@/lib/waitlist";
+import { sendBusinessCancellationEmail } from "@/lib/email/cancellation";
+
+interface ActionResult {
+  success: boolean;
+  error?: string;
+  refundCredits?: number;
+  lateFee?: number;
+  /** Part of the late fee the customer's balance didn't cover */
+  lateFeeUncollected?: number;
+  reportId?: string;
+  claimId?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Validation schema
+// ---------------------------------------------------------------------------
+
+const cancelSchema = z.object({
+  bookingId: z.string().uuid("Invalid booking ID"),
+  reason: z
+    .string()
+    .trim()
+    .min(1, "Give the customer a reason for the cancellation")
+    .max(500, "Reason must be 500 characters or fewer"),
+});
+
+const bookingIdSchema = z.string().uuid("Invalid booking ID");
+
+const conditionReportSchema = z.object({
+  booking_id: bookingIdSchema,
+  kind: z.enum(["CHECK_OUT", "CHECK_IN"], "Report must be for pick-up or return"),
+  mileage: z.coerce
+    .number()
+    .int("Mileage must be a whole number")
+    .min(0, "Mileage can't be negative")
+    .optional(),
+  fuel_level: z.coerce
+    .number()
+    .int()
+    .min(0, "Fuel level must be between empty and full")
+    .max(8, "Fuel level must be between empty and full")
+    .optional(),
+  damage_notes: z.string().trim().max(2000, "Damage notes must be 2000 characters or fewer"),
+});
+
+const damageClaimSchema = z.object({
+  booking_id: bookingIdSchema,
+  amount: z.coerce
+    .number("Enter the credits to claim")
+    .int("Claim a whole number of credits")
+    .min(1, "Claim at least 1 credit"),
+  description: z
+    .string()
+    .trim()
+    .min(1, "Describe the damage")
+    .max(2000, "Description must be 2000 characters or fewer"),
+});
+
+// ---------------------------------------------------------------------------
+// Cancel a customer's booking (full refund)
+// ---------------------------------------------------------------------------
+
+/**
+ * Calls the `business_cancel_booking` RPC, which checks the booking is on
+ * one of the caller's units and writes the status, 100% refund, customer
+ * message and audit entry atomically. The email is sent afterwards.
+ */
+export async function businessCancelBooking(
+  bookingId: string,
+  reason: string
+): Promise<ActionResult> {
+  const profile = await getProfile();
+  if (!profile || profile.role !== "BUSINESS") {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  const rl = rateLimit(`${profile.id}:biz_cancel_booking`, 10, 60_000);
+  if (!rl.ok) return { success: false, error: "Too many requests. Slow down." };
+
+  const parsed = cancelSchema.safeParse({ bookingId, reason });
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.issues[0].message };
+  }
+
+  const supabase = await createClient();
+  const { data, error } = await supabase.rpc("business_cancel_booking", {
+    p_booking_id: parsed.data.bookingId,
+    p_reason: parsed.data.reason,
+  });
+
+  if (error) return { success: false, error: error.message };
+
+  const result = data as {
+    booking_id: string;
+    refund: number;
+    customer_email: string;
+    unit_name: string;
+    start_ts: string;
+    end_ts: string;
+  };
+
+  sendBusinessCancellationEmail({
+    to: result.customer_email,
+    bookingId: result.booking_id,
+    carName: result.unit_name,
+    startTs: result.start_ts,
+    endTs: result.end_ts,
+    refundCredits: result.refund,
+    reason: parsed.data.reason,
+  });
+
+  // The freed window may have notified waitlisted customers
+  after(sendPendingWaitlistEmails);
+
+  revalidatePath("/biz/bookings");
+  revalidatePath("/biz/calendar");
+  return { success: true, refundCredits: result.refund };
+}
+
+// ---------------------------------------------------------------------------
+// Lifecycle: check out, check in, no-show
+// ---------------------------------------------------------------------------
+
+type LifecycleRpc =
+  | "business_check_out_booking"
+  | "business_check_in_booking"
+  | "business_mark_no_show";
+
+/**
+ * Moves a booking along its lifecycle. The RPCs check ownership and timing;
+ * the status-change trigger records the transition in audit_log.
+ */
+async function runLifecycleRpc(rpc: LifecycleRpc, bookingId: string): Promise<ActionResult> {
+  const profile = await getProfile();
+  if (!profile || profile.role !== "BUSINESS") {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  const rl = rateLimit(`${profile.id}:biz_booking_lifecycle`, 30, 60_000);
+  if (!rl.ok) return { success: false, error: "Too many requests. Slow down." };
+
+  const parsed = bookingIdSchema.safeParse(bookingId);
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.issues[0].message };
+  }
+
+  const supabase = await createClient();
+  const { data, error } = await supabase.rpc(rpc, { p_booking_id: parsed.data });
+
+  if (error) return { success: false, error: error.message };
+
+  revalidatePath("/biz/bookings");
+  revalidatePath("/biz/calendar");
+  const result = data as { late_fee?: number; late_fee_uncollected?: number };
+  return {
+    success: true,
+    lateFee: result.late_fee,
+    lateFeeUncollected: result.late_fee_uncollected,
+  };
+}
+
+/** The customer picked the car up */
+export async function checkOutBooking(bookingId: string): Promise<ActionResult> {
+  return runLifecycleRpc("business_check_out_booking", bookingId);
+}
+
+/** The car is back; charges a late fee when overdue */
+export async function checkInBooking(bookingId: string): Promise<ActionResult> {
+  return runLifecycleRpc("business_check_in_booking", bookingId);
+}
+
+/** The customer never showed up (no refund) */
+export async function markNoShow(bookingId: string): Promise<ActionResult> {
+  const result = await runLifecycleRpc("business_mark_no_show", bookingId);
+
+  // The freed window may have notified waitlisted customers
+  if (result.success) after(sendPendingWaitlistEmails);
+
+  return result;
+}
+
+// ---------------------------------------------------------------------------
+// Condition report (pick-up / return)
+// ---------------------------------------------------------------------------
+
+/**
+ * Creates or updates a booking's condition report via the
+ * `business_save_condition_report` RPC. Photos are uploaded separately to
+ * /api/biz/condition-reports/[reportId]/photos once the report exists.
+ */
+export async function saveConditionReport(formData: FormData): Promise<ActionResult> {
+  const profile = await getProfile();
+  if (!profile || profile.role !== "BUSINESS") {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  const rl = rateLimit(`${profile.id}:biz_condition_report`, 20, 60_000);
+  if (!rl.ok) return { success: false, error: "Too many requests. Slow down." };
+
+  // Blank inputs mean "not recorded"
+  const field = (name: string) => {
+    const value = formData.get(name);
+    return typeof value === "string" && value !== "" ? value : undefined;
+  };
+
+  const parsed = conditionReportSchema.safeParse({
+    booking_id: field("booking_id") ?? "",
+    kind: field("kind"),
+    mileage: field("mileage"),
+    fuel_level: field("fuel_level"),
+    damage_notes: field("damage_notes") ?? "",
+  });
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.issues[0].message };
+  }
+
+  const supabase = await createClient();
+  const { data, error } = await supabase.rpc("business_save_condition_report", {
+    p_booking_id: parsed.data.booking_id,
+    p_kind: parsed.data.kind,
+    p_mileage: parsed.data.mileage ?? null,
+    p_fuel_level: parsed.data.fuel_level ?? null,
+    p_damage_notes: parsed.data.damage_notes,
+  });
+
+  if (error) return { success: false, error: error.message };
+
+  revalidatePath(`/biz/bookings/${parsed.data.booking_id}`);
+  revalidatePath(`/bookings/${parsed.data.booking_id}`);
+  return { success: true, reportId: data as string };
+}
+
+// ---------------------------------------------------------------------------
+// Damage claim against the security deposit
+// ---------------------------------------------------------------------------
+
+/**
+ * Calls `business_file_damage_claim`, which checks the claim window, the
+ * deposit and the return condition report, and messages the customer.
+ */
+export async function fileDamageClaim(formData: FormData): Promise<ActionResult> {
+  const profile = await getProfile();
+  if (!profile || profile.role !== "BUSINESS") {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  const rl = rateLimit(`${profile.id}:biz_damage_claim`, 10, 60_000);
+  if (!rl.ok) return { success: false, error: "Too many requests. Slow down." };
+
+  const parsed = damageClaimSchema.safeParse({
+    booking_id: formData.get("booking_id") ?? "",
+    amount: formData.get("amount") ?? "",
+    description: formData.get("description") ?? "",
+  });
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.issues[0].message };
+  }
+
+  const supabase = await createClient();
+  const { data, error } = await supabase.rpc("business_file_damage_claim", {
+    p_booking_id: parsed.data.booking_id,
+    p_amount: parsed.data.amount,
+    p_description: parsed.data.description,
+  });
+
+  if (error) return { success: false, error: error.message };
+
+  revalidatePath("/biz/bookings");
+  revalidatePath(`/biz/bookings/${parsed.data.booking_id}`);
+  revalidatePath(`/bookings/${parsed.data.booking_id}`);
+  return { success: true, claimId: data as string };
+}
@@ -1,3 +1,4 @@
+import Link from "next/link";
 import { createClient } from "@/lib/supabase/server";
 import {
   formatUtcForDisplay,
@@ -5,23 +6,94 @@ import {
   formatDurationShort,
   TIMEZONE_LABEL,
 } from "@/lib/timezone";
+import { formatTurnaround } from "@/lib/turnaround";
+import {
+  BOOKING_STATUS_LABELS,
+  OPEN_BOOKING_STATUSES,
+  lifecycleActions,
+  type BookingStatus,
+} from "@/lib/bookingLifecycle";
+import {
+  DAMAGE_CLAIM_STATUS_LABELS,
+  describeDeposit,
+  type BookingDeposit,
+  type DamageClaimStatus,
+} from "@/lib/deposits";
+import CancelBookingButton from "./CancelBookingButton";
+import LifecycleButtons from "./LifecycleButtons";
 
 function fmt(iso: string) {
   return formatUtcForDisplay(iso, "MMM d, yyyy h:mm a");
 }
 
+const STATUS_STYLES: Record<BookingStatus, string> = {
+  CONFIRMED: "bg-green-50 text-green-700",
+  CHECKED_OUT: "bg-sky-50 text-sky-700",
+  LATE: "bg-amber-100 text-amber-800",
+  RETURNED: "bg-gray-100 text-gray-600",
+  NO_SHOW: "bg-red-50 text-red-600",
+  CANCELED: "bg-gray-100 text-gray-500",
+};
+
+interface BusinessBooking {
+  id: string;
+  start_ts: string;
+  end_ts: string;
+  blocked_until: string;
+  status: BookingStatus;
+  credits_charged: number;
+  pricing_mode: string | null;
+  hourly_rate_used: number | null;
+  day_price_used: number | null;
+  billable_days: number | null;
+  duration_minutes: number | null;
+  group_id: string | null;
+  checked_out_at: string | null;
+  returned_at: string | null;
+  late_fee_credits: number;
+  created_at: string;
+  car_units: {
+    id: string;
+    display_name: string | null;
+    vin: string;
+    car_models: { display_name: string } | null;
+  } | null;
+  profiles: { email: string } | null;
+}
+
+interface ReassignmentUnit {
+  display_name: string | null;
+  vin: string;
+}
+
+interface Reassignment {
+  id: string;
+  booking_id: string;
+  outcome: "REASSIGNED" | "CANCELED";
+  refund_credits: number | null;
+  created_at: string;
+  profiles: { email: string } | null;
+  bookings: { start_ts: string; end_ts: string } | null;
+  from_unit: ReassignmentUnit | null;
+  to_unit: (ReassignmentUnit & { color: string | null }) | null;
+}
+
 export default async function BusinessBookingsPage() {
   const supabase = await createClient();
 
+  // Cars still out past their return time become LATE before we list them
+  await supabase.rpc("business_flag_late_bookings");
+
   // Fetch bookings for car_units owned by this business.
   // RLS ensures only bookings for the business's own units are returned.
-  const { data: bookings, error } = await supabase
+  const { data: bookingRows, error } = await supabase
     .from("bookings")
     .select(
       `
       id,
       start_ts,
       end_ts,
+      blocked_until,
       status,
       credits_charged,
       pricing_mode,
@@ -29,22 +101,57 @@ export default async function BusinessBookingsPage() {
       day_price_used,
       billable_days,
       duration_minutes,
+      group_id,
+      checked_out_at,
+      returned_at,
+      late_fee_credits,
       created_at,
       car_units ( id, display_name, vin, car_models ( display_name ) ),
       profiles!bookings_customer_id_fkey ( email )
     `
     )
     .order("start_ts", { ascending: false });
+  const bookings = (bookingRows ?? []) as unknown as BusinessBooking[];
 
-  const now = new Date();
+  // Bookings moved or canceled because their unit was deactivated
+  const { data: reassignmentRows } = await supabase
+    .from("booking_reassignments")
+    .select(
+      `
+      id,
+      booking_id,
+      outcome,
+      refund_credits,
+      created_at,
+      profiles ( email ),
+      bookings ( start_ts, end_ts ),
+      from_unit:car_units!booking_reassignments_from_car_unit_id_fkey ( display_name, vin ),
+      to_unit:car_units!booking_reassignments_to_car_unit_id_fkey ( display_name, vin, color )
+    `
+    )
+    .order("created_at", { ascending: false })
+    .limit(20);
+  const reassignments = (reassignmentRows ?? []) as unknown as Reassignment[];
 
-  const upcoming = (bookings ?? []).filter(
-    (b) => new Date(b.start_ts) >= now && b.status === "CONFIRMED"
+  // Security deposits and damage claims (RLS: the business's own units)
+  const { data: deposits } = await supabase
+    .from("booking_deposits")
+    .select("booking_id, amount, status, captured_credits");
+  const depositMap = new Map(
+    (deposits ?? []).map((d) => [d.booking_id as string, d as BookingDeposit])
   );
-  const past = (bookings ?? []).filter(
-    (b) => new Date(b.start_ts) < now || b.status === "CANCELED"
+
+  const { data: claims } = await supabase.from("damage_claims").select("booking_id, status");
+  const claimMap = new Map(
+    (claims ?? []).map((c) => [c.booking_id as string, c.status as DamageClaimStatus])
   );
 
+  // Waiting on a pick-up or a return, soonest first
+  const upcoming = bookings
+    .filter((b) => OPEN_BOOKING_STATUSES.includes(b.status))
+    .reverse();
+  const past = bookings.filter((b) => !OPEN_BOOKING_STATUSES.includes(b.status));
+
   return (
     <section className="mx-auto max-w-7xl px-6 py-10">
       <div>
@@ -65,6 +172,36 @@ export default async function BusinessBookingsPage() {
         </p>
       )}
 
+      {/* Unit changes */}
+      {reassignments.length > 0 && (
+        <div className="mt-8">
+          <h2 className="text-lg font-semibold text-gray-900">
+            Unit changes
+            <span className="ml-2 text-sm font-normal text-gray-400">
+              (bookings on deactivated units)
+            </span>
+          </h2>
+          <div className="mt-4 overflow-x-auto rounded-xl border border-gray-200 bg-white shadow-sm">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left font-medium text-gray-500">Booking</th>
+                  <th className="px-6 py-3 text-left font-medium text-gray-500">Customer</th>
+                  <th className="px-6 py-3 text-left font-medium text-gray-500">Rental</th>
+                  <th className="px-6 py-3 text-left font-medium text-gray-500">Outcome</th>
+                  <th className="px-6 py-3 text-left font-medium text-gray-500">When</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {reassignments.map((r) => (
+                  <ReassignmentRow key={r.id} reassignment={r} />
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
       {/* Upcoming */}
       <div className="mt-8">
         <h2 className="text-lg font-semibold text-gray-900">
@@ -87,11 +224,17 @@ export default async function BusinessBookingsPage() {
                   <th className="px-6 py-3 text-left font-medium text-gray-500">To</th>
                   <th className="px-6 py-3 text-left font-medium text-gray-500">Credits</th>
                   <th className="px-6 py-3 text-left font-medium text-gray-500">Status</th>
+                  <th className="px-6 py-3 text-left font-medium text-gray-500">Actions</th>
                 </tr>
               </thead>
               <tbody className="divide-y divide-gray-100">
                 {upcoming.map((b) => (
-                  <BookingRow key={b.id} booking={b} />
+                  <BookingRow
+                    key={b.id}
+                    booking={b}
+                    deposit={depositMap.get(b.id)}
+                    claimStatus={claimMap.get(b.id)}
+                  />
                 ))}
               </tbody>
             </table>
@@ -102,7 +245,7 @@ export default async function BusinessBookingsPage() {
       {/* Past / Canceled */}
       <div className="mt-10">
         <h2 className="text-lg font-semibold text-gray-900">
-          Past &amp; Canceled
+          Returned, No-shows &amp; Canceled
           <span className="ml-2 text-sm font-normal text-gray-400">({past.length})</span>
         </h2>
 
@@ -119,11 +262,17 @@ export default async function BusinessBookingsPage() {
                   <th className="px-6 py-3 text-left font-medium text-gray-500">To</th>
                   <th className="px-6 py-3 text-left font-medium text-gray-500">Credits</th>
                   <th className="px-6 py-3 text-left font-medium text-gray-500">Status</th>
+                  <th className="px-6 py-3 text-left font-medium text-gray-500">Actions</th>
                 </tr>
               </thead>
               <tbody className="divide-y divide-gray-100">
                 {past.map((b) => (
-                  <BookingRow key={b.id} booking={b} />
+                  <BookingRow
+                    key={b.id}
+                    booking={b}
+                    deposit={depositMap.get(b.id)}
+                    claimStatus={claimMap.get(b.id)}
+                  />
                 ))}
               </tbody>
             </table>
@@ -134,18 +283,24 @@ export default async function BusinessBookingsPage() {
   );
 }
 
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-function BookingRow({ booking }: { booking: any }) {
-  const unitData = booking.car_units as {
-    display_name: string | null;
-    vin: string;
-    car_models: { display_name: string } | null;
-  } | null;
+function BookingRow({
+  booking,
+  deposit,
+  claimStatus,
+}: {
+  booking: BusinessBooking;
+  deposit?: BookingDeposit;
+  claimStatus?: DamageClaimStatus;
+}) {
+  const unitData = booking.car_units;
   const unitName =
     unitData?.display_name ?? unitData?.car_models?.display_name ?? unitData?.vin ?? "Unknown";
-  const customerEmail =
-    (booking.profiles as { email: string } | null)?.email ?? "—";
-  const isCanceled = booking.status === "CANCELED";
+  const customerEmail = booking.profiles?.email ?? "—";
+  const status = booking.status;
+  const isCanceled = status === "CANCELED" || status === "NO_SHOW";
+  // Confirmed bookings can be canceled until they end
+  const canCancel = status === "CONFIRMED" && new Date(booking.end_ts) > new Date();
+  const actions = lifecycleActions(status, new Date(booking.start_ts), new Date(booking.end_ts));
   
   // Check if multi-day
   const startDate = formatUtcForDisplay(booking.start_ts, "yyyy-MM-dd");
@@ -156,6 +311,9 @@ function BookingRow({ booking }: { booking: any }) {
   const duration = calculateDurationFromUtc(booking.start_ts, booking.end_ts);
   const durationStr = formatDurationShort(duration);
 
+  // Turnaround reserved after the return (blocked_until - end_ts)
+  const prepMinutes = calculateDurationFromUtc(booking.end_ts, booking.blocked_until).totalMinutes;
+
   return (
     <tr className={isCanceled ? "text-gray-400" : ""}>
       <td className="px-6 py-4 font-medium text-gray-900">
@@ -165,10 +323,29 @@ function BookingRow({ booking }: { booking: any }) {
             {durationStr}
           </span>
         )}
+        {booking.group_id && (
+          <span
+            title={`Group ${booking.group_id}`}
+            className="ml-2 inline-block rounded-full bg-indigo-50 px-1.5 py-0.5 text-[10px] font-medium text-indigo-700"
+          >
+            Group {booking.group_id.slice(0, 8)}
+          </span>
+        )}
       </td>
       <td className="px-6 py-4 text-gray-600">{customerEmail}</td>
       <td className="px-6 py-4">{fmt(booking.start_ts)}</td>
-      <td className="px-6 py-4">{fmt(booking.end_ts)}</td>
+      <td className="px-6 py-4">
+        <div>{fmt(booking.end_ts)}</div>
+        {!isCanceled && prepMinutes > 0 && (
+          <div
+            title="Turnaround time reserved for cleaning and refueling"
+            className="mt-1 inline-block rounded bg-amber-50 px-1.5 py-0.5 text-[10px] font-medium text-amber-700"
+          >
+            Prep {formatTurnaround(prepMinutes)} · until{" "}
+            {formatUtcForDisplay(booking.blocked_until, "h:mm a")}
+          </div>
+        )}
+      </td>
       <td className="px-6 py-4">
         <div>{booking.credits_charged}</div>
         {booking.pricing_mode && (
@@ -179,18 +356,85 @@ function BookingRow({ booking }: { booking: any }) {
             <span className="uppercase">{booking.pricing_mode.replace("_", " ")}</span>
           </div>
         )}
+        {deposit && (
+          <div className="mt-0.5 text-[10px] text-gray-500">{describeDeposit(deposit)}</div>
+        )}
+        {claimStatus && (
+          <div className="text-[10px] font-medium text-amber-700">
+            Damage claim · {DAMAGE_CLAIM_STATUS_LABELS[claimStatus]}
+          </div>
+        )}
       </td>
       <td className="px-6 py-4">
         <span
-          className={`inline-block rounded-full px-2.5 py-0.5 text-xs font-semibold ${
-            isCanceled
-              ? "bg-gray-100 text-gray-500"
-              : "bg-green-50 text-green-700"
-          }`}
+          className={`inline-block rounded-full px-2.5 py-0.5 text-xs font-semibold ${STATUS_STYLES[status]}`}
         >
-          {booking.status}
+          {BOOKING_STATUS_LABELS[status]}
         </span>
+        {booking.checked_out_at && (
+          <div className="mt-1 text-[10px] text-gray-400">
+            Out {formatUtcForDisplay(booking.checked_out_at, "MMM d h:mm a")}
+          </div>
+        )}
+        {booking.returned_at && (
+          <div className="text-[10px] text-gray-400">
+            Back {formatUtcForDisplay(booking.returned_at, "MMM d h:mm a")}
+          </div>
+        )}
+        {booking.late_fee_credits > 0 && (
+          <div className="text-[10px] font-medium text-amber-700">
+            Late fee {booking.late_fee_credits} cr
+          </div>
+        )}
+      </td>
+      <td className="px-6 py-4">
+        <div className="flex flex-col items-start gap-2">
+          <LifecycleButtons bookingId={booking.id} actions={actions} />
+          {canCancel && (
+            <CancelBookingButton bookingId={booking.id} credits={booking.credits_charged} />
+          )}
+          {!isCanceled && (
+            <Link
+              href={`/biz/bookings/${booking.id}`}
+              className="text-xs font-medium text-gray-500 underline hover:text-gray-900"
+            >
+              Condition reports
+            </Link>
+          )}
+        </div>
+      </td>
+    </tr>
+  );
+}
+
+function ReassignmentRow({ reassignment: r }: { reassignment: Reassignment }) {
+  const unitLabel = (u: ReassignmentUnit | null) =>
+    u?.display_name ?? u?.vin ?? "Removed unit";
+  const booking = r.bookings;
+  const toUnit = r.to_unit;
+
+  return (
+    <tr>
+      <td className="px-6 py-4 font-mono text-xs text-gray-500">{r.booking_id.slice(0, 8)}</td>
+      <td className="px-6 py-4 text-gray-600">
+        {r.profiles?.email ?? "—"}
+      </td>
+      <td className="px-6 py-4 text-gray-600">
+        {booking ? `${fmt(booking.start_ts)} – ${fmt(booking.end_ts)}` : "—"}
+      </td>
+      <td className="px-6 py-4">
+        {r.outcome === "REASSIGNED" ? (
+          <span className="text-gray-900">
+            {unitLabel(r.from_unit)} → {unitLabel(toUnit)}
+            {toUnit?.color && <span className="ml-1 text-xs text-gray-400">({toUnit.color})</span>}
+          </span>
+        ) : (
+          <span className="text-red-600">
+            {unitLabel(r.from_unit)} · canceled, {r.refund_credits} credits refunded
+          </span>
+        )}
       </td>
+      <td className="px-6 py-4 text-gray-500">{fmt(r.created_at)}</td>
     </tr>
   );
 }
@@ -0,0 +1,490 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { formatInTimeZone } from "date-fns-tz";
+import { BUSINESS_TIMEZONE, calculateDurationFromUtc, formatDurationShort } from "@/lib/timezone";
+import { formatTurnaround } from "@/lib/turnaround";
+import { FLEET_CALENDAR_SLOT_MINUTES, snapToSlot } from "@/lib/fleetCalendar";
+import { BOOKING_STATUS_LABELS, type BookingStatus } from "@/lib/bookingLifecycle";
+import { addBlackout, deleteBlackout } from "../blackouts/actions";
+import CancelBookingButton from "../bookings/CancelBookingButton";
+
+export interface CalendarUnit {
+  id: string;
+  label: string;
+  modelName: string;
+  color: string | null;
+  colorHex: string | null;
+}
+
+export interface CalendarBooking {
+  id: string;
+  unitId: string;
+  start: string;
+  end: string;
+  /** end + turnaround */
+  blockedUntil: string;
+  customerEmail: string | null;
+  status: BookingStatus;
+  creditsCharged: number;
+  pricingMode: string | null;
+  groupId: string | null;
+  seriesId: string | null;
+  createdAt: string;
+}
+
+export interface CalendarBlackout {
+  id: string;
+  unitId: string;
+  start: string;
+  end: string;
+  reason: string | null;
+}
+
+interface FleetCalendarProps {
+  units: CalendarUnit[];
+  bookings: CalendarBooking[];
+  blackouts: CalendarBlackout[];
+  /** Visible range (UTC ISO), whole days in Central Time */
+  rangeStart: string;
+  rangeEnd: string;
+  days: number;
+}
+
+type Selected = { kind: "booking"; id: string } | { kind: "blackout"; id: string };
+
+function fmt(iso: string, pattern = "EEE, MMM d h:mm a") {
+  return formatInTimeZone(new Date(iso), BUSINESS_TIMEZONE, pattern);
+}
+
+/**
+ * One row per car unit with its bookings, turnaround and blackouts as bars.
+ * Dragging across a row's free space drafts a blackout; clicking a bar
+ * shows its details below the grid.
+ */
+export default function FleetCalendar({
+  units,
+  bookings,
+  blackouts,
+  rangeStart,
+  rangeEnd,
+  days,
+}: FleetCalendarProps) {
+  const [drag, setDrag] = useState<{ unitId: string; anchor: number; current: number } | null>(
+    null
+  );
+  const [draft, setDraft] = useState<{ unitId: string; start: string; end: string } | null>(null);
+  const [reason, setReason] = useState("");
+  const [selected, setSelected] = useState<Selected | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const from = Date.parse(rangeStart);
+  const to = Date.parse(rangeEnd);
+  const span = to - from;
+
+  // Position of [start, end) as CSS percentages, or null if outside the range
+  const place = (start: number, end: number) => {
+    const s = Math.max(start, from);
+    const e = Math.min(end, to);
+    if (e <= s) return null;
+    return { left: `${((s - from) / span) * 100}%`, width: `${((e - s) / span) * 100}%` };
+  };
+
+  // Every 3 hours for a single day, otherwise every midnight
+  const stepMs = (days === 1 ? 3 : 24) * 60 * 60 * 1000;
+  const ticks: number[] = [];
+  for (let t = from; t < to; t += stepMs) ticks.push(t);
+
+  // ---- Drag to draft a blackout ---------------------------------------------
+
+  const timeAt = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const ratio = Math.min(Math.max((e.clientX - rect.left) / rect.width, 0), 1);
+    return snapToSlot(from + ratio * span);
+  };
+
+  function handlePointerDown(e: React.PointerEvent<HTMLDivElement>, unitId: string) {
+    // Only empty space starts a drag; bars handle their own clicks
+    if (e.button !== 0 || e.target !== e.currentTarget) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const t = timeAt(e);
+    setDrag({ unitId, anchor: t, current: t });
+    setDraft(null);
+    setSelected(null);
+    setError(null);
+  }
+
+  function handlePointerMove(e: React.PointerEvent<HTMLDivElement>, unitId: string) {
+    if (!drag || drag.unitId !== unitId) return;
+    setDrag({ ...drag, current: timeAt(e) });
+  }
+
+  function handlePointerUp() {
+    if (!drag) return;
+    const start = Math.min(drag.anchor, drag.current);
+    const end = Math.max(drag.anchor, drag.current);
+    setDrag(null);
+    if (end - start < FLEET_CALENDAR_SLOT_MINUTES * 60 * 1000) return;
+    setDraft({
+      unitId: drag.unitId,
+      start: new Date(start).toISOString(),
+      end: new Date(end).toISOString(),
+    });
+    setReason("");
+  }
+
+  function handleCreateBlackout() {
+    if (!draft) return;
+    setError(null);
+    const formData = new FormData();
+    formData.set("car_unit_id", draft.unitId);
+    formData.set("start_ts", draft.start);
+    formData.set("end_ts", draft.end);
+    formData.set("reason", reason);
+    startTransition(async () => {
+      const res = await addBlackout(formData);
+      if (!res.success) {
+        setError(res.error ?? "Failed");
+      } else {
+        setDraft(null);
+      }
+    });
+  }
+
+  function handleDeleteBlackout(id: string) {
+    if (!window.confirm("Delete this blackout window?")) return;
+    setError(null);
+    startTransition(async () => {
+      const res = await deleteBlackout(id);
+      if (!res.success) {
+        setError(res.error ?? "Failed");
+      } else {
+        setSelected(null);
+      }
+    });
+  }
+
+  const unitLabel = (unitId: string) => {
+    const unit = units.find((u) => u.id === unitId);
+    return unit ? `${unit.label} · ${unit.modelName}` : "—";
+  };
+
+  const draftOverlaps = draft
+    ? bookings.filter(
+        (b) => b.unitId === draft.unitId && b.start < draft.end && b.blockedUntil > draft.start
+      ).length
+    : 0;
+
+  const selectedBooking =
+    selected?.kind === "booking" ? bookings.find((b) => b.id === selected.id) ?? null : null;
+  const selectedBlackout =
+    selected?.kind === "blackout" ? blackouts.find((b) => b.id === selected.id) ?? null : null;
+
+  return (
+    <div className={isPending ? "opacity-60" : ""}>
+      {/* Tick labels */}
+      <div className="flex text-[10px] text-gray-400">
+        <div className="w-44 shrink-0" />
+        <div className="relative h-4 flex-1">
+          {ticks.map((t) => (
+            <span
+              key={t}
+              className="absolute -translate-x-1/2 first:translate-x-0"
+              style={{ left: `${((t - from) / span) * 100}%` }}
+            >
+              {formatInTimeZone(new Date(t), BUSINESS_TIMEZONE, days === 1 ? "ha" : "EEE d").toLowerCase()}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {/* Unit rows */}
+      <div className="mt-1 space-y-1.5">
+        {units.map((unit) => {
+          const unitBookings = bookings.filter((b) => b.unitId === unit.id);
+          const unitBlackouts = blackouts.filter((b) => b.unitId === unit.id);
+          const dragPos =
+            drag && drag.unitId === unit.id
+              ? place(Math.min(drag.anchor, drag.current), Math.max(drag.anchor, drag.current))
+              : null;
+          const draftPos =
+            draft && draft.unitId === unit.id
+              ? place(Date.parse(draft.start), Date.parse(draft.end))
+              : null;
+
+          return (
+            <div key={unit.id} className="flex items-center">
+              <div className="flex w-44 shrink-0 items-center gap-1.5 pr-3 text-xs">
+                {unit.colorHex && (
+                  <span
+                    className="h-2.5 w-2.5 shrink-0 rounded-full border border-gray-300"
+                    style={{ backgroundColor: unit.colorHex }}
+                  />
+                )}
+                <div className="min-w-0">
+                  <div className="truncate font-medium text-gray-900">{unit.label}</div>
+                  <div className="truncate text-[10px] text-gray-400">
+                    {unit.modelName}
+                    {unit.color && ` · ${unit.color}`}
+                  </div>
+                </div>
+              </div>
+
+              <div
+                className="relative h-8 flex-1 cursor-crosshair touch-none select-none overflow-hidden rounded bg-emerald-50"
+                onPointerDown={(e) => handlePointerDown(e, unit.id)}
+                onPointerMove={(e) => handlePointerMove(e, unit.id)}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={() => setDrag(null)}
+              >
+                {ticks.slice(1).map((t) => (
+                  <div
+                    key={t}
+                    className="pointer-events-none absolute inset-y-0 w-px bg-white"
+                    style={{ left: `${((t - from) / span) * 100}%` }}
+                  />
+                ))}
+
+                {unitBlackouts.map((b) => {
+                  const pos = place(Date.parse(b.start), Date.parse(b.end));
+                  if (!pos) return null;
+                  return (
+                    <button
+                      key={b.id}
+                      type="button"
+                      title={`Blackout${b.reason ? ` — ${b.reason}` : ""}: ${fmt(b.start)} – ${fmt(b.end)}`}
+                      onClick={() => setSelected({ kind: "blackout", id: b.id })}
+                      className={`absolute inset-y-1 truncate rounded bg-red-200 px-1 text-left text-[10px] text-red-800 hover:bg-red-300 ${
+                        selected?.id === b.id ? "ring-2 ring-red-500" : ""
+                      }`}
+                      style={pos}
+                    >
+                      {b.reason ?? "Blackout"}
+                    </button>
+                  );
+                })}
+
+                {unitBookings.map((b) => {
+                  const prepPos = place(Date.parse(b.end), Date.parse(b.blockedUntil));
+                  const pos = place(Date.parse(b.start), Date.parse(b.end));
+                  return (
+                    <div key={b.id}>
+                      {prepPos && (
+                        <div
+                          title={`Turnaround until ${fmt(b.blockedUntil, "EEE h:mm a")}`}
+                          className="pointer-events-none absolute inset-y-1 bg-amber-200"
+                          style={prepPos}
+                        />
+                      )}
+                      {pos && (
+                        <button
+                          type="button"
+                          title={`${b.customerEmail ?? "Booking"}: ${fmt(b.start)} – ${fmt(b.end)}`}
+                          onClick={() => setSelected({ kind: "booking", id: b.id })}
+                          className={`absolute inset-y-1 truncate rounded bg-gray-600 px-1 text-left text-[10px] text-white hover:bg-gray-800 ${
+                            selected?.id === b.id ? "ring-2 ring-primary" : ""
+                          }`}
+                          style={pos}
+                        >
+                          {b.customerEmail ?? "Booking"}
+                        </button>
+                      )}
+                    </div>
+                  );
+                })}
+
+                {(dragPos ?? draftPos) && (
+                  <div
+                    className="pointer-events-none absolute inset-y-0 rounded border-2 border-red-500 bg-red-500/10"
+                    style={(dragPos ?? draftPos)!}
+                  />
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Legend */}
+      <div className="mt-3 flex flex-wrap gap-x-3 gap-y-1 text-[10px] text-gray-500">
+        <span className="flex items-center gap-1">
+          <span className="h-2 w-2 rounded-sm bg-emerald-50 ring-1 ring-emerald-200" /> Free
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="h-2 w-2 rounded-sm bg-gray-600" /> Booking
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="h-2 w-2 rounded-sm bg-amber-200" /> Turnaround
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="h-2 w-2 rounded-sm bg-red-200" /> Blackout
+        </span>
+      </div>
+
+      {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+
+      {/* Blackout draft */}
+      {draft && (
+        <div className="mt-4 rounded-lg border border-red-200 bg-red-50 p-4">
+          <h3 className="text-sm font-semibold text-gray-900">New blackout</h3>
+          <p className="mt-1 text-xs text-gray-600">
+            {unitLabel(draft.unitId)} · {fmt(draft.start)} – {fmt(draft.end)}
+          </p>
+          {draftOverlaps > 0 && (
+            <p className="mt-1 text-xs text-amber-700">
+              Overlaps {draftOverlaps} confirmed booking{draftOverlaps !== 1 ? "s" : ""}. They stay
+              booked — cancel or move them separately.
+            </p>
+          )}
+          <div className="mt-3 flex flex-wrap items-end gap-3">
+            <label className="flex flex-col gap-1 text-xs font-medium text-gray-500">
+              Reason
+              <input
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="e.g. Maintenance"
+                className="h-9 w-56 rounded-lg border border-gray-300 bg-white px-2 text-sm text-gray-900 placeholder:text-gray-400"
+              />
+            </label>
+            <button
+              type="button"
+              onClick={handleCreateBlackout}
+              disabled={isPending}
+              className="h-9 rounded-lg bg-gray-900 px-4 text-sm font-medium text-white hover:bg-gray-700 disabled:opacity-50"
+            >
+              Add Blackout
+            </button>
+            <button
+              type="button"
+              onClick={() => setDraft(null)}
+              className="h-9 px-2 text-sm text-gray-500 hover:text-gray-700"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Booking details */}
+      {selectedBooking && (
+        <div className="mt-4 rounded-lg border border-gray-200 bg-gray-50 p-4 text-sm">
+          <div className="flex items-start justify-between gap-4">
+            <h3 className="font-semibold text-gray-900">{unitLabel(selectedBooking.unitId)}</h3>
+            <button
+              type="button"
+              onClick={() => setSelected(null)}
+              className="text-xs text-gray-500 hover:text-gray-700"
+            >
+              Close
+            </button>
+          </div>
+          <dl className="mt-3 grid grid-cols-2 gap-x-6 gap-y-2 sm:grid-cols-4">
+            <div>
+              <dt className="text-xs text-gray-500">Customer</dt>
+              <dd className="text-gray-900">{selectedBooking.customerEmail ?? "—"}</dd>
+            </div>
+            <div>
+              <dt className="text-xs text-gray-500">From</dt>
+              <dd className="text-gray-900">{fmt(selectedBooking.start)}</dd>
+            </div>
+            <div>
+              <dt className="text-xs text-gray-500">To</dt>
+              <dd className="text-gray-900">{fmt(selectedBooking.end)}</dd>
+            </div>
+            <div>
+              <dt className="text-xs text-gray-500">Duration</dt>
+              <dd className="text-gray-900">
+                {formatDurationShort(calculateDurationFromUtc(selectedBooking.start, selectedBooking.end))}
+              </dd>
+            </div>
+            <div>
+              <dt className="text-xs text-gray-500">Credits</dt>
+              <dd className="text-gray-900">
+                {selectedBooking.creditsCharged}
+                {selectedBooking.pricingMode && (
+                  <span className="ml-1 text-[10px] uppercase text-gray-400">
+                    {selectedBooking.pricingMode.replace("_", " ")}
+                  </span>
+                )}
+              </dd>
+            </div>
+            <div>
+              <dt className="text-xs text-gray-500">Turnaround</dt>
+              <dd className="text-gray-900">
+                {formatTurnaround(
+                  calculateDurationFromUtc(selectedBooking.end, selectedBooking.blockedUntil).totalMinutes
+                )}
+              </dd>
+            </div>
+            <div>
+              <dt className="text-xs text-gray-500">Status</dt>
+              <dd className="text-gray-900">{BOOKING_STATUS_LABELS[selectedBooking.status]}</dd>
+            </div>
+            <div>
+              <dt className="text-xs text-gray-500">Booked</dt>
+              <dd className="text-gray-900">{fmt(selectedBooking.createdAt, "MMM d, yyyy h:mm a")}</dd>
+            </div>
+            <div>
+              <dt className="text-xs text-gray-500">Reference</dt>
+              <dd className="font-mono text-xs text-gray-900">{selectedBooking.id.slice(0, 8)}</dd>
+            </div>
+          </dl>
+          {(selectedBooking.groupId || selectedBooking.seriesId) && (
+            <div className="mt-3 flex gap-2">
+              {selectedBooking.groupId && (
+                <span className="inline-block rounded-full bg-indigo-50 px-1.5 py-0.5 text-[10px] font-medium text-indigo-700">
+                  Group {selectedBooking.groupId.slice(0, 8)}
+                </span>
+              )}
+              {selectedBooking.seriesId && (
+                <span className="inline-block rounded-full bg-violet-50 px-1.5 py-0.5 text-[10px] font-medium text-violet-700">
+                  Series {selectedBooking.seriesId.slice(0, 8)}
+                </span>
+              )}
+            </div>
+          )}
+          {selectedBooking.status === "CONFIRMED" && Date.parse(selectedBooking.end) > Date.now() && (
+            <div className="mt-3 border-t border-gray-200 pt-3">
+              <CancelBookingButton
+                key={selectedBooking.id}
+                bookingId={selectedBooking.id}
+                credits={selectedBooking.creditsCharged}
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Blackout details */}
+      {selectedBlackout && (
+        <div className="mt-4 flex items-start justify-between gap-4 rounded-lg border border-red-200 bg-red-50 p-4 text-sm">
+          <div>
+            <h3 className="font-semibold text-gray-900">{unitLabel(selectedBlackout.unitId)}</h3>
+            <p className="mt-1 text-gray-700">
+              Blackout · {fmt(selectedBlackout.start)} – {fmt(selectedBlackout.end)}
+            </p>
+            <p className="mt-1 text-xs text-gray-500">{selectedBlackout.reason ?? "No reason given"}</p>
+          </div>
+          <div className="flex shrink-0 gap-3">
+            <button
+              type="button"
+              onClick={() => handleDeleteBlackout(selectedBlackout.id)}
+              disabled={isPending}
+              className="text-sm text-red-500 hover:text-red-700"
+            >
+              Delete
+            </button>
+            <button
+              type="button"
+              onClick={() => setSelected(null)}
+              className="text-xs text-gray-500 hover:text-gray-700"
+            >
+              Close
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
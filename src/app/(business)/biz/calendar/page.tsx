@@ -0,0 +1,256 @@
+import Link from "next/link";
+import { formatInTimeZone } from "date-fns-tz";
+import { createClient } from "@/lib/supabase/server";
+import { getProfile } from "@/lib/auth/getProfile";
+import { BUSINESS_TIMEZONE, TIMEZONE_LABEL } from "@/lib/timezone";
+import { fleetCalendarRange, FLEET_CALENDAR_MAX_DAYS } from "@/lib/fleetCalendar";
+import { OCCUPYING_BOOKING_STATUSES } from "@/lib/bookingLifecycle";
+import FleetCalendar, {
+  type CalendarBlackout,
+  type CalendarBooking,
+  type CalendarUnit,
+} from "./FleetCalendar";
+
+export const metadata = {
+  title: "Fleet Calendar | ForzaCars Rentals",
+};
+
+interface Props {
+  searchParams: Promise<{
+    model?: string;
+    color?: string;
+    from?: string;
+    to?: string;
+  }>;
+}
+
+export default async function BusinessCalendarPage({ searchParams }: Props) {
+  const params = await searchParams;
+  const profile = await getProfile();
+  const businessId = profile?.business_id ?? null;
+
+  const today = formatInTimeZone(new Date(), BUSINESS_TIMEZONE, "yyyy-MM-dd");
+  const range = fleetCalendarRange(params.from, params.to, today);
+
+  const supabase = await createClient();
+
+  // All active units of the business, for the rows and the filter options
+  const { data: allUnits } = businessId
+    ? await supabase
+        .from("car_units")
+        .select("id, car_model_id, display_name, vin, color, color_hex, car_models ( display_name )")
+        .eq("business_id", businessId)
+        .eq("active", true)
+    : { data: null };
+
+  const modelName = (u: NonNullable<typeof allUnits>[number]) =>
+    (u.car_models as unknown as { display_name: string } | null)?.display_name ?? "—";
+
+  const modelOptions = Array.from(
+    new Map((allUnits ?? []).map((u) => [u.car_model_id, modelName(u)])).entries()
+  )
+    .map(([id, label]) => ({ id, label }))
+    .sort((a, b) => a.label.localeCompare(b.label));
+
+  const colorOptions = Array.from(
+    new Set((allUnits ?? []).map((u) => u.color).filter((c): c is string => !!c))
+  ).sort();
+
+  const units: CalendarUnit[] = (allUnits ?? [])
+    .filter((u) => !params.model || u.car_model_id === params.model)
+    .filter((u) => !params.color || u.color?.toLowerCase() === params.color.toLowerCase())
+    .map((u) => ({
+      id: u.id,
+      label: u.display_name ?? u.vin,
+      modelName: modelName(u),
+      color: u.color,
+      colorHex: u.color_hex,
+    }))
+    .sort((a, b) => a.modelName.localeCompare(b.modelName) || a.label.localeCompare(b.label));
+
+  const unitIds = units.map((u) => u.id);
+
+  // Confirmed bookings (with turnaround) and blackouts overlapping the range — RLS scoped
+  const { data: bookingRows, error: bookingsError } = unitIds.length
+    ? await supabase
+        .from("bookings")
+        .select(
+          `
+          id,
+          car_unit_id,
+          start_ts,
+          end_ts,
+          blocked_until,
+          status,
+          credits_charged,
+          pricing_mode,
+          group_id,
+          series_id,
+          created_at,
+          profiles!bookings_customer_id_fkey ( email )
+        `
+        )
+        .in("car_unit_id", unitIds)
+        .in("status", OCCUPYING_BOOKING_STATUSES)
+        .lt("start_ts", range.endTs)
+        .gt("blocked_until", range.startTs)
+    : { data: null, error: null };
+
+  const { data: blackoutRows } = unitIds.length
+    ? await supabase
+        .from("car_blackouts")
+        .select("id, car_unit_id, start_ts, end_ts, reason")
+        .in("car_unit_id", unitIds)
+        .lt("start_ts", range.endTs)
+        .gt("end_ts", range.startTs)
+    : { data: null };
+
+  const bookings: CalendarBooking[] = (bookingRows ?? []).map((b) => ({
+    id: b.id,
+    unitId: b.car_unit_id,
+    start: new Date(b.start_ts).toISOString(),
+    end: new Date(b.end_ts).toISOString(),
+    blockedUntil: new Date(b.blocked_until).toISOString(),
+    customerEmail: (b.profiles as unknown as { email: string } | null)?.email ?? null,
+    status: b.status,
+    creditsCharged: b.credits_charged,
+    pricingMode: b.pricing_mode,
+    groupId: b.group_id,
+    seriesId: b.series_id,
+    createdAt: b.created_at,
+  }));
+
+  const blackouts: CalendarBlackout[] = (blackoutRows ?? []).map((b) => ({
+    id: b.id,
+    unitId: b.car_unit_id,
+    start: new Date(b.start_ts).toISOString(),
+    end: new Date(b.end_ts).toISOString(),
+    reason: b.reason,
+  }));
+
+  const isFiltered = !!(params.model || params.color || params.from || params.to);
+
+  return (
+    <section className="mx-auto max-w-7xl px-6 py-10">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight text-gray-900">
+          Fleet Calendar
+        </h1>
+        <p className="mt-1 text-gray-500">
+          Bookings and blackouts for every car unit. Drag across free time to
+          block it; click a booking for its details.
+          <span className="ml-2 text-xs text-gray-400">
+            · Times shown in {TIMEZONE_LABEL}
+          </span>
+        </p>
+      </div>
+
+      {!businessId && (
+        <div className="mt-10 rounded-xl border border-amber-200 bg-amber-50 p-6 text-center text-sm text-amber-800">
+          Your account is not linked to a business yet.
+        </div>
+      )}
+
+      {businessId && (
+        <>
+          {/* Filters — plain GET form, the range lives in the URL */}
+          <form className="mt-8 flex flex-wrap items-end gap-3 rounded-xl border border-gray-200 bg-white p-5 shadow-sm">
+            <label className="flex flex-col gap-1 text-xs font-medium text-gray-500">
+              Model
+              <select
+                name="model"
+                defaultValue={params.model ?? ""}
+                className="h-9 w-56 rounded-lg border border-gray-300 px-2 text-sm text-gray-900"
+              >
+                <option value="">All models</option>
+                {modelOptions.map((m) => (
+                  <option key={m.id} value={m.id}>
+                    {m.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            <label className="flex flex-col gap-1 text-xs font-medium text-gray-500">
+              Color
+              <select
+                name="color"
+                defaultValue={params.color ?? ""}
+                className="h-9 w-36 rounded-lg border border-gray-300 px-2 text-sm text-gray-900"
+              >
+                <option value="">All colors</option>
+                {colorOptions.map((c) => (
+                  <option key={c} value={c}>
+                    {c}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            <label className="flex flex-col gap-1 text-xs font-medium text-gray-500">
+              From
+              <input
+                name="from"
+                type="date"
+                defaultValue={range.from}
+                className="h-9 rounded-lg border border-gray-300 px-2 text-sm text-gray-900"
+              />
+            </label>
+
+            <label className="flex flex-col gap-1 text-xs font-medium text-gray-500">
+              To
+              <input
+                name="to"
+                type="date"
+                defaultValue={range.to}
+                className="h-9 rounded-lg border border-gray-300 px-2 text-sm text-gray-900"
+              />
+            </label>
+
+            <button
+              type="submit"
+              className="h-9 rounded-lg bg-gray-900 px-4 text-sm font-medium text-white hover:bg-gray-700"
+            >
+              Apply
+            </button>
+
+            {isFiltered && (
+              <Link href="/biz/calendar" className="h-9 px-2 text-sm leading-9 text-gray-500 hover:text-gray-700">
+                Reset
+              </Link>
+            )}
+
+            <span className="ml-auto text-xs text-gray-400">
+              Up to {FLEET_CALENDAR_MAX_DAYS} days at a time
+            </span>
+          </form>
+
+          {bookingsError && (
+            <p className="mt-4 text-sm text-red-600">
+              Failed to load bookings: {bookingsError.message}
+            </p>
+          )}
+
+          <div className="mt-6 rounded-xl border border-gray-200 bg-white p-5 shadow-sm">
+            {units.length === 0 ? (
+              <p className="py-10 text-center text-sm text-gray-400">
+                {allUnits && allUnits.length > 0
+                  ? "No units match these filters."
+                  : "Add a car unit to see it on the calendar."}
+              </p>
+            ) : (
+              <FleetCalendar
+                units={units}
+                bookings={bookings}
+                blackouts={blackouts}
+                rangeStart={range.startTs}
+                rangeEnd={range.endTs}
+                days={range.days}
+              />
+            )}
+          </div>
+        </>
+      )}
+    </section>
+  );
+}
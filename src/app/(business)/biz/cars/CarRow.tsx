@@ -8,15 +8,18 @@ export default function CarRow({ unit }: { unit: any }) {
   const [isPending, startTransition] = useTransition();
   const [editing, setEditing] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
 
   const modelName =
     (unit.car_models as { display_name: string } | null)?.display_name ?? "—";
 
   function handleToggle() {
     setError(null);
+    setNotice(null);
     startTransition(async () => {
       const res = await toggleUnitActive(unit.id, !unit.active);
       if (!res.success) setError(res.error ?? "Failed");
+      else setNotice(res.notice ?? null);
     });
   }
 
@@ -116,6 +119,7 @@ export default function CarRow({ unit }: { unit: any }) {
           <button onClick={handleDelete} disabled={isPending} className="text-sm text-red-500 hover:text-red-700">Delete</button>
         </div>
         {error && <p className="mt-1 text-xs text-red-600">{error}</p>}
+        {notice && <p className="mt-1 text-xs text-amber-700">{notice}</p>}
       </td>
     </tr>
   );
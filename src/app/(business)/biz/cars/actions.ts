@@ -4,6 +4,7 @@ import { revalidatePath } from "next/cache";
 import { createClient } from "@/lib/supabase/server";
 import { getProfile } from "@/lib/auth/getProfile";
 import { rateLimit } from "@/lib/rateLimit";
+import { sendPendingReassignmentEmails, describeReassignments } from "@/lib/reassignment";
 
 const RATE_MAX = 10;
 const RATE_WINDOW = 60_000; // 1 min
@@ -11,6 +12,8 @@ const RATE_WINDOW = 60_000; // 1 min
 interface ActionResult {
   success: boolean;
   error?: string;
+  /** What deactivating the unit did to its upcoming bookings */
+  notice?: string | null;
 }
 
 // ---------------------------------------------------------------------------
@@ -114,7 +117,13 @@ export async function toggleUnitActive(unitId: string, active: boolean): Promise
   if (error) return { success: false, error: error.message };
 
   revalidatePath("/biz/cars");
-  return { success: true };
+  if (active) return { success: true };
+
+  // Deactivating moved or canceled the unit's upcoming bookings (DB trigger)
+  const notice = describeReassignments(await sendPendingReassignmentEmails([unitId]));
+  revalidatePath("/biz/bookings");
+  revalidatePath("/biz/calendar");
+  return { success: true, notice };
 }
 
 // ---------------------------------------------------------------------------
@@ -39,6 +39,7 @@ export default function FleetRow({ model }: FleetRowProps) {
   const [quantity, setQuantity] = useState(model.quantity);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
   const [expanded, setExpanded] = useState(false);
 
   async function handleIncrement() {
@@ -62,11 +63,13 @@ export default function FleetRow({ model }: FleetRowProps) {
 
     setLoading(true);
     setError(null);
+    setNotice(null);
 
     const result = await decrementFleetQuantity(model.car_model_id, quantity);
 
     if (result.success && result.data?.newQty !== undefined) {
       setQuantity(result.data.newQty);
+      setNotice(result.notice ?? null);
       router.refresh();
     } else {
       setError(result.error ?? "Failed to remove unit");
@@ -170,6 +173,11 @@ export default function FleetRow({ model }: FleetRowProps) {
             {error}
           </p>
         )}
+        {notice && (
+          <p className="text-xs text-amber-700 max-w-[200px]" title={notice}>
+            {notice}
+          </p>
+        )}
       </div>
 
       {/* Expanded units list */}
@@ -5,6 +5,7 @@ import { z } from "zod";
 import { createClient } from "@/lib/supabase/server";
 import { getProfile } from "@/lib/auth/getProfile";
 import { rateLimit } from "@/lib/rateLimit";
+import { sendPendingReassignmentEmails, describeReassignments } from "@/lib/reassignment";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -22,6 +23,8 @@ interface ActionResult {
     addedIds?: string[];
     removedIds?: string[];
   };
+  /** What removing units did to their upcoming bookings */
+  notice?: string | null;
 }
 
 // ---------------------------------------------------------------------------
@@ -172,8 +175,17 @@ export async function adjustFleetQuantity(formData: FormData): Promise<ActionRes
     removed_ids: string[];
   };
 
+  // Removed units' upcoming bookings were moved or canceled (DB trigger)
+  let notice: string | null = null;
+  if (result.removed_ids.length > 0) {
+    notice = describeReassignments(await sendPendingReassignmentEmails(result.removed_ids));
+    revalidatePath("/biz/bookings");
+    revalidatePath("/biz/calendar");
+  }
+
   return {
     success: true,
+    notice,
     data: {
       carModelId: result.car_model_id,
       previousQty: result.previous_qty,
@@ -0,0 +1,149 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { saveOperatingHours } from "./actions";
+import { DAY_NAMES } from "@/lib/operatingHours";
+import { formatTime12h, generateTimeSlots } from "@/lib/timezone";
+
+interface TargetOption {
+  id: string;
+  label: string;
+}
+
+interface OperatingHoursFormProps {
+  /** Fleet models the business has units of (label includes unit count) */
+  models: TargetOption[];
+  units: TargetOption[];
+}
+
+const START_SLOTS = generateTimeSlots();
+const END_SLOTS = [...START_SLOTS.slice(1), "24:00"];
+
+export default function OperatingHoursForm({ models, units }: OperatingHoursFormProps) {
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [alwaysOpen, setAlwaysOpen] = useState(false);
+
+  function handleSubmit(formData: FormData) {
+    setError(null);
+    setMessage(null);
+    startTransition(async () => {
+      const res = await saveOperatingHours(formData);
+      if (!res.success) {
+        setError(res.error ?? "Failed to save");
+      } else {
+        setMessage(
+          `Saved for ${res.unitCount} unit${res.unitCount !== 1 ? "s" : ""}. ` +
+            "Existing bookings are not affected."
+        );
+      }
+    });
+  }
+
+  if (units.length === 0) {
+    return (
+      <p className="text-sm text-gray-400">
+        Add a car unit first before setting operating hours.
+      </p>
+    );
+  }
+
+  return (
+    <form
+      action={handleSubmit}
+      className="rounded-xl border border-gray-200 bg-white p-5 shadow-sm"
+    >
+      <h3 className="text-sm font-semibold text-gray-900">Set weekly hours</h3>
+      <p className="mt-1 text-xs text-gray-500">
+        Pick-up and return must fall within these hours (Central Time). Multi-day
+        rentals may span closed nights.
+      </p>
+
+      <div className="mt-4 flex flex-wrap items-end gap-3">
+        <label className="flex flex-col gap-1 text-xs font-medium text-gray-500">
+          Apply to *
+          <select
+            name="target"
+            required
+            className="h-9 w-64 rounded-lg border border-gray-300 px-2 text-sm text-gray-900"
+          >
+            <option value="">Select a model or unit…</option>
+            <optgroup label="Every unit of a model">
+              {models.map((m) => (
+                <option key={m.id} value={`model:${m.id}`}>
+                  {m.label}
+                </option>
+              ))}
+            </optgroup>
+            <optgroup label="Single unit">
+              {units.map((u) => (
+                <option key={u.id} value={`unit:${u.id}`}>
+                  {u.label}
+                </option>
+              ))}
+            </optgroup>
+          </select>
+        </label>
+
+        <label className="flex h-9 items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            name="always_open"
+            checked={alwaysOpen}
+            onChange={(e) => setAlwaysOpen(e.target.checked)}
+          />
+          Open 24/7
+        </label>
+      </div>
+
+      {!alwaysOpen && (
+        <div className="mt-4 space-y-2">
+          {DAY_NAMES.map((name, day) => (
+            <div key={name} className="flex flex-wrap items-center gap-3">
+              <label className="flex w-32 items-center gap-2 text-sm text-gray-700">
+                <input type="checkbox" name={`open_${day}`} defaultChecked={day !== 0} />
+                {name}
+              </label>
+              <select
+                name={`start_${day}`}
+                defaultValue="09:00"
+                className="h-9 rounded-lg border border-gray-300 px-2 text-sm text-gray-900"
+              >
+                {START_SLOTS.map((t) => (
+                  <option key={t} value={t}>
+                    {formatTime12h(t)}
+                  </option>
+                ))}
+              </select>
+              <span className="text-sm text-gray-400">to</span>
+              <select
+                name={`end_${day}`}
+                defaultValue="18:00"
+                className="h-9 rounded-lg border border-gray-300 px-2 text-sm text-gray-900"
+              >
+                {END_SLOTS.map((t) => (
+                  <option key={t} value={t}>
+                    {t === "24:00" ? "Midnight" : formatTime12h(t)}
+                  </option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="mt-4 flex items-center gap-3">
+        <button
+          type="submit"
+          disabled={isPending}
+          className="h-9 rounded-lg bg-gray-900 px-4 text-sm font-medium text-white hover:bg-gray-700 disabled:opacity-50"
+        >
+          {isPending ? "Saving…" : "Save hours"}
+        </button>
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        {message && <p className="text-sm text-green-600">{message}</p>}
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,96 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { saveTurnaround } from "./actions";
+import { TURNAROUND_OPTIONS, formatTurnaround } from "@/lib/turnaround";
+
+interface TurnaroundFormProps {
+  /** Current business-wide default, in minutes */
+  businessMinutes: number;
+  units: { id: string; label: string }[];
+}
+
+export default function TurnaroundForm({ businessMinutes, units }: TurnaroundFormProps) {
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [target, setTarget] = useState("business");
+
+  function handleSubmit(formData: FormData) {
+    setError(null);
+    setMessage(null);
+    startTransition(async () => {
+      const res = await saveTurnaround(formData);
+      if (!res.success) {
+        setError(res.error ?? "Failed to save");
+      } else {
+        setMessage("Saved. Existing bookings keep their prep time.");
+      }
+    });
+  }
+
+  return (
+    <form
+      action={handleSubmit}
+      className="rounded-xl border border-gray-200 bg-white p-5 shadow-sm"
+    >
+      <h3 className="text-sm font-semibold text-gray-900">Turnaround time</h3>
+      <p className="mt-1 text-xs text-gray-500">
+        Time kept free after every return for cleaning and refueling. The car
+        can&apos;t be picked up again until it has passed. Business default:{" "}
+        <span className="font-medium text-gray-700">{formatTurnaround(businessMinutes)}</span>
+      </p>
+
+      <div className="mt-4 flex flex-wrap items-end gap-3">
+        <label className="flex flex-col gap-1 text-xs font-medium text-gray-500">
+          Apply to *
+          <select
+            name="target"
+            value={target}
+            onChange={(e) => setTarget(e.target.value)}
+            className="h-9 w-64 rounded-lg border border-gray-300 px-2 text-sm text-gray-900"
+          >
+            <option value="business">All units (business default)</option>
+            {units.length > 0 && (
+              <optgroup label="Single unit">
+                {units.map((u) => (
+                  <option key={u.id} value={`unit:${u.id}`}>
+                    {u.label}
+                  </option>
+                ))}
+              </optgroup>
+            )}
+          </select>
+        </label>
+
+        <label className="flex flex-col gap-1 text-xs font-medium text-gray-500">
+          Turnaround *
+          <select
+            name="minutes"
+            key={target === "business" ? "business" : "unit"}
+            defaultValue={target === "business" ? String(businessMinutes) : ""}
+            className="h-9 w-48 rounded-lg border border-gray-300 px-2 text-sm text-gray-900"
+          >
+            {target !== "business" && <option value="">Use business default</option>}
+            {TURNAROUND_OPTIONS.map((m) => (
+              <option key={m} value={m}>
+                {formatTurnaround(m)}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <button
+          type="submit"
+          disabled={isPending}
+          className="h-9 rounded-lg bg-gray-900 px-4 text-sm font-medium text-white hover:bg-gray-700 disabled:opacity-50"
+        >
+          {isPending ? "Saving…" : "Save turnaround"}
+        </button>
+      </div>
+
+      {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+      {message && <p className="mt-3 text-sm text-green-600">{message}</p>}
+    </form>
+  );
+}
@@ -0,0 +1,154 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+import { createClient } from "@/lib/supabase/server";
+import { getProfile } from "@/lib/auth/getProfile";
+import { rateLimit } from "@/lib/rateLimit";
+import { DAY_NAMES } from "@/lib/operatingHours";
+import { TURNAROUND_OPTIONS } from "@/lib/turnaround";
+
+interface ActionResult {
+  success: boolean;
+  error?: string;
+  unitCount?: number;
+}
+
+// ---------------------------------------------------------------------------
+// Validation schema
+// ---------------------------------------------------------------------------
+
+const TIME_RE = /^([01]\d|2[0-3]):[03]0$/;
+
+const hoursSchema = z
+  .object({
+    target: z
+      .string()
+      .regex(/^(unit|model):[0-9a-f-]{36}$/i, "Choose a car unit or fleet model"),
+    always_open: z.boolean(),
+    windows: z.array(
+      z.object({
+        day_of_week: z.number().int().min(0).max(6),
+        start_time: z.string().regex(TIME_RE, "Invalid opening time"),
+        end_time: z
+          .string()
+          .refine((v) => v === "24:00" || TIME_RE.test(v), "Invalid closing time"),
+      })
+    ),
+  })
+  .superRefine((v, ctx) => {
+    if (v.always_open) return;
+    if (v.windows.length === 0) {
+      ctx.addIssue({ code: "custom", message: "Open at least one day, or choose Open 24/7" });
+      return;
+    }
+    for (const w of v.windows) {
+      if (w.start_time >= w.end_time) {
+        ctx.addIssue({
+          code: "custom",
+          message: `${DAY_NAMES[w.day_of_week]}: closing time must be after opening time`,
+        });
+        return;
+      }
+    }
+  });
+
+// ---------------------------------------------------------------------------
+// Save weekly hours for a unit or every unit of a fleet model
+// ---------------------------------------------------------------------------
+
+export async function saveOperatingHours(formData: FormData): Promise<ActionResult> {
+  const profile = await getProfile();
+  if (!profile || profile.role !== "BUSINESS") {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  const rl = rateLimit(`${profile.id}:biz_hours`, 20, 60_000);
+  if (!rl.ok) return { success: false, error: "Too many requests. Slow down." };
+
+  // One window per day; days left unticked are closed
+  const windows = DAY_NAMES.map((_, day) => day)
+    .filter((day) => formData.get(`open_${day}`) === "on")
+    .map((day) => ({
+      day_of_week: day,
+      start_time: (formData.get(`start_${day}`) as string) ?? "",
+      end_time: (formData.get(`end_${day}`) as string) ?? "",
+    }));
+
+  const parsed = hoursSchema.safeParse({
+    target: formData.get("target") as string,
+    always_open: formData.get("always_open") === "on",
+    windows,
+  });
+
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.issues[0].message };
+  }
+
+  const [kind, id] = parsed.data.target.split(":");
+
+  const supabase = await createClient();
+  const { data, error } = await supabase.rpc("business_set_operating_hours", {
+    p_car_unit_id: kind === "unit" ? id : null,
+    p_car_model_id: kind === "model" ? id : null,
+    p_hours: parsed.data.always_open ? [] : parsed.data.windows,
+  });
+
+  if (error) return { success: false, error: error.message };
+
+  revalidatePath("/biz/hours");
+  return { success: true, unitCount: (data as { unit_count: number }).unit_count };
+}
+
+// ---------------------------------------------------------------------------
+// Turnaround time: business default or a single unit's override
+// ---------------------------------------------------------------------------
+
+const turnaroundSchema = z
+  .object({
+    target: z
+      .string()
+      .regex(/^(business|unit:[0-9a-f-]{36})$/i, "Choose the business default or a car unit"),
+    // "" = use the business default (units only)
+    minutes: z
+      .string()
+      .refine(
+        (v) => v === "" || TURNAROUND_OPTIONS.includes(Number(v)),
+        "Invalid turnaround time"
+      ),
+  })
+  .refine((v) => v.target !== "business" || v.minutes !== "", {
+    message: "Choose a turnaround time",
+  });
+
+export async function saveTurnaround(formData: FormData): Promise<ActionResult> {
+  const profile = await getProfile();
+  if (!profile || profile.role !== "BUSINESS") {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  const rl = rateLimit(`${profile.id}:biz_hours`, 20, 60_000);
+  if (!rl.ok) return { success: false, error: "Too many requests. Slow down." };
+
+  const parsed = turnaroundSchema.safeParse({
+    target: formData.get("target") as string,
+    minutes: (formData.get("minutes") as string) ?? "",
+  });
+
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.issues[0].message };
+  }
+
+  const { target, minutes } = parsed.data;
+
+  const supabase = await createClient();
+  const { error } = await supabase.rpc("business_set_turnaround", {
+    p_car_unit_id: target === "business" ? null : target.slice("unit:".length),
+    p_minutes: minutes === "" ? null : Number(minutes),
+  });
+
+  if (error) return { success: false, error: error.message };
+
+  revalidatePath("/biz/hours");
+  return { success: true };
+}
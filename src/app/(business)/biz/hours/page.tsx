@@ -0,0 +1,134 @@
+import { createClient } from "@/lib/supabase/server";
+import { getProfile } from "@/lib/auth/getProfile";
+import { getUnitOperatingHours } from "@/lib/unitOperatingHours";
+import { describeOperatingHours } from "@/lib/operatingHours";
+import { effectiveTurnaround, formatTurnaround } from "@/lib/turnaround";
+import OperatingHoursForm from "./OperatingHoursForm";
+import TurnaroundForm from "./TurnaroundForm";
+
+export default async function BusinessOperatingHoursPage() {
+  const profile = await getProfile();
+  const businessId = profile?.business_id ?? null;
+  const hasBusinessId = !!businessId;
+
+  const supabase = await createClient();
+
+  // The business's car_units — RLS scoped
+  const { data: units } = await supabase
+    .from("car_units")
+    .select(
+      "id, display_name, vin, car_model_id, active, turnaround_minutes, car_models ( display_name )"
+    )
+    .order("display_name");
+
+  // Business-wide turnaround default
+  const { data: business } = businessId
+    ? await supabase
+        .from("businesses")
+        .select("turnaround_minutes")
+        .eq("id", businessId)
+        .single()
+    : { data: null };
+  const businessTurnaround = business?.turnaround_minutes ?? 0;
+
+  const unitHours = await getUnitOperatingHours((units ?? []).map((u) => u.id));
+
+  const modelName = (u: NonNullable<typeof units>[number]) =>
+    (u.car_models as unknown as { display_name: string } | null)?.display_name ?? null;
+
+  const unitOptions = (units ?? []).map((u) => ({
+    id: u.id,
+    label: u.display_name ?? modelName(u) ?? u.vin,
+  }));
+
+  // Fleet models, with how many of the business's units each covers
+  const modelCounts = new Map<string, { label: string; count: number }>();
+  for (const u of units ?? []) {
+    const entry = modelCounts.get(u.car_model_id) ?? { label: modelName(u) ?? "—", count: 0 };
+    entry.count += 1;
+    modelCounts.set(u.car_model_id, entry);
+  }
+  const modelOptions = Array.from(modelCounts.entries())
+    .map(([id, { label, count }]) => ({
+      id,
+      label: `${label} (${count} unit${count !== 1 ? "s" : ""})`,
+    }))
+    .sort((a, b) => a.label.localeCompare(b.label));
+
+  return (
+    <section className="mx-auto max-w-7xl px-6 py-10">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight text-gray-900">
+          Operating Hours
+        </h1>
+        <p className="mt-1 text-gray-500">
+          Weekly pick-up and return hours per car unit or for a whole fleet model.
+          Units without hours can be booked around the clock. Turnaround time
+          keeps each car free after a return so it can be prepared.
+        </p>
+      </div>
+
+      {!hasBusinessId && (
+        <div className="mt-10 rounded-xl border border-amber-200 bg-amber-50 p-6 text-center text-sm text-amber-800">
+          Your account is not linked to a business yet.
+        </div>
+      )}
+
+      {hasBusinessId && (
+        <>
+          <div className="mt-8">
+            <OperatingHoursForm models={modelOptions} units={unitOptions} />
+          </div>
+
+          <div className="mt-6">
+            <TurnaroundForm businessMinutes={businessTurnaround} units={unitOptions} />
+          </div>
+
+          <div className="mt-8 overflow-x-auto rounded-xl border border-gray-200 bg-white shadow-sm">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left font-medium text-gray-500">Unit</th>
+                  <th className="px-6 py-3 text-left font-medium text-gray-500">Model</th>
+                  <th className="px-6 py-3 text-left font-medium text-gray-500">Hours</th>
+                  <th className="px-6 py-3 text-left font-medium text-gray-500">Turnaround</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {units && units.length > 0 ? (
+                  units.map((u) => (
+                    <tr key={u.id} className={u.active ? "" : "opacity-60"}>
+                      <td className="px-6 py-3 align-top font-medium text-gray-900">
+                        {u.display_name ?? u.vin}
+                      </td>
+                      <td className="px-6 py-3 align-top text-gray-600">{modelName(u) ?? "—"}</td>
+                      <td className="px-6 py-3 text-xs text-gray-500">
+                        {describeOperatingHours(unitHours.get(u.id) ?? []).map((line) => (
+                          <p key={line}>{line}</p>
+                        ))}
+                      </td>
+                      <td className="px-6 py-3 align-top text-gray-600">
+                        {formatTurnaround(
+                          effectiveTurnaround(u.turnaround_minutes, businessTurnaround)
+                        )}
+                        {u.turnaround_minutes === null && (
+                          <span className="ml-1 text-xs text-gray-400">(default)</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))
+                ) : (
+                  <tr>
+                    <td className="px-6 py-10 text-center text-gray-400" colSpan={4}>
+                      No car units yet.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </section>
+  );
+}
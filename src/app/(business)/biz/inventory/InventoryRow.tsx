@@ -1,7 +1,7 @@
 "use client";
 
 import { useState } from "react";
-import { toggleInventoryActive } from "./actions";
+import { setUnitDeposit, toggleInventoryActive } from "./actions";
 
 interface UnitData {
   id: string;
@@ -11,6 +11,7 @@ interface UnitData {
   vin: string;
   license_plate: string;
   credits_per_hour: number | null;
+  deposit_credits: number;
   active: boolean;
 }
 
@@ -29,15 +30,33 @@ export default function InventoryRow({
 }: Props) {
   const [toggling, setToggling] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [deposit, setDeposit] = useState(String(unit.deposit_credits));
+  const [savingDeposit, setSavingDeposit] = useState(false);
 
   async function handleToggle() {
     setError(null);
+    setNotice(null);
     setToggling(true);
     const res = await toggleInventoryActive(unit.id, !unit.active);
     if (!res.success) setError(res.error ?? "Failed");
+    else setNotice(res.notice ?? null);
     setToggling(false);
   }
 
+  async function handleDepositSave() {
+    if (deposit === String(unit.deposit_credits)) return;
+    setError(null);
+    setNotice(null);
+    setSavingDeposit(true);
+    const res = await setUnitDeposit(unit.id, deposit);
+    if (!res.success) {
+      setError(res.error ?? "Failed");
+      setDeposit(String(unit.deposit_credits));
+    }
+    setSavingDeposit(false);
+  }
+
   return (
     <tr className={unit.active ? "" : "bg-gray-50 opacity-60"}>
       {/* Model */}
@@ -89,6 +108,21 @@ export default function InventoryRow({
         )}
       </td>
 
+      {/* Deposit */}
+      <td className="px-5 py-3">
+        <input
+          type="number"
+          min={0}
+          value={deposit}
+          onChange={(e) => setDeposit(e.target.value)}
+          onBlur={handleDepositSave}
+          onKeyDown={(e) => e.key === "Enter" && e.currentTarget.blur()}
+          disabled={savingDeposit}
+          title="Security deposit held per booking (0 = none)"
+          className="h-8 w-20 rounded-lg border border-gray-300 px-2 text-sm text-gray-900 disabled:opacity-50"
+        />
+      </td>
+
       {/* Status */}
       <td className="px-5 py-3">
         <span
@@ -118,6 +152,9 @@ export default function InventoryRow({
         {error && (
           <span className="ml-2 text-xs text-red-500">{error}</span>
         )}
+        {notice && (
+          <p className="mt-1 text-xs text-amber-700">{notice}</p>
+        )}
       </td>
     </tr>
   );
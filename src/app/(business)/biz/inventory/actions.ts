@@ -1,13 +1,18 @@
 "use server";
 
 import { revalidatePath } from "next/cache";
+import { z } from "zod";
 import { createClient } from "@/lib/supabase/server";
 import { getProfile } from "@/lib/auth/getProfile";
 import { rateLimit } from "@/lib/rateLimit";
+import { sendPendingReassignmentEmails, describeReassignments } from "@/lib/reassignment";
+import { MAX_DEPOSIT_CREDITS } from "@/lib/deposits";
 
 interface ActionResult {
   success: boolean;
   error?: string;
+  /** What deactivating the unit did to its upcoming bookings */
+  notice?: string | null;
 }
 
 // ---------------------------------------------------------------------------
@@ -35,6 +40,53 @@ export async function toggleInventoryActive(
 
   if (error) return { success: false, error: error.message };
 
+  revalidatePath("/biz/inventory");
+  if (active) return { success: true };
+
+  // Deactivating moved or canceled the unit's upcoming bookings (DB trigger)
+  const notice = describeReassignments(await sendPendingReassignmentEmails([unitId]));
+  revalidatePath("/biz/bookings");
+  revalidatePath("/biz/calendar");
+  return { success: true, notice };
+}
+
+// ---------------------------------------------------------------------------
+// Security deposit
+// ---------------------------------------------------------------------------
+
+const depositSchema = z.coerce
+  .number()
+  .int("Deposit must be a whole number of credits")
+  .min(0, "Deposit can't be negative")
+  .max(MAX_DEPOSIT_CREDITS, `Deposit can be at most ${MAX_DEPOSIT_CREDITS} credits`);
+
+export async function setUnitDeposit(
+  unitId: string,
+  credits: string
+): Promise<ActionResult> {
+  const profile = await getProfile();
+  if (!profile || profile.role !== "BUSINESS") {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  const rl = rateLimit(`${profile.id}:inv_deposit`, 20, 60_000);
+  if (!rl.ok) return { success: false, error: "Too many requests." };
+
+  const parsed = depositSchema.safeParse(credits.trim() === "" ? 0 : credits);
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.issues[0].message };
+  }
+
+  // RLS ensures only own units are updatable; existing bookings keep the
+  // deposit they were booked with
+  const supabase = await createClient();
+  const { error } = await supabase
+    .from("car_units")
+    .update({ deposit_credits: parsed.data })
+    .eq("id", unitId);
+
+  if (error) return { success: false, error: error.message };
+
   revalidatePath("/biz/inventory");
   return { success: true };
 }
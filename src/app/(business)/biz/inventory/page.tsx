@@ -26,7 +26,7 @@ export default async function InventoryPage() {
   const { data: units } = await supabase
     .from("car_units")
     .select(
-      "id, display_name, color, color_hex, vin, license_plate, credits_per_hour, active, created_at, car_models ( display_name, suggested_credits_per_hour )"
+      "id, display_name, color, color_hex, vin, license_plate, credits_per_hour, deposit_credits, active, created_at, car_models ( display_name, suggested_credits_per_hour )"
     )
     .order("created_at", { ascending: false });
 
@@ -71,6 +71,9 @@ export default async function InventoryPage() {
               <th className="px-5 py-3 text-left font-medium text-gray-500">
                 Price (cr/hr)
               </th>
+              <th className="px-5 py-3 text-left font-medium text-gray-500">
+                Deposit (cr)
+              </th>
               <th className="px-5 py-3 text-left font-medium text-gray-500">
                 Status
               </th>
@@ -101,6 +104,7 @@ export default async function InventoryPage() {
                       vin: unit.vin,
                       license_plate: unit.license_plate,
                       credits_per_hour: unit.credits_per_hour,
+                      deposit_credits: unit.deposit_credits,
                       active: unit.active,
                     }}
                     modelName={modelName}
@@ -113,7 +117,7 @@ export default async function InventoryPage() {
               <tr>
                 <td
                   className="px-5 py-10 text-center text-gray-400"
-                  colSpan={7}
+                  colSpan={8}
                 >
                   No units yet.{" "}
                   <Link
@@ -0,0 +1,165 @@
+"use client";
+
+import { useState, useRef } from "react";
+import { addRateModifier } from "./actions";
+
+interface UnitOption {
+  id: string;
+  label: string;
+}
+
+type Kind = "WEEKEND" | "PEAK" | "HOLIDAY";
+
+const DAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export default function AddRateModifierForm({ units }: { units: UnitOption[] }) {
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState(false);
+  const [kind, setKind] = useState<Kind>("WEEKEND");
+  const formRef = useRef<HTMLFormElement>(null);
+
+  async function handleSubmit(formData: FormData) {
+    setError(null);
+    setSuccess(false);
+    const res = await addRateModifier(formData);
+    if (!res.success) {
+      setError(res.error ?? "Failed");
+    } else {
+      formRef.current?.reset();
+      setKind("WEEKEND");
+      setSuccess(true);
+      setTimeout(() => setSuccess(false), 3000);
+    }
+  }
+
+  return (
+    <form
+      ref={formRef}
+      action={handleSubmit}
+      className="rounded-xl border border-gray-200 bg-white p-5 shadow-sm"
+    >
+      <h3 className="text-sm font-semibold text-gray-900">Add a surge rate</h3>
+      <p className="mt-1 text-xs text-gray-500">
+        Each 30-minute slot of a rental takes the highest matching rate. Times
+        are in America/Chicago.
+      </p>
+
+      <div className="mt-4 flex flex-wrap items-end gap-3">
+        <label className="flex flex-col gap-1 text-xs font-medium text-gray-500">
+          Type *
+          <select
+            name="kind"
+            value={kind}
+            onChange={(e) => setKind(e.target.value as Kind)}
+            className="h-9 w-32 rounded-lg border border-gray-300 px-2 text-sm text-gray-900"
+          >
+            <option value="WEEKEND">Weekend</option>
+            <option value="PEAK">Peak hours</option>
+            <option value="HOLIDAY">Holiday</option>
+          </select>
+        </label>
+
+        <label className="flex flex-col gap-1 text-xs font-medium text-gray-500">
+          Label *
+          <input
+            name="label"
+            type="text"
+            required
+            maxLength={60}
+            placeholder="e.g. Weekend rate"
+            className="h-9 w-48 rounded-lg border border-gray-300 px-2 text-sm text-gray-900"
+          />
+        </label>
+
+        <label className="flex flex-col gap-1 text-xs font-medium text-gray-500">
+          Multiplier (%) *
+          <input
+            name="multiplier_pct"
+            type="number"
+            min={101}
+            max={500}
+            defaultValue={125}
+            required
+            className="h-9 w-24 rounded-lg border border-gray-300 px-2 text-sm text-gray-900"
+          />
+        </label>
+
+        <label className="flex flex-col gap-1 text-xs font-medium text-gray-500">
+          Applies to
+          <select
+            name="car_unit_id"
+            className="h-9 w-48 rounded-lg border border-gray-300 px-2 text-sm text-gray-900"
+          >
+            <option value="">All units</option>
+            {units.map((u) => (
+              <option key={u.id} value={u.id}>
+                {u.label}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        {kind === "PEAK" && (
+          <>
+            <label className="flex flex-col gap-1 text-xs font-medium text-gray-500">
+              From *
+              <input
+                name="start_time"
+                type="time"
+                step={1800}
+                required
+                className="h-9 rounded-lg border border-gray-300 px-2 text-sm text-gray-900"
+              />
+            </label>
+            <label className="flex flex-col gap-1 text-xs font-medium text-gray-500">
+              Until *
+              <input
+                name="end_time"
+                type="time"
+                step={1800}
+                required
+                className="h-9 rounded-lg border border-gray-300 px-2 text-sm text-gray-900"
+              />
+            </label>
+          </>
+        )}
+
+        {kind === "HOLIDAY" && (
+          <label className="flex flex-col gap-1 text-xs font-medium text-gray-500">
+            Date *
+            <input
+              name="holiday_date"
+              type="date"
+              required
+              className="h-9 rounded-lg border border-gray-300 px-2 text-sm text-gray-900"
+            />
+          </label>
+        )}
+
+        <button
+          type="submit"
+          className="h-9 rounded-lg bg-gray-900 px-4 text-sm font-medium text-white hover:bg-gray-700"
+        >
+          Add
+        </button>
+      </div>
+
+      {kind !== "HOLIDAY" && (
+        <fieldset className="mt-3 flex flex-wrap items-center gap-3 text-xs text-gray-500">
+          <legend className="mb-1 font-medium">
+            Days {kind === "WEEKEND" ? "(default Sat & Sun)" : "(default every day)"}
+          </legend>
+          {DAYS.map((day, i) => (
+            <label key={day} className="flex items-center gap-1">
+              <input type="checkbox" name="days_of_week" value={i} />
+              {day}
+            </label>
+          ))}
+        </fieldset>
+      )}
+
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+      {success && <p className="mt-2 text-sm text-green-600">Surge rate added.</p>}
+    </form>
+  );
+}
@@ -0,0 +1,131 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { saveCancellationPolicy } from "./actions";
+import {
+  describeCancellationPolicy,
+  CANCELLATION_PRESET_LABELS,
+  type CancellationPolicy,
+  type CancellationPreset,
+} from "@/lib/cancellation";
+
+interface CancellationPolicyFormProps {
+  /** Policy currently in effect for the business */
+  policy: CancellationPolicy;
+  /** Platform preset schedules (FLEXIBLE / MODERATE / STRICT) */
+  presets: CancellationPolicy[];
+}
+
+const MAX_TIERS = 5;
+
+export default function CancellationPolicyForm({ policy, presets }: CancellationPolicyFormProps) {
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [preset, setPreset] = useState<CancellationPreset>(policy.preset);
+  const [tierCount, setTierCount] = useState(Math.max(policy.tiers.length, 2));
+
+  // Custom rows start from the current schedule
+  const customTiers = policy.preset === "CUSTOM" ? policy.tiers : [];
+  const selectedPreset = presets.find((p) => p.preset === preset);
+
+  function handleSubmit(formData: FormData) {
+    setError(null);
+    setMessage(null);
+    startTransition(async () => {
+      const res = await saveCancellationPolicy(formData);
+      if (!res.success) {
+        setError(res.error ?? "Failed to save");
+      } else {
+        setMessage("Saved. New bookings use this policy.");
+      }
+    });
+  }
+
+  return (
+    <form action={handleSubmit} className="space-y-4">
+      <div className="flex flex-wrap items-end gap-3">
+        <label className="flex flex-col gap-1 text-xs font-medium text-gray-500">
+          Policy
+          <select
+            name="preset"
+            value={preset}
+            onChange={(e) => setPreset(e.target.value as CancellationPreset)}
+            className="h-9 w-40 rounded-lg border border-gray-300 px-2 text-sm text-gray-900"
+          >
+            {(["FLEXIBLE", "MODERATE", "STRICT", "CUSTOM"] as const).map((p) => (
+              <option key={p} value={p}>
+                {CANCELLATION_PRESET_LABELS[p]}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <button
+          type="submit"
+          disabled={isPending}
+          className="h-9 rounded-lg bg-gray-900 px-4 text-sm font-medium text-white hover:bg-gray-700 disabled:opacity-50"
+        >
+          {isPending ? "Saving…" : "Save"}
+        </button>
+      </div>
+
+      {preset === "CUSTOM" ? (
+        <div className="space-y-2">
+          <p className="text-xs text-gray-500">
+            Each tier refunds its percentage when the customer cancels at least
+            that many hours before pick-up. Less notice than the last tier
+            refunds nothing.
+          </p>
+          {Array.from({ length: tierCount }, (_, i) => (
+            <div key={i} className="flex flex-wrap items-end gap-3">
+              <label className="flex flex-col gap-1 text-xs font-medium text-gray-500">
+                Hours before
+                <input
+                  name="hours_before"
+                  type="number"
+                  min={0}
+                  max={720}
+                  step="any"
+                  defaultValue={customTiers[i]?.hoursBefore}
+                  className="h-9 w-24 rounded-lg border border-gray-300 px-2 text-sm text-gray-900"
+                />
+              </label>
+              <label className="flex flex-col gap-1 text-xs font-medium text-gray-500">
+                Refund (%)
+                <input
+                  name="refund_pct"
+                  type="number"
+                  min={0}
+                  max={100}
+                  defaultValue={customTiers[i]?.refundPct}
+                  className="h-9 w-24 rounded-lg border border-gray-300 px-2 text-sm text-gray-900"
+                />
+              </label>
+            </div>
+          ))}
+          {tierCount < MAX_TIERS && (
+            <button
+              type="button"
+              onClick={() => setTierCount((n) => n + 1)}
+              className="text-xs font-medium text-gray-500 underline hover:text-gray-700"
+            >
+              + Add tier
+            </button>
+          )}
+        </div>
+      ) : (
+        selectedPreset && (
+          <ul className="space-y-0.5 text-xs text-gray-500">
+            {describeCancellationPolicy(selectedPreset).map((line) => (
+              <li key={line}>• {line}</li>
+            ))}
+          </ul>
+        )
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {message && <p className="text-sm text-green-600">{message}</p>}
+    </form>
+  );
+}
@@ -0,0 +1,146 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { savePricingPolicy, resetUnitPricingPolicy } from "./actions";
+import type { PricingPolicy } from "@/lib/pricing";
+
+interface PricingPolicyFormProps {
+  /** Unit being edited (omit for the business default) */
+  carUnitId?: string;
+  /** Policy currently in effect for this scope */
+  policy: PricingPolicy;
+  /** Whether the unit has its own override (units only) */
+  hasOverride?: boolean;
+  /** Sample hourly rate for the preview line */
+  sampleRate?: number | null;
+}
+
+const MIN_DURATION_OPTIONS = [30, 60, 90, 120, 180, 240, 360, 720, 1440];
+
+function formatMinutes(minutes: number): string {
+  if (minutes < 60) return `${minutes} min`;
+  if (minutes % 1440 === 0) return `${minutes / 1440} day${minutes !== 1440 ? "s" : ""}`;
+  if (minutes % 60 === 0) return `${minutes / 60} h`;
+  return `${(minutes / 60).toFixed(1)} h`;
+}
+
+export default function PricingPolicyForm({
+  carUnitId,
+  policy,
+  hasOverride = false,
+  sampleRate,
+}: PricingPolicyFormProps) {
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [dayCap, setDayCap] = useState(policy.dayCapHours);
+  const [weeklyDays, setWeeklyDays] = useState<number | null>(policy.weeklyBillableDays);
+
+  const minOptions = MIN_DURATION_OPTIONS.includes(policy.minDurationMinutes)
+    ? MIN_DURATION_OPTIONS
+    : [...MIN_DURATION_OPTIONS, policy.minDurationMinutes].sort((a, b) => a - b);
+
+  function handleSubmit(formData: FormData) {
+    setError(null);
+    setMessage(null);
+    startTransition(async () => {
+      const res = await savePricingPolicy(formData);
+      if (!res.success) {
+        setError(res.error ?? "Failed to save");
+      } else {
+        setMessage(`Saved as policy v${res.version}.`);
+      }
+    });
+  }
+
+  function handleReset() {
+    if (!carUnitId) return;
+    setError(null);
+    setMessage(null);
+    startTransition(async () => {
+      const res = await resetUnitPricingPolicy(carUnitId);
+      if (!res.success) setError(res.error ?? "Failed to reset");
+    });
+  }
+
+  return (
+    <form action={handleSubmit} className="flex flex-wrap items-end gap-3">
+      {carUnitId && <input type="hidden" name="car_unit_id" value={carUnitId} />}
+
+      <label className="flex flex-col gap-1 text-xs font-medium text-gray-500">
+        Day cap (hours)
+        <input
+          name="day_cap_hours"
+          type="number"
+          min={1}
+          max={24}
+          required
+          value={dayCap}
+          onChange={(e) => setDayCap(parseInt(e.target.value, 10) || 1)}
+          className="h-9 w-24 rounded-lg border border-gray-300 px-2 text-sm text-gray-900"
+        />
+      </label>
+
+      <label className="flex flex-col gap-1 text-xs font-medium text-gray-500">
+        Minimum rental
+        <select
+          name="min_duration_minutes"
+          defaultValue={policy.minDurationMinutes}
+          className="h-9 w-28 rounded-lg border border-gray-300 px-2 text-sm text-gray-900"
+        >
+          {minOptions.map((m) => (
+            <option key={m} value={m}>
+              {formatMinutes(m)}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="flex flex-col gap-1 text-xs font-medium text-gray-500">
+        Weekly tier
+        <select
+          name="weekly_billable_days"
+          value={weeklyDays ?? ""}
+          onChange={(e) => setWeeklyDays(e.target.value ? parseInt(e.target.value, 10) : null)}
+          className="h-9 w-40 rounded-lg border border-gray-300 px-2 text-sm text-gray-900"
+        >
+          <option value="">Off</option>
+          {[1, 2, 3, 4, 5, 6, 7].map((d) => (
+            <option key={d} value={d}>
+              7 days billed as {d}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <button
+        type="submit"
+        disabled={isPending}
+        className="h-9 rounded-lg bg-gray-900 px-4 text-sm font-medium text-white hover:bg-gray-700 disabled:opacity-50"
+      >
+        {isPending ? "Saving…" : "Save"}
+      </button>
+
+      {carUnitId && hasOverride && (
+        <button
+          type="button"
+          onClick={handleReset}
+          disabled={isPending}
+          className="h-9 rounded-lg border border-gray-300 px-3 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+        >
+          Use business default
+        </button>
+      )}
+
+      {sampleRate ? (
+        <p className="w-full text-xs text-gray-400">
+          At {sampleRate} cr/hr: {sampleRate * dayCap} cr/day
+          {weeklyDays ? ` · ${sampleRate * dayCap * weeklyDays} cr/week` : ""}
+        </p>
+      ) : null}
+
+      {error && <p className="w-full text-sm text-red-600">{error}</p>}
+      {message && <p className="w-full text-sm text-green-600">{message}</p>}
+    </form>
+  );
+}
@@ -0,0 +1,85 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { setRateModifierActive, deleteRateModifier } from "./actions";
+
+const DAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+interface Props {
+  modifier: {
+    id: string;
+    kind: "WEEKEND" | "PEAK" | "HOLIDAY";
+    label: string;
+    multiplier_pct: number;
+    days_of_week: number[] | null;
+    start_time: string | null;
+    end_time: string | null;
+    holiday_date: string | null;
+    active: boolean;
+    unit_label: string;
+  };
+}
+
+function describeWhen(m: Props["modifier"]): string {
+  const days = (fallback: string) =>
+    m.days_of_week?.length ? m.days_of_week.map((d) => DAYS[d]).join(", ") : fallback;
+
+  switch (m.kind) {
+    case "WEEKEND":
+      return days("Sat, Sun");
+    case "PEAK":
+      return `${days("Every day")} · ${m.start_time?.slice(0, 5)}–${m.end_time?.slice(0, 5)}`;
+    case "HOLIDAY":
+      return m.holiday_date ?? "—";
+  }
+}
+
+export default function RateModifierRow({ modifier }: Props) {
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+
+  function handleToggle() {
+    setError(null);
+    startTransition(async () => {
+      const res = await setRateModifierActive(modifier.id, !modifier.active);
+      if (!res.success) setError(res.error ?? "Failed");
+    });
+  }
+
+  function handleDelete() {
+    if (!window.confirm("Delete this surge rate?")) return;
+    setError(null);
+    startTransition(async () => {
+      const res = await deleteRateModifier(modifier.id);
+      if (!res.success) setError(res.error ?? "Failed");
+    });
+  }
+
+  return (
+    <tr className={`${isPending ? "opacity-50" : ""} ${modifier.active ? "" : "text-gray-400"}`}>
+      <td className="px-6 py-4 font-medium text-gray-900">{modifier.label}</td>
+      <td className="px-6 py-4">{describeWhen(modifier)}</td>
+      <td className="px-6 py-4">×{modifier.multiplier_pct / 100}</td>
+      <td className="px-6 py-4">{modifier.unit_label}</td>
+      <td className="px-6 py-4">
+        <div className="flex gap-3">
+          <button
+            onClick={handleToggle}
+            disabled={isPending}
+            className="text-sm text-gray-600 hover:text-gray-900"
+          >
+            {modifier.active ? "Pause" : "Resume"}
+          </button>
+          <button
+            onClick={handleDelete}
+            disabled={isPending}
+            className="text-sm text-red-500 hover:text-red-700"
+          >
+            Delete
+          </button>
+        </div>
+        {error && <p className="mt-1 text-xs text-red-600">{error}</p>}
+      </td>
+    </tr>
+  );
+}
@@ -0,0 +1,344 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+import { createClient } from "@/lib/supabase/server";
+import { getProfile } from "@/lib/auth/getProfile";
+import { rateLimit } from "@/lib/rateLimit";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface ActionResult {
+  success: boolean;
+  error?: string;
+  version?: number;
+}
+
+// ---------------------------------------------------------------------------
+// Validation schema
+// ---------------------------------------------------------------------------
+
+const policySchema = z.object({
+  car_unit_id: z
+    .string()
+    .uuid("Invalid unit ID")
+    .optional()
+    .nullable()
+    .transform((v) => v || null),
+  day_cap_hours: z
+    .string()
+    .transform((v) => parseInt(v, 10))
+    .refine((v) => Number.isFinite(v) && v >= 1 && v <= 24, "Day cap must be 1-24 hours"),
+  min_duration_minutes: z
+    .string()
+    .transform((v) => parseInt(v, 10))
+    .refine(
+      (v) => Number.isFinite(v) && v >= 30 && v % 30 === 0 && v <= 7 * 24 * 60,
+      "Minimum duration must be a multiple of 30 minutes, up to 7 days"
+    ),
+  weekly_billable_days: z
+    .string()
+    .optional()
+    .nullable()
+    .transform((v) => (v ? parseInt(v, 10) : null))
+    .refine(
+      (v) => v === null || (Number.isFinite(v) && v >= 1 && v <= 7),
+      "Weekly tier must bill 1-7 days"
+    ),
+});
+
+// ---------------------------------------------------------------------------
+// Save pricing policy (business default or unit override)
+// ---------------------------------------------------------------------------
+
+export async function savePricingPolicy(formData: FormData): Promise<ActionResult> {
+  const profile = await getProfile();
+  if (!profile || profile.role !== "BUSINESS") {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  const rl = rateLimit(`${profile.id}:biz_pricing`, 20, 60_000);
+  if (!rl.ok) return { success: false, error: "Too many requests. Slow down." };
+
+  const parsed = policySchema.safeParse({
+    car_unit_id: formData.get("car_unit_id") as string | null,
+    day_cap_hours: formData.get("day_cap_hours") as string,
+    min_duration_minutes: formData.get("min_duration_minutes") as string,
+    weekly_billable_days: formData.get("weekly_billable_days") as string | null,
+  });
+
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.issues[0].message };
+  }
+
+  const { car_unit_id, day_cap_hours, min_duration_minutes, weekly_billable_days } =
+    parsed.data;
+
+  const supabase = await createClient();
+  const { data, error } = await supabase.rpc("business_set_pricing_policy", {
+    p_car_unit_id: car_unit_id,
+    p_day_cap_hours: day_cap_hours,
+    p_min_duration_minutes: min_duration_minutes,
+    p_weekly_billable_days: weekly_billable_days,
+  });
+
+  if (error) return { success: false, error: error.message };
+
+  revalidatePath("/biz/pricing");
+  return { success: true, version: (data as { version: number }).version };
+}
+
+// ---------------------------------------------------------------------------
+// Reset a unit to the business default
+// ---------------------------------------------------------------------------
+
+export async function resetUnitPricingPolicy(carUnitId: string): Promise<ActionResult> {
+  const profile = await getProfile();
+  if (!profile || profile.role !== "BUSINESS") {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  if (!z.string().uuid().safeParse(carUnitId).success) {
+    return { success: false, error: "Invalid unit ID" };
+  }
+
+  const supabase = await createClient();
+  const { error } = await supabase.rpc("business_reset_unit_pricing_policy", {
+    p_car_unit_id: carUnitId,
+  });
+
+  if (error) return { success: false, error: error.message };
+
+  revalidatePath("/biz/pricing");
+  return { success: true };
+}
+
+// ---------------------------------------------------------------------------
+// Surge modifiers (weekend / peak hours / holidays)
+// ---------------------------------------------------------------------------
+
+// "HH:MM" on the 30-minute grid
+const TIME_PATTERN = /^([01]\d|2[0-3]):(00|30)$/;
+
+const modifierSchema = z
+  .object({
+    car_unit_id: z
+      .string()
+      .uuid("Invalid unit ID")
+      .optional()
+      .nullable()
+      .transform((v) => v || null),
+    kind: z.enum(["WEEKEND", "PEAK", "HOLIDAY"], "Invalid modifier type"),
+    label: z.string().trim().min(1, "Label is required").max(60, "Label is too long"),
+    multiplier_pct: z
+      .string()
+      .transform((v) => parseInt(v, 10))
+      .refine(
+        (v) => Number.isFinite(v) && v >= 101 && v <= 500,
+        "Multiplier must be between 101% and 500%"
+      ),
+    days_of_week: z
+      .array(z.string().transform((v) => parseInt(v, 10)))
+      .transform((days) => (days.length ? days : null))
+      .refine(
+        (days) => days === null || days.every((d) => d >= 0 && d <= 6),
+        "Invalid day of week"
+      ),
+    start_time: z.string().optional().nullable().transform((v) => v || null),
+    end_time: z.string().optional().nullable().transform((v) => v || null),
+    holiday_date: z.string().optional().nullable().transform((v) => v || null),
+  })
+  .superRefine((v, ctx) => {
+    if (v.kind === "PEAK") {
+      if (!v.start_time || !v.end_time) {
+        ctx.addIssue({ code: "custom", message: "Peak hours need a start and end time" });
+      } else if (!TIME_PATTERN.test(v.start_time) || !TIME_PATTERN.test(v.end_time)) {
+        ctx.addIssue({ code: "custom", message: "Peak hours must align to 30-minute boundaries" });
+      } else if (v.end_time !== "00:00" && v.end_time <= v.start_time) {
+        ctx.addIssue({ code: "custom", message: "Peak end time must be after start time" });
+      }
+    }
+    if (v.kind === "HOLIDAY" && !/^\d{4}-\d{2}-\d{2}$/.test(v.holiday_date ?? "")) {
+      ctx.addIssue({ code: "custom", message: "Holiday needs a date" });
+    }
+  });
+
+export async function addRateModifier(formData: FormData): Promise<ActionResult> {
+  const profile = await getProfile();
+  if (!profile || profile.role !== "BUSINESS" || !profile.business_id) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  const rl = rateLimit(`${profile.id}:biz_pricing`, 20, 60_000);
+  if (!rl.ok) return { success: false, error: "Too many requests. Slow down." };
+
+  const parsed = modifierSchema.safeParse({
+    car_unit_id: formData.get("car_unit_id") as string | null,
+    kind: formData.get("kind") as string,
+    label: (formData.get("label") as string) ?? "",
+    multiplier_pct: formData.get("multiplier_pct") as string,
+    days_of_week: formData.getAll("days_of_week") as string[],
+    start_time: formData.get("start_time") as string | null,
+    end_time: formData.get("end_time") as string | null,
+    holiday_date: formData.get("holiday_date") as string | null,
+  });
+
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.issues[0].message };
+  }
+
+  const m = parsed.data;
+  const isPeak = m.kind === "PEAK";
+
+  // RLS ensures the unit (if any) belongs to the caller's business
+  const supabase = await createClient();
+  const { error } = await supabase.from("rate_modifiers").insert({
+    business_id: profile.business_id,
+    car_unit_id: m.car_unit_id,
+    kind: m.kind,
+    label: m.label,
+    multiplier_pct: m.multiplier_pct,
+    days_of_week: m.kind === "HOLIDAY" ? null : m.days_of_week,
+    start_time: isPeak ? m.start_time : null,
+    // A window ending at midnight is stored as 24:00 (end is exclusive)
+    end_time: isPeak ? (m.end_time === "00:00" ? "24:00" : m.end_time) : null,
+    holiday_date: m.kind === "HOLIDAY" ? m.holiday_date : null,
+  });
+
+  if (error) return { success: false, error: error.message };
+
+  revalidatePath("/biz/pricing");
+  return { success: true };
+}
+
+export async function setRateModifierActive(
+  modifierId: string,
+  active: boolean
+): Promise<ActionResult> {
+  const profile = await getProfile();
+  if (!profile || profile.role !== "BUSINESS") {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  if (!z.string().uuid().safeParse(modifierId).success) {
+    return { success: false, error: "Invalid modifier ID" };
+  }
+
+  // RLS ensures only own modifiers are updatable
+  const supabase = await createClient();
+  const { error } = await supabase
+    .from("rate_modifiers")
+    .update({ active })
+    .eq("id", modifierId);
+
+  if (error) return { success: false, error: error.message };
+
+  revalidatePath("/biz/pricing");
+  return { success: true };
+}
+
+export async function deleteRateModifier(modifierId: string): Promise<ActionResult> {
+  const profile = await getProfile();
+  if (!profile || profile.role !== "BUSINESS") {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  if (!z.string().uuid().safeParse(modifierId).success) {
+    return { success: false, error: "Invalid modifier ID" };
+  }
+
+  // RLS ensures only own modifiers are deletable
+  const supabase = await createClient();
+  const { error } = await supabase
+    .from("rate_modifiers")
+    .delete()
+    .eq("id", modifierId);
+
+  if (error) return { success: false, error: error.message };
+
+  revalidatePath("/biz/pricing");
+  return { success: true };
+}
+
+// ---------------------------------------------------------------------------
+// Cancellation refund policy
+// ---------------------------------------------------------------------------
+
+const cancellationSchema = z
+  .object({
+    preset: z.enum(["FLEXIBLE", "MODERATE", "STRICT", "CUSTOM"], "Invalid cancellation policy"),
+    tiers: z.array(
+      z.object({
+        hours_before: z
+          .string()
+          .transform((v) => Number(v))
+          .refine((v) => Number.isFinite(v) && v >= 0 && v <= 720, "Notice must be 0-720 hours"),
+        refund_pct: z
+          .string()
+          .transform((v) => parseInt(v, 10))
+          .refine((v) => Number.isFinite(v) && v >= 0 && v <= 100, "Refund must be 0-100%"),
+      })
+    ),
+  })
+  .superRefine((v, ctx) => {
+    if (v.preset !== "CUSTOM") return;
+    if (v.tiers.length < 1 || v.tiers.length > 5) {
+      ctx.addIssue({ code: "custom", message: "A custom policy needs 1 to 5 tiers" });
+      return;
+    }
+    const sorted = [...v.tiers].sort((a, b) => b.hours_before - a.hours_before);
+    for (let i = 1; i < sorted.length; i++) {
+      if (sorted[i].hours_before === sorted[i - 1].hours_before) {
+        ctx.addIssue({ code: "custom", message: "Each tier needs a different notice period" });
+        return;
+      }
+      if (sorted[i].refund_pct > sorted[i - 1].refund_pct) {
+        ctx.addIssue({
+          code: "custom",
+          message: "Refunds can't increase as pick-up gets closer",
+        });
+        return;
+      }
+    }
+  });
+
+export async function saveCancellationPolicy(formData: FormData): Promise<ActionResult> {
+  const profile = await getProfile();
+  if (!profile || profile.role !== "BUSINESS") {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  const rl = rateLimit(`${profile.id}:biz_pricing`, 20, 60_000);
+  if (!rl.ok) return { success: false, error: "Too many requests. Slow down." };
+
+  // Custom tier rows left blank are ignored
+  const hours = formData.getAll("hours_before") as string[];
+  const pcts = formData.getAll("refund_pct") as string[];
+  const tiers = hours
+    .map((h, i) => ({ hours_before: h.trim(), refund_pct: (pcts[i] ?? "").trim() }))
+    .filter((t) => t.hours_before !== "" || t.refund_pct !== "");
+
+  const parsed = cancellationSchema.safeParse({
+    preset: formData.get("preset") as string,
+    tiers,
+  });
+
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.issues[0].message };
+  }
+
+  const { preset } = parsed.data;
+
+  const supabase = await createClient();
+  const { error } = await supabase.rpc("business_set_cancellation_policy", {
+    p_preset: preset,
+    p_tiers: preset === "CUSTOM" ? parsed.data.tiers : null,
+  });
+
+  if (error) return { success: false, error: error.message };
+
+  revalidatePath("/biz/pricing");
+  return { success: true };
+}
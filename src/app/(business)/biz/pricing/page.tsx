@@ -0,0 +1,281 @@
+import { createClient } from "@/lib/supabase/server";
+import { getProfile } from "@/lib/auth/getProfile";
+import { getActivePricingPolicy } from "@/lib/pricingPolicy";
+import { pricingPolicyFromRow, type PricingPolicyRow } from "@/lib/pricing";
+import PricingPolicyForm from "./PricingPolicyForm";
+import AddRateModifierForm from "./AddRateModifierForm";
+import RateModifierRow from "./RateModifierRow";
+import CancellationPolicyForm from "./CancellationPolicyForm";
+import {
+  DEFAULT_CANCELLATION_POLICY,
+  cancellationPolicyFromRow,
+  type CancellationPolicyRow,
+} from "@/lib/cancellation";
+
+export default async function BusinessPricingPage() {
+  const profile = await getProfile();
+  const businessId = profile?.business_id ?? null;
+
+  const supabase = await createClient();
+  const platformPolicy = await getActivePricingPolicy();
+
+  // Business default pointer
+  const { data: business } = businessId
+    ? await supabase
+        .from("businesses")
+        .select("pricing_policy_id, cancellation_policy_id")
+        .eq("id", businessId)
+        .single()
+    : { data: null };
+
+  // Units — RLS scoped to the caller's business
+  const { data: units } = await supabase
+    .from("car_units")
+    .select("id, display_name, color, credits_per_hour, pricing_policy_id, car_models ( display_name, suggested_credits_per_hour )")
+    .order("created_at", { ascending: true });
+
+  // Load every referenced policy version in one query
+  const policyIds = Array.from(
+    new Set(
+      [business?.pricing_policy_id, ...(units ?? []).map((u) => u.pricing_policy_id)]
+        .filter(Boolean) as string[]
+    )
+  );
+
+  const { data: policyRows } = policyIds.length
+    ? await supabase
+        .from("pricing_policies")
+        .select("id, version, day_cap_hours, hours_per_day, min_duration_minutes, weekly_billable_days")
+        .in("id", policyIds)
+    : { data: [] };
+
+  const policies = new Map(
+    ((policyRows ?? []) as PricingPolicyRow[]).map((r) => [r.id, pricingPolicyFromRow(r)])
+  );
+
+  // Surge modifiers — RLS returns the caller's own, active or not
+  const { data: modifiers } = businessId
+    ? await supabase
+        .from("rate_modifiers")
+        .select("id, car_unit_id, kind, label, multiplier_pct, days_of_week, start_time, end_time, holiday_date, active")
+        .eq("business_id", businessId)
+        .order("created_at", { ascending: true })
+    : { data: [] };
+
+  // Cancellation policies — the platform presets plus the business's own
+  const { data: cancellationRows } = await supabase
+    .from("cancellation_policies")
+    .select("id, preset, tiers, is_default")
+    .or(
+      business?.cancellation_policy_id
+        ? `business_id.is.null,id.eq.${business.cancellation_policy_id}`
+        : "business_id.is.null"
+    );
+
+  const cancellationPresets = (cancellationRows ?? [])
+    .filter((r) => r.preset !== "CUSTOM")
+    .map((r) => cancellationPolicyFromRow(r as CancellationPolicyRow));
+
+  const currentCancellationRow =
+    (cancellationRows ?? []).find((r) => r.id === business?.cancellation_policy_id) ??
+    (cancellationRows ?? []).find((r) => r.is_default);
+
+  const cancellationPolicy = currentCancellationRow
+    ? cancellationPolicyFromRow(currentCancellationRow as CancellationPolicyRow)
+    : DEFAULT_CANCELLATION_POLICY;
+
+  const unitLabels = new Map(
+    (units ?? []).map((u) => {
+      const model = u.car_models as unknown as { display_name: string } | null;
+      const name = u.display_name ?? model?.display_name ?? "Unit";
+      return [u.id, u.color ? `${name} (${u.color})` : name];
+    })
+  );
+
+  const businessPolicy =
+    (business?.pricing_policy_id && policies.get(business.pricing_policy_id)) ||
+    platformPolicy;
+
+  return (
+    <section className="mx-auto max-w-7xl px-6 py-10">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight text-gray-900">
+          Pricing Policy
+        </h1>
+        <p className="mt-1 text-gray-500">
+          Set your day cap, minimum rental length, weekly rate, surge rates and
+          cancellation policy. Changes apply to new bookings only — existing
+          bookings keep the price and refund terms they were booked with.
+        </p>
+      </div>
+
+      {!businessId && (
+        <div className="mt-10 rounded-xl border border-amber-200 bg-amber-50 p-6 text-center text-sm text-amber-800">
+          Your account is not linked to a business yet.
+        </div>
+      )}
+
+      {businessId && (
+        <>
+          {/* Business default */}
+          <div className="mt-8 rounded-xl border border-gray-200 bg-white p-5 shadow-sm">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-semibold text-gray-900">
+                Business default
+              </h3>
+              <span className="text-xs text-gray-400">
+                {business?.pricing_policy_id
+                  ? `Policy v${businessPolicy.version}`
+                  : `Platform default (v${platformPolicy.version})`}
+              </span>
+            </div>
+            <p className="mt-1 text-xs text-gray-500">
+              Hours up to the day cap are billed hourly; anything longer in a
+              day costs hourly rate × day cap.
+            </p>
+            <div className="mt-4">
+              <PricingPolicyForm policy={businessPolicy} />
+            </div>
+          </div>
+
+          {/* Per-unit overrides */}
+          <div className="mt-8 overflow-x-auto rounded-xl border border-gray-200 bg-white shadow-sm">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left font-medium text-gray-500">Unit</th>
+                  <th className="px-6 py-3 text-left font-medium text-gray-500">Policy</th>
+                  <th className="px-6 py-3 text-left font-medium text-gray-500">Override</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {units && units.length > 0 ? (
+                  units.map((u) => {
+                    const model = u.car_models as unknown as {
+                      display_name: string;
+                      suggested_credits_per_hour: number | null;
+                    } | null;
+                    const override = u.pricing_policy_id
+                      ? policies.get(u.pricing_policy_id)
+                      : undefined;
+                    const effective = override ?? businessPolicy;
+                    return (
+                      <tr key={u.id} className="align-top">
+                        <td className="px-6 py-4">
+                          <p className="font-medium text-gray-900">
+                            {u.display_name ?? model?.display_name ?? "—"}
+                          </p>
+                          {u.color && (
+                            <p className="text-xs text-gray-400">{u.color}</p>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 text-xs text-gray-500">
+                          {override ? (
+                            <span className="rounded-full bg-indigo-50 px-2 py-0.5 font-medium text-indigo-700">
+                              Override v{override.version}
+                            </span>
+                          ) : (
+                            <span className="rounded-full bg-gray-100 px-2 py-0.5 font-medium text-gray-600">
+                              Business default
+                            </span>
+                          )}
+                          <p className="mt-1">
+                            {effective.dayCapHours}h cap · min{" "}
+                            {effective.minDurationMinutes} min
+                            {effective.weeklyBillableDays
+                              ? ` · week = ${effective.weeklyBillableDays} days`
+                              : ""}
+                          </p>
+                        </td>
+                        <td className="px-6 py-4">
+                          <PricingPolicyForm
+                            carUnitId={u.id}
+                            policy={effective}
+                            hasOverride={!!override}
+                            sampleRate={u.credits_per_hour ?? model?.suggested_credits_per_hour}
+                          />
+                        </td>
+                      </tr>
+                    );
+                  })
+                ) : (
+                  <tr>
+                    <td className="px-6 py-10 text-center text-gray-400" colSpan={3}>
+                      No car units yet.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Cancellation policy */}
+          <div className="mt-12">
+            <h2 className="text-lg font-semibold text-gray-900">Cancellation policy</h2>
+            <p className="mt-1 text-sm text-gray-500">
+              How much customers get back when they cancel. Shown on your car
+              pages before booking.
+            </p>
+          </div>
+
+          <div className="mt-4 rounded-xl border border-gray-200 bg-white p-5 shadow-sm">
+            <CancellationPolicyForm
+              policy={cancellationPolicy}
+              presets={cancellationPresets}
+            />
+          </div>
+
+          {/* Surge rates */}
+          <div className="mt-12">
+            <h2 className="text-lg font-semibold text-gray-900">Surge rates</h2>
+            <p className="mt-1 text-sm text-gray-500">
+              Charge more on weekends, at peak hours or on holidays. Surcharged
+              hours are itemized on the customer&apos;s quote.
+            </p>
+          </div>
+
+          <div className="mt-4">
+            <AddRateModifierForm
+              units={Array.from(unitLabels, ([id, label]) => ({ id, label }))}
+            />
+          </div>
+
+          <div className="mt-6 overflow-x-auto rounded-xl border border-gray-200 bg-white shadow-sm">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left font-medium text-gray-500">Label</th>
+                  <th className="px-6 py-3 text-left font-medium text-gray-500">When</th>
+                  <th className="px-6 py-3 text-left font-medium text-gray-500">Rate</th>
+                  <th className="px-6 py-3 text-left font-medium text-gray-500">Applies to</th>
+                  <th className="px-6 py-3 text-left font-medium text-gray-500">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {modifiers && modifiers.length > 0 ? (
+                  modifiers.map((m) => (
+                    <RateModifierRow
+                      key={m.id}
+                      modifier={{
+                        ...m,
+                        unit_label: m.car_unit_id
+                          ? unitLabels.get(m.car_unit_id) ?? "—"
+                          : "All units",
+                      }}
+                    />
+                  ))
+                ) : (
+                  <tr>
+                    <td className="px-6 py-10 text-center text-gray-400" colSpan={5}>
+                      No surge rates yet.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,75 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { createClient } from "@/lib/supabase/server";
+import { getProfile } from "@/lib/auth/getProfile";
+import { rateLimit } from "@/lib/rateLimit";
+import { promoCodeFormValues, promoCodeRow, promoCodeSchema } from "@/lib/promoCodes";
+
+interface ActionResult {
+  success: boolean;
+  error?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Create promo code (valid on this business's cars only)
+// ---------------------------------------------------------------------------
+
+export async function createPromoCode(formData: FormData): Promise<ActionResult> {
+  const profile = await getProfile();
+  if (!profile || profile.role !== "BUSINESS" || !profile.business_id) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  const rl = rateLimit(`${profile.id}:biz_promo`, 10, 60_000);
+  if (!rl.ok) return { success: false, error: "Too many requests. Slow down." };
+
+  const parsed = promoCodeSchema.safeParse(promoCodeFormValues(formData));
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.issues[0].message };
+  }
+
+  // RLS ensures business_id is the caller's business
+  const supabase = await createClient();
+  const { error } = await supabase.from("promo_codes").insert({
+    ...promoCodeRow(parsed.data),
+    business_id: profile.business_id,
+    created_by: profile.id,
+  });
+
+  if (error) {
+    if (error.message.includes("duplicate") || error.message.includes("unique")) {
+      return { success: false, error: "That code is already taken." };
+    }
+    return { success: false, error: error.message };
+  }
+
+  revalidatePath("/biz/promos");
+  return { success: true };
+}
+
+// ---------------------------------------------------------------------------
+// Activate / deactivate promo code
+// ---------------------------------------------------------------------------
+
+export async function setPromoCodeActive(
+  promoId: string,
+  active: boolean
+): Promise<ActionResult> {
+  const profile = await getProfile();
+  if (!profile || profile.role !== "BUSINESS") {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  // RLS ensures only own promo codes are updatable
+  const supabase = await createClient();
+  const { error } = await supabase
+    .from("promo_codes")
+    .update({ active })
+    .eq("id", promoId);
+
+  if (error) return { success: false, error: error.message };
+
+  revalidatePath("/biz/promos");
+  return { success: true };
+}
@@ -0,0 +1,74 @@
+import { createClient } from "@/lib/supabase/server";
+import { getProfile } from "@/lib/auth/getProfile";
+import PromoCodeForm from "@/components/PromoCodeForm";
+import PromoCodeTable from "@/components/PromoCodeTable";
+import type { PromoCodeListItem } from "@/components/PromoCodeRow";
+import { createPromoCode, setPromoCodeActive } from "./actions";
+
+export default async function BusinessPromosPage() {
+  const profile = await getProfile();
+  const businessId = profile?.business_id ?? null;
+
+  const supabase = await createClient();
+
+  // RLS: business users read only their own codes
+  const { data: promos } = businessId
+    ? await supabase
+        .from("promo_codes")
+        .select("id, code, discount_type, discount_value, pi_class, first_booking_only, max_uses_per_user, max_redemptions, starts_at, expires_at, active")
+        .eq("business_id", businessId)
+        .order("created_at", { ascending: false })
+    : { data: [] };
+
+  // Redemptions = non-canceled bookings carrying the code (all on own cars)
+  const { data: redeemed } = promos?.length
+    ? await supabase
+        .from("bookings")
+        .select("promo_code_id")
+        .in("promo_code_id", promos.map((p) => p.id))
+        .neq("status", "CANCELED")
+    : { data: [] };
+
+  const redemptionMap = new Map<string, number>();
+  for (const row of redeemed ?? []) {
+    const pid = row.promo_code_id as string;
+    redemptionMap.set(pid, (redemptionMap.get(pid) ?? 0) + 1);
+  }
+
+  const items: PromoCodeListItem[] = (promos ?? []).map((p) => ({
+    ...p,
+    scope_label: "Your cars",
+    redemptions: redemptionMap.get(p.id) ?? 0,
+  }));
+
+  return (
+    <section className="mx-auto max-w-7xl px-6 py-10">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight text-gray-900">
+          Promo Codes
+        </h1>
+        <p className="mt-1 text-gray-500">
+          Discount codes customers can enter when booking your cars.
+        </p>
+      </div>
+
+      {!businessId && (
+        <div className="mt-10 rounded-xl border border-amber-200 bg-amber-50 p-6 text-center text-sm text-amber-800">
+          Your account is not linked to a business yet.
+        </div>
+      )}
+
+      {businessId && (
+        <>
+          <div className="mt-8">
+            <PromoCodeForm action={createPromoCode} />
+          </div>
+
+          <div className="mt-8">
+            <PromoCodeTable promos={items} onSetActive={setPromoCodeActive} />
+          </div>
+        </>
+      )}
+    </section>
+  );
+}
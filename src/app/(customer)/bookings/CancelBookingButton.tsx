@@ -1,7 +1,8 @@
 "use client";
 
 import { useState, useTransition } from "react";
-import { cancelBooking, type CancelResult } from "./actions";
+import { cancelBooking, previewCancellation, type CancelResult } from "./actions";
+import { describeCancellationPolicy, CANCELLATION_PRESET_LABELS } from "@/lib/cancellation";
 
 export default function CancelBookingButton({
   bookingId,
@@ -12,16 +13,30 @@ export default function CancelBookingButton({
   const [result, setResult] = useState<CancelResult | null>(null);
 
   function handleCancel() {
-    const ok = window.confirm(
-      "Are you sure you want to cancel this booking?\n\n" +
-        "Refund policy:\n" +
-        "• > 6 hours before start → 100% refund\n" +
-        "• 1–6 hours → 50% refund\n" +
-        "• < 1 hour → no refund"
-    );
-    if (!ok) return;
-
     startTransition(async () => {
+      // Quote the refund for cancelling right now before asking to confirm
+      const preview = await previewCancellation(bookingId);
+      if (!preview.success) {
+        setResult({ success: false, error: preview.error });
+        return;
+      }
+
+      const credits = preview.refundCredits ?? 0;
+      const pct = Math.round((preview.refundPct ?? 0) * 100);
+      const policyLines = preview.policy
+        ? `\n\n${CANCELLATION_PRESET_LABELS[preview.policy.preset]} cancellation policy:\n` +
+          describeCancellationPolicy(preview.policy)
+            .map((line) => `• ${line}`)
+            .join("\n")
+        : "";
+
+      const ok = window.confirm(
+        "Are you sure you want to cancel this booking?\n\n" +
+          `If you cancel now you get ${credits} credit${credits !== 1 ? "s" : ""} back (${pct}% refund).` +
+          policyLines
+      );
+      if (!ok) return;
+
       const res = await cancelBooking(bookingId);
       setResult(res);
     });
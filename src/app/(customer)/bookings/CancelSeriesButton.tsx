@@ -0,0 +1,67 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { cancelSeriesFrom, type SeriesCancelResult } from "./actions";
+
+export default function CancelSeriesButton({
+  bookingId,
+  remaining,
+}: {
+  bookingId: string;
+  /** Upcoming occurrences from this one to the end of the series */
+  remaining: number;
+}) {
+  const [isPending, startTransition] = useTransition();
+  const [result, setResult] = useState<SeriesCancelResult | null>(null);
+
+  function handleCancel() {
+    const ok = window.confirm(
+      `Cancel this occurrence and the rest of the series (${remaining} booking${remaining !== 1 ? "s" : ""})?\n\n` +
+        "Each booking is refunded under its cancellation policy."
+    );
+    if (!ok) return;
+
+    startTransition(async () => {
+      const res = await cancelSeriesFrom(bookingId);
+      setResult(res);
+    });
+  }
+
+  if (result?.success) {
+    return (
+      <div className="text-right text-sm">
+        <p className="font-medium text-red-600">
+          {result.canceledCount} canceled
+        </p>
+        <p className="text-gray-500">
+          {result.refundCredits ?? 0} credit
+          {result.refundCredits !== 1 ? "s" : ""} refunded
+        </p>
+      </div>
+    );
+  }
+
+  if (result && !result.success) {
+    return (
+      <div className="text-right text-sm">
+        <p className="text-red-600">{result.error}</p>
+        <button
+          onClick={() => setResult(null)}
+          className="mt-1 text-xs text-gray-400 underline hover:text-gray-600"
+        >
+          Retry
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <button
+      onClick={handleCancel}
+      disabled={isPending}
+      className="shrink-0 rounded-lg border border-red-200 px-4 py-2 text-sm font-medium text-red-600 transition-colors hover:bg-red-50 disabled:opacity-50"
+    >
+      {isPending ? "Canceling…" : "Cancel rest of series"}
+    </button>
+  );
+}
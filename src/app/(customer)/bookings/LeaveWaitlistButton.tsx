@@ -0,0 +1,31 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { leaveWaitlist } from "./actions";
+
+export default function LeaveWaitlistButton({ entryId }: { entryId: string }) {
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+
+  function handleLeave() {
+    if (!window.confirm("Leave this waitlist?")) return;
+    setError(null);
+    startTransition(async () => {
+      const res = await leaveWaitlist(entryId);
+      if (!res.success) setError(res.error ?? "Failed");
+    });
+  }
+
+  return (
+    <div className="text-right">
+      <button
+        onClick={handleLeave}
+        disabled={isPending}
+        className="shrink-0 rounded-lg border border-gray-300 px-3 py-1.5 text-xs font-medium text-gray-600 transition-colors hover:bg-gray-50 disabled:opacity-50"
+      >
+        {isPending ? "Leaving…" : "Leave"}
+      </button>
+      {error && <p className="mt-1 text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
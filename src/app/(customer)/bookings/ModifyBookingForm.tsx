@@ -0,0 +1,171 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { modifyBooking, type ModifyResult } from "./actions";
+import {
+  formatUtcForDisplay,
+  formatTime12h,
+  generateTimeSlots,
+  TIMEZONE_LABEL,
+} from "@/lib/timezone";
+
+const TIME_SLOTS = generateTimeSlots();
+
+export default function ModifyBookingForm({
+  bookingId,
+  startTs,
+  endTs,
+}: {
+  bookingId: string;
+  startTs: string;
+  endTs: string;
+}) {
+  const [open, setOpen] = useState(false);
+  const [isPending, startTransition] = useTransition();
+  const [result, setResult] = useState<ModifyResult | null>(null);
+
+  // A rental that has started can only be extended or shortened
+  const started = new Date(startTs) <= new Date();
+
+  function handleSubmit(formData: FormData) {
+    const ok = window.confirm(
+      "Change this booking's times?\n\n" +
+        "The booking is re-priced for the new times. Any extra cost is " +
+        "debited from your balance; a lower price is refunded per the " +
+        "booking's cancellation policy, like cancelling that part."
+    );
+    if (!ok) return;
+
+    setResult(null);
+    startTransition(async () => {
+      const res = await modifyBooking(formData);
+      setResult(res);
+      if (res.success) setOpen(false);
+    });
+  }
+
+  const delta = result?.creditDelta ?? 0;
+
+  if (!open) {
+    return (
+      <div className="text-right">
+        <button
+          onClick={() => {
+            setResult(null);
+            setOpen(true);
+          }}
+          className="shrink-0 rounded-lg border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 transition-colors hover:bg-gray-50"
+        >
+          Change
+        </button>
+        {result?.success && (
+          <p className="mt-1 text-xs text-green-600">
+            Updated ·{" "}
+            {delta > 0
+              ? `${delta} credit${delta !== 1 ? "s" : ""} charged`
+              : delta < 0
+                ? `${-delta} credit${delta !== -1 ? "s" : ""} refunded`
+                : "no credit change"}
+          </p>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <form
+      action={handleSubmit}
+      className="w-full rounded-lg border border-gray-200 bg-gray-50 p-4 sm:w-auto"
+    >
+      <input type="hidden" name="booking_id" value={bookingId} />
+
+      <div className="grid grid-cols-2 gap-3">
+        <label className="flex flex-col gap-1 text-xs font-medium text-gray-500">
+          Start date
+          <input
+            name="start_date"
+            type="date"
+            required
+            readOnly={started}
+            defaultValue={formatUtcForDisplay(startTs, "yyyy-MM-dd")}
+            className="h-9 rounded-lg border border-gray-300 px-2 text-sm text-gray-900 read-only:bg-gray-100"
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-xs font-medium text-gray-500">
+          Start time
+          {started ? (
+            <>
+              <input type="hidden" name="start_time" value={formatUtcForDisplay(startTs, "HH:mm")} />
+              <span className="flex h-9 items-center rounded-lg border border-gray-300 bg-gray-100 px-2 text-sm text-gray-900">
+                {formatUtcForDisplay(startTs, "h:mm a")}
+              </span>
+            </>
+          ) : (
+            <select
+              name="start_time"
+              defaultValue={formatUtcForDisplay(startTs, "HH:mm")}
+              className="h-9 rounded-lg border border-gray-300 px-2 text-sm text-gray-900"
+            >
+              {TIME_SLOTS.map((t) => (
+                <option key={t} value={t}>
+                  {formatTime12h(t)}
+                </option>
+              ))}
+            </select>
+          )}
+        </label>
+        <label className="flex flex-col gap-1 text-xs font-medium text-gray-500">
+          End date
+          <input
+            name="end_date"
+            type="date"
+            required
+            defaultValue={formatUtcForDisplay(endTs, "yyyy-MM-dd")}
+            className="h-9 rounded-lg border border-gray-300 px-2 text-sm text-gray-900"
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-xs font-medium text-gray-500">
+          End time
+          <select
+            name="end_time"
+            defaultValue={formatUtcForDisplay(endTs, "HH:mm")}
+            className="h-9 rounded-lg border border-gray-300 px-2 text-sm text-gray-900"
+          >
+            {TIME_SLOTS.map((t) => (
+              <option key={t} value={t}>
+                {formatTime12h(t)}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <p className="mt-2 text-xs text-gray-400">
+        Times in {TIMEZONE_LABEL}.
+        {started && " Your rental has started, so only the return time can change."}
+      </p>
+
+      {result && !result.success && (
+        <p className="mt-2 text-sm text-red-600">{result.error}</p>
+      )}
+
+      <div className="mt-3 flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={() => setOpen(false)}
+          disabled={isPending}
+          className="rounded-lg px-3 py-1.5 text-sm text-gray-500 hover:text-gray-700 disabled:opacity-50"
+        >
+          Close
+        </button>
+        <button
+          type="submit"
+          disabled={isPending}
+          className="rounded-lg bg-gray-900 px-4 py-1.5 text-sm font-medium text-white hover:bg-gray-700 disabled:opacity-50"
+        >
+          {isPending ? "Saving…" : "Save changes"}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,88 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { respondToDamageClaim } from "../actions";
+
+/**
+ * Accept an open damage claim or dispute it with an explanation.
+ */
+export default function DamageClaimResponse({
+  claimId,
+  bookingId,
+  amount,
+}: {
+  claimId: string;
+  bookingId: string;
+  /** Credits claimed */
+  amount: number;
+}) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [response, setResponse] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  function handleRespond(decision: "accept" | "dispute") {
+    if (
+      decision === "accept" &&
+      !confirm(`Accept the claim? ${amount} credits will be kept from your deposit.`)
+    ) {
+      return;
+    }
+
+    const formData = new FormData();
+    formData.set("claim_id", claimId);
+    formData.set("booking_id", bookingId);
+    formData.set("decision", decision);
+    formData.set("response", response);
+
+    setError(null);
+    startTransition(async () => {
+      const res = await respondToDamageClaim(formData);
+      if (!res.success) {
+        setError(res.error ?? "Failed");
+      } else {
+        router.refresh();
+      }
+    });
+  }
+
+  return (
+    <div className="space-y-3">
+      <label className="flex flex-col gap-1 text-xs font-medium text-gray-500">
+        Your response (required to dispute)
+        <textarea
+          value={response}
+          onChange={(e) => setResponse(e.target.value)}
+          rows={3}
+          maxLength={2000}
+          placeholder="E.g. the scratch is visible in the pick-up photos"
+          className="w-full rounded-lg border border-gray-300 px-2 py-1.5 text-sm text-gray-900 placeholder:text-gray-400"
+        />
+      </label>
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          type="button"
+          onClick={() => handleRespond("accept")}
+          disabled={isPending}
+          className="h-9 rounded-lg bg-gray-900 px-4 text-sm font-medium text-white hover:bg-gray-700 disabled:opacity-50"
+        >
+          Accept claim
+        </button>
+        <button
+          type="button"
+          onClick={() => handleRespond("dispute")}
+          disabled={isPending}
+          className="h-9 rounded-lg border border-gray-300 px-4 text-sm font-medium text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+        >
+          {isPending ? "Sending…" : "Dispute"}
+        </button>
+      </div>
+      <p className="text-xs text-gray-400">
+        A disputed claim is reviewed by our team, who decide how much of the
+        deposit is kept. Your deposit stays on hold until then.
+      </p>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
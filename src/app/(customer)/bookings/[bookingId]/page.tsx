@@ -0,0 +1,120 @@
+import { notFound } from "next/navigation";
+import Link from "next/link";
+import { createClient } from "@/lib/supabase/server";
+import { formatDateRange, TIMEZONE_LABEL } from "@/lib/timezone";
+import { BOOKING_STATUS_LABELS, type BookingStatus } from "@/lib/bookingLifecycle";
+import { CONDITION_REPORT_KINDS, CONDITION_REPORT_LABELS } from "@/lib/conditionReport";
+import { getBookingConditionReports } from "@/lib/bookingConditionReports";
+import {
+  DAMAGE_CLAIM_COLUMNS,
+  describeDeposit,
+  type BookingDeposit,
+  type DamageClaim,
+} from "@/lib/deposits";
+import ConditionReportView from "@/components/ConditionReportView";
+import DamageClaimSummary from "@/components/DamageClaimSummary";
+import DamageClaimResponse from "./DamageClaimResponse";
+
+export const metadata = {
+  title: "Booking | ForzaCars Rentals",
+};
+
+export default async function BookingPage({
+  params,
+}: {
+  params: Promise<{ bookingId: string }>;
+}) {
+  const { bookingId } = await params;
+  const supabase = await createClient();
+
+  // RLS: customers only see their own bookings
+  const { data: booking } = await supabase
+    .from("bookings")
+    .select("id, start_ts, end_ts, status, car_unit:car_units( display_name, vin, car_models ( display_name ) )")
+    .eq("id", bookingId)
+    .maybeSingle();
+
+  if (!booking) notFound();
+
+  const unit = booking.car_unit as unknown as {
+    display_name: string | null;
+    vin: string;
+    car_models: { display_name: string } | null;
+  } | null;
+  const carName = unit?.display_name ?? unit?.car_models?.display_name ?? unit?.vin ?? "Your car";
+  const reports = await getBookingConditionReports(bookingId);
+
+  // Security deposit and any damage claim against it (RLS: own only)
+  const { data: depositRow } = await supabase
+    .from("booking_deposits")
+    .select("amount, status, captured_credits")
+    .eq("booking_id", bookingId)
+    .maybeSingle();
+  const deposit = depositRow as BookingDeposit | null;
+
+  const { data: claimRow } = deposit
+    ? await supabase
+        .from("damage_claims")
+        .select(DAMAGE_CLAIM_COLUMNS)
+        .eq("booking_id", bookingId)
+        .maybeSingle()
+    : { data: null };
+  const claim = claimRow as unknown as DamageClaim | null;
+
+  return (
+    <section className="mx-auto max-w-3xl px-6 py-10">
+      <Link href="/bookings" className="text-sm text-gray-500 hover:text-gray-900">
+        ← My bookings
+      </Link>
+
+      <div className="mt-4">
+        <h1 className="text-3xl font-bold tracking-tight text-gray-900">{carName}</h1>
+        <p className="mt-1 text-gray-500">
+          {formatDateRange(booking.start_ts, booking.end_ts)}
+          <span className="ml-2 text-xs text-gray-400">({TIMEZONE_LABEL})</span>
+        </p>
+        <p className="mt-2 text-sm font-medium text-gray-700">
+          {BOOKING_STATUS_LABELS[booking.status as BookingStatus]}
+        </p>
+        <p className="mt-4 text-sm text-gray-500">
+          The condition of the car as recorded by the rental business when you
+          picked it up and when you returned it.
+        </p>
+      </div>
+
+      {deposit && (
+        <div className="mt-8 rounded-xl border border-gray-200 bg-white p-6 shadow-sm">
+          <h2 className="text-lg font-semibold text-gray-900">Security deposit</h2>
+          <p className="mt-1 text-sm text-gray-600">{describeDeposit(deposit)}</p>
+
+          {claim && (
+            <div className="mt-4">
+              <DamageClaimSummary claim={claim} deposit={deposit.amount} />
+            </div>
+          )}
+
+          {claim?.status === "OPEN" && (
+            <div className="mt-6 border-t border-gray-100 pt-4">
+              <DamageClaimResponse
+                claimId={claim.id}
+                bookingId={bookingId}
+                amount={claim.amount_credits}
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      {CONDITION_REPORT_KINDS.map((kind) => (
+        <div key={kind} className="mt-8 rounded-xl border border-gray-200 bg-white p-6 shadow-sm">
+          <h2 className="text-lg font-semibold text-gray-900">
+            {CONDITION_REPORT_LABELS[kind]} condition
+          </h2>
+          <div className="mt-4">
+            <ConditionReportView kind={kind} report={reports.get(kind)} />
+          </div>
+        </div>
+      ))}
+    </section>
+  );
+}
@@ -1,10 +1,20 @@
 "use server";
 
 import { revalidatePath } from "next/cache";
+import { after } from "next/server";
+import { z } from "zod";
+import { fromZonedTime } from "date-fns-tz";
 import { createClient } from "@/lib/supabase/server";
 import { getProfile } from "@/lib/auth/getProfile";
 import { rateLimit } from "@/lib/rateLimit";
+import { BUSINESS_TIMEZONE } from "@/lib/timezone";
 import { sendCancellationEmail } from "@/lib/email/cancellation";
+import { sendPendingWaitlistEmails } from "@/lib/waitlist";
+import {
+  cancellationPolicyFromRow,
+  type CancellationPolicy,
+  type CancellationPolicyRow,
+} from "@/lib/cancellation";
 
 // 5 cancel actions per user per 5 minutes
 const CANCEL_MAX = 5;
@@ -17,12 +27,78 @@ export interface CancelResult {
   refundPct?: number;
 }
 
+export interface SeriesCancelResult {
+  success: boolean;
+  error?: string;
+  canceledCount?: number;
+  refundCredits?: number;
+}
+
+export interface ModifyResult {
+  success: boolean;
+  error?: string;
+  creditsCharged?: number;
+  /** Positive = extra credits debited, negative = credits refunded */
+  creditDelta?: number;
+}
+
+export interface CancellationPreview {
+  success: boolean;
+  error?: string;
+  refundCredits?: number;
+  refundPct?: number;
+  hoursUntilStart?: number;
+  policy?: CancellationPolicy;
+}
+
+/**
+ * Server action — refund the customer would get by cancelling now.
+ *
+ * Read-only: calls the `preview_cancellation` RPC, which applies the same
+ * policy lookup and tier rule as `cancel_booking`.
+ */
+export async function previewCancellation(bookingId: string): Promise<CancellationPreview> {
+  const profile = await getProfile();
+  if (!profile) {
+    return { success: false, error: "Not authenticated" };
+  }
+
+  const supabase = await createClient();
+  const { data, error } = await supabase.rpc("preview_cancellation", {
+    p_booking_id: bookingId,
+  });
+
+  if (error) {
+    return { success: false, error: error.message };
+  }
+
+  const result = data as {
+    refund: number;
+    refund_pct: number;
+    hours_until_start: number;
+    preset: CancellationPolicyRow["preset"];
+    tiers: CancellationPolicyRow["tiers"];
+  };
+
+  return {
+    success: true,
+    refundCredits: result.refund,
+    refundPct: result.refund_pct,
+    hoursUntilStart: result.hours_until_start,
+    policy: cancellationPolicyFromRow({
+      id: "",
+      preset: result.preset,
+      tiers: result.tiers,
+    }),
+  };
+}
+
 /**
  * Server action — cancel a confirmed booking.
  *
  * Calls the `cancel_booking` SECURITY DEFINER RPC which handles
- * authorisation (owner or ADMIN), tiered refund logic, and atomic
- * status + ledger + audit writes.
+ * authorisation (owner or ADMIN), the booking's cancellation policy,
+ * and atomic status + ledger + audit writes.
  */
 export async function cancelBooking(bookingId: string): Promise<CancelResult> {
   // ------------------------------------------------------------------
@@ -62,6 +138,8 @@ export async function cancelBooking(bookingId: string): Promise<CancelResult> {
     status: string;
     refund: number;
     refund_pct: number;
+    preset?: CancellationPolicyRow["preset"];
+    tiers?: CancellationPolicyRow["tiers"];
     message?: string;
   };
 
@@ -73,8 +151,15 @@ export async function cancelBooking(bookingId: string): Promise<CancelResult> {
     bookingId: result.booking_id,
     refundCredits: result.refund,
     refundPct: result.refund_pct,
+    policy:
+      result.preset && result.tiers
+        ? cancellationPolicyFromRow({ id: "", preset: result.preset, tiers: result.tiers })
+        : undefined,
   });
 
+  // The freed window may have notified waitlisted customers
+  after(sendPendingWaitlistEmails);
+
   // ------------------------------------------------------------------
   // 5. Revalidate
   // ------------------------------------------------------------------
@@ -87,3 +172,215 @@ export async function cancelBooking(bookingId: string): Promise<CancelResult> {
     refundPct: result.refund_pct,
   };
 }
+
+/**
+ * Server action — cancel an occurrence of a recurring series and every
+ * later occurrence.
+ *
+ * The `cancel_booking_series` RPC cancels each occurrence through
+ * `cancel_booking`, so every one is refunded under its own policy. No
+ * per-occurrence emails are sent.
+ */
+export async function cancelSeriesFrom(bookingId: string): Promise<SeriesCancelResult> {
+  const profile = await getProfile();
+  if (!profile) {
+    return { success: false, error: "Not authenticated" };
+  }
+
+  const rl = rateLimit(`${profile.id}:cancel_booking`, CANCEL_MAX, CANCEL_WINDOW_MS);
+  if (!rl.ok) {
+    const secs = Math.ceil(rl.retryAfterMs / 1000);
+    return {
+      success: false,
+      error: `Too many cancel requests. Try again in ${secs}s.`,
+    };
+  }
+
+  const supabase = await createClient();
+  const { data, error } = await supabase.rpc("cancel_booking_series", {
+    p_booking_id: bookingId,
+  });
+
+  if (error) {
+    return { success: false, error: error.message };
+  }
+
+  const result = data as { series_id: string; canceled: number; refund: number };
+
+  // The freed windows may have notified waitlisted customers
+  after(sendPendingWaitlistEmails);
+
+  revalidatePath("/bookings");
+  revalidatePath("/wallet");
+
+  return {
+    success: true,
+    canceledCount: result.canceled,
+    refundCredits: result.refund,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Modify (extend / shorten / reschedule)
+// ---------------------------------------------------------------------------
+
+// 10 modifications per user per 5 minutes
+const MODIFY_MAX = 10;
+const MODIFY_WINDOW_MS = 5 * 60 * 1000;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const SLOT_PATTERN = /^([01]\d|2[0-3]):(00|30)$/;
+
+const modifySchema = z.object({
+  booking_id: z.string().uuid("Invalid booking ID"),
+  start_date: z.string().regex(DATE_PATTERN, "Invalid start date"),
+  start_time: z.string().regex(SLOT_PATTERN, "Times must be on the half hour"),
+  end_date: z.string().regex(DATE_PATTERN, "Invalid end date"),
+  end_time: z.string().regex(SLOT_PATTERN, "Times must be on the half hour"),
+});
+
+/**
+ * Server action — move a confirmed booking to new times on the same unit.
+ *
+ * Form times are Central Time. The `modify_booking` RPC re-checks
+ * availability, re-prices the booking and debits the difference, or
+ * refunds a lower price per the cancellation policy, atomically.
+ */
+export async function modifyBooking(formData: FormData): Promise<ModifyResult> {
+  const profile = await getProfile();
+  if (!profile || profile.role !== "CUSTOMER") {
+    return { success: false, error: "Not authenticated" };
+  }
+
+  const rl = rateLimit(`${profile.id}:modify_booking`, MODIFY_MAX, MODIFY_WINDOW_MS);
+  if (!rl.ok) {
+    const secs = Math.ceil(rl.retryAfterMs / 1000);
+    return {
+      success: false,
+      error: `Too many changes. Try again in ${secs}s.`,
+    };
+  }
+
+  const parsed = modifySchema.safeParse({
+    booking_id: formData.get("booking_id") as string,
+    start_date: formData.get("start_date") as string,
+    start_time: formData.get("start_time") as string,
+    end_date: formData.get("end_date") as string,
+    end_time: formData.get("end_time") as string,
+  });
+
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.issues[0].message };
+  }
+
+  const v = parsed.data;
+  const startTs = fromZonedTime(`${v.start_date}T${v.start_time}:00`, BUSINESS_TIMEZONE);
+  const endTs = fromZonedTime(`${v.end_date}T${v.end_time}:00`, BUSINESS_TIMEZONE);
+
+  if (endTs <= startTs) {
+    return { success: false, error: "End time must be after start time" };
+  }
+
+  const supabase = await createClient();
+  const { data, error } = await supabase.rpc("modify_booking", {
+    p_booking_id: v.booking_id,
+    p_start_ts: startTs.toISOString(),
+    p_end_ts: endTs.toISOString(),
+  });
+
+  if (error) {
+    return { success: false, error: error.message };
+  }
+
+  const result = data as { credits_charged: number; credit_delta: number };
+
+  revalidatePath("/bookings");
+  revalidatePath("/wallet");
+  return {
+    success: true,
+    creditsCharged: result.credits_charged,
+    creditDelta: result.credit_delta,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Waitlist
+// ---------------------------------------------------------------------------
+
+export async function leaveWaitlist(entryId: string): Promise<{ success: boolean; error?: string }> {
+  const profile = await getProfile();
+  if (!profile) {
+    return { success: false, error: "Not authenticated" };
+  }
+
+  if (!z.string().uuid().safeParse(entryId).success) {
+    return { success: false, error: "Invalid waitlist entry" };
+  }
+
+  const supabase = await createClient();
+  const { error } = await supabase.rpc("leave_waitlist", { p_entry_id: entryId });
+
+  if (error) {
+    return { success: false, error: error.message };
+  }
+
+  revalidatePath("/bookings");
+  return { success: true };
+}
+
+// ---------------------------------------------------------------------------
+// Damage claims
+// ---------------------------------------------------------------------------
+
+const claimResponseSchema = z
+  .object({
+    claim_id: z.string().uuid("Invalid damage claim"),
+    booking_id: z.string().uuid("Invalid booking ID"),
+    decision: z.enum(["accept", "dispute"], "Accept or dispute the claim"),
+    response: z.string().trim().max(2000, "Response must be 2000 characters or fewer"),
+  })
+  .refine((v) => v.decision === "accept" || v.response !== "", {
+    message: "Tell us why you dispute the claim",
+  });
+
+/**
+ * Server action — accept a damage claim (the claimed credits are kept from
+ * the deposit, the rest returned) or dispute it for an admin to decide.
+ */
+export async function respondToDamageClaim(
+  formData: FormData
+): Promise<{ success: boolean; error?: string }> {
+  const profile = await getProfile();
+  if (!profile || profile.role !== "CUSTOMER") {
+    return { success: false, error: "Not authenticated" };
+  }
+
+  const rl = rateLimit(`${profile.id}:damage_claim_response`, 5, 60_000);
+  if (!rl.ok) return { success: false, error: "Too many requests. Slow down." };
+
+  const parsed = claimResponseSchema.safeParse({
+    claim_id: formData.get("claim_id") ?? "",
+    booking_id: formData.get("booking_id") ?? "",
+    decision: formData.get("decision") ?? "",
+    response: formData.get("response") ?? "",
+  });
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.issues[0].message };
+  }
+
+  const supabase = await createClient();
+  const { error } = await supabase.rpc("customer_respond_damage_claim", {
+    p_claim_id: parsed.data.claim_id,
+    p_accept: parsed.data.decision === "accept",
+    p_response: parsed.data.response,
+  });
+
+  if (error) {
+    return { success: false, error: error.message };
+  }
+
+  revalidatePath(`/bookings/${parsed.data.booking_id}`);
+  revalidatePath("/bookings");
+  revalidatePath("/wallet");
+  return { success: true };
+}
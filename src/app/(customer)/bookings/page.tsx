@@ -2,6 +2,11 @@ import Link from "next/link";
 import { createClient } from "@/lib/supabase/server";
 import { getProfile } from "@/lib/auth/getProfile";
 import CancelBookingButton from "./CancelBookingButton";
+import CancelSeriesButton from "./CancelSeriesButton";
+import ModifyBookingForm from "./ModifyBookingForm";
+import LeaveWaitlistButton from "./LeaveWaitlistButton";
+import { BOOKING_STATUS_LABELS, type BookingStatus } from "@/lib/bookingLifecycle";
+import { describeDeposit, type BookingDeposit } from "@/lib/deposits";
 import {
   formatUtcForDisplay,
   calculateDurationFromUtc,
@@ -16,21 +21,61 @@ export default async function BookingsPage() {
   const { data: bookings } = await supabase
     .from("bookings")
     .select(
-      `*, car_unit:car_units( display_name, vin, car_models ( display_name ) )`
+      `*, car_unit:car_units( display_name, vin, car_models ( display_name ) ),
+       series:booking_series ( frequency )`
     )
     .order("start_ts", { ascending: false });
 
   const now = new Date();
 
-  const upcoming =
-    bookings?.filter(
-      (b) => b.status === "CONFIRMED" && new Date(b.end_ts) > now
-    ) ?? [];
+  // Waitlist entries still ahead of us (RLS: own entries only)
+  const { data: waitlist } = await supabase
+    .from("waitlist_entries")
+    .select("id, car_model_id, color, start_ts, end_ts, status, car_models ( display_name )")
+    .in("status", ["WAITING", "NOTIFIED"])
+    .gt("start_ts", now.toISOString())
+    .order("start_ts", { ascending: true });
 
-  const past =
-    bookings?.filter(
-      (b) => b.status !== "CONFIRMED" || new Date(b.end_ts) <= now
-    ) ?? [];
+  // Security deposits, and damage claims waiting on the customer (RLS: own only)
+  const { data: deposits } = await supabase
+    .from("booking_deposits")
+    .select("booking_id, amount, status, captured_credits");
+  const depositMap = new Map(
+    (deposits ?? []).map((d) => [d.booking_id as string, d as BookingDeposit])
+  );
+
+  const { data: openClaims } = await supabase
+    .from("damage_claims")
+    .select("booking_id")
+    .eq("status", "OPEN");
+  const openClaimIds = new Set((openClaims ?? []).map((c) => c.booking_id as string));
+
+  // Cars per group booking, for the group badge
+  const groupSizes = new Map<string, number>();
+  for (const b of bookings ?? []) {
+    if (b.group_id) groupSizes.set(b.group_id, (groupSizes.get(b.group_id) ?? 0) + 1);
+  }
+
+  // Not yet ended, or the car is still out
+  const isCurrent = (b: { status: string; end_ts: string }) =>
+    (b.status === "CONFIRMED" && new Date(b.end_ts) > now) ||
+    b.status === "CHECKED_OUT" ||
+    b.status === "LATE";
+
+  const upcoming = bookings?.filter(isCurrent) ?? [];
+
+  // Upcoming occurrences from each series booking to the end of its series,
+  // for "cancel rest of series"
+  const seriesRemaining = new Map<string, number>();
+  for (const b of upcoming) {
+    if (!b.series_id) continue;
+    seriesRemaining.set(
+      b.id,
+      upcoming.filter((o) => o.series_id === b.series_id && o.start_ts >= b.start_ts).length
+    );
+  }
+
+  const past = bookings?.filter((b) => !isCurrent(b)) ?? [];
 
   return (
     <section className="mx-auto max-w-4xl px-6 py-10">
@@ -75,6 +120,9 @@ export default async function BookingsPage() {
               <BookingCard
                 key={b.id}
                 booking={b}
+                groupSize={b.group_id ? groupSizes.get(b.group_id) : undefined}
+                seriesRemaining={seriesRemaining.get(b.id)}
+                deposit={depositMap.get(b.id)}
                 showCancel
                 userEmail={profile?.email ?? ""}
               />
@@ -83,6 +131,51 @@ export default async function BookingsPage() {
         )}
       </div>
 
+      {/* ---- Waitlist ---- */}
+      {waitlist && waitlist.length > 0 && (
+        <div className="mt-12">
+          <h2 className="text-sm font-semibold uppercase tracking-wider text-gray-500">
+            Waitlist
+          </h2>
+          <ul className="mt-4 space-y-3">
+            {waitlist.map((w) => {
+              const model = w.car_models as unknown as { display_name: string } | null;
+              return (
+                <li
+                  key={w.id}
+                  className="flex items-center justify-between gap-4 rounded-xl border border-gray-200 bg-white p-5 shadow-sm"
+                >
+                  <div className="min-w-0">
+                    <p className="truncate font-semibold text-gray-900">
+                      <Link href={`/cars/${w.car_model_id}`} className="hover:underline">
+                        {model?.display_name ?? "Car"}
+                      </Link>
+                      {w.color && (
+                        <span className="ml-2 text-sm font-normal text-gray-500">{w.color}</span>
+                      )}
+                    </p>
+                    <p className="mt-1 text-sm text-gray-500">
+                      {formatUtcForDisplay(w.start_ts, "EEE, MMM d 'at' h:mm a")} →{" "}
+                      {formatUtcForDisplay(w.end_ts, "EEE, MMM d 'at' h:mm a")}
+                    </p>
+                    <span
+                      className={`mt-2 inline-block rounded-full px-2 py-0.5 text-xs font-semibold ${
+                        w.status === "NOTIFIED"
+                          ? "bg-emerald-50 text-emerald-700"
+                          : "bg-amber-50 text-amber-700"
+                      }`}
+                    >
+                      {w.status === "NOTIFIED" ? "A car freed up — book it now" : "Waiting"}
+                    </span>
+                  </div>
+                  {w.status === "WAITING" && <LeaveWaitlistButton entryId={w.id} />}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+
       {/* ---- Past / Canceled ---- */}
       <div className="mt-12">
         <h2 className="text-sm font-semibold uppercase tracking-wider text-gray-500">
@@ -94,7 +187,13 @@ export default async function BookingsPage() {
         ) : (
           <ul className="mt-4 space-y-3">
             {past.map((b) => (
-              <BookingCard key={b.id} booking={b} />
+              <BookingCard
+                key={b.id}
+                booking={b}
+                groupSize={b.group_id ? groupSizes.get(b.group_id) : undefined}
+                deposit={depositMap.get(b.id)}
+                claimOpen={openClaimIds.has(b.id)}
+              />
             ))}
           </ul>
         )}
@@ -110,14 +209,27 @@ export default async function BookingsPage() {
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 function BookingCard({
   booking: b,
+  groupSize,
+  seriesRemaining,
+  deposit,
+  claimOpen,
   showCancel,
 }: {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   booking: any;
+  /** Number of cars in the booking's group (group bookings only) */
+  groupSize?: number;
+  /** Upcoming occurrences from this one on (series bookings only) */
+  seriesRemaining?: number;
+  /** Security deposit held for the booking, if the unit asks for one */
+  deposit?: BookingDeposit;
+  /** A damage claim against the deposit is waiting on the customer */
+  claimOpen?: boolean;
   showCancel?: boolean;
   userEmail?: string;
 }) {
-  const isCanceled = b.status === "CANCELED";
+  const status = b.status as BookingStatus;
+  const isCanceled = status === "CANCELED" || status === "NO_SHOW";
 
   // Resolve unit name from the joined car_unit → car_models chain
   const unitData = b.car_unit as {
@@ -181,16 +293,53 @@ function BookingCard({
               className={`inline-block rounded-full px-2 py-0.5 text-xs font-semibold ${
                 isCanceled
                   ? "bg-red-50 text-red-600"
-                  : "bg-green-50 text-green-700"
+                  : status === "LATE"
+                    ? "bg-amber-100 text-amber-800"
+                    : "bg-green-50 text-green-700"
               }`}
             >
-              {b.status}
+              {BOOKING_STATUS_LABELS[status]}
             </span>
+            {b.late_fee_credits > 0 && (
+              <span className="inline-block rounded-full bg-amber-50 px-2 py-0.5 text-xs font-medium text-amber-700">
+                Late fee {b.late_fee_credits} cr
+              </span>
+            )}
+            {deposit && (
+              <span className="inline-block rounded-full bg-gray-100 px-2 py-0.5 text-xs font-medium text-gray-600">
+                {describeDeposit(deposit)}
+              </span>
+            )}
+            {claimOpen && (
+              <Link
+                href={`/bookings/${b.id}`}
+                className="inline-block rounded-full bg-amber-100 px-2 py-0.5 text-xs font-semibold text-amber-800 hover:bg-amber-200"
+              >
+                Damage claim — respond
+              </Link>
+            )}
             {isMultiDay && (
               <span className="inline-block rounded-full bg-sky-light px-2 py-0.5 text-xs font-medium text-primary">
                 Multi-day
               </span>
             )}
+            {b.group_id && (
+              <span
+                title={`Group ${b.group_id}`}
+                className="inline-block rounded-full bg-indigo-50 px-2 py-0.5 text-xs font-medium text-indigo-700"
+              >
+                Group {b.group_id.slice(0, 8)}
+                {groupSize ? ` · ${groupSize} cars` : ""}
+              </span>
+            )}
+            {b.series_id && (
+              <span
+                title={`Series ${b.series_id}`}
+                className="inline-block rounded-full bg-violet-50 px-2 py-0.5 text-xs font-medium text-violet-700"
+              >
+                {b.series?.frequency === "DAILY" ? "Daily" : "Weekly"} series
+              </span>
+            )}
           </div>
 
           {/* Pricing breakdown (only for bookings created after migration) */}
@@ -210,6 +359,11 @@ function BookingCard({
               {b.pricing_mode === "HOURLY" && (
                 <span>Day cap: no</span>
               )}
+              {b.discount_credits > 0 && (
+                <span className="text-emerald-700">
+                  Promo: −{b.discount_credits} cr
+                </span>
+              )}
               <span className="font-medium text-gray-600">
                 Total: {b.credits_charged} cr
               </span>
@@ -218,11 +372,27 @@ function BookingCard({
               </span>
             </div>
           )}
+
+          {/* Pick-up / return condition reports once the car has been out */}
+          {(status === "CHECKED_OUT" || status === "LATE" || status === "RETURNED") && (
+            <Link
+              href={`/bookings/${b.id}`}
+              className="mt-2 inline-block text-xs font-medium text-gray-500 underline hover:text-gray-900"
+            >
+              Condition reports
+            </Link>
+          )}
         </div>
 
-        {/* Right: action */}
-        {showCancel && !isCanceled && (
-          <CancelBookingButton bookingId={b.id} />
+        {/* Right: actions */}
+        {showCancel && status === "CONFIRMED" && (
+          <div className="flex flex-col items-end gap-2 sm:flex-row sm:items-start">
+            <ModifyBookingForm bookingId={b.id} startTs={b.start_ts} endTs={b.end_ts} />
+            <CancelBookingButton bookingId={b.id} />
+            {seriesRemaining !== undefined && seriesRemaining > 1 && (
+              <CancelSeriesButton bookingId={b.id} remaining={seriesRemaining} />
+            )}
+          </div>
         )}
       </div>
     </li>
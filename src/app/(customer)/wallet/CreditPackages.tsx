@@ -0,0 +1,74 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { buyCreditPackage } from "./actions";
+import { centsPerCredit, formatPrice, type CreditPackage } from "@/lib/creditPackages";
+
+/**
+ * Self-serve credit packages. Buying one starts a checkout with the
+ * payment provider; credits appear once the payment is confirmed.
+ */
+export default function CreditPackages({ packages }: { packages: CreditPackage[] }) {
+  const [isPending, startTransition] = useTransition();
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Savings are shown against the dearest credits on offer
+  const basePerCredit = Math.max(...packages.map(centsPerCredit));
+
+  function handleBuy(packageId: string) {
+    const formData = new FormData();
+    formData.set("package_id", packageId);
+
+    setError(null);
+    setPendingId(packageId);
+    startTransition(async () => {
+      const res = await buyCreditPackage(formData);
+      // Only returns on error; success redirects to checkout
+      if (res && !res.success) {
+        setError(res.error ?? "Failed to start checkout.");
+        setPendingId(null);
+      }
+    });
+  }
+
+  return (
+    <div>
+      <ul className="grid gap-4 sm:grid-cols-3">
+        {packages.map((pkg) => {
+          const saving = Math.round((1 - centsPerCredit(pkg) / basePerCredit) * 100);
+
+          return (
+            <li
+              key={pkg.id}
+              className="flex flex-col rounded-xl border border-gray-200 bg-white p-5 shadow-sm"
+            >
+              <p className="text-sm font-medium text-gray-500">{pkg.name}</p>
+              <p className="mt-1 text-2xl font-bold text-gray-900">
+                {pkg.credits}
+                <span className="ml-1 text-sm font-normal text-gray-400">credits</span>
+              </p>
+              <p className="mt-1 text-sm text-gray-700">
+                {formatPrice(pkg.price_cents, pkg.currency)}
+                {saving > 0 && (
+                  <span className="ml-2 text-xs font-semibold text-green-600">
+                    Save {saving}%
+                  </span>
+                )}
+              </p>
+              <button
+                type="button"
+                onClick={() => handleBuy(pkg.id)}
+                disabled={isPending}
+                className="mt-4 h-9 rounded-lg bg-indigo-600 px-4 text-sm font-medium text-white hover:bg-indigo-700 disabled:opacity-50"
+              >
+                {isPending && pendingId === pkg.id ? "Starting checkout…" : "Buy"}
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+      {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
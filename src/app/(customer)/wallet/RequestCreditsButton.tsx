@@ -2,10 +2,12 @@
 
 import { useState } from "react";
 import { requestCredits } from "./actions";
+import { MAX_CREDIT_REQUEST } from "@/lib/creditRequests";
 
 export default function RequestCreditsButton() {
   const [isOpen, setIsOpen] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [sent, setSent] = useState(false);
   const [pending, setPending] = useState(false);
 
   async function handleSubmit(formData: FormData) {
@@ -15,20 +17,32 @@ export default function RequestCreditsButton() {
     const result = await requestCredits(formData);
     setPending(false);
 
-    // If we get here without redirect, there was an error
-    if (!result.success) {
+    if (result.success) {
+      setIsOpen(false);
+      setSent(true);
+    } else {
       setError(result.error ?? "Failed to send request.");
     }
   }
 
   if (!isOpen) {
     return (
-      <button
-        onClick={() => setIsOpen(true)}
-        className="rounded-md bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700"
-      >
-        Request Credits
-      </button>
+      <div className="flex items-center gap-3">
+        <button
+          onClick={() => {
+            setIsOpen(true);
+            setSent(false);
+          }}
+          className="rounded-md bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700"
+        >
+          Request Credits
+        </button>
+        {sent && (
+          <p className="text-sm text-green-700">
+            Request sent — you&apos;ll see the decision below.
+          </p>
+        )}
+      </div>
     );
   }
 
@@ -52,6 +66,7 @@ export default function RequestCreditsButton() {
             id="amount"
             name="amount"
             min={1}
+            max={MAX_CREDIT_REQUEST}
             required
             placeholder="100"
             className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500"
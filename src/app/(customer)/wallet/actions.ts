@@ -1,10 +1,18 @@
 "use server";
 
+import { revalidatePath } from "next/cache";
 import { redirect } from "next/navigation";
 import { z } from "zod";
 import { createClient } from "@/lib/supabase/server";
+import { createServiceRoleClient } from "@/lib/supabase/serviceRoleClient";
 import { getProfile } from "@/lib/auth/getProfile";
 import { rateLimit } from "@/lib/rateLimit";
+import {
+  getCheckoutProvider,
+  type CheckoutSession,
+  type PaymentProvider,
+} from "@/lib/payments";
+import { MAX_CREDIT_REQUEST } from "@/lib/creditRequests";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -13,7 +21,6 @@ import { rateLimit } from "@/lib/rateLimit";
 interface ActionResult {
   success: boolean;
   error?: string;
-  threadId?: string;
 }
 
 // ---------------------------------------------------------------------------
@@ -24,7 +31,8 @@ const requestCreditsSchema = z.object({
   amount: z
     .string()
     .transform((v) => parseInt(v, 10))
-    .refine((v) => Number.isFinite(v) && v > 0, "Amount must be a positive number"),
+    .refine((v) => Number.isFinite(v) && v > 0, "Amount must be a positive number")
+    .refine((v) => v <= MAX_CREDIT_REQUEST, `Request at most ${MAX_CREDIT_REQUEST} credits`),
   note: z
     .string()
     .max(500, "Note must be 500 characters or less")
@@ -32,14 +40,19 @@ const requestCreditsSchema = z.object({
     .transform((v) => v?.trim() || ""),
 });
 
+const buyCreditsSchema = z.object({
+  package_id: z.string().uuid("Invalid credit package"),
+});
+
 // ---------------------------------------------------------------------------
-// Request Credits — creates a thread to admin and sends initial message
+// Request Credits — files a PENDING credit request for the admin queue
+// (calls the request_credits RPC)
 // ---------------------------------------------------------------------------
 
 export async function requestCredits(formData: FormData): Promise<ActionResult> {
   const profile = await getProfile();
-  if (!profile) {
-    return { success: false, error: "You must be logged in." };
+  if (!profile || profile.role !== "CUSTOMER") {
+    return { success: false, error: "Only customers can request credits." };
   }
 
   // Rate limit: 5 requests per hour
@@ -59,60 +72,108 @@ export async function requestCredits(formData: FormData): Promise<ActionResult>
   }
 
   const supabase = await createClient();
+  const { error } = await supabase.rpc("request_credits", {
+    p_amount: parsed.data.amount,
+    p_note: parsed.data.note,
+  });
+
+  if (error) {
+    return { success: false, error: error.message };
+  }
+
+  revalidatePath("/wallet");
+  return { success: true };
+}
 
-  // Find an admin to send the request to
-  // In a real app, you might have a specific support admin or queue
-  const { data: admins } = await supabase
-    .from("profiles")
-    .select("id")
-    .eq("role", "ADMIN")
-    .limit(1);
+// ---------------------------------------------------------------------------
+// Buy a credit package — records a PENDING purchase and sends the customer
+// to the payment provider's checkout. Credits are added by the provider's
+// webhook (/api/payments/webhook/[provider]), not here.
+// ---------------------------------------------------------------------------
 
-  if (!admins || admins.length === 0) {
-    return { success: false, error: "No admin available to process your request. Please try again later." };
+export async function buyCreditPackage(formData: FormData): Promise<ActionResult> {
+  const profile = await getProfile();
+  if (!profile || profile.role !== "CUSTOMER") {
+    return { success: false, error: "Only customers can buy credits." };
   }
 
-  const adminId = admins[0].id;
-
-  // Check if there's an existing open credit request thread with this admin
-  // For simplicity, we'll create a new thread each time
-  // (In production, you might reuse threads)
-
-  // Create thread
-  const { data: thread, error: threadError } = await supabase
-    .from("message_threads")
-    .insert({
-      subject: `Credit Request: ${parsed.data.amount} credits`,
-      created_by: profile.id,
-      customer_id: profile.id,
-      business_id: null, // Admin thread, not business-specific
-    })
-    .select("id")
-    .single();
-
-  if (threadError) {
-    console.error("Create credit request thread error:", threadError);
-    return { success: false, error: "Failed to create request. Please try again." };
+  // Rate limit: 10 checkouts per hour
+  const rl = rateLimit(`${profile.id}:buy_credits`, 10, 3600_000);
+  if (!rl.ok) {
+    return { success: false, error: "Too many purchases started. Please wait before trying again." };
   }
 
-  // Build message body
-  const messageBody = parsed.data.note
-    ? `I would like to request ${parsed.data.amount} credits.\n\nNote: ${parsed.data.note}`
-    : `I would like to request ${parsed.data.amount} credits.`;
-
-  // Insert initial message
-  const { error: msgError } = await supabase.from("messages").insert({
-    thread_id: thread.id,
-    sender_id: profile.id,
-    recipient_id: adminId,
-    body: messageBody,
+  const parsed = buyCreditsSchema.safeParse({
+    package_id: formData.get("package_id"),
   });
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.issues[0].message };
+  }
+
+  let provider: PaymentProvider;
+  try {
+    provider = getCheckoutProvider();
+  } catch (err) {
+    console.error("[payments] no checkout provider:", err);
+    return { success: false, error: "Buying credits isn't available right now." };
+  }
+
+  const supabase = await createClient();
+
+  const { data, error } = await supabase.rpc("start_credit_purchase", {
+    p_package_id: parsed.data.package_id,
+    p_provider: provider.name,
+  });
+
+  if (error) {
+    return { success: false, error: error.message };
+  }
+
+  const purchase = data as {
+    purchase_id: string;
+    credits: number;
+    amount_cents: number;
+    currency: string;
+  };
+
+  const baseUrl = process.env.APP_BASE_URL ?? "";
+  const returnUrl = `${baseUrl}/wallet?purchase=${purchase.purchase_id}`;
+
+  // The purchase row is read-only to customers; the session id is stored
+  // with the service role
+  const service = createServiceRoleClient();
+
+  let session: CheckoutSession;
+  try {
+    session = await provider.createCheckout({
+      purchaseId: purchase.purchase_id,
+      amountCents: purchase.amount_cents,
+      currency: purchase.currency,
+      description: `${purchase.credits} ForzaCars credits`,
+      customerEmail: profile.email,
+      successUrl: returnUrl,
+      cancelUrl: returnUrl,
+    });
+  } catch (err) {
+    console.error(`[payments] ${provider.name} checkout failed:`, err);
+    await service.rpc("fail_credit_purchase", {
+      p_purchase_id: purchase.purchase_id,
+      p_provider: provider.name,
+      p_session_id: null,
+      p_reason: "Checkout could not be started",
+    });
+    return { success: false, error: "Checkout is unavailable right now. Please try again later." };
+  }
+
+  const { error: sessionError } = await service
+    .from("credit_purchases")
+    .update({ provider_session_id: session.sessionId })
+    .eq("id", purchase.purchase_id);
 
-  if (msgError) {
-    console.error("Create credit request message error:", msgError);
-    return { success: false, error: "Failed to send request message." };
+  if (sessionError) {
+    console.error("Store checkout session error:", sessionError);
+    return { success: false, error: "Failed to start checkout. Please try again." };
   }
 
-  // Redirect to the thread
-  redirect(`/messages/${thread.id}`);
+  redirect(session.url);
 }
@@ -0,0 +1,51 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { completeFakeCheckout } from "./actions";
+
+/**
+ * Pay or decline a fake checkout. Either way the fake provider's webhook
+ * is delivered and the customer is sent back to the wallet.
+ */
+export default function FakeCheckoutForm({ sessionId }: { sessionId: string }) {
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+
+  function handleComplete(outcome: "succeeded" | "failed") {
+    const formData = new FormData();
+    formData.set("session_id", sessionId);
+    formData.set("outcome", outcome);
+
+    setError(null);
+    startTransition(async () => {
+      const res = await completeFakeCheckout(formData);
+      if (res && !res.success) {
+        setError(res.error ?? "Failed");
+      }
+    });
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          type="button"
+          onClick={() => handleComplete("succeeded")}
+          disabled={isPending}
+          className="h-9 rounded-lg bg-gray-900 px-4 text-sm font-medium text-white hover:bg-gray-700 disabled:opacity-50"
+        >
+          {isPending ? "Processing…" : "Pay"}
+        </button>
+        <button
+          type="button"
+          onClick={() => handleComplete("failed")}
+          disabled={isPending}
+          className="h-9 rounded-lg border border-gray-300 px-4 text-sm font-medium text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+        >
+          Decline card
+        </button>
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
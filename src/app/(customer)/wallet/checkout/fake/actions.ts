@@ -0,0 +1,89 @@
+"use server";
+
+import { redirect } from "next/navigation";
+import { z } from "zod";
+import { createClient } from "@/lib/supabase/server";
+import { getProfile } from "@/lib/auth/getProfile";
+import { rateLimit } from "@/lib/rateLimit";
+import {
+  buildFakeEvent,
+  fakePaymentProvider,
+  signFakeEvent,
+  FAKE_PROVIDER,
+  FAKE_SIGNATURE_HEADER,
+} from "@/lib/payments/fake";
+import { applyPaymentEvent } from "@/lib/payments/fulfillment";
+
+interface ActionResult {
+  success: boolean;
+  error?: string;
+}
+
+const completeSchema = z.object({
+  session_id: z.string().min(1, "Missing checkout session"),
+  outcome: z.enum(["succeeded", "failed"], "Invalid outcome"),
+});
+
+// ---------------------------------------------------------------------------
+// Complete a fake checkout — plays the provider's part: signs the payment
+// event and hands it to the same verification and fulfillment the webhook
+// route uses (no HTTP round trip), then returns to the wallet.
+// ---------------------------------------------------------------------------
+
+export async function completeFakeCheckout(formData: FormData): Promise<ActionResult> {
+  const profile = await getProfile();
+  if (!profile || profile.role !== "CUSTOMER") {
+    return { success: false, error: "You must be logged in." };
+  }
+
+  const rl = rateLimit(`${profile.id}:fake_checkout`, 10, 60_000);
+  if (!rl.ok) {
+    return { success: false, error: "Too many requests. Slow down." };
+  }
+
+  const parsed = completeSchema.safeParse({
+    session_id: formData.get("session_id"),
+    outcome: formData.get("outcome"),
+  });
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.issues[0].message };
+  }
+
+  // RLS: customers only see their own purchases
+  const supabase = await createClient();
+  const { data: purchase } = await supabase
+    .from("credit_purchases")
+    .select("id, amount_cents, currency, status")
+    .eq("provider", FAKE_PROVIDER)
+    .eq("provider_session_id", parsed.data.session_id)
+    .maybeSingle();
+
+  if (!purchase) {
+    return { success: false, error: "Checkout not found." };
+  }
+
+  const body = JSON.stringify(
+    buildFakeEvent(parsed.data.outcome, {
+      id: purchase.id,
+      sessionId: parsed.data.session_id,
+      amountCents: purchase.amount_cents,
+      currency: purchase.currency,
+    })
+  );
+
+  // Verified exactly as the webhook route would, then applied in-process
+  const delivery = await fakePaymentProvider.parseWebhook(
+    body,
+    new Headers({ [FAKE_SIGNATURE_HEADER]: signFakeEvent(body) })
+  );
+  if (!delivery.ok || !delivery.event) {
+    return { success: false, error: delivery.ok ? "Invalid payment event" : delivery.error };
+  }
+
+  const applied = await applyPaymentEvent(FAKE_PROVIDER, delivery.event);
+  if (!applied.ok) {
+    return { success: false, error: "Could not process the payment." };
+  }
+
+  redirect(`/wallet?purchase=${purchase.id}`);
+}
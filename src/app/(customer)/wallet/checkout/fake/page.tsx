@@ -0,0 +1,67 @@
+import { notFound } from "next/navigation";
+import Link from "next/link";
+import { createClient } from "@/lib/supabase/server";
+import { FAKE_PROVIDER, isFakeProviderAllowed } from "@/lib/payments/fake";
+import {
+  CREDIT_PURCHASE_COLUMNS,
+  CREDIT_PURCHASE_STATUS_LABELS,
+  formatPrice,
+  type CreditPurchase,
+} from "@/lib/creditPackages";
+import FakeCheckoutForm from "./FakeCheckoutForm";
+
+export const metadata = {
+  title: "Checkout | ForzaCars Rentals",
+};
+
+export default async function FakeCheckoutPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ session?: string }>;
+}) {
+  const { session } = await searchParams;
+  if (!session || !isFakeProviderAllowed()) notFound();
+
+  // RLS: customers only see their own purchases
+  const supabase = await createClient();
+  const { data } = await supabase
+    .from("credit_purchases")
+    .select(CREDIT_PURCHASE_COLUMNS)
+    .eq("provider", FAKE_PROVIDER)
+    .eq("provider_session_id", session)
+    .maybeSingle();
+
+  const purchase = data as unknown as CreditPurchase | null;
+  if (!purchase) notFound();
+
+  return (
+    <section className="mx-auto max-w-md px-6 py-10">
+      <Link href="/wallet" className="text-sm text-gray-500 hover:text-gray-900">
+        ← My wallet
+      </Link>
+
+      <div className="mt-4 rounded-2xl border border-dashed border-amber-300 bg-white p-8 shadow-sm">
+        <p className="text-xs font-semibold uppercase tracking-wider text-amber-700">
+          Test checkout — no real payment
+        </p>
+        <h1 className="mt-2 text-2xl font-bold tracking-tight text-gray-900">
+          {purchase.credits} credits
+        </h1>
+        <p className="mt-1 text-lg text-gray-700">
+          {formatPrice(purchase.amount_cents, purchase.currency)}
+        </p>
+
+        <div className="mt-6">
+          {purchase.status === "PENDING" ? (
+            <FakeCheckoutForm sessionId={session} />
+          ) : (
+            <p className="text-sm text-gray-500">
+              {CREDIT_PURCHASE_STATUS_LABELS[purchase.status]} — this checkout is
+              complete.
+            </p>
+          )}
+        </div>
+      </div>
+    </section>
+  );
+}
@@ -1,19 +1,105 @@
+import { redirect } from "next/navigation";
 import { createClient } from "@/lib/supabase/server";
 import { getProfile } from "@/lib/auth/getProfile";
+import {
+  CREDIT_PACKAGE_COLUMNS,
+  CREDIT_PURCHASE_COLUMNS,
+  formatPrice,
+  type CreditPackage,
+  type CreditPurchase,
+} from "@/lib/creditPackages";
+import { expiringCredits, type CreditBucket } from "@/lib/creditBuckets";
+import {
+  CREDIT_REQUEST_COLUMNS,
+  CREDIT_REQUEST_STATUS_LABELS,
+  CREDIT_REQUEST_STATUS_STYLES,
+  type CreditRequest,
+} from "@/lib/creditRequests";
+import { isCheckoutAvailable } from "@/lib/payments";
+import { formatUtcForDisplay } from "@/lib/timezone";
 import RequestCreditsButton from "./RequestCreditsButton";
+import CreditPackages from "./CreditPackages";
 
-export default async function WalletPage() {
+const LEDGER_HISTORY_LIMIT = 100;
+const CREDIT_REQUEST_LIMIT = 10;
+
+export default async function WalletPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ purchase?: string }>;
+}) {
+  const { purchase: purchaseId } = await searchParams;
   const profile = await getProfile();
+  if (!profile) {
+    redirect("/login");
+  }
+
   const supabase = await createClient();
 
-  // Fetch the full ledger (RLS scoped to own rows)
+  // Balance is kept on the account row; no row yet means no ledger entries
+  // yet. Filtered to the caller — admins can read every account.
+  const { data: account, error: accountError } = await supabase
+    .from("credit_accounts")
+    .select("balance")
+    .eq("user_id", profile.id)
+    .maybeSingle();
+  const balance = account?.balance ?? 0;
+
+  // Most recent ledger entries for the history
   const { data: ledger } = await supabase
     .from("credit_ledger")
     .select("*")
-    .order("created_at", { ascending: false });
+    .eq("user_id", profile.id)
+    .order("created_at", { ascending: false })
+    .limit(LEDGER_HISTORY_LIMIT);
+
+  // Security deposits still held (already debited, so not in the balance)
+  const { data: heldDeposits } = await supabase
+    .from("booking_deposits")
+    .select("amount")
+    .eq("customer_id", profile.id)
+    .eq("status", "HELD");
+  const held = (heldDeposits ?? []).reduce((sum, row) => sum + row.amount, 0);
+
+  // Credits with an expiry date (promotional grants)
+  const { data: bucketRows } = await supabase
+    .from("credit_buckets")
+    .select("source, remaining, expires_at")
+    .eq("user_id", profile.id)
+    .gt("remaining", 0)
+    .not("expires_at", "is", null);
+  const buckets = (bucketRows ?? []) as CreditBucket[];
+  const expiring = expiringCredits(buckets, new Date());
+  const hasPromo = (bucketRows ?? []).some((b) => b.source === "PROMOTIONAL");
+
+  // Active packages only — admins can read inactive ones too
+  const { data: packageRows } = await supabase
+    .from("credit_packages")
+    .select(CREDIT_PACKAGE_COLUMNS)
+    .eq("active", true)
+    .order("sort_order", { ascending: true });
+  const packages = (packageRows ?? []) as unknown as CreditPackage[];
 
-  // Compute balance as sum of all deltas
-  const balance = (ledger ?? []).reduce((sum, row) => sum + row.delta, 0);
+  // Back from checkout: show how the purchase went. Filtered to the
+  // caller — admins can read every purchase.
+  const { data: purchaseRow } = purchaseId
+    ? await supabase
+        .from("credit_purchases")
+        .select(CREDIT_PURCHASE_COLUMNS)
+        .eq("id", purchaseId)
+        .eq("user_id", profile.id)
+        .maybeSingle()
+    : { data: null };
+  const purchase = purchaseRow as unknown as CreditPurchase | null;
+
+  // Latest credit requests and their decisions
+  const { data: requestRows } = await supabase
+    .from("credit_requests")
+    .select(CREDIT_REQUEST_COLUMNS)
+    .eq("user_id", profile.id)
+    .order("created_at", { ascending: false })
+    .limit(CREDIT_REQUEST_LIMIT);
+  const requests = (requestRows ?? []) as unknown as CreditRequest[];
 
   return (
     <section className="mx-auto max-w-3xl px-6 py-10">
@@ -21,34 +107,115 @@ export default async function WalletPage() {
       <h1 className="text-3xl font-bold tracking-tight text-gray-900">
         My Wallet
       </h1>
-      <p className="mt-1 text-gray-500">{profile?.email}</p>
+      <p className="mt-1 text-gray-500">{profile.email}</p>
+
+      {purchase && <PurchaseNotice purchase={purchase} />}
 
       {/* Balance card */}
       <div className="mt-8 rounded-2xl border border-gray-200 bg-white p-8 shadow-sm">
         <p className="text-sm font-medium uppercase tracking-wider text-gray-400">
           Available Balance
         </p>
-        <p className="mt-2 text-5xl font-bold tracking-tight text-gray-900">
-          {balance}
-          <span className="ml-2 text-lg font-normal text-gray-400">
-            credits
-          </span>
-        </p>
+        {accountError ? (
+          <p className="mt-2 text-sm text-red-600">
+            Failed to load your balance: {accountError.message}
+          </p>
+        ) : (
+          <p className="mt-2 text-5xl font-bold tracking-tight text-gray-900">
+            {balance}
+            <span className="ml-2 text-lg font-normal text-gray-400">
+              credits
+            </span>
+          </p>
+        )}
+        {held > 0 && (
+          <p className="mt-2 text-sm text-gray-500">
+            + {held} credits held as security deposits, returned after your
+            rentals unless there is a damage claim
+          </p>
+        )}
+        {expiring.map((e) => (
+          <p key={e.date} className="mt-2 text-sm text-amber-700">
+            {e.credits} credits expiring on {e.date}
+          </p>
+        ))}
+        {hasPromo && (
+          <p className="mt-1 text-xs text-gray-400">
+            Promotional credits are used first, before they expire.
+          </p>
+        )}
         <div className="mt-6">
           <RequestCreditsButton />
         </div>
       </div>
 
+      {/* Credit packages */}
+      {packages.length > 0 && isCheckoutAvailable() && (
+        <div className="mt-10">
+          <h2 className="text-sm font-semibold uppercase tracking-wider text-gray-500">
+            Buy Credits
+          </h2>
+          <div className="mt-4">
+            <CreditPackages packages={packages} />
+          </div>
+        </div>
+      )}
+
+      {/* Credit requests */}
+      {requests.length > 0 && (
+        <div className="mt-10">
+          <h2 className="text-sm font-semibold uppercase tracking-wider text-gray-500">
+            Credit Requests
+          </h2>
+          <ul className="mt-4 divide-y divide-gray-100 rounded-xl border border-gray-200 bg-white shadow-sm">
+            {requests.map((request) => (
+              <li key={request.id} className="px-5 py-4">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900">
+                      {request.amount} credits requested
+                      {request.status === "PARTIALLY_APPROVED" &&
+                        ` · ${request.approved_credits} approved`}
+                    </p>
+                    <p className="mt-0.5 text-xs text-gray-400">
+                      {formatUtcForDisplay(request.created_at, "MMM d, yyyy")}
+                      {request.note && <> &middot; {request.note}</>}
+                    </p>
+                  </div>
+                  <span
+                    className={`shrink-0 rounded-full px-2.5 py-0.5 text-xs font-medium ${
+                      CREDIT_REQUEST_STATUS_STYLES[request.status]
+                    }`}
+                  >
+                    {CREDIT_REQUEST_STATUS_LABELS[request.status]}
+                  </span>
+                </div>
+                {request.decision_note && (
+                  <p className="mt-2 text-sm text-gray-600">
+                    {request.decision_note}
+                  </p>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Ledger history */}
       <div className="mt-10">
         <h2 className="text-sm font-semibold uppercase tracking-wider text-gray-500">
           Transaction History
+          {ledger?.length === LEDGER_HISTORY_LIMIT && (
+            <span className="ml-2 font-normal normal-case tracking-normal text-gray-400">
+              (latest {LEDGER_HISTORY_LIMIT})
+            </span>
+          )}
         </h2>
 
         {!ledger || ledger.length === 0 ? (
           <p className="mt-4 text-sm text-gray-400">
-            No transactions yet. Credits will appear here once granted by an
-            admin.
+            No transactions yet. Credits will appear here once you buy a
+            package or a request is approved.
           </p>
         ) : (
           <ul className="mt-4 divide-y divide-gray-100 rounded-xl border border-gray-200 bg-white shadow-sm">
@@ -76,6 +243,12 @@ export default async function WalletPage() {
                         hour: "numeric",
                         minute: "2-digit",
                       })}
+                      {entry.source === "PROMOTIONAL" && entry.expires_at && (
+                        <>
+                          {" "}&middot; promotional, expires{" "}
+                          {formatUtcForDisplay(entry.expires_at, "MMM d, yyyy")}
+                        </>
+                      )}
                     </p>
                   </div>
 
@@ -96,3 +269,32 @@ export default async function WalletPage() {
     </section>
   );
 }
+
+function PurchaseNotice({ purchase }: { purchase: CreditPurchase }) {
+  const price = formatPrice(purchase.amount_cents, purchase.currency);
+
+  if (purchase.status === "PAID") {
+    return (
+      <div className="mt-6 rounded-lg bg-green-50 p-4 text-sm text-green-800">
+        Payment received — {purchase.credits} credits were added to your wallet.
+      </div>
+    );
+  }
+
+  if (purchase.status === "FAILED") {
+    return (
+      <div className="mt-6 rounded-lg bg-red-50 p-4 text-sm text-red-700">
+        Your payment of {price} didn&apos;t go through
+        {purchase.failure_reason ? ` (${purchase.failure_reason})` : ""}. No
+        credits were added and you weren&apos;t charged.
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-6 rounded-lg bg-amber-50 p-4 text-sm text-amber-800">
+      We&apos;re waiting for the payment of {price} to be confirmed. Your{" "}
+      {purchase.credits} credits will appear here shortly — refresh to check.
+    </div>
+  );
+}
@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
+import { getUnitPricingPolicies, getUnitRateModifiers } from "@/lib/pricingPolicy";
+import { getUnitOperatingHours } from "@/lib/unitOperatingHours";
+import { isWindowOpen } from "@/lib/operatingHours";
 import { z } from "zod";
 
 // ---------------------------------------------------------------------------
@@ -17,7 +20,10 @@ const querySchema = z.object({
 // GET /api/availability
 //
 // Returns available unit IDs for a car model within a time range.
-// Excludes units with overlapping CONFIRMED bookings or blackouts.
+// Excludes units with overlapping bookings (including the
+// turnaround buffer before and after them), blackouts or another
+// customer's unexpired hold, units closed at pick-up or return (operating
+// hours), and units whose pricing policy requires a longer minimum rental.
 // ---------------------------------------------------------------------------
 
 export async function GET(request: NextRequest) {
@@ -52,14 +58,8 @@ export async function GET(request: NextRequest) {
     );
   }
 
-  // Minimum 1 hour
-  const durationMs = endDate.getTime() - startDate.getTime();
-  if (durationMs < 60 * 60 * 1000) {
-    return NextResponse.json(
-      { error: "Minimum booking duration is 1 hour" },
-      { status: 400 }
-    );
-  }
+  // Minimum duration is per unit (pricing policy) — checked below
+  const durationMinutes = (endDate.getTime() - startDate.getTime()) / 60_000;
 
   // 30-minute boundary check
   const startMinutes = startDate.getUTCMinutes();
@@ -81,7 +81,7 @@ export async function GET(request: NextRequest) {
   // Build query for active car units for this model
   let unitsQuery = supabase
     .from("car_units")
-    .select("id, display_name, color, color_hex, credits_per_hour, business_id")
+    .select("id, display_name, color, color_hex, credits_per_hour, deposit_credits, business_id")
     .eq("car_model_id", modelId)
     .eq("active", true);
 
@@ -111,18 +111,14 @@ export async function GET(request: NextRequest) {
 
   const unitIds = units.map((u) => u.id);
 
-  // Find units with overlapping CONFIRMED bookings
-  const { data: overlappingBookings } = await supabase
-    .from("bookings")
-    .select("car_unit_id")
-    .in("car_unit_id", unitIds)
-    .eq("status", "CONFIRMED")
-    .lt("start_ts", end) // booking starts before our end
-    .gt("end_ts", start); // booking ends after our start
+  // Units with an overlapping booking, turnaround buffers included
+  const { data: bookedRows } = await supabase.rpc("booked_unit_ids", {
+    p_unit_ids: unitIds,
+    p_start_ts: start,
+    p_end_ts: end,
+  });
 
-  const bookedUnitIds = new Set(
-    (overlappingBookings ?? []).map((b) => b.car_unit_id)
-  );
+  const bookedUnitIds = new Set((bookedRows ?? []) as string[]);
 
   // Find units with overlapping blackouts
   const { data: overlappingBlackouts } = await supabase
@@ -136,11 +132,40 @@ export async function GET(request: NextRequest) {
     (overlappingBlackouts ?? []).map((b) => b.car_unit_id)
   );
 
+  // Units another customer is holding while they finish booking
+  const { data: heldRows } = await supabase.rpc("held_unit_ids", {
+    p_unit_ids: unitIds,
+    p_start_ts: start,
+    p_end_ts: end,
+  });
+
+  const heldUnitIds = new Set((heldRows ?? []) as string[]);
+
+  // Units whose operating hours don't cover pick-up and return
+  const operatingHours = await getUnitOperatingHours(unitIds);
+  const closedUnitIds = new Set(
+    unitIds.filter((id) => !isWindowOpen(operatingHours.get(id) ?? [], start, end))
+  );
+
+  // Resolve each unit's pricing policy (minimum duration + quote rules)
+  const policies = await getUnitPricingPolicies(unitIds);
+  const minDurationMinutes = Math.min(
+    ...unitIds.map((id) => policies.get(id)!.minDurationMinutes)
+  );
+
   // Filter to available units
   const availableUnits = units.filter(
-    (u) => !bookedUnitIds.has(u.id) && !blackedOutUnitIds.has(u.id)
+    (u) =>
+      !bookedUnitIds.has(u.id) &&
+      !blackedOutUnitIds.has(u.id) &&
+      !heldUnitIds.has(u.id) &&
+      !closedUnitIds.has(u.id) &&
+      durationMinutes >= policies.get(u.id)!.minDurationMinutes
   );
 
+  // Surge modifiers so the client quote matches what create_booking charges
+  const rateModifiers = await getUnitRateModifiers(availableUnits);
+
   return NextResponse.json({
     availableUnitIds: availableUnits.map((u) => u.id),
     availableUnits: availableUnits.map((u) => ({
@@ -149,14 +174,29 @@ export async function GET(request: NextRequest) {
       color: u.color,
       colorHex: u.color_hex,
       creditsPerHour: u.credits_per_hour,
+      depositCredits: u.deposit_credits,
       businessId: u.business_id,
+      pricingPolicy: policies.get(u.id),
+      rateModifiers: rateModifiers.get(u.id) ?? [],
     })),
     totalUnits: units.length,
     availableCount: availableUnits.length,
-    // Also return blocked intervals for calendar display
+    minDurationMinutes,
+    // Why the other units are unavailable (unit IDs per reason); the
+    // intervals themselves come from /api/availability/timeline
+    unavailableUnitIds: {
+      booked: Array.from(bookedUnitIds),
+      blackedOut: Array.from(blackedOutUnitIds),
+      held: Array.from(heldUnitIds),
+      closed: Array.from(closedUnitIds),
+    },
+    // Deprecated: the same unit IDs under their original names, kept for
+    // existing clients. Read unavailableUnitIds instead.
     blockedIntervals: {
-      bookings: (overlappingBookings ?? []).map((b) => b.car_unit_id),
-      blackouts: (overlappingBlackouts ?? []).map((b) => b.car_unit_id),
+      bookings: Array.from(bookedUnitIds),
+      blackouts: Array.from(blackedOutUnitIds),
+      holds: Array.from(heldUnitIds),
+      closed: Array.from(closedUnitIds),
     },
   });
 }
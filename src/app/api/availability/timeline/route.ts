@@ -0,0 +1,155 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getUnitPricingPolicies } from "@/lib/pricingPolicy";
+import { getUnitOperatingHours } from "@/lib/unitOperatingHours";
+import { closedIntervals } from "@/lib/operatingHours";
+import type { BusyInterval, BusyIntervalType, UnitTimeline } from "@/lib/availabilityTimeline";
+import { z } from "zod";
+
+// Longest range one request may cover (a week view plus the rental length)
+const MAX_RANGE_DAYS = 14;
+
+// ---------------------------------------------------------------------------
+// Validation schema
+// ---------------------------------------------------------------------------
+
+const querySchema = z.object({
+  modelId: z.string().uuid("Invalid model ID"),
+  from: z.string().datetime("Invalid range start"),
+  to: z.string().datetime("Invalid range end"),
+  color: z.string().max(50).optional(),
+});
+
+// ---------------------------------------------------------------------------
+// GET /api/availability/timeline
+//
+// Returns, for every active unit of a car model, its busy intervals within
+// [from, to): bookings, turnaround after them, blackouts, other customers'
+// holds and times outside operating hours — for the calendar grid and the
+// "nearest free window" suggestion. Only times are exposed, never who booked.
+// ---------------------------------------------------------------------------
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+
+  const parsed = querySchema.safeParse({
+    modelId: searchParams.get("modelId") ?? "",
+    from: searchParams.get("from") ?? "",
+    to: searchParams.get("to") ?? "",
+    color: searchParams.get("color") ?? undefined,
+  });
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues[0].message },
+      { status: 400 }
+    );
+  }
+
+  const { modelId, from, to, color } = parsed.data;
+
+  const rangeMs = new Date(to).getTime() - new Date(from).getTime();
+  if (rangeMs <= 0) {
+    return NextResponse.json(
+      { error: "Range end must be after its start" },
+      { status: 400 }
+    );
+  }
+  if (rangeMs > MAX_RANGE_DAYS * 24 * 60 * 60 * 1000) {
+    return NextResponse.json(
+      { error: `Range can be at most ${MAX_RANGE_DAYS} days` },
+      { status: 400 }
+    );
+  }
+
+  const supabase = await createClient();
+
+  let unitsQuery = supabase
+    .from("car_units")
+    .select("id, display_name, color, color_hex")
+    .eq("car_model_id", modelId)
+    .eq("active", true)
+    .order("created_at", { ascending: true });
+
+  if (color) {
+    unitsQuery = unitsQuery.ilike("color", color);
+  }
+
+  const { data: units, error: unitsError } = await unitsQuery;
+
+  if (unitsError) {
+    console.error("Timeline query error:", unitsError);
+    return NextResponse.json(
+      { error: "Failed to fetch units" },
+      { status: 500 }
+    );
+  }
+
+  if (!units || units.length === 0) {
+    return NextResponse.json({ from, to, units: [] });
+  }
+
+  const unitIds = units.map((u) => u.id);
+
+  // Bookings, turnaround, blackouts and holds — across all customers
+  const { data: busyRows, error: busyError } = await supabase.rpc("unit_busy_intervals", {
+    p_unit_ids: unitIds,
+    p_from: from,
+    p_to: to,
+  });
+
+  if (busyError) {
+    console.error("Timeline intervals error:", busyError);
+    return NextResponse.json(
+      { error: "Failed to fetch busy intervals" },
+      { status: 500 }
+    );
+  }
+
+  const { data: turnaroundRows } = await supabase.rpc("unit_turnarounds", {
+    p_unit_ids: unitIds,
+  });
+
+  const turnarounds = new Map(
+    ((turnaroundRows ?? []) as { car_unit_id: string; turnaround_minutes: number }[]).map(
+      (r) => [r.car_unit_id, r.turnaround_minutes]
+    )
+  );
+
+  const operatingHours = await getUnitOperatingHours(unitIds);
+  const policies = await getUnitPricingPolicies(unitIds);
+
+  const intervalsByUnit = new Map<string, BusyInterval[]>();
+  for (const row of (busyRows ?? []) as {
+    car_unit_id: string;
+    kind: BusyIntervalType;
+    start_ts: string;
+    end_ts: string;
+  }[]) {
+    const list = intervalsByUnit.get(row.car_unit_id) ?? [];
+    list.push({
+      type: row.kind,
+      start: new Date(row.start_ts).toISOString(),
+      end: new Date(row.end_ts).toISOString(),
+    });
+    intervalsByUnit.set(row.car_unit_id, list);
+  }
+
+  const timeline: UnitTimeline[] = units.map((u) => {
+    const hours = operatingHours.get(u.id) ?? [];
+    return {
+      id: u.id,
+      displayName: u.display_name,
+      color: u.color,
+      colorHex: u.color_hex,
+      turnaroundMinutes: turnarounds.get(u.id) ?? 0,
+      minDurationMinutes: policies.get(u.id)!.minDurationMinutes,
+      operatingHours: hours,
+      intervals: [
+        ...(intervalsByUnit.get(u.id) ?? []),
+        ...closedIntervals(hours, from, to).map((c) => ({ type: "CLOSED" as const, ...c })),
+      ],
+    };
+  });
+
+  return NextResponse.json({ from, to, units: timeline });
+}
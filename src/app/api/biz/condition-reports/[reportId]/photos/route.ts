@@ -0,0 +1,267 @@
+import { NextRequest, NextResponse } from "next/server";
+import { randomUUID } from "crypto";
+import { createClient } from "@/lib/supabase/server";
+import { createServiceRoleClient } from "@/lib/supabase/serviceRoleClient";
+import { getProfile } from "@/lib/auth/getProfile";
+import { rateLimit } from "@/lib/rateLimit";
+import { generateThumbnail } from "@/lib/images/generateThumbnail";
+import {
+  conditionReportEditable,
+  CONDITION_THUMB_SIZE,
+  MAX_CONDITION_PHOTOS,
+  type ConditionReportKind,
+} from "@/lib/conditionReport";
+import type { BookingStatus } from "@/lib/bookingLifecycle";
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+const BUCKET = "car-images";
+const MAX_SIZE_BYTES = 5 * 1024 * 1024; // 5 MB
+const ALLOWED_TYPES = ["image/png", "image/jpeg", "image/jpg", "image/webp"];
+
+// ---------------------------------------------------------------------------
+// POST /api/biz/condition-reports/[reportId]/photos
+//
+// Add a photo to a booking's condition report.
+// - Validates the report's booking is on one of the business's units and
+//   the report can still be edited (conditionReportEditable; the insert
+//   trigger from 20250209000043 enforces the same rule in the database)
+// - Uploads original to conditions/{booking_id}/{report_id}/{photo_id}.{ext}
+// - Generates a 256x256 webp thumbnail next to it ({photo_id}.thumb.webp)
+// - Inserts condition_report_photos row
+// - Writes audit_log
+//
+// Photos are only ever served through signed URLs (getImageUrl), never the
+// public /api/storage proxy.
+// ---------------------------------------------------------------------------
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ reportId: string }> }
+) {
+  const { reportId } = await params;
+
+  // Validate UUID format
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+  if (!uuidRegex.test(reportId)) {
+    return NextResponse.json(
+      { error: "Invalid report ID" },
+      { status: 400 }
+    );
+  }
+
+  // Authenticate
+  const profile = await getProfile();
+  if (!profile) {
+    return NextResponse.json(
+      { error: "Not authenticated" },
+      { status: 401 }
+    );
+  }
+
+  if (profile.role !== "BUSINESS" || !profile.business_id) {
+    return NextResponse.json(
+      { error: "Only business users can add condition photos" },
+      { status: 403 }
+    );
+  }
+
+  const rl = rateLimit(`${profile.id}:condition_photo`, 30, 60_000);
+  if (!rl.ok) {
+    return NextResponse.json(
+      { error: "Too many uploads. Please wait." },
+      { status: 429 }
+    );
+  }
+
+  // Verify the report exists and its booking is on one of this business's
+  // units (RLS hides other businesses' reports)
+  const supabase = await createClient();
+  const { data: report, error: reportError } = await supabase
+    .from("booking_condition_reports")
+    .select(
+      "id, kind, booking_id, bookings ( status, returned_at, car_units ( business_id ) ), condition_report_photos ( count )"
+    )
+    .eq("id", reportId)
+    .single();
+
+  if (reportError || !report) {
+    return NextResponse.json(
+      { error: "Report not found" },
+      { status: 404 }
+    );
+  }
+
+  const booking = report.bookings as unknown as {
+    status: BookingStatus;
+    returned_at: string | null;
+    car_units: { business_id: string } | null;
+  } | null;
+
+  if (booking?.car_units?.business_id !== profile.business_id) {
+    return NextResponse.json(
+      { error: "This booking is not for one of your units" },
+      { status: 403 }
+    );
+  }
+
+  // A damage claim locks the return report it relies on as evidence
+  const { count: claimCount } = await supabase
+    .from("damage_claims")
+    .select("id", { count: "exact", head: true })
+    .eq("booking_id", report.booking_id);
+
+  if (
+    !conditionReportEditable(
+      report.kind as ConditionReportKind,
+      booking.status,
+      booking.returned_at ? new Date(booking.returned_at) : null,
+      (claimCount ?? 0) > 0
+    )
+  ) {
+    return NextResponse.json(
+      { error: "This report can no longer be changed" },
+      { status: 409 }
+    );
+  }
+
+  const photoCount =
+    (report.condition_report_photos as unknown as { count: number }[])[0]?.count ?? 0;
+  if (photoCount >= MAX_CONDITION_PHOTOS) {
+    return NextResponse.json(
+      { error: `A report can have at most ${MAX_CONDITION_PHOTOS} photos` },
+      { status: 400 }
+    );
+  }
+
+  // Parse form data
+  let formData: FormData;
+  try {
+    formData = await request.formData();
+  } catch {
+    return NextResponse.json(
+      { error: "Invalid form data" },
+      { status: 400 }
+    );
+  }
+
+  const file = formData.get("file");
+  if (!file || !(file instanceof File)) {
+    return NextResponse.json(
+      { error: "No file provided" },
+      { status: 400 }
+    );
+  }
+
+  // Validate file type
+  if (!ALLOWED_TYPES.includes(file.type)) {
+    return NextResponse.json(
+      { error: "Invalid file type. Allowed: PNG, JPEG, WEBP" },
+      { status: 400 }
+    );
+  }
+
+  // Validate file size
+  if (file.size > MAX_SIZE_BYTES) {
+    return NextResponse.json(
+      { error: "File too large. Maximum 5 MB" },
+      { status: 400 }
+    );
+  }
+
+  // Read file into buffer
+  const buffer = Buffer.from(await file.arrayBuffer());
+
+  // Determine file extension
+  const ext = file.type === "image/png" ? "png"
+            : file.type === "image/webp" ? "webp"
+            : "jpg";
+
+  // Generate paths
+  const photoId = randomUUID();
+  const folder = `conditions/${report.booking_id}/${reportId}`;
+  const originalPath = `${folder}/${photoId}.${ext}`;
+  const thumbPath = `${folder}/${photoId}.thumb.webp`;
+
+  // Generate thumbnail first so a bad image never leaves an orphan upload
+  let thumbBuffer: Buffer;
+  try {
+    thumbBuffer = await generateThumbnail(buffer, CONDITION_THUMB_SIZE);
+  } catch (err) {
+    console.error("Thumbnail generation error:", err);
+    return NextResponse.json(
+      { error: "Could not read this image" },
+      { status: 400 }
+    );
+  }
+
+  // Use service role client for storage operations
+  const serviceClient = createServiceRoleClient();
+
+  const { error: uploadError } = await serviceClient.storage
+    .from(BUCKET)
+    .upload(originalPath, buffer, { contentType: file.type });
+
+  if (uploadError) {
+    console.error("Original upload error:", uploadError);
+    return NextResponse.json(
+      { error: "Failed to upload photo" },
+      { status: 500 }
+    );
+  }
+
+  const { error: thumbUploadError } = await serviceClient.storage
+    .from(BUCKET)
+    .upload(thumbPath, thumbBuffer, { contentType: "image/webp" });
+
+  if (thumbUploadError) {
+    console.error("Thumbnail upload error:", thumbUploadError);
+    await serviceClient.storage.from(BUCKET).remove([originalPath]);
+    return NextResponse.json(
+      { error: "Failed to upload thumbnail" },
+      { status: 500 }
+    );
+  }
+
+  const { error: insertError } = await serviceClient
+    .from("condition_report_photos")
+    .insert({
+      id: photoId,
+      report_id: reportId,
+      image_path: originalPath,
+      thumb_path: thumbPath,
+      uploaded_by: profile.id,
+    });
+
+  if (insertError) {
+    console.error("DB insert error:", insertError);
+    await serviceClient.storage.from(BUCKET).remove([originalPath, thumbPath]);
+    return NextResponse.json(
+      { error: "Failed to save photo" },
+      { status: 500 }
+    );
+  }
+
+  // Audit log
+  await serviceClient.from("audit_log").insert({
+    actor_user_id: profile.id,
+    action: "condition_report.photo_added",
+    entity_type: "booking",
+    entity_id: report.booking_id,
+    metadata: {
+      report_id: reportId,
+      kind: report.kind,
+      photo_id: photoId,
+      image_path: originalPath,
+      file_size: file.size,
+      file_type: file.type,
+    },
+  });
+
+  return NextResponse.json({
+    success: true,
+    photoId,
+  });
+}
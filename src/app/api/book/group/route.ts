@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getProfile } from "@/lib/auth/getProfile";
+import { z } from "zod";
+
+// ---------------------------------------------------------------------------
+// Validation schema
+// ---------------------------------------------------------------------------
+
+const groupBookingSchema = z.object({
+  modelId: z.string().uuid("Invalid model ID"),
+  quantity: z
+    .number()
+    .int("Quantity must be a whole number")
+    .min(2, "A group booking is at least 2 cars")
+    .max(10, "A group booking is at most 10 cars"),
+  startTs: z.string().datetime("Invalid start timestamp"),
+  endTs: z.string().datetime("Invalid end timestamp"),
+  color: z.string().trim().max(50).optional(),
+  sameColor: z.boolean().optional(),
+});
+
+// ---------------------------------------------------------------------------
+// POST /api/book/group
+//
+// Books several units of one car model for the same window by calling the
+// create_group_booking RPC. All units are booked or none are.
+// ---------------------------------------------------------------------------
+
+export async function POST(request: NextRequest) {
+  const profile = await getProfile();
+
+  if (!profile) {
+    return NextResponse.json(
+      { error: "You must be logged in to book" },
+      { status: 401 }
+    );
+  }
+
+  if (profile.role !== "CUSTOMER") {
+    return NextResponse.json(
+      { error: "Only customers can create bookings" },
+      { status: 403 }
+    );
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Invalid JSON body" },
+      { status: 400 }
+    );
+  }
+
+  const parsed = groupBookingSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues[0].message },
+      { status: 400 }
+    );
+  }
+
+  const { modelId, quantity, startTs, endTs, color, sameColor } = parsed.data;
+
+  const supabase = await createClient();
+  const { data, error } = await supabase.rpc("create_group_booking", {
+    p_car_model_id: modelId,
+    p_quantity: quantity,
+    p_start_ts: startTs,
+    p_end_ts: endTs,
+    p_color: color || null,
+    p_same_color: sameColor ?? false,
+  });
+
+  if (error) {
+    console.error("Group booking RPC error:", error);
+    return NextResponse.json(
+      { error: error.message || "Booking failed" },
+      { status: 400 }
+    );
+  }
+
+  const result = data as {
+    group_id: string;
+    booking_ids: string[];
+    color: string | null;
+    credits_charged: number;
+    balance_after: number;
+  };
+
+  return NextResponse.json({
+    groupId: result.group_id,
+    bookingIds: result.booking_ids,
+    color: result.color,
+    creditsCharged: result.credits_charged,
+    balanceAfter: result.balance_after,
+  });
+}
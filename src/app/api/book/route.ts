@@ -11,13 +11,16 @@ const bookingSchema = z.object({
   carUnitId: z.string().uuid("Invalid unit ID"),
   startTs: z.string().datetime("Invalid start timestamp"),
   endTs: z.string().datetime("Invalid end timestamp"),
+  promoCode: z.string().trim().max(32, "Invalid promo code").optional(),
+  holdId: z.string().uuid("Invalid hold ID").optional(),
 });
 
 // ---------------------------------------------------------------------------
 // POST /api/book
 //
 // Creates a booking by calling the create_booking RPC.
-// The RPC handles all validation (availability, balance, etc.).
+// The RPC handles all validation (availability, holds, balance, promo code,
+// etc.) and converts the customer's hold, if any, into the booking.
 // ---------------------------------------------------------------------------
 
 export async function POST(request: NextRequest) {
@@ -55,7 +58,7 @@ export async function POST(request: NextRequest) {
     );
   }
 
-  const { carUnitId, startTs, endTs } = parsed.data;
+  const { carUnitId, startTs, endTs, promoCode, holdId } = parsed.data;
 
   const supabase = await createClient();
 
@@ -66,6 +69,8 @@ export async function POST(request: NextRequest) {
     p_car_unit_id: carUnitId,
     p_start_ts: startTs,
     p_end_ts: endTs,
+    p_promo_code: promoCode || null,
+    p_hold_id: holdId ?? null,
   });
 
   if (error) {
@@ -80,11 +85,13 @@ export async function POST(request: NextRequest) {
     booking_id: string;
     credits_charged: number;
     balance_after: number;
+    discount_credits: number;
   };
 
   return NextResponse.json({
     bookingId: result.booking_id,
     creditsCharged: result.credits_charged,
     balanceAfter: result.balance_after,
+    discountCredits: result.discount_credits,
   });
 }
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getProfile } from "@/lib/auth/getProfile";
+import { rateLimit } from "@/lib/rateLimit";
+import { bookingSeriesSchema, type SeriesOccurrence } from "@/lib/bookingSeries";
+
+// ---------------------------------------------------------------------------
+// POST /api/book/series/preview
+//
+// Expands a recurring booking into its occurrences via the
+// preview_booking_series RPC, flagging the ones that conflict with existing
+// bookings, blackouts or holds. Nothing is booked.
+// ---------------------------------------------------------------------------
+
+export async function POST(request: NextRequest) {
+  const profile = await getProfile();
+
+  if (!profile) {
+    return NextResponse.json(
+      { error: "You must be logged in to book" },
+      { status: 401 }
+    );
+  }
+
+  if (profile.role !== "CUSTOMER") {
+    return NextResponse.json(
+      { error: "Only customers can create bookings" },
+      { status: 403 }
+    );
+  }
+
+  const rl = rateLimit(`${profile.id}:series_preview`, 30, 60_000);
+  if (!rl.ok) {
+    return NextResponse.json(
+      { error: "Too many requests. Slow down." },
+      { status: 429 }
+    );
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Invalid JSON body" },
+      { status: 400 }
+    );
+  }
+
+  const parsed = bookingSeriesSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues[0].message },
+      { status: 400 }
+    );
+  }
+
+  const { unitId, startTs, endTs, frequency, occurrences, untilDate } = parsed.data;
+
+  const supabase = await createClient();
+  const { data, error } = await supabase.rpc("preview_booking_series", {
+    p_car_unit_id: unitId,
+    p_start_ts: startTs,
+    p_end_ts: endTs,
+    p_frequency: frequency,
+    p_occurrences: occurrences ?? null,
+    p_until_date: untilDate ?? null,
+  });
+
+  if (error) {
+    return NextResponse.json(
+      { error: error.message || "Could not preview this series" },
+      { status: 400 }
+    );
+  }
+
+  const rows = (data ?? []) as {
+    occurrence: number;
+    start_ts: string;
+    end_ts: string;
+    conflict: SeriesOccurrence["conflict"];
+    credits: number;
+  }[];
+
+  const occurrencesOut: SeriesOccurrence[] = rows.map((r) => ({
+    occurrence: r.occurrence,
+    startTs: r.start_ts,
+    endTs: r.end_ts,
+    conflict: r.conflict,
+    credits: r.credits,
+  }));
+
+  return NextResponse.json({ occurrences: occurrencesOut });
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getProfile } from "@/lib/auth/getProfile";
+import { bookingSeriesSchema } from "@/lib/bookingSeries";
+
+// ---------------------------------------------------------------------------
+// POST /api/book/series
+//
+// Books a recurring series on one car unit by calling the
+// create_booking_series RPC. Every non-conflicting occurrence is booked in
+// one transaction; conflicting ones are skipped and returned.
+// ---------------------------------------------------------------------------
+
+export async function POST(request: NextRequest) {
+  const profile = await getProfile();
+
+  if (!profile) {
+    return NextResponse.json(
+      { error: "You must be logged in to book" },
+      { status: 401 }
+    );
+  }
+
+  if (profile.role !== "CUSTOMER") {
+    return NextResponse.json(
+      { error: "Only customers can create bookings" },
+      { status: 403 }
+    );
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Invalid JSON body" },
+      { status: 400 }
+    );
+  }
+
+  const parsed = bookingSeriesSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues[0].message },
+      { status: 400 }
+    );
+  }
+
+  const { unitId, startTs, endTs, frequency, occurrences, untilDate } = parsed.data;
+
+  const supabase = await createClient();
+  const { data, error } = await supabase.rpc("create_booking_series", {
+    p_car_unit_id: unitId,
+    p_start_ts: startTs,
+    p_end_ts: endTs,
+    p_frequency: frequency,
+    p_occurrences: occurrences ?? null,
+    p_until_date: untilDate ?? null,
+  });
+
+  if (error) {
+    console.error("Series booking RPC error:", error);
+    return NextResponse.json(
+      { error: error.message || "Booking failed" },
+      { status: 400 }
+    );
+  }
+
+  const result = data as {
+    series_id: string;
+    booked: { occurrence: number; booking_id: string }[];
+    skipped: { occurrence: number; conflict: string }[];
+    credits_charged: number;
+    balance_after: number;
+  };
+
+  return NextResponse.json({
+    seriesId: result.series_id,
+    bookingIds: result.booked.map((b) => b.booking_id),
+    skippedOccurrences: result.skipped.map((s) => s.occurrence),
+    creditsCharged: result.credits_charged,
+    balanceAfter: result.balance_after,
+  });
+}
@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import {
+  CATALOG_PAGE_SIZE,
+  rentalWindowError,
+  windowSearchArgs,
+  type WindowSearchRow,
+} from "@/lib/carCatalog";
+import { z } from "zod";
+
+// ---------------------------------------------------------------------------
+// Validation schema
+// ---------------------------------------------------------------------------
+
+const querySchema = z.object({
+  start: z.string().datetime("Invalid start timestamp"),
+  end: z.string().datetime("Invalid end timestamp"),
+  page: z.coerce.number().int().min(1, "Invalid page").default(1),
+  manufacturer: z.string().max(100).optional(),
+  class: z.string().max(10).optional(),
+  source_game: z.string().max(100).optional(),
+  q: z.string().max(100).optional(),
+});
+
+// ---------------------------------------------------------------------------
+// GET /api/car-models/available?start=...&end=...[&page&manufacturer&class&source_game&q]
+//
+// Car models with at least one unit free for the whole window (bookings
+// with turnaround, blackouts, holds, operating hours and minimum duration
+// all checked in SQL), with the free unit count. Paginated after filtering,
+// so every page is full and `total` counts matching models only.
+// ---------------------------------------------------------------------------
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+
+  const parsed = querySchema.safeParse({
+    start: searchParams.get("start") ?? "",
+    end: searchParams.get("end") ?? "",
+    page: searchParams.get("page") ?? undefined,
+    manufacturer: searchParams.get("manufacturer") ?? undefined,
+    class: searchParams.get("class") ?? undefined,
+    source_game: searchParams.get("source_game") ?? undefined,
+    q: searchParams.get("q") ?? undefined,
+  });
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues[0].message },
+      { status: 400 }
+    );
+  }
+
+  const { start, end, page, ...filters } = parsed.data;
+
+  const windowError = rentalWindowError(new Date(start), new Date(end));
+  if (windowError) {
+    return NextResponse.json({ error: windowError }, { status: 400 });
+  }
+
+  const supabase = await createClient();
+  const offset = (page - 1) * CATALOG_PAGE_SIZE;
+
+  const { data: matches, error } = await supabase.rpc(
+    "search_car_models_free_between",
+    windowSearchArgs({ startTs: start, endTs: end }, filters, offset)
+  );
+
+  if (error) {
+    console.error("Window search error:", error);
+    return NextResponse.json(
+      { error: "Search failed" },
+      { status: 500 }
+    );
+  }
+
+  const rows = (matches ?? []) as WindowSearchRow[];
+  const total = rows[0]?.total_count ?? 0;
+
+  // Model details for this page (the search returns ids in catalog order)
+  const { data: models } =
+    rows.length > 0
+      ? await supabase
+          .from("car_models_with_price")
+          .select("id, display_name, manufacturer, model, year, class, stat_pi, starting_price")
+          .in("id", rows.map((r) => r.car_model_id))
+      : { data: [] };
+
+  const modelsById = new Map(
+    ((models ?? []) as {
+      id: string;
+      display_name: string;
+      manufacturer: string | null;
+      model: string | null;
+      year: number | null;
+      class: string | null;
+      stat_pi: number | null;
+      starting_price: number | null;
+    }[]).map((m) => [m.id, m])
+  );
+
+  return NextResponse.json({
+    models: rows.flatMap((r) => {
+      const m = modelsById.get(r.car_model_id);
+      if (!m) return [];
+      return [{
+        id: m.id,
+        displayName: m.display_name,
+        manufacturer: m.manufacturer,
+        model: m.model,
+        year: m.year,
+        class: m.class,
+        pi: m.stat_pi,
+        startingPrice: m.starting_price,
+        freeUnitCount: r.free_unit_count,
+      }];
+    }),
+    page,
+    pageSize: CATALOG_PAGE_SIZE,
+    total,
+    totalPages: Math.ceil(total / CATALOG_PAGE_SIZE),
+  });
+}
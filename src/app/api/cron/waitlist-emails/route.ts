@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from "next/server";
+import { sendPendingWaitlistEmails } from "@/lib/waitlist";
+
+/**
+ * GET /api/cron/waitlist-emails
+ *
+ * Scheduled job (vercel.json crons): sends the waitlist emails still
+ * pending — entries notified by database-only paths (deposit release,
+ * blackout batches, reassignment fallback) and retries of failed sends.
+ *
+ * Requires `Authorization: Bearer <CRON_SECRET>` (Vercel Cron sends it);
+ * refused when CRON_SECRET is not set.
+ */
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const summary = await sendPendingWaitlistEmails();
+  return NextResponse.json(summary);
+}
@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getProfile } from "@/lib/auth/getProfile";
+import { rateLimit } from "@/lib/rateLimit";
+import { z } from "zod";
+
+// ---------------------------------------------------------------------------
+// Validation schemas
+// ---------------------------------------------------------------------------
+
+const holdSchema = z.object({
+  carUnitId: z.string().uuid("Invalid unit ID"),
+  startTs: z.string().datetime("Invalid start timestamp"),
+  endTs: z.string().datetime("Invalid end timestamp"),
+});
+
+const releaseSchema = z.object({
+  holdId: z.string().uuid("Invalid hold ID"),
+});
+
+async function readJson(request: NextRequest): Promise<unknown> {
+  try {
+    return await request.json();
+  } catch {
+    return null;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// POST /api/hold
+//
+// Holds a car unit window for the current customer (10 minutes) via the
+// place_booking_hold RPC. ScheduleCalendar calls this when it offers a unit;
+// the hold id is then passed to /api/book. A new hold replaces the
+// customer's previous one.
+// ---------------------------------------------------------------------------
+
+export async function POST(request: NextRequest) {
+  const profile = await getProfile();
+
+  if (!profile || profile.role !== "CUSTOMER") {
+    return NextResponse.json(
+      { error: "Only customers can hold units" },
+      { status: 401 }
+    );
+  }
+
+  const rl = rateLimit(`${profile.id}:booking_hold`, 30, 60_000);
+  if (!rl.ok) {
+    return NextResponse.json(
+      { error: "Too many requests. Slow down." },
+      { status: 429 }
+    );
+  }
+
+  const body = await readJson(request);
+  if (body === null) {
+    return NextResponse.json(
+      { error: "Invalid JSON body" },
+      { status: 400 }
+    );
+  }
+
+  const parsed = holdSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues[0].message },
+      { status: 400 }
+    );
+  }
+
+  const { carUnitId, startTs, endTs } = parsed.data;
+
+  const supabase = await createClient();
+  const { data, error } = await supabase.rpc("place_booking_hold", {
+    p_car_unit_id: carUnitId,
+    p_start_ts: startTs,
+    p_end_ts: endTs,
+  });
+
+  // Someone else booked or holds the unit — the client re-checks availability
+  if (error) {
+    return NextResponse.json(
+      { error: error.message || "Could not hold this unit" },
+      { status: 409 }
+    );
+  }
+
+  const result = data as { hold_id: string; expires_at: string };
+
+  return NextResponse.json({
+    holdId: result.hold_id,
+    expiresAt: result.expires_at,
+  });
+}
+
+// ---------------------------------------------------------------------------
+// DELETE /api/hold
+//
+// Releases one of the current customer's holds (best effort; holds also
+// expire on their own).
+// ---------------------------------------------------------------------------
+
+export async function DELETE(request: NextRequest) {
+  const profile = await getProfile();
+
+  if (!profile) {
+    return NextResponse.json(
+      { error: "Not authenticated" },
+      { status: 401 }
+    );
+  }
+
+  const parsed = releaseSchema.safeParse(await readJson(request));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues[0].message },
+      { status: 400 }
+    );
+  }
+
+  const supabase = await createClient();
+  const { error } = await supabase.rpc("release_booking_hold", {
+    p_hold_id: parsed.data.holdId,
+  });
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+
+  return NextResponse.json({ released: true });
+}
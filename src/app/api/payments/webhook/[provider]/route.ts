@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getPaymentProvider } from "@/lib/payments";
+import { applyPaymentEvent } from "@/lib/payments/fulfillment";
+
+// ---------------------------------------------------------------------------
+// POST /api/payments/webhook/[provider]
+//
+// Payment provider callbacks for credit purchases.
+// - Verifies the delivery with the provider (signature) and parses it
+// - payment.succeeded → fulfill_credit_purchase (credits the ledger once;
+//   redeliveries are no-ops)
+// - payment.failed → fail_credit_purchase
+//
+// Not behind a login: the signature is the authentication. An event the
+// RPC rejects (wrong session or amount) gets a 422 and is logged; anything
+// else is a 500 so the provider delivers it again.
+// ---------------------------------------------------------------------------
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ provider: string }> }
+) {
+  const { provider: name } = await params;
+
+  const provider = getPaymentProvider(name);
+  if (!provider) {
+    return NextResponse.json(
+      { error: "Unknown payment provider" },
+      { status: 404 }
+    );
+  }
+
+  const rawBody = await request.text();
+  const result = await provider.parseWebhook(rawBody, request.headers);
+
+  if (!result.ok) {
+    return NextResponse.json({ error: result.error }, { status: 400 });
+  }
+
+  const event = result.event;
+  if (!event) {
+    return NextResponse.json({ received: true });
+  }
+
+  const applied = await applyPaymentEvent(provider.name, event);
+  if (!applied.ok) {
+    return NextResponse.json(
+      { error: "Could not process the event" },
+      { status: applied.rejected ? 422 : 500 }
+    );
+  }
+
+  return NextResponse.json({ received: true, result: applied.result });
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getProfile } from "@/lib/auth/getProfile";
+import { rateLimit } from "@/lib/rateLimit";
+import { z } from "zod";
+
+// ---------------------------------------------------------------------------
+// Validation schema
+// ---------------------------------------------------------------------------
+
+const promoSchema = z.object({
+  code: z.string().trim().min(1, "Enter a promo code").max(32, "Invalid promo code"),
+  carUnitId: z.string().uuid("Invalid unit ID"),
+});
+
+// ---------------------------------------------------------------------------
+// POST /api/promo
+//
+// Checks a promo code for the current customer and car unit via the
+// check_promo_code RPC and returns its discount so the booking form can
+// show the discounted quote. create_booking re-validates on booking.
+// ---------------------------------------------------------------------------
+
+export async function POST(request: NextRequest) {
+  const profile = await getProfile();
+
+  if (!profile) {
+    return NextResponse.json(
+      { error: "You must be logged in to use a promo code" },
+      { status: 401 }
+    );
+  }
+
+  // Codes are guessable — keep lookups slow
+  const rl = rateLimit(`${profile.id}:promo_check`, 10, 60_000);
+  if (!rl.ok) {
+    return NextResponse.json(
+      { error: "Too many attempts. Try again in a minute." },
+      { status: 429 }
+    );
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Invalid JSON body" },
+      { status: 400 }
+    );
+  }
+
+  const parsed = promoSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues[0].message },
+      { status: 400 }
+    );
+  }
+
+  const supabase = await createClient();
+  const { data, error } = await supabase.rpc("check_promo_code", {
+    p_code: parsed.data.code,
+    p_car_unit_id: parsed.data.carUnitId,
+  });
+
+  if (error) {
+    return NextResponse.json(
+      { error: error.message || "Invalid promo code" },
+      { status: 400 }
+    );
+  }
+
+  const result = data as {
+    code: string;
+    discount_type: "PERCENT" | "FIXED";
+    discount_value: number;
+  };
+
+  return NextResponse.json({
+    code: result.code,
+    discountType: result.discount_type,
+    discountValue: result.discount_value,
+  });
+}
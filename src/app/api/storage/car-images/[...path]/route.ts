@@ -3,6 +3,7 @@ import { createServiceRoleClient } from "@/lib/supabase/serviceRoleClient";
 
 const BUCKET = "car-images";
 const CACHE_CONTROL = "public, max-age=3600"; // 1 hour cache
+const PUBLIC_FOLDERS = ["originals", "thumbs"];
 
 /**
  * Proxy images from Supabase Storage for authenticated access.
@@ -31,6 +32,19 @@ export async function GET(
     );
   }
 
+  // Only unit images are public; anything else in the bucket (condition
+  // report photos, future private folders) is served via signed URLs only
+  if (
+    pathSegments.length < 2 ||
+    !PUBLIC_FOLDERS.includes(pathSegments[0]) ||
+    pathSegments.some((segment) => !segment || segment === ".")
+  ) {
+    return NextResponse.json(
+      { error: "File not found" },
+      { status: 404 }
+    );
+  }
+
   const supabase = createServiceRoleClient();
 
   // Download the file from storage
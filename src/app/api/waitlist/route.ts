@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getProfile } from "@/lib/auth/getProfile";
+import { rateLimit } from "@/lib/rateLimit";
+import { z } from "zod";
+
+// ---------------------------------------------------------------------------
+// Validation schema
+// ---------------------------------------------------------------------------
+
+const waitlistSchema = z.object({
+  modelId: z.string().uuid("Invalid model ID"),
+  startTs: z.string().datetime("Invalid start timestamp"),
+  endTs: z.string().datetime("Invalid end timestamp"),
+  color: z.string().trim().max(50).optional(),
+});
+
+// ---------------------------------------------------------------------------
+// POST /api/waitlist
+//
+// Adds the current customer to the waitlist for a fully-booked car model
+// and window via the join_waitlist RPC. Customers are notified in queue
+// order when a matching unit frees up.
+// ---------------------------------------------------------------------------
+
+export async function POST(request: NextRequest) {
+  const profile = await getProfile();
+
+  if (!profile) {
+    return NextResponse.json(
+      { error: "You must be logged in to join a waitlist" },
+      { status: 401 }
+    );
+  }
+
+  if (profile.role !== "CUSTOMER") {
+    return NextResponse.json(
+      { error: "Only customers can join a waitlist" },
+      { status: 403 }
+    );
+  }
+
+  const rl = rateLimit(`${profile.id}:waitlist_join`, 10, 60_000);
+  if (!rl.ok) {
+    return NextResponse.json(
+      { error: "Too many requests. Slow down." },
+      { status: 429 }
+    );
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Invalid JSON body" },
+      { status: 400 }
+    );
+  }
+
+  const parsed = waitlistSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues[0].message },
+      { status: 400 }
+    );
+  }
+
+  const { modelId, startTs, endTs, color } = parsed.data;
+
+  const supabase = await createClient();
+  const { data, error } = await supabase.rpc("join_waitlist", {
+    p_car_model_id: modelId,
+    p_start_ts: startTs,
+    p_end_ts: endTs,
+    p_color: color || null,
+  });
+
+  if (error) {
+    return NextResponse.json(
+      { error: error.message || "Could not join the waitlist" },
+      { status: 400 }
+    );
+  }
+
+  const result = data as { entry_id: string; position: number };
+
+  return NextResponse.json({
+    entryId: result.entry_id,
+    position: result.position,
+  });
+}
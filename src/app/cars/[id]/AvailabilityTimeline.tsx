@@ -0,0 +1,148 @@
+"use client";
+
+import { formatInTimeZone } from "date-fns-tz";
+import {
+  BUSY_INTERVAL_LABELS,
+  type BusyIntervalType,
+  type UnitTimeline,
+} from "@/lib/availabilityTimeline";
+
+const BUSINESS_TIMEZONE = "America/Chicago";
+
+const INTERVAL_STYLES: Record<BusyIntervalType, string> = {
+  CLOSED: "bg-gray-200",
+  BOOKING: "bg-gray-500",
+  TURNAROUND: "bg-amber-300",
+  BLACKOUT: "bg-red-300",
+  HOLD: "bg-sky-300",
+};
+
+// Closed hours underneath, then everything else
+const LAYER_ORDER: BusyIntervalType[] = ["CLOSED", "TURNAROUND", "BLACKOUT", "HOLD", "BOOKING"];
+
+interface AvailabilityTimelineProps {
+  units: UnitTimeline[];
+  /** Visible range (UTC ISO) — one day or one week in Central Time */
+  rangeStart: string;
+  rangeEnd: string;
+  view: "day" | "week";
+  /** The window currently selected in the calendar */
+  selection: { start: string; end: string } | null;
+}
+
+/**
+ * One row per unit, busy intervals drawn across the visible range.
+ */
+export default function AvailabilityTimeline({
+  units,
+  rangeStart,
+  rangeEnd,
+  view,
+  selection,
+}: AvailabilityTimelineProps) {
+  const from = Date.parse(rangeStart);
+  const to = Date.parse(rangeEnd);
+  const span = to - from;
+
+  // Position of [start, end) as CSS percentages, or null if outside the range
+  const place = (start: string, end: string) => {
+    const s = Math.max(Date.parse(start), from);
+    const e = Math.min(Date.parse(end), to);
+    if (e <= s) return null;
+    return { left: `${((s - from) / span) * 100}%`, width: `${((e - s) / span) * 100}%` };
+  };
+
+  // Every 3 hours in the day view, every midnight in the week view
+  const stepMs = (view === "day" ? 3 : 24) * 60 * 60 * 1000;
+  const ticks: number[] = [];
+  for (let t = from; t < to; t += stepMs) ticks.push(t);
+
+  const tickLabel = (t: number) =>
+    formatInTimeZone(new Date(t), BUSINESS_TIMEZONE, view === "day" ? "ha" : "EEE d");
+
+  const selected = selection ? place(selection.start, selection.end) : null;
+
+  return (
+    <div>
+      <div className="flex text-[10px] text-gray-400">
+        <div className="w-24 shrink-0" />
+        <div className="relative h-4 flex-1">
+          {ticks.map((t) => (
+            <span
+              key={t}
+              className="absolute -translate-x-1/2 first:translate-x-0"
+              style={{ left: `${((t - from) / span) * 100}%` }}
+            >
+              {tickLabel(t).toLowerCase()}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      <div className="mt-1 space-y-1.5">
+        {units.map((unit, i) => (
+          <div key={unit.id} className="flex items-center">
+            <div className="flex w-24 shrink-0 items-center gap-1.5 pr-2 text-xs text-gray-600">
+              {unit.colorHex && (
+                <span
+                  className="h-2.5 w-2.5 shrink-0 rounded-full border border-gray-300"
+                  style={{ backgroundColor: unit.colorHex }}
+                />
+              )}
+              <span className="truncate">{unit.displayName ?? unit.color ?? `Unit ${i + 1}`}</span>
+            </div>
+            <div className="relative h-5 flex-1 overflow-hidden rounded bg-emerald-100">
+              {LAYER_ORDER.flatMap((type) =>
+                unit.intervals
+                  .filter((interval) => interval.type === type)
+                  .map((interval) => {
+                    const pos = place(interval.start, interval.end);
+                    if (!pos) return null;
+                    return (
+                      <div
+                        key={`${type}-${interval.start}`}
+                        title={`${BUSY_INTERVAL_LABELS[type]}: ${formatInTimeZone(
+                          new Date(interval.start),
+                          BUSINESS_TIMEZONE,
+                          "EEE h:mm a"
+                        )} – ${formatInTimeZone(new Date(interval.end), BUSINESS_TIMEZONE, "EEE h:mm a")}`}
+                        className={`absolute inset-y-0 ${INTERVAL_STYLES[type]}`}
+                        style={pos}
+                      />
+                    );
+                  })
+              )}
+              {ticks.slice(1).map((t) => (
+                <div
+                  key={t}
+                  className="absolute inset-y-0 w-px bg-white/70"
+                  style={{ left: `${((t - from) / span) * 100}%` }}
+                />
+              ))}
+              {selected && (
+                <div
+                  className="absolute inset-y-0 rounded border-2 border-primary bg-primary/10"
+                  style={selected}
+                />
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-2 flex flex-wrap gap-x-3 gap-y-1 text-[10px] text-gray-500">
+        <span className="flex items-center gap-1">
+          <span className="h-2 w-2 rounded-sm bg-emerald-100" /> Free
+        </span>
+        {(["BOOKING", "TURNAROUND", "BLACKOUT", "HOLD", "CLOSED"] as BusyIntervalType[]).map(
+          (type) => (
+            <span key={type} className="flex items-center gap-1">
+              <span className={`h-2 w-2 rounded-sm ${INTERVAL_STYLES[type]}`} />{" "}
+              {BUSY_INTERVAL_LABELS[type]}
+            </span>
+          )
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect, useCallback, useMemo } from "react";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import { useRouter, usePathname, useSearchParams } from "next/navigation";
 import {
   format,
@@ -11,14 +11,34 @@ import {
   startOfDay,
 } from "date-fns";
 import { toZonedTime, fromZonedTime } from "date-fns-tz";
-import { calculateRentalPrice, getPricingSummary, type PricingBreakdown } from "@/lib/pricing";
+import {
+  applyPromoDiscount,
+  calculateRentalPrice,
+  getPricingSummary,
+  DEFAULT_PRICING_POLICY,
+  type PricingBreakdown,
+  type PricingPolicy,
+  type PromoDiscount,
+  type RateModifier,
+} from "@/lib/pricing";
+import { isOpenAt, type OperatingWindow } from "@/lib/operatingHours";
+import {
+  findNearestFreeWindow,
+  type FreeWindow,
+  type TimelineResponse,
+} from "@/lib/availabilityTimeline";
+import {
+  MAX_SERIES_OCCURRENCES,
+  SERIES_CONFLICT_LABELS,
+  type SeriesOccurrence,
+} from "@/lib/bookingSeries";
+import AvailabilityTimeline from "./AvailabilityTimeline";
 
 // ============================================================================
 // CONSTANTS
 // ============================================================================
 
 const BUSINESS_TIMEZONE = "America/Chicago";
-const MIN_BOOKING_HOURS = 1;
 
 interface AvailableUnit {
   id: string;
@@ -26,7 +46,11 @@ interface AvailableUnit {
   color: string | null;
   colorHex: string | null;
   creditsPerHour: number | null;
+  /** Security deposit held on top of the rental price (0 = none) */
+  depositCredits: number;
   businessId: string;
+  pricingPolicy?: PricingPolicy;
+  rateModifiers?: RateModifier[];
 }
 
 interface AvailabilityResponse {
@@ -34,14 +58,29 @@ interface AvailabilityResponse {
   availableUnits: AvailableUnit[];
   totalUnits: number;
   availableCount: number;
+  minDurationMinutes?: number;
   error?: string;
 }
 
+interface BookingHold {
+  id: string;
+  unitId: string;
+  expiresAt: string;
+}
+
 interface ScheduleCalendarProps {
   modelId: string;
   suggestedCph: number | null;
   colorFilter?: string;
   isAuthenticated?: boolean;
+  /** Pricing policy of the starting-price unit, used until a unit is found */
+  pricingPolicy?: PricingPolicy;
+  /** Surge modifiers of the starting-price unit, used until a unit is found */
+  rateModifiers?: RateModifier[];
+  /** Shortest minimum rental across this model's units */
+  minDurationMinutes?: number;
+  /** Hours when at least one unit is open for pick-up/return (null = 24/7) */
+  operatingHours?: OperatingWindow[] | null;
 }
 
 // ============================================================================
@@ -94,6 +133,40 @@ function formatDateDisplay(date: Date): string {
   return format(date, "EEE, MMM d");
 }
 
+// Most cars a customer can book together (create_group_booking limit)
+const MAX_GROUP_SIZE = 10;
+
+// Units a group booking would take: with sameColor, the color with the most
+// free units (ties by name) — mirrors create_group_booking's pick
+function pickGroupUnits(
+  units: AvailableUnit[],
+  quantity: number,
+  sameColor: boolean
+): AvailableUnit[] | null {
+  let candidates = units;
+  if (sameColor) {
+    const byColor = new Map<string, AvailableUnit[]>();
+    for (const u of units) {
+      if (!u.color) continue;
+      byColor.set(u.color, [...(byColor.get(u.color) ?? []), u]);
+    }
+    const best = Array.from(byColor.entries())
+      .filter(([, group]) => group.length >= quantity)
+      .sort((a, b) => b[1].length - a[1].length || a[0].localeCompare(b[0]))[0];
+    if (!best) return null;
+    candidates = best[1];
+  }
+  return candidates.length >= quantity ? candidates.slice(0, quantity) : null;
+}
+
+// "9:05" countdown for a hold
+function formatCountdown(ms: number): string {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+}
+
 // Format full datetime for summary
 function formatDateTimeSummary(date: Date, time: string): string {
   const [h, m] = time.split(":").map(Number);
@@ -102,12 +175,18 @@ function formatDateTimeSummary(date: Date, time: string): string {
   return `${format(date, "EEE MMM d")}, ${hour12}:${m.toString().padStart(2, "0")} ${ampm}`;
 }
 
+// "Fri Mar 7, 6:00 PM" for a UTC timestamp, in the business timezone
+function formatOccurrence(iso: string): string {
+  return format(toZonedTime(new Date(iso), BUSINESS_TIMEZONE), "EEE MMM d, h:mm a");
+}
+
 // Calculate duration between two dates with times
 function calculateDuration(
   startDate: Date,
   startTime: string,
   endDate: Date,
-  endTime: string
+  endTime: string,
+  minMinutes: number
 ): { totalMinutes: number; days: number; hours: number; minutes: number } | null {
   if (!startTime || !endTime) return null;
 
@@ -121,7 +200,7 @@ function calculateDuration(
   end.setHours(eh, em, 0, 0);
 
   const totalMinutes = differenceInMinutes(end, start);
-  if (totalMinutes < 60) return null;
+  if (totalMinutes < minMinutes) return null;
 
   const days = Math.floor(totalMinutes / (24 * 60));
   const remainingMinutes = totalMinutes % (24 * 60);
@@ -131,6 +210,13 @@ function calculateDuration(
   return { totalMinutes, days, hours, minutes };
 }
 
+// Format the policy's minimum duration ("1 hour", "90 min")
+function formatMinimumDuration(minutes: number): string {
+  if (minutes % 60 !== 0) return `${minutes} min`;
+  const hours = minutes / 60;
+  return `${hours} hour${hours !== 1 ? "s" : ""}`;
+}
+
 // Format duration for display
 function formatDuration(duration: {
   days: number;
@@ -159,7 +245,13 @@ export default function ScheduleCalendar({
   suggestedCph,
   colorFilter,
   isAuthenticated = false,
+  pricingPolicy = DEFAULT_PRICING_POLICY,
+  rateModifiers = [],
+  minDurationMinutes,
+  operatingHours = null,
 }: ScheduleCalendarProps) {
+  const minMinutes = minDurationMinutes ?? pricingPolicy.minDurationMinutes;
+
   const router = useRouter();
   const pathname = usePathname();
   const searchParams = useSearchParams();
@@ -182,24 +274,145 @@ export default function ScheduleCalendar({
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  // Promo code state (validated against the quoted unit)
+  const [promoInput, setPromoInput] = useState("");
+  const [promo, setPromo] = useState<PromoDiscount | null>(null);
+  const [promoError, setPromoError] = useState<string | null>(null);
+  const [checkingPromo, setCheckingPromo] = useState(false);
+
+  // Group booking (several units of this model, same window)
+  const [quantity, setQuantity] = useState(1);
+  const [sameColor, setSameColor] = useState(false);
+
+  // Recurring series (one unit, repeated daily or weekly)
+  const [repeat, setRepeat] = useState<"NONE" | "DAILY" | "WEEKLY">("NONE");
+  const [repeatLimit, setRepeatLimit] = useState<"COUNT" | "UNTIL">("COUNT");
+  const [repeatCount, setRepeatCount] = useState(4);
+  const [repeatUntil, setRepeatUntil] = useState("");
+  const [seriesPreview, setSeriesPreview] = useState<SeriesOccurrence[] | null>(null);
+  const [previewingSeries, setPreviewingSeries] = useState(false);
+
+  // Hold on the offered unit while the customer decides
+  const [hold, setHold] = useState<BookingHold | null>(null);
+  const [holdNotice, setHoldNotice] = useState<string | null>(null);
+  const [nowMs, setNowMs] = useState(() => Date.now());
+  const holdIdRef = useRef<string | null>(null);
+
+  // Waitlist (when nothing is available)
+  const [joiningWaitlist, setJoiningWaitlist] = useState(false);
+  const [waitlistMessage, setWaitlistMessage] = useState<string | null>(null);
+  const [waitlistError, setWaitlistError] = useState<string | null>(null);
+
   // Booking state
   const [booking, setBooking] = useState(false);
   const [bookingError, setBookingError] = useState<string | null>(null);
   const [bookingSuccess, setBookingSuccess] = useState<string | null>(null);
 
+  // Per-unit timeline (grid + nearest free window)
+  const [timeline, setTimeline] = useState<TimelineResponse | null>(null);
+  const [timelineView, setTimelineView] = useState<"day" | "week">("day");
+
   // Calculate duration
   const duration = useMemo(() => {
-    return calculateDuration(startDate, startTime, endDate, endTime);
-  }, [startDate, startTime, endDate, endTime]);
+    return calculateDuration(startDate, startTime, endDate, endTime, minMinutes);
+  }, [startDate, startTime, endDate, endTime, minMinutes]);
 
-  // Pricing breakdown with day-rate caps
+  // Unit that "Book Now" will reserve (first available)
+  const quotedUnit = availability?.availableUnits[0] ?? null;
+
+  // Pricing breakdown with day-rate caps and surge modifiers, using the
+  // quoted unit's rate, pricing policy and modifiers once availability is known
   const pricingBreakdown = useMemo((): PricingBreakdown | null => {
-    if (!duration || !suggestedCph) return null;
-    return calculateRentalPrice(duration.totalMinutes, suggestedCph);
-  }, [duration, suggestedCph]);
+    const hourlyRate = quotedUnit?.creditsPerHour ?? suggestedCph;
+    if (!duration || !hourlyRate) return null;
+    const quote = calculateRentalPrice(
+      duration.totalMinutes,
+      hourlyRate,
+      quotedUnit?.pricingPolicy ?? pricingPolicy,
+      {
+        start: toUtcIso(startDate, startTime),
+        end: toUtcIso(endDate, endTime),
+        modifiers: quotedUnit?.rateModifiers ?? rateModifiers,
+      }
+    );
+    return promo && quotedUnit ? applyPromoDiscount(quote, promo) : quote;
+  }, [
+    duration,
+    suggestedCph,
+    pricingPolicy,
+    rateModifiers,
+    quotedUnit,
+    promo,
+    startDate,
+    startTime,
+    endDate,
+    endTime,
+  ]);
+
+  // A promo is validated for one unit — drop it when the quoted unit changes
+  const quotedUnitId = quotedUnit?.id ?? null;
+  useEffect(() => {
+    setPromo(null);
+    setPromoError(null);
+  }, [quotedUnitId]);
+
+  // Keep the group size within what is currently free
+  const availableCount = availability?.availableCount ?? 0;
+  useEffect(() => {
+    setQuantity((q) => Math.max(1, Math.min(q, availableCount)));
+  }, [availableCount]);
+
+  const isGroup = quantity > 1;
+
+  // Units a group booking would reserve (null = not enough matching units)
+  const groupUnits = useMemo(() => {
+    if (!isGroup || !availability) return null;
+    return pickGroupUnits(availability.availableUnits, quantity, sameColor && !colorFilter);
+  }, [isGroup, availability, quantity, sameColor, colorFilter]);
+
+  // Estimated group total — each unit priced with its own rate and policy
+  const groupCredits = useMemo(() => {
+    if (!groupUnits || !duration) return null;
+    let total = 0;
+    for (const unit of groupUnits) {
+      const hourlyRate = unit.creditsPerHour ?? suggestedCph;
+      if (!hourlyRate) return null;
+      total += calculateRentalPrice(
+        duration.totalMinutes,
+        hourlyRate,
+        unit.pricingPolicy ?? pricingPolicy,
+        {
+          start: toUtcIso(startDate, startTime),
+          end: toUtcIso(endDate, endTime),
+          modifiers: unit.rateModifiers ?? [],
+        }
+      ).totalCredits;
+    }
+    return total;
+  }, [groupUnits, duration, suggestedCph, pricingPolicy, startDate, startTime, endDate, endTime]);
+
+  const isSeries = repeat !== "NONE" && !isGroup;
+
+  // Occurrences the series would book, from the server preview
+  const seriesBookable = useMemo(
+    () => seriesPreview?.filter((o) => !o.conflict) ?? null,
+    [seriesPreview]
+  );
+  const seriesCredits = seriesBookable
+    ? seriesBookable.reduce((sum, o) => sum + o.credits, 0)
+    : null;
+
+  // Any change to the window or the repeat rule invalidates the preview
+  useEffect(() => {
+    setSeriesPreview(null);
+  }, [quotedUnitId, startDate, startTime, endDate, endTime, repeat, repeatLimit, repeatCount, repeatUntil]);
 
   // Estimated credits (for backward compatibility)
-  const estimatedCredits = pricingBreakdown?.totalCredits ?? null;
+  const estimatedCredits = isGroup
+    ? groupCredits
+    : isSeries
+      ? seriesCredits
+      : pricingBreakdown?.totalCredits ?? null;
 
   // Validation
   const validationError = useMemo(() => {
@@ -219,8 +432,8 @@ export default function ScheduleCalendar({
     }
 
     const totalMinutes = differenceInMinutes(end, start);
-    if (totalMinutes < 60) {
-      return "Minimum booking duration is 1 hour";
+    if (totalMinutes < minMinutes) {
+      return `Minimum booking duration is ${formatMinimumDuration(minMinutes)}`;
     }
 
     // Check if start is in the past
@@ -229,8 +442,15 @@ export default function ScheduleCalendar({
       return "Cannot book in the past";
     }
 
+    if (!isOpenAt(operatingHours, startDate.getDay(), startTime, "pickup")) {
+      return "Pick-up time is outside operating hours";
+    }
+    if (!isOpenAt(operatingHours, endDate.getDay(), endTime, "return")) {
+      return "Return time is outside operating hours";
+    }
+
     return null;
-  }, [startDate, startTime, endDate, endTime]);
+  }, [startDate, startTime, endDate, endTime, minMinutes, operatingHours]);
 
   // Filter end times based on start time and whether multi-day
   const validEndTimes = useMemo(() => {
@@ -239,18 +459,111 @@ export default function ScheduleCalendar({
     const [sh, sm] = startTime.split(":").map(Number);
     const startMinutes = sh * 60 + sm;
 
-    // For same-day bookings, end time must be after start + 1 hour
+    // For same-day bookings, end time must be after start + minimum duration
     if (!isMultiDay || format(startDate, "yyyy-MM-dd") === format(endDate, "yyyy-MM-dd")) {
       return TIME_SLOTS.filter((t) => {
         const [eh, em] = t.split(":").map(Number);
         const endMinutes = eh * 60 + em;
-        return endMinutes >= startMinutes + 60;
+        return endMinutes >= startMinutes + minMinutes;
       });
     }
 
-    // For multi-day bookings, any time is valid (as long as total >= 1 hour)
+    // For multi-day bookings, any time is valid (as long as total >= minimum)
     return TIME_SLOTS;
-  }, [startTime, startDate, endDate, isMultiDay]);
+  }, [startTime, startDate, endDate, isMultiDay, minMinutes]);
+
+  // Hold the unit "Book Now" will reserve. A new hold replaces the previous
+  // one server-side; if the unit was taken meanwhile, drop it from the
+  // offer and move on to the next available unit.
+  useEffect(() => {
+    if (!isAuthenticated || !quotedUnitId || isGroup || validationError) {
+      setHold(null);
+      return;
+    }
+
+    let cancelled = false;
+
+    const placeHold = async () => {
+      try {
+        const res = await fetch("/api/hold", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            carUnitId: quotedUnitId,
+            startTs: toUtcIso(startDate, startTime),
+            endTs: toUtcIso(endDate, endTime),
+          }),
+        });
+        const data = await res.json();
+        if (cancelled) return;
+
+        if (res.ok) {
+          setHold({ id: data.holdId, unitId: quotedUnitId, expiresAt: data.expiresAt });
+          setHoldNotice(null);
+        } else if (res.status === 409) {
+          setHold(null);
+          setHoldNotice(data.error || "That unit was just taken");
+          setAvailability((prev) =>
+            prev
+              ? {
+                  ...prev,
+                  availableUnitIds: prev.availableUnitIds.filter((id) => id !== quotedUnitId),
+                  availableUnits: prev.availableUnits.filter((u) => u.id !== quotedUnitId),
+                  availableCount: prev.availableCount - 1,
+                }
+              : prev
+          );
+        } else {
+          setHold(null);
+        }
+      } catch {
+        if (!cancelled) setHold(null);
+      }
+    };
+
+    placeHold();
+    return () => {
+      cancelled = true;
+    };
+  }, [
+    isAuthenticated,
+    quotedUnitId,
+    isGroup,
+    validationError,
+    startDate,
+    startTime,
+    endDate,
+    endTime,
+  ]);
+
+  // Countdown; an expired hold is dropped (the booking is still attempted
+  // without it and create_booking re-checks everything)
+  useEffect(() => {
+    holdIdRef.current = hold?.id ?? null;
+    if (!hold) return;
+    const timer = setInterval(() => {
+      const now = Date.now();
+      setNowMs(now);
+      if (now >= new Date(hold.expiresAt).getTime()) {
+        setHold(null);
+        setHoldNotice("Your hold expired — the unit is no longer reserved for you.");
+      }
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [hold]);
+
+  // Release the hold when leaving the page
+  useEffect(() => {
+    return () => {
+      if (!holdIdRef.current) return;
+      fetch("/api/hold", {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ holdId: holdIdRef.current }),
+        keepalive: true,
+      }).catch(() => {});
+    };
+  }, []);
 
   // Check availability when selection changes
   useEffect(() => {
@@ -262,6 +575,8 @@ export default function ScheduleCalendar({
     const fetchAvailability = async () => {
       setLoading(true);
       setError(null);
+      setWaitlistMessage(null);
+      setWaitlistError(null);
 
       const start = toUtcIso(startDate, startTime);
       const end = toUtcIso(endDate, endTime);
@@ -296,6 +611,58 @@ export default function ScheduleCalendar({
     fetchAvailability();
   }, [startDate, startTime, endDate, endTime, modelId, colorFilter, validationError, duration]);
 
+  // Fetch the timeline for a week from the pick-up day (plus a day so
+  // suggestions can run past the week); refreshed after a booking
+  useEffect(() => {
+    const params = new URLSearchParams({
+      modelId,
+      from: toUtcIso(startDate, "00:00"),
+      to: toUtcIso(addDays(startDate, 8), "00:00"),
+    });
+    if (colorFilter) {
+      params.set("color", colorFilter);
+    }
+
+    let cancelled = false;
+    fetch(`/api/availability/timeline?${params.toString()}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data: TimelineResponse | null) => {
+        if (!cancelled) setTimeline(data);
+      })
+      .catch(() => {
+        if (!cancelled) setTimeline(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [startDate, modelId, colorFilter, bookingSuccess]);
+
+  // The window selected in the calendar, once it is valid
+  const selection = useMemo(() => {
+    if (!startTime || !endTime || validationError) return null;
+    return { start: toUtcIso(startDate, startTime), end: toUtcIso(endDate, endTime) };
+  }, [startDate, startTime, endDate, endTime, validationError]);
+
+  // Closest window of the same length when nothing is free for the selection
+  const suggestion = useMemo((): FreeWindow | null => {
+    if (!timeline || !selection || !availability || availability.availableCount > 0) {
+      return null;
+    }
+    const found = findNearestFreeWindow(timeline, selection.start, selection.end);
+    return found && found.start !== selection.start ? found : null;
+  }, [timeline, selection, availability]);
+
+  const handleUseSuggestion = () => {
+    if (!suggestion) return;
+    const start = toZonedTime(new Date(suggestion.start), BUSINESS_TIMEZONE);
+    const end = toZonedTime(new Date(suggestion.end), BUSINESS_TIMEZONE);
+    setStartDate(startOfDay(start));
+    setStartTime(format(start, "HH:mm"));
+    setEndDate(startOfDay(end));
+    setEndTime(format(end, "HH:mm"));
+    setIsMultiDay(format(start, "yyyy-MM-dd") !== format(end, "yyyy-MM-dd"));
+  };
+
   // Build current URL for returnTo
   const getCurrentUrl = useCallback(() => {
     const params = searchParams.toString();
@@ -329,7 +696,13 @@ export default function ScheduleCalendar({
       const res = await fetch("/api/book", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ carUnitId: unitId, startTs: start, endTs: end }),
+        body: JSON.stringify({
+          carUnitId: unitId,
+          startTs: start,
+          endTs: end,
+          promoCode: promo?.code,
+          holdId: hold?.unitId === unitId ? hold.id : undefined,
+        }),
       });
 
       const data = await res.json();
@@ -341,8 +714,12 @@ export default function ScheduleCalendar({
         }
         setBookingError(data.error || "Booking failed");
       } else {
+        setHold(null);
+        setHoldNotice(null);
         setBookingSuccess(
-          `Booked! Charged ${data.creditsCharged} credits. Balance: ${data.balanceAfter}`
+          `Booked! Charged ${data.creditsCharged} credits` +
+            (data.discountCredits ? ` (saved ${data.discountCredits})` : "") +
+            `. Balance: ${data.balanceAfter}`
         );
         setTimeout(() => {
           router.refresh();
@@ -355,6 +732,202 @@ export default function ScheduleCalendar({
     }
   };
 
+  // Handle group booking (all units or none)
+  const handleGroupBook = async () => {
+    if (!availability || !duration || !groupUnits) return;
+
+    setBooking(true);
+    setBookingError(null);
+    setBookingSuccess(null);
+
+    try {
+      const res = await fetch("/api/book/group", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          modelId,
+          quantity,
+          startTs: toUtcIso(startDate, startTime),
+          endTs: toUtcIso(endDate, endTime),
+          color: colorFilter,
+          sameColor: sameColor && !colorFilter,
+        }),
+      });
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        if (res.status === 401) {
+          handleLoginRedirect();
+          return;
+        }
+        setBookingError(data.error || "Booking failed");
+      } else {
+        setBookingSuccess(
+          `Booked ${quantity} cars${data.color ? ` in ${data.color}` : ""}! ` +
+            `Charged ${data.creditsCharged} credits. Balance: ${data.balanceAfter}`
+        );
+        setTimeout(() => {
+          router.refresh();
+        }, 2000);
+      }
+    } catch {
+      setBookingError("Booking failed. Please try again.");
+    } finally {
+      setBooking(false);
+    }
+  };
+
+  // Request body shared by the series preview and booking endpoints
+  const seriesRequest = () =>
+    JSON.stringify({
+      unitId: quotedUnitId,
+      startTs: toUtcIso(startDate, startTime),
+      endTs: toUtcIso(endDate, endTime),
+      frequency: repeat,
+      occurrences: repeatLimit === "COUNT" ? repeatCount : undefined,
+      untilDate: repeatLimit === "UNTIL" ? repeatUntil : undefined,
+    });
+
+  // Preview which occurrences of the series are free
+  const handlePreviewSeries = async () => {
+    if (!quotedUnitId || !duration) return;
+
+    setPreviewingSeries(true);
+    setBookingError(null);
+    setBookingSuccess(null);
+
+    try {
+      const res = await fetch("/api/book/series/preview", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: seriesRequest(),
+      });
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        setBookingError(data.error || "Could not preview this series");
+      } else {
+        setSeriesPreview(data.occurrences);
+      }
+    } catch {
+      setBookingError("Could not preview this series. Please try again.");
+    } finally {
+      setPreviewingSeries(false);
+    }
+  };
+
+  // Book every free occurrence of the series in one go
+  const handleSeriesBook = async () => {
+    if (!quotedUnitId || !seriesBookable?.length) return;
+
+    setBooking(true);
+    setBookingError(null);
+    setBookingSuccess(null);
+
+    try {
+      const res = await fetch("/api/book/series", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: seriesRequest(),
+      });
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        if (res.status === 401) {
+          handleLoginRedirect();
+          return;
+        }
+        setBookingError(data.error || "Booking failed");
+      } else {
+        setHold(null);
+        setHoldNotice(null);
+        setSeriesPreview(null);
+        const skipped = data.skippedOccurrences.length;
+        setBookingSuccess(
+          `Booked ${data.bookingIds.length} occurrences` +
+            (skipped ? ` (${skipped} skipped)` : "") +
+            `! Charged ${data.creditsCharged} credits. Balance: ${data.balanceAfter}`
+        );
+        setTimeout(() => {
+          router.refresh();
+        }, 2000);
+      }
+    } catch {
+      setBookingError("Booking failed. Please try again.");
+    } finally {
+      setBooking(false);
+    }
+  };
+
+  // Join the waitlist for the selected window
+  const handleJoinWaitlist = async () => {
+    if (!isAuthenticated) {
+      handleLoginRedirect();
+      return;
+    }
+
+    setJoiningWaitlist(true);
+    setWaitlistError(null);
+
+    try {
+      const res = await fetch("/api/waitlist", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          modelId,
+          startTs: toUtcIso(startDate, startTime),
+          endTs: toUtcIso(endDate, endTime),
+          color: colorFilter,
+        }),
+      });
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        setWaitlistError(data.error || "Could not join the waitlist");
+      } else {
+        setWaitlistMessage(
+          `You're #${data.position} on the waitlist. We'll message and email you if a car frees up.`
+        );
+      }
+    } catch {
+      setWaitlistError("Could not join the waitlist. Please try again.");
+    } finally {
+      setJoiningWaitlist(false);
+    }
+  };
+
+  const handleApplyPromo = async () => {
+    if (!quotedUnit || !promoInput.trim()) return;
+
+    setCheckingPromo(true);
+    setPromoError(null);
+
+    try {
+      const res = await fetch("/api/promo", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ code: promoInput, carUnitId: quotedUnit.id }),
+      });
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        setPromo(null);
+        setPromoError(data.error || "Invalid promo code");
+      } else {
+        setPromo(data as PromoDiscount);
+      }
+    } catch {
+      setPromoError("Could not check promo code. Please try again.");
+    } finally {
+      setCheckingPromo(false);
+    }
+  };
+
   // Quick duration handlers
   const handleQuickDuration = (days: number) => {
     if (!startTime) return;
@@ -471,11 +1044,15 @@ export default function ScheduleCalendar({
               className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-primary focus:outline-none focus:ring-2 focus:ring-primary/30"
             >
               <option value="">Select time</option>
-              {TIME_SLOTS.map((t) => (
-                <option key={t} value={t}>
-                  {formatTime12h(t)}
-                </option>
-              ))}
+              {TIME_SLOTS.map((t) => {
+                const closed = !isOpenAt(operatingHours, startDate.getDay(), t, "pickup");
+                return (
+                  <option key={t} value={t} disabled={closed}>
+                    {formatTime12h(t)}
+                    {closed ? " (closed)" : ""}
+                  </option>
+                );
+              })}
             </select>
           </div>
         </div>
@@ -520,11 +1097,15 @@ export default function ScheduleCalendar({
               className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-primary focus:outline-none focus:ring-2 focus:ring-primary/30 disabled:bg-gray-50"
             >
               <option value="">Select time</option>
-              {validEndTimes.map((t) => (
-                <option key={t} value={t}>
-                  {formatTime12h(t)}
-                </option>
-              ))}
+              {validEndTimes.map((t) => {
+                const closed = !isOpenAt(operatingHours, endDate.getDay(), t, "return");
+                return (
+                  <option key={t} value={t} disabled={closed}>
+                    {formatTime12h(t)}
+                    {closed ? " (closed)" : ""}
+                  </option>
+                );
+              })}
             </select>
           </div>
         </div>
@@ -582,11 +1163,59 @@ export default function ScheduleCalendar({
               <p className="text-xs text-gray-500 mt-0.5">
                 {pricingBreakdown.breakdownText}
               </p>
+              {pricingBreakdown.surcharges.length > 0 && (
+                <ul className="mt-1 space-y-0.5 text-xs text-amber-700">
+                  {pricingBreakdown.surcharges.map((line) => (
+                    <li key={line.modifierId}>
+                      {line.label} ×{line.multiplierPct / 100} · {line.hours}h · +
+                      {line.credits} credits
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {quotedUnit && quotedUnit.depositCredits > 0 && (
+                <p className="mt-1 text-xs text-gray-600">
+                  + {quotedUnit.depositCredits} credit security deposit, held until the car
+                  is returned without damage
+                </p>
+              )}
             </div>
           )}
         </div>
       )}
 
+      {/* Availability timeline */}
+      {timeline && timeline.units.length > 0 && (
+        <div className="mt-4">
+          <div className="mb-2 flex items-center justify-between">
+            <span className="text-xs font-semibold uppercase tracking-wider text-gray-500">
+              Availability
+            </span>
+            <div className="flex rounded-lg border border-gray-300 text-xs">
+              {(["day", "week"] as const).map((v) => (
+                <button
+                  key={v}
+                  type="button"
+                  onClick={() => setTimelineView(v)}
+                  className={`px-2.5 py-1 first:rounded-l-lg last:rounded-r-lg ${
+                    timelineView === v ? "bg-gray-900 text-white" : "text-gray-600 hover:bg-gray-50"
+                  }`}
+                >
+                  {v === "day" ? "Day" : "Week"}
+                </button>
+              ))}
+            </div>
+          </div>
+          <AvailabilityTimeline
+            units={timeline.units}
+            rangeStart={toUtcIso(startDate, "00:00")}
+            rangeEnd={toUtcIso(addDays(startDate, timelineView === "day" ? 1 : 7), "00:00")}
+            view={timelineView}
+            selection={selection}
+          />
+        </div>
+      )}
+
       {/* Validation Error */}
       {validationError && startTime && endTime && (
         <div className="mt-4 rounded-lg bg-red-50 border border-red-200 p-3">
@@ -629,6 +1258,7 @@ export default function ScheduleCalendar({
             {availability.availableCount > 0 && availability.availableUnits[0] && (() => {
               const unit = availability.availableUnits[0];
               const hourlyRate = unit.creditsPerHour ?? suggestedCph;
+              const unitPolicy = unit.pricingPolicy ?? pricingPolicy;
               return (
                 <p className="mt-1 text-xs">
                   {unit.color && (
@@ -643,7 +1273,7 @@ export default function ScheduleCalendar({
                       </span>
                       <span className="mx-1">•</span>
                       <span>
-                        {hourlyRate * 5}/day
+                        {hourlyRate * unitPolicy.dayCapHours}/day
                       </span>
                     </>
                   )}
@@ -652,11 +1282,241 @@ export default function ScheduleCalendar({
             })()}
           </div>
 
+          {/* Nearest free window */}
+          {suggestion && (
+            <div className="mt-3 flex items-center justify-between gap-3 rounded-lg border border-emerald-200 bg-emerald-50/50 p-3">
+              <p className="text-sm text-gray-700">
+                Nearest free time:{" "}
+                <strong>
+                  {formatOccurrence(suggestion.start)} → {formatOccurrence(suggestion.end)}
+                </strong>
+              </p>
+              <button
+                type="button"
+                onClick={handleUseSuggestion}
+                className="shrink-0 rounded-lg bg-primary px-3 py-1.5 text-xs font-medium text-white hover:bg-primary-600"
+              >
+                Use this time
+              </button>
+            </div>
+          )}
+
+          {/* Waitlist */}
+          {availability.availableCount === 0 && (
+            <div className="mt-3">
+              {waitlistMessage ? (
+                <p className="text-sm text-emerald-700">{waitlistMessage}</p>
+              ) : (
+                <button
+                  onClick={handleJoinWaitlist}
+                  disabled={joiningWaitlist}
+                  className="w-full rounded-lg border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 transition-colors hover:bg-gray-50 disabled:opacity-50"
+                >
+                  {joiningWaitlist
+                    ? "Joining..."
+                    : isAuthenticated
+                    ? "Join the waitlist for this time"
+                    : "Log in to join the waitlist"}
+                </button>
+              )}
+              {waitlistError && (
+                <p className="mt-1 text-xs text-red-600">{waitlistError}</p>
+              )}
+            </div>
+          )}
+
+          {/* Hold status */}
+          {hold && !isGroup && (
+            <p className="mt-2 text-xs text-gray-500">
+              This unit is reserved for you for{" "}
+              <strong>{formatCountdown(new Date(hold.expiresAt).getTime() - nowMs)}</strong>{" "}
+              while you finish booking.
+            </p>
+          )}
+          {holdNotice && !hold && (
+            <p className="mt-2 text-xs text-amber-700">{holdNotice}</p>
+          )}
+
+          {/* Group size */}
+          {availability.availableCount > 1 && isAuthenticated && !isSeries && (
+            <div className="mt-4 flex flex-wrap items-center gap-3">
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                Cars
+                <select
+                  value={quantity}
+                  onChange={(e) => setQuantity(parseInt(e.target.value, 10))}
+                  className="h-9 rounded-lg border border-gray-300 px-2 text-sm text-gray-900"
+                >
+                  {Array.from(
+                    { length: Math.min(availability.availableCount, MAX_GROUP_SIZE) },
+                    (_, i) => i + 1
+                  ).map((n) => (
+                    <option key={n} value={n}>
+                      {n}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              {isGroup && !colorFilter && (
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={sameColor}
+                    onChange={(e) => setSameColor(e.target.checked)}
+                  />
+                  All the same color
+                </label>
+              )}
+              {isGroup && (
+                <p className="w-full text-xs text-gray-500">
+                  {groupUnits
+                    ? `${quantity} cars booked together — all or none. Estimated total: ${groupCredits ?? "—"} credits.`
+                    : `Fewer than ${quantity} free cars share one color for this time.`}
+                </p>
+              )}
+            </div>
+          )}
+
+          {/* Repeat */}
+          {availability.availableCount > 0 && isAuthenticated && !isGroup && (
+            <div className="mt-4">
+              <div className="flex flex-wrap items-center gap-3">
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  Repeat
+                  <select
+                    value={repeat}
+                    onChange={(e) => setRepeat(e.target.value as typeof repeat)}
+                    className="h-9 rounded-lg border border-gray-300 px-2 text-sm text-gray-900"
+                  >
+                    <option value="NONE">Does not repeat</option>
+                    <option value="DAILY">Daily</option>
+                    <option value="WEEKLY">Weekly</option>
+                  </select>
+                </label>
+                {isSeries && (
+                  <>
+                    <select
+                      value={repeatLimit}
+                      onChange={(e) => setRepeatLimit(e.target.value as typeof repeatLimit)}
+                      className="h-9 rounded-lg border border-gray-300 px-2 text-sm text-gray-900"
+                    >
+                      <option value="COUNT">for</option>
+                      <option value="UNTIL">until</option>
+                    </select>
+                    {repeatLimit === "COUNT" ? (
+                      <label className="flex items-center gap-2 text-sm text-gray-700">
+                        <input
+                          type="number"
+                          min={2}
+                          max={MAX_SERIES_OCCURRENCES}
+                          value={repeatCount}
+                          onChange={(e) => setRepeatCount(parseInt(e.target.value, 10) || 2)}
+                          className="h-9 w-20 rounded-lg border border-gray-300 px-2 text-sm text-gray-900"
+                        />
+                        occurrences
+                      </label>
+                    ) : (
+                      <input
+                        type="date"
+                        value={repeatUntil}
+                        min={format(addDays(startDate, 1), "yyyy-MM-dd")}
+                        onChange={(e) => setRepeatUntil(e.target.value)}
+                        className="h-9 rounded-lg border border-gray-300 px-2 text-sm text-gray-900"
+                      />
+                    )}
+                    <button
+                      onClick={handlePreviewSeries}
+                      disabled={
+                        previewingSeries || !duration || (repeatLimit === "UNTIL" && !repeatUntil)
+                      }
+                      className="h-9 rounded-lg border border-gray-300 px-3 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      {previewingSeries ? "Checking..." : "Preview"}
+                    </button>
+                  </>
+                )}
+              </div>
+
+              {isSeries && seriesPreview && (
+                <ul className="mt-3 max-h-60 divide-y divide-gray-100 overflow-y-auto rounded-lg border border-gray-200 text-sm">
+                  {seriesPreview.map((o) => (
+                    <li
+                      key={o.occurrence}
+                      className="flex items-center justify-between gap-3 px-3 py-1.5"
+                    >
+                      <span className={o.conflict ? "text-gray-400 line-through" : "text-gray-900"}>
+                        {formatOccurrence(o.startTs)} → {formatOccurrence(o.endTs)}
+                      </span>
+                      {o.conflict ? (
+                        <span className="shrink-0 text-xs text-red-600">
+                          {SERIES_CONFLICT_LABELS[o.conflict]}
+                        </span>
+                      ) : (
+                        <span className="shrink-0 text-xs text-gray-500">{o.credits} credits</span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {isSeries && seriesBookable && (
+                <p className="mt-1 text-xs text-gray-500">
+                  {seriesBookable.length} of {seriesPreview?.length} occurrences are free and
+                  will be booked together on the same car. Conflicting dates are skipped.
+                </p>
+              )}
+            </div>
+          )}
+
+          {/* Promo code */}
+          {availability.availableCount > 0 && isAuthenticated && !isGroup && !isSeries && (
+            <div className="mt-4">
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={promoInput}
+                  onChange={(e) => setPromoInput(e.target.value.toUpperCase())}
+                  placeholder="Promo code"
+                  maxLength={32}
+                  className="h-9 flex-1 rounded-lg border border-gray-300 px-3 text-sm text-gray-900"
+                />
+                {promo ? (
+                  <button
+                    onClick={() => {
+                      setPromo(null);
+                      setPromoInput("");
+                    }}
+                    className="h-9 rounded-lg border border-gray-300 px-3 text-sm font-medium text-gray-700 hover:bg-gray-50"
+                  >
+                    Remove
+                  </button>
+                ) : (
+                  <button
+                    onClick={handleApplyPromo}
+                    disabled={checkingPromo || !promoInput.trim()}
+                    className="h-9 rounded-lg border border-gray-300 px-3 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    {checkingPromo ? "Checking..." : "Apply"}
+                  </button>
+                )}
+              </div>
+              {promo && pricingBreakdown && (
+                <p className="mt-1 text-xs text-emerald-700">
+                  {promo.code} applied: −{pricingBreakdown.discountCredits} credits
+                </p>
+              )}
+              {promoError && (
+                <p className="mt-1 text-xs text-red-600">{promoError}</p>
+              )}
+            </div>
+          )}
+
           {/* Book button */}
           {availability.availableCount > 0 && (
             <button
-              onClick={handleBook}
-              disabled={booking}
+              onClick={isGroup ? handleGroupBook : isSeries ? handleSeriesBook : handleBook}
+              disabled={
+                booking || (isGroup && !groupUnits) || (isSeries && !seriesBookable?.length)
+              }
               className={`mt-4 w-full rounded-lg px-4 py-2.5 text-sm font-semibold text-white transition-colors disabled:cursor-not-allowed disabled:opacity-50 ${
                 isAuthenticated
                   ? "bg-primary hover:bg-primary-600"
@@ -666,7 +1526,15 @@ export default function ScheduleCalendar({
               {booking
                 ? "Booking..."
                 : isAuthenticated
-                ? `Book Now${estimatedCredits ? ` (${estimatedCredits} credits)` : ""}`
+                ? `${
+                    isGroup
+                      ? `Book ${quantity} Cars`
+                      : isSeries
+                        ? seriesBookable
+                          ? `Book ${seriesBookable.length} Occurrences`
+                          : "Preview to Book"
+                        : "Book Now"
+                  }${estimatedCredits ? ` (${estimatedCredits} credits)` : ""}`
                 : "Log in to Book"}
             </button>
           )}
@@ -690,7 +1558,7 @@ export default function ScheduleCalendar({
       {/* Instructions */}
       <p className="mt-4 text-xs text-gray-400">
         Select pick-up and return dates/times. Toggle "Multi-day" for overnight or multi-day rentals.
-        Minimum duration: 1 hour.
+        Minimum duration: {formatMinimumDuration(minMinutes)}.
       </p>
     </div>
   );
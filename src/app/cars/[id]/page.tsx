@@ -4,6 +4,20 @@ import { notFound } from "next/navigation";
 import { createClient } from "@/lib/supabase/server";
 import { piClassName, piClassColor } from "@/lib/piClass";
 import { getProfile } from "@/lib/auth/getProfile";
+import {
+  getActivePricingPolicy,
+  getUnitPricingPolicies,
+  getUnitRateModifiers,
+} from "@/lib/pricingPolicy";
+import { getUnitCancellationPolicies } from "@/lib/cancellationPolicy";
+import { getUnitOperatingHours } from "@/lib/unitOperatingHours";
+import { describeOperatingHours, mergeOperatingHours } from "@/lib/operatingHours";
+import { OCCUPYING_BOOKING_STATUSES } from "@/lib/bookingLifecycle";
+import {
+  describeCancellationPolicy,
+  CANCELLATION_PRESET_LABELS,
+  type CancellationPolicy,
+} from "@/lib/cancellation";
 import PriceDisplay from "@/components/PriceDisplay";
 import ColorFilter from "./ColorFilter";
 import ScheduleCalendar from "./ScheduleCalendar";
@@ -70,7 +84,7 @@ export default async function CarModelDetailPage({
     : (allUnits ?? []);
 
   // ---- Availability check ----
-  // For each filtered unit, check for overlapping CONFIRMED bookings and
+  // For each filtered unit, check for overlapping bookings and
   // overlapping blackout windows within the next 24 hours as a simple
   // "available now" heuristic.
   const now = new Date().toISOString();
@@ -86,9 +100,9 @@ export default async function CarModelDetailPage({
       .from("bookings")
       .select("car_unit_id")
       .in("car_unit_id", unitIds)
-      .eq("status", "CONFIRMED")
+      .in("status", OCCUPYING_BOOKING_STATUSES)
       .lt("start_ts", next24h)
-      .gt("end_ts", now);
+      .gt("blocked_until", now);
 
     const bookedIds = new Set(
       (overlappingBookings ?? []).map((b) => b.car_unit_id)
@@ -131,6 +145,46 @@ export default async function CarModelDetailPage({
   const startingPrice = unitPrices.length > 0 
     ? Math.min(...unitPrices) 
     : suggestedCph;
+
+  // ---- Pricing policies (unit override → business → platform) ----
+  const unitPolicies = await getUnitPricingPolicies(
+    allActiveUnits.map((u) => u.id)
+  );
+  const startingUnit = allActiveUnits.find(
+    (u) => (u.credits_per_hour ?? suggestedCph) === startingPrice
+  );
+  const pricingPolicy =
+    (startingUnit && unitPolicies.get(startingUnit.id)) ??
+    (await getActivePricingPolicy());
+  const rateModifiers = startingUnit
+    ? (await getUnitRateModifiers([startingUnit])).get(startingUnit.id) ?? []
+    : [];
+  // ---- Cancellation policies (one per business offering this model) ----
+  const unitCancellation = await getUnitCancellationPolicies(
+    allActiveUnits.map((u) => u.id)
+  );
+  const cancellationByBusiness = new Map<string, { name: string; policy: CancellationPolicy }>();
+  for (const u of allActiveUnits) {
+    const policy = unitCancellation.get(u.id);
+    if (!policy || cancellationByBusiness.has(u.business_id)) continue;
+    cancellationByBusiness.set(u.business_id, {
+      name: (u.businesses as unknown as { name: string } | null)?.name ?? "—",
+      policy,
+    });
+  }
+  const cancellationPolicies = Array.from(cancellationByBusiness.values());
+  const sharedCancellation = new Set(cancellationPolicies.map((c) => c.policy.id)).size === 1;
+
+  // ---- Operating hours (closed times are greyed out in the calendar) ----
+  const unitHours = await getUnitOperatingHours(filteredUnits.map((u) => u.id));
+  const operatingHours = mergeOperatingHours(Array.from(unitHours.values()));
+
+  const minDurationMinutes =
+    unitPolicies.size > 0
+      ? Math.min(
+          ...Array.from(unitPolicies.values()).map((p) => p.minDurationMinutes)
+        )
+      : pricingPolicy.minDurationMinutes;
   
   // Model is available if ANY active unit has no overlapping booking/blackout
   // We check against ALL units (not filtered by color)
@@ -142,9 +196,9 @@ export default async function CarModelDetailPage({
       .from("bookings")
       .select("car_unit_id")
       .in("car_unit_id", allUnitIds)
-      .eq("status", "CONFIRMED")
+      .in("status", OCCUPYING_BOOKING_STATUSES)
       .lt("start_ts", next24h)
-      .gt("end_ts", now);
+      .gt("blocked_until", now);
 
     const allBookedIds = new Set(
       (allOverlappingBookings ?? []).map((b) => b.car_unit_id)
@@ -267,6 +321,7 @@ export default async function CarModelDetailPage({
               hourlyRate={startingPrice}
               marketHourlyRate={marketHourlyRate}
               isAvailable={modelAvailableNow}
+              dayCapHours={pricingPolicy.dayCapHours}
               variant="full"
               className="mt-5"
             />
@@ -308,9 +363,59 @@ export default async function CarModelDetailPage({
               suggestedCph={startingPrice ?? suggestedCph}
               colorFilter={colorFilter ?? undefined}
               isAuthenticated={isAuthenticated}
+              pricingPolicy={pricingPolicy}
+              rateModifiers={rateModifiers}
+              minDurationMinutes={minDurationMinutes}
+              operatingHours={operatingHours}
             />
           </div>
 
+          {/* ---- Operating Hours ---- */}
+          {operatingHours && (
+            <div className="mt-6 rounded-xl border border-gray-200 bg-white p-5">
+              <h2 className="text-sm font-semibold uppercase tracking-wider text-gray-500">
+                Pick-up &amp; Return Hours
+              </h2>
+              <ul className="mt-3 space-y-0.5 text-xs text-gray-500">
+                {describeOperatingHours(operatingHours).map((line) => (
+                  <li key={line}>• {line}</li>
+                ))}
+              </ul>
+              <p className="mt-2 text-xs text-gray-400">
+                Multi-day rentals keep the car overnight; only pick-up and return need
+                to be within these hours.
+              </p>
+            </div>
+          )}
+
+          {/* ---- Cancellation Policy ---- */}
+          {cancellationPolicies.length > 0 && (
+            <div className="mt-6 rounded-xl border border-gray-200 bg-white p-5">
+              <h2 className="text-sm font-semibold uppercase tracking-wider text-gray-500">
+                Cancellation Policy
+              </h2>
+              <div className="mt-3 space-y-3">
+                {(sharedCancellation ? cancellationPolicies.slice(0, 1) : cancellationPolicies).map(
+                  ({ name, policy }) => (
+                    <div key={name}>
+                      <p className="text-sm font-medium text-gray-900">
+                        {CANCELLATION_PRESET_LABELS[policy.preset]}
+                        {!sharedCancellation && (
+                          <span className="ml-2 font-normal text-gray-400">{name}</span>
+                        )}
+                      </p>
+                      <ul className="mt-1 space-y-0.5 text-xs text-gray-500">
+                        {describeCancellationPolicy(policy).map((line) => (
+                          <li key={line}>• {line}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  )
+                )}
+              </div>
+            </div>
+          )}
+
           {/* ---- Available Units ---- */}
           <div className="mt-10 rounded-xl border border-gray-200 bg-gray-50 p-5">
             <h2 className="text-sm font-semibold uppercase tracking-wider text-gray-500">
@@ -330,7 +435,7 @@ export default async function CarModelDetailPage({
               {startingPrice && (
                 <span className="text-gray-400">
                   {" "}
-                  · from {startingPrice} cr/hr ({startingPrice * 5}/day)
+                  · from {startingPrice} cr/hr ({startingPrice * pricingPolicy.dayCapHours}/day)
                 </span>
               )}
             </p>
@@ -344,6 +449,7 @@ export default async function CarModelDetailPage({
                     )?.name ?? "—";
                   const unitLabel = u.display_name ?? displayName;
                   const cph = u.credits_per_hour ?? suggestedCph;
+                  const unitPolicy = unitPolicies.get(u.id) ?? pricingPolicy;
                   const isAvailable = !busyUnitIds.has(u.id);
                   const unitThumb = u.thumb_path
                     ? `/api/storage/car-images/${u.thumb_path}`
@@ -402,7 +508,12 @@ export default async function CarModelDetailPage({
                                 </span>
                               )}
                             </div>
-                            <span className="text-xs text-gray-400">{cph * 5}/day</span>
+                            <span className="text-xs text-gray-400">{cph * unitPolicy.dayCapHours}/day</span>
+                            {unitPolicy.weeklyBillableDays && (
+                              <span className="block text-xs text-gray-400">
+                                {cph * unitPolicy.dayCapHours * unitPolicy.weeklyBillableDays}/week
+                              </span>
+                            )}
                           </div>
                         ) : (
                           <span className="text-gray-400">—</span>
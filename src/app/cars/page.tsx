@@ -7,6 +7,14 @@ import CarFilters from "@/components/CarFilters";
 import CompareToggleButton from "@/components/CompareToggleButton";
 import { PriceCompact } from "@/components/PriceDisplay";
 import { getImageUrl } from "@/lib/supabase/getImageUrl";
+import {
+  applyCatalogFilters,
+  CATALOG_PAGE_SIZE,
+  parseLocalWindow,
+  windowSearchArgs,
+  type WindowSearchRow,
+} from "@/lib/carCatalog";
+import { formatUtcForDisplay } from "@/lib/timezone";
 
 /** Tiny 1×1 grey pixel used as a blur placeholder while images load. */
 const BLUR_PLACEHOLDER =
@@ -15,7 +23,7 @@ const BLUR_PLACEHOLDER =
 /** Number of images above the fold that should load eagerly (no lazy load). */
 const PRIORITY_COUNT = 4;
 
-const PAGE_SIZE = 24;
+const PAGE_SIZE = CATALOG_PAGE_SIZE;
 const HISTOGRAM_BINS = 15;
 
 // ---------------------------------------------------------------------------
@@ -32,37 +40,14 @@ interface Props {
     priceMin?: string;
     priceMax?: string;
     availableNow?: string;
+    /** Rental window, "yyyy-MM-ddTHH:mm" in Central Time */
+    start?: string;
+    end?: string;
   }>;
 }
 
-// ---------------------------------------------------------------------------
-// Helper: build non-price filter predicates on a Supabase query
-// ---------------------------------------------------------------------------
-
 type Params = Awaited<Props["searchParams"]>;
 
-function applyBaseFilters<T extends { eq: (col: string, val: unknown) => T; or: (filter: string) => T }>(
-  query: T,
-  params: Params
-): T {
-  if (params.manufacturer) {
-    query = query.eq("manufacturer", params.manufacturer) as T;
-  }
-  if (params.class) {
-    query = query.eq("class", params.class) as T;
-  }
-  if (params.source_game) {
-    query = query.eq("source_game", params.source_game) as T;
-  }
-  if (params.q) {
-    const safe = params.q.replace(/"/g, "");
-    query = query.or(
-      `manufacturer.ilike."%${safe}%",model.ilike."%${safe}%"`
-    ) as T;
-  }
-  return query;
-}
-
 // ---------------------------------------------------------------------------
 // Data fetchers
 // ---------------------------------------------------------------------------
@@ -99,7 +84,7 @@ async function getPriceStats(params: Params) {
     .select("starting_price")
     .not("starting_price", "is", null);
 
-  query = applyBaseFilters(query, params);
+  query = applyCatalogFilters(query, params);
 
   const { data } = await query;
   const prices = (data ?? [])
@@ -140,6 +125,78 @@ async function getPriceStats(params: Params) {
   return { min, max, histogram: bins };
 }
 
+/**
+ * One page of the catalog: the price-enriched view with the filters applied,
+ * available cars first, then by manufacturer/model.
+ */
+async function getCatalogPage(
+  params: Params,
+  priceMin: number | undefined,
+  priceMax: number | undefined,
+  availableOnly: boolean,
+  offset: number
+) {
+  const supabase = await createClient();
+  let query = supabase
+    .from("car_models_with_price")
+    .select("*", { count: "exact" })
+    .order("available_unit_count", { ascending: false, nullsFirst: false })
+    .order("manufacturer")
+    .order("model")
+    .range(offset, offset + PAGE_SIZE - 1);
+
+  // Non-price filters
+  query = applyCatalogFilters(query, params);
+
+  if (priceMin !== undefined) {
+    query = query.gte("starting_price", priceMin);
+  }
+  if (priceMax !== undefined) {
+    query = query.lte("starting_price", priceMax);
+  }
+
+  // Available now filter (default ON)
+  if (availableOnly) {
+    query = query.gt("available_unit_count", 0);
+  }
+
+  const { data, count } = await query;
+  return { cars: data ?? [], count: count ?? 0, windowCounts: null };
+}
+
+/**
+ * One page of the models with a unit free for the rental window (filtered
+ * and paged in SQL), with the free units per model.
+ */
+async function getWindowPage(
+  searchWindow: { startTs: string; endTs: string },
+  filters: Parameters<typeof windowSearchArgs>[1],
+  offset: number
+) {
+  const supabase = await createClient();
+  const { data: matches } = await supabase.rpc(
+    "search_car_models_free_between",
+    windowSearchArgs(searchWindow, filters, offset)
+  );
+  const rows = (matches ?? []) as WindowSearchRow[];
+  const windowCounts = new Map(rows.map((r) => [r.car_model_id, r.free_unit_count]));
+
+  if (rows.length === 0) {
+    return { cars: [], count: 0, windowCounts };
+  }
+
+  const { data } = await supabase
+    .from("car_models_with_price")
+    .select("*")
+    .in("id", rows.map((r) => r.car_model_id));
+
+  // Keep the search's order (manufacturer, model)
+  const byId = new Map((data ?? []).map((c) => [c.id as string, c]));
+  const cars = rows.flatMap((r) => byId.get(r.car_model_id) ?? []);
+
+  return { cars, count: rows[0].total_count, windowCounts };
+}
+
 /** Resolve best display URL: thumb (storage) > original (storage) > image_url (e.g. wiki). */
 async function resolveCarDisplayImageUrl(car: {
   thumb_path?: string | null;
@@ -167,54 +224,42 @@ export default async function CarsPage({ searchParams }: Props) {
   const currentPage = Number.isFinite(parsed) && parsed >= 1 ? parsed : 1;
   const offset = (currentPage - 1) * PAGE_SIZE;
 
-  const supabase = await createClient();
+  // Rental window search: only models with a unit free for the window
+  const rentalWindow = parseLocalWindow(params.start, params.end);
+  const searchWindow = rentalWindow && "startTs" in rentalWindow ? rentalWindow : null;
+  const windowError = rentalWindow && "error" in rentalWindow ? rentalWindow.error : null;
 
   // Default availableNow to true if not explicitly set
-  // This means first-time visitors see available cars by default
-  const showAvailableOnly = params.availableNow !== "false" && params.availableNow !== "0";
-
-  // --- Build the query against the price-enriched view ---
-  // Sort by availability first (available cars on top), then by manufacturer/model
-  let query = supabase
-    .from("car_models_with_price")
-    .select("*", { count: "exact" })
-    .order("available_unit_count", { ascending: false, nullsFirst: false })
-    .order("manufacturer")
-    .order("model")
-    .range(offset, offset + PAGE_SIZE - 1);
-
-  // Non-price filters
-  query = applyBaseFilters(query, params);
+  // This means first-time visitors see available cars by default.
+  // A rental window replaces the "now" check.
+  const showAvailableOnly =
+    !searchWindow && params.availableNow !== "false" && params.availableNow !== "0";
 
   // Price filters
   const priceMinVal = parseInt(params.priceMin ?? "", 10);
   const priceMaxVal = parseInt(params.priceMax ?? "", 10);
-  if (Number.isFinite(priceMinVal)) {
-    query = query.gte("starting_price", priceMinVal);
-  }
-  if (Number.isFinite(priceMaxVal)) {
-    query = query.lte("starting_price", priceMaxVal);
-  }
+  const priceMin = Number.isFinite(priceMinVal) ? priceMinVal : undefined;
+  const priceMax = Number.isFinite(priceMaxVal) ? priceMaxVal : undefined;
 
-  // Available now filter (default ON)
-  if (showAvailableOnly) {
-    query = query.gt("available_unit_count", 0);
-  }
-
-  const [{ data: cars, count }, manufacturers, sourceGames, priceStats] =
+  const [{ cars, count, windowCounts }, manufacturers, sourceGames, priceStats] =
     await Promise.all([
-      query,
+      searchWindow
+        ? getWindowPage(searchWindow, { ...params, priceMin, priceMax }, offset)
+        : getCatalogPage(params, priceMin, priceMax, showAvailableOnly, offset),
       getManufacturers(),
       getSourceGames(),
       getPriceStats(params),
     ]);
 
-  const totalPages = Math.ceil((count ?? 0) / PAGE_SIZE);
+  const totalPages = Math.ceil(count / PAGE_SIZE);
 
   // Resolve display URLs (thumb or original from Storage, else wiki image_url)
   const carsWithUrls = await Promise.all(
-    (cars ?? []).map(async (c) => ({
+    cars.map(async (c) => ({
       ...c,
+      available_unit_count: windowCounts
+        ? windowCounts.get(c.id) ?? 0
+        : c.available_unit_count,
       displayImageUrl: await resolveCarDisplayImageUrl(c),
     }))
   );
@@ -227,7 +272,17 @@ export default async function CarsPage({ searchParams }: Props) {
           Browse Cars
         </h1>
         <p className="mt-1 text-gray-500">
-          {count ?? 0} car{count !== 1 ? "s" : ""} in the catalog
+          {searchWindow ? (
+            <>
+              {count} car{count !== 1 ? "s" : ""} free from{" "}
+              {formatUtcForDisplay(searchWindow.startTs, "EEE, MMM d h:mm a")} to{" "}
+              {formatUtcForDisplay(searchWindow.endTs, "EEE, MMM d h:mm a")}
+            </>
+          ) : (
+            <>
+              {count} car{count !== 1 ? "s" : ""} in the catalog
+            </>
+          )}
         </p>
       </div>
 
@@ -240,6 +295,10 @@ export default async function CarsPage({ searchParams }: Props) {
         />
       </Suspense>
 
+      {windowError && (
+        <p className="mt-3 text-sm text-red-600">{windowError}</p>
+      )}
+
       {/* Grid */}
       {carsWithUrls.length > 0 ? (
         <div className="mt-8 grid gap-5 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
@@ -274,7 +333,7 @@ export default async function CarsPage({ searchParams }: Props) {
                 {car.available_unit_count > 0 && (
                   <div className="absolute top-2 right-2 z-10 flex items-center gap-1 rounded-full bg-accent-sand px-2 py-0.5 text-[11px] font-bold text-gray-900 shadow-sm">
                     <span className="inline-block h-1.5 w-1.5 rounded-full bg-accent-caramel animate-pulse" />
-                    {car.available_unit_count} available
+                    {car.available_unit_count} {searchWindow ? "free" : "available"}
                   </div>
                 )}
 
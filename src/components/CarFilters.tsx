@@ -97,6 +97,11 @@ export default function CarFilters({
 
   const current = (key: string) => searchParams.get(key) ?? "";
 
+  // Rental window ("yyyy-MM-ddTHH:mm", Central Time) — applied on "Find"
+  const [windowStart, setWindowStart] = useState(() => searchParams.get("start") ?? "");
+  const [windowEnd, setWindowEnd] = useState(() => searchParams.get("end") ?? "");
+  const hasWindow = !!(current("start") && current("end"));
+
   const search = current("q");
   // Default availableNow to true unless explicitly set to "false" or "0"
   const availableNowParam = searchParams.get("availableNow");
@@ -199,6 +204,43 @@ export default function CarFilters({
           </label>
         )}
 
+        {/* Rental window */}
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            updateParams({ start: windowStart, end: windowEnd });
+          }}
+          className="flex items-end gap-2"
+        >
+          <label className="flex flex-col gap-1 text-xs font-medium text-gray-500 uppercase tracking-wider">
+            Pick-up
+            <input
+              type="datetime-local"
+              step={1800}
+              value={windowStart}
+              onChange={(e) => setWindowStart(e.target.value)}
+              className="h-9 rounded-lg border border-gray-300 bg-white px-2 text-sm text-gray-900 focus:border-gray-500 focus:outline-none focus:ring-1 focus:ring-gray-500"
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-xs font-medium text-gray-500 uppercase tracking-wider">
+            Return
+            <input
+              type="datetime-local"
+              step={1800}
+              value={windowEnd}
+              onChange={(e) => setWindowEnd(e.target.value)}
+              className="h-9 rounded-lg border border-gray-300 bg-white px-2 text-sm text-gray-900 focus:border-gray-500 focus:outline-none focus:ring-1 focus:ring-gray-500"
+            />
+          </label>
+          <button
+            type="submit"
+            disabled={!windowStart || !windowEnd}
+            className="h-9 rounded-lg bg-gray-900 px-3 text-sm font-medium text-white transition-colors hover:bg-gray-700 disabled:opacity-40"
+          >
+            Find
+          </button>
+        </form>
+
         {/* More filters toggle */}
         <button
           type="button"
@@ -224,7 +266,11 @@ export default function CarFilters({
         {/* Clear filters */}
         {searchParams.toString() && (
           <button
-            onClick={() => router.push(pathname)}
+            onClick={() => {
+              setWindowStart("");
+              setWindowEnd("");
+              router.push(pathname);
+            }}
             className="h-9 rounded-lg border border-gray-300 px-3 text-sm text-gray-600 transition-colors hover:bg-gray-100"
           >
             Clear
@@ -245,10 +291,11 @@ export default function CarFilters({
                 type="button"
                 role="switch"
                 aria-checked={availableNow}
+                disabled={hasWindow}
                 onClick={() =>
                   updateParam("availableNow", availableNow ? "false" : "")
                 }
-                className={`relative inline-flex h-6 w-11 shrink-0 cursor-pointer rounded-full border-2 border-transparent transition-colors focus:outline-none focus:ring-2 focus:ring-primary/50 focus:ring-offset-2 ${
+                className={`relative inline-flex h-6 w-11 shrink-0 cursor-pointer rounded-full border-2 border-transparent transition-colors focus:outline-none focus:ring-2 focus:ring-primary/50 focus:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-40 ${
                   availableNow ? "bg-primary" : "bg-gray-300"
                 }`}
               >
@@ -259,7 +306,11 @@ export default function CarFilters({
                 />
               </button>
               <span className="text-xs text-gray-500">
-                {availableNow ? "Available now" : "Show all cars"}
+                {hasWindow
+                  ? "Free for your pick-up and return"
+                  : availableNow
+                    ? "Available now"
+                    : "Show all cars"}
               </span>
             </div>
 
@@ -0,0 +1,85 @@
+import Image from "next/image";
+import {
+  CONDITION_REPORT_LABELS,
+  formatFuelLevel,
+  type ConditionReport,
+  type ConditionReportKind,
+} from "@/lib/conditionReport";
+import { formatUtcForDisplay } from "@/lib/timezone";
+
+/**
+ * Read-only condition report: readings, damage notes and photo thumbnails
+ * (each opens the full photo). Shown to the customer and the business.
+ */
+export default function ConditionReportView({
+  kind,
+  report,
+}: {
+  kind: ConditionReportKind;
+  report: ConditionReport | undefined;
+}) {
+  if (!report) {
+    return (
+      <p className="text-sm text-gray-400">
+        No {CONDITION_REPORT_LABELS[kind].toLowerCase()} report yet.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <dl className="grid grid-cols-2 gap-3 text-sm sm:grid-cols-3">
+        <div>
+          <dt className="text-xs text-gray-500">Mileage</dt>
+          <dd className="text-gray-900">
+            {report.mileage != null ? report.mileage.toLocaleString() : "—"}
+          </dd>
+        </div>
+        <div>
+          <dt className="text-xs text-gray-500">Fuel</dt>
+          <dd className="text-gray-900">{formatFuelLevel(report.fuelLevel)}</dd>
+        </div>
+        <div>
+          <dt className="text-xs text-gray-500">Recorded</dt>
+          <dd className="text-gray-900">
+            {formatUtcForDisplay(report.updatedAt, "MMM d, h:mm a")}
+          </dd>
+        </div>
+      </dl>
+
+      <div>
+        <p className="text-xs text-gray-500">Damage notes</p>
+        <p className="mt-0.5 whitespace-pre-line text-sm text-gray-900">
+          {report.damageNotes ?? "No damage noted."}
+        </p>
+      </div>
+
+      {report.photos.length > 0 && (
+        <ul className="flex flex-wrap gap-2">
+          {report.photos.map((photo) =>
+            photo.thumbUrl ? (
+              <li key={photo.id}>
+                <a
+                  href={photo.imageUrl ?? photo.thumbUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  title={`Added ${formatUtcForDisplay(photo.createdAt, "MMM d, h:mm a")}`}
+                >
+                  <div className="relative h-24 w-24 overflow-hidden rounded-lg border border-gray-200 hover:opacity-80">
+                    <Image
+                      src={photo.thumbUrl}
+                      alt={`${CONDITION_REPORT_LABELS[kind]} photo`}
+                      fill
+                      sizes="96px"
+                      className="object-cover"
+                    />
+                  </div>
+                </a>
+              </li>
+            ) : null
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+import { DAMAGE_CLAIM_STATUS_LABELS, type DamageClaim } from "@/lib/deposits";
+import { formatUtcForDisplay } from "@/lib/timezone";
+
+const STATUS_STYLES: Record<DamageClaim["status"], string> = {
+  OPEN: "bg-amber-100 text-amber-800",
+  ACCEPTED: "bg-gray-100 text-gray-600",
+  DISPUTED: "bg-red-50 text-red-600",
+  RESOLVED: "bg-gray-100 text-gray-600",
+};
+
+function fmt(iso: string) {
+  return formatUtcForDisplay(iso, "MMM d, h:mm a");
+}
+
+/**
+ * Read-only damage claim: what was claimed and why, the customer's answer
+ * and the admin's decision. Shown to the customer, the business and admins.
+ */
+export default function DamageClaimSummary({
+  claim,
+  deposit,
+}: {
+  claim: DamageClaim;
+  /** Deposit the claim is against, in credits */
+  deposit: number;
+}) {
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-medium text-gray-900">
+          {claim.amount_credits} of {deposit} credits claimed
+        </span>
+        <span
+          className={`inline-block rounded-full px-2 py-0.5 text-xs font-semibold ${STATUS_STYLES[claim.status]}`}
+        >
+          {DAMAGE_CLAIM_STATUS_LABELS[claim.status]}
+        </span>
+        <span className="text-xs text-gray-400">Filed {fmt(claim.created_at)}</span>
+      </div>
+
+      <p className="whitespace-pre-line text-gray-700">{claim.description}</p>
+
+      {claim.responded_at && (
+        <div className="border-l-2 border-gray-200 pl-3">
+          <p className="text-xs text-gray-500">
+            Customer {claim.status === "ACCEPTED" ? "accepted" : "disputed"} ·{" "}
+            {fmt(claim.responded_at)}
+          </p>
+          {claim.customer_response && (
+            <p className="mt-0.5 whitespace-pre-line text-gray-700">{claim.customer_response}</p>
+          )}
+        </div>
+      )}
+
+      {claim.status === "RESOLVED" && claim.resolved_at && (
+        <div className="border-l-2 border-gray-200 pl-3">
+          <p className="text-xs text-gray-500">
+            Resolved by an admin · {fmt(claim.resolved_at)} ·{" "}
+            {claim.captured_credits
+              ? `${claim.captured_credits} credits kept`
+              : "claim rejected"}
+          </p>
+          {claim.resolution_note && (
+            <p className="mt-0.5 whitespace-pre-line text-gray-700">{claim.resolution_note}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -58,7 +58,11 @@ export default async function Navbar() {
                 <>
                   <NavLink href="/biz/fleet">Fleet</NavLink>
                   <NavLink href="/biz/bookings">Bookings</NavLink>
+                  <NavLink href="/biz/calendar">Calendar</NavLink>
                   <NavLink href="/biz/blackouts">Blackouts</NavLink>
+                  <NavLink href="/biz/hours">Hours</NavLink>
+                  <NavLink href="/biz/pricing">Pricing</NavLink>
+                  <NavLink href="/biz/promos">Promos</NavLink>
                 </>
               )}
 
@@ -67,6 +71,9 @@ export default async function Navbar() {
                 <>
                   <NavLink href="/admin/users">Users</NavLink>
                   <NavLink href="/admin/businesses">Businesses</NavLink>
+                  <NavLink href="/admin/promos">Promos</NavLink>
+                  <NavLink href="/admin/claims">Claims</NavLink>
+                  <NavLink href="/admin/credit-requests">Credit requests</NavLink>
                   <NavLink href="/admin/audit">Audit</NavLink>
                 </>
               )}
@@ -8,6 +8,8 @@
  * - Strikethrough market price when discounted
  */
 
+import { DAY_HOURS_CAP } from "@/lib/pricing";
+
 interface PriceDisplayProps {
   /** Current hourly rate (what customer pays) */
   hourlyRate: number;
@@ -15,24 +17,25 @@ interface PriceDisplayProps {
   marketHourlyRate?: number | null;
   /** Whether the car is currently available */
   isAvailable: boolean;
+  /** Day cap of the active pricing policy (day rate = hourly × cap) */
+  dayCapHours?: number;
   /** Variant: 'full' for detail page, 'compact' for card */
   variant?: "full" | "compact";
   /** Additional CSS classes */
   className?: string;
 }
 
-// Day price = hourly rate × 5 (5-hour cap per day)
-const DAY_MULTIPLIER = 5;
-
 export default function PriceDisplay({
   hourlyRate,
   marketHourlyRate,
   isAvailable,
+  dayCapHours = DAY_HOURS_CAP,
   variant = "full",
   className = "",
 }: PriceDisplayProps) {
-  const dailyRate = hourlyRate * DAY_MULTIPLIER;
-  const marketDailyRate = marketHourlyRate ? marketHourlyRate * DAY_MULTIPLIER : null;
+  // Day price = hourly rate × day cap hours
+  const dailyRate = hourlyRate * dayCapHours;
+  const marketDailyRate = marketHourlyRate ? marketHourlyRate * dayCapHours : null;
 
   // Calculate discount if current price is less than market price
   const hasDiscount =
@@ -153,10 +156,11 @@ export function PriceCompact({
   hourlyRate,
   marketHourlyRate,
   isAvailable,
+  dayCapHours = DAY_HOURS_CAP,
   className = "",
 }: Omit<PriceDisplayProps, "variant">) {
-  const dailyRate = hourlyRate * DAY_MULTIPLIER;
-  const marketDailyRate = marketHourlyRate ? marketHourlyRate * DAY_MULTIPLIER : null;
+  const dailyRate = hourlyRate * dayCapHours;
+  const marketDailyRate = marketHourlyRate ? marketHourlyRate * dayCapHours : null;
 
   const hasDiscount =
     marketHourlyRate != null && hourlyRate < marketHourlyRate;
@@ -0,0 +1,156 @@
+"use client";
+
+import { useState, useRef } from "react";
+import { PI_CLASSES } from "@/lib/piClass";
+
+interface PromoCodeFormProps {
+  /** Server action that creates the code */
+  action: (formData: FormData) => Promise<{ success: boolean; error?: string }>;
+  /** Businesses to scope the code to (admin only; omit for business users) */
+  businesses?: { id: string; name: string }[];
+}
+
+export default function PromoCodeForm({ action, businesses }: PromoCodeFormProps) {
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState(false);
+  const [discountType, setDiscountType] = useState<"PERCENT" | "FIXED">("PERCENT");
+  const formRef = useRef<HTMLFormElement>(null);
+
+  async function handleSubmit(formData: FormData) {
+    setError(null);
+    setSuccess(false);
+    const res = await action(formData);
+    if (!res.success) {
+      setError(res.error ?? "Failed");
+    } else {
+      formRef.current?.reset();
+      setDiscountType("PERCENT");
+      setSuccess(true);
+      setTimeout(() => setSuccess(false), 3000);
+    }
+  }
+
+  const inputClass =
+    "h-9 rounded-lg border border-gray-300 px-2 text-sm text-gray-900";
+  const labelClass = "flex flex-col gap-1 text-xs font-medium text-gray-500";
+
+  return (
+    <form
+      ref={formRef}
+      action={handleSubmit}
+      className="rounded-xl border border-gray-200 bg-white p-5 shadow-sm"
+    >
+      <h3 className="text-sm font-semibold text-gray-900">Create a promo code</h3>
+
+      <div className="mt-4 flex flex-wrap items-end gap-3">
+        <label className={labelClass}>
+          Code *
+          <input
+            name="code"
+            type="text"
+            required
+            maxLength={32}
+            placeholder="SUMMER25"
+            className={`${inputClass} w-36 uppercase`}
+          />
+        </label>
+
+        <label className={labelClass}>
+          Discount *
+          <div className="flex gap-1">
+            <input
+              name="discount_value"
+              type="number"
+              min={1}
+              max={discountType === "PERCENT" ? 100 : undefined}
+              required
+              className={`${inputClass} w-20`}
+            />
+            <select
+              name="discount_type"
+              value={discountType}
+              onChange={(e) => setDiscountType(e.target.value as "PERCENT" | "FIXED")}
+              className={`${inputClass} w-28`}
+            >
+              <option value="PERCENT">% off</option>
+              <option value="FIXED">credits off</option>
+            </select>
+          </div>
+        </label>
+
+        {businesses && (
+          <label className={labelClass}>
+            Business
+            <select name="business_id" className={`${inputClass} w-44`}>
+              <option value="">All businesses</option>
+              {businesses.map((b) => (
+                <option key={b.id} value={b.id}>
+                  {b.name}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+
+        <label className={labelClass}>
+          PI class
+          <select name="pi_class" className={`${inputClass} w-24`}>
+            <option value="">Any</option>
+            {PI_CLASSES.map((c) => (
+              <option key={c.name} value={c.name}>
+                {c.name}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className={labelClass}>
+          Uses / customer
+          <input
+            name="max_uses_per_user"
+            type="number"
+            min={1}
+            placeholder="∞"
+            className={`${inputClass} w-24`}
+          />
+        </label>
+
+        <label className={labelClass}>
+          Total uses
+          <input
+            name="max_redemptions"
+            type="number"
+            min={1}
+            placeholder="∞"
+            className={`${inputClass} w-24`}
+          />
+        </label>
+
+        <label className={labelClass}>
+          Starts
+          <input name="starts_on" type="date" className={inputClass} />
+        </label>
+
+        <label className={labelClass}>
+          Expires
+          <input name="expires_on" type="date" className={inputClass} />
+        </label>
+
+        <label className="flex h-9 items-center gap-2 text-sm text-gray-700">
+          <input name="first_booking_only" type="checkbox" />
+          First booking only
+        </label>
+
+        <button
+          type="submit"
+          className="h-9 rounded-lg bg-gray-900 px-4 text-sm font-medium text-white hover:bg-gray-700"
+        >
+          Create
+        </button>
+      </div>
+
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+      {success && <p className="mt-2 text-sm text-green-600">Promo code created.</p>}
+    </form>
+  );
+}
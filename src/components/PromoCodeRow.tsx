@@ -0,0 +1,95 @@
+"use client";
+
+import { useState, useTransition } from "react";
+
+export interface PromoCodeListItem {
+  id: string;
+  code: string;
+  discount_type: "PERCENT" | "FIXED";
+  discount_value: number;
+  pi_class: string | null;
+  first_booking_only: boolean;
+  max_uses_per_user: number | null;
+  max_redemptions: number | null;
+  starts_at: string;
+  expires_at: string | null;
+  active: boolean;
+  /** Business name, or "All businesses" for platform codes */
+  scope_label: string;
+  /** Non-canceled bookings that used the code */
+  redemptions: number;
+}
+
+interface Props {
+  promo: PromoCodeListItem;
+  /** Server action that activates / deactivates the code */
+  onSetActive: (
+    promoId: string,
+    active: boolean
+  ) => Promise<{ success: boolean; error?: string }>;
+}
+
+function fmt(iso: string) {
+  return new Date(iso).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+export default function PromoCodeRow({ promo, onSetActive }: Props) {
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+
+  const expired = promo.expires_at !== null && new Date(promo.expires_at) <= new Date();
+
+  function handleToggle() {
+    setError(null);
+    startTransition(async () => {
+      const res = await onSetActive(promo.id, !promo.active);
+      if (!res.success) setError(res.error ?? "Failed");
+    });
+  }
+
+  const rules = [
+    promo.pi_class && `Class ${promo.pi_class}`,
+    promo.first_booking_only && "First booking",
+    promo.max_uses_per_user && `${promo.max_uses_per_user}× per customer`,
+  ].filter(Boolean);
+
+  return (
+    <tr className={`${isPending ? "opacity-50" : ""} ${promo.active && !expired ? "" : "text-gray-400"}`}>
+      <td className="px-6 py-4 font-mono font-medium text-gray-900">{promo.code}</td>
+      <td className="px-6 py-4">
+        {promo.discount_type === "PERCENT"
+          ? `${promo.discount_value}% off`
+          : `${promo.discount_value} cr off`}
+      </td>
+      <td className="px-6 py-4">
+        <p>{promo.scope_label}</p>
+        {rules.length > 0 && <p className="text-xs text-gray-400">{rules.join(" · ")}</p>}
+      </td>
+      <td className="px-6 py-4 text-xs">
+        {fmt(promo.starts_at)} → {promo.expires_at ? fmt(promo.expires_at) : "no expiry"}
+      </td>
+      <td className="px-6 py-4">
+        {promo.redemptions}
+        {promo.max_redemptions ? ` / ${promo.max_redemptions}` : ""}
+      </td>
+      <td className="px-6 py-4">
+        {expired ? (
+          <span className="text-xs text-gray-400">Expired</span>
+        ) : (
+          <button
+            onClick={handleToggle}
+            disabled={isPending}
+            className={`text-sm ${promo.active ? "text-red-500 hover:text-red-700" : "text-gray-600 hover:text-gray-900"}`}
+          >
+            {promo.active ? "Deactivate" : "Reactivate"}
+          </button>
+        )}
+        {error && <p className="mt-1 text-xs text-red-600">{error}</p>}
+      </td>
+    </tr>
+  );
+}
@@ -0,0 +1,42 @@
+import PromoCodeRow, { type PromoCodeListItem } from "./PromoCodeRow";
+
+interface PromoCodeTableProps {
+  promos: PromoCodeListItem[];
+  /** Server action that activates / deactivates a code */
+  onSetActive: (
+    promoId: string,
+    active: boolean
+  ) => Promise<{ success: boolean; error?: string }>;
+}
+
+export default function PromoCodeTable({ promos, onSetActive }: PromoCodeTableProps) {
+  return (
+    <div className="overflow-x-auto rounded-xl border border-gray-200 bg-white shadow-sm">
+      <table className="min-w-full divide-y divide-gray-200 text-sm">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="px-6 py-3 text-left font-medium text-gray-500">Code</th>
+            <th className="px-6 py-3 text-left font-medium text-gray-500">Discount</th>
+            <th className="px-6 py-3 text-left font-medium text-gray-500">Valid for</th>
+            <th className="px-6 py-3 text-left font-medium text-gray-500">Dates</th>
+            <th className="px-6 py-3 text-left font-medium text-gray-500">Redemptions</th>
+            <th className="px-6 py-3 text-left font-medium text-gray-500">Actions</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {promos.length > 0 ? (
+            promos.map((p) => (
+              <PromoCodeRow key={p.id} promo={p} onSetActive={onSetActive} />
+            ))
+          ) : (
+            <tr>
+              <td className="px-6 py-10 text-center text-gray-400" colSpan={6}>
+                No promo codes yet.
+              </td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+/**
+ * Unit tests for the availability timeline
+ *
+ * Run with: npx tsx src/lib/availabilityTimeline.test.ts
+ */
+
+import {
+  findNearestFreeWindow,
+  isUnitFree,
+  type TimelineResponse,
+  type UnitTimeline,
+} from "./availabilityTimeline";
+import { expect, test } from "./testing";
+
+function unit(overrides: Partial<UnitTimeline> = {}): UnitTimeline {
+  return {
+    id: "unit-a",
+    displayName: null,
+    color: null,
+    colorHex: null,
+    turnaroundMinutes: 0,
+    minDurationMinutes: 60,
+    operatingHours: [],
+    intervals: [],
+    ...overrides,
+  };
+}
+
+// Tue Jun 10 2025, all times UTC
+const FROM = "2025-06-10T00:00:00.000Z";
+const TO = "2025-06-11T00:00:00.000Z";
+const PAST = new Date("2025-06-01T00:00:00Z");
+
+// Booked 12:00-14:00 with 60 minutes of turnaround until 15:00
+const BOOKED = unit({
+  turnaroundMinutes: 60,
+  intervals: [
+    { type: "BOOKING", start: "2025-06-10T12:00:00.000Z", end: "2025-06-10T14:00:00.000Z" },
+    { type: "TURNAROUND", start: "2025-06-10T14:00:00.000Z", end: "2025-06-10T15:00:00.000Z" },
+  ],
+});
+
+console.log("\n=== Availability Timeline Tests ===\n");
+
+test("free: no intervals", () => {
+  expect(isUnitFree(unit(), "2025-06-10T12:00:00.000Z", "2025-06-10T14:00:00.000Z")).toBe(true);
+});
+
+test("busy: overlapping booking or its turnaround", () => {
+  expect(isUnitFree(BOOKED, "2025-06-10T13:00:00.000Z", "2025-06-10T14:30:00.000Z")).toBe(false);
+  expect(isUnitFree(BOOKED, "2025-06-10T14:30:00.000Z", "2025-06-10T16:00:00.000Z")).toBe(false);
+  expect(isUnitFree(BOOKED, "2025-06-10T15:00:00.000Z", "2025-06-10T16:00:00.000Z")).toBe(true);
+});
+
+test("busy: own turnaround would run into the next booking", () => {
+  expect(isUnitFree(BOOKED, "2025-06-10T10:00:00.000Z", "2025-06-10T11:30:00.000Z")).toBe(false);
+  expect(isUnitFree(BOOKED, "2025-06-10T10:00:00.000Z", "2025-06-10T11:00:00.000Z")).toBe(true);
+});
+
+test("busy: shorter than the unit's minimum", () => {
+  expect(isUnitFree(unit({ minDurationMinutes: 180 }), "2025-06-10T12:00:00.000Z", "2025-06-10T14:00:00.000Z")).toBe(false);
+});
+
+test("busy: return outside operating hours", () => {
+  // Tuesday 9 AM - 6 PM Central (14:00Z - 23:00Z in June)
+  const hours = unit({ operatingHours: [{ dayOfWeek: 2, startTime: "09:00", endTime: "18:00" }] });
+  expect(isUnitFree(hours, "2025-06-10T15:00:00.000Z", "2025-06-10T23:00:00.000Z")).toBe(true);
+  expect(isUnitFree(hours, "2025-06-10T15:00:00.000Z", "2025-06-10T23:30:00.000Z")).toBe(false);
+});
+
+test("closed intervals alone never block", () => {
+  const closed = unit({
+    intervals: [{ type: "CLOSED", start: FROM, end: TO }],
+  });
+  expect(isUnitFree(closed, "2025-06-10T12:00:00.000Z", "2025-06-10T14:00:00.000Z")).toBe(true);
+});
+
+test("nearest: the requested window when it is free", () => {
+  const timeline: TimelineResponse = { from: FROM, to: TO, units: [BOOKED] };
+  expect(
+    findNearestFreeWindow(timeline, "2025-06-10T16:00:00.000Z", "2025-06-10T18:00:00.000Z", PAST)
+  ).toEqual({ unitId: "unit-a", start: "2025-06-10T16:00:00.000Z", end: "2025-06-10T18:00:00.000Z" });
+});
+
+test("nearest: closest start, earlier or later", () => {
+  const timeline: TimelineResponse = { from: FROM, to: TO, units: [BOOKED] };
+  // 13:00-15:00 requested: the latest earlier start is 9:00 (its turnaround
+  // must end by 12:00), 4h away; 15:00 is 2h away
+  expect(
+    findNearestFreeWindow(timeline, "2025-06-10T13:00:00.000Z", "2025-06-10T15:00:00.000Z", PAST)
+  ).toEqual({ unitId: "unit-a", start: "2025-06-10T15:00:00.000Z", end: "2025-06-10T17:00:00.000Z" });
+  // 11:00-12:00 requested: 10:00-11:00 is 1h earlier, 15:00 is 4h later
+  expect(
+    findNearestFreeWindow(timeline, "2025-06-10T11:00:00.000Z", "2025-06-10T12:00:00.000Z", PAST)
+  ).toEqual({ unitId: "unit-a", start: "2025-06-10T10:00:00.000Z", end: "2025-06-10T11:00:00.000Z" });
+});
+
+test("nearest: any unit of the model", () => {
+  const other = unit({ id: "unit-b" });
+  const timeline: TimelineResponse = { from: FROM, to: TO, units: [BOOKED, other] };
+  expect(
+    findNearestFreeWindow(timeline, "2025-06-10T13:00:00.000Z", "2025-06-10T15:00:00.000Z", PAST)?.unitId
+  ).toBe("unit-b");
+});
+
+test("nearest: nothing that would end past the range", () => {
+  const full = unit({
+    intervals: [{ type: "BLACKOUT", start: FROM, end: "2025-06-10T20:00:00.000Z" }],
+  });
+  const timeline: TimelineResponse = { from: FROM, to: TO, units: [full] };
+  expect(
+    findNearestFreeWindow(timeline, "2025-06-10T12:00:00.000Z", "2025-06-10T16:00:00.000Z", PAST)?.start
+  ).toBe("2025-06-10T20:00:00.000Z");
+  expect(
+    findNearestFreeWindow(timeline, "2025-06-10T12:00:00.000Z", "2025-06-10T17:00:00.000Z", PAST)
+  ).toBe(null);
+});
+
+console.log("\n=== All tests completed ===\n");
@@ -0,0 +1,110 @@
+/**
+ * Per-unit availability timeline (/api/availability/timeline)
+ *
+ * For each unit of a model, the intervals within a date range when it
+ * can't be booked:
+ *   BOOKING     confirmed booking
+ *   TURNAROUND  prep time after a booking (end_ts → blocked_until)
+ *   BLACKOUT    business blackout
+ *   HOLD        another customer is finishing a booking
+ *   CLOSED      outside operating hours (no pick-up or return)
+ *
+ * A window is free on a unit when it overlaps none of the first four,
+ * leaves the unit's own turnaround before the next booking, starts and
+ * ends inside operating hours and meets the unit's minimum duration —
+ * the same rules create_booking enforces.
+ */
+
+import { isWindowOpen, type OperatingWindow } from "./operatingHours";
+
+export type BusyIntervalType = "BOOKING" | "TURNAROUND" | "BLACKOUT" | "HOLD" | "CLOSED";
+
+export interface BusyInterval {
+  type: BusyIntervalType;
+  start: string;
+  end: string;
+}
+
+export interface UnitTimeline {
+  id: string;
+  displayName: string | null;
+  color: string | null;
+  colorHex: string | null;
+  turnaroundMinutes: number;
+  minDurationMinutes: number;
+  /** Weekly hours; empty = always open */
+  operatingHours: OperatingWindow[];
+  intervals: BusyInterval[];
+}
+
+export interface TimelineResponse {
+  from: string;
+  to: string;
+  units: UnitTimeline[];
+}
+
+export interface FreeWindow {
+  unitId: string;
+  start: string;
+  end: string;
+}
+
+export const BUSY_INTERVAL_LABELS: Record<BusyIntervalType, string> = {
+  BOOKING: "Booked",
+  TURNAROUND: "Turnaround",
+  BLACKOUT: "Blackout",
+  HOLD: "Being booked",
+  CLOSED: "Closed",
+};
+
+const SLOT_MS = 30 * 60_000;
+
+/**
+ * Can the unit be booked for [startIso, endIso)?
+ */
+export function isUnitFree(unit: UnitTimeline, startIso: string, endIso: string): boolean {
+  const start = Date.parse(startIso);
+  const end = Date.parse(endIso);
+
+  if (end - start < unit.minDurationMinutes * 60_000) return false;
+  if (!isWindowOpen(unit.operatingHours, startIso, endIso)) return false;
+
+  return !unit.intervals.some((i) => {
+    if (i.type === "CLOSED") return false;
+    // This booking's own turnaround must end before the next booking starts
+    const until = i.type === "BOOKING" ? end + unit.turnaroundMinutes * 60_000 : end;
+    return Date.parse(i.start) < until && Date.parse(i.end) > start;
+  });
+}
+
+/**
+ * The free window of the same length closest to the requested one, moving
+ * the start in 30-minute steps (later first on a tie), on any unit. Only
+ * windows within [notBefore, timeline.to] are considered, since nothing is
+ * known about units outside the fetched range.
+ */
+export function findNearestFreeWindow(
+  timeline: TimelineResponse,
+  startIso: string,
+  endIso: string,
+  notBefore: Date = new Date()
+): FreeWindow | null {
+  const start = Date.parse(startIso);
+  const length = Date.parse(endIso) - start;
+  const earliest = Math.max(Date.parse(timeline.from), notBefore.getTime());
+  const latest = Date.parse(timeline.to) - length;
+
+  const tryAt = (s: number): FreeWindow | null => {
+    if (s < earliest || s > latest) return null;
+    const window = { start: new Date(s).toISOString(), end: new Date(s + length).toISOString() };
+    const unit = timeline.units.find((u) => isUnitFree(u, window.start, window.end));
+    return unit ? { unitId: unit.id, ...window } : null;
+  };
+
+  const steps = Math.ceil(Math.max(start - earliest, latest - start) / SLOT_MS);
+  for (let k = 0; k <= steps; k++) {
+    const found = tryAt(start + k * SLOT_MS) ?? (k > 0 ? tryAt(start - k * SLOT_MS) : null);
+    if (found) return found;
+  }
+  return null;
+}
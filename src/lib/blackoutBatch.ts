@@ -0,0 +1,59 @@
+/**
+ * Bulk and recurring blackouts
+ *
+ * create_blackout_batch() blacks out one unit, every active unit of a model
+ * or the whole fleet, once or repeating daily / weekly in Central Time.
+ * preview_blackout_batch() returns the same plan's size plus the confirmed
+ * bookings it would overlap, so the business can decide what happens to
+ * them before anything is written.
+ */
+
+export const MAX_BLACKOUT_OCCURRENCES = 52;
+
+export type BlackoutFrequency = "ONCE" | "DAILY" | "WEEKLY";
+
+/** What happens to confirmed bookings a new blackout overlaps */
+export type BlackoutConflictAction = "NONE" | "NOTIFY" | "REFUND";
+
+export const BLACKOUT_FREQUENCY_LABELS: Record<BlackoutFrequency, string> = {
+  ONCE: "Once",
+  DAILY: "Every day",
+  WEEKLY: "Every week",
+};
+
+export const BLACKOUT_CONFLICT_ACTION_LABELS: Record<BlackoutConflictAction, string> = {
+  NONE: "Keep the bookings",
+  NOTIFY: "Keep the bookings and message the customers",
+  REFUND: "Cancel the bookings with a full refund",
+};
+
+export interface BlackoutConflict {
+  booking_id: string;
+  customer_email: string;
+  car_unit_id: string;
+  unit_name: string;
+  start_ts: string;
+  end_ts: string;
+  credits_charged: number;
+}
+
+export interface BlackoutBatchPreview {
+  units: number;
+  occurrences: number;
+  blackouts: number;
+  conflicts: BlackoutConflict[];
+}
+
+export interface BlackoutBatchResult {
+  batch_id: string;
+  blackouts: number;
+  conflicts: {
+    booking_id: string;
+    customer_email: string;
+    credits_charged: number;
+    canceled: boolean;
+  }[];
+  notified: number;
+  refunded: number;
+  refund_credits: number;
+}
@@ -0,0 +1,65 @@
+import { createClient } from "@/lib/supabase/server";
+import { getImageUrl } from "@/lib/supabase/getImageUrl";
+import type { ConditionReport, ConditionReportKind } from "@/lib/conditionReport";
+
+/**
+ * Condition reports of a booking with signed photo URLs, keyed by kind.
+ * RLS decides who sees them (the customer, the unit's business, admins),
+ * so callers get an empty map for bookings that aren't theirs.
+ */
+export async function getBookingConditionReports(
+  bookingId: string
+): Promise<Map<ConditionReportKind, ConditionReport>> {
+  const reports = new Map<ConditionReportKind, ConditionReport>();
+
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from("booking_condition_reports")
+    .select(
+      `
+      id,
+      kind,
+      mileage,
+      fuel_level,
+      damage_notes,
+      updated_at,
+      condition_report_photos ( id, image_path, thumb_path, created_at )
+    `
+    )
+    .eq("booking_id", bookingId);
+
+  if (error) {
+    console.error("Failed to load condition reports:", error.message);
+    return reports;
+  }
+
+  for (const row of data ?? []) {
+    const photos = (
+      row.condition_report_photos as {
+        id: string;
+        image_path: string;
+        thumb_path: string;
+        created_at: string;
+      }[]
+    ).sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+    reports.set(row.kind as ConditionReportKind, {
+      id: row.id,
+      kind: row.kind as ConditionReportKind,
+      mileage: row.mileage,
+      fuelLevel: row.fuel_level,
+      damageNotes: row.damage_notes,
+      updatedAt: row.updated_at,
+      photos: await Promise.all(
+        photos.map(async (p) => ({
+          id: p.id,
+          imageUrl: await getImageUrl(p.image_path),
+          thumbUrl: await getImageUrl(p.thumb_path),
+          createdAt: p.created_at,
+        }))
+      ),
+    });
+  }
+
+  return reports;
+}
@@ -0,0 +1,58 @@
+/**
+ * Unit tests for the booking lifecycle helpers
+ *
+ * Run with: npx tsx src/lib/bookingLifecycle.test.ts
+ */
+
+import { lifecycleActions, lateMinutes, lateReturnFee } from "./bookingLifecycle";
+import { expect, test } from "./testing";
+
+const START = new Date("2025-06-10T15:00:00.000Z");
+const END = new Date("2025-06-10T19:00:00.000Z");
+const at = (iso: string) => new Date(iso);
+
+console.log("\n=== Booking Lifecycle Tests ===\n");
+
+test("check-out: from an hour before start until the end", () => {
+  expect(lifecycleActions("CONFIRMED", START, END, at("2025-06-10T13:59:00.000Z")).checkOut).toBe(false);
+  expect(lifecycleActions("CONFIRMED", START, END, at("2025-06-10T14:00:00.000Z")).checkOut).toBe(true);
+  expect(lifecycleActions("CONFIRMED", START, END, at("2025-06-10T18:59:00.000Z")).checkOut).toBe(true);
+  expect(lifecycleActions("CONFIRMED", START, END, END).checkOut).toBe(false);
+});
+
+test("no-show: only a confirmed booking an hour past start", () => {
+  expect(lifecycleActions("CONFIRMED", START, END, at("2025-06-10T15:59:00.000Z")).noShow).toBe(false);
+  expect(lifecycleActions("CONFIRMED", START, END, at("2025-06-10T16:00:00.000Z")).noShow).toBe(true);
+  expect(lifecycleActions("CHECKED_OUT", START, END, at("2025-06-10T16:00:00.000Z")).noShow).toBe(false);
+});
+
+test("check-in: picked-up and late bookings only", () => {
+  expect(lifecycleActions("CHECKED_OUT", START, END, START).checkIn).toBe(true);
+  expect(lifecycleActions("LATE", START, END, START).checkIn).toBe(true);
+  expect(lifecycleActions("CONFIRMED", START, END, START).checkIn).toBe(false);
+  expect(lifecycleActions("RETURNED", START, END, START)).toEqual({
+    checkOut: false,
+    checkIn: false,
+    noShow: false,
+  });
+});
+
+test("late minutes: nothing within the 15-minute grace", () => {
+  expect(lateMinutes(END, at("2025-06-10T18:30:00.000Z"))).toBe(0);
+  expect(lateMinutes(END, at("2025-06-10T19:15:00.000Z"))).toBe(0);
+  expect(lateMinutes(END, at("2025-06-10T19:16:30.000Z"))).toBe(16);
+});
+
+test("late fee: extra time priced hourly, then day-capped", () => {
+  expect(lateReturnFee(END, at("2025-06-10T19:10:00.000Z"), 10)).toBe(0);
+  // 2h 20m late → 3 billable hours
+  expect(lateReturnFee(END, at("2025-06-10T21:20:00.000Z"), 10)).toBe(30);
+  // 8 hours late → capped at the day rate (5 × 10)
+  expect(lateReturnFee(END, at("2025-06-11T03:00:00.000Z"), 10)).toBe(50);
+});
+
+test("late fee: no rate, no fee", () => {
+  expect(lateReturnFee(END, at("2025-06-10T22:00:00.000Z"), 0)).toBe(0);
+});
+
+console.log("\n=== All tests completed ===\n");
@@ -0,0 +1,98 @@
+/**
+ * Booking lifecycle
+ *
+ *   CONFIRMED ──check-out──▶ CHECKED_OUT ──check-in──▶ RETURNED
+ *       │                         │                       ▲
+ *       ├──▶ CANCELED             └──past end + grace──▶ LATE
+ *       └──▶ NO_SHOW (not picked up)
+ *
+ * Transitions are enforced in SQL by handle_booking_status_change(), which
+ * also records each one in audit_log. A late return is charged the
+ * booking's pricing policy for the extra time, at the rate it was booked
+ * at — the same rule business_check_in_booking() applies.
+ */
+
+import { calculateRentalPrice, type PricingPolicy } from "./pricing";
+
+export type BookingStatus =
+  | "CONFIRMED"
+  | "CHECKED_OUT"
+  | "LATE"
+  | "RETURNED"
+  | "NO_SHOW"
+  | "CANCELED";
+
+export const BOOKING_STATUS_LABELS: Record<BookingStatus, string> = {
+  CONFIRMED: "Confirmed",
+  CHECKED_OUT: "Picked up",
+  LATE: "Late",
+  RETURNED: "Returned",
+  NO_SHOW: "No-show",
+  CANCELED: "Canceled",
+};
+
+/** Statuses that hold the unit (bookings_no_overlap, availability) */
+export const OCCUPYING_BOOKING_STATUSES: BookingStatus[] = [
+  "CONFIRMED",
+  "CHECKED_OUT",
+  "LATE",
+  "RETURNED",
+];
+
+/** Statuses still waiting on the business (pick-up or return) */
+export const OPEN_BOOKING_STATUSES: BookingStatus[] = ["CONFIRMED", "CHECKED_OUT", "LATE"];
+
+/** How early before start a car may be handed over */
+export const EARLY_CHECK_OUT_MINUTES = 60;
+
+/** How long after start before a booking can be marked a no-show */
+export const NO_SHOW_AFTER_MINUTES = 60;
+
+/** Minutes past end_ts a return is still on time */
+export const LATE_GRACE_MINUTES = 15;
+
+export interface LifecycleActions {
+  checkOut: boolean;
+  checkIn: boolean;
+  noShow: boolean;
+}
+
+/** Which business actions a booking allows at `now` */
+export function lifecycleActions(
+  status: BookingStatus,
+  startTs: Date,
+  endTs: Date,
+  now: Date = new Date()
+): LifecycleActions {
+  const minutesFromStart = (now.getTime() - startTs.getTime()) / 60_000;
+
+  return {
+    checkOut:
+      status === "CONFIRMED" &&
+      minutesFromStart >= -EARLY_CHECK_OUT_MINUTES &&
+      now < endTs,
+    checkIn: status === "CHECKED_OUT" || status === "LATE",
+    noShow: status === "CONFIRMED" && minutesFromStart >= NO_SHOW_AFTER_MINUTES,
+  };
+}
+
+/** Whole minutes a car came back after end_ts (0 within the grace period) */
+export function lateMinutes(endTs: Date, returnedAt: Date): number {
+  const minutes = Math.floor((returnedAt.getTime() - endTs.getTime()) / 60_000);
+  return minutes > LATE_GRACE_MINUTES ? minutes : 0;
+}
+
+/**
+ * Late-return fee: the extra time priced like a rental of that length
+ * (surge and promos don't apply). Mirrors business_check_in_booking().
+ */
+export function lateReturnFee(
+  endTs: Date,
+  returnedAt: Date,
+  hourlyRate: number,
+  policy?: PricingPolicy
+): number {
+  const minutes = lateMinutes(endTs, returnedAt);
+  if (minutes === 0 || hourlyRate <= 0) return 0;
+  return calculateRentalPrice(minutes, hourlyRate, policy).totalCredits;
+}
@@ -0,0 +1,47 @@
+import { z } from "zod";
+
+export const MAX_SERIES_OCCURRENCES = 52;
+
+/**
+ * Request body for /api/book/series and /api/book/series/preview.
+ * startTs/endTs are the first occurrence; give either `occurrences` or
+ * `untilDate` (a calendar day in BUSINESS_TIMEZONE), not both.
+ */
+export const bookingSeriesSchema = z
+  .object({
+    unitId: z.string().uuid("Invalid unit ID"),
+    startTs: z.string().datetime("Invalid start timestamp"),
+    endTs: z.string().datetime("Invalid end timestamp"),
+    frequency: z.enum(["DAILY", "WEEKLY"], "Repeat must be daily or weekly"),
+    occurrences: z
+      .number()
+      .int("Occurrences must be a whole number")
+      .min(2, "A series is at least 2 occurrences")
+      .max(MAX_SERIES_OCCURRENCES, `A series is at most ${MAX_SERIES_OCCURRENCES} occurrences`)
+      .optional(),
+    untilDate: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid end date")
+      .optional(),
+  })
+  .refine((v) => (v.occurrences === undefined) !== (v.untilDate === undefined), {
+    message: "Give either a number of occurrences or an end date",
+  });
+
+export type SeriesConflict = "PAST" | "CLOSED" | "BOOKED" | "BLACKOUT" | "HELD";
+
+export interface SeriesOccurrence {
+  occurrence: number;
+  startTs: string;
+  endTs: string;
+  conflict: SeriesConflict | null;
+  credits: number;
+}
+
+export const SERIES_CONFLICT_LABELS: Record<SeriesConflict, string> = {
+  PAST: "Already started",
+  CLOSED: "Outside operating hours",
+  BOOKED: "Already booked",
+  BLACKOUT: "Unavailable (blackout)",
+  HELD: "Being booked by someone else",
+};
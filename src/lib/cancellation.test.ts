@@ -0,0 +1,97 @@
+/**
+ * Unit tests for cancellation refund policies
+ *
+ * Run with: npx tsx src/lib/cancellation.test.ts
+ */
+
+import {
+  cancellationPolicyFromRow,
+  describeCancellationPolicy,
+  modificationRefund,
+  refundPctFor,
+  DEFAULT_CANCELLATION_POLICY,
+  type CancellationPolicy,
+} from "./cancellation";
+import { expect, test } from "./testing";
+
+const STRICT: CancellationPolicy = {
+  id: "strict",
+  preset: "STRICT",
+  tiers: [
+    { hoursBefore: 48, refundPct: 100 },
+    { hoursBefore: 24, refundPct: 50 },
+  ],
+};
+
+const FLEXIBLE: CancellationPolicy = {
+  id: "flexible",
+  preset: "FLEXIBLE",
+  tiers: [
+    { hoursBefore: 1, refundPct: 100 },
+    { hoursBefore: 0, refundPct: 50 },
+  ],
+};
+
+console.log("\n=== Cancellation Policy Tests ===\n");
+
+// Test 1: Default policy matches the previous hardcoded tiers
+test("moderate: 100% / 50% / 0% around 6h and 1h", () => {
+  expect(refundPctFor(DEFAULT_CANCELLATION_POLICY, 24)).toBe(100);
+  expect(refundPctFor(DEFAULT_CANCELLATION_POLICY, 6)).toBe(100);
+  expect(refundPctFor(DEFAULT_CANCELLATION_POLICY, 5.5)).toBe(50);
+  expect(refundPctFor(DEFAULT_CANCELLATION_POLICY, 1)).toBe(50);
+  expect(refundPctFor(DEFAULT_CANCELLATION_POLICY, 0.5)).toBe(0);
+});
+
+// Test 2: A zero-hour tier covers everything up to pick-up, not after
+test("flexible: 50% right before pick-up, nothing after it", () => {
+  expect(refundPctFor(FLEXIBLE, 0.25)).toBe(50);
+  expect(refundPctFor(FLEXIBLE, 0)).toBe(50);
+  expect(refundPctFor(FLEXIBLE, -1)).toBe(0);
+});
+
+// Test 3: Rows are sorted by notice regardless of stored order
+test("fromRow: tiers sorted by hours_before descending", () => {
+  const policy = cancellationPolicyFromRow({
+    id: "x",
+    preset: "CUSTOM",
+    tiers: [
+      { hours_before: 2, refund_pct: 25 },
+      { hours_before: 72, refund_pct: 100 },
+      { hours_before: 12, refund_pct: 75 },
+    ],
+  });
+  expect(policy.tiers.map((t) => t.hoursBefore)).toEqual([72, 12, 2]);
+  expect(refundPctFor(policy, 13)).toBe(75);
+});
+
+// Test 4: Description lines
+test("describe: strict policy", () => {
+  expect(describeCancellationPolicy(STRICT)).toEqual([
+    "2 days or more before pick-up: 100% refund",
+    "24 hours to 2 days before: 50% refund",
+    "Less than 24 hours before: no refund",
+  ]);
+});
+
+test("describe: flexible policy", () => {
+  expect(describeCancellationPolicy(FLEXIBLE)).toEqual([
+    "1 hour or more before pick-up: 100% refund",
+    "Less than 1 hour before: 50% refund",
+  ]);
+});
+
+// Test 5: Lowering the price refunds the reduction at the current tier
+test("modify: shortening refunds the reduction at the cancellation tier", () => {
+  expect(modificationRefund(STRICT, 300, 100, 72)).toBe(200);
+  expect(modificationRefund(STRICT, 300, 100, 30)).toBe(100);
+  expect(modificationRefund(STRICT, 300, 100, 12)).toBe(0);
+  expect(modificationRefund(STRICT, 301, 100, 30)).toBe(100);
+});
+
+test("modify: nothing back after pick-up or when the price goes up", () => {
+  expect(modificationRefund(FLEXIBLE, 300, 100, -2)).toBe(0);
+  expect(modificationRefund(FLEXIBLE, 100, 300, 24)).toBe(0);
+});
+
+console.log("\n=== All tests completed ===\n");
@@ -0,0 +1,138 @@
+/**
+ * Cancellation refund policies
+ *
+ * A policy is a list of tiers ordered by notice, most first:
+ *   [{ hoursBefore: 6, refundPct: 100 }, { hoursBefore: 1, refundPct: 50 }]
+ * Cancelling at least `hoursBefore` hours before pick-up refunds
+ * `refundPct` % of the credits charged (the first tier that fits wins);
+ * less notice than the last tier refunds nothing.
+ *
+ * The same rule is implemented in SQL by `cancellation_refund_pct()`, which
+ * cancel_booking uses to refund and modify_booking uses when a change lowers
+ * the price. Bookings keep the policy they were made under, so changing a
+ * business's policy only affects new bookings.
+ */
+
+export type CancellationPreset = "FLEXIBLE" | "MODERATE" | "STRICT" | "CUSTOM";
+
+export interface CancellationTier {
+  /** Minimum notice in hours before pick-up */
+  hoursBefore: number;
+  /** Percent of credits refunded (0-100) */
+  refundPct: number;
+}
+
+/** Mirrors a row of the cancellation_policies table */
+export interface CancellationPolicy {
+  id: string | null;
+  preset: CancellationPreset;
+  /** Sorted by hoursBefore descending */
+  tiers: CancellationTier[];
+}
+
+/** Raw cancellation_policies row (tiers as stored in jsonb) */
+export interface CancellationPolicyRow {
+  id: string;
+  preset: CancellationPreset;
+  tiers: { hours_before: number; refund_pct: number }[];
+}
+
+export const CANCELLATION_PRESET_LABELS: Record<CancellationPreset, string> = {
+  FLEXIBLE: "Flexible",
+  MODERATE: "Moderate",
+  STRICT: "Strict",
+  CUSTOM: "Custom",
+};
+
+/**
+ * Platform default — the schedule used before policies were configurable.
+ * Fallback when the database cannot be read.
+ */
+export const DEFAULT_CANCELLATION_POLICY: CancellationPolicy = {
+  id: null,
+  preset: "MODERATE",
+  tiers: [
+    { hoursBefore: 6, refundPct: 100 },
+    { hoursBefore: 1, refundPct: 50 },
+  ],
+};
+
+/**
+ * Map a cancellation_policies row to a CancellationPolicy
+ */
+export function cancellationPolicyFromRow(row: CancellationPolicyRow): CancellationPolicy {
+  return {
+    id: row.id,
+    preset: row.preset,
+    tiers: row.tiers
+      .map((t) => ({ hoursBefore: Number(t.hours_before), refundPct: Number(t.refund_pct) }))
+      .sort((a, b) => b.hoursBefore - a.hoursBefore),
+  };
+}
+
+/**
+ * Refund percentage (0-100) for cancelling `hoursUntilStart` hours before
+ * pick-up — mirrors cancellation_refund_pct() in SQL.
+ */
+export function refundPctFor(policy: CancellationPolicy, hoursUntilStart: number): number {
+  const tier = policy.tiers.find((t) => t.hoursBefore <= hoursUntilStart);
+  return tier?.refundPct ?? 0;
+}
+
+/**
+ * Credits refunded when a change lowers a booking's price from
+ * `creditsBefore` to `creditsAfter`: the reduction is refunded like a
+ * cancellation at `hoursUntilStart` (the booking's current start).
+ * Mirrors modify_booking in SQL.
+ */
+export function modificationRefund(
+  policy: CancellationPolicy,
+  creditsBefore: number,
+  creditsAfter: number,
+  hoursUntilStart: number
+): number {
+  const reduction = creditsBefore - creditsAfter;
+  if (reduction <= 0) return 0;
+  return Math.floor((reduction * refundPctFor(policy, hoursUntilStart)) / 100);
+}
+
+const formatHours = (hours: number) =>
+  hours >= 48 && hours % 24 === 0
+    ? `${hours / 24} days`
+    : `${hours} hour${hours !== 1 ? "s" : ""}`;
+
+/**
+ * Human-readable tier lines, e.g.
+ *   "6 hours or more before pick-up: 100% refund"
+ *   "1 hour to 6 hours before: 50% refund"
+ *   "Less than 1 hour before: no refund"
+ */
+export function describeCancellationPolicy(policy: CancellationPolicy): string[] {
+  const lines: string[] = [];
+
+  policy.tiers.forEach((tier, i) => {
+    const refund = tier.refundPct > 0 ? `${tier.refundPct}% refund` : "no refund";
+    const upper = policy.tiers[i - 1]?.hoursBefore;
+
+    if (upper === undefined) {
+      lines.push(
+        tier.hoursBefore === 0
+          ? `Any time before pick-up: ${refund}`
+          : `${formatHours(tier.hoursBefore)} or more before pick-up: ${refund}`
+      );
+    } else if (tier.hoursBefore === 0) {
+      lines.push(`Less than ${formatHours(upper)} before: ${refund}`);
+    } else {
+      lines.push(`${formatHours(tier.hoursBefore)} to ${formatHours(upper)} before: ${refund}`);
+    }
+  });
+
+  const last = policy.tiers[policy.tiers.length - 1];
+  if (!last) {
+    lines.push("No refunds");
+  } else if (last.hoursBefore > 0) {
+    lines.push(`Less than ${formatHours(last.hoursBefore)} before: no refund`);
+  }
+
+  return lines;
+}
@@ -0,0 +1,38 @@
+import { createClient } from "@/lib/supabase/server";
+import {
+  DEFAULT_CANCELLATION_POLICY,
+  cancellationPolicyFromRow,
+  type CancellationPolicy,
+  type CancellationPolicyRow,
+} from "@/lib/cancellation";
+
+/**
+ * Resolve the cancellation policy new bookings of each car unit would get
+ * (business choice → platform default), keyed by car_unit_id. Units missing
+ * from the result fall back to DEFAULT_CANCELLATION_POLICY.
+ */
+export async function getUnitCancellationPolicies(
+  unitIds: string[]
+): Promise<Map<string, CancellationPolicy>> {
+  const policies = new Map<string, CancellationPolicy>();
+  if (unitIds.length === 0) return policies;
+
+  const supabase = await createClient();
+  const { data, error } = await supabase.rpc("unit_cancellation_policies", {
+    p_unit_ids: unitIds,
+  });
+
+  if (error) {
+    console.error("Failed to resolve cancellation policies:", error.message);
+  }
+
+  for (const row of (data ?? []) as (CancellationPolicyRow & { car_unit_id: string })[]) {
+    policies.set(row.car_unit_id, cancellationPolicyFromRow(row));
+  }
+
+  for (const id of unitIds) {
+    if (!policies.has(id)) policies.set(id, DEFAULT_CANCELLATION_POLICY);
+  }
+
+  return policies;
+}
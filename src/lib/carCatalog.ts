@@ -0,0 +1,125 @@
+/**
+ * Shared catalog helpers for the /cars page and /api/car-models/available
+ *
+ * The rental-window search ("which cars are free Saturday 10:00–18:00?")
+ * runs in SQL: search_car_models_free_between() applies the catalog filters
+ * first, checks free units for the models that pass, and returns one page of
+ * matching model ids with their free unit counts and the total.
+ */
+
+import { fromZonedTime } from "date-fns-tz";
+import { BUSINESS_TIMEZONE } from "./timezone";
+
+export const CATALOG_PAGE_SIZE = 24;
+
+/** Longest window the catalog search accepts */
+export const MAX_WINDOW_DAYS = 30;
+
+export interface CatalogFilters {
+  manufacturer?: string;
+  class?: string;
+  source_game?: string;
+  q?: string;
+}
+
+/** Apply the non-price catalog filters to a car_models_with_price query. */
+export function applyCatalogFilters<T extends { eq: (col: string, val: unknown) => T; or: (filter: string) => T }>(
+  query: T,
+  filters: CatalogFilters
+): T {
+  if (filters.manufacturer) {
+    query = query.eq("manufacturer", filters.manufacturer) as T;
+  }
+  if (filters.class) {
+    query = query.eq("class", filters.class) as T;
+  }
+  if (filters.source_game) {
+    query = query.eq("source_game", filters.source_game) as T;
+  }
+  if (filters.q) {
+    const safe = filters.q.replace(/"/g, "");
+    query = query.or(
+      `manufacturer.ilike."%${safe}%",model.ilike."%${safe}%"`
+    ) as T;
+  }
+  return query;
+}
+
+/** A row of search_car_models_free_between() */
+export interface WindowSearchRow {
+  car_model_id: string;
+  free_unit_count: number;
+  /** Matching models across all pages */
+  total_count: number;
+}
+
+/**
+ * search_car_models_free_between() arguments for one catalog page: the
+ * applyCatalogFilters() filters plus the price range.
+ */
+export function windowSearchArgs(
+  window: { startTs: string; endTs: string },
+  filters: CatalogFilters & { priceMin?: number; priceMax?: number },
+  offset: number
+) {
+  return {
+    p_start_ts: window.startTs,
+    p_end_ts: window.endTs,
+    p_manufacturer: filters.manufacturer || null,
+    p_class: filters.class || null,
+    p_source_game: filters.source_game || null,
+    p_q: filters.q || null,
+    p_price_min: filters.priceMin ?? null,
+    p_price_max: filters.priceMax ?? null,
+    p_limit: CATALOG_PAGE_SIZE,
+    p_offset: offset,
+  };
+}
+
+/**
+ * Why a rental window can't be searched, or null if it can. Mirrors the
+ * booking rules: 30-minute boundaries, end after start, not in the past.
+ */
+export function rentalWindowError(start: Date, end: Date, now: Date = new Date()): string | null {
+  if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) {
+    return "Invalid pick-up or return time";
+  }
+  const aligned = (d: Date) =>
+    d.getUTCSeconds() === 0 && d.getUTCMilliseconds() === 0 && d.getUTCMinutes() % 30 === 0;
+  if (!aligned(start) || !aligned(end)) {
+    return "Times must align to 30-minute boundaries";
+  }
+  if (end <= start) {
+    return "Return must be after pick-up";
+  }
+  if (start < now) {
+    return "Pick-up can't be in the past";
+  }
+  if (end.getTime() - start.getTime() > MAX_WINDOW_DAYS * 24 * 60 * 60 * 1000) {
+    return `Search windows can be at most ${MAX_WINDOW_DAYS} days`;
+  }
+  return null;
+}
+
+const LOCAL_DATETIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/;
+
+/**
+ * Parse the /cars `start` / `end` params ("yyyy-MM-ddTHH:mm", Central Time)
+ * into a UTC window. null when no window was given.
+ */
+export function parseLocalWindow(
+  start: string | undefined,
+  end: string | undefined
+): { startTs: string; endTs: string } | { error: string } | null {
+  if (!start && !end) return null;
+  if (!start || !end || !LOCAL_DATETIME.test(start) || !LOCAL_DATETIME.test(end)) {
+    return { error: "Choose both a pick-up and a return time" };
+  }
+
+  const startDate = fromZonedTime(`${start}:00`, BUSINESS_TIMEZONE);
+  const endDate = fromZonedTime(`${end}:00`, BUSINESS_TIMEZONE);
+  const error = rentalWindowError(startDate, endDate);
+  if (error) return { error };
+
+  return { startTs: startDate.toISOString(), endTs: endDate.toISOString() };
+}
@@ -0,0 +1,28 @@
+/**
+ * Unit tests for the condition report helpers
+ *
+ * Run with: npx tsx src/lib/conditionReport.test.ts
+ */
+
+import { conditionReportEditable } from "./conditionReport";
+import { expect, test } from "./testing";
+
+const RETURNED_AT = new Date("2025-06-10T12:00:00.000Z");
+const hoursLater = (h: number) => new Date(RETURNED_AT.getTime() + h * 60 * 60_000);
+
+console.log("\n=== Condition Report Tests ===\n");
+
+test("editable: pick-up report locks once the car is back", () => {
+  expect(conditionReportEditable("CHECK_OUT", "CHECKED_OUT", null, false)).toBe(true);
+  expect(conditionReportEditable("CHECK_OUT", "RETURNED", RETURNED_AT, false, hoursLater(1))).toBe(false);
+});
+
+test("editable: return report stays open during the claim window only", () => {
+  expect(conditionReportEditable("CHECK_IN", "LATE", null, false)).toBe(true);
+  expect(conditionReportEditable("CHECK_IN", "RETURNED", RETURNED_AT, false, hoursLater(47))).toBe(true);
+  expect(conditionReportEditable("CHECK_IN", "RETURNED", RETURNED_AT, false, hoursLater(49))).toBe(false);
+});
+
+test("editable: a damage claim locks the return report", () => {
+  expect(conditionReportEditable("CHECK_IN", "RETURNED", RETURNED_AT, true, hoursLater(1))).toBe(false);
+});
@@ -0,0 +1,77 @@
+/**
+ * Vehicle condition reports
+ *
+ * Each booking can have a pick-up (CHECK_OUT) and a return (CHECK_IN)
+ * report: mileage, fuel gauge in eighths, damage notes and photos. The
+ * business writes them (business_save_condition_report and the photo
+ * upload route); the customer and the business can both read them.
+ */
+
+import type { BookingStatus } from "./bookingLifecycle";
+import { claimDeadline } from "./deposits";
+
+export type ConditionReportKind = "CHECK_OUT" | "CHECK_IN";
+
+export const CONDITION_REPORT_KINDS: ConditionReportKind[] = ["CHECK_OUT", "CHECK_IN"];
+
+export const CONDITION_REPORT_LABELS: Record<ConditionReportKind, string> = {
+  CHECK_OUT: "Pick-up",
+  CHECK_IN: "Return",
+};
+
+/** Most photos one report can hold */
+export const MAX_CONDITION_PHOTOS = 12;
+
+/** Thumbnail edge in pixels (larger than unit thumbs: damage must be visible) */
+export const CONDITION_THUMB_SIZE = 256;
+
+export interface ConditionPhoto {
+  id: string;
+  /** Signed URLs, valid for an hour */
+  imageUrl: string | null;
+  thumbUrl: string | null;
+  createdAt: string;
+}
+
+export interface ConditionReport {
+  id: string;
+  kind: ConditionReportKind;
+  mileage: number | null;
+  /** 0 = empty … 8 = full */
+  fuelLevel: number | null;
+  damageNotes: string | null;
+  updatedAt: string;
+  photos: ConditionPhoto[];
+}
+
+/** "Empty", "1/8" … "7/8", "Full" */
+export function formatFuelLevel(eighths: number | null): string {
+  if (eighths == null) return "—";
+  if (eighths <= 0) return "Empty";
+  if (eighths >= 8) return "Full";
+  if (eighths === 4) return "1/2";
+  if (eighths % 2 === 0) return `${eighths / 2}/4`;
+  return `${eighths}/8`;
+}
+
+/**
+ * Can the business still write this report (and add photos)? Mirrors
+ * check_condition_report_editable(). The return report is claim evidence:
+ * it locks once a damage claim is filed or the claim window has closed.
+ */
+export function conditionReportEditable(
+  kind: ConditionReportKind,
+  status: BookingStatus,
+  returnedAt: Date | null,
+  hasClaim: boolean,
+  now: Date = new Date()
+): boolean {
+  if (kind === "CHECK_OUT") {
+    return status === "CONFIRMED" || status === "CHECKED_OUT";
+  }
+  if (hasClaim) return false;
+  if (status === "RETURNED") {
+    return returnedAt !== null && now <= claimDeadline(returnedAt);
+  }
+  return status === "CHECKED_OUT" || status === "LATE";
+}
@@ -0,0 +1,113 @@
+/**
+ * Unit tests for the credit bucket helpers
+ *
+ * Run with: npx tsx src/lib/creditBuckets.test.ts
+ */
+
+import {
+  expiringCredits,
+  refundCredits,
+  spendCredits,
+  type CreditBucket,
+  type SpendableBucket,
+} from "./creditBuckets";
+import { expect, test } from "./testing";
+
+const NOW = new Date("2025-06-10T12:00:00.000Z");
+const promo = (remaining: number, expires_at: string | null): CreditBucket => ({
+  source: "PROMOTIONAL",
+  remaining,
+  expires_at,
+});
+
+console.log("\n=== Credit Bucket Tests ===\n");
+
+test("expiring: credits that never expire are not listed", () => {
+  const result = expiringCredits(
+    [{ source: "PURCHASED", remaining: 500, expires_at: null }],
+    NOW
+  );
+  expect(result.length).toBe(0);
+});
+
+test("expiring: soonest first, spent and already-expired buckets skipped", () => {
+  const result = expiringCredits(
+    [
+      promo(30, "2025-07-01T17:00:00.000Z"),
+      promo(0, "2025-06-20T17:00:00.000Z"),
+      promo(20, "2025-06-15T17:00:00.000Z"),
+      promo(10, "2025-06-09T17:00:00.000Z"),
+    ],
+    NOW
+  );
+  expect(result.length).toBe(2);
+  expect(result[0].date).toBe("Jun 15, 2025");
+  expect(result[0].credits).toBe(20);
+  expect(result[1].date).toBe("Jul 1, 2025");
+});
+
+test("expiring: buckets expiring the same Central day are summed", () => {
+  // 01:00Z on the 16th is still the evening of the 15th in Chicago
+  const result = expiringCredits(
+    [promo(20, "2025-06-15T17:00:00.000Z"), promo(5, "2025-06-16T01:00:00.000Z")],
+    NOW
+  );
+  expect(result.length).toBe(1);
+  expect(result[0].date).toBe("Jun 15, 2025");
+  expect(result[0].credits).toBe(25);
+});
+
+const WALLET: SpendableBucket[] = [
+  {
+    id: "standard",
+    source: "STANDARD",
+    remaining: 200,
+    expires_at: null,
+    created_at: "2025-05-01T12:00:00.000Z",
+  },
+  {
+    id: "promo",
+    source: "PROMOTIONAL",
+    remaining: 100,
+    expires_at: "2025-06-15T17:00:00.000Z",
+    created_at: "2025-06-01T12:00:00.000Z",
+  },
+];
+
+test("spend: promotional credits first, then the rest", () => {
+  const { buckets, allocations } = spendCredits(WALLET, 150, NOW);
+  expect(allocations).toEqual([
+    { bucketId: "promo", credits: 100, restored: 0 },
+    { bucketId: "standard", credits: 50, restored: 0 },
+  ]);
+  expect(buckets.find((b) => b.id === "standard")!.remaining).toBe(150);
+});
+
+test("spend: expired buckets are skipped", () => {
+  const { allocations } = spendCredits(WALLET, 50, new Date("2025-06-16T00:00:00.000Z"));
+  expect(allocations).toEqual([{ bucketId: "standard", credits: 50, restored: 0 }]);
+});
+
+test("refund: book with promo, cancel — the credits still expire", () => {
+  const booked = spendCredits(WALLET, 150, NOW);
+  const canceled = refundCredits(booked.buckets, booked.allocations, 150);
+
+  expect(canceled.unallocated).toBe(0);
+  expect(canceled.buckets).toEqual(WALLET);
+  expect(expiringCredits(canceled.buckets, NOW)).toEqual([
+    { date: "Jun 15, 2025", credits: 100 },
+  ]);
+});
+
+test("refund: a partial refund returns the last credits drawn first", () => {
+  const booked = spendCredits(WALLET, 150, NOW);
+  const refunded = refundCredits(booked.buckets, booked.allocations, 75);
+
+  expect(refunded.buckets.find((b) => b.id === "standard")!.remaining).toBe(200);
+  expect(refunded.buckets.find((b) => b.id === "promo")!.remaining).toBe(25);
+
+  // The rest of the debit is still refundable, but no more than that
+  const rest = refundCredits(refunded.buckets, refunded.allocations, 100);
+  expect(rest.unallocated).toBe(25);
+  expect(rest.buckets).toEqual(WALLET);
+});
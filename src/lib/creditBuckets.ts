@@ -0,0 +1,148 @@
+import { formatUtcForDisplay } from "@/lib/timezone";
+
+/**
+ * Credit buckets and expiry
+ *
+ * Every credit entry in credit_ledger opens a bucket (credit_buckets) with
+ * a source and an optional expiry; debits draw the buckets down in spend
+ * order — promotional credits first, then whatever expires soonest, then
+ * the oldest — and expired buckets are removed with a negative ledger
+ * entry. Refunds go back into the buckets the refunded debit drew from.
+ * Enforced in SQL (20250209000041_credit_buckets,
+ * 20250209000048_credit_bucket_refunds); spendCredits() and
+ * refundCredits() mirror the trigger.
+ */
+
+export type CreditSource = "STANDARD" | "PURCHASED" | "PROMOTIONAL";
+
+export const CREDIT_SOURCE_LABELS: Record<CreditSource, string> = {
+  STANDARD: "Credits",
+  PURCHASED: "Purchased",
+  PROMOTIONAL: "Promotional",
+};
+
+/** Longest an admin can make promotional credits last */
+export const MAX_PROMO_EXPIRY_DAYS = 365;
+
+export interface CreditBucket {
+  source: CreditSource;
+  remaining: number;
+  expires_at: string | null;
+}
+
+/** A bucket as the spend order sees it */
+export interface SpendableBucket extends CreditBucket {
+  id: string;
+  created_at: string;
+}
+
+/** Credits one debit took from one bucket (credit_bucket_allocations) */
+export interface BucketAllocation {
+  bucketId: string;
+  credits: number;
+  /** How many refunds have already returned */
+  restored: number;
+}
+
+export interface ExpiringCredits {
+  /** Central-time calendar date, e.g. "Jul 4, 2025" */
+  date: string;
+  credits: number;
+}
+
+/**
+ * Credits still to expire, summed per (Central time) expiry date, soonest
+ * first. Buckets already past their expiry are left out — the hourly
+ * expiry job is about to remove them.
+ */
+export function expiringCredits(buckets: CreditBucket[], now: Date): ExpiringCredits[] {
+  const upcoming = buckets
+    .filter((b) => b.remaining > 0 && b.expires_at && new Date(b.expires_at) > now)
+    .sort((a, b) => a.expires_at!.localeCompare(b.expires_at!));
+
+  const result: ExpiringCredits[] = [];
+  for (const bucket of upcoming) {
+    const date = formatUtcForDisplay(bucket.expires_at!, "MMM d, yyyy");
+    const last = result[result.length - 1];
+    if (last?.date === date) {
+      last.credits += bucket.remaining;
+    } else {
+      result.push({ date, credits: bucket.remaining });
+    }
+  }
+  return result;
+}
+
+/**
+ * Draw `amount` credits from the buckets in spend order: promotional first,
+ * then soonest to expire, then oldest; expired buckets are skipped. Returns
+ * the buckets afterwards and what was taken from each. A shortfall is left
+ * to the account balance, as in SQL.
+ */
+export function spendCredits(
+  buckets: SpendableBucket[],
+  amount: number,
+  now: Date
+): { buckets: SpendableBucket[]; allocations: BucketAllocation[] } {
+  const rank = (b: SpendableBucket) => [
+    b.source === "PROMOTIONAL" ? 0 : 1,
+    b.expires_at ? new Date(b.expires_at).getTime() : Infinity,
+    new Date(b.created_at).getTime(),
+  ];
+  const order = buckets
+    .filter((b) => b.remaining > 0 && (!b.expires_at || new Date(b.expires_at) > now))
+    .sort((a, b) => {
+      const [ra, rb] = [rank(a), rank(b)];
+      return ra[0] - rb[0] || ra[1] - rb[1] || ra[2] - rb[2];
+    });
+
+  const taken = new Map<string, number>();
+  const allocations: BucketAllocation[] = [];
+  let left = amount;
+  for (const bucket of order) {
+    if (left === 0) break;
+    const take = Math.min(bucket.remaining, left);
+    taken.set(bucket.id, take);
+    allocations.push({ bucketId: bucket.id, credits: take, restored: 0 });
+    left -= take;
+  }
+
+  return {
+    buckets: buckets.map((b) =>
+      taken.has(b.id) ? { ...b, remaining: b.remaining - taken.get(b.id)! } : b
+    ),
+    allocations,
+  };
+}
+
+/**
+ * Refund `amount` credits of a debit: they go back into the buckets it drew
+ * from, last drawn first, keeping their source and expiry. `unallocated` is
+ * what had nowhere to go back to — SQL opens a new bucket for it.
+ */
+export function refundCredits(
+  buckets: SpendableBucket[],
+  allocations: BucketAllocation[],
+  amount: number
+): { buckets: SpendableBucket[]; allocations: BucketAllocation[]; unallocated: number } {
+  const restored = new Map<string, number>();
+  let left = amount;
+  const updated = [...allocations]
+    .reverse()
+    .map((allocation) => {
+      const take = Math.min(allocation.credits - allocation.restored, left);
+      if (take <= 0) return allocation;
+      left -= take;
+      restored.set(allocation.bucketId, (restored.get(allocation.bucketId) ?? 0) + take);
+      return { ...allocation, restored: allocation.restored + take };
+    })
+    .reverse();
+
+  return {
+    buckets: buckets.map((b) =>
+      restored.has(b.id) ? { ...b, remaining: b.remaining + restored.get(b.id)! } : b
+    ),
+    allocations: updated,
+    unallocated: left,
+  };
+}
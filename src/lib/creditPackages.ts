@@ -0,0 +1,48 @@
+/**
+ * Self-serve credit packages and purchases (credit_packages /
+ * credit_purchases). Safe for client components — the payment providers
+ * themselves live in src/lib/payments (server-only).
+ */
+
+export type CreditPurchaseStatus = "PENDING" | "PAID" | "FAILED";
+
+export interface CreditPackage {
+  id: string;
+  name: string;
+  credits: number;
+  price_cents: number;
+  currency: string;
+}
+
+export interface CreditPurchase {
+  id: string;
+  credits: number;
+  amount_cents: number;
+  currency: string;
+  status: CreditPurchaseStatus;
+  failure_reason: string | null;
+  created_at: string;
+  paid_at: string | null;
+}
+
+export const CREDIT_PACKAGE_COLUMNS = "id, name, credits, price_cents, currency";
+export const CREDIT_PURCHASE_COLUMNS =
+  "id, credits, amount_cents, currency, status, failure_reason, created_at, paid_at";
+
+export const CREDIT_PURCHASE_STATUS_LABELS: Record<CreditPurchaseStatus, string> = {
+  PENDING: "Awaiting payment",
+  PAID: "Paid",
+  FAILED: "Payment failed",
+};
+
+/** "$45.00" */
+export function formatPrice(cents: number, currency: string): string {
+  return new Intl.NumberFormat("en-US", { style: "currency", currency }).format(
+    cents / 100
+  );
+}
+
+/** Price per credit in cents, for comparing packages */
+export function centsPerCredit(pkg: Pick<CreditPackage, "credits" | "price_cents">): number {
+  return pkg.price_cents / pkg.credits;
+}
@@ -0,0 +1,23 @@
+/**
+ * Unit tests for the credit request helpers
+ *
+ * Run with: npx tsx src/lib/creditRequests.test.ts
+ */
+
+import { decisionStatus } from "./creditRequests";
+import { expect, test } from "./testing";
+
+console.log("\n=== Credit Request Tests ===\n");
+
+test("decision: approving nothing denies the request", () => {
+  expect(decisionStatus(200, 0)).toBe("DENIED");
+});
+
+test("decision: approving the full amount approves it", () => {
+  expect(decisionStatus(200, 200)).toBe("APPROVED");
+});
+
+test("decision: approving part of the amount partly approves it", () => {
+  expect(decisionStatus(200, 150)).toBe("PARTIALLY_APPROVED");
+  expect(decisionStatus(200, 1)).toBe("PARTIALLY_APPROVED");
+});
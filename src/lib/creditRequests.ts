@@ -0,0 +1,62 @@
+/**
+ * Credit requests
+ *
+ * A customer asks for credits (request_credits) and an admin decides the
+ * request from the /admin/credit-requests queue, approving all of it, part
+ * of it, or none. Approved credits are granted through admin_grant_credits.
+ * Enforced in SQL (20250209000042_credit_requests).
+ */
+
+export type CreditRequestStatus =
+  | "PENDING"
+  | "APPROVED"
+  | "PARTIALLY_APPROVED"
+  | "DENIED";
+
+export const CREDIT_REQUEST_STATUS_LABELS: Record<CreditRequestStatus, string> = {
+  PENDING: "Pending review",
+  APPROVED: "Approved",
+  PARTIALLY_APPROVED: "Partly approved",
+  DENIED: "Denied",
+};
+
+export const CREDIT_REQUEST_STATUS_STYLES: Record<CreditRequestStatus, string> = {
+  PENDING: "bg-amber-100 text-amber-800",
+  APPROVED: "bg-green-100 text-green-800",
+  PARTIALLY_APPROVED: "bg-blue-100 text-blue-800",
+  DENIED: "bg-red-100 text-red-800",
+};
+
+/** Most credits a single request can ask for */
+export const MAX_CREDIT_REQUEST = 10_000;
+
+/** Most requests a customer can have waiting for review at once */
+export const MAX_PENDING_CREDIT_REQUESTS = 3;
+
+export interface CreditRequest {
+  id: string;
+  user_id: string;
+  amount: number;
+  note: string | null;
+  status: CreditRequestStatus;
+  approved_credits: number;
+  decision_note: string | null;
+  decided_at: string | null;
+  created_at: string;
+}
+
+export const CREDIT_REQUEST_COLUMNS =
+  "id, user_id, amount, note, status, approved_credits, decision_note, decided_at, created_at";
+
+/**
+ * Status a request ends up in when an admin approves `approved` of the
+ * `requested` credits — mirrors admin_decide_credit_request.
+ */
+export function decisionStatus(
+  requested: number,
+  approved: number
+): Exclude<CreditRequestStatus, "PENDING"> {
+  if (approved <= 0) return "DENIED";
+  if (approved >= requested) return "APPROVED";
+  return "PARTIALLY_APPROVED";
+}
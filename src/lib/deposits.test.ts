@@ -0,0 +1,51 @@
+/**
+ * Unit tests for the security deposit helpers
+ *
+ * Run with: npx tsx src/lib/deposits.test.ts
+ */
+
+import { canFileDamageClaim, claimDeadline, describeDeposit } from "./deposits";
+import { expect, test } from "./testing";
+
+const RETURNED_AT = new Date("2025-06-10T19:00:00.000Z");
+const HELD = { amount: 50, status: "HELD" as const, captured_credits: 0 };
+const at = (iso: string) => new Date(iso);
+
+console.log("\n=== Security Deposit Tests ===\n");
+
+test("claim deadline: 48 hours after the return", () => {
+  expect(claimDeadline(RETURNED_AT).toISOString()).toBe("2025-06-12T19:00:00.000Z");
+});
+
+test("claims: only returned bookings with a held deposit, inside the window", () => {
+  const now = at("2025-06-11T12:00:00.000Z");
+  expect(canFileDamageClaim("RETURNED", RETURNED_AT, HELD, false, now)).toBe(true);
+  expect(canFileDamageClaim("CHECKED_OUT", null, HELD, false, now)).toBe(false);
+  expect(canFileDamageClaim("RETURNED", RETURNED_AT, null, false, now)).toBe(false);
+  expect(
+    canFileDamageClaim("RETURNED", RETURNED_AT, { ...HELD, status: "RELEASED" }, false, now)
+  ).toBe(false);
+});
+
+test("claims: one per booking, and not after the window", () => {
+  expect(canFileDamageClaim("RETURNED", RETURNED_AT, HELD, true, RETURNED_AT)).toBe(false);
+  expect(
+    canFileDamageClaim("RETURNED", RETURNED_AT, HELD, false, at("2025-06-12T19:00:00.000Z"))
+  ).toBe(true);
+  expect(
+    canFileDamageClaim("RETURNED", RETURNED_AT, HELD, false, at("2025-06-12T19:01:00.000Z"))
+  ).toBe(false);
+});
+
+test("describe: held, returned, kept", () => {
+  expect(describeDeposit(HELD)).toBe("50 cr deposit held");
+  expect(describeDeposit({ ...HELD, status: "RELEASED" })).toBe("50 cr deposit returned");
+  expect(describeDeposit({ ...HELD, status: "CAPTURED", captured_credits: 50 })).toBe(
+    "50 cr deposit kept for damage"
+  );
+  expect(describeDeposit({ ...HELD, status: "CAPTURED", captured_credits: 30 })).toBe(
+    "30 of 50 cr deposit kept for damage"
+  );
+});
+
+console.log("\n=== All tests completed ===\n");
@@ -0,0 +1,95 @@
+/**
+ * Security deposits and damage claims
+ *
+ * car_units.deposit_credits is held from the customer's credits when a
+ * booking is created (booking_deposits, a debit in credit_ledger) and
+ * credited back when it is settled: straight away on cancel, no-show or a
+ * return whose condition report notes no damage, otherwise once the claim
+ * window has passed. Within the window the business can claim up to the
+ * whole deposit; the customer accepts or disputes, and an admin resolves
+ * disputes. Enforced in SQL (20250209000038_security_deposits).
+ */
+
+export type DepositStatus = "HELD" | "RELEASED" | "CAPTURED";
+
+export type DamageClaimStatus = "OPEN" | "ACCEPTED" | "DISPUTED" | "RESOLVED";
+
+export const DAMAGE_CLAIM_STATUS_LABELS: Record<DamageClaimStatus, string> = {
+  OPEN: "Awaiting customer",
+  ACCEPTED: "Accepted",
+  DISPUTED: "Disputed",
+  RESOLVED: "Resolved",
+};
+
+/** How long after a return the business can still file a damage claim */
+export const DEPOSIT_CLAIM_WINDOW_HOURS = 48;
+
+/** Largest deposit a unit can ask for */
+export const MAX_DEPOSIT_CREDITS = 10_000;
+
+export interface BookingDeposit {
+  amount: number;
+  status: DepositStatus;
+  captured_credits: number;
+}
+
+export interface DamageClaim {
+  id: string;
+  amount_credits: number;
+  description: string;
+  status: DamageClaimStatus;
+  customer_response: string | null;
+  responded_at: string | null;
+  captured_credits: number | null;
+  resolution_note: string | null;
+  resolved_at: string | null;
+  created_at: string;
+}
+
+/** Columns to select for a DamageClaim */
+export const DAMAGE_CLAIM_COLUMNS =
+  "id, amount_credits, description, status, customer_response, responded_at, captured_credits, resolution_note, resolved_at, created_at";
+
+/**
+ * When the claim window of a return closes
+ */
+export function claimDeadline(returnedAt: Date): Date {
+  return new Date(returnedAt.getTime() + DEPOSIT_CLAIM_WINDOW_HOURS * 60 * 60_000);
+}
+
+/**
+ * Can the business still claim against this booking's deposit? Mirrors
+ * the checks in business_file_damage_claim() except the return report.
+ */
+export function canFileDamageClaim(
+  bookingStatus: string,
+  returnedAt: Date | null,
+  deposit: BookingDeposit | null,
+  hasClaim: boolean,
+  now: Date = new Date()
+): boolean {
+  return (
+    bookingStatus === "RETURNED" &&
+    returnedAt !== null &&
+    deposit?.status === "HELD" &&
+    !hasClaim &&
+    now <= claimDeadline(returnedAt)
+  );
+}
+
+/**
+ * "50 cr deposit held", "50 cr deposit returned",
+ * "30 of 50 cr deposit kept for damage"
+ */
+export function describeDeposit(deposit: BookingDeposit): string {
+  switch (deposit.status) {
+    case "HELD":
+      return `${deposit.amount} cr deposit held`;
+    case "RELEASED":
+      return `${deposit.amount} cr deposit returned`;
+    case "CAPTURED":
+      return deposit.captured_credits === deposit.amount
+        ? `${deposit.amount} cr deposit kept for damage`
+        : `${deposit.captured_credits} of ${deposit.amount} cr deposit kept for damage`;
+  }
+}
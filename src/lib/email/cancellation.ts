@@ -1,4 +1,10 @@
 import { Resend } from "resend";
+import {
+  describeCancellationPolicy,
+  CANCELLATION_PRESET_LABELS,
+  type CancellationPolicy,
+} from "@/lib/cancellation";
+import { formatDateRange, TIMEZONE_LABEL } from "@/lib/timezone";
 
 /**
  * Default "from" address.  Uses Resend's sandbox sender which only
@@ -12,6 +18,8 @@ interface CancellationEmailParams {
   bookingId: string;
   refundCredits: number;
   refundPct: number;
+  /** Policy the refund was computed with (omitted for already-canceled bookings) */
+  policy?: CancellationPolicy;
 }
 
 /**
@@ -27,6 +35,7 @@ export async function sendCancellationEmail({
   bookingId,
   refundCredits,
   refundPct,
+  policy,
 }: CancellationEmailParams): Promise<void> {
   const apiKey = process.env.RESEND_API_KEY;
   if (!apiKey) {
@@ -37,6 +46,16 @@ export async function sendCancellationEmail({
   try {
     const resend = new Resend(apiKey);
     const pctDisplay = Math.round(refundPct * 100);
+    const policyHtml = policy
+      ? `<p style="color: #6b7280; font-size: 14px;">
+           ${pctDisplay < 100 ? "Your refund was reduced under" : "Refund issued under"}
+           the booking's <strong>${CANCELLATION_PRESET_LABELS[policy.preset]}</strong>
+           cancellation policy:
+         </p>
+         <ul style="color: #9ca3af; font-size: 13px; padding-left: 18px;">
+           ${describeCancellationPolicy(policy).map((line) => `<li>${line}</li>`).join("")}
+         </ul>`
+      : "";
 
     await resend.emails.send({
       from: FROM,
@@ -58,14 +77,7 @@ export async function sendCancellationEmail({
               </td>
             </tr>
           </table>
-          ${
-            refundCredits === 0
-              ? `<p style="color: #9ca3af; font-size: 14px;">
-                   No refund was issued because the cancellation was within 1 hour
-                   of the booking start time.
-                 </p>`
-              : ""
-          }
+          ${policyHtml}
           <hr style="border: none; border-top: 1px solid #e5e7eb; margin: 24px 0;" />
           <p style="color: #9ca3af; font-size: 12px;">
             ForzaCars Rentals — this is an automated message.
@@ -78,3 +90,88 @@ export async function sendCancellationEmail({
     console.error("[email] Failed to send cancellation email:", err);
   }
 }
+
+interface BusinessCancellationEmailParams {
+  to: string;
+  bookingId: string;
+  carName: string;
+  startTs: string;
+  endTs: string;
+  refundCredits: number;
+  /** Free text from the business, shown to the customer */
+  reason: string;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Tell a customer the business canceled their booking, why, and that it
+ * was refunded in full.
+ *
+ * Non-critical: errors are logged but not re-thrown. The in-app message
+ * has already been posted by business_cancel_booking().
+ *
+ * If RESEND_API_KEY is not set, the email is skipped silently.
+ */
+export async function sendBusinessCancellationEmail({
+  to,
+  bookingId,
+  carName,
+  startTs,
+  endTs,
+  refundCredits,
+  reason,
+}: BusinessCancellationEmailParams): Promise<void> {
+  const apiKey = process.env.RESEND_API_KEY;
+  if (!apiKey) {
+    console.warn("[email] RESEND_API_KEY not set, skipping business cancellation email");
+    return;
+  }
+
+  try {
+    const resend = new Resend(apiKey);
+    await resend.emails.send({
+      from: FROM,
+      to,
+      subject: "Your booking was canceled — ForzaCars Rentals",
+      html: `
+        <div style="font-family: sans-serif; max-width: 480px; margin: 0 auto;">
+          <h2 style="color: #111827;">Booking Canceled</h2>
+          <p style="color: #374151;">
+            We're sorry — the rental company had to cancel your booking
+            <strong>${bookingId.slice(0, 8)}…</strong> of the
+            <strong>${escapeHtml(carName)}</strong> for
+            <strong>${formatDateRange(startTs, endTs)}</strong> (${TIMEZONE_LABEL}).
+          </p>
+          <p style="color: #374151;">
+            <strong>Reason:</strong> ${escapeHtml(reason)}
+          </p>
+          <table style="width: 100%; border-collapse: collapse; margin: 16px 0;">
+            <tr>
+              <td style="padding: 8px 0; color: #6b7280;">Refund</td>
+              <td style="padding: 8px 0; text-align: right; font-weight: 600; color: #111827;">
+                ${refundCredits} credit${refundCredits !== 1 ? "s" : ""} (100%)
+              </td>
+            </tr>
+          </table>
+          <p style="color: #6b7280; font-size: 14px;">
+            You can reply to the rental company from your messages.
+          </p>
+          <hr style="border: none; border-top: 1px solid #e5e7eb; margin: 24px 0;" />
+          <p style="color: #9ca3af; font-size: 12px;">
+            ForzaCars Rentals — this is an automated message.
+          </p>
+        </div>
+      `,
+    });
+  } catch (err) {
+    // Non-critical: log and continue
+    console.error("[email] Failed to send business cancellation email:", err);
+  }
+}
@@ -0,0 +1,97 @@
+import { Resend } from "resend";
+import { formatDateRange, TIMEZONE_LABEL } from "@/lib/timezone";
+
+/**
+ * Default "from" address.  Uses Resend's sandbox sender which only
+ * delivers to the account owner's email during development.  Replace
+ * with your own verified domain in production.
+ */
+const FROM = "ForzaCars Rentals <onboarding@resend.dev>";
+
+interface ReassignmentEmailParams {
+  to: string;
+  bookingId: string;
+  carName: string;
+  startTs: string;
+  endTs: string;
+  outcome: "REASSIGNED" | "CANCELED";
+  /** Color of the unit the booking moved to (REASSIGNED only) */
+  newColor: string | null;
+  refundCredits: number;
+}
+
+/**
+ * Tell a customer what happened to their booking after its car was taken
+ * out of service: moved to an equivalent car, or canceled and refunded.
+ *
+ * Non-critical: errors are logged but not re-thrown. The in-app message
+ * has already been posted by reassign_unit_bookings().
+ *
+ * If RESEND_API_KEY is not set, the email is skipped silently.
+ */
+export async function sendReassignmentEmail({
+  to,
+  bookingId,
+  carName,
+  startTs,
+  endTs,
+  outcome,
+  newColor,
+  refundCredits,
+}: ReassignmentEmailParams): Promise<void> {
+  const apiKey = process.env.RESEND_API_KEY;
+  if (!apiKey) {
+    console.warn("[email] RESEND_API_KEY not set, skipping reassignment email");
+    return;
+  }
+
+  const when = `<strong>${formatDateRange(startTs, endTs)}</strong> (${TIMEZONE_LABEL})`;
+  const body =
+    outcome === "REASSIGNED"
+      ? `<p style="color: #374151;">
+           The car you booked for ${when} is no longer available, so we moved
+           your booking <strong>${bookingId.slice(0, 8)}…</strong> to an
+           equivalent <strong>${carName}</strong>${newColor ? ` (${newColor})` : ""}.
+         </p>
+         <p style="color: #374151;">Your times and price are unchanged.</p>`
+      : `<p style="color: #374151;">
+           We're sorry — the <strong>${carName}</strong> you booked for ${when}
+           is no longer available and no equivalent car is free then, so your
+           booking <strong>${bookingId.slice(0, 8)}…</strong> was canceled.
+         </p>
+         <table style="width: 100%; border-collapse: collapse; margin: 16px 0;">
+           <tr>
+             <td style="padding: 8px 0; color: #6b7280;">Refund</td>
+             <td style="padding: 8px 0; text-align: right; font-weight: 600; color: #111827;">
+               ${refundCredits} credit${refundCredits !== 1 ? "s" : ""} (100%)
+             </td>
+           </tr>
+         </table>`;
+
+  try {
+    const resend = new Resend(apiKey);
+    await resend.emails.send({
+      from: FROM,
+      to,
+      subject:
+        outcome === "REASSIGNED"
+          ? "Your booking moved to another car — ForzaCars Rentals"
+          : "Your booking was canceled — ForzaCars Rentals",
+      html: `
+        <div style="font-family: sans-serif; max-width: 480px; margin: 0 auto;">
+          <h2 style="color: #111827;">
+            ${outcome === "REASSIGNED" ? "Booking Moved" : "Booking Canceled"}
+          </h2>
+          ${body}
+          <hr style="border: none; border-top: 1px solid #e5e7eb; margin: 24px 0;" />
+          <p style="color: #9ca3af; font-size: 12px;">
+            ForzaCars Rentals — this is an automated message.
+          </p>
+        </div>
+      `,
+    });
+  } catch (err) {
+    // Non-critical: log and continue
+    console.error("[email] Failed to send reassignment email:", err);
+  }
+}
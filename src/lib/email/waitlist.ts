@@ -0,0 +1,80 @@
+import { Resend } from "resend";
+import { formatDateRange, TIMEZONE_LABEL } from "@/lib/timezone";
+
+/**
+ * Default "from" address.  Uses Resend's sandbox sender which only
+ * delivers to the account owner's email during development.  Replace
+ * with your own verified domain in production.
+ */
+const FROM = "ForzaCars Rentals <onboarding@resend.dev>";
+
+interface WaitlistEmailParams {
+  to: string;
+  carName: string;
+  carModelId: string;
+  startTs: string;
+  endTs: string;
+}
+
+/**
+ * Tell a waitlisted customer that a unit freed up for their window.
+ * Returns whether the email was sent, so the caller can retry it later.
+ *
+ * Non-critical: errors are logged but not re-thrown. The in-app message
+ * has already been posted by notify_waitlist().
+ *
+ * If RESEND_API_KEY is not set, the email is skipped (not sent).
+ */
+export async function sendWaitlistEmail({
+  to,
+  carName,
+  carModelId,
+  startTs,
+  endTs,
+}: WaitlistEmailParams): Promise<boolean> {
+  const apiKey = process.env.RESEND_API_KEY;
+  if (!apiKey) {
+    console.warn("[email] RESEND_API_KEY not set, skipping waitlist email");
+    return false;
+  }
+
+  const baseUrl = process.env.APP_BASE_URL ?? "";
+  const carUrl = `${baseUrl}/cars/${carModelId}`;
+
+  try {
+    const resend = new Resend(apiKey);
+    const { error } = await resend.emails.send({
+      from: FROM,
+      to,
+      subject: `${carName} is available — ForzaCars Rentals`,
+      html: `
+        <div style="font-family: sans-serif; max-width: 480px; margin: 0 auto;">
+          <h2 style="color: #111827;">Good news!</h2>
+          <p style="color: #374151;">
+            A <strong>${carName}</strong> you were waiting for is now free for
+            <strong>${formatDateRange(startTs, endTs)}</strong> (${TIMEZONE_LABEL}).
+          </p>
+          <p style="color: #374151;">
+            It is not reserved for you — book it before someone else does:
+          </p>
+          <p style="margin: 16px 0;">
+            <a href="${carUrl}" style="color: #2563eb;">${carUrl}</a>
+          </p>
+          <hr style="border: none; border-top: 1px solid #e5e7eb; margin: 24px 0;" />
+          <p style="color: #9ca3af; font-size: 12px;">
+            ForzaCars Rentals — this is an automated message.
+          </p>
+        </div>
+      `,
+    });
+    if (error) {
+      console.error("[email] Failed to send waitlist email:", error.message);
+      return false;
+    }
+    return true;
+  } catch (err) {
+    // Non-critical: log and continue
+    console.error("[email] Failed to send waitlist email:", err);
+    return false;
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * Unit tests for the fleet calendar helpers
+ *
+ * Run with: npx tsx src/lib/fleetCalendar.test.ts
+ */
+
+import { fleetCalendarRange, snapToSlot } from "./fleetCalendar";
+import { expect, test } from "./testing";
+
+const TODAY = "2025-06-10";
+
+console.log("\n=== Fleet Calendar Tests ===\n");
+
+test("range: defaults to a week from today", () => {
+  const range = fleetCalendarRange(undefined, undefined, TODAY);
+  expect(range.from).toBe("2025-06-10");
+  expect(range.to).toBe("2025-06-16");
+  expect(range.days).toBe(7);
+});
+
+test("range: bounds are Central Time midnights", () => {
+  // CDT is UTC-5
+  const range = fleetCalendarRange("2025-06-10", "2025-06-10", TODAY);
+  expect(range.days).toBe(1);
+  expect(range.startTs).toBe("2025-06-10T05:00:00.000Z");
+  expect(range.endTs).toBe("2025-06-11T05:00:00.000Z");
+});
+
+test("range: spans a DST change", () => {
+  // Clocks go back Nov 2, 2025 (CDT -5 to CST -6)
+  const range = fleetCalendarRange("2025-11-01", "2025-11-02", TODAY);
+  expect(range.startTs).toBe("2025-11-01T05:00:00.000Z");
+  expect(range.endTs).toBe("2025-11-03T06:00:00.000Z");
+});
+
+test("range: invalid params fall back", () => {
+  const range = fleetCalendarRange("next-week", "2025-13-45", TODAY);
+  expect(range.from).toBe(TODAY);
+  expect(range.to).toBe("2025-06-16");
+});
+
+test("range: end before start falls back to a week", () => {
+  const range = fleetCalendarRange("2025-06-20", "2025-06-12", TODAY);
+  expect(range.from).toBe("2025-06-20");
+  expect(range.to).toBe("2025-06-26");
+});
+
+test("range: capped at 31 days", () => {
+  const range = fleetCalendarRange("2025-06-01", "2025-12-31", TODAY);
+  expect(range.to).toBe("2025-07-01");
+  expect(range.days).toBe(31);
+});
+
+test("snap: rounds to the nearest 30 minutes", () => {
+  const base = Date.parse("2025-06-10T12:00:00.000Z");
+  expect(new Date(snapToSlot(base + 14 * 60_000)).toISOString()).toBe("2025-06-10T12:00:00.000Z");
+  expect(new Date(snapToSlot(base + 16 * 60_000)).toISOString()).toBe("2025-06-10T12:30:00.000Z");
+  expect(new Date(snapToSlot(base + 50 * 60_000, 60)).toISOString()).toBe("2025-06-10T13:00:00.000Z");
+});
+
+console.log("\n=== All tests completed ===\n");
@@ -0,0 +1,81 @@
+/**
+ * Fleet calendar helpers for /biz/calendar
+ *
+ * The calendar shows whole days in Central Time. Its range comes from the
+ * `from` / `to` query params ("yyyy-MM-dd", both inclusive); anything
+ * missing or invalid falls back to a week starting today.
+ */
+
+import { fromZonedTime } from "date-fns-tz";
+import { BUSINESS_TIMEZONE } from "./timezone";
+
+/** Days shown when no range is given */
+export const FLEET_CALENDAR_DEFAULT_DAYS = 7;
+
+/** Longest range the calendar loads at once */
+export const FLEET_CALENDAR_MAX_DAYS = 31;
+
+/** Drag selections snap to this grid, like booking times */
+export const FLEET_CALENDAR_SLOT_MINUTES = 30;
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface FleetCalendarRange {
+  /** First day shown (yyyy-MM-dd, Central Time) */
+  from: string;
+  /** Last day shown, inclusive */
+  to: string;
+  days: number;
+  /** UTC bounds of [from 00:00, day after `to` 00:00) */
+  startTs: string;
+  endTs: string;
+}
+
+function isDate(value: string | undefined): value is string {
+  return !!value && DATE_ONLY.test(value) && !Number.isNaN(Date.parse(`${value}T00:00:00Z`));
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+}
+
+/**
+ * Resolve the calendar's date range from its query params. `today` is the
+ * current date in Central Time.
+ */
+export function fleetCalendarRange(
+  fromParam: string | undefined,
+  toParam: string | undefined,
+  today: string
+): FleetCalendarRange {
+  const from = isDate(fromParam) ? fromParam : today;
+
+  let to = isDate(toParam) ? toParam : addDays(from, FLEET_CALENDAR_DEFAULT_DAYS - 1);
+  if (to < from) {
+    to = addDays(from, FLEET_CALENDAR_DEFAULT_DAYS - 1);
+  }
+  if (daysBetween(from, to) >= FLEET_CALENDAR_MAX_DAYS) {
+    to = addDays(from, FLEET_CALENDAR_MAX_DAYS - 1);
+  }
+
+  return {
+    from,
+    to,
+    days: daysBetween(from, to) + 1,
+    startTs: fromZonedTime(`${from}T00:00:00`, BUSINESS_TIMEZONE).toISOString(),
+    endTs: fromZonedTime(`${addDays(to, 1)}T00:00:00`, BUSINESS_TIMEZONE).toISOString(),
+  };
+}
+
+/**
+ * Round a timestamp (ms) to the nearest calendar slot.
+ */
+export function snapToSlot(ms: number, slotMinutes: number = FLEET_CALENDAR_SLOT_MINUTES): number {
+  const slotMs = slotMinutes * 60 * 1000;
+  return Math.round(ms / slotMs) * slotMs;
+}
@@ -0,0 +1,115 @@
+/**
+ * Unit tests for weekly operating hours
+ *
+ * Run with: npx tsx src/lib/operatingHours.test.ts
+ */
+
+import {
+  closedIntervals,
+  describeOperatingHours,
+  isOpenAt,
+  isWindowOpen,
+  mergeOperatingHours,
+  operatingWindowFromRow,
+  type OperatingWindow,
+} from "./operatingHours";
+import { expect, test } from "./testing";
+
+// Monday-Friday 9 AM - 6 PM
+const WEEKDAYS: OperatingWindow[] = [1, 2, 3, 4, 5].map((day) => ({
+  dayOfWeek: day,
+  startTime: "09:00",
+  endTime: "18:00",
+}));
+
+console.log("\n=== Operating Hours Tests ===\n");
+
+test("no hours: always open", () => {
+  expect(isOpenAt(null, 0, "03:00", "pickup")).toBe(true);
+  expect(isOpenAt([], 6, "23:30", "return")).toBe(true);
+});
+
+test("pick-up: opening time included, closing time excluded", () => {
+  expect(isOpenAt(WEEKDAYS, 1, "09:00", "pickup")).toBe(true);
+  expect(isOpenAt(WEEKDAYS, 1, "17:30", "pickup")).toBe(true);
+  expect(isOpenAt(WEEKDAYS, 1, "18:00", "pickup")).toBe(false);
+  expect(isOpenAt(WEEKDAYS, 1, "08:30", "pickup")).toBe(false);
+  expect(isOpenAt(WEEKDAYS, 0, "12:00", "pickup")).toBe(false);
+});
+
+test("return: closing time included, opening time excluded", () => {
+  expect(isOpenAt(WEEKDAYS, 5, "18:00", "return")).toBe(true);
+  expect(isOpenAt(WEEKDAYS, 5, "09:00", "return")).toBe(false);
+  expect(isOpenAt(WEEKDAYS, 6, "12:00", "return")).toBe(false);
+});
+
+test("return at midnight counts as 24:00 of the previous day", () => {
+  const lateFriday: OperatingWindow[] = [{ dayOfWeek: 5, startTime: "18:00", endTime: "24:00" }];
+  expect(isOpenAt(lateFriday, 6, "00:00", "return")).toBe(true);
+  expect(isOpenAt(lateFriday, 5, "00:00", "return")).toBe(false);
+  expect(isOpenAt(lateFriday, 5, "23:30", "pickup")).toBe(true);
+});
+
+test("window: only pick-up and return are checked across closed nights", () => {
+  // Fri Mar 7 2025 5:00 PM CST → Mon Mar 10 10:00 AM CDT (DST in between)
+  expect(isWindowOpen(WEEKDAYS, "2025-03-07T23:00:00Z", "2025-03-10T15:00:00Z")).toBe(true);
+  // Pick-up Sat Mar 8 3:00 AM CST
+  expect(isWindowOpen(WEEKDAYS, "2025-03-08T09:00:00Z", "2025-03-10T15:00:00Z")).toBe(false);
+});
+
+test("window: evaluated in Central time, not UTC", () => {
+  // 14:00Z on Mon Mar 10 2025 is 9:00 AM CDT
+  expect(isWindowOpen(WEEKDAYS, "2025-03-10T14:00:00Z", "2025-03-10T16:00:00Z")).toBe(true);
+  // 14:00Z on Mon Mar 3 2025 is 8:00 AM CST
+  expect(isWindowOpen(WEEKDAYS, "2025-03-03T14:00:00Z", "2025-03-03T16:00:00Z")).toBe(false);
+  // Fri 11:00 PM CDT is already Saturday in UTC
+  const lateFriday: OperatingWindow[] = [{ dayOfWeek: 5, startTime: "18:00", endTime: "24:00" }];
+  expect(isWindowOpen(lateFriday, "2025-06-13T23:00:00Z", "2025-06-14T04:00:00Z")).toBe(true);
+});
+
+test("merge: any always-open unit makes the model always open", () => {
+  expect(mergeOperatingHours([WEEKDAYS, []])).toBe(null);
+  expect(mergeOperatingHours([])).toBe(null);
+});
+
+test("merge: identical windows are listed once", () => {
+  const merged = mergeOperatingHours([WEEKDAYS, WEEKDAYS, [{ dayOfWeek: 6, startTime: "10:00", endTime: "14:00" }]]);
+  expect(merged?.length).toBe(6);
+});
+
+test("row mapping trims seconds", () => {
+  expect(
+    operatingWindowFromRow({ day_of_week: 2, start_time: "09:30:00", end_time: "24:00:00" })
+  ).toEqual({ dayOfWeek: 2, startTime: "09:30", endTime: "24:00" });
+});
+
+test("describe: one line per day", () => {
+  expect(describeOperatingHours(null)).toEqual(["Open 24/7"]);
+  const lines = describeOperatingHours([
+    ...WEEKDAYS,
+    { dayOfWeek: 6, startTime: "18:00", endTime: "24:00" },
+  ]);
+  expect(lines[0]).toBe("Sunday: closed");
+  expect(lines[1]).toBe("Monday: 9:00 AM – 6:00 PM");
+  expect(lines[6]).toBe("Saturday: 6:00 PM – midnight");
+});
+
+test("closed intervals: gaps between windows in Central time", () => {
+  // Mon Mar 10 2025 (CDT): closed until 9 AM and from 6 PM
+  expect(
+    closedIntervals(WEEKDAYS, "2025-03-10T05:00:00Z", "2025-03-11T05:00:00Z")
+  ).toEqual([
+    { start: "2025-03-10T05:00:00.000Z", end: "2025-03-10T14:00:00.000Z" },
+    { start: "2025-03-10T23:00:00.000Z", end: "2025-03-11T05:00:00.000Z" },
+  ]);
+  expect(closedIntervals(null, "2025-03-10T05:00:00Z", "2025-03-11T05:00:00Z")).toEqual([]);
+});
+
+test("closed intervals: closed days merge, windows clipped to the range", () => {
+  // Fri Mar 7 noon CST → Mon Mar 10 noon CDT: closed Fri 6 PM → Mon 9 AM
+  expect(
+    closedIntervals(WEEKDAYS, "2025-03-07T18:00:00Z", "2025-03-10T17:00:00Z")
+  ).toEqual([{ start: "2025-03-08T00:00:00.000Z", end: "2025-03-10T14:00:00.000Z" }]);
+});
+
+console.log("\n=== All tests completed ===\n");
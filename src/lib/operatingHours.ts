@@ -0,0 +1,192 @@
+/**
+ * Weekly operating hours (car_availability_rules)
+ *
+ * Each car unit has zero or more weekly windows in BUSINESS_TIMEZONE:
+ *   [{ dayOfWeek: 5, startTime: "09:00", endTime: "18:00" }]
+ * dayOfWeek is 0 = Sunday … 6 = Saturday; endTime may be "24:00".
+ * A unit with no windows is open around the clock.
+ *
+ * Only pick-up and return have to fall inside a window: a pick-up needs
+ * startTime <= t < endTime, a return startTime < t <= endTime, and a
+ * return at midnight counts as 24:00 of the previous day. The same rule is
+ * implemented in SQL by `unit_open_at()`, which rejects bookings.
+ */
+
+import { formatInTimeZone, fromZonedTime } from "date-fns-tz";
+import { BUSINESS_TIMEZONE } from "./timezone";
+
+export interface OperatingWindow {
+  /** 0 = Sunday … 6 = Saturday */
+  dayOfWeek: number;
+  /** "HH:mm" */
+  startTime: string;
+  /** "HH:mm", up to "24:00" */
+  endTime: string;
+}
+
+/** Raw car_availability_rules row */
+export interface OperatingWindowRow {
+  day_of_week: number;
+  start_time: string;
+  end_time: string;
+}
+
+export const DAY_NAMES = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+/**
+ * Map a car_availability_rules row ("09:00:00") to an OperatingWindow
+ */
+export function operatingWindowFromRow(row: OperatingWindowRow): OperatingWindow {
+  return {
+    dayOfWeek: row.day_of_week,
+    startTime: row.start_time.slice(0, 5),
+    endTime: row.end_time.slice(0, 5),
+  };
+}
+
+/**
+ * Is a pick-up or return at `time` ("HH:mm") on `dayOfWeek` inside the
+ * hours? `null` or an empty list means always open.
+ */
+export function isOpenAt(
+  hours: OperatingWindow[] | null,
+  dayOfWeek: number,
+  time: string,
+  edge: "pickup" | "return"
+): boolean {
+  if (!hours || hours.length === 0) return true;
+
+  let day = dayOfWeek;
+  let t = time;
+  if (edge === "return" && time === "00:00") {
+    day = (dayOfWeek + 6) % 7;
+    t = "24:00";
+  }
+
+  // "HH:mm" strings compare correctly as text
+  return hours.some(
+    (w) =>
+      w.dayOfWeek === day &&
+      (edge === "pickup"
+        ? w.startTime <= t && t < w.endTime
+        : w.startTime < t && t <= w.endTime)
+  );
+}
+
+/**
+ * Are both pick-up and return of a UTC window inside the hours?
+ */
+export function isWindowOpen(
+  hours: OperatingWindow[] | null,
+  startIso: string,
+  endIso: string
+): boolean {
+  const local = (iso: string) => {
+    const [dow, time] = formatInTimeZone(new Date(iso), BUSINESS_TIMEZONE, "i HH:mm").split(" ");
+    return { day: Number(dow) % 7, time };
+  };
+  const start = local(startIso);
+  const end = local(endIso);
+  return (
+    isOpenAt(hours, start.day, start.time, "pickup") &&
+    isOpenAt(hours, end.day, end.time, "return")
+  );
+}
+
+/**
+ * Hours when at least one of several units is open — for a model's
+ * calendar. `null` (always open) if any unit has no hours.
+ */
+export function mergeOperatingHours(perUnit: OperatingWindow[][]): OperatingWindow[] | null {
+  if (perUnit.length === 0 || perUnit.some((h) => h.length === 0)) return null;
+
+  const unique = new Map<string, OperatingWindow>();
+  for (const w of perUnit.flat()) {
+    unique.set(`${w.dayOfWeek} ${w.startTime} ${w.endTime}`, w);
+  }
+  return Array.from(unique.values());
+}
+
+const nextDay = (day: string) =>
+  new Date(Date.parse(`${day}T12:00:00Z`) + 86_400_000).toISOString().slice(0, 10);
+
+const localMs = (day: string, time: string) =>
+  time === "24:00"
+    ? fromZonedTime(`${nextDay(day)}T00:00:00`, BUSINESS_TIMEZONE).getTime()
+    : fromZonedTime(`${day}T${time}:00`, BUSINESS_TIMEZONE).getTime();
+
+/**
+ * Intervals between fromIso and toIso when the hours allow neither pick-up
+ * nor return — the gaps between windows, for calendar display. Empty when
+ * always open.
+ */
+export function closedIntervals(
+  hours: OperatingWindow[] | null,
+  fromIso: string,
+  toIso: string
+): { start: string; end: string }[] {
+  if (!hours || hours.length === 0) return [];
+
+  const from = Date.parse(fromIso);
+  const to = Date.parse(toIso);
+
+  // Open windows of every local day the range touches, in UTC millis
+  const open: [number, number][] = [];
+  const lastDay = formatInTimeZone(new Date(to), BUSINESS_TIMEZONE, "yyyy-MM-dd");
+  for (
+    let day = formatInTimeZone(new Date(from), BUSINESS_TIMEZONE, "yyyy-MM-dd");
+    day <= lastDay;
+    day = nextDay(day)
+  ) {
+    const dayOfWeek = new Date(`${day}T12:00:00Z`).getUTCDay();
+    for (const w of hours) {
+      if (w.dayOfWeek === dayOfWeek) open.push([localMs(day, w.startTime), localMs(day, w.endTime)]);
+    }
+  }
+  open.sort((a, b) => a[0] - b[0]);
+
+  const closed: { start: string; end: string }[] = [];
+  let cursor = from;
+  for (const [start, end] of open) {
+    if (start > cursor && cursor < to) {
+      closed.push({ start: new Date(cursor).toISOString(), end: new Date(Math.min(start, to)).toISOString() });
+    }
+    cursor = Math.max(cursor, end);
+  }
+  if (cursor < to) {
+    closed.push({ start: new Date(cursor).toISOString(), end: new Date(to).toISOString() });
+  }
+  return closed;
+}
+
+const formatClock = (time: string) => {
+  if (time === "24:00") return "midnight";
+  const [h, m] = time.split(":").map(Number);
+  return `${h % 12 || 12}:${m.toString().padStart(2, "0")} ${h >= 12 ? "PM" : "AM"}`;
+};
+
+/**
+ * Human-readable lines, one per day, e.g.
+ *   "Monday: 9:00 AM – 5:00 PM"
+ *   "Sunday: closed"
+ * or ["Open 24/7"] when there are no hours.
+ */
+export function describeOperatingHours(hours: OperatingWindow[] | null): string[] {
+  if (!hours || hours.length === 0) return ["Open 24/7"];
+
+  return DAY_NAMES.map((name, day) => {
+    const windows = hours
+      .filter((w) => w.dayOfWeek === day)
+      .sort((a, b) => a.startTime.localeCompare(b.startTime))
+      .map((w) => `${formatClock(w.startTime)} – ${formatClock(w.endTime)}`);
+    return `${name}: ${windows.length > 0 ? windows.join(", ") : "closed"}`;
+  });
+}
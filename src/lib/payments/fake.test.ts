@@ -0,0 +1,108 @@
+/**
+ * Unit tests for the fake payment provider
+ *
+ * Run with: npx tsx src/lib/payments/fake.test.ts
+ */
+
+import {
+  buildFakeEvent,
+  fakePaymentProvider,
+  isFakeProviderAllowed,
+  signFakeEvent,
+  FAKE_SIGNATURE_HEADER,
+} from "./fake";
+import { getCheckoutProvider, getPaymentProvider } from "./index";
+import { expect, test } from "../testing";
+
+const PURCHASE = {
+  id: "5b0d7c1e-2f43-4a8e-9a51-0c6f3d2b7e19",
+  sessionId: "fake_cs_test",
+  amountCents: 4500,
+  currency: "USD",
+};
+
+function deliver(body: string, signature: string | null = signFakeEvent(body)) {
+  const headers = new Headers();
+  if (signature) headers.set(FAKE_SIGNATURE_HEADER, signature);
+  return fakePaymentProvider.parseWebhook(body, headers);
+}
+
+async function main() {
+  console.log("\n=== Fake Payment Provider Tests ===\n");
+
+  await test("checkout: fake session pointing at the in-app checkout page", async () => {
+    const session = await fakePaymentProvider.createCheckout({
+      purchaseId: PURCHASE.id,
+      amountCents: PURCHASE.amountCents,
+      currency: PURCHASE.currency,
+      description: "500 ForzaCars credits",
+      customerEmail: null,
+      successUrl: "/wallet",
+      cancelUrl: "/wallet",
+    });
+    expect(session.sessionId.startsWith("fake_cs_")).toBe(true);
+    expect(session.url).toBe(`/wallet/checkout/fake?session=${session.sessionId}`);
+  });
+
+  await test("webhook: signed success event is parsed", async () => {
+    const result = await deliver(JSON.stringify(buildFakeEvent("succeeded", PURCHASE)));
+    expect(result.ok).toBe(true);
+    const event = result.ok ? result.event : null;
+    expect(event?.type).toBe("payment.succeeded");
+    expect(event?.purchaseId).toBe(PURCHASE.id);
+    expect(event?.sessionId).toBe(PURCHASE.sessionId);
+    expect(event?.amountCents).toBe(4500);
+  });
+
+  await test("webhook: declined event carries the failure reason", async () => {
+    const result = await deliver(JSON.stringify(buildFakeEvent("failed", PURCHASE)));
+    const event = result.ok ? result.event : null;
+    expect(event?.type).toBe("payment.failed");
+    expect(event?.failureReason).toBe("Card declined (fake checkout)");
+  });
+
+  await test("webhook: tampered body or missing signature is rejected", async () => {
+    const body = JSON.stringify(buildFakeEvent("succeeded", PURCHASE));
+    const tampered = body.replace("4500", "1");
+    expect((await deliver(tampered, signFakeEvent(body))).ok).toBe(false);
+    expect((await deliver(body, null)).ok).toBe(false);
+    expect((await deliver(body, "zz")).ok).toBe(false);
+  });
+
+  await test("webhook: other event types are acknowledged without an event", async () => {
+    const body = JSON.stringify({ ...buildFakeEvent("succeeded", PURCHASE), type: "refund.created" });
+    const result = await deliver(body);
+    expect(result.ok).toBe(true);
+    expect(result.ok && result.event).toBe(null);
+  });
+
+  await test("checkout provider: must be chosen with PAYMENT_PROVIDER", async () => {
+    delete process.env.PAYMENT_PROVIDER;
+    let threw = false;
+    try {
+      getCheckoutProvider();
+    } catch {
+      threw = true;
+    }
+    expect(threw).toBe(true);
+
+    process.env.PAYMENT_PROVIDER = "fake";
+    expect(getCheckoutProvider().name).toBe("fake");
+  });
+
+  await test("production: fake provider is refused for checkout and webhooks", async () => {
+    const env = process.env as Record<string, string | undefined>;
+    const nodeEnv = env.NODE_ENV;
+    env.NODE_ENV = "production";
+    try {
+      expect(isFakeProviderAllowed()).toBe(false);
+      expect(getPaymentProvider("fake")).toBe(null);
+      const body = JSON.stringify(buildFakeEvent("succeeded", PURCHASE));
+      expect((await fakePaymentProvider.parseWebhook(body, new Headers())).ok).toBe(false);
+    } finally {
+      env.NODE_ENV = nodeEnv;
+    }
+  });
+}
+
+main();
@@ -0,0 +1,124 @@
+import { createHmac, randomUUID, timingSafeEqual } from "crypto";
+import { z } from "zod";
+import type { PaymentEvent, PaymentProvider, WebhookResult } from "./types";
+
+/**
+ * Local fake payment provider for developing and testing purchases offline.
+ *
+ * Checkout is a page in the app (/wallet/checkout/fake) where the customer
+ * chooses whether the "card" is accepted or declined; it then delivers a
+ * signed webhook exactly like a real provider would. Events are signed
+ * with HMAC-SHA256 using FAKE_PAYMENTS_SECRET, or a fixed development
+ * secret when it isn't set. Never available in production: it would let
+ * anyone mint credits without paying.
+ */
+
+export const FAKE_PROVIDER = "fake";
+export const FAKE_SIGNATURE_HEADER = "x-fake-payments-signature";
+
+const DEV_SECRET = "fake-payments-dev-secret";
+
+/** False in production, where the fake provider must never take payments */
+export function isFakeProviderAllowed(): boolean {
+  return process.env.NODE_ENV !== "production";
+}
+
+function secret(): string | null {
+  if (!isFakeProviderAllowed()) return null;
+  return process.env.FAKE_PAYMENTS_SECRET ?? DEV_SECRET;
+}
+
+const eventSchema = z.object({
+  id: z.string().min(1),
+  type: z.string(),
+  data: z.object({
+    session_id: z.string().min(1),
+    purchase_id: z.string().uuid(),
+    amount_cents: z.number().int(),
+    currency: z.string().length(3),
+    failure_reason: z.string().optional(),
+  }),
+});
+
+/** Wire format of a fake event, modelled on common provider payloads */
+export type FakeEventBody = z.infer<typeof eventSchema>;
+
+export function signFakeEvent(rawBody: string): string {
+  const key = secret();
+  if (!key) throw new Error("FAKE_PAYMENTS_SECRET is not set");
+  return createHmac("sha256", key).update(rawBody).digest("hex");
+}
+
+/** Build the event a fake checkout delivers when the customer pays or declines */
+export function buildFakeEvent(
+  outcome: "succeeded" | "failed",
+  purchase: { id: string; sessionId: string; amountCents: number; currency: string }
+): FakeEventBody {
+  return {
+    id: `fake_evt_${randomUUID()}`,
+    type: `payment.${outcome}`,
+    data: {
+      session_id: purchase.sessionId,
+      purchase_id: purchase.id,
+      amount_cents: purchase.amountCents,
+      currency: purchase.currency,
+      ...(outcome === "failed" ? { failure_reason: "Card declined (fake checkout)" } : {}),
+    },
+  };
+}
+
+function signatureMatches(rawBody: string, signature: string | null): boolean {
+  if (!signature) return false;
+  const expected = Buffer.from(signFakeEvent(rawBody), "hex");
+  const given = Buffer.from(signature, "hex");
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+export const fakePaymentProvider: PaymentProvider = {
+  name: FAKE_PROVIDER,
+
+  async createCheckout() {
+    if (!secret()) throw new Error("The fake payment provider is disabled");
+    const sessionId = `fake_cs_${randomUUID()}`;
+    return {
+      sessionId,
+      url: `/wallet/checkout/fake?session=${encodeURIComponent(sessionId)}`,
+    };
+  },
+
+  async parseWebhook(rawBody: string, headers: Headers): Promise<WebhookResult> {
+    if (!secret()) return { ok: false, error: "The fake payment provider is disabled" };
+
+    if (!signatureMatches(rawBody, headers.get(FAKE_SIGNATURE_HEADER))) {
+      return { ok: false, error: "Invalid signature" };
+    }
+
+    let json: unknown;
+    try {
+      json = JSON.parse(rawBody);
+    } catch {
+      return { ok: false, error: "Invalid JSON body" };
+    }
+
+    const parsed = eventSchema.safeParse(json);
+    if (!parsed.success) {
+      return { ok: false, error: parsed.error.issues[0].message };
+    }
+
+    const { id, type, data } = parsed.data;
+    if (type !== "payment.succeeded" && type !== "payment.failed") {
+      return { ok: true, event: null };
+    }
+
+    const event: PaymentEvent = {
+      id,
+      type,
+      sessionId: data.session_id,
+      purchaseId: data.purchase_id,
+      amountCents: data.amount_cents,
+      currency: data.currency.toUpperCase(),
+      failureReason: data.failure_reason,
+    };
+    return { ok: true, event };
+  },
+};
@@ -0,0 +1,50 @@
+import { createServiceRoleClient } from "@/lib/supabase/serviceRoleClient";
+import type { PaymentEvent } from "./types";
+
+export type FulfillmentResult =
+  | { ok: true; result: unknown }
+  /** `rejected`: the RPC refused the event (wrong session or amount) */
+  | { ok: false; error: string; rejected: boolean };
+
+/**
+ * Apply a verified payment event to its purchase — payment.succeeded →
+ * fulfill_credit_purchase (credits the ledger once; redeliveries are
+ * no-ops), payment.failed → fail_credit_purchase.
+ *
+ * Server-only: uses the service-role client because the fulfillment RPCs
+ * are service-role only. Callers must have verified the event with its
+ * provider first (PaymentProvider.parseWebhook).
+ */
+export async function applyPaymentEvent(
+  providerName: string,
+  event: PaymentEvent
+): Promise<FulfillmentResult> {
+  const supabase = createServiceRoleClient();
+
+  const { data, error } =
+    event.type === "payment.succeeded"
+      ? await supabase.rpc("fulfill_credit_purchase", {
+          p_purchase_id: event.purchaseId,
+          p_provider: providerName,
+          p_session_id: event.sessionId,
+          p_amount_cents: event.amountCents,
+          p_currency: event.currency,
+        })
+      : await supabase.rpc("fail_credit_purchase", {
+          p_purchase_id: event.purchaseId,
+          p_provider: providerName,
+          p_session_id: event.sessionId,
+          p_reason: event.failureReason ?? "",
+        });
+
+  if (error) {
+    console.error(
+      `[payments] ${providerName} event ${event.id} (${event.type}) failed:`,
+      error.message
+    );
+    // P0001 = RAISE EXCEPTION in the RPC
+    return { ok: false, error: error.message, rejected: error.code === "P0001" };
+  }
+
+  return { ok: true, result: data ?? null };
+}
@@ -0,0 +1,50 @@
+import { fakePaymentProvider, isFakeProviderAllowed } from "./fake";
+import type { PaymentProvider } from "./types";
+
+export type {
+  CheckoutRequest,
+  CheckoutSession,
+  PaymentEvent,
+  PaymentProvider,
+  WebhookResult,
+} from "./types";
+
+/**
+ * Registered payment providers, by name. Add a real provider (Stripe, …)
+ * by implementing PaymentProvider and listing it here; its webhook is then
+ * served at /api/payments/webhook/{name}.
+ *
+ * Server-only: providers hold API secrets.
+ */
+const PROVIDERS: Record<string, PaymentProvider> = {
+  [fakePaymentProvider.name]: fakePaymentProvider,
+};
+
+/** The provider with this name, or null (e.g. an unknown webhook path) */
+export function getPaymentProvider(name: string): PaymentProvider | null {
+  if (name === fakePaymentProvider.name && !isFakeProviderAllowed()) return null;
+  return PROVIDERS[name] ?? null;
+}
+
+/**
+ * The provider new purchases check out with — PAYMENT_PROVIDER, which must
+ * be set. The fake provider is opt-in (PAYMENT_PROVIDER=fake) and refused
+ * in production.
+ */
+export function getCheckoutProvider(): PaymentProvider {
+  const name = process.env.PAYMENT_PROVIDER;
+  if (!name) {
+    throw new Error("PAYMENT_PROVIDER is not set");
+  }
+  const provider = getPaymentProvider(name);
+  if (!provider) {
+    throw new Error(`PAYMENT_PROVIDER "${name}" is unknown or not allowed here`);
+  }
+  return provider;
+}
+
+/** Whether credit packages can be bought (a usable provider is configured) */
+export function isCheckoutAvailable(): boolean {
+  const name = process.env.PAYMENT_PROVIDER;
+  return !!name && getPaymentProvider(name) !== null;
+}
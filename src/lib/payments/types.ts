@@ -0,0 +1,59 @@
+/**
+ * Payment provider interface for credit purchases.
+ *
+ * A provider takes the customer through checkout for a PENDING
+ * credit_purchases row and later reports the outcome to
+ * /api/payments/webhook/[provider]. Fulfillment (fulfill_credit_purchase)
+ * is idempotent, so providers may deliver the same event more than once.
+ */
+
+export interface CheckoutRequest {
+  /** credit_purchases.id — echoed back in the webhook event */
+  purchaseId: string;
+  amountCents: number;
+  /** ISO 4217, upper case */
+  currency: string;
+  /** Line item shown at checkout, e.g. "500 ForzaCars credits" */
+  description: string;
+  customerEmail: string | null;
+  /** Absolute or app-relative URLs to return to afterwards */
+  successUrl: string;
+  cancelUrl: string;
+}
+
+export interface CheckoutSession {
+  /** Provider's id for the checkout, stored on the purchase */
+  sessionId: string;
+  /** Where to send the customer to pay */
+  url: string;
+}
+
+export type PaymentEventType = "payment.succeeded" | "payment.failed";
+
+export interface PaymentEvent {
+  /** Provider's event id (for logging; redeliveries share it) */
+  id: string;
+  type: PaymentEventType;
+  sessionId: string;
+  purchaseId: string;
+  amountCents: number;
+  currency: string;
+  failureReason?: string;
+}
+
+/**
+ * Result of verifying a webhook delivery. `event` is null for event types
+ * the app doesn't act on — acknowledge those so the provider stops
+ * retrying.
+ */
+export type WebhookResult =
+  | { ok: true; event: PaymentEvent | null }
+  | { ok: false; error: string };
+
+export interface PaymentProvider {
+  /** Stored as credit_purchases.provider and used in the webhook URL */
+  readonly name: string;
+  createCheckout(request: CheckoutRequest): Promise<CheckoutSession>;
+  /** Verify the delivery's signature and parse it */
+  parseWebhook(rawBody: string, headers: Headers): Promise<WebhookResult>;
+}
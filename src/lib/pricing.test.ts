@@ -5,7 +5,15 @@
  * Or: npx tsx src/lib/pricing.test.ts (for simple verification)
  */
 
-import { calculateRentalPrice, formatDurationForPricing, getPricingSummary } from "./pricing";
+import {
+  applyPromoDiscount,
+  calculateRentalPrice,
+  formatDurationForPricing,
+  getPricingSummary,
+  DEFAULT_PRICING_POLICY,
+  type PricingPolicy,
+  type RateModifier,
+} from "./pricing";
 
 // Test configuration
 const HOURLY_RATE = 10; // 10 credits/hour for easy math
@@ -183,4 +191,284 @@ test("getPricingSummary - various breakdowns", () => {
   expect(getPricingSummary(calculateRentalPrice(h(48), HOURLY_RATE))).toBe("2 days");
 });
 
+// ---------------------------------------------------------------------------
+// Pricing policies
+// ---------------------------------------------------------------------------
+
+// A hypothetical v2 policy: 8h day cap, 60 min minimum
+const POLICY_8H: PricingPolicy = {
+  id: null,
+  version: 2,
+  dayCapHours: 8,
+  hoursPerDay: 24,
+  minDurationMinutes: 60,
+  weeklyBillableDays: null,
+};
+
+// Default caps plus a weekly tier: 7 days billed as 5
+const POLICY_WEEKLY: PricingPolicy = {
+  ...DEFAULT_PRICING_POLICY,
+  version: 3,
+  weeklyBillableDays: 5,
+};
+const WEEK_RATE = 250; // 5 * 50
+
+// Test 16: Omitting the policy is the same as passing the default
+test("default policy matches implicit pricing", () => {
+  for (const hours of [1, 5, 6, 24, 25, 30, 48, 50]) {
+    expect(calculateRentalPrice(h(hours), HOURLY_RATE, DEFAULT_PRICING_POLICY)).toEqual(
+      calculateRentalPrice(h(hours), HOURLY_RATE)
+    );
+  }
+  expect(calculateRentalPrice(h(1), HOURLY_RATE).policyVersion).toBe(1);
+});
+
+// Test 17: Day cap follows the policy
+test("8h-cap policy: 8 hours hourly, 9 hours day cap", () => {
+  const eight = calculateRentalPrice(h(8), HOURLY_RATE, POLICY_8H);
+  expect(eight.totalCredits).toBe(80);
+  expect(eight.pricingMode).toBe("HOURLY");
+
+  const nine = calculateRentalPrice(h(9), HOURLY_RATE, POLICY_8H);
+  expect(nine.totalCredits).toBe(80); // day rate = 10 * 8
+  expect(nine.pricingMode).toBe("DAY_CAP");
+  expect(nine.dayRate).toBe(80);
+  expect(nine.policyVersion).toBe(2);
+});
+
+// Test 18: Remainder cap follows the policy
+test("8h-cap policy: 30 hours = dayRate + 6 * hourlyRate", () => {
+  const result = calculateRentalPrice(h(30), HOURLY_RATE, POLICY_8H);
+  expect(result.totalCredits).toBe(140); // 80 + 60 (6h ≤ 8h cap)
+  expect(result.remainderCost).toBe(60);
+  expect(getPricingSummary(result)).toBe("1d + 6h");
+});
+
+// Test 19: Weekly tier — full weeks billed at the week rate
+test("weekly tier: 7 days = weekRate, 8 days = weekRate + dayRate", () => {
+  const week = calculateRentalPrice(h(24 * 7), HOURLY_RATE, POLICY_WEEKLY);
+  expect(week.totalCredits).toBe(WEEK_RATE);
+  expect(week.pricingMode).toBe("WEEKLY");
+  expect(week.fullWeeks).toBe(1);
+  expect(week.fullDays).toBe(0);
+
+  const eightDays = calculateRentalPrice(h(24 * 8 + 2), HOURLY_RATE, POLICY_WEEKLY);
+  expect(eightDays.totalCredits).toBe(WEEK_RATE + DAY_RATE + 20);
+  expect(eightDays.fullDays).toBe(1);
+  expect(eightDays.remainderHours).toBe(2);
+  expect(eightDays.remainderCost).toBe(DAY_RATE + 20);
+  expect(getPricingSummary(eightDays)).toBe("1w + 1d + 2h");
+});
+
+// Test 20: Weekly tier — the rest never costs more than another week
+test("weekly tier: 6 days and 13 days round up to whole weeks", () => {
+  const sixDays = calculateRentalPrice(h(24 * 6), HOURLY_RATE, POLICY_WEEKLY);
+  expect(sixDays.totalCredits).toBe(WEEK_RATE); // not 6 * 50
+  expect(sixDays.pricingMode).toBe("WEEKLY");
+  expect(sixDays.fullWeeks).toBe(1);
+
+  const thirteenDays = calculateRentalPrice(h(24 * 13), HOURLY_RATE, POLICY_WEEKLY);
+  expect(thirteenDays.totalCredits).toBe(2 * WEEK_RATE);
+  expect(thirteenDays.fullWeeks).toBe(2);
+  expect(getPricingSummary(thirteenDays)).toBe("2w");
+});
+
+// Test 21: Weekly tier — under a week at or below the week rate stays MULTI_DAY
+test("weekly tier: 5 days stays MULTI_DAY", () => {
+  const result = calculateRentalPrice(h(24 * 5), HOURLY_RATE, POLICY_WEEKLY);
+  expect(result.totalCredits).toBe(WEEK_RATE);
+  expect(result.pricingMode).toBe("MULTI_DAY");
+  expect(result.fullWeeks).toBe(null);
+  expect(result).toEqual({
+    ...calculateRentalPrice(h(24 * 5), HOURLY_RATE),
+    weekRate: WEEK_RATE,
+    policyVersion: 3,
+  });
+});
+
+// Test 22: Matrix — price never decreases as duration grows, and never
+// exceeds straight hourly billing
+test("matrix: monotonic and capped for both policies", () => {
+  for (const policy of [DEFAULT_PRICING_POLICY, POLICY_8H, POLICY_WEEKLY]) {
+    for (const rate of [1, 7, 10, 25]) {
+      let previous = 0;
+      for (let minutes = 30; minutes <= h(24 * 21); minutes += 30) {
+        const { totalCredits, durationHours } = calculateRentalPrice(minutes, rate, policy);
+        if (totalCredits < previous) {
+          throw new Error(`v${policy.version} @${rate}: ${minutes} min cheaper than ${minutes - 30} min`);
+        }
+        if (totalCredits > durationHours * rate) {
+          throw new Error(`v${policy.version} @${rate}: ${minutes} min above hourly price`);
+        }
+        previous = totalCredits;
+      }
+    }
+  }
+});
+
+// ---------------------------------------------------------------------------
+// Surge pricing (times are America/Chicago; June = CDT, UTC-5)
+// ---------------------------------------------------------------------------
+
+const WEEKEND_150: RateModifier = {
+  id: "a-weekend",
+  kind: "WEEKEND",
+  label: "Weekend",
+  multiplierPct: 150,
+  daysOfWeek: null,
+  startTime: null,
+  endTime: null,
+  holidayDate: null,
+};
+
+const EVENING_PEAK_200: RateModifier = {
+  id: "b-peak",
+  kind: "PEAK",
+  label: "Evening peak",
+  multiplierPct: 200,
+  daysOfWeek: [5, 6],
+  startTime: "18:00:00",
+  endTime: "22:00:00",
+  holidayDate: null,
+};
+
+const JULY_4TH: RateModifier = {
+  id: "c-holiday",
+  kind: "HOLIDAY",
+  label: "Independence Day",
+  multiplierPct: 300,
+  daysOfWeek: null,
+  startTime: null,
+  endTime: null,
+  holidayDate: "2025-07-04",
+};
+
+const surge = (start: string, end: string, modifiers: RateModifier[]) => ({
+  start,
+  end,
+  modifiers,
+});
+const minutesBetween = (start: string, end: string) =>
+  (new Date(end).getTime() - new Date(start).getTime()) / 60_000;
+
+// Test 23: Weekday rental is unaffected
+test("surge: Tuesday rental has no surcharge", () => {
+  const start = "2025-06-10T15:00:00Z"; // Tue 10:00
+  const end = "2025-06-10T18:00:00Z";
+  const result = calculateRentalPrice(
+    minutesBetween(start, end), HOURLY_RATE, DEFAULT_PRICING_POLICY,
+    surge(start, end, [WEEKEND_150])
+  );
+  expect(result.totalCredits).toBe(30);
+  expect(result.surchargeCredits).toBe(0);
+  expect(result.surcharges).toEqual([]);
+});
+
+// Test 24: Fully surcharged rental
+test("surge: Saturday 3h at 150% = 1.5 × base", () => {
+  const start = "2025-06-14T15:00:00Z"; // Sat 10:00
+  const end = "2025-06-14T18:00:00Z";
+  const result = calculateRentalPrice(
+    minutesBetween(start, end), HOURLY_RATE, DEFAULT_PRICING_POLICY,
+    surge(start, end, [WEEKEND_150])
+  );
+  expect(result.baseCredits).toBe(30);
+  expect(result.surchargeCredits).toBe(15);
+  expect(result.totalCredits).toBe(45);
+  expect(result.surcharges[0].hours).toBe(3);
+  expect(result.breakdownText).toBe(
+    "3 hours × 10 cr = 30 credits + Weekend ×1.5 (3h) +15 cr = 45 credits"
+  );
+});
+
+// Test 25: Partially surcharged rental crossing midnight into Saturday
+test("surge: Fri 22:00 → Sat 02:00 surcharges only the Saturday half", () => {
+  const start = "2025-06-14T03:00:00Z"; // Fri 22:00
+  const end = "2025-06-14T07:00:00Z"; // Sat 02:00
+  const result = calculateRentalPrice(
+    minutesBetween(start, end), HOURLY_RATE, DEFAULT_PRICING_POLICY,
+    surge(start, end, [WEEKEND_150])
+  );
+  expect(result.baseCredits).toBe(40);
+  expect(result.surcharges[0].hours).toBe(2);
+  expect(result.surchargeCredits).toBe(10); // 40 × (4 × 50) / (8 × 100)
+});
+
+// Test 26: Highest modifier wins per slot; lines itemized per modifier
+test("surge: peak beats weekend where they overlap", () => {
+  const start = "2025-06-14T21:00:00Z"; // Sat 16:00
+  const end = "2025-06-15T01:00:00Z"; // Sat 20:00
+  const result = calculateRentalPrice(
+    minutesBetween(start, end), HOURLY_RATE, DEFAULT_PRICING_POLICY,
+    surge(start, end, [WEEKEND_150, EVENING_PEAK_200])
+  );
+  expect(result.baseCredits).toBe(40);
+  expect(result.surcharges.map((l) => [l.label, l.hours, l.credits])).toEqual([
+    ["Evening peak", 2, 20], // 40 × (4 × 100) / 800
+    ["Weekend", 2, 10], // 40 × (4 × 50) / 800
+  ]);
+  expect(result.totalCredits).toBe(70);
+});
+
+// Test 27: Caps still apply — a surcharged day costs multiplier × day rate
+test("surge: full holiday at 300% = 3 × dayRate", () => {
+  const start = "2025-07-04T05:00:00Z"; // Fri Jul 4 00:00
+  const end = "2025-07-05T05:00:00Z";
+  const result = calculateRentalPrice(
+    minutesBetween(start, end), HOURLY_RATE, DEFAULT_PRICING_POLICY,
+    surge(start, end, [JULY_4TH])
+  );
+  expect(result.pricingMode).toBe("DAY_CAP");
+  expect(result.baseCredits).toBe(DAY_RATE);
+  expect(result.totalCredits).toBe(3 * DAY_RATE);
+});
+
+// ---------------------------------------------------------------------------
+// Promo codes
+// ---------------------------------------------------------------------------
+
+// Test 28: Percent-off rounds the discount down
+test("promo: 15% off 40 credits takes 6 off", () => {
+  const result = applyPromoDiscount(
+    calculateRentalPrice(240, HOURLY_RATE), // 4h → 40
+    { code: "SPRING15", discountType: "PERCENT", discountValue: 15 }
+  );
+  expect(result.discountCredits).toBe(6);
+  expect(result.totalCredits).toBe(34);
+  expect(result.promoCode).toBe("SPRING15");
+  expect(result.breakdownText).toBe(
+    "4 hours × 10 cr = 40 credits − SPRING15 (15% off) −6 cr = 34 credits"
+  );
+});
+
+// Test 29: Fixed-off never goes below zero
+test("promo: fixed 100 off a 30 credit rental is free", () => {
+  const result = applyPromoDiscount(calculateRentalPrice(180, HOURLY_RATE), {
+    code: "WELCOME",
+    discountType: "FIXED",
+    discountValue: 100,
+  });
+  expect(result.discountCredits).toBe(30);
+  expect(result.totalCredits).toBe(0);
+});
+
+// Test 30: Discount applies after surge
+test("promo: discount is taken off the surged total", () => {
+  const start = "2025-06-14T15:00:00Z"; // Sat 10:00
+  const end = "2025-06-14T18:00:00Z";
+  const surged = calculateRentalPrice(
+    minutesBetween(start, end), HOURLY_RATE, DEFAULT_PRICING_POLICY,
+    surge(start, end, [WEEKEND_150])
+  ); // 45
+  const result = applyPromoDiscount(surged, {
+    code: "HALF",
+    discountType: "PERCENT",
+    discountValue: 50,
+  });
+  expect(result.baseCredits).toBe(30);
+  expect(result.surchargeCredits).toBe(15);
+  expect(result.discountCredits).toBe(22);
+  expect(result.totalCredits).toBe(23);
+});
+
 console.log("\n=== All tests completed ===\n");
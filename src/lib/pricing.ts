@@ -1,62 +1,402 @@
 /**
  * Shared pricing utility for ForzaCars Rentals
  *
- * Pricing rules:
- * - Duration ≤ 5 hours: hourly rate (durationHours * hourlyRate)
- * - Duration 5-24 hours: day rate cap (hourlyRate * 5)
+ * Pricing rules (with the default policy: 5h cap, 24h days):
+ * - Duration ≤ cap hours: hourly rate (durationHours * hourlyRate)
+ * - Duration cap-24 hours: day rate cap (hourlyRate * cap)
  * - Duration > 24 hours:
  *     fullDays * dayRate + remainderCost
  *     where remainderCost =
  *       - 0 if remainder == 0
- *       - remainder * hourlyRate if remainder <= 5
- *       - dayRate if remainder > 5
+ *       - remainder * hourlyRate if remainder <= cap
+ *       - dayRate if remainder > cap
+ * - With a weekly tier (W days): each full week is billed as W day rates,
+ *   and the rest is priced as above but never more than one more week.
+ * - Surge: when rate modifiers apply (weekend, peak hours, holidays), the
+ *   window is walked in 30-minute slots in BUSINESS_TIMEZONE. Each slot
+ *   takes its highest modifier, and the base price is spread evenly across
+ *   the slots — a slot at 150% adds half of its share. So a Saturday-only
+ *   rental at 150% costs 1.5× the usual (capped) price.
+ * - Promo codes come off the total after surge: percent-off rounds the
+ *   discount down, fixed-off never takes the total below zero.
+ *
+ * The parameters come from a versioned row in `pricing_policies` (platform
+ * default, per business, or per car unit); the same rules are implemented in
+ * SQL by `compute_rental_price()`, which create_booking uses to charge. Keep
+ * the two in lock-step — run `npm run test:pricing` against a database to
+ * check parity.
+ */
+
+import { formatInTimeZone } from "date-fns-tz";
+import { BUSINESS_TIMEZONE } from "./timezone";
+
+/** Pricing parameters — mirrors a row of the pricing_policies table */
+export interface PricingPolicy {
+  /** pricing_policies.id (null for the built-in default) */
+  id: string | null;
+  /** Policy version recorded on bookings */
+  version: number;
+  /** Hours billed hourly before the day rate applies */
+  dayCapHours: number;
+  /** Length of a billable day in hours */
+  hoursPerDay: number;
+  /** Shortest bookable rental in minutes */
+  minDurationMinutes: number;
+  /** Day rates billed per full week (null = no weekly tier) */
+  weeklyBillableDays: number | null;
+}
+
+/** Surge rule — mirrors a row of the rate_modifiers table */
+export interface RateModifier {
+  id: string;
+  kind: "WEEKEND" | "PEAK" | "HOLIDAY";
+  label: string;
+  /** 150 = 1.5× */
+  multiplierPct: number;
+  /** 0 = Sunday … 6 = Saturday (WEEKEND defaults to [0, 6], PEAK null = every day) */
+  daysOfWeek: number[] | null;
+  /** PEAK window, local "HH:MM[:SS]" — start inclusive, end exclusive */
+  startTime: string | null;
+  endTime: string | null;
+  /** HOLIDAY date, local "yyyy-MM-dd" */
+  holidayDate: string | null;
+}
+
+/** Raw rate_modifiers row as returned by Supabase */
+export interface RateModifierRow {
+  id: string;
+  kind: RateModifier["kind"];
+  label: string;
+  multiplier_pct: number;
+  days_of_week: number[] | null;
+  start_time: string | null;
+  end_time: string | null;
+  holiday_date: string | null;
+}
+
+/** Rental window + modifiers needed to apply surge pricing */
+export interface SurgeWindow {
+  /** Pick-up instant (UTC ISO string or Date) */
+  start: string | Date;
+  /** Return instant (UTC ISO string or Date) */
+  end: string | Date;
+  /** Active modifiers for the unit (its own + business-wide) */
+  modifiers: RateModifier[];
+}
+
+/** One itemized surcharge in a breakdown */
+export interface SurchargeLine {
+  modifierId: string;
+  label: string;
+  kind: RateModifier["kind"];
+  multiplierPct: number;
+  /** Surcharged hours (30-minute slots / 2) */
+  hours: number;
+  /** Credits added by this modifier */
+  credits: number;
+}
+
+/** Promo code discount — mirrors the discount columns of promo_codes */
+export interface PromoDiscount {
+  code: string;
+  discountType: "PERCENT" | "FIXED";
+  /** Percent off (PERCENT) or credits off (FIXED) */
+  discountValue: number;
+}
+
+/** Raw pricing_policies row as returned by Supabase */
+export interface PricingPolicyRow {
+  id: string;
+  version: number;
+  day_cap_hours: number;
+  hours_per_day: number;
+  min_duration_minutes: number;
+  weekly_billable_days: number | null;
+}
+
+/**
+ * Built-in fallback, identical to version 1 seeded by migration
+ * 20250209000019_pricing_policies. Only used when the database
+ * policy cannot be loaded.
+ */
+export const DEFAULT_PRICING_POLICY: PricingPolicy = {
+  id: null,
+  version: 1,
+  dayCapHours: 5,
+  hoursPerDay: 24,
+  minDurationMinutes: 60,
+  weeklyBillableDays: null,
+};
+
+// Day rate = 5 hours worth of hourly rate (default policy)
+export const DAY_HOURS_CAP = DEFAULT_PRICING_POLICY.dayCapHours;
+export const HOURS_PER_DAY = DEFAULT_PRICING_POLICY.hoursPerDay;
+export const DAYS_PER_WEEK = 7;
+
+// Surge pricing walks the booking grid
+const SLOT_MS = 30 * 60 * 1000;
+
+/**
+ * Map a rate_modifiers row to a RateModifier
  */
+export function rateModifierFromRow(row: RateModifierRow): RateModifier {
+  return {
+    id: row.id,
+    kind: row.kind,
+    label: row.label,
+    multiplierPct: row.multiplier_pct,
+    daysOfWeek: row.days_of_week,
+    startTime: row.start_time,
+    endTime: row.end_time,
+    holidayDate: row.holiday_date,
+  };
+}
 
-// Day rate = 5 hours worth of hourly rate
-export const DAY_HOURS_CAP = 5;
-export const HOURS_PER_DAY = 24;
+/**
+ * Map a pricing_policies row to a PricingPolicy
+ */
+export function pricingPolicyFromRow(row: PricingPolicyRow): PricingPolicy {
+  return {
+    id: row.id,
+    version: row.version,
+    dayCapHours: row.day_cap_hours,
+    hoursPerDay: row.hours_per_day,
+    minDurationMinutes: row.min_duration_minutes,
+    weeklyBillableDays: row.weekly_billable_days ?? null,
+  };
+}
 
 export interface PricingBreakdown {
-  /** Total credits to charge */
+  /** Total credits to charge (base + surcharges − discount) */
   totalCredits: number;
+  /** Price before surge surcharges */
+  baseCredits: number;
+  /** Sum of surge surcharges */
+  surchargeCredits: number;
+  /** Itemized surcharges, highest multiplier first */
+  surcharges: SurchargeLine[];
+  /** Credits taken off by a promo code */
+  discountCredits: number;
+  /** Promo code applied (null = none) */
+  promoCode: string | null;
   /** Pricing mode for display/storage */
-  pricingMode: "HOURLY" | "DAY_CAP" | "MULTI_DAY";
-  /** Number of full days charged (null for hourly) */
+  pricingMode: "HOURLY" | "DAY_CAP" | "MULTI_DAY" | "WEEKLY";
+  /** Number of full weeks charged (WEEKLY only) */
+  fullWeeks: number | null;
+  /** Number of full days charged (null for hourly; after full weeks for WEEKLY) */
   fullDays: number | null;
   /** Remainder hours after full days */
   remainderHours: number;
-  /** Cost for remainder hours */
+  /**
+   * Cost for remainder hours. For WEEKLY this is everything after the
+   * full weeks (days + partial day).
+   */
   remainderCost: number;
   /** Hourly rate used */
   hourlyRate: number;
-  /** Day rate (hourlyRate * 5) */
+  /** Day rate (hourlyRate * dayCapHours) */
   dayRate: number;
+  /** Week rate (dayRate * weeklyBillableDays), null without a weekly tier */
+  weekRate: number | null;
+  /** Day cap of the policy used */
+  dayCapHours: number;
+  /** Version of the policy used */
+  policyVersion: number;
   /** Total duration in hours (may be fractional) */
   durationHours: number;
   /** Human-readable breakdown string */
   breakdownText: string;
 }
 
+const plural = (n: number, word: string) => `${n} ${word}${n !== 1 ? "s" : ""}`;
+
+type BasePrice = Omit<
+  PricingBreakdown,
+  "baseCredits" | "surchargeCredits" | "surcharges" | "discountCredits" | "promoCode"
+>;
+
 /**
- * Calculate rental pricing with day-rate caps
+ * Calculate rental pricing with day-rate caps and optional surge pricing
  *
  * @param durationMinutes - Total rental duration in minutes
  * @param hourlyRate - Credits per hour
+ * @param policy - Pricing policy (defaults to DEFAULT_PRICING_POLICY)
+ * @param surge - Rental window and rate modifiers (omit for no surge)
  * @returns Pricing breakdown with total and details
  */
 export function calculateRentalPrice(
   durationMinutes: number,
-  hourlyRate: number
+  hourlyRate: number,
+  policy: PricingPolicy = DEFAULT_PRICING_POLICY,
+  surge?: SurgeWindow
+): PricingBreakdown {
+  const base = calculateBasePrice(durationMinutes, hourlyRate, policy);
+  const surcharges = surge ? calculateSurcharges(base.totalCredits, surge) : [];
+  const surchargeCredits = surcharges.reduce((sum, l) => sum + l.credits, 0);
+
+  const noDiscount = { discountCredits: 0, promoCode: null };
+
+  if (surchargeCredits === 0) {
+    return {
+      ...base,
+      ...noDiscount,
+      baseCredits: base.totalCredits,
+      surchargeCredits: 0,
+      surcharges: [],
+    };
+  }
+
+  const totalCredits = base.totalCredits + surchargeCredits;
+  const surgeText = surcharges
+    .map((l) => `${l.label} ×${l.multiplierPct / 100} (${l.hours}h) +${l.credits} cr`)
+    .join(" + ");
+
+  return {
+    ...base,
+    ...noDiscount,
+    totalCredits,
+    baseCredits: base.totalCredits,
+    surchargeCredits,
+    surcharges,
+    breakdownText: `${base.breakdownText} + ${surgeText} = ${totalCredits} credits`,
+  };
+}
+
+/**
+ * Take a promo code off a quote — mirrors promo_discount_credits() in SQL.
+ * Eligibility (expiry, scope, usage limits) is checked by the database.
+ */
+export function applyPromoDiscount(
+  breakdown: PricingBreakdown,
+  promo: PromoDiscount
 ): PricingBreakdown {
+  const subtotal = breakdown.totalCredits;
+  const discountCredits =
+    promo.discountType === "PERCENT"
+      ? Math.floor((subtotal * promo.discountValue) / 100)
+      : Math.min(promo.discountValue, subtotal);
+  const totalCredits = subtotal - discountCredits;
+  const label =
+    promo.discountType === "PERCENT"
+      ? `${promo.code} (${promo.discountValue}% off)`
+      : promo.code;
+
+  return {
+    ...breakdown,
+    totalCredits,
+    discountCredits,
+    promoCode: promo.code,
+    breakdownText: `${breakdown.breakdownText} − ${label} −${discountCredits} cr = ${totalCredits} credits`,
+  };
+}
+
+// Minutes since local midnight for "HH:MM[:SS]" ("24:00" = 1440)
+function timeToMinutes(time: string): number {
+  const [h, m] = time.split(":").map(Number);
+  return h * 60 + m;
+}
+
+function modifierMatches(
+  m: RateModifier,
+  dow: number,
+  minuteOfDay: number,
+  localDate: string
+): boolean {
+  switch (m.kind) {
+    case "WEEKEND":
+      return (m.daysOfWeek ?? [0, 6]).includes(dow);
+    case "PEAK":
+      return (
+        (m.daysOfWeek == null || m.daysOfWeek.includes(dow)) &&
+        m.startTime != null &&
+        m.endTime != null &&
+        minuteOfDay >= timeToMinutes(m.startTime) &&
+        minuteOfDay < timeToMinutes(m.endTime)
+      );
+    case "HOLIDAY":
+      return m.holidayDate === localDate;
+  }
+}
+
+/**
+ * Surge surcharges for a window — mirrors compute_rate_surcharges() in SQL.
+ * Per modifier: ceil(base × Σ(pct − 100) / (slots × 100)).
+ */
+function calculateSurcharges(baseCredits: number, surge: SurgeWindow): SurchargeLine[] {
+  const start = new Date(surge.start).getTime();
+  const end = new Date(surge.end).getTime();
+  const slotCount = Math.ceil((end - start) / SLOT_MS);
+  if (slotCount <= 0 || baseCredits <= 0 || surge.modifiers.length === 0) return [];
+
+  // Highest multiplier first, ties by id — the slot winner is the first match
+  const ordered = [...surge.modifiers].sort(
+    (a, b) => b.multiplierPct - a.multiplierPct || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0)
+  );
+
+  const tally = new Map<string, { modifier: RateModifier; slots: number; excess: number }>();
+
+  for (let t = start; t < end; t += SLOT_MS) {
+    const [localDate, isoDow, hhmm] = formatInTimeZone(
+      new Date(t),
+      BUSINESS_TIMEZONE,
+      "yyyy-MM-dd|i|HH:mm"
+    ).split("|");
+    const dow = Number(isoDow) % 7; // ISO 7 = Sunday → 0
+    const minuteOfDay = timeToMinutes(hhmm);
+
+    const winner = ordered.find((m) => modifierMatches(m, dow, minuteOfDay, localDate));
+    if (!winner) continue;
+
+    const entry = tally.get(winner.id) ?? { modifier: winner, slots: 0, excess: 0 };
+    entry.slots += 1;
+    entry.excess += winner.multiplierPct - 100;
+    tally.set(winner.id, entry);
+  }
+
+  return ordered
+    .filter((m) => tally.has(m.id))
+    .map((m) => {
+      const { slots, excess } = tally.get(m.id)!;
+      return {
+        modifierId: m.id,
+        label: m.label,
+        kind: m.kind,
+        multiplierPct: m.multiplierPct,
+        hours: slots / 2,
+        credits: Math.ceil((baseCredits * excess) / (slotCount * 100)),
+      };
+    });
+}
+
+/**
+ * Price by the policy's day / week caps, before surge
+ */
+function calculateBasePrice(
+  durationMinutes: number,
+  hourlyRate: number,
+  policy: PricingPolicy
+): BasePrice {
+  const { dayCapHours, hoursPerDay, weeklyBillableDays } = policy;
+  const dayRate = hourlyRate * dayCapHours;
+  const weekRate = weeklyBillableDays != null ? dayRate * weeklyBillableDays : null;
+
+  const base = {
+    fullWeeks: null,
+    hourlyRate,
+    dayRate,
+    weekRate,
+    dayCapHours,
+    policyVersion: policy.version,
+  };
+
   if (durationMinutes <= 0 || hourlyRate <= 0) {
     return {
+      ...base,
       totalCredits: 0,
       pricingMode: "HOURLY",
       fullDays: null,
       remainderHours: 0,
       remainderCost: 0,
-      hourlyRate,
-      dayRate: hourlyRate * DAY_HOURS_CAP,
       durationHours: 0,
       breakdownText: "0 credits",
     };
@@ -64,70 +404,109 @@ export function calculateRentalPrice(
 
   // Convert to hours, rounding up partial hours
   const durationHours = Math.ceil(durationMinutes / 60);
-  const dayRate = hourlyRate * DAY_HOURS_CAP;
 
-  let totalCredits: number;
-  let pricingMode: PricingBreakdown["pricingMode"];
-  let fullDays: number | null = null;
-  let remainderHours: number;
-  let remainderCost: number;
-  let breakdownText: string;
-
-  if (durationHours <= DAY_HOURS_CAP) {
+  if (durationHours <= dayCapHours) {
     // Straight hourly pricing
-    totalCredits = durationHours * hourlyRate;
-    pricingMode = "HOURLY";
-    remainderHours = durationHours;
-    remainderCost = totalCredits;
-    breakdownText = `${durationHours} hour${durationHours !== 1 ? "s" : ""} × ${hourlyRate} cr = ${totalCredits} credits`;
-  } else if (durationHours <= HOURS_PER_DAY) {
-    // Day cap applies (5-24 hours = 1 day rate)
-    totalCredits = dayRate;
-    pricingMode = "DAY_CAP";
-    fullDays = 1;
-    remainderHours = 0;
-    remainderCost = 0;
-    breakdownText = `1 day (${durationHours}h capped at ${DAY_HOURS_CAP}h) = ${totalCredits} credits`;
-  } else {
-    // Multi-day pricing
-    pricingMode = "MULTI_DAY";
-    fullDays = Math.floor(durationHours / HOURS_PER_DAY);
-    remainderHours = durationHours % HOURS_PER_DAY;
+    const totalCredits = durationHours * hourlyRate;
+    return {
+      ...base,
+      totalCredits,
+      pricingMode: "HOURLY",
+      fullDays: null,
+      remainderHours: durationHours,
+      remainderCost: totalCredits,
+      durationHours,
+      breakdownText: `${plural(durationHours, "hour")} × ${hourlyRate} cr = ${totalCredits} credits`,
+    };
+  }
+
+  if (durationHours <= hoursPerDay) {
+    // Day cap applies (cap-24 hours = 1 day rate)
+    return {
+      ...base,
+      totalCredits: dayRate,
+      pricingMode: "DAY_CAP",
+      fullDays: 1,
+      remainderHours: 0,
+      remainderCost: 0,
+      durationHours,
+      breakdownText: `1 day (${durationHours}h capped at ${dayCapHours}h) = ${dayRate} credits`,
+    };
+  }
 
-    const fullDaysCost = fullDays * dayRate;
+  // Multi-day: split off full weeks when the policy has a weekly tier
+  const weekHours = DAYS_PER_WEEK * hoursPerDay;
+  let fullWeeks = weekRate != null ? Math.floor(durationHours / weekHours) : 0;
+  const restHours = weekRate != null ? durationHours % weekHours : durationHours;
 
-    if (remainderHours === 0) {
-      remainderCost = 0;
-    } else if (remainderHours <= DAY_HOURS_CAP) {
-      remainderCost = remainderHours * hourlyRate;
-    } else {
-      // Remainder > 5 hours gets capped at day rate
-      remainderCost = dayRate;
-    }
+  let fullDays = Math.floor(restHours / hoursPerDay);
+  let remainderHours = restHours % hoursPerDay;
+
+  let partialCost: number;
+  if (remainderHours === 0) {
+    partialCost = 0;
+  } else if (remainderHours <= dayCapHours) {
+    partialCost = remainderHours * hourlyRate;
+  } else {
+    // Remainder > cap hours gets capped at day rate
+    partialCost = dayRate;
+  }
 
-    totalCredits = fullDaysCost + remainderCost;
+  // The rest never costs more than one more week
+  let restCost = fullDays * dayRate + partialCost;
+  if (weekRate != null && restCost > weekRate) {
+    fullWeeks += 1;
+    fullDays = 0;
+    remainderHours = 0;
+    partialCost = 0;
+    restCost = 0;
+  }
 
-    // Build breakdown text
-    const dayPart = `${fullDays} day${fullDays !== 1 ? "s" : ""} × ${dayRate} cr`;
+  if (fullWeeks === 0 || weekRate == null) {
+    const totalCredits = restCost;
+    const dayPart = `${plural(fullDays, "day")} × ${dayRate} cr`;
+    let breakdownText: string;
     if (remainderHours === 0) {
       breakdownText = `${dayPart} = ${totalCredits} credits`;
-    } else if (remainderHours <= DAY_HOURS_CAP) {
+    } else if (remainderHours <= dayCapHours) {
       breakdownText = `${dayPart} + ${remainderHours}h × ${hourlyRate} cr = ${totalCredits} credits`;
     } else {
       breakdownText = `${dayPart} + 1 day (${remainderHours}h capped) = ${totalCredits} credits`;
     }
+
+    return {
+      ...base,
+      totalCredits,
+      pricingMode: "MULTI_DAY",
+      fullDays,
+      remainderHours,
+      remainderCost: partialCost,
+      durationHours,
+      breakdownText,
+    };
+  }
+
+  const totalCredits = fullWeeks * weekRate + restCost;
+  const parts = [`${plural(fullWeeks, "week")} × ${weekRate} cr`];
+  if (fullDays > 0) parts.push(`${plural(fullDays, "day")} × ${dayRate} cr`);
+  if (remainderHours > 0) {
+    parts.push(
+      remainderHours <= dayCapHours
+        ? `${remainderHours}h × ${hourlyRate} cr`
+        : `1 day (${remainderHours}h capped)`
+    );
   }
 
   return {
+    ...base,
     totalCredits,
-    pricingMode,
+    pricingMode: "WEEKLY",
+    fullWeeks,
     fullDays,
     remainderHours,
-    remainderCost,
-    hourlyRate,
-    dayRate,
+    remainderCost: restCost,
     durationHours,
-    breakdownText,
+    breakdownText: `${parts.join(" + ")} = ${totalCredits} credits`,
   };
 }
 
@@ -167,13 +546,26 @@ export function getPricingSummary(breakdown: PricingBreakdown): string {
     return "1 day";
   }
 
+  if (breakdown.pricingMode === "WEEKLY") {
+    const weeks = breakdown.fullWeeks ?? 0;
+    const parts = [`${weeks}w`];
+    const days =
+      (breakdown.fullDays ?? 0) +
+      (breakdown.remainderHours > breakdown.dayCapHours ? 1 : 0);
+    if (days > 0) parts.push(`${days}d`);
+    if (breakdown.remainderHours > 0 && breakdown.remainderHours <= breakdown.dayCapHours) {
+      parts.push(`${breakdown.remainderHours}h`);
+    }
+    return parts.join(" + ");
+  }
+
   // MULTI_DAY
   const days = breakdown.fullDays ?? 0;
   if (breakdown.remainderHours === 0) {
     return `${days} day${days !== 1 ? "s" : ""}`;
   }
 
-  if (breakdown.remainderHours <= DAY_HOURS_CAP) {
+  if (breakdown.remainderHours <= breakdown.dayCapHours) {
     return `${days}d + ${breakdown.remainderHours}h`;
   }
 
@@ -0,0 +1,121 @@
+import { cache } from "react";
+import { createClient } from "@/lib/supabase/server";
+import {
+  DEFAULT_PRICING_POLICY,
+  pricingPolicyFromRow,
+  rateModifierFromRow,
+  type PricingPolicy,
+  type PricingPolicyRow,
+  type RateModifier,
+  type RateModifierRow,
+} from "@/lib/pricing";
+
+const POLICY_COLUMNS =
+  "id, version, day_cap_hours, hours_per_day, min_duration_minutes, weekly_billable_days";
+
+const MODIFIER_COLUMNS =
+  "id, business_id, car_unit_id, kind, label, multiplier_pct, days_of_week, start_time, end_time, holiday_date";
+
+/**
+ * Load the active platform pricing policy (used for units whose business
+ * has not configured its own).
+ *
+ * Wrapped with React `cache()` so a page and its components share one
+ * query per request. Falls back to DEFAULT_PRICING_POLICY if the table
+ * cannot be read, so quotes still render.
+ */
+export const getActivePricingPolicy = cache(
+  async (): Promise<PricingPolicy> => {
+    const supabase = await createClient();
+
+    const { data, error } = await supabase
+      .from("pricing_policies")
+      .select(POLICY_COLUMNS)
+      .eq("is_active", true)
+      .is("business_id", null)
+      .maybeSingle();
+
+    if (error || !data) {
+      if (error) console.error("Failed to load pricing policy:", error.message);
+      return DEFAULT_PRICING_POLICY;
+    }
+
+    return pricingPolicyFromRow(data);
+  }
+);
+
+/**
+ * Resolve the pricing policy for each car unit (unit override → business
+ * default → platform policy), keyed by car_unit_id. Units missing from the
+ * result fall back to the active platform policy.
+ */
+export async function getUnitPricingPolicies(
+  unitIds: string[]
+): Promise<Map<string, PricingPolicy>> {
+  const policies = new Map<string, PricingPolicy>();
+  if (unitIds.length === 0) return policies;
+
+  const supabase = await createClient();
+  const { data, error } = await supabase.rpc("unit_pricing_policies", {
+    p_unit_ids: unitIds,
+  });
+
+  if (error) {
+    console.error("Failed to resolve unit pricing policies:", error.message);
+  }
+
+  for (const row of (data ?? []) as (PricingPolicyRow & { car_unit_id: string })[]) {
+    policies.set(row.car_unit_id, pricingPolicyFromRow(row));
+  }
+
+  const fallback = await getActivePricingPolicy();
+  for (const id of unitIds) {
+    if (!policies.has(id)) policies.set(id, fallback);
+  }
+
+  return policies;
+}
+
+/**
+ * Load the active surge modifiers for each car unit (its own plus its
+ * business's unit-agnostic ones), keyed by car_unit_id. Units without
+ * modifiers map to an empty list.
+ */
+export async function getUnitRateModifiers(
+  units: { id: string; business_id: string }[]
+): Promise<Map<string, RateModifier[]>> {
+  const modifiers = new Map<string, RateModifier[]>(units.map((u) => [u.id, []]));
+  if (units.length === 0) return modifiers;
+
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from("rate_modifiers")
+    .select(MODIFIER_COLUMNS)
+    .eq("active", true)
+    .in("business_id", Array.from(new Set(units.map((u) => u.business_id))));
+
+  if (error) {
+    console.error("Failed to load rate modifiers:", error.message);
+    return modifiers;
+  }
+
+  const rows = (data ?? []) as (RateModifierRow & {
+    business_id: string;
+    car_unit_id: string | null;
+  })[];
+
+  for (const unit of units) {
+    modifiers.set(
+      unit.id,
+      rows
+        .filter(
+          (r) =>
+            r.business_id === unit.business_id &&
+            (r.car_unit_id === null || r.car_unit_id === unit.id)
+        )
+        .map(rateModifierFromRow)
+    );
+  }
+
+  return modifiers;
+}
@@ -0,0 +1,102 @@
+import { z } from "zod";
+import { addDays } from "date-fns";
+import { fromZonedTime } from "date-fns-tz";
+import { BUSINESS_TIMEZONE } from "@/lib/timezone";
+import { PI_CLASSES } from "@/lib/piClass";
+
+const optionalInt = (message: string) =>
+  z
+    .string()
+    .optional()
+    .nullable()
+    .transform((v) => (v ? parseInt(v, 10) : null))
+    .refine((v) => v === null || (Number.isFinite(v) && v > 0), message);
+
+const optionalDate = z
+  .string()
+  .optional()
+  .nullable()
+  .transform((v) => v || null)
+  .refine((v) => v === null || /^\d{4}-\d{2}-\d{2}$/.test(v), "Invalid date");
+
+/**
+ * Validation schema for the promo code form (admin and business pages).
+ * Dates are calendar days in BUSINESS_TIMEZONE.
+ */
+export const promoCodeSchema = z
+  .object({
+    code: z
+      .string()
+      .trim()
+      .transform((v) => v.toUpperCase())
+      .refine(
+        (v) => /^[A-Z0-9_-]{3,32}$/.test(v),
+        "Code must be 3-32 letters, digits, - or _"
+      ),
+    discount_type: z.enum(["PERCENT", "FIXED"], "Invalid discount type"),
+    discount_value: z
+      .string()
+      .transform((v) => parseInt(v, 10))
+      .refine((v) => Number.isFinite(v) && v > 0, "Discount must be a positive number"),
+    pi_class: z
+      .string()
+      .optional()
+      .nullable()
+      .transform((v) => v || null)
+      .refine(
+        (v) => v === null || PI_CLASSES.some((c) => c.name === v),
+        "Invalid PI class"
+      ),
+    first_booking_only: z.boolean(),
+    max_uses_per_user: optionalInt("Uses per customer must be a positive number"),
+    max_redemptions: optionalInt("Total redemptions must be a positive number"),
+    starts_on: optionalDate,
+    expires_on: optionalDate,
+  })
+  .refine((v) => v.discount_type !== "PERCENT" || v.discount_value <= 100, {
+    message: "Percent discount must be 1-100",
+  })
+  .refine((v) => !v.starts_on || !v.expires_on || v.expires_on >= v.starts_on, {
+    message: "Expiry must be on or after the start date",
+  });
+
+export type PromoCodeInput = z.infer<typeof promoCodeSchema>;
+
+/**
+ * Read the promo code form fields
+ */
+export function promoCodeFormValues(formData: FormData) {
+  return {
+    code: (formData.get("code") as string) ?? "",
+    discount_type: formData.get("discount_type") as string,
+    discount_value: formData.get("discount_value") as string,
+    pi_class: formData.get("pi_class") as string | null,
+    first_booking_only: formData.get("first_booking_only") === "on",
+    max_uses_per_user: formData.get("max_uses_per_user") as string | null,
+    max_redemptions: formData.get("max_redemptions") as string | null,
+    starts_on: formData.get("starts_on") as string | null,
+    expires_on: formData.get("expires_on") as string | null,
+  };
+}
+
+/**
+ * Map validated input to promo_codes columns. A code starts at the
+ * beginning of its start day and expires at the end of its expiry day.
+ */
+export function promoCodeRow(input: PromoCodeInput) {
+  return {
+    code: input.code,
+    discount_type: input.discount_type,
+    discount_value: input.discount_value,
+    pi_class: input.pi_class,
+    first_booking_only: input.first_booking_only,
+    max_uses_per_user: input.max_uses_per_user,
+    max_redemptions: input.max_redemptions,
+    ...(input.starts_on && {
+      starts_at: fromZonedTime(`${input.starts_on}T00:00:00`, BUSINESS_TIMEZONE).toISOString(),
+    }),
+    expires_at: input.expires_on
+      ? addDays(fromZonedTime(`${input.expires_on}T00:00:00`, BUSINESS_TIMEZONE), 1).toISOString()
+      : null,
+  };
+}
@@ -0,0 +1,102 @@
+import { createServiceRoleClient } from "@/lib/supabase/serviceRoleClient";
+import { sendReassignmentEmail } from "@/lib/email/reassignment";
+
+/** What deactivating units did to their upcoming bookings */
+export interface ReassignmentSummary {
+  reassigned: number;
+  canceled: number;
+  refundCredits: number;
+}
+
+/**
+ * Email every customer whose booking reassign_unit_bookings() moved or
+ * canceled and who hasn't been emailed yet, and summarise the outcomes for
+ * the given units (the ones the caller just deactivated).
+ *
+ * Call after anything that can deactivate a unit. Rows are claimed by
+ * setting email_sent_at before sending, so concurrent callers never email
+ * the same customer twice. Uses the service-role client because the
+ * recipients are other users. Non-critical: failures are logged and an
+ * empty summary is returned, never thrown.
+ */
+export async function sendPendingReassignmentEmails(
+  unitIds: string[]
+): Promise<ReassignmentSummary> {
+  const summary: ReassignmentSummary = { reassigned: 0, canceled: 0, refundCredits: 0 };
+
+  try {
+    const supabase = createServiceRoleClient();
+
+    const { data: claimed, error } = await supabase
+      .from("booking_reassignments")
+      .update({ email_sent_at: new Date().toISOString() })
+      .is("email_sent_at", null)
+      .select(
+        `
+        booking_id,
+        from_car_unit_id,
+        outcome,
+        refund_credits,
+        profiles ( email ),
+        bookings ( start_ts, end_ts ),
+        to_unit:car_units!booking_reassignments_to_car_unit_id_fkey ( color ),
+        from_unit:car_units!booking_reassignments_from_car_unit_id_fkey ( display_name, car_models ( display_name ) )
+      `
+      );
+
+    if (error) {
+      console.error("[reassignment] Failed to claim notifications:", error.message);
+      return summary;
+    }
+
+    for (const row of claimed ?? []) {
+      if (unitIds.includes(row.from_car_unit_id)) {
+        if (row.outcome === "REASSIGNED") {
+          summary.reassigned += 1;
+        } else {
+          summary.canceled += 1;
+          summary.refundCredits += row.refund_credits;
+        }
+      }
+
+      const email = (row.profiles as unknown as { email: string } | null)?.email;
+      const booking = row.bookings as unknown as { start_ts: string; end_ts: string } | null;
+      const fromUnit = row.from_unit as unknown as {
+        display_name: string | null;
+        car_models: { display_name: string } | null;
+      } | null;
+      if (!email || !booking) continue;
+
+      await sendReassignmentEmail({
+        to: email,
+        bookingId: row.booking_id,
+        carName: fromUnit?.car_models?.display_name ?? fromUnit?.display_name ?? "car",
+        startTs: booking.start_ts,
+        endTs: booking.end_ts,
+        outcome: row.outcome as "REASSIGNED" | "CANCELED",
+        newColor: (row.to_unit as unknown as { color: string | null } | null)?.color ?? null,
+        refundCredits: row.refund_credits,
+      });
+    }
+  } catch (err) {
+    console.error("[reassignment] Failed to send notifications:", err);
+  }
+
+  return summary;
+}
+
+/** "2 bookings moved to other units · 1 canceled (40 credits refunded)" */
+export function describeReassignments(summary: ReassignmentSummary): string | null {
+  const parts: string[] = [];
+  if (summary.reassigned > 0) {
+    parts.push(
+      `${summary.reassigned} booking${summary.reassigned !== 1 ? "s" : ""} moved to other units`
+    );
+  }
+  if (summary.canceled > 0) {
+    parts.push(
+      `${summary.canceled} canceled (${summary.refundCredits} credits refunded)`
+    );
+  }
+  return parts.length > 0 ? parts.join(" · ") : null;
+}
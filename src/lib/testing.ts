@@ -0,0 +1,58 @@
+/**
+ * Minimal test runner for the src/lib unit tests (no vitest/jest here)
+ *
+ * Each *.test.ts file is a plain script: it calls test() for every case,
+ * prints ✓/✗ per test and sets a non-zero exit code on any failure.
+ * Run one with `npx tsx src/lib/X.test.ts`, or all with `npm test`.
+ */
+
+function pass(name: string) {
+  console.log(`✓ ${name}`);
+}
+
+function fail(name: string, error: unknown) {
+  console.error(`✗ ${name}`);
+  console.error(`  ${error instanceof Error ? error.message : String(error)}`);
+  process.exitCode = 1;
+}
+
+/**
+ * Run one test. Synchronous tests report immediately; async tests return
+ * a promise to await so their output stays in order.
+ */
+export function test(name: string, fn: () => void): void;
+export function test(name: string, fn: () => Promise<void>): Promise<void>;
+export function test(name: string, fn: () => void | Promise<void>): void | Promise<void> {
+  let result: void | Promise<void>;
+  try {
+    result = fn();
+  } catch (error) {
+    fail(name, error);
+    return;
+  }
+
+  if (result instanceof Promise) {
+    return result.then(
+      () => pass(name),
+      (error: unknown) => fail(name, error)
+    );
+  }
+  pass(name);
+}
+
+export function expect<T>(value: T) {
+  return {
+    /** Strict equality (===) */
+    toBe(expected: T) {
+      if (value !== expected) {
+        throw new Error(`Expected ${String(expected)}, got ${String(value)}`);
+      }
+    },
+    /** Deep equality, compared as JSON (key order matters) */
+    toEqual(expected: T) {
+      if (JSON.stringify(value) !== JSON.stringify(expected)) {
+        throw new Error(`Expected ${JSON.stringify(expected)}, got ${JSON.stringify(value)}`);
+      }
+    },
+  };
+}
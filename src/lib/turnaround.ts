@@ -0,0 +1,31 @@
+/**
+ * Turnaround (prep) time between bookings of the same unit
+ *
+ * businesses.turnaround_minutes is the default for every unit and
+ * car_units.turnaround_minutes overrides it (NULL = use the default).
+ * A booking snapshots end_ts + turnaround as `blocked_until`; the unit
+ * can't be picked up again before then, and a new booking's own buffer
+ * must end before the next one starts. Enforced in SQL by the
+ * bookings_no_overlap constraint and `unit_booked_during()`.
+ */
+
+/** Choices offered in the business settings (15-minute steps, max 24 h) */
+export const TURNAROUND_OPTIONS = [0, 15, 30, 45, 60, 90, 120, 180, 240, 360, 480, 720, 1440];
+
+/**
+ * The buffer actually applied to a unit
+ */
+export function effectiveTurnaround(unitMinutes: number | null, businessMinutes: number): number {
+  return unitMinutes ?? businessMinutes;
+}
+
+/**
+ * "None", "45 min", "1 h 30 min", "24 h"
+ */
+export function formatTurnaround(minutes: number): string {
+  if (minutes <= 0) return "None";
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest} min`;
+  return rest === 0 ? `${hours} h` : `${hours} h ${rest} min`;
+}
@@ -0,0 +1,33 @@
+import { createClient } from "@/lib/supabase/server";
+import {
+  operatingWindowFromRow,
+  type OperatingWindow,
+  type OperatingWindowRow,
+} from "@/lib/operatingHours";
+
+/**
+ * Weekly operating hours of each car unit, keyed by car_unit_id. Units
+ * without rules map to an empty list (always open).
+ */
+export async function getUnitOperatingHours(
+  unitIds: string[]
+): Promise<Map<string, OperatingWindow[]>> {
+  const hours = new Map<string, OperatingWindow[]>(unitIds.map((id) => [id, []]));
+  if (unitIds.length === 0) return hours;
+
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from("car_availability_rules")
+    .select("car_unit_id, day_of_week, start_time, end_time")
+    .in("car_unit_id", unitIds);
+
+  if (error) {
+    console.error("Failed to load operating hours:", error.message);
+  }
+
+  for (const row of (data ?? []) as (OperatingWindowRow & { car_unit_id: string })[]) {
+    hours.get(row.car_unit_id)?.push(operatingWindowFromRow(row));
+  }
+
+  return hours;
+}
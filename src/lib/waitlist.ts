@@ -0,0 +1,94 @@
+import { createServiceRoleClient } from "@/lib/supabase/serviceRoleClient";
+import { sendWaitlistEmail } from "@/lib/email/waitlist";
+
+/** A sender's claim on an email can be taken over after this long */
+const EMAIL_CLAIM_TIMEOUT_MS = 10 * 60_000;
+
+/** What one pass over the waitlist email queue did */
+export interface WaitlistEmailSummary {
+  sent: number;
+  failed: number;
+}
+
+/**
+ * Email every waitlist entry notify_waitlist() has marked NOTIFIED but not
+ * yet emailed, in queue order. Entries whose window has already started
+ * are skipped — the offer is gone.
+ *
+ * Runs after anything that can free a window (booking cancellation,
+ * blackout removal, no-show) and on a schedule (/api/cron/waitlist-emails)
+ * for entries notified by SQL-only paths or left over from a failed pass.
+ * Entries are claimed with email_claimed_at, so concurrent passes never
+ * email the same customer twice; email_sent_at is set only once the email
+ * has gone out. A failed send releases the claim for the next pass, and a
+ * claim left behind by a pass that died is taken over after
+ * EMAIL_CLAIM_TIMEOUT_MS.
+ *
+ * Uses the service-role client because the recipients are other users.
+ * Non-critical: failures are logged, never thrown.
+ */
+export async function sendPendingWaitlistEmails(): Promise<WaitlistEmailSummary> {
+  const summary: WaitlistEmailSummary = { sent: 0, failed: 0 };
+
+  try {
+    const supabase = createServiceRoleClient();
+    const now = new Date();
+    const staleClaim = new Date(now.getTime() - EMAIL_CLAIM_TIMEOUT_MS).toISOString();
+
+    const { data: claimed, error } = await supabase
+      .from("waitlist_entries")
+      .update({ email_claimed_at: now.toISOString() })
+      .eq("status", "NOTIFIED")
+      .is("email_sent_at", null)
+      .gt("start_ts", now.toISOString())
+      .or(`email_claimed_at.is.null,email_claimed_at.lt.${staleClaim}`)
+      .select(
+        "id, car_model_id, start_ts, end_ts, created_at, profiles ( email ), car_models ( display_name )"
+      );
+
+    if (error) {
+      console.error("[waitlist] Failed to claim notifications:", error.message);
+      return summary;
+    }
+
+    const queue = (claimed ?? []).sort((a, b) =>
+      a.created_at.localeCompare(b.created_at)
+    );
+
+    for (const entry of queue) {
+      const email = (entry.profiles as unknown as { email: string } | null)?.email;
+      const model = entry.car_models as unknown as { display_name: string } | null;
+
+      const sent =
+        !!email &&
+        (await sendWaitlistEmail({
+          to: email,
+          carName: model?.display_name ?? "car",
+          carModelId: entry.car_model_id,
+          startTs: entry.start_ts,
+          endTs: entry.end_ts,
+        }));
+
+      // Sent → done; otherwise release the claim for the next pass
+      const { error: markError } = await supabase
+        .from("waitlist_entries")
+        .update(
+          sent
+            ? { email_sent_at: new Date().toISOString() }
+            : { email_claimed_at: null }
+        )
+        .eq("id", entry.id);
+
+      if (markError) {
+        console.error(`[waitlist] Failed to update entry ${entry.id}:`, markError.message);
+      }
+
+      if (sent) summary.sent++;
+      else summary.failed++;
+    }
+  } catch (err) {
+    console.error("[waitlist] Failed to send notifications:", err);
+  }
+
+  return summary;
+}
@@ -0,0 +1,434 @@
+-- ============================================================================
+-- ForzaCars Rentals — Versioned pricing policies
+-- Migration: 20250209000019_pricing_policies
+--
+-- The day-cap pricing rules used to be duplicated as literals in
+-- src/lib/pricing.ts and in create_booking.  They now live in one place:
+--
+-- 1. pricing_policies table — immutable, versioned rows; exactly one is active
+-- 2. compute_rental_price() — the single SQL implementation of the rules,
+--    also callable as an RPC so the app (and scripts/test_pricing.ts) can
+--    check that the TypeScript quote matches what will be charged
+-- 3. bookings.pricing_policy_id — which policy version priced the booking
+-- 4. create_booking now prices through compute_rental_price()
+-- ============================================================================
+
+
+-- ############################################################################
+-- 1. pricing_policies
+-- ############################################################################
+
+CREATE TABLE IF NOT EXISTS public.pricing_policies (
+  id                   uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  version              int  NOT NULL UNIQUE CHECK (version > 0),
+  day_cap_hours        int  NOT NULL CHECK (day_cap_hours > 0),
+  hours_per_day        int  NOT NULL DEFAULT 24 CHECK (hours_per_day > 0),
+  min_duration_minutes int  NOT NULL DEFAULT 60 CHECK (min_duration_minutes > 0),
+  is_active            boolean NOT NULL DEFAULT false,
+  notes                text,
+  created_by           uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at           timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT pricing_policies_cap_within_day CHECK (day_cap_hours <= hours_per_day)
+);
+
+-- At most one active policy at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_pricing_policies_single_active
+  ON public.pricing_policies (is_active)
+  WHERE is_active;
+
+COMMENT ON TABLE public.pricing_policies IS
+  'Versioned rental pricing rules. Rows are immutable once created (only '
+  'is_active may change); a rule change is a new version.';
+COMMENT ON COLUMN public.pricing_policies.day_cap_hours IS
+  'Hours billed hourly before a day is capped; day rate = hourly rate × day_cap_hours';
+COMMENT ON COLUMN public.pricing_policies.hours_per_day IS
+  'Length of a billable day in hours';
+COMMENT ON COLUMN public.pricing_policies.min_duration_minutes IS
+  'Shortest rental create_booking will accept';
+
+-- Seed version 1 with the rules that were hardcoded up to migration 018
+INSERT INTO public.pricing_policies
+       (version, day_cap_hours, hours_per_day, min_duration_minutes, is_active, notes)
+VALUES (1, 5, 24, 60, true, 'Initial policy (5h day cap, 24h days, 60 min minimum)')
+ON CONFLICT (version) DO NOTHING;
+
+
+-- ---------------------------------------------------------------------------
+-- Immutability guard: bookings reference a policy version, so its rules
+-- must never change underneath them.
+-- ---------------------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION public.handle_pricing_policies_immutable()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF NEW.version              IS DISTINCT FROM OLD.version
+  OR NEW.day_cap_hours        IS DISTINCT FROM OLD.day_cap_hours
+  OR NEW.hours_per_day        IS DISTINCT FROM OLD.hours_per_day
+  OR NEW.min_duration_minutes IS DISTINCT FROM OLD.min_duration_minutes THEN
+    RAISE EXCEPTION 'Pricing policy rules are immutable; create a new version instead';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_pricing_policies_update ON public.pricing_policies;
+
+CREATE TRIGGER on_pricing_policies_update
+  BEFORE UPDATE ON public.pricing_policies
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_pricing_policies_immutable();
+
+
+-- ---------------------------------------------------------------------------
+-- RLS: publicly readable (quotes are shown to anonymous visitors),
+-- admin-only writes.
+-- ---------------------------------------------------------------------------
+
+ALTER TABLE public.pricing_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "pricing_policies: public read"
+  ON public.pricing_policies FOR SELECT
+  USING (true);
+
+CREATE POLICY "pricing_policies: admins can insert"
+  ON public.pricing_policies FOR INSERT
+  TO authenticated
+  WITH CHECK (public.is_admin());
+
+CREATE POLICY "pricing_policies: admins can update"
+  ON public.pricing_policies FOR UPDATE
+  TO authenticated
+  USING      (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+GRANT SELECT ON public.pricing_policies TO anon, authenticated;
+
+
+-- ############################################################################
+-- 2. compute_rental_price(duration_min, hourly_rate, policy_id)
+--
+--    Mirrors calculateRentalPrice() in src/lib/pricing.ts field for field:
+--      • hours = ceil(minutes / 60)
+--      • hours ≤ cap            → HOURLY:    hours × rate
+--      • hours ≤ hours_per_day  → DAY_CAP:   day rate (rate × cap)
+--      • otherwise              → MULTI_DAY: full_days × day rate + remainder
+--          remainder cost = 0 | remainder × rate (≤ cap) | day rate (> cap)
+--
+--    p_policy_id NULL means "the active policy".
+-- ############################################################################
+
+CREATE OR REPLACE FUNCTION public.compute_rental_price(
+  p_duration_min int,
+  p_hourly_rate  int,
+  p_policy_id    uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SET search_path = ''
+AS $$
+DECLARE
+  v_policy         public.pricing_policies%ROWTYPE;
+  v_hours          int;
+  v_day_rate       int;
+  v_credits        int;
+  v_mode           text;
+  v_full_days      int;
+  v_remainder      int;
+  v_remainder_cost int;
+  v_billable_days  int;
+BEGIN
+  IF p_policy_id IS NULL THEN
+    SELECT * INTO v_policy FROM public.pricing_policies WHERE is_active;
+  ELSE
+    SELECT * INTO v_policy FROM public.pricing_policies WHERE id = p_policy_id;
+  END IF;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Pricing policy not found';
+  END IF;
+
+  v_day_rate := coalesce(p_hourly_rate, 0) * v_policy.day_cap_hours;
+
+  IF coalesce(p_duration_min, 0) <= 0 OR coalesce(p_hourly_rate, 0) <= 0 THEN
+    v_hours          := 0;
+    v_credits        := 0;
+    v_mode           := 'HOURLY';
+    v_full_days      := NULL;
+    v_remainder      := 0;
+    v_remainder_cost := 0;
+    v_billable_days  := NULL;
+  ELSE
+    v_hours := ceil(p_duration_min / 60.0)::int;
+
+    IF v_hours <= v_policy.day_cap_hours THEN
+      v_credits        := v_hours * p_hourly_rate;
+      v_mode           := 'HOURLY';
+      v_full_days      := NULL;
+      v_remainder      := v_hours;
+      v_remainder_cost := v_credits;
+      v_billable_days  := NULL;
+    ELSIF v_hours <= v_policy.hours_per_day THEN
+      v_credits        := v_day_rate;
+      v_mode           := 'DAY_CAP';
+      v_full_days      := 1;
+      v_remainder      := 0;
+      v_remainder_cost := 0;
+      v_billable_days  := 1;
+    ELSE
+      v_mode      := 'MULTI_DAY';
+      v_full_days := v_hours / v_policy.hours_per_day;   -- integer division = floor
+      v_remainder := v_hours % v_policy.hours_per_day;
+
+      IF v_remainder = 0 THEN
+        v_remainder_cost := 0;
+        v_billable_days  := v_full_days;
+      ELSIF v_remainder <= v_policy.day_cap_hours THEN
+        v_remainder_cost := v_remainder * p_hourly_rate;
+        v_billable_days  := v_full_days;              -- partial day charged hourly
+      ELSE
+        v_remainder_cost := v_day_rate;
+        v_billable_days  := v_full_days + 1;
+      END IF;
+
+      v_credits := v_full_days * v_day_rate + v_remainder_cost;
+    END IF;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'policy_id',       v_policy.id,
+    'policy_version',  v_policy.version,
+    'day_cap_hours',   v_policy.day_cap_hours,
+    'total_credits',   v_credits,
+    'pricing_mode',    v_mode,
+    'full_days',       v_full_days,
+    'remainder_hours', v_remainder,
+    'remainder_cost',  v_remainder_cost,
+    'hourly_rate',     p_hourly_rate,
+    'day_rate',        v_day_rate,
+    'duration_hours',  v_hours,
+    'billable_days',   v_billable_days
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.compute_rental_price(int, int, uuid) TO anon, authenticated;
+
+COMMENT ON FUNCTION public.compute_rental_price(int, int, uuid) IS
+  'Single SQL implementation of the rental pricing rules for a pricing policy '
+  '(NULL = active). Must stay in lock-step with calculateRentalPrice() in '
+  'src/lib/pricing.ts — verified by scripts/test_pricing.ts.';
+
+
+-- ############################################################################
+-- 3. bookings.pricing_policy_id
+-- ############################################################################
+
+ALTER TABLE public.bookings
+  ADD COLUMN IF NOT EXISTS pricing_policy_id uuid
+    REFERENCES public.pricing_policies(id) ON DELETE RESTRICT;
+
+-- Every booking made before this migration was priced by version 1
+UPDATE public.bookings
+   SET pricing_policy_id = (SELECT id FROM public.pricing_policies WHERE version = 1)
+ WHERE pricing_policy_id IS NULL;
+
+COMMENT ON COLUMN public.bookings.pricing_policy_id IS
+  'Pricing policy version that produced credits_charged';
+
+COMMENT ON COLUMN public.bookings.pricing_mode IS
+  'HOURLY — straight hourly billing  |  DAY_CAP — single day at the day rate  |  MULTI_DAY — full days + remainder';
+COMMENT ON COLUMN public.bookings.day_price_used IS
+  'hourly_rate_used × the policy''s day_cap_hours — the daily cap price';
+
+
+-- ############################################################################
+-- 4. create_booking — priced by compute_rental_price()
+-- ############################################################################
+
+CREATE OR REPLACE FUNCTION public.create_booking(
+  p_car_unit_id uuid,
+  p_start_ts    timestamptz,
+  p_end_ts      timestamptz
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_uid          uuid;
+  v_role         text;
+  v_unit         record;
+  v_model        record;
+  v_policy       public.pricing_policies%ROWTYPE;
+  v_start_utc    timestamp;
+  v_end_utc      timestamp;
+  v_duration_min int;
+  v_cph          int;
+  v_price        jsonb;
+  v_credits      int;
+  v_balance      int;
+  v_booking_id   uuid;
+  v_new_balance  int;
+BEGIN
+  -- ================================================================
+  -- 1. Auth: only CUSTOMERs may book
+  -- ================================================================
+  v_uid := auth.uid();
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT role INTO v_role
+    FROM public.profiles
+   WHERE id = v_uid;
+
+  IF v_role IS NULL OR v_role <> 'CUSTOMER' THEN
+    RAISE EXCEPTION 'Only customers may create bookings';
+  END IF;
+
+  -- ================================================================
+  -- 2. Basic time validation (minimum comes from the active policy)
+  -- ================================================================
+  IF p_end_ts <= p_start_ts THEN
+    RAISE EXCEPTION 'End time must be after start time';
+  END IF;
+
+  SELECT * INTO v_policy
+    FROM public.pricing_policies
+   WHERE is_active;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No active pricing policy configured';
+  END IF;
+
+  v_start_utc    := p_start_ts AT TIME ZONE 'UTC';
+  v_end_utc      := p_end_ts   AT TIME ZONE 'UTC';
+  v_duration_min := extract(epoch FROM (p_end_ts - p_start_ts))::int / 60;
+
+  IF v_duration_min < v_policy.min_duration_minutes THEN
+    RAISE EXCEPTION 'Minimum booking duration is % minutes', v_policy.min_duration_minutes;
+  END IF;
+
+  -- ================================================================
+  -- 3. Fetch and validate unit + model
+  -- ================================================================
+  SELECT * INTO v_unit
+    FROM public.car_units
+   WHERE id = p_car_unit_id
+     AND active = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Car unit not found or is not currently active';
+  END IF;
+
+  SELECT * INTO v_model
+    FROM public.car_models
+   WHERE id = v_unit.car_model_id;
+
+  -- ================================================================
+  -- 4. Blackout check
+  -- ================================================================
+  IF EXISTS (
+    SELECT 1
+      FROM public.car_blackouts b
+     WHERE b.car_unit_id = p_car_unit_id
+       AND b.start_ts    < p_end_ts
+       AND b.end_ts      > p_start_ts
+  ) THEN
+    RAISE EXCEPTION 'Car unit is blacked out during the requested time window';
+  END IF;
+
+  -- ================================================================
+  -- 5. Price the rental
+  -- ================================================================
+  v_cph := coalesce(v_unit.credits_per_hour, v_model.suggested_credits_per_hour);
+
+  IF v_cph IS NULL OR v_cph <= 0 THEN
+    RAISE EXCEPTION 'No credits-per-hour rate configured for this car unit';
+  END IF;
+
+  v_price   := public.compute_rental_price(v_duration_min, v_cph, v_policy.id);
+  v_credits := (v_price->>'total_credits')::int;
+
+  -- ================================================================
+  -- 6. Credit-balance check
+  -- ================================================================
+  SELECT coalesce(sum(delta), 0)
+    INTO v_balance
+    FROM public.credit_ledger
+   WHERE user_id = v_uid;
+
+  IF v_balance < v_credits THEN
+    RAISE EXCEPTION 'Insufficient credit balance (have %, need %)', v_balance, v_credits;
+  END IF;
+
+  -- ================================================================
+  -- 7. Insert booking + debit ledger + audit log (atomic)
+  -- ================================================================
+  BEGIN
+    INSERT INTO public.bookings
+           (car_unit_id, customer_id, start_ts, end_ts, credits_charged,
+            pricing_mode, hourly_rate_used, day_price_used,
+            billable_days, duration_minutes, pricing_policy_id)
+    VALUES (p_car_unit_id, v_uid, p_start_ts, p_end_ts, v_credits,
+            v_price->>'pricing_mode', v_cph, (v_price->>'day_rate')::int,
+            (v_price->>'billable_days')::int, v_duration_min, v_policy.id)
+    RETURNING id INTO v_booking_id;
+
+    INSERT INTO public.credit_ledger (user_id, delta, reason)
+    VALUES (v_uid, -v_credits,
+            format('Booking %s: %s → %s', v_booking_id, v_start_utc, v_end_utc));
+
+    INSERT INTO public.audit_log (actor_user_id, action, entity_type, entity_id, metadata)
+    VALUES (v_uid, 'booking.created', 'booking', v_booking_id,
+      jsonb_build_object(
+        'car_unit_id',     p_car_unit_id,
+        'start_ts',        v_start_utc,
+        'end_ts',          v_end_utc,
+        'duration_hours',  v_price->'duration_hours',
+        'pricing_mode',    v_price->'pricing_mode',
+        'hourly_rate',     v_cph,
+        'day_price',       v_price->'day_rate',
+        'full_days',       v_price->'full_days',
+        'remainder_hours', v_price->'remainder_hours',
+        'remainder_cost',  v_price->'remainder_cost',
+        'credits_charged', v_credits,
+        'policy_version',  v_policy.version
+    ));
+  EXCEPTION
+    WHEN unique_violation OR exclusion_violation THEN
+      RAISE EXCEPTION 'This car unit is already booked during the requested time window';
+  END;
+
+  -- Compute new balance
+  SELECT coalesce(sum(delta), 0)
+    INTO v_new_balance
+    FROM public.credit_ledger
+   WHERE user_id = v_uid;
+
+  RETURN jsonb_build_object(
+    'booking_id',       v_booking_id,
+    'credits_charged',  v_credits,
+    'balance_after',    v_new_balance,
+    'pricing_mode',     v_price->'pricing_mode',
+    'duration_hours',   v_price->'duration_hours',
+    'hourly_rate',      v_cph,
+    'day_rate',         v_price->'day_rate',
+    'full_days',        v_price->'full_days',
+    'remainder_hours',  v_price->'remainder_hours',
+    'remainder_cost',   v_price->'remainder_cost',
+    'policy_version',   v_policy.version
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_booking(uuid, timestamptz, timestamptz) TO authenticated;
+
+COMMENT ON FUNCTION public.create_booking IS
+  'Creates a booking priced by compute_rental_price() under the active pricing '
+  'policy, debits the ledger and records the policy version on the booking.';
@@ -0,0 +1,679 @@
+-- ============================================================================
+-- ForzaCars Rentals — Per-business / per-unit pricing policies
+-- Migration: 20250209000020_business_pricing_policies
+--
+-- Businesses can now set their own day-cap hours, minimum rental length and
+-- an optional weekly rate tier (e.g. 7 days billed as 5), either as their
+-- business default or as an override on a single car_unit.
+--
+-- 1. pricing_policies.business_id + weekly_billable_days
+-- 2. businesses.pricing_policy_id / car_units.pricing_policy_id pointers
+-- 3. resolve_pricing_policy_id() / unit_pricing_policies() lookups
+--    (unit override → business default → active platform policy)
+-- 4. compute_rental_price() gains the WEEKLY mode
+-- 5. business_set_pricing_policy / business_reset_unit_pricing_policy RPCs
+-- 6. create_booking prices with the unit's resolved policy
+--
+-- Policy rows stay immutable: every edit inserts a new version and moves the
+-- pointer, so existing bookings keep referencing the rules they were priced by.
+-- ============================================================================
+
+
+-- ############################################################################
+-- 1. pricing_policies — ownership + weekly tier
+-- ############################################################################
+
+ALTER TABLE public.pricing_policies
+  ADD COLUMN IF NOT EXISTS business_id uuid
+    REFERENCES public.businesses(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS weekly_billable_days int
+    CHECK (weekly_billable_days BETWEEN 1 AND 7);
+
+-- Only platform policies (business_id NULL) can be the active default
+ALTER TABLE public.pricing_policies
+  ADD CONSTRAINT pricing_policies_active_is_platform
+  CHECK (business_id IS NULL OR NOT is_active);
+
+-- Business policies must sit on the 30-minute booking grid
+ALTER TABLE public.pricing_policies
+  ADD CONSTRAINT pricing_policies_min_on_grid
+  CHECK (min_duration_minutes >= 30 AND min_duration_minutes % 30 = 0);
+
+DROP INDEX IF EXISTS public.idx_pricing_policies_single_active;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_pricing_policies_single_active
+  ON public.pricing_policies (is_active)
+  WHERE is_active AND business_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_pricing_policies_business
+  ON public.pricing_policies (business_id);
+
+COMMENT ON COLUMN public.pricing_policies.business_id IS
+  'Owning business (NULL = platform policy)';
+COMMENT ON COLUMN public.pricing_policies.weekly_billable_days IS
+  'Weekly tier: each full week (7 × hours_per_day) is billed as this many day '
+  'rates, and a multi-day rental never costs more than a week per week. NULL = off';
+
+-- Weekly tier is part of the immutable rules
+CREATE OR REPLACE FUNCTION public.handle_pricing_policies_immutable()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF NEW.version              IS DISTINCT FROM OLD.version
+  OR NEW.business_id          IS DISTINCT FROM OLD.business_id
+  OR NEW.day_cap_hours        IS DISTINCT FROM OLD.day_cap_hours
+  OR NEW.hours_per_day        IS DISTINCT FROM OLD.hours_per_day
+  OR NEW.min_duration_minutes IS DISTINCT FROM OLD.min_duration_minutes
+  OR NEW.weekly_billable_days IS DISTINCT FROM OLD.weekly_billable_days THEN
+    RAISE EXCEPTION 'Pricing policy rules are immutable; create a new version instead';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+
+-- ############################################################################
+-- 2. Policy pointers
+-- ############################################################################
+
+ALTER TABLE public.businesses
+  ADD COLUMN IF NOT EXISTS pricing_policy_id uuid
+    REFERENCES public.pricing_policies(id) ON DELETE SET NULL;
+
+ALTER TABLE public.car_units
+  ADD COLUMN IF NOT EXISTS pricing_policy_id uuid
+    REFERENCES public.pricing_policies(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.businesses.pricing_policy_id IS
+  'Business default pricing policy (NULL = active platform policy)';
+COMMENT ON COLUMN public.car_units.pricing_policy_id IS
+  'Per-unit pricing policy override (NULL = business default)';
+
+
+-- ############################################################################
+-- 3. Policy resolution
+-- ############################################################################
+
+CREATE OR REPLACE FUNCTION public.resolve_pricing_policy_id(p_car_unit_id uuid)
+RETURNS uuid
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = ''
+STABLE
+AS $$
+  SELECT coalesce(
+    (SELECT coalesce(cu.pricing_policy_id, b.pricing_policy_id)
+       FROM public.car_units cu
+       JOIN public.businesses b ON b.id = cu.business_id
+      WHERE cu.id = p_car_unit_id),
+    (SELECT pp.id
+       FROM public.pricing_policies pp
+      WHERE pp.is_active AND pp.business_id IS NULL)
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.resolve_pricing_policy_id(uuid) TO anon, authenticated;
+
+COMMENT ON FUNCTION public.resolve_pricing_policy_id(uuid) IS
+  'Pricing policy that applies to a car_unit: unit override, else business '
+  'default, else the active platform policy.';
+
+
+CREATE OR REPLACE FUNCTION public.unit_pricing_policies(p_unit_ids uuid[])
+RETURNS TABLE (
+  car_unit_id          uuid,
+  id                   uuid,
+  version              int,
+  day_cap_hours        int,
+  hours_per_day        int,
+  min_duration_minutes int,
+  weekly_billable_days int
+)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = ''
+STABLE
+AS $$
+  SELECT u.unit_id, pp.id, pp.version, pp.day_cap_hours, pp.hours_per_day,
+         pp.min_duration_minutes, pp.weekly_billable_days
+    FROM unnest(p_unit_ids) AS u(unit_id)
+    JOIN public.pricing_policies pp
+      ON pp.id = public.resolve_pricing_policy_id(u.unit_id);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.unit_pricing_policies(uuid[]) TO anon, authenticated;
+
+COMMENT ON FUNCTION public.unit_pricing_policies(uuid[]) IS
+  'Resolved pricing policy for each given car_unit (batch form of '
+  'resolve_pricing_policy_id for quotes and availability).';
+
+
+-- ############################################################################
+-- 4. compute_rental_price — WEEKLY mode
+--
+--    Mirrors calculateRentalPrice() in src/lib/pricing.ts. With a weekly
+--    tier W and week = 7 × hours_per_day hours, a rental longer than a day:
+--      • weeks     = floor(hours / week)
+--      • rest      = hours % week, priced by the day rules
+--                    (full days × day rate + remainder)
+--      • rest cost > W × day rate → counts as one more week
+--      • any full week → WEEKLY:  weeks × week rate + rest cost
+--        otherwise     → MULTI_DAY as before
+-- ############################################################################
+
+CREATE OR REPLACE FUNCTION public.compute_rental_price(
+  p_duration_min int,
+  p_hourly_rate  int,
+  p_policy_id    uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SET search_path = ''
+AS $$
+DECLARE
+  v_policy         public.pricing_policies%ROWTYPE;
+  v_hours          int;
+  v_day_rate       int;
+  v_week_rate      int;
+  v_week_hours     int;
+  v_credits        int;
+  v_mode           text;
+  v_full_weeks     int;
+  v_full_days      int;
+  v_remainder      int;
+  v_remainder_cost int;
+  v_billable_days  int;
+  v_rest_hours     int;
+BEGIN
+  IF p_policy_id IS NULL THEN
+    SELECT * INTO v_policy
+      FROM public.pricing_policies
+     WHERE is_active AND business_id IS NULL;
+  ELSE
+    SELECT * INTO v_policy FROM public.pricing_policies WHERE id = p_policy_id;
+  END IF;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Pricing policy not found';
+  END IF;
+
+  v_day_rate   := coalesce(p_hourly_rate, 0) * v_policy.day_cap_hours;
+  v_week_rate  := v_day_rate * v_policy.weekly_billable_days;   -- NULL when no tier
+  v_week_hours := 7 * v_policy.hours_per_day;
+  v_full_weeks := NULL;
+
+  IF coalesce(p_duration_min, 0) <= 0 OR coalesce(p_hourly_rate, 0) <= 0 THEN
+    v_hours          := 0;
+    v_credits        := 0;
+    v_mode           := 'HOURLY';
+    v_full_days      := NULL;
+    v_remainder      := 0;
+    v_remainder_cost := 0;
+    v_billable_days  := NULL;
+  ELSE
+    v_hours := ceil(p_duration_min / 60.0)::int;
+
+    IF v_hours <= v_policy.day_cap_hours THEN
+      v_credits        := v_hours * p_hourly_rate;
+      v_mode           := 'HOURLY';
+      v_full_days      := NULL;
+      v_remainder      := v_hours;
+      v_remainder_cost := v_credits;
+      v_billable_days  := NULL;
+    ELSIF v_hours <= v_policy.hours_per_day THEN
+      v_credits        := v_day_rate;
+      v_mode           := 'DAY_CAP';
+      v_full_days      := 1;
+      v_remainder      := 0;
+      v_remainder_cost := 0;
+      v_billable_days  := 1;
+    ELSE
+      -- Hours not covered by full weeks (all of them without a weekly tier)
+      IF v_week_rate IS NULL THEN
+        v_full_weeks := 0;
+        v_rest_hours := v_hours;
+      ELSE
+        v_full_weeks := v_hours / v_week_hours;
+        v_rest_hours := v_hours % v_week_hours;
+      END IF;
+
+      v_full_days := v_rest_hours / v_policy.hours_per_day;   -- integer division = floor
+      v_remainder := v_rest_hours % v_policy.hours_per_day;
+
+      IF v_remainder = 0 THEN
+        v_remainder_cost := 0;
+        v_billable_days  := v_full_days;
+      ELSIF v_remainder <= v_policy.day_cap_hours THEN
+        v_remainder_cost := v_remainder * p_hourly_rate;
+        v_billable_days  := v_full_days;              -- partial day charged hourly
+      ELSE
+        v_remainder_cost := v_day_rate;
+        v_billable_days  := v_full_days + 1;
+      END IF;
+
+      IF v_week_rate IS NULL THEN
+        v_mode    := 'MULTI_DAY';
+        v_credits := v_full_days * v_day_rate + v_remainder_cost;
+      ELSE
+        -- Rest cost (days + partial day), never more than another week
+        v_remainder_cost := v_full_days * v_day_rate + v_remainder_cost;
+
+        IF v_remainder_cost > v_week_rate THEN
+          v_full_weeks     := v_full_weeks + 1;
+          v_full_days      := 0;
+          v_remainder      := 0;
+          v_remainder_cost := 0;
+          v_billable_days  := 0;
+        END IF;
+
+        IF v_full_weeks = 0 THEN
+          -- Shorter than a week: plain multi-day (remainder cost = partial day only)
+          v_mode           := 'MULTI_DAY';
+          v_credits        := v_remainder_cost;
+          v_remainder_cost := v_remainder_cost - v_full_days * v_day_rate;
+          v_full_weeks     := NULL;
+        ELSE
+          v_mode          := 'WEEKLY';
+          v_credits       := v_full_weeks * v_week_rate + v_remainder_cost;
+          v_billable_days := v_full_weeks * v_policy.weekly_billable_days + v_billable_days;
+        END IF;
+      END IF;
+
+      IF v_mode = 'MULTI_DAY' THEN
+        v_full_weeks := NULL;
+      END IF;
+    END IF;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'policy_id',       v_policy.id,
+    'policy_version',  v_policy.version,
+    'day_cap_hours',   v_policy.day_cap_hours,
+    'total_credits',   v_credits,
+    'pricing_mode',    v_mode,
+    'full_weeks',      v_full_weeks,
+    'week_rate',       v_week_rate,
+    'full_days',       v_full_days,
+    'remainder_hours', v_remainder,
+    'remainder_cost',  v_remainder_cost,
+    'hourly_rate',     p_hourly_rate,
+    'day_rate',        v_day_rate,
+    'duration_hours',  v_hours,
+    'billable_days',   v_billable_days
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.compute_rental_price(int, int, uuid) TO anon, authenticated;
+
+COMMENT ON COLUMN public.bookings.pricing_mode IS
+  'HOURLY — straight hourly billing  |  DAY_CAP — single day at the day rate  |  '
+  'MULTI_DAY — full days + remainder  |  WEEKLY — full weeks at the weekly tier + rest';
+
+
+-- ############################################################################
+-- 5. Business RPCs
+-- ############################################################################
+
+-- ---------------------------------------------------------------------------
+-- business_set_pricing_policy
+--
+-- Creates a new policy version for the caller's business and points either
+-- the business default (p_car_unit_id NULL) or one of its units at it.
+-- ---------------------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION public.business_set_pricing_policy(
+  p_car_unit_id          uuid,
+  p_day_cap_hours        int,
+  p_min_duration_minutes int,
+  p_weekly_billable_days int DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_uid         uuid;
+  v_business_id uuid;
+  v_policy_id   uuid;
+  v_version     int;
+BEGIN
+  -- ================================================================
+  -- 1. Auth: caller must be a BUSINESS user with a business_id
+  -- ================================================================
+  v_uid := auth.uid();
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT business_id INTO v_business_id
+    FROM public.profiles
+   WHERE id = v_uid AND role = 'BUSINESS';
+
+  IF v_business_id IS NULL THEN
+    RAISE EXCEPTION 'Only business users with an assigned business can set pricing';
+  END IF;
+
+  -- ================================================================
+  -- 2. Validate inputs
+  -- ================================================================
+  IF p_day_cap_hours IS NULL OR p_day_cap_hours < 1 OR p_day_cap_hours > 24 THEN
+    RAISE EXCEPTION 'Day cap must be between 1 and 24 hours';
+  END IF;
+
+  IF p_min_duration_minutes IS NULL
+     OR p_min_duration_minutes < 30
+     OR p_min_duration_minutes % 30 <> 0
+     OR p_min_duration_minutes > 7 * 24 * 60 THEN
+    RAISE EXCEPTION 'Minimum duration must be a multiple of 30 minutes, up to 7 days';
+  END IF;
+
+  IF p_weekly_billable_days IS NOT NULL
+     AND (p_weekly_billable_days < 1 OR p_weekly_billable_days > 7) THEN
+    RAISE EXCEPTION 'Weekly tier must bill between 1 and 7 days';
+  END IF;
+
+  IF p_car_unit_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.car_units
+     WHERE id = p_car_unit_id AND business_id = v_business_id
+  ) THEN
+    RAISE EXCEPTION 'Car unit not found or not owned by your business';
+  END IF;
+
+  -- ================================================================
+  -- 3. Insert the new version and repoint
+  -- ================================================================
+  SELECT coalesce(max(version), 0) + 1 INTO v_version
+    FROM public.pricing_policies;
+
+  INSERT INTO public.pricing_policies
+         (version, business_id, day_cap_hours, hours_per_day,
+          min_duration_minutes, weekly_billable_days, created_by)
+  VALUES (v_version, v_business_id, p_day_cap_hours, 24,
+          p_min_duration_minutes, p_weekly_billable_days, v_uid)
+  RETURNING id INTO v_policy_id;
+
+  IF p_car_unit_id IS NULL THEN
+    UPDATE public.businesses
+       SET pricing_policy_id = v_policy_id
+     WHERE id = v_business_id;
+  ELSE
+    UPDATE public.car_units
+       SET pricing_policy_id = v_policy_id
+     WHERE id = p_car_unit_id;
+  END IF;
+
+  -- ================================================================
+  -- 4. Audit log
+  -- ================================================================
+  INSERT INTO public.audit_log (actor_user_id, action, entity_type, entity_id, metadata)
+  VALUES (v_uid, 'pricing_policy.updated', 'pricing_policy', v_policy_id,
+    jsonb_build_object(
+      'business_id',          v_business_id,
+      'car_unit_id',          p_car_unit_id,
+      'version',              v_version,
+      'day_cap_hours',        p_day_cap_hours,
+      'min_duration_minutes', p_min_duration_minutes,
+      'weekly_billable_days', p_weekly_billable_days
+  ));
+
+  RETURN jsonb_build_object(
+    'policy_id', v_policy_id,
+    'version',   v_version
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.business_set_pricing_policy(uuid, int, int, int) FROM public;
+GRANT EXECUTE ON FUNCTION public.business_set_pricing_policy(uuid, int, int, int) TO authenticated;
+
+COMMENT ON FUNCTION public.business_set_pricing_policy(uuid, int, int, int) IS
+  'Creates a new pricing policy version for the caller''s business and applies '
+  'it as the business default (unit NULL) or as a unit override.';
+
+
+-- ---------------------------------------------------------------------------
+-- business_reset_unit_pricing_policy — unit falls back to the business default
+-- ---------------------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION public.business_reset_unit_pricing_policy(
+  p_car_unit_id uuid
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_uid         uuid;
+  v_business_id uuid;
+BEGIN
+  v_uid := auth.uid();
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT business_id INTO v_business_id
+    FROM public.profiles
+   WHERE id = v_uid AND role = 'BUSINESS';
+
+  IF v_business_id IS NULL THEN
+    RAISE EXCEPTION 'Only business users with an assigned business can set pricing';
+  END IF;
+
+  UPDATE public.car_units
+     SET pricing_policy_id = NULL
+   WHERE id = p_car_unit_id
+     AND business_id = v_business_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Car unit not found or not owned by your business';
+  END IF;
+
+  INSERT INTO public.audit_log (actor_user_id, action, entity_type, entity_id, metadata)
+  VALUES (v_uid, 'pricing_policy.unit_reset', 'car_unit', p_car_unit_id,
+    jsonb_build_object('business_id', v_business_id));
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.business_reset_unit_pricing_policy(uuid) FROM public;
+GRANT EXECUTE ON FUNCTION public.business_reset_unit_pricing_policy(uuid) TO authenticated;
+
+
+-- ############################################################################
+-- 6. create_booking — unit's resolved policy
+-- ############################################################################
+
+CREATE OR REPLACE FUNCTION public.create_booking(
+  p_car_unit_id uuid,
+  p_start_ts    timestamptz,
+  p_end_ts      timestamptz
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_uid          uuid;
+  v_role         text;
+  v_unit         record;
+  v_model        record;
+  v_policy       public.pricing_policies%ROWTYPE;
+  v_start_utc    timestamp;
+  v_end_utc      timestamp;
+  v_duration_min int;
+  v_cph          int;
+  v_price        jsonb;
+  v_credits      int;
+  v_balance      int;
+  v_booking_id   uuid;
+  v_new_balance  int;
+BEGIN
+  -- ================================================================
+  -- 1. Auth: only CUSTOMERs may book
+  -- ================================================================
+  v_uid := auth.uid();
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT role INTO v_role
+    FROM public.profiles
+   WHERE id = v_uid;
+
+  IF v_role IS NULL OR v_role <> 'CUSTOMER' THEN
+    RAISE EXCEPTION 'Only customers may create bookings';
+  END IF;
+
+  -- ================================================================
+  -- 2. Basic time validation
+  -- ================================================================
+  IF p_end_ts <= p_start_ts THEN
+    RAISE EXCEPTION 'End time must be after start time';
+  END IF;
+
+  v_start_utc    := p_start_ts AT TIME ZONE 'UTC';
+  v_end_utc      := p_end_ts   AT TIME ZONE 'UTC';
+  v_duration_min := extract(epoch FROM (p_end_ts - p_start_ts))::int / 60;
+
+  -- ================================================================
+  -- 3. Fetch and validate unit + model
+  -- ================================================================
+  SELECT * INTO v_unit
+    FROM public.car_units
+   WHERE id = p_car_unit_id
+     AND active = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Car unit not found or is not currently active';
+  END IF;
+
+  SELECT * INTO v_model
+    FROM public.car_models
+   WHERE id = v_unit.car_model_id;
+
+  -- ================================================================
+  -- 4. Resolve the unit's pricing policy; enforce its minimum
+  -- ================================================================
+  SELECT * INTO v_policy
+    FROM public.pricing_policies
+   WHERE id = public.resolve_pricing_policy_id(p_car_unit_id);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No pricing policy configured for this car unit';
+  END IF;
+
+  IF v_duration_min < v_policy.min_duration_minutes THEN
+    RAISE EXCEPTION 'Minimum booking duration for this car is % minutes', v_policy.min_duration_minutes;
+  END IF;
+
+  -- ================================================================
+  -- 5. Blackout check
+  -- ================================================================
+  IF EXISTS (
+    SELECT 1
+      FROM public.car_blackouts b
+     WHERE b.car_unit_id = p_car_unit_id
+       AND b.start_ts    < p_end_ts
+       AND b.end_ts      > p_start_ts
+  ) THEN
+    RAISE EXCEPTION 'Car unit is blacked out during the requested time window';
+  END IF;
+
+  -- ================================================================
+  -- 6. Price the rental
+  -- ================================================================
+  v_cph := coalesce(v_unit.credits_per_hour, v_model.suggested_credits_per_hour);
+
+  IF v_cph IS NULL OR v_cph <= 0 THEN
+    RAISE EXCEPTION 'No credits-per-hour rate configured for this car unit';
+  END IF;
+
+  v_price   := public.compute_rental_price(v_duration_min, v_cph, v_policy.id);
+  v_credits := (v_price->>'total_credits')::int;
+
+  -- ================================================================
+  -- 7. Credit-balance check
+  -- ================================================================
+  SELECT coalesce(sum(delta), 0)
+    INTO v_balance
+    FROM public.credit_ledger
+   WHERE user_id = v_uid;
+
+  IF v_balance < v_credits THEN
+    RAISE EXCEPTION 'Insufficient credit balance (have %, need %)', v_balance, v_credits;
+  END IF;
+
+  -- ================================================================
+  -- 8. Insert booking + debit ledger + audit log (atomic)
+  -- ================================================================
+  BEGIN
+    INSERT INTO public.bookings
+           (car_unit_id, customer_id, start_ts, end_ts, credits_charged,
+            pricing_mode, hourly_rate_used, day_price_used,
+            billable_days, duration_minutes, pricing_policy_id)
+    VALUES (p_car_unit_id, v_uid, p_start_ts, p_end_ts, v_credits,
+            v_price->>'pricing_mode', v_cph, (v_price->>'day_rate')::int,
+            (v_price->>'billable_days')::int, v_duration_min, v_policy.id)
+    RETURNING id INTO v_booking_id;
+
+    INSERT INTO public.credit_ledger (user_id, delta, reason)
+    VALUES (v_uid, -v_credits,
+            format('Booking %s: %s → %s', v_booking_id, v_start_utc, v_end_utc));
+
+    INSERT INTO public.audit_log (actor_user_id, action, entity_type, entity_id, metadata)
+    VALUES (v_uid, 'booking.created', 'booking', v_booking_id,
+      jsonb_build_object(
+        'car_unit_id',     p_car_unit_id,
+        'start_ts',        v_start_utc,
+        'end_ts',          v_end_utc,
+        'duration_hours',  v_price->'duration_hours',
+        'pricing_mode',    v_price->'pricing_mode',
+        'hourly_rate',     v_cph,
+        'day_price',       v_price->'day_rate',
+        'full_weeks',      v_price->'full_weeks',
+        'full_days',       v_price->'full_days',
+        'remainder_hours', v_price->'remainder_hours',
+        'remainder_cost',  v_price->'remainder_cost',
+        'credits_charged', v_credits,
+        'policy_version',  v_policy.version
+    ));
+  EXCEPTION
+    WHEN unique_violation OR exclusion_violation THEN
+      RAISE EXCEPTION 'This car unit is already booked during the requested time window';
+  END;
+
+  -- Compute new balance
+  SELECT coalesce(sum(delta), 0)
+    INTO v_new_balance
+    FROM public.credit_ledger
+   WHERE user_id = v_uid;
+
+  RETURN jsonb_build_object(
+    'booking_id',       v_booking_id,
+    'credits_charged',  v_credits,
+    'balance_after',    v_new_balance,
+    'pricing_mode',     v_price->'pricing_mode',
+    'duration_hours',   v_price->'duration_hours',
+    'hourly_rate',      v_cph,
+    'day_rate',         v_price->'day_rate',
+    'full_weeks',       v_price->'full_weeks',
+    'full_days',        v_price->'full_days',
+    'remainder_hours',  v_price->'remainder_hours',
+    'remainder_cost',   v_price->'remainder_cost',
+    'policy_version',   v_policy.version
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_booking(uuid, timestamptz, timestamptz) TO authenticated;
+
+COMMENT ON FUNCTION public.create_booking IS
+  'Creates a booking priced by compute_rental_price() under the car unit''s '
+  'resolved pricing policy (unit → business → platform), debits the ledger and '
+  'records the policy version on the booking.';
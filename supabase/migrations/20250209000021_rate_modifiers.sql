@@ -0,0 +1,487 @@
+-- ============================================================================
+-- ForzaCars Rentals — Time-of-day, weekend and holiday surge pricing
+-- Migration: 20250209000021_rate_modifiers
+--
+-- 1. rate_modifiers table — per business or per car_unit
+-- 2. compute_rate_surcharges() — slot-by-slot surcharge over the 30-minute
+--    grid, evaluated in the business timezone (America/Chicago)
+-- 3. quote_booking_price() — full quote for a unit + window
+--    (rate, pricing policy, base price, surcharges)
+-- 4. bookings.base_credits / surcharge_credits / surcharges snapshot
+-- 5. create_booking charges quote_booking_price()
+--
+-- How a surcharge is computed (mirrors calculateRentalPrice in
+-- src/lib/pricing.ts):
+--   • The window is cut into 30-minute slots; each slot takes the highest
+--     matching modifier (ties broken by id).
+--   • The base price (with its day / week caps) is spread evenly over the
+--     slots; a slot at 150 % adds 50 % of its share.
+--   • Per modifier: ceil(base × Σ(pct − 100) / (slots × 100)) credits.
+--   So a Saturday-only rental at 150 % costs 1.5 × the usual capped price,
+--   and caps keep working for long rentals.
+-- ============================================================================
+
+
+-- ############################################################################
+-- 1. rate_modifiers
+-- ############################################################################
+
+CREATE TABLE IF NOT EXISTS public.rate_modifiers (
+  id             uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id    uuid NOT NULL REFERENCES public.businesses(id) ON DELETE CASCADE,
+  car_unit_id    uuid REFERENCES public.car_units(id) ON DELETE CASCADE,
+  kind           text NOT NULL CHECK (kind IN ('WEEKEND', 'PEAK', 'HOLIDAY')),
+  label          text NOT NULL CHECK (char_length(label) BETWEEN 1 AND 60),
+  multiplier_pct int  NOT NULL CHECK (multiplier_pct BETWEEN 101 AND 500),
+  days_of_week   int[] CHECK (days_of_week <@ ARRAY[0,1,2,3,4,5,6]),
+  start_time     time,
+  end_time       time,
+  holiday_date   date,
+  active         boolean NOT NULL DEFAULT true,
+  created_at     timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT rate_modifiers_peak_window CHECK (
+    kind <> 'PEAK' OR (start_time IS NOT NULL AND end_time IS NOT NULL AND end_time > start_time)
+  ),
+  CONSTRAINT rate_modifiers_holiday_date CHECK (
+    kind <> 'HOLIDAY' OR holiday_date IS NOT NULL
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_modifiers_business
+  ON public.rate_modifiers (business_id)
+  WHERE active;
+
+CREATE INDEX IF NOT EXISTS idx_rate_modifiers_unit
+  ON public.rate_modifiers (car_unit_id)
+  WHERE car_unit_id IS NOT NULL;
+
+COMMENT ON TABLE public.rate_modifiers IS
+  'Surge pricing rules. car_unit_id NULL = applies to every unit of the business.';
+COMMENT ON COLUMN public.rate_modifiers.multiplier_pct IS
+  'Rate multiplier in percent (150 = 1.5×)';
+COMMENT ON COLUMN public.rate_modifiers.days_of_week IS
+  '0 = Sunday … 6 = Saturday, in America/Chicago. WEEKEND defaults to {0,6}; PEAK NULL = every day';
+COMMENT ON COLUMN public.rate_modifiers.start_time IS
+  'PEAK window start (local time, inclusive)';
+COMMENT ON COLUMN public.rate_modifiers.end_time IS
+  'PEAK window end (local time, exclusive; 24:00 = midnight)';
+
+
+-- ---------------------------------------------------------------------------
+-- RLS: active modifiers are public (they drive quotes); businesses manage
+-- their own; admins everything.
+-- ---------------------------------------------------------------------------
+
+ALTER TABLE public.rate_modifiers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "rate_modifiers: anyone can read active"
+  ON public.rate_modifiers FOR SELECT
+  USING (active = true);
+
+CREATE POLICY "rate_modifiers: business users can read own"
+  ON public.rate_modifiers FOR SELECT
+  TO authenticated
+  USING (business_id = public.get_my_business_id());
+
+CREATE POLICY "rate_modifiers: business users can insert own"
+  ON public.rate_modifiers FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    business_id = public.get_my_business_id()
+    AND (
+      car_unit_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM public.car_units
+         WHERE car_units.id = car_unit_id
+           AND car_units.business_id = public.get_my_business_id()
+      )
+    )
+  );
+
+CREATE POLICY "rate_modifiers: business users can update own"
+  ON public.rate_modifiers FOR UPDATE
+  TO authenticated
+  USING      (business_id = public.get_my_business_id())
+  WITH CHECK (business_id = public.get_my_business_id());
+
+CREATE POLICY "rate_modifiers: business users can delete own"
+  ON public.rate_modifiers FOR DELETE
+  TO authenticated
+  USING (business_id = public.get_my_business_id());
+
+CREATE POLICY "rate_modifiers: admins full access"
+  ON public.rate_modifiers FOR ALL
+  TO authenticated
+  USING      (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+GRANT SELECT ON public.rate_modifiers TO anon;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.rate_modifiers TO authenticated;
+
+
+-- ############################################################################
+-- 2. compute_rate_surcharges(unit, start, end, base_credits)
+--
+--    Returns { surcharge_credits, lines: [ { modifier_id, label, kind,
+--    multiplier_pct, slots, hours, credits } ] } ordered by multiplier
+--    (desc) then id — the same order calculateRentalPrice produces.
+-- ############################################################################
+
+CREATE OR REPLACE FUNCTION public.compute_rate_surcharges(
+  p_car_unit_id  uuid,
+  p_start_ts     timestamptz,
+  p_end_ts       timestamptz,
+  p_base_credits int
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+STABLE
+AS $$
+DECLARE
+  v_business_id uuid;
+  v_slot_count  int;
+  v_lines       jsonb;
+BEGIN
+  SELECT business_id INTO v_business_id
+    FROM public.car_units
+   WHERE id = p_car_unit_id;
+
+  v_slot_count := ceil(extract(epoch FROM (p_end_ts - p_start_ts)) / 1800.0)::int;
+
+  IF v_business_id IS NULL OR v_slot_count <= 0 OR coalesce(p_base_credits, 0) <= 0 THEN
+    RETURN jsonb_build_object('surcharge_credits', 0, 'lines', '[]'::jsonb);
+  END IF;
+
+  WITH slots AS (
+    SELECT s.slot_start,
+           s.slot_start AT TIME ZONE 'America/Chicago' AS local_ts
+      FROM generate_series(p_start_ts, p_end_ts - interval '1 microsecond',
+                           interval '30 minutes') AS s(slot_start)
+  ),
+  winners AS (
+    -- Highest modifier per slot
+    SELECT DISTINCT ON (sl.slot_start)
+           sl.slot_start, m.id, m.label, m.kind, m.multiplier_pct
+      FROM slots sl
+      JOIN public.rate_modifiers m
+        ON m.active
+       AND m.business_id = v_business_id
+       AND (m.car_unit_id IS NULL OR m.car_unit_id = p_car_unit_id)
+       AND (
+             (m.kind = 'WEEKEND'
+              AND extract(dow FROM sl.local_ts)::int = ANY (coalesce(m.days_of_week, ARRAY[0,6])))
+          OR (m.kind = 'PEAK'
+              AND (m.days_of_week IS NULL OR extract(dow FROM sl.local_ts)::int = ANY (m.days_of_week))
+              AND sl.local_ts::time >= m.start_time
+              AND sl.local_ts::time <  m.end_time)
+          OR (m.kind = 'HOLIDAY'
+              AND sl.local_ts::date = m.holiday_date)
+           )
+     ORDER BY sl.slot_start, m.multiplier_pct DESC, m.id
+  ),
+  per_modifier AS (
+    SELECT w.id, w.label, w.kind, w.multiplier_pct,
+           count(*)::int AS slots,
+           ceil(p_base_credits::numeric * sum(w.multiplier_pct - 100)
+                / (v_slot_count * 100))::int AS credits
+      FROM winners w
+     GROUP BY w.id, w.label, w.kind, w.multiplier_pct
+  )
+  SELECT coalesce(
+           jsonb_agg(
+             jsonb_build_object(
+               'modifier_id',    pm.id,
+               'label',          pm.label,
+               'kind',           pm.kind,
+               'multiplier_pct', pm.multiplier_pct,
+               'slots',          pm.slots,
+               'hours',          pm.slots / 2.0,
+               'credits',        pm.credits
+             )
+             ORDER BY pm.multiplier_pct DESC, pm.id
+           ),
+           '[]'::jsonb
+         )
+    INTO v_lines
+    FROM per_modifier pm;
+
+  RETURN jsonb_build_object(
+    'surcharge_credits',
+      (SELECT coalesce(sum((l->>'credits')::int), 0) FROM jsonb_array_elements(v_lines) l),
+    'lines', v_lines
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.compute_rate_surcharges(uuid, timestamptz, timestamptz, int) TO anon, authenticated;
+
+COMMENT ON FUNCTION public.compute_rate_surcharges(uuid, timestamptz, timestamptz, int) IS
+  'Slot-by-slot (30 min, America/Chicago) surge surcharge for a unit and window. '
+  'Must stay in lock-step with calculateRentalPrice() in src/lib/pricing.ts.';
+
+
+-- ############################################################################
+-- 3. quote_booking_price(unit, start, end)
+-- ############################################################################
+
+CREATE OR REPLACE FUNCTION public.quote_booking_price(
+  p_car_unit_id uuid,
+  p_start_ts    timestamptz,
+  p_end_ts      timestamptz
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+STABLE
+AS $$
+DECLARE
+  v_cph          int;
+  v_policy_id    uuid;
+  v_duration_min int;
+  v_price        jsonb;
+  v_surge        jsonb;
+  v_base         int;
+BEGIN
+  SELECT coalesce(cu.credits_per_hour, cm.suggested_credits_per_hour)
+    INTO v_cph
+    FROM public.car_units cu
+    JOIN public.car_models cm ON cm.id = cu.car_model_id
+   WHERE cu.id = p_car_unit_id;
+
+  IF v_cph IS NULL OR v_cph <= 0 THEN
+    RAISE EXCEPTION 'No credits-per-hour rate configured for this car unit';
+  END IF;
+
+  v_policy_id    := public.resolve_pricing_policy_id(p_car_unit_id);
+  v_duration_min := extract(epoch FROM (p_end_ts - p_start_ts))::int / 60;
+  v_price        := public.compute_rental_price(v_duration_min, v_cph, v_policy_id);
+  v_base         := (v_price->>'total_credits')::int;
+  v_surge        := public.compute_rate_surcharges(p_car_unit_id, p_start_ts, p_end_ts, v_base);
+
+  RETURN v_price || jsonb_build_object(
+    'duration_minutes',  v_duration_min,
+    'base_credits',      v_base,
+    'surcharge_credits', (v_surge->>'surcharge_credits')::int,
+    'surcharges',        v_surge->'lines',
+    'total_credits',     v_base + (v_surge->>'surcharge_credits')::int
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.quote_booking_price(uuid, timestamptz, timestamptz) TO anon, authenticated;
+
+COMMENT ON FUNCTION public.quote_booking_price(uuid, timestamptz, timestamptz) IS
+  'Full price quote for a car unit and window: resolved pricing policy, base '
+  'price and surge surcharges. create_booking charges exactly this.';
+
+
+-- ############################################################################
+-- 4. Booking price snapshot
+-- ############################################################################
+
+ALTER TABLE public.bookings
+  ADD COLUMN IF NOT EXISTS base_credits      int,
+  ADD COLUMN IF NOT EXISTS surcharge_credits int NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS surcharges        jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN public.bookings.base_credits IS
+  'Price before surge surcharges';
+COMMENT ON COLUMN public.bookings.surcharge_credits IS
+  'Sum of surge surcharges included in credits_charged';
+COMMENT ON COLUMN public.bookings.surcharges IS
+  'Itemized surcharge lines (label, multiplier_pct, hours, credits) at booking time';
+
+
+-- ############################################################################
+-- 5. create_booking — charges quote_booking_price()
+-- ############################################################################
+
+CREATE OR REPLACE FUNCTION public.create_booking(
+  p_car_unit_id uuid,
+  p_start_ts    timestamptz,
+  p_end_ts      timestamptz
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_uid          uuid;
+  v_role         text;
+  v_unit         record;
+  v_policy       public.pricing_policies%ROWTYPE;
+  v_start_utc    timestamp;
+  v_end_utc      timestamp;
+  v_duration_min int;
+  v_quote        jsonb;
+  v_credits      int;
+  v_balance      int;
+  v_booking_id   uuid;
+  v_new_balance  int;
+BEGIN
+  -- ================================================================
+  -- 1. Auth: only CUSTOMERs may book
+  -- ================================================================
+  v_uid := auth.uid();
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT role INTO v_role
+    FROM public.profiles
+   WHERE id = v_uid;
+
+  IF v_role IS NULL OR v_role <> 'CUSTOMER' THEN
+    RAISE EXCEPTION 'Only customers may create bookings';
+  END IF;
+
+  -- ================================================================
+  -- 2. Basic time validation
+  -- ================================================================
+  IF p_end_ts <= p_start_ts THEN
+    RAISE EXCEPTION 'End time must be after start time';
+  END IF;
+
+  v_start_utc    := p_start_ts AT TIME ZONE 'UTC';
+  v_end_utc      := p_end_ts   AT TIME ZONE 'UTC';
+  v_duration_min := extract(epoch FROM (p_end_ts - p_start_ts))::int / 60;
+
+  -- ================================================================
+  -- 3. Fetch and validate unit
+  -- ================================================================
+  SELECT * INTO v_unit
+    FROM public.car_units
+   WHERE id = p_car_unit_id
+     AND active = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Car unit not found or is not currently active';
+  END IF;
+
+  -- ================================================================
+  -- 4. Resolve the unit's pricing policy; enforce its minimum
+  -- ================================================================
+  SELECT * INTO v_policy
+    FROM public.pricing_policies
+   WHERE id = public.resolve_pricing_policy_id(p_car_unit_id);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No pricing policy configured for this car unit';
+  END IF;
+
+  IF v_duration_min < v_policy.min_duration_minutes THEN
+    RAISE EXCEPTION 'Minimum booking duration for this car is % minutes', v_policy.min_duration_minutes;
+  END IF;
+
+  -- ================================================================
+  -- 5. Blackout check
+  -- ================================================================
+  IF EXISTS (
+    SELECT 1
+      FROM public.car_blackouts b
+     WHERE b.car_unit_id = p_car_unit_id
+       AND b.start_ts    < p_end_ts
+       AND b.end_ts      > p_start_ts
+  ) THEN
+    RAISE EXCEPTION 'Car unit is blacked out during the requested time window';
+  END IF;
+
+  -- ================================================================
+  -- 6. Price the rental (policy + surge)
+  -- ================================================================
+  v_quote   := public.quote_booking_price(p_car_unit_id, p_start_ts, p_end_ts);
+  v_credits := (v_quote->>'total_credits')::int;
+
+  -- ================================================================
+  -- 7. Credit-balance check
+  -- ================================================================
+  SELECT coalesce(sum(delta), 0)
+    INTO v_balance
+    FROM public.credit_ledger
+   WHERE user_id = v_uid;
+
+  IF v_balance < v_credits THEN
+    RAISE EXCEPTION 'Insufficient credit balance (have %, need %)', v_balance, v_credits;
+  END IF;
+
+  -- ================================================================
+  -- 8. Insert booking + debit ledger + audit log (atomic)
+  -- ================================================================
+  BEGIN
+    INSERT INTO public.bookings
+           (car_unit_id, customer_id, start_ts, end_ts, credits_charged,
+            pricing_mode, hourly_rate_used, day_price_used,
+            billable_days, duration_minutes, pricing_policy_id,
+            base_credits, surcharge_credits, surcharges)
+    VALUES (p_car_unit_id, v_uid, p_start_ts, p_end_ts, v_credits,
+            v_quote->>'pricing_mode', (v_quote->>'hourly_rate')::int,
+            (v_quote->>'day_rate')::int, (v_quote->>'billable_days')::int,
+            v_duration_min, v_policy.id,
+            (v_quote->>'base_credits')::int, (v_quote->>'surcharge_credits')::int,
+            v_quote->'surcharges')
+    RETURNING id INTO v_booking_id;
+
+    INSERT INTO public.credit_ledger (user_id, delta, reason)
+    VALUES (v_uid, -v_credits,
+            format('Booking %s: %s → %s', v_booking_id, v_start_utc, v_end_utc));
+
+    INSERT INTO public.audit_log (actor_user_id, action, entity_type, entity_id, metadata)
+    VALUES (v_uid, 'booking.created', 'booking', v_booking_id,
+      jsonb_build_object(
+        'car_unit_id',       p_car_unit_id,
+        'start_ts',          v_start_utc,
+        'end_ts',            v_end_utc,
+        'duration_hours',    v_quote->'duration_hours',
+        'pricing_mode',      v_quote->'pricing_mode',
+        'hourly_rate',       v_quote->'hourly_rate',
+        'day_price',         v_quote->'day_rate',
+        'full_weeks',        v_quote->'full_weeks',
+        'full_days',         v_quote->'full_days',
+        'remainder_hours',   v_quote->'remainder_hours',
+        'remainder_cost',    v_quote->'remainder_cost',
+        'base_credits',      v_quote->'base_credits',
+        'surcharge_credits', v_quote->'surcharge_credits',
+        'surcharges',        v_quote->'surcharges',
+        'credits_charged',   v_credits,
+        'policy_version',    v_policy.version
+    ));
+  EXCEPTION
+    WHEN unique_violation OR exclusion_violation THEN
+      RAISE EXCEPTION 'This car unit is already booked during the requested time window';
+  END;
+
+  -- Compute new balance
+  SELECT coalesce(sum(delta), 0)
+    INTO v_new_balance
+    FROM public.credit_ledger
+   WHERE user_id = v_uid;
+
+  RETURN jsonb_build_object(
+    'booking_id',        v_booking_id,
+    'credits_charged',   v_credits,
+    'balance_after',     v_new_balance,
+    'pricing_mode',      v_quote->'pricing_mode',
+    'duration_hours',    v_quote->'duration_hours',
+    'hourly_rate',       v_quote->'hourly_rate',
+    'day_rate',          v_quote->'day_rate',
+    'full_weeks',        v_quote->'full_weeks',
+    'full_days',         v_quote->'full_days',
+    'remainder_hours',   v_quote->'remainder_hours',
+    'remainder_cost',    v_quote->'remainder_cost',
+    'base_credits',      v_quote->'base_credits',
+    'surcharge_credits', v_quote->'surcharge_credits',
+    'surcharges',        v_quote->'surcharges',
+    'policy_version',    v_policy.version
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_booking(uuid, timestamptz, timestamptz) TO authenticated;
+
+COMMENT ON FUNCTION public.create_booking IS
+  'Creates a booking priced by quote_booking_price() (resolved pricing policy + '
+  'surge surcharges), debits the ledger and records the price breakdown.';
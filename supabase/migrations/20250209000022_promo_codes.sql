@@ -0,0 +1,523 @@
+-- ============================================================================
+-- ForzaCars Rentals — Promo codes
+-- Migration: 20250209000022_promo_codes
+--
+-- 1. promo_codes table — percent-off or fixed-credits-off codes, platform-wide
+--    (admin) or scoped to one business, optionally to one PI class
+-- 2. bookings.promo_code_id / discount_credits
+-- 3. promo_discount_credits() / validate_promo_code() helpers
+-- 4. check_promo_code() — lets the car page preview a code before booking
+-- 5. create_booking(…, p_promo_code) — validates and redeems the code
+--
+-- Discounts apply to the full quote (policy price + surge) and mirror
+-- applyPromoDiscount() in src/lib/pricing.ts:
+--   PERCENT: floor(subtotal × pct / 100)
+--   FIXED:   least(value, subtotal)
+-- A redemption is a non-canceled booking carrying the code, so canceling a
+-- booking frees the use up again.
+-- ============================================================================
+
+
+-- ############################################################################
+-- 1. promo_codes
+-- ############################################################################
+
+CREATE TABLE IF NOT EXISTS public.promo_codes (
+  id                 uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  code               text NOT NULL CHECK (code ~ '^[A-Z0-9_-]{3,32}$'),
+  business_id        uuid REFERENCES public.businesses(id) ON DELETE CASCADE,
+  pi_class           text CHECK (pi_class IN ('D', 'C', 'B', 'A', 'S1', 'S2', 'X')),
+  discount_type      text NOT NULL CHECK (discount_type IN ('PERCENT', 'FIXED')),
+  discount_value     int  NOT NULL CHECK (discount_value > 0),
+  first_booking_only boolean NOT NULL DEFAULT false,
+  max_uses_per_user  int CHECK (max_uses_per_user > 0),
+  max_redemptions    int CHECK (max_redemptions > 0),
+  starts_at          timestamptz NOT NULL DEFAULT now(),
+  expires_at         timestamptz,
+  active             boolean NOT NULL DEFAULT true,
+  created_by         uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at         timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT promo_codes_percent_range CHECK (
+    discount_type <> 'PERCENT' OR discount_value <= 100
+  ),
+  CONSTRAINT promo_codes_valid_window CHECK (
+    expires_at IS NULL OR expires_at > starts_at
+  )
+);
+
+-- Codes are entered by customers, so they must resolve to one row
+CREATE UNIQUE INDEX IF NOT EXISTS idx_promo_codes_code
+  ON public.promo_codes (code);
+
+CREATE INDEX IF NOT EXISTS idx_promo_codes_business
+  ON public.promo_codes (business_id);
+
+COMMENT ON TABLE public.promo_codes IS
+  'Discount codes redeemed through create_booking. business_id NULL = platform-wide (admin).';
+COMMENT ON COLUMN public.promo_codes.discount_value IS
+  'Percent off (PERCENT, 1-100) or credits off (FIXED)';
+COMMENT ON COLUMN public.promo_codes.pi_class IS
+  'Only valid for car models of this class (NULL = any class)';
+COMMENT ON COLUMN public.promo_codes.max_uses_per_user IS
+  'Non-canceled bookings per customer with this code (NULL = unlimited)';
+COMMENT ON COLUMN public.promo_codes.max_redemptions IS
+  'Non-canceled bookings in total with this code (NULL = unlimited)';
+
+
+-- ---------------------------------------------------------------------------
+-- RLS: codes are not publicly listable — customers go through
+-- check_promo_code() / create_booking. Businesses manage their own, admins
+-- everything. No deletes: bookings keep referencing redeemed codes, so codes
+-- are deactivated instead.
+-- ---------------------------------------------------------------------------
+
+ALTER TABLE public.promo_codes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "promo_codes: business users can read own"
+  ON public.promo_codes FOR SELECT
+  TO authenticated
+  USING (business_id = public.get_my_business_id());
+
+CREATE POLICY "promo_codes: business users can insert own"
+  ON public.promo_codes FOR INSERT
+  TO authenticated
+  WITH CHECK (business_id = public.get_my_business_id());
+
+CREATE POLICY "promo_codes: business users can update own"
+  ON public.promo_codes FOR UPDATE
+  TO authenticated
+  USING      (business_id = public.get_my_business_id())
+  WITH CHECK (business_id = public.get_my_business_id());
+
+CREATE POLICY "promo_codes: admins can read"
+  ON public.promo_codes FOR SELECT
+  TO authenticated
+  USING (public.is_admin());
+
+CREATE POLICY "promo_codes: admins can insert"
+  ON public.promo_codes FOR INSERT
+  TO authenticated
+  WITH CHECK (public.is_admin());
+
+CREATE POLICY "promo_codes: admins can update"
+  ON public.promo_codes FOR UPDATE
+  TO authenticated
+  USING      (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+GRANT SELECT, INSERT, UPDATE ON public.promo_codes TO authenticated;
+
+
+-- ############################################################################
+-- 2. Booking redemption columns
+-- ############################################################################
+
+ALTER TABLE public.bookings
+  ADD COLUMN IF NOT EXISTS promo_code_id    uuid REFERENCES public.promo_codes(id),
+  ADD COLUMN IF NOT EXISTS discount_credits int NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_bookings_promo_code
+  ON public.bookings (promo_code_id)
+  WHERE promo_code_id IS NOT NULL;
+
+COMMENT ON COLUMN public.bookings.promo_code_id IS
+  'Promo code redeemed on this booking';
+COMMENT ON COLUMN public.bookings.discount_credits IS
+  'Credits taken off the quote by the promo code (credits_charged is net of this)';
+
+
+-- ############################################################################
+-- 3. Helpers
+-- ############################################################################
+
+-- ---------------------------------------------------------------------------
+-- promo_discount_credits — discount for a subtotal (never more than it)
+-- ---------------------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION public.promo_discount_credits(
+  p_discount_type  text,
+  p_discount_value int,
+  p_subtotal       int
+)
+RETURNS int
+LANGUAGE sql
+IMMUTABLE
+SET search_path = ''
+AS $$
+  SELECT CASE p_discount_type
+           WHEN 'PERCENT' THEN floor(p_subtotal::numeric * p_discount_value / 100)::int
+           ELSE least(p_discount_value, p_subtotal)
+         END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.promo_discount_credits(text, int, int) TO anon, authenticated;
+
+
+-- ---------------------------------------------------------------------------
+-- validate_promo_code — resolve a code for a customer + unit, or raise.
+-- Locks the code row so concurrent bookings cannot overshoot the limits.
+-- Internal: called by check_promo_code() and create_booking().
+-- ---------------------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION public.validate_promo_code(
+  p_code        text,
+  p_car_unit_id uuid,
+  p_customer_id uuid
+)
+RETURNS public.promo_codes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_promo       public.promo_codes%ROWTYPE;
+  v_business_id uuid;
+  v_class       text;
+  v_uses        int;
+BEGIN
+  SELECT * INTO v_promo
+    FROM public.promo_codes
+   WHERE code = upper(btrim(p_code))
+     AND active
+     FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invalid promo code';
+  END IF;
+
+  IF v_promo.starts_at > now() THEN
+    RAISE EXCEPTION 'Promo code % is not active yet', v_promo.code;
+  END IF;
+
+  IF v_promo.expires_at IS NOT NULL AND v_promo.expires_at <= now() THEN
+    RAISE EXCEPTION 'Promo code % has expired', v_promo.code;
+  END IF;
+
+  -- Scope: business and PI class of the unit
+  SELECT cu.business_id, cm.class
+    INTO v_business_id, v_class
+    FROM public.car_units cu
+    JOIN public.car_models cm ON cm.id = cu.car_model_id
+   WHERE cu.id = p_car_unit_id;
+
+  IF v_promo.business_id IS NOT NULL AND v_promo.business_id IS DISTINCT FROM v_business_id THEN
+    RAISE EXCEPTION 'Promo code % is not valid for this car', v_promo.code;
+  END IF;
+
+  IF v_promo.pi_class IS NOT NULL AND v_promo.pi_class IS DISTINCT FROM v_class THEN
+    RAISE EXCEPTION 'Promo code % is only valid for class % cars', v_promo.code, v_promo.pi_class;
+  END IF;
+
+  -- Customer limits
+  IF v_promo.first_booking_only AND EXISTS (
+    SELECT 1 FROM public.bookings
+     WHERE customer_id = p_customer_id
+       AND status <> 'CANCELED'
+  ) THEN
+    RAISE EXCEPTION 'Promo code % is only valid on your first booking', v_promo.code;
+  END IF;
+
+  IF v_promo.max_uses_per_user IS NOT NULL THEN
+    SELECT count(*) INTO v_uses
+      FROM public.bookings
+     WHERE promo_code_id = v_promo.id
+       AND customer_id = p_customer_id
+       AND status <> 'CANCELED';
+
+    IF v_uses >= v_promo.max_uses_per_user THEN
+      RAISE EXCEPTION 'You have already used promo code % the maximum number of times', v_promo.code;
+    END IF;
+  END IF;
+
+  IF v_promo.max_redemptions IS NOT NULL THEN
+    SELECT count(*) INTO v_uses
+      FROM public.bookings
+     WHERE promo_code_id = v_promo.id
+       AND status <> 'CANCELED';
+
+    IF v_uses >= v_promo.max_redemptions THEN
+      RAISE EXCEPTION 'Promo code % is no longer available', v_promo.code;
+    END IF;
+  END IF;
+
+  RETURN v_promo;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.validate_promo_code(text, uuid, uuid) FROM public, anon, authenticated;
+
+COMMENT ON FUNCTION public.validate_promo_code(text, uuid, uuid) IS
+  'Internal: returns the promo code row if the customer may redeem it on the '
+  'car unit (window, scope, first-booking and usage limits), else raises.';
+
+
+-- ############################################################################
+-- 4. check_promo_code(code, unit) — preview for the booking form
+-- ############################################################################
+
+CREATE OR REPLACE FUNCTION public.check_promo_code(
+  p_code        text,
+  p_car_unit_id uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_uid   uuid;
+  v_promo public.promo_codes%ROWTYPE;
+BEGIN
+  v_uid := auth.uid();
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  v_promo := public.validate_promo_code(p_code, p_car_unit_id, v_uid);
+
+  RETURN jsonb_build_object(
+    'promo_code_id',  v_promo.id,
+    'code',           v_promo.code,
+    'discount_type',  v_promo.discount_type,
+    'discount_value', v_promo.discount_value
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.check_promo_code(text, uuid) FROM public;
+GRANT EXECUTE ON FUNCTION public.check_promo_code(text, uuid) TO authenticated;
+
+COMMENT ON FUNCTION public.check_promo_code(text, uuid) IS
+  'Validates a promo code for the caller and car unit and returns its discount, '
+  'so the booking form can show the discounted quote.';
+
+
+-- ############################################################################
+-- 5. create_booking — optional promo code
+--
+--    The parameter list changes, so the 3-argument version is dropped
+--    (callers passing three named arguments keep working via the default).
+-- ############################################################################
+
+DROP FUNCTION IF EXISTS public.create_booking(uuid, timestamptz, timestamptz);
+
+CREATE OR REPLACE FUNCTION public.create_booking(
+  p_car_unit_id uuid,
+  p_start_ts    timestamptz,
+  p_end_ts      timestamptz,
+  p_promo_code  text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_uid          uuid;
+  v_role         text;
+  v_unit         record;
+  v_policy       public.pricing_policies%ROWTYPE;
+  v_promo        public.promo_codes%ROWTYPE;
+  v_start_utc    timestamp;
+  v_end_utc      timestamp;
+  v_duration_min int;
+  v_quote        jsonb;
+  v_subtotal     int;
+  v_discount     int := 0;
+  v_credits      int;
+  v_balance      int;
+  v_booking_id   uuid;
+  v_new_balance  int;
+BEGIN
+  -- ================================================================
+  -- 1. Auth: only CUSTOMERs may book
+  -- ================================================================
+  v_uid := auth.uid();
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT role INTO v_role
+    FROM public.profiles
+   WHERE id = v_uid;
+
+  IF v_role IS NULL OR v_role <> 'CUSTOMER' THEN
+    RAISE EXCEPTION 'Only customers may create bookings';
+  END IF;
+
+  -- ================================================================
+  -- 2. Basic time validation
+  -- ================================================================
+  IF p_end_ts <= p_start_ts THEN
+    RAISE EXCEPTION 'End time must be after start time';
+  END IF;
+
+  v_start_utc    := p_start_ts AT TIME ZONE 'UTC';
+  v_end_utc      := p_end_ts   AT TIME ZONE 'UTC';
+  v_duration_min := extract(epoch FROM (p_end_ts - p_start_ts))::int / 60;
+
+  -- ================================================================
+  -- 3. Fetch and validate unit
+  -- ================================================================
+  SELECT * INTO v_unit
+    FROM public.car_units
+   WHERE id = p_car_unit_id
+     AND active = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Car unit not found or is not currently active';
+  END IF;
+
+  -- ================================================================
+  -- 4. Resolve the unit's pricing policy; enforce its minimum
+  -- ================================================================
+  SELECT * INTO v_policy
+    FROM public.pricing_policies
+   WHERE id = public.resolve_pricing_policy_id(p_car_unit_id);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No pricing policy configured for this car unit';
+  END IF;
+
+  IF v_duration_min < v_policy.min_duration_minutes THEN
+    RAISE EXCEPTION 'Minimum booking duration for this car is % minutes', v_policy.min_duration_minutes;
+  END IF;
+
+  -- ================================================================
+  -- 5. Blackout check
+  -- ================================================================
+  IF EXISTS (
+    SELECT 1
+      FROM public.car_blackouts b
+     WHERE b.car_unit_id = p_car_unit_id
+       AND b.start_ts    < p_end_ts
+       AND b.end_ts      > p_start_ts
+  ) THEN
+    RAISE EXCEPTION 'Car unit is blacked out during the requested time window';
+  END IF;
+
+  -- ================================================================
+  -- 6. Price the rental (policy + surge), then the promo discount
+  -- ================================================================
+  v_quote    := public.quote_booking_price(p_car_unit_id, p_start_ts, p_end_ts);
+  v_subtotal := (v_quote->>'total_credits')::int;
+
+  IF nullif(btrim(p_promo_code), '') IS NOT NULL THEN
+    v_promo    := public.validate_promo_code(p_promo_code, p_car_unit_id, v_uid);
+    v_discount := public.promo_discount_credits(
+                    v_promo.discount_type, v_promo.discount_value, v_subtotal);
+  END IF;
+
+  v_credits := v_subtotal - v_discount;
+
+  -- ================================================================
+  -- 7. Credit-balance check
+  -- ================================================================
+  SELECT coalesce(sum(delta), 0)
+    INTO v_balance
+    FROM public.credit_ledger
+   WHERE user_id = v_uid;
+
+  IF v_balance < v_credits THEN
+    RAISE EXCEPTION 'Insufficient credit balance (have %, need %)', v_balance, v_credits;
+  END IF;
+
+  -- ================================================================
+  -- 8. Insert booking + debit ledger + audit log (atomic)
+  -- ================================================================
+  BEGIN
+    INSERT INTO public.bookings
+           (car_unit_id, customer_id, start_ts, end_ts, credits_charged,
+            pricing_mode, hourly_rate_used, day_price_used,
+            billable_days, duration_minutes, pricing_policy_id,
+            base_credits, surcharge_credits, surcharges,
+            promo_code_id, discount_credits)
+    VALUES (p_car_unit_id, v_uid, p_start_ts, p_end_ts, v_credits,
+            v_quote->>'pricing_mode', (v_quote->>'hourly_rate')::int,
+            (v_quote->>'day_rate')::int, (v_quote->>'billable_days')::int,
+            v_duration_min, v_policy.id,
+            (v_quote->>'base_credits')::int, (v_quote->>'surcharge_credits')::int,
+            v_quote->'surcharges',
+            v_promo.id, v_discount)
+    RETURNING id INTO v_booking_id;
+
+    -- A 100 % promo makes the booking free: nothing to debit
+    IF v_credits > 0 THEN
+      INSERT INTO public.credit_ledger (user_id, delta, reason)
+      VALUES (v_uid, -v_credits,
+              format('Booking %s: %s → %s', v_booking_id, v_start_utc, v_end_utc));
+    END IF;
+
+    INSERT INTO public.audit_log (actor_user_id, action, entity_type, entity_id, metadata)
+    VALUES (v_uid, 'booking.created', 'booking', v_booking_id,
+      jsonb_build_object(
+        'car_unit_id',       p_car_unit_id,
+        'start_ts',          v_start_utc,
+        'end_ts',            v_end_utc,
+        'duration_hours',    v_quote->'duration_hours',
+        'pricing_mode',      v_quote->'pricing_mode',
+        'hourly_rate',       v_quote->'hourly_rate',
+        'day_price',         v_quote->'day_rate',
+        'full_weeks',        v_quote->'full_weeks',
+        'full_days',         v_quote->'full_days',
+        'remainder_hours',   v_quote->'remainder_hours',
+        'remainder_cost',    v_quote->'remainder_cost',
+        'base_credits',      v_quote->'base_credits',
+        'surcharge_credits', v_quote->'surcharge_credits',
+        'surcharges',        v_quote->'surcharges',
+        'promo_code',        v_promo.code,
+        'discount_credits',  v_discount,
+        'credits_charged',   v_credits,
+        'policy_version',    v_policy.version
+    ));
+
+    IF v_promo.id IS NOT NULL THEN
+      INSERT INTO public.audit_log (actor_user_id, action, entity_type, entity_id, metadata)
+      VALUES (v_uid, 'promo_code.redeemed', 'promo_code', v_promo.id,
+        jsonb_build_object(
+          'code',             v_promo.code,
+          'booking_id',       v_booking_id,
+          'subtotal_credits', v_subtotal,
+          'discount_credits', v_discount
+      ));
+    END IF;
+  EXCEPTION
+    WHEN unique_violation OR exclusion_violation THEN
+      RAISE EXCEPTION 'This car unit is already booked during the requested time window';
+  END;
+
+  -- Compute new balance
+  SELECT coalesce(sum(delta), 0)
+    INTO v_new_balance
+    FROM public.credit_ledger
+   WHERE user_id = v_uid;
+
+  RETURN jsonb_build_object(
+    'booking_id',        v_booking_id,
+    'credits_charged',   v_credits,
+    'balance_after',     v_new_balance,
+    'pricing_mode',      v_quote->'pricing_mode',
+    'duration_hours',    v_quote->'duration_hours',
+    'hourly_rate',       v_quote->'hourly_rate',
+    'day_rate',          v_quote->'day_rate',
+    'full_weeks',        v_quote->'full_weeks',
+    'full_days',         v_quote->'full_days',
+    'remainder_hours',   v_quote->'remainder_hours',
+    'remainder_cost',    v_quote->'remainder_cost',
+    'base_credits',      v_quote->'base_credits',
+    'surcharge_credits', v_quote->'surcharge_credits',
+    'surcharges',        v_quote->'surcharges',
+    'promo_code',        v_promo.code,
+    'discount_credits',  v_discount,
+    'policy_version',    v_policy.version
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_booking(uuid, timestamptz, timestamptz, text) FROM public;
+GRANT EXECUTE ON FUNCTION public.create_booking(uuid, timestamptz, timestamptz, text) TO authenticated;
+
+COMMENT ON FUNCTION public.create_booking(uuid, timestamptz, timestamptz, text) IS
+  'Creates a booking priced by quote_booking_price() (resolved pricing policy + '
+  'surge surcharges) less an optional promo code discount, debits the ledger '
+  'and records the price breakdown.';
@@ -0,0 +1,553 @@
+-- ============================================================================
+-- ForzaCars Rentals — Configurable cancellation refund policies
+-- Migration: 20250209000023_cancellation_policies
+--
+-- 1. cancellation_policies table — refund tiers as jsonb, platform presets
+--    (FLEXIBLE / MODERATE / STRICT) plus per-business CUSTOM schedules
+-- 2. businesses.cancellation_policy_id / bookings.cancellation_policy_id
+--    (bookings snapshot the policy in force when they were made)
+-- 3. resolve / unit_cancellation_policies / cancellation_refund_pct helpers
+-- 4. business_set_cancellation_policy RPC
+-- 5. preview_cancellation RPC — "what would I get back if I cancel now?"
+-- 6. cancel_booking applies the booking's policy instead of fixed tiers
+--
+-- Tiers: [{ "hours_before": 6, "refund_pct": 100 }, …] sorted by
+-- hours_before descending. The first tier whose hours_before ≤ hours left
+-- before pick-up applies; below the last tier nothing is refunded. Mirrors
+-- refundPctFor() in src/lib/cancellation.ts.
+--
+-- MODERATE reproduces the previous hardcoded schedule (6h → 100 %,
+-- 1h → 50 %) and is the default for businesses that have not chosen one.
+-- ============================================================================
+
+
+-- ############################################################################
+-- 1. cancellation_policies
+-- ############################################################################
+
+CREATE TABLE IF NOT EXISTS public.cancellation_policies (
+  id          uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id uuid REFERENCES public.businesses(id) ON DELETE CASCADE,
+  preset      text NOT NULL CHECK (preset IN ('FLEXIBLE', 'MODERATE', 'STRICT', 'CUSTOM')),
+  tiers       jsonb NOT NULL CHECK (jsonb_typeof(tiers) = 'array'),
+  is_default  boolean NOT NULL DEFAULT false,
+  created_by  uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at  timestamptz NOT NULL DEFAULT now(),
+  -- Presets are platform rows; businesses only own CUSTOM schedules
+  CONSTRAINT cancellation_policies_preset_owner CHECK (
+    (business_id IS NULL) = (preset <> 'CUSTOM')
+  ),
+  CONSTRAINT cancellation_policies_default_is_platform CHECK (
+    business_id IS NULL OR NOT is_default
+  )
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_cancellation_policies_preset
+  ON public.cancellation_policies (preset)
+  WHERE business_id IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_cancellation_policies_single_default
+  ON public.cancellation_policies (is_default)
+  WHERE is_default;
+
+CREATE INDEX IF NOT EXISTS idx_cancellation_policies_business
+  ON public.cancellation_policies (business_id);
+
+COMMENT ON TABLE public.cancellation_policies IS
+  'Refund schedules applied by cancel_booking. Rows are immutable; bookings '
+  'reference the schedule they were made under.';
+COMMENT ON COLUMN public.cancellation_policies.tiers IS
+  '[{hours_before, refund_pct}] by hours_before descending; less notice than '
+  'the last tier = no refund';
+
+INSERT INTO public.cancellation_policies (preset, tiers, is_default)
+VALUES
+  ('FLEXIBLE', '[{"hours_before": 1,  "refund_pct": 100}, {"hours_before": 0,  "refund_pct": 50}]', false),
+  ('MODERATE', '[{"hours_before": 6,  "refund_pct": 100}, {"hours_before": 1,  "refund_pct": 50}]', true),
+  ('STRICT',   '[{"hours_before": 48, "refund_pct": 100}, {"hours_before": 24, "refund_pct": 50}]', false)
+ON CONFLICT DO NOTHING;
+
+-- Tiers are part of the contract with existing bookings
+CREATE OR REPLACE FUNCTION public.handle_cancellation_policies_immutable()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF NEW.tiers       IS DISTINCT FROM OLD.tiers
+  OR NEW.preset      IS DISTINCT FROM OLD.preset
+  OR NEW.business_id IS DISTINCT FROM OLD.business_id THEN
+    RAISE EXCEPTION 'Cancellation policies are immutable; create a new one instead';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_cancellation_policies_update ON public.cancellation_policies;
+
+CREATE TRIGGER on_cancellation_policies_update
+  BEFORE UPDATE ON public.cancellation_policies
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_cancellation_policies_immutable();
+
+
+-- ---------------------------------------------------------------------------
+-- RLS: publicly readable (shown on the car page before booking); writes go
+-- through business_set_cancellation_policy, admins may manage presets.
+-- ---------------------------------------------------------------------------
+
+ALTER TABLE public.cancellation_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "cancellation_policies: public read"
+  ON public.cancellation_policies FOR SELECT
+  USING (true);
+
+CREATE POLICY "cancellation_policies: admins can insert"
+  ON public.cancellation_policies FOR INSERT
+  TO authenticated
+  WITH CHECK (public.is_admin());
+
+CREATE POLICY "cancellation_policies: admins can update"
+  ON public.cancellation_policies FOR UPDATE
+  TO authenticated
+  USING      (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+GRANT SELECT ON public.cancellation_policies TO anon, authenticated;
+
+
+-- ############################################################################
+-- 2. Pointers
+-- ############################################################################
+
+ALTER TABLE public.businesses
+  ADD COLUMN IF NOT EXISTS cancellation_policy_id uuid
+    REFERENCES public.cancellation_policies(id);
+
+ALTER TABLE public.bookings
+  ADD COLUMN IF NOT EXISTS cancellation_policy_id uuid
+    REFERENCES public.cancellation_policies(id);
+
+COMMENT ON COLUMN public.businesses.cancellation_policy_id IS
+  'Refund schedule for new bookings (NULL = platform default)';
+COMMENT ON COLUMN public.bookings.cancellation_policy_id IS
+  'Refund schedule in force when the booking was made';
+
+-- Existing bookings were made under the old fixed tiers (= MODERATE)
+UPDATE public.bookings
+   SET cancellation_policy_id = (
+         SELECT id FROM public.cancellation_policies WHERE is_default
+       )
+ WHERE cancellation_policy_id IS NULL;
+
+
+-- ############################################################################
+-- 3. Helpers
+-- ############################################################################
+
+CREATE OR REPLACE FUNCTION public.resolve_cancellation_policy_id(p_car_unit_id uuid)
+RETURNS uuid
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = ''
+STABLE
+AS $$
+  SELECT coalesce(
+    (SELECT b.cancellation_policy_id
+       FROM public.car_units cu
+       JOIN public.businesses b ON b.id = cu.business_id
+      WHERE cu.id = p_car_unit_id),
+    (SELECT cp.id
+       FROM public.cancellation_policies cp
+      WHERE cp.is_default)
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.resolve_cancellation_policy_id(uuid) TO anon, authenticated;
+
+COMMENT ON FUNCTION public.resolve_cancellation_policy_id(uuid) IS
+  'Cancellation policy for new bookings of a car_unit: its business''s '
+  'choice, else the platform default.';
+
+
+CREATE OR REPLACE FUNCTION public.unit_cancellation_policies(p_unit_ids uuid[])
+RETURNS TABLE (
+  car_unit_id uuid,
+  id          uuid,
+  preset      text,
+  tiers       jsonb
+)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = ''
+STABLE
+AS $$
+  SELECT u.unit_id, cp.id, cp.preset, cp.tiers
+    FROM unnest(p_unit_ids) AS u(unit_id)
+    JOIN public.cancellation_policies cp
+      ON cp.id = public.resolve_cancellation_policy_id(u.unit_id);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.unit_cancellation_policies(uuid[]) TO anon, authenticated;
+
+COMMENT ON FUNCTION public.unit_cancellation_policies(uuid[]) IS
+  'Resolved cancellation policy for each given car_unit (car detail page).';
+
+
+-- Refund percentage (0-100) for cancelling p_hours_until before pick-up
+CREATE OR REPLACE FUNCTION public.cancellation_refund_pct(
+  p_tiers       jsonb,
+  p_hours_until numeric
+)
+RETURNS int
+LANGUAGE sql
+IMMUTABLE
+SET search_path = ''
+AS $$
+  SELECT coalesce(
+    (SELECT (t->>'refund_pct')::int
+       FROM jsonb_array_elements(p_tiers) AS t
+      WHERE (t->>'hours_before')::numeric <= p_hours_until
+      ORDER BY (t->>'hours_before')::numeric DESC
+      LIMIT 1),
+    0
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.cancellation_refund_pct(jsonb, numeric) TO anon, authenticated;
+
+
+-- Snapshot the unit's policy onto every new booking
+CREATE OR REPLACE FUNCTION public.handle_booking_cancellation_policy()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF NEW.cancellation_policy_id IS NULL THEN
+    NEW.cancellation_policy_id := public.resolve_cancellation_policy_id(NEW.car_unit_id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_booking_set_cancellation_policy ON public.bookings;
+
+CREATE TRIGGER on_booking_set_cancellation_policy
+  BEFORE INSERT ON public.bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_booking_cancellation_policy();
+
+
+-- ############################################################################
+-- 4. business_set_cancellation_policy(preset, tiers)
+--
+--    FLEXIBLE / MODERATE / STRICT point the business at the platform preset;
+--    CUSTOM validates p_tiers and stores a new row owned by the business.
+-- ############################################################################
+
+CREATE OR REPLACE FUNCTION public.business_set_cancellation_policy(
+  p_preset text,
+  p_tiers  jsonb DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_uid         uuid;
+  v_business_id uuid;
+  v_policy_id   uuid;
+  v_tiers       jsonb;
+  v_count       int;
+BEGIN
+  -- ================================================================
+  -- 1. Auth: business users with a business
+  -- ================================================================
+  v_uid := auth.uid();
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT business_id INTO v_business_id
+    FROM public.profiles
+   WHERE id = v_uid AND role = 'BUSINESS';
+
+  IF v_business_id IS NULL THEN
+    RAISE EXCEPTION 'Only business users with an assigned business can set a cancellation policy';
+  END IF;
+
+  -- ================================================================
+  -- 2. Preset or custom schedule
+  -- ================================================================
+  IF p_preset IN ('FLEXIBLE', 'MODERATE', 'STRICT') THEN
+    SELECT id, tiers INTO v_policy_id, v_tiers
+      FROM public.cancellation_policies
+     WHERE preset = p_preset AND business_id IS NULL;
+
+    IF v_policy_id IS NULL THEN
+      RAISE EXCEPTION 'Cancellation preset % is not configured', p_preset;
+    END IF;
+
+  ELSIF p_preset = 'CUSTOM' THEN
+    IF p_tiers IS NULL OR jsonb_typeof(p_tiers) <> 'array' THEN
+      RAISE EXCEPTION 'Custom policies need a list of refund tiers';
+    END IF;
+
+    v_count := jsonb_array_length(p_tiers);
+    IF v_count < 1 OR v_count > 5 THEN
+      RAISE EXCEPTION 'A cancellation policy needs 1 to 5 tiers';
+    END IF;
+
+    -- Normalise to {hours_before, refund_pct}, most notice first
+    SELECT jsonb_agg(
+             jsonb_build_object('hours_before', h, 'refund_pct', pct)
+             ORDER BY h DESC)
+      INTO v_tiers
+      FROM (
+        SELECT (t->>'hours_before')::numeric AS h,
+               (t->>'refund_pct')::int       AS pct
+          FROM jsonb_array_elements(p_tiers) AS t
+      ) x;
+
+    IF EXISTS (
+      SELECT 1 FROM jsonb_array_elements(v_tiers) AS t
+       WHERE (t->>'hours_before') IS NULL
+          OR (t->>'refund_pct') IS NULL
+          OR (t->>'hours_before')::numeric NOT BETWEEN 0 AND 720
+          OR (t->>'refund_pct')::int NOT BETWEEN 0 AND 100
+    ) THEN
+      RAISE EXCEPTION 'Tiers need hours_before between 0 and 720 and refund_pct between 0 and 100';
+    END IF;
+
+    -- Distinct thresholds, and more notice never refunds less
+    IF EXISTS (
+      SELECT 1
+        FROM (
+          SELECT (t->>'hours_before')::numeric AS h,
+                 (t->>'refund_pct')::int AS pct,
+                 lag((t->>'hours_before')::numeric) OVER w AS prev_h,
+                 lag((t->>'refund_pct')::int)       OVER w AS prev_pct
+            FROM jsonb_array_elements(v_tiers) WITH ORDINALITY AS e(t, n)
+          WINDOW w AS (ORDER BY n)
+        ) x
+       WHERE x.prev_h IS NOT NULL
+         AND (x.h = x.prev_h OR x.pct > x.prev_pct)
+    ) THEN
+      RAISE EXCEPTION 'Tiers must have distinct hours and refund less as pick-up gets closer';
+    END IF;
+
+    INSERT INTO public.cancellation_policies (business_id, preset, tiers, created_by)
+    VALUES (v_business_id, 'CUSTOM', v_tiers, v_uid)
+    RETURNING id INTO v_policy_id;
+
+  ELSE
+    RAISE EXCEPTION 'Unknown cancellation preset %', p_preset;
+  END IF;
+
+  -- ================================================================
+  -- 3. Repoint the business (existing bookings keep their policy)
+  -- ================================================================
+  UPDATE public.businesses
+     SET cancellation_policy_id = v_policy_id
+   WHERE id = v_business_id;
+
+  INSERT INTO public.audit_log (actor_user_id, action, entity_type, entity_id, metadata)
+  VALUES (v_uid, 'cancellation_policy.updated', 'cancellation_policy', v_policy_id,
+    jsonb_build_object(
+      'business_id', v_business_id,
+      'preset',      p_preset,
+      'tiers',       v_tiers
+  ));
+
+  RETURN jsonb_build_object(
+    'policy_id', v_policy_id,
+    'preset',    p_preset,
+    'tiers',     v_tiers
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.business_set_cancellation_policy(text, jsonb) FROM public;
+GRANT EXECUTE ON FUNCTION public.business_set_cancellation_policy(text, jsonb) TO authenticated;
+
+COMMENT ON FUNCTION public.business_set_cancellation_policy(text, jsonb) IS
+  'Sets the caller''s business cancellation policy to a platform preset or a '
+  'new custom tier schedule. Applies to new bookings only.';
+
+
+-- ############################################################################
+-- 5. preview_cancellation(booking_id)
+-- ############################################################################
+
+CREATE OR REPLACE FUNCTION public.preview_cancellation(
+  p_booking_id uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+STABLE
+AS $$
+DECLARE
+  v_uid         uuid;
+  v_booking     record;
+  v_policy      public.cancellation_policies%ROWTYPE;
+  v_hours_until numeric;
+  v_refund_pct  int;
+BEGIN
+  v_uid := auth.uid();
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_booking
+    FROM public.bookings
+   WHERE id = p_booking_id;
+
+  IF NOT FOUND
+     OR (v_booking.customer_id <> v_uid AND NOT public.is_admin()) THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  SELECT * INTO v_policy
+    FROM public.cancellation_policies
+   WHERE id = v_booking.cancellation_policy_id;
+
+  v_hours_until := extract(epoch FROM (v_booking.start_ts - now())) / 3600.0;
+  v_refund_pct  := public.cancellation_refund_pct(v_policy.tiers, v_hours_until);
+
+  RETURN jsonb_build_object(
+    'booking_id',        p_booking_id,
+    'status',            v_booking.status,
+    'hours_until_start', round(v_hours_until, 2),
+    'refund_pct',        v_refund_pct / 100.0,
+    'refund',            floor(v_booking.credits_charged * v_refund_pct / 100.0)::int,
+    'preset',            v_policy.preset,
+    'tiers',             v_policy.tiers
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.preview_cancellation(uuid) FROM public;
+GRANT EXECUTE ON FUNCTION public.preview_cancellation(uuid) TO authenticated;
+
+COMMENT ON FUNCTION public.preview_cancellation(uuid) IS
+  'Refund the caller would get by cancelling the booking now, under the '
+  'booking''s cancellation policy. Read-only.';
+
+
+-- ############################################################################
+-- 6. cancel_booking — refund by the booking's policy
+-- ############################################################################
+
+CREATE OR REPLACE FUNCTION public.cancel_booking(
+  p_booking_id uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_uid           uuid;
+  v_role          text;
+  v_booking       record;
+  v_policy        public.cancellation_policies%ROWTYPE;
+  v_hours_until   numeric;
+  v_refund_pct    numeric;
+  v_refund        int;
+BEGIN
+  v_uid := auth.uid();
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT role INTO STRICT v_role
+    FROM public.profiles
+   WHERE id = v_uid;
+
+  SELECT * INTO v_booking
+    FROM public.bookings
+   WHERE id = p_booking_id
+     FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  IF v_booking.customer_id <> v_uid
+     AND v_role IS DISTINCT FROM 'ADMIN' THEN
+    RAISE EXCEPTION 'Not authorised to cancel this booking';
+  END IF;
+
+  IF v_booking.status = 'CANCELED' THEN
+    RETURN jsonb_build_object(
+      'booking_id', p_booking_id,
+      'status',     'CANCELED',
+      'refund',     0,
+      'message',    'Booking was already canceled'
+    );
+  END IF;
+
+  SELECT * INTO v_policy
+    FROM public.cancellation_policies
+   WHERE id = v_booking.cancellation_policy_id;
+
+  v_hours_until := extract(epoch FROM (v_booking.start_ts - now())) / 3600.0;
+  v_refund_pct  := public.cancellation_refund_pct(v_policy.tiers, v_hours_until) / 100.0;
+  v_refund      := floor(v_booking.credits_charged * v_refund_pct)::int;
+
+  UPDATE public.bookings
+     SET status = 'CANCELED'
+   WHERE id = p_booking_id;
+
+  IF v_refund > 0 THEN
+    INSERT INTO public.credit_ledger
+           (user_id, delta, reason, related_booking_id)
+    VALUES (
+      v_booking.customer_id,
+      v_refund,
+      format('Cancellation refund (%s%%)', (v_refund_pct * 100)::int),
+      p_booking_id
+    );
+  END IF;
+
+  INSERT INTO public.audit_log
+         (actor_user_id, action, entity_type, entity_id, metadata)
+  VALUES (
+    v_uid,
+    'booking.canceled',
+    'booking',
+    p_booking_id,
+    jsonb_build_object(
+      'refund_credits',         v_refund,
+      'refund_pct',             v_refund_pct,
+      'hours_until_start',      round(v_hours_until, 2),
+      'car_unit_id',            v_booking.car_unit_id,
+      'cancellation_policy_id', v_policy.id,
+      'cancellation_preset',    v_policy.preset,
+      'canceled_by',            CASE WHEN v_booking.customer_id = v_uid
+                                     THEN 'customer' ELSE 'admin' END
+    )
+  );
+
+  RETURN jsonb_build_object(
+    'booking_id', p_booking_id,
+    'status',     'CANCELED',
+    'refund',     v_refund,
+    'refund_pct', v_refund_pct,
+    'preset',     v_policy.preset,
+    'tiers',      v_policy.tiers
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.cancel_booking(uuid) FROM public;
+GRANT EXECUTE ON FUNCTION public.cancel_booking(uuid) TO authenticated;
+
+COMMENT ON FUNCTION public.cancel_booking(uuid) IS
+  'Cancels a booking (owner or admin) and refunds credits according to the '
+  'cancellation policy the booking was made under.';
@@ -0,0 +1,250 @@
+-- ============================================================================
+-- ForzaCars Rentals — Booking modification (extend / shorten / reschedule)
+-- Migration: 20250209000024_modify_booking
+--
+-- 1. modify_booking(booking_id, start_ts, end_ts) RPC — moves a CONFIRMED
+--    booking to a new window on the same car unit, re-prices it with
+--    quote_booking_price(), and debits or refunds the difference
+--
+-- Availability is re-checked by bookings_no_overlap when the row is
+-- updated (the exclusion constraint ignores the booking's own old range).
+-- A promo code redeemed by the booking keeps applying to the new price;
+-- its usage limits are not re-checked since the redemption already counted.
+-- ============================================================================
+
+
+-- ############################################################################
+-- 1. modify_booking
+--    Called by the booking owner.
+-- ############################################################################
+
+CREATE OR REPLACE FUNCTION public.modify_booking(
+  p_booking_id uuid,
+  p_start_ts   timestamptz,
+  p_end_ts     timestamptz
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_uid          uuid;
+  v_booking      public.bookings%ROWTYPE;
+  v_policy       public.pricing_policies%ROWTYPE;
+  v_promo        public.promo_codes%ROWTYPE;
+  v_duration_min int;
+  v_quote        jsonb;
+  v_subtotal     int;
+  v_discount     int := 0;
+  v_credits      int;
+  v_delta        int;
+  v_balance      int;
+  v_new_balance  int;
+BEGIN
+  -- ================================================================
+  -- 1. Auth + lock the booking
+  -- ================================================================
+  v_uid := auth.uid();
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_booking
+    FROM public.bookings
+   WHERE id = p_booking_id
+     FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  IF v_booking.customer_id <> v_uid THEN
+    RAISE EXCEPTION 'Not authorised to modify this booking';
+  END IF;
+
+  IF v_booking.status <> 'CONFIRMED' THEN
+    RAISE EXCEPTION 'Only confirmed bookings can be modified';
+  END IF;
+
+  -- ================================================================
+  -- 2. Time validation
+  --    Upcoming bookings can move freely into the future; a rental
+  --    already under way keeps its start and can only change its end.
+  -- ================================================================
+  IF p_end_ts <= p_start_ts THEN
+    RAISE EXCEPTION 'End time must be after start time';
+  END IF;
+
+  IF v_booking.end_ts <= now() THEN
+    RAISE EXCEPTION 'This booking has already ended';
+  END IF;
+
+  IF v_booking.start_ts <= now() THEN
+    IF p_start_ts <> v_booking.start_ts THEN
+      RAISE EXCEPTION 'The rental has started; only the end time can be changed';
+    END IF;
+    IF p_end_ts <= now() THEN
+      RAISE EXCEPTION 'New end time must be in the future';
+    END IF;
+  ELSIF p_start_ts <= now() THEN
+    RAISE EXCEPTION 'New start time must be in the future';
+  END IF;
+
+  IF p_start_ts = v_booking.start_ts AND p_end_ts = v_booking.end_ts THEN
+    RAISE EXCEPTION 'The booking already has these times';
+  END IF;
+
+  v_duration_min := extract(epoch FROM (p_end_ts - p_start_ts))::int / 60;
+
+  -- ================================================================
+  -- 3. Unit still bookable; minimum duration under its current policy
+  -- ================================================================
+  IF NOT EXISTS (
+    SELECT 1 FROM public.car_units
+     WHERE id = v_booking.car_unit_id
+       AND active = true
+  ) THEN
+    RAISE EXCEPTION 'Car unit is no longer active';
+  END IF;
+
+  SELECT * INTO v_policy
+    FROM public.pricing_policies
+   WHERE id = public.resolve_pricing_policy_id(v_booking.car_unit_id);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No pricing policy configured for this car unit';
+  END IF;
+
+  IF v_duration_min < v_policy.min_duration_minutes THEN
+    RAISE EXCEPTION 'Minimum booking duration for this car is % minutes', v_policy.min_duration_minutes;
+  END IF;
+
+  -- ================================================================
+  -- 4. Blackout check
+  -- ================================================================
+  IF EXISTS (
+    SELECT 1
+      FROM public.car_blackouts b
+     WHERE b.car_unit_id = v_booking.car_unit_id
+       AND b.start_ts    < p_end_ts
+       AND b.end_ts      > p_start_ts
+  ) THEN
+    RAISE EXCEPTION 'Car unit is blacked out during the requested time window';
+  END IF;
+
+  -- ================================================================
+  -- 5. Re-price the new window (policy + surge, then the booking's promo)
+  -- ================================================================
+  v_quote    := public.quote_booking_price(v_booking.car_unit_id, p_start_ts, p_end_ts);
+  v_subtotal := (v_quote->>'total_credits')::int;
+
+  IF v_booking.promo_code_id IS NOT NULL THEN
+    SELECT * INTO v_promo
+      FROM public.promo_codes
+     WHERE id = v_booking.promo_code_id;
+
+    v_discount := public.promo_discount_credits(
+                    v_promo.discount_type, v_promo.discount_value, v_subtotal);
+  END IF;
+
+  v_credits := v_subtotal - v_discount;
+  v_delta   := v_credits - v_booking.credits_charged;
+
+  -- ================================================================
+  -- 6. Credit-balance check for the extra charge
+  -- ================================================================
+  IF v_delta > 0 THEN
+    SELECT coalesce(sum(delta), 0)
+      INTO v_balance
+      FROM public.credit_ledger
+     WHERE user_id = v_uid;
+
+    IF v_balance < v_delta THEN
+      RAISE EXCEPTION 'Insufficient credit balance (have %, need %)', v_balance, v_delta;
+    END IF;
+  END IF;
+
+  -- ================================================================
+  -- 7. Update booking + ledger difference + audit log (atomic)
+  -- ================================================================
+  BEGIN
+    UPDATE public.bookings
+       SET start_ts          = p_start_ts,
+           end_ts            = p_end_ts,
+           credits_charged   = v_credits,
+           pricing_mode      = v_quote->>'pricing_mode',
+           hourly_rate_used  = (v_quote->>'hourly_rate')::int,
+           day_price_used    = (v_quote->>'day_rate')::int,
+           billable_days     = (v_quote->>'billable_days')::int,
+           duration_minutes  = v_duration_min,
+           pricing_policy_id = v_policy.id,
+           base_credits      = (v_quote->>'base_credits')::int,
+           surcharge_credits = (v_quote->>'surcharge_credits')::int,
+           surcharges        = v_quote->'surcharges',
+           discount_credits  = v_discount
+     WHERE id = p_booking_id;
+  EXCEPTION
+    WHEN exclusion_violation THEN
+      RAISE EXCEPTION 'This car unit is already booked during the requested time window';
+  END;
+
+  IF v_delta <> 0 THEN
+    INSERT INTO public.credit_ledger
+           (user_id, delta, reason, related_booking_id)
+    VALUES (
+      v_uid,
+      -v_delta,
+      format('Booking %s modified: %s → %s',
+             p_booking_id,
+             p_start_ts AT TIME ZONE 'UTC',
+             p_end_ts   AT TIME ZONE 'UTC'),
+      p_booking_id
+    );
+  END IF;
+
+  INSERT INTO public.audit_log (actor_user_id, action, entity_type, entity_id, metadata)
+  VALUES (v_uid, 'booking.modified', 'booking', p_booking_id,
+    jsonb_build_object(
+      'car_unit_id',          v_booking.car_unit_id,
+      'before_start_ts',      v_booking.start_ts AT TIME ZONE 'UTC',
+      'before_end_ts',        v_booking.end_ts   AT TIME ZONE 'UTC',
+      'after_start_ts',       p_start_ts AT TIME ZONE 'UTC',
+      'after_end_ts',         p_end_ts   AT TIME ZONE 'UTC',
+      'before_credits',       v_booking.credits_charged,
+      'after_credits',        v_credits,
+      'credit_delta',         v_delta,
+      'pricing_mode',         v_quote->'pricing_mode',
+      'base_credits',         v_quote->'base_credits',
+      'surcharge_credits',    v_quote->'surcharge_credits',
+      'discount_credits',     v_discount,
+      'policy_version',       v_policy.version
+  ));
+
+  SELECT coalesce(sum(delta), 0)
+    INTO v_new_balance
+    FROM public.credit_ledger
+   WHERE user_id = v_uid;
+
+  RETURN jsonb_build_object(
+    'booking_id',        p_booking_id,
+    'start_ts',          p_start_ts,
+    'end_ts',            p_end_ts,
+    'credits_charged',   v_credits,
+    'credit_delta',      v_delta,
+    'balance_after',     v_new_balance,
+    'pricing_mode',      v_quote->'pricing_mode',
+    'base_credits',      v_quote->'base_credits',
+    'surcharge_credits', v_quote->'surcharge_credits',
+    'discount_credits',  v_discount
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.modify_booking(uuid, timestamptz, timestamptz) FROM public;
+GRANT EXECUTE ON FUNCTION public.modify_booking(uuid, timestamptz, timestamptz) TO authenticated;
+
+COMMENT ON FUNCTION public.modify_booking(uuid, timestamptz, timestamptz) IS
+  'Moves a confirmed booking (owner only) to a new window on the same car '
+  'unit, re-prices it with quote_booking_price() and debits or refunds the '
+  'difference in credit_ledger.';
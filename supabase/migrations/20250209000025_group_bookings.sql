@@ -0,0 +1,312 @@
+-- ============================================================================
+-- ForzaCars Rentals — Group bookings
+-- Migration: 20250209000025_group_bookings
+--
+-- 1. booking_groups table + bookings.group_id
+-- 2. create_group_booking RPC — reserves N units of one car model for the
+--    same window, all-or-nothing, with a single combined ledger debit
+--
+-- Each unit still gets its own bookings row (priced by quote_booking_price()
+-- like create_booking), so the exclusion constraint, /biz/bookings and
+-- per-booking cancellation keep working unchanged. If any unit is taken
+-- between selection and insert the whole transaction rolls back.
+-- Promo codes are not accepted for group bookings.
+-- ============================================================================
+
+
+-- ############################################################################
+-- 1. booking_groups
+-- ############################################################################
+
+CREATE TABLE IF NOT EXISTS public.booking_groups (
+  id              uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  customer_id     uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  car_model_id    uuid NOT NULL REFERENCES public.car_models(id) ON DELETE RESTRICT,
+  color           text,
+  unit_count      int  NOT NULL CHECK (unit_count >= 2),
+  start_ts        timestamptz NOT NULL,
+  end_ts          timestamptz NOT NULL,
+  credits_charged int  NOT NULL CHECK (credits_charged >= 0),
+  created_at      timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT booking_groups_ts_order CHECK (end_ts > start_ts)
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_groups_customer
+  ON public.booking_groups (customer_id);
+
+COMMENT ON TABLE public.booking_groups IS
+  'Several bookings made together by create_group_booking (one per unit).';
+COMMENT ON COLUMN public.booking_groups.color IS
+  'Color all units share (NULL = mixed colors allowed)';
+
+ALTER TABLE public.bookings
+  ADD COLUMN IF NOT EXISTS group_id uuid REFERENCES public.booking_groups(id);
+
+CREATE INDEX IF NOT EXISTS idx_bookings_group
+  ON public.bookings (group_id)
+  WHERE group_id IS NOT NULL;
+
+COMMENT ON COLUMN public.bookings.group_id IS
+  'Group booking this booking was made in (NULL = single booking)';
+
+
+-- ---------------------------------------------------------------------------
+-- RLS: read-only from the client like bookings; writes go through
+-- create_group_booking.
+-- ---------------------------------------------------------------------------
+
+ALTER TABLE public.booking_groups ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "booking_groups: customers can read own"
+  ON public.booking_groups FOR SELECT
+  TO authenticated
+  USING (customer_id = auth.uid());
+
+CREATE POLICY "booking_groups: admins can read"
+  ON public.booking_groups FOR SELECT
+  TO authenticated
+  USING (public.is_admin());
+
+GRANT SELECT ON public.booking_groups TO authenticated;
+
+
+-- ############################################################################
+-- 2. create_group_booking
+--    Called by CUSTOMERs.
+-- ############################################################################
+
+CREATE OR REPLACE FUNCTION public.create_group_booking(
+  p_car_model_id uuid,
+  p_quantity     int,
+  p_start_ts     timestamptz,
+  p_end_ts       timestamptz,
+  p_color        text    DEFAULT NULL,
+  p_same_color   boolean DEFAULT false
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_uid          uuid;
+  v_role         text;
+  v_color        text;
+  v_unit_ids     uuid[];
+  v_unit_id      uuid;
+  v_policy       public.pricing_policies%ROWTYPE;
+  v_duration_min int;
+  v_quote        jsonb;
+  v_quotes       jsonb := '{}'::jsonb;
+  v_total        int := 0;
+  v_balance      int;
+  v_group_id     uuid;
+  v_booking_id   uuid;
+  v_booking_ids  uuid[] := '{}';
+  v_new_balance  int;
+BEGIN
+  -- ================================================================
+  -- 1. Auth: only CUSTOMERs may book
+  -- ================================================================
+  v_uid := auth.uid();
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT role INTO v_role
+    FROM public.profiles
+   WHERE id = v_uid;
+
+  IF v_role IS NULL OR v_role <> 'CUSTOMER' THEN
+    RAISE EXCEPTION 'Only customers may create bookings';
+  END IF;
+
+  -- ================================================================
+  -- 2. Input validation
+  -- ================================================================
+  IF p_quantity IS NULL OR p_quantity < 2 OR p_quantity > 10 THEN
+    RAISE EXCEPTION 'A group booking is 2 to 10 cars';
+  END IF;
+
+  IF p_end_ts <= p_start_ts THEN
+    RAISE EXCEPTION 'End time must be after start time';
+  END IF;
+
+  v_duration_min := extract(epoch FROM (p_end_ts - p_start_ts))::int / 60;
+  v_color        := nullif(btrim(p_color), '');
+
+  -- ================================================================
+  -- 3. Pick units: active, free, not blacked out, minimum met.
+  --    With p_same_color and no explicit color, use the color with
+  --    the most free units.
+  -- ================================================================
+  IF v_color IS NULL AND p_same_color THEN
+    SELECT u.color INTO v_color
+      FROM public.car_units u
+     WHERE u.car_model_id = p_car_model_id
+       AND u.active = true
+       AND u.color IS NOT NULL
+       AND NOT EXISTS (
+             SELECT 1 FROM public.bookings b
+              WHERE b.car_unit_id = u.id
+                AND b.status = 'CONFIRMED'
+                AND b.start_ts < p_end_ts
+                AND b.end_ts   > p_start_ts)
+       AND NOT EXISTS (
+             SELECT 1 FROM public.car_blackouts bo
+              WHERE bo.car_unit_id = u.id
+                AND bo.start_ts < p_end_ts
+                AND bo.end_ts   > p_start_ts)
+     GROUP BY u.color
+    HAVING count(*) >= p_quantity
+     ORDER BY count(*) DESC, u.color
+     LIMIT 1;
+
+    IF v_color IS NULL THEN
+      RAISE EXCEPTION 'No single color has % units available for this window', p_quantity;
+    END IF;
+  END IF;
+
+  SELECT array_agg(x.id ORDER BY x.created_at, x.id)
+    INTO v_unit_ids
+    FROM (
+      SELECT u.id, u.created_at
+        FROM public.car_units u
+        JOIN public.pricing_policies pp
+          ON pp.id = public.resolve_pricing_policy_id(u.id)
+       WHERE u.car_model_id = p_car_model_id
+         AND u.active = true
+         AND (v_color IS NULL OR lower(u.color) = lower(v_color))
+         AND pp.min_duration_minutes <= v_duration_min
+         AND NOT EXISTS (
+               SELECT 1 FROM public.bookings b
+                WHERE b.car_unit_id = u.id
+                  AND b.status = 'CONFIRMED'
+                  AND b.start_ts < p_end_ts
+                  AND b.end_ts   > p_start_ts)
+         AND NOT EXISTS (
+               SELECT 1 FROM public.car_blackouts bo
+                WHERE bo.car_unit_id = u.id
+                  AND bo.start_ts < p_end_ts
+                  AND bo.end_ts   > p_start_ts)
+       ORDER BY u.created_at, u.id
+       LIMIT p_quantity
+    ) x;
+
+  IF coalesce(array_length(v_unit_ids, 1), 0) < p_quantity THEN
+    RAISE EXCEPTION 'Only % matching units are available for this window (need %)',
+      coalesce(array_length(v_unit_ids, 1), 0), p_quantity;
+  END IF;
+
+  -- ================================================================
+  -- 4. Price every unit, then check the combined total
+  -- ================================================================
+  FOREACH v_unit_id IN ARRAY v_unit_ids LOOP
+    v_quote  := public.quote_booking_price(v_unit_id, p_start_ts, p_end_ts);
+    v_quotes := v_quotes || jsonb_build_object(v_unit_id::text, v_quote);
+    v_total  := v_total + (v_quote->>'total_credits')::int;
+  END LOOP;
+
+  SELECT coalesce(sum(delta), 0)
+    INTO v_balance
+    FROM public.credit_ledger
+   WHERE user_id = v_uid;
+
+  IF v_balance < v_total THEN
+    RAISE EXCEPTION 'Insufficient credit balance (have %, need %)', v_balance, v_total;
+  END IF;
+
+  -- ================================================================
+  -- 5. Insert group + bookings + one ledger debit + audit (atomic)
+  -- ================================================================
+  INSERT INTO public.booking_groups
+         (customer_id, car_model_id, color, unit_count, start_ts, end_ts, credits_charged)
+  VALUES (v_uid, p_car_model_id, v_color, p_quantity, p_start_ts, p_end_ts, v_total)
+  RETURNING id INTO v_group_id;
+
+  BEGIN
+    FOREACH v_unit_id IN ARRAY v_unit_ids LOOP
+      v_quote := v_quotes->(v_unit_id::text);
+
+      SELECT * INTO v_policy
+        FROM public.pricing_policies
+       WHERE id = public.resolve_pricing_policy_id(v_unit_id);
+
+      INSERT INTO public.bookings
+             (car_unit_id, customer_id, start_ts, end_ts, credits_charged,
+              pricing_mode, hourly_rate_used, day_price_used,
+              billable_days, duration_minutes, pricing_policy_id,
+              base_credits, surcharge_credits, surcharges, group_id)
+      VALUES (v_unit_id, v_uid, p_start_ts, p_end_ts, (v_quote->>'total_credits')::int,
+              v_quote->>'pricing_mode', (v_quote->>'hourly_rate')::int,
+              (v_quote->>'day_rate')::int, (v_quote->>'billable_days')::int,
+              v_duration_min, v_policy.id,
+              (v_quote->>'base_credits')::int, (v_quote->>'surcharge_credits')::int,
+              v_quote->'surcharges', v_group_id)
+      RETURNING id INTO v_booking_id;
+
+      v_booking_ids := v_booking_ids || v_booking_id;
+
+      INSERT INTO public.audit_log (actor_user_id, action, entity_type, entity_id, metadata)
+      VALUES (v_uid, 'booking.created', 'booking', v_booking_id,
+        jsonb_build_object(
+          'car_unit_id',       v_unit_id,
+          'group_id',          v_group_id,
+          'start_ts',          p_start_ts AT TIME ZONE 'UTC',
+          'end_ts',            p_end_ts   AT TIME ZONE 'UTC',
+          'pricing_mode',      v_quote->'pricing_mode',
+          'base_credits',      v_quote->'base_credits',
+          'surcharge_credits', v_quote->'surcharge_credits',
+          'credits_charged',   v_quote->'total_credits',
+          'policy_version',    v_policy.version
+      ));
+    END LOOP;
+  EXCEPTION
+    WHEN unique_violation OR exclusion_violation THEN
+      RAISE EXCEPTION 'One of the selected units was just booked by someone else — please try again';
+  END;
+
+  IF v_total > 0 THEN
+    INSERT INTO public.credit_ledger (user_id, delta, reason)
+    VALUES (v_uid, -v_total,
+            format('Group booking %s: %s cars, %s → %s',
+                   v_group_id, p_quantity,
+                   p_start_ts AT TIME ZONE 'UTC', p_end_ts AT TIME ZONE 'UTC'));
+  END IF;
+
+  INSERT INTO public.audit_log (actor_user_id, action, entity_type, entity_id, metadata)
+  VALUES (v_uid, 'booking_group.created', 'booking_group', v_group_id,
+    jsonb_build_object(
+      'car_model_id',    p_car_model_id,
+      'color',           v_color,
+      'unit_count',      p_quantity,
+      'booking_ids',     to_jsonb(v_booking_ids),
+      'car_unit_ids',    to_jsonb(v_unit_ids),
+      'start_ts',        p_start_ts AT TIME ZONE 'UTC',
+      'end_ts',          p_end_ts   AT TIME ZONE 'UTC',
+      'credits_charged', v_total
+  ));
+
+  SELECT coalesce(sum(delta), 0)
+    INTO v_new_balance
+    FROM public.credit_ledger
+   WHERE user_id = v_uid;
+
+  RETURN jsonb_build_object(
+    'group_id',        v_group_id,
+    'booking_ids',     to_jsonb(v_booking_ids),
+    'car_unit_ids',    to_jsonb(v_unit_ids),
+    'color',           v_color,
+    'credits_charged', v_total,
+    'balance_after',   v_new_balance
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_group_booking(uuid, int, timestamptz, timestamptz, text, boolean) FROM public;
+GRANT EXECUTE ON FUNCTION public.create_group_booking(uuid, int, timestamptz, timestamptz, text, boolean) TO authenticated;
+
+COMMENT ON FUNCTION public.create_group_booking(uuid, int, timestamptz, timestamptz, text, boolean) IS
+  'Books N units of a car model for the same window in one transaction '
+  '(optionally one color), with a single combined ledger debit. Fails as a '
+  'whole if any unit cannot be booked.';
@@ -0,0 +1,995 @@
+-- ============================================================================
+-- ForzaCars Rentals — Booking holds
+-- Migration: 20250209000026_booking_holds
+--
+-- 1. booking_holds table — a customer's short-lived claim on a unit + window
+-- 2. unit_is_held() / held_unit_ids() helpers
+-- 3. place_booking_hold / release_booking_hold RPCs
+-- 4. create_booking(…, p_hold_id) — converts the caller's hold into the
+--    booking and refuses windows held by someone else
+-- 5. create_group_booking / modify_booking also respect other customers'
+--    holds
+--
+-- ScheduleCalendar places a hold when it offers a unit, so another
+-- customer cannot take that unit while the first is still deciding. Holds
+-- expire on their own after 10 minutes: every check filters on
+-- expires_at > now(), and expired rows are purged whenever a hold is placed.
+-- Placing a hold and booking both lock the car_units row, so two customers
+-- racing for the same unit are serialized and the loser gets a clear
+-- message instead of an exclusion violation.
+-- ============================================================================
+
+
+-- ############################################################################
+-- 1. booking_holds
+-- ############################################################################
+
+CREATE TABLE IF NOT EXISTS public.booking_holds (
+  id          uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  car_unit_id uuid NOT NULL REFERENCES public.car_units(id) ON DELETE CASCADE,
+  customer_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  start_ts    timestamptz NOT NULL,
+  end_ts      timestamptz NOT NULL,
+  expires_at  timestamptz NOT NULL DEFAULT now() + interval '10 minutes',
+  created_at  timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT booking_holds_ts_order CHECK (end_ts > start_ts)
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_holds_unit
+  ON public.booking_holds (car_unit_id, expires_at);
+
+CREATE INDEX IF NOT EXISTS idx_booking_holds_customer
+  ON public.booking_holds (customer_id);
+
+COMMENT ON TABLE public.booking_holds IS
+  'Short-lived claims on a car unit window while a customer completes a '
+  'booking. Ignored once expires_at has passed.';
+
+
+-- ---------------------------------------------------------------------------
+-- RLS: customers see their own holds; all writes go through the RPCs.
+-- Availability for other customers' holds is exposed via held_unit_ids().
+-- ---------------------------------------------------------------------------
+
+ALTER TABLE public.booking_holds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "booking_holds: customers can read own"
+  ON public.booking_holds FOR SELECT
+  TO authenticated
+  USING (customer_id = auth.uid());
+
+CREATE POLICY "booking_holds: admins can read"
+  ON public.booking_holds FOR SELECT
+  TO authenticated
+  USING (public.is_admin());
+
+GRANT SELECT ON public.booking_holds TO authenticated;
+
+
+-- ############################################################################
+-- 2. Helpers
+-- ############################################################################
+
+-- Whether someone other than p_customer_id holds any part of the window.
+-- Internal: used by the booking RPCs.
+CREATE OR REPLACE FUNCTION public.unit_is_held(
+  p_car_unit_id uuid,
+  p_start_ts    timestamptz,
+  p_end_ts      timestamptz,
+  p_customer_id uuid
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+      FROM public.booking_holds h
+     WHERE h.car_unit_id = p_car_unit_id
+       AND h.customer_id IS DISTINCT FROM p_customer_id
+       AND h.expires_at  > now()
+       AND h.start_ts    < p_end_ts
+       AND h.end_ts      > p_start_ts
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.unit_is_held(uuid, timestamptz, timestamptz, uuid) FROM public, anon, authenticated;
+
+
+-- Units (of the given ones) held by other customers during the window —
+-- what /api/availability treats as unavailable. The caller's own holds
+-- never block them.
+CREATE OR REPLACE FUNCTION public.held_unit_ids(
+  p_unit_ids uuid[],
+  p_start_ts timestamptz,
+  p_end_ts   timestamptz
+)
+RETURNS SETOF uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT DISTINCT h.car_unit_id
+    FROM public.booking_holds h
+   WHERE h.car_unit_id = ANY (p_unit_ids)
+     AND h.customer_id IS DISTINCT FROM auth.uid()
+     AND h.expires_at  > now()
+     AND h.start_ts    < p_end_ts
+     AND h.end_ts      > p_start_ts;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.held_unit_ids(uuid[], timestamptz, timestamptz) FROM public;
+GRANT EXECUTE ON FUNCTION public.held_unit_ids(uuid[], timestamptz, timestamptz) TO anon, authenticated;
+
+COMMENT ON FUNCTION public.held_unit_ids(uuid[], timestamptz, timestamptz) IS
+  'Units among p_unit_ids with an unexpired hold by another customer '
+  'overlapping the window.';
+
+
+-- ############################################################################
+-- 3. place_booking_hold / release_booking_hold
+--    Called by CUSTOMERs.
+-- ############################################################################
+
+CREATE OR REPLACE FUNCTION public.place_booking_hold(
+  p_car_unit_id uuid,
+  p_start_ts    timestamptz,
+  p_end_ts      timestamptz
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_uid     uuid;
+  v_role    text;
+  v_hold_id uuid;
+  v_expires timestamptz;
+BEGIN
+  v_uid := auth.uid();
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT role INTO v_role
+    FROM public.profiles
+   WHERE id = v_uid;
+
+  IF v_role IS NULL OR v_role <> 'CUSTOMER' THEN
+    RAISE EXCEPTION 'Only customers may hold units';
+  END IF;
+
+  IF p_end_ts <= p_start_ts THEN
+    RAISE EXCEPTION 'End time must be after start time';
+  END IF;
+
+  -- Serialize with other holds and bookings on this unit
+  PERFORM 1
+     FROM public.car_units
+    WHERE id = p_car_unit_id
+      AND active = true
+      FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Car unit not found or is not currently active';
+  END IF;
+
+  DELETE FROM public.booking_holds
+   WHERE car_unit_id = p_car_unit_id
+     AND expires_at <= now();
+
+  IF EXISTS (
+    SELECT 1
+      FROM public.bookings b
+     WHERE b.car_unit_id = p_car_unit_id
+       AND b.status      = 'CONFIRMED'
+       AND b.start_ts    < p_end_ts
+       AND b.end_ts      > p_start_ts
+  ) THEN
+    RAISE EXCEPTION 'This car unit was just booked for the selected time';
+  END IF;
+
+  IF public.unit_is_held(p_car_unit_id, p_start_ts, p_end_ts, v_uid) THEN
+    RAISE EXCEPTION 'Another customer is completing a booking for this car unit';
+  END IF;
+
+  -- One hold per customer: a new selection replaces the previous one
+  DELETE FROM public.booking_holds
+   WHERE customer_id = v_uid;
+
+  INSERT INTO public.booking_holds (car_unit_id, customer_id, start_ts, end_ts)
+  VALUES (p_car_unit_id, v_uid, p_start_ts, p_end_ts)
+  RETURNING id, expires_at INTO v_hold_id, v_expires;
+
+  RETURN jsonb_build_object(
+    'hold_id',    v_hold_id,
+    'expires_at', v_expires
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.place_booking_hold(uuid, timestamptz, timestamptz) FROM public;
+GRANT EXECUTE ON FUNCTION public.place_booking_hold(uuid, timestamptz, timestamptz) TO authenticated;
+
+COMMENT ON FUNCTION public.place_booking_hold(uuid, timestamptz, timestamptz) IS
+  'Holds a car unit window for the caller for 10 minutes, replacing any '
+  'previous hold of theirs. Fails if the window is booked or held by '
+  'someone else.';
+
+
+CREATE OR REPLACE FUNCTION public.release_booking_hold(
+  p_hold_id uuid
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  DELETE FROM public.booking_holds
+   WHERE id = p_hold_id
+     AND customer_id = auth.uid();
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.release_booking_hold(uuid) FROM public;
+GRANT EXECUTE ON FUNCTION public.release_booking_hold(uuid) TO authenticated;
+
+COMMENT ON FUNCTION public.release_booking_hold(uuid) IS
+  'Releases one of the caller''s holds (no-op if it is gone already).';
+
+
+-- ############################################################################
+-- 4. create_booking(…, p_hold_id)
+--    Same as 20250209000022 plus: the unit row is locked, windows held by
+--    other customers are refused, and the caller's hold is consumed.
+-- ############################################################################
+
+DROP FUNCTION IF EXISTS public.create_booking(uuid, timestamptz, timestamptz, text);
+
+CREATE OR REPLACE FUNCTION public.create_booking(
+  p_car_unit_id uuid,
+  p_start_ts    timestamptz,
+  p_end_ts      timestamptz,
+  p_promo_code  text DEFAULT NULL,
+  p_hold_id     uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_uid          uuid;
+  v_role         text;
+  v_unit         record;
+  v_policy       public.pricing_policies%ROWTYPE;
+  v_promo        public.promo_codes%ROWTYPE;
+  v_start_utc    timestamp;
+  v_end_utc      timestamp;
+  v_duration_min int;
+  v_quote        jsonb;
+  v_subtotal     int;
+  v_discount     int := 0;
+  v_credits      int;
+  v_balance      int;
+  v_booking_id   uuid;
+  v_new_balance  int;
+BEGIN
+  -- ================================================================
+  -- 1. Auth: only CUSTOMERs may book
+  -- ================================================================
+  v_uid := auth.uid();
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT role INTO v_role
+    FROM public.profiles
+   WHERE id = v_uid;
+
+  IF v_role IS NULL OR v_role <> 'CUSTOMER' THEN
+    RAISE EXCEPTION 'Only customers may create bookings';
+  END IF;
+
+  -- ================================================================
+  -- 2. Basic time validation
+  -- ================================================================
+  IF p_end_ts <= p_start_ts THEN
+    RAISE EXCEPTION 'End time must be after start time';
+  END IF;
+
+  v_start_utc    := p_start_ts AT TIME ZONE 'UTC';
+  v_end_utc      := p_end_ts   AT TIME ZONE 'UTC';
+  v_duration_min := extract(epoch FROM (p_end_ts - p_start_ts))::int / 60;
+
+  -- ================================================================
+  -- 3. Fetch and validate unit (locked: serializes with holds)
+  -- ================================================================
+  SELECT * INTO v_unit
+    FROM public.car_units
+   WHERE id = p_car_unit_id
+     AND active = true
+     FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Car unit not found or is not currently active';
+  END IF;
+
+  -- ================================================================
+  -- 4. Resolve the unit's pricing policy; enforce its minimum
+  -- ================================================================
+  SELECT * INTO v_policy
+    FROM public.pricing_policies
+   WHERE id = public.resolve_pricing_policy_id(p_car_unit_id);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No pricing policy configured for this car unit';
+  END IF;
+
+  IF v_duration_min < v_policy.min_duration_minutes THEN
+    RAISE EXCEPTION 'Minimum booking duration for this car is % minutes', v_policy.min_duration_minutes;
+  END IF;
+
+  -- ================================================================
+  -- 5. Blackout check
+  -- ================================================================
+  IF EXISTS (
+    SELECT 1
+      FROM public.car_blackouts b
+     WHERE b.car_unit_id = p_car_unit_id
+       AND b.start_ts    < p_end_ts
+       AND b.end_ts      > p_start_ts
+  ) THEN
+    RAISE EXCEPTION 'Car unit is blacked out during the requested time window';
+  END IF;
+
+  -- Someone else is mid-booking on this window (the caller's own hold,
+  -- p_hold_id or not, never blocks them)
+  IF public.unit_is_held(p_car_unit_id, p_start_ts, p_end_ts, v_uid) THEN
+    RAISE EXCEPTION 'Another customer is completing a booking for this car unit — please pick another time or unit';
+  END IF;
+
+  -- ================================================================
+  -- 6. Price the rental (policy + surge), then the promo discount
+  -- ================================================================
+  v_quote    := public.quote_booking_price(p_car_unit_id, p_start_ts, p_end_ts);
+  v_subtotal := (v_quote->>'total_credits')::int;
+
+  IF nullif(btrim(p_promo_code), '') IS NOT NULL THEN
+    v_promo    := public.validate_promo_code(p_promo_code, p_car_unit_id, v_uid);
+    v_discount := public.promo_discount_credits(
+                    v_promo.discount_type, v_promo.discount_value, v_subtotal);
+  END IF;
+
+  v_credits := v_subtotal - v_discount;
+
+  -- ================================================================
+  -- 7. Credit-balance check
+  -- ================================================================
+  SELECT coalesce(sum(delta), 0)
+    INTO v_balance
+    FROM public.credit_ledger
+   WHERE user_id = v_uid;
+
+  IF v_balance < v_credits THEN
+    RAISE EXCEPTION 'Insufficient credit balance (have %, need %)', v_balance, v_credits;
+  END IF;
+
+  -- ================================================================
+  -- 8. Insert booking + debit ledger + audit log (atomic)
+  -- ================================================================
+  BEGIN
+    INSERT INTO public.bookings
+           (car_unit_id, customer_id, start_ts, end_ts, credits_charged,
+            pricing_mode, hourly_rate_used, day_price_used,
+            billable_days, duration_minutes, pricing_policy_id,
+            base_credits, surcharge_credits, surcharges,
+            promo_code_id, discount_credits)
+    VALUES (p_car_unit_id, v_uid, p_start_ts, p_end_ts, v_credits,
+            v_quote->>'pricing_mode', (v_quote->>'hourly_rate')::int,
+            (v_quote->>'day_rate')::int, (v_quote->>'billable_days')::int,
+            v_duration_min, v_policy.id,
+            (v_quote->>'base_credits')::int, (v_quote->>'surcharge_credits')::int,
+            v_quote->'surcharges',
+            v_promo.id, v_discount)
+    RETURNING id INTO v_booking_id;
+
+    -- A 100 % promo makes the booking free: nothing to debit
+    IF v_credits > 0 THEN
+      INSERT INTO public.credit_ledger (user_id, delta, reason)
+      VALUES (v_uid, -v_credits,
+              format('Booking %s: %s → %s', v_booking_id, v_start_utc, v_end_utc));
+    END IF;
+
+    INSERT INTO public.audit_log (actor_user_id, action, entity_type, entity_id, metadata)
+    VALUES (v_uid, 'booking.created', 'booking', v_booking_id,
+      jsonb_build_object(
+        'car_unit_id',       p_car_unit_id,
+        'start_ts',          v_start_utc,
+        'end_ts',            v_end_utc,
+        'duration_hours',    v_quote->'duration_hours',
+        'pricing_mode',      v_quote->'pricing_mode',
+        'hourly_rate',       v_quote->'hourly_rate',
+        'day_price',         v_quote->'day_rate',
+        'full_weeks',        v_quote->'full_weeks',
+        'full_days',         v_quote->'full_days',
+        'remainder_hours',   v_quote->'remainder_hours',
+        'remainder_cost',    v_quote->'remainder_cost',
+        'base_credits',      v_quote->'base_credits',
+        'surcharge_credits', v_quote->'surcharge_credits',
+        'surcharges',        v_quote->'surcharges',
+        'promo_code',        v_promo.code,
+        'discount_credits',  v_discount,
+        'credits_charged',   v_credits,
+        'hold_id',           p_hold_id,
+        'policy_version',    v_policy.version
+    ));
+
+    IF v_promo.id IS NOT NULL THEN
+      INSERT INTO public.audit_log (actor_user_id, action, entity_type, entity_id, metadata)
+      VALUES (v_uid, 'promo_code.redeemed', 'promo_code', v_promo.id,
+        jsonb_build_object(
+          'code',             v_promo.code,
+          'booking_id',       v_booking_id,
+          'subtotal_credits', v_subtotal,
+          'discount_credits', v_discount
+      ));
+    END IF;
+  EXCEPTION
+    WHEN unique_violation OR exclusion_violation THEN
+      RAISE EXCEPTION 'This car unit is already booked during the requested time window';
+  END;
+
+  -- The hold has become the booking
+  DELETE FROM public.booking_holds
+   WHERE customer_id = v_uid
+     AND (id = p_hold_id OR car_unit_id = p_car_unit_id);
+
+  -- Compute new balance
+  SELECT coalesce(sum(delta), 0)
+    INTO v_new_balance
+    FROM public.credit_ledger
+   WHERE user_id = v_uid;
+
+  RETURN jsonb_build_object(
+    'booking_id',        v_booking_id,
+    'credits_charged',   v_credits,
+    'balance_after',     v_new_balance,
+    'pricing_mode',      v_quote->'pricing_mode',
+    'duration_hours',    v_quote->'duration_hours',
+    'hourly_rate',       v_quote->'hourly_rate',
+    'day_rate',          v_quote->'day_rate',
+    'full_weeks',        v_quote->'full_weeks',
+    'full_days',         v_quote->'full_days',
+    'remainder_hours',   v_quote->'remainder_hours',
+    'remainder_cost',    v_quote->'remainder_cost',
+    'base_credits',      v_quote->'base_credits',
+    'surcharge_credits', v_quote->'surcharge_credits',
+    'surcharges',        v_quote->'surcharges',
+    'promo_code',        v_promo.code,
+    'discount_credits',  v_discount,
+    'policy_version',    v_policy.version
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_booking(uuid, timestamptz, timestamptz, text, uuid) FROM public;
+GRANT EXECUTE ON FUNCTION public.create_booking(uuid, timestamptz, timestamptz, text, uuid) TO authenticated;
+
+COMMENT ON FUNCTION public.create_booking(uuid, timestamptz, timestamptz, text, uuid) IS
+  'Creates a booking priced by quote_booking_price() (resolved pricing policy + '
+  'surge surcharges) less an optional promo code discount, debits the ledger '
+  'and records the price breakdown. Converts the caller''s hold on the '
+  'window (if any) and refuses windows held by other customers.';
+
+
+-- ############################################################################
+-- 5a. create_group_booking — skips units held by other customers
+-- ############################################################################
+
+CREATE OR REPLACE FUNCTION public.create_group_booking(
+  p_car_model_id uuid,
+  p_quantity     int,
+  p_start_ts     timestamptz,
+  p_end_ts       timestamptz,
+  p_color        text    DEFAULT NULL,
+  p_same_color   boolean DEFAULT false
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_uid          uuid;
+  v_role         text;
+  v_color        text;
+  v_unit_ids     uuid[];
+  v_unit_id      uuid;
+  v_policy       public.pricing_policies%ROWTYPE;
+  v_duration_min int;
+  v_quote        jsonb;
+  v_quotes       jsonb := '{}'::jsonb;
+  v_total        int := 0;
+  v_balance      int;
+  v_group_id     uuid;
+  v_booking_id   uuid;
+  v_booking_ids  uuid[] := '{}';
+  v_new_balance  int;
+BEGIN
+  -- ================================================================
+  -- 1. Auth: only CUSTOMERs may book
+  -- ================================================================
+  v_uid := auth.uid();
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT role INTO v_role
+    FROM public.profiles
+   WHERE id = v_uid;
+
+  IF v_role IS NULL OR v_role <> 'CUSTOMER' THEN
+    RAISE EXCEPTION 'Only customers may create bookings';
+  END IF;
+
+  -- ================================================================
+  -- 2. Input validation
+  -- ================================================================
+  IF p_quantity IS NULL OR p_quantity < 2 OR p_quantity > 10 THEN
+    RAISE EXCEPTION 'A group booking is 2 to 10 cars';
+  END IF;
+
+  IF p_end_ts <= p_start_ts THEN
+    RAISE EXCEPTION 'End time must be after start time';
+  END IF;
+
+  v_duration_min := extract(epoch FROM (p_end_ts - p_start_ts))::int / 60;
+  v_color        := nullif(btrim(p_color), '');
+
+  -- ================================================================
+  -- 3. Pick units: active, free, not blacked out, minimum met.
+  --    With p_same_color and no explicit color, use the color with
+  --    the most free units.
+  -- ================================================================
+  IF v_color IS NULL AND p_same_color THEN
+    SELECT u.color INTO v_color
+      FROM public.car_units u
+     WHERE u.car_model_id = p_car_model_id
+       AND u.active = true
+       AND u.color IS NOT NULL
+       AND NOT EXISTS (
+             SELECT 1 FROM public.bookings b
+              WHERE b.car_unit_id = u.id
+                AND b.status = 'CONFIRMED'
+                AND b.start_ts < p_end_ts
+                AND b.end_ts   > p_start_ts)
+       AND NOT EXISTS (
+             SELECT 1 FROM public.car_blackouts bo
+              WHERE bo.car_unit_id = u.id
+                AND bo.start_ts < p_end_ts
+                AND bo.end_ts   > p_start_ts)
+       AND NOT public.unit_is_held(u.id, p_start_ts, p_end_ts, v_uid)
+     GROUP BY u.color
+    HAVING count(*) >= p_quantity
+     ORDER BY count(*) DESC, u.color
+     LIMIT 1;
+
+    IF v_color IS NULL THEN
+      RAISE EXCEPTION 'No single color has % units available for this window', p_quantity;
+    END IF;
+  END IF;
+
+  SELECT array_agg(x.id ORDER BY x.created_at, x.id)
+    INTO v_unit_ids
+    FROM (
+      SELECT u.id, u.created_at
+        FROM public.car_units u
+        JOIN public.pricing_policies pp
+          ON pp.id = public.resolve_pricing_policy_id(u.id)
+       WHERE u.car_model_id = p_car_model_id
+         AND u.active = true
+         AND (v_color IS NULL OR lower(u.color) = lower(v_color))
+         AND pp.min_duration_minutes <= v_duration_min
+         AND NOT EXISTS (
+               SELECT 1 FROM public.bookings b
+                WHERE b.car_unit_id = u.id
+                  AND b.status = 'CONFIRMED'
+                  AND b.start_ts < p_end_ts
+                  AND b.end_ts   > p_start_ts)
+         AND NOT EXISTS (
+               SELECT 1 FROM public.car_blackouts bo
+                WHERE bo.car_unit_id = u.id
+                  AND bo.start_ts < p_end_ts
+                  AND bo.end_ts   > p_start_ts)
+         AND NOT public.unit_is_held(u.id, p_start_ts, p_end_ts, v_uid)
+       ORDER BY u.created_at, u.id
+       LIMIT p_quantity
+    ) x;
+
+  IF coalesce(array_length(v_unit_ids, 1), 0) < p_quantity THEN
+    RAISE EXCEPTION 'Only % matching units are available for this window (need %)',
+      coalesce(array_length(v_unit_ids, 1), 0), p_quantity;
+  END IF;
+
+  -- Lock the picked units, then make sure no hold slipped in meanwhile
+  PERFORM 1
+     FROM public.car_units
+    WHERE id = ANY (v_unit_ids)
+    ORDER BY id
+      FOR UPDATE;
+
+  FOREACH v_unit_id IN ARRAY v_unit_ids LOOP
+    IF public.unit_is_held(v_unit_id, p_start_ts, p_end_ts, v_uid) THEN
+      RAISE EXCEPTION 'One of the selected units was just taken by someone else — please try again';
+    END IF;
+  END LOOP;
+
+  -- ================================================================
+  -- 4. Price every unit, then check the combined total
+  -- ================================================================
+  FOREACH v_unit_id IN ARRAY v_unit_ids LOOP
+    v_quote  := public.quote_booking_price(v_unit_id, p_start_ts, p_end_ts);
+    v_quotes := v_quotes || jsonb_build_object(v_unit_id::text, v_quote);
+    v_total  := v_total + (v_quote->>'total_credits')::int;
+  END LOOP;
+
+  SELECT coalesce(sum(delta), 0)
+    INTO v_balance
+    FROM public.credit_ledger
+   WHERE user_id = v_uid;
+
+  IF v_balance < v_total THEN
+    RAISE EXCEPTION 'Insufficient credit balance (have %, need %)', v_balance, v_total;
+  END IF;
+
+  -- ================================================================
+  -- 5. Insert group + bookings + one ledger debit + audit (atomic)
+  -- ================================================================
+  INSERT INTO public.booking_groups
+         (customer_id, car_model_id, color, unit_count, start_ts, end_ts, credits_charged)
+  VALUES (v_uid, p_car_model_id, v_color, p_quantity, p_start_ts, p_end_ts, v_total)
+  RETURNING id INTO v_group_id;
+
+  BEGIN
+    FOREACH v_unit_id IN ARRAY v_unit_ids LOOP
+      v_quote := v_quotes->(v_unit_id::text);
+
+      SELECT * INTO v_policy
+        FROM public.pricing_policies
+       WHERE id = public.resolve_pricing_policy_id(v_unit_id);
+
+      INSERT INTO public.bookings
+             (car_unit_id, customer_id, start_ts, end_ts, credits_charged,
+              pricing_mode, hourly_rate_used, day_price_used,
+              billable_days, duration_minutes, pricing_policy_id,
+              base_credits, surcharge_credits, surcharges, group_id)
+      VALUES (v_unit_id, v_uid, p_start_ts, p_end_ts, (v_quote->>'total_credits')::int,
+              v_quote->>'pricing_mode', (v_quote->>'hourly_rate')::int,
+              (v_quote->>'day_rate')::int, (v_quote->>'billable_days')::int,
+              v_duration_min, v_policy.id,
+              (v_quote->>'base_credits')::int, (v_quote->>'surcharge_credits')::int,
+              v_quote->'surcharges', v_group_id)
+      RETURNING id INTO v_booking_id;
+
+      v_booking_ids := v_booking_ids || v_booking_id;
+
+      INSERT INTO public.audit_log (actor_user_id, action, entity_type, entity_id, metadata)
+      VALUES (v_uid, 'booking.created', 'booking', v_booking_id,
+        jsonb_build_object(
+          'car_unit_id',       v_unit_id,
+          'group_id',          v_group_id,
+          'start_ts',          p_start_ts AT TIME ZONE 'UTC',
+          'end_ts',            p_end_ts   AT TIME ZONE 'UTC',
+          'pricing_mode',      v_quote->'pricing_mode',
+          'base_credits',      v_quote->'base_credits',
+          'surcharge_credits', v_quote->'surcharge_credits',
+          'credits_charged',   v_quote->'total_credits',
+          'policy_version',    v_policy.version
+      ));
+    END LOOP;
+  EXCEPTION
+    WHEN unique_violation OR exclusion_violation THEN
+      RAISE EXCEPTION 'One of the selected units was just booked by someone else — please try again';
+  END;
+
+  -- The caller's own holds on these units are now bookings
+  DELETE FROM public.booking_holds
+   WHERE customer_id = v_uid
+     AND car_unit_id = ANY (v_unit_ids);
+
+  IF v_total > 0 THEN
+    INSERT INTO public.credit_ledger (user_id, delta, reason)
+    VALUES (v_uid, -v_total,
+            format('Group booking %s: %s cars, %s → %s',
+                   v_group_id, p_quantity,
+                   p_start_ts AT TIME ZONE 'UTC', p_end_ts AT TIME ZONE 'UTC'));
+  END IF;
+
+  INSERT INTO public.audit_log (actor_user_id, action, entity_type, entity_id, metadata)
+  VALUES (v_uid, 'booking_group.created', 'booking_group', v_group_id,
+    jsonb_build_object(
+      'car_model_id',    p_car_model_id,
+      'color',           v_color,
+      'unit_count',      p_quantity,
+      'booking_ids',     to_jsonb(v_booking_ids),
+      'car_unit_ids',    to_jsonb(v_unit_ids),
+      'start_ts',        p_start_ts AT TIME ZONE 'UTC',
+      'end_ts',          p_end_ts   AT TIME ZONE 'UTC',
+      'credits_charged', v_total
+  ));
+
+  SELECT coalesce(sum(delta), 0)
+    INTO v_new_balance
+    FROM public.credit_ledger
+   WHERE user_id = v_uid;
+
+  RETURN jsonb_build_object(
+    'group_id',        v_group_id,
+    'booking_ids',     to_jsonb(v_booking_ids),
+    'car_unit_ids',    to_jsonb(v_unit_ids),
+    'color',           v_color,
+    'credits_charged', v_total,
+    'balance_after',   v_new_balance
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_group_booking(uuid, int, timestamptz, timestamptz, text, boolean) FROM public;
+GRANT EXECUTE ON FUNCTION public.create_group_booking(uuid, int, timestamptz, timestamptz, text, boolean) TO authenticated;
+
+COMMENT ON FUNCTION public.create_group_booking(uuid, int, timestamptz, timestamptz, text, boolean) IS
+  'Books N units of a car model for the same window in one transaction '
+  '(optionally one color), with a single combined ledger debit. Fails as a '
+  'whole if any unit cannot be booked.';
+
+
+-- ############################################################################
+-- 5b. modify_booking — locks the unit and respects other customers' holds
+-- ############################################################################
+
+CREATE OR REPLACE FUNCTION public.modify_booking(
+  p_booking_id uuid,
+  p_start_ts   timestamptz,
+  p_end_ts     timestamptz
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_uid          uuid;
+  v_booking      public.bookings%ROWTYPE;
+  v_policy       public.pricing_policies%ROWTYPE;
+  v_promo        public.promo_codes%ROWTYPE;
+  v_duration_min int;
+  v_quote        jsonb;
+  v_subtotal     int;
+  v_discount     int := 0;
+  v_credits      int;
+  v_delta        int;
+  v_balance      int;
+  v_new_balance  int;
+BEGIN
+  -- ================================================================
+  -- 1. Auth + lock the booking
+  -- ================================================================
+  v_uid := auth.uid();
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_booking
+    FROM public.bookings
+   WHERE id = p_booking_id
+     FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  IF v_booking.customer_id <> v_uid THEN
+    RAISE EXCEPTION 'Not authorised to modify this booking';
+  END IF;
+
+  IF v_booking.status <> 'CONFIRMED' THEN
+    RAISE EXCEPTION 'Only confirmed bookings can be modified';
+  END IF;
+
+  -- ================================================================
+  -- 2. Time validation
+  --    Upcoming bookings can move freely into the future; a rental
+  --    already under way keeps its start and can only change its end.
+  -- ================================================================
+  IF p_end_ts <= p_start_ts THEN
+    RAISE EXCEPTION 'End time must be after start time';
+  END IF;
+
+  IF v_booking.end_ts <= now() THEN
+    RAISE EXCEPTION 'This booking has already ended';
+  END IF;
+
+  IF v_booking.start_ts <= now() THEN
+    IF p_start_ts <> v_booking.start_ts THEN
+      RAISE EXCEPTION 'The rental has started; only the end time can be changed';
+    END IF;
+    IF p_end_ts <= now() THEN
+      RAISE EXCEPTION 'New end time must be in the future';
+    END IF;
+  ELSIF p_start_ts <= now() THEN
+    RAISE EXCEPTION 'New start time must be in the future';
+  END IF;
+
+  IF p_start_ts = v_booking.start_ts AND p_end_ts = v_booking.end_ts THEN
+    RAISE EXCEPTION 'The booking already has these times';
+  END IF;
+
+  v_duration_min := extract(epoch FROM (p_end_ts - p_start_ts))::int / 60;
+
+  -- ================================================================
+  -- 3. Unit still bookable; minimum duration under its current policy
+  -- ================================================================
+  PERFORM 1
+     FROM public.car_units
+    WHERE id = v_booking.car_unit_id
+      AND active = true
+      FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Car unit is no longer active';
+  END IF;
+
+  SELECT * INTO v_policy
+    FROM public.pricing_policies
+   WHERE id = public.resolve_pricing_policy_id(v_booking.car_unit_id);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No pricing policy configured for this car unit';
+  END IF;
+
+  IF v_duration_min < v_policy.min_duration_minutes THEN
+    RAISE EXCEPTION 'Minimum booking duration for this car is % minutes', v_policy.min_duration_minutes;
+  END IF;
+
+  -- ================================================================
+  -- 4. Blackout and hold checks
+  -- ================================================================
+  IF EXISTS (
+    SELECT 1
+      FROM public.car_blackouts b
+     WHERE b.car_unit_id = v_booking.car_unit_id
+       AND b.start_ts    < p_end_ts
+       AND b.end_ts      > p_start_ts
+  ) THEN
+    RAISE EXCEPTION 'Car unit is blacked out during the requested time window';
+  END IF;
+
+  IF public.unit_is_held(v_booking.car_unit_id, p_start_ts, p_end_ts, v_uid) THEN
+    RAISE EXCEPTION 'Another customer is completing a booking for this car unit at that time';
+  END IF;
+
+  -- ================================================================
+  -- 5. Re-price the new window (policy + surge, then the booking's promo)
+  -- ================================================================
+  v_quote    := public.quote_booking_price(v_booking.car_unit_id, p_start_ts, p_end_ts);
+  v_subtotal := (v_quote->>'total_credits')::int;
+
+  IF v_booking.promo_code_id IS NOT NULL THEN
+    SELECT * INTO v_promo
+      FROM public.promo_codes
+     WHERE id = v_booking.promo_code_id;
+
+    v_discount := public.promo_discount_credits(
+                    v_promo.discount_type, v_promo.discount_value, v_subtotal);
+  END IF;
+
+  v_credits := v_subtotal - v_discount;
+  v_delta   := v_credits - v_booking.credits_charged;
+
+  -- ================================================================
+  -- 6. Credit-balance check for the extra charge
+  -- ================================================================
+  IF v_delta > 0 THEN
+    SELECT coalesce(sum(delta), 0)
+      INTO v_balance
+      FROM public.credit_ledger
+     WHERE user_id = v_uid;
+
+    IF v_balance < v_delta THEN
+      RAISE EXCEPTION 'Insufficient credit balance (have %, need %)', v_balance, v_delta;
+    END IF;
+  END IF;
+
+  -- ================================================================
+  -- 7. Update booking + ledger difference + audit log (atomic)
+  -- ================================================================
+  BEGIN
+    UPDATE public.bookings
+       SET start_ts          = p_start_ts,
+           end_ts            = p_end_ts,
+           credits_charged   = v_credits,
+           pricing_mode      = v_quote->>'pricing_mode',
+           hourly_rate_used  = (v_quote->>'hourly_rate')::int,
+           day_price_used    = (v_quote->>'day_rate')::int,
+           billable_days     = (v_quote->>'billable_days')::int,
+           duration_minutes  = v_duration_min,
+           pricing_policy_id = v_policy.id,
+           base_credits      = (v_quote->>'base_credits')::int,
+           surcharge_credits = (v_quote->>'surcharge_credits')::int,
+           surcharges        = v_quote->'surcharges',
+           discount_credits  = v_discount
+     WHERE id = p_booking_id;
+  EXCEPTION
+    WHEN exclusion_violation THEN
+      RAISE EXCEPTION 'This car unit is already booked during the requested time window';
+  END;
+
+  IF v_delta <> 0 THEN
+    INSERT INTO public.credit_ledger
+           (user_id, delta, reason, related_booking_id)
+    VALUES (
+      v_uid,
+      -v_delta,
+      format('Booking %s modified: %s → %s',
+             p_booking_id,
+             p_start_ts AT TIME ZONE 'UTC',
+             p_end_ts   AT TIME ZONE 'UTC'),
+      p_booking_id
+    );
+  END IF;
+
+  INSERT INTO public.audit_log (actor_user_id, action, entity_type, entity_id, metadata)
+  VALUES (v_uid, 'booking.modified', 'booking', p_booking_id,
+    jsonb_build_object(
+      'car_unit_id',          v_booking.car_unit_id,
+      'before_start_ts',      v_booking.start_ts AT TIME ZONE 'UTC',
+      'before_end_ts',        v_booking.end_ts   AT TIME ZONE 'UTC',
+      'after_start_ts',       p_start_ts AT TIME ZONE 'UTC',
+      'after_end_ts',         p_end_ts   AT TIME ZONE 'UTC',
+      'before_credits',       v_booking.credits_charged,
+      'after_credits',        v_credits,
+      'credit_delta',         v_delta,
+      'pricing_mode',         v_quote->'pricing_mode',
+      'base_credits',         v_quote->'base_credits',
+      'surcharge_credits',    v_quote->'surcharge_credits',
+      'discount_credits',     v_discount,
+      'policy_version',       v_policy.version
+  ));
+
+  SELECT coalesce(sum(delta), 0)
+    INTO v_new_balance
+    FROM public.credit_ledger
+   WHERE user_id = v_uid;
+
+  RETURN jsonb_build_object(
+    'booking_id',        p_booking_id,
+    'start_ts',          p_start_ts,
+    'end_ts',            p_end_ts,
+    'credits_charged',   v_credits,
+    'credit_delta',      v_delta,
+    'balance_after',     v_new_balance,
+    'pricing_mode',      v_quote->'pricing_mode',
+    'base_credits',      v_quote->'base_credits',
+    'surcharge_credits', v_quote->'surcharge_credits',
+    'discount_credits',  v_discount
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.modify_booking(uuid, timestamptz, timestamptz) FROM public;
+GRANT EXECUTE ON FUNCTION public.modify_booking(uuid, timestamptz, timestamptz) TO authenticated;
+
+COMMENT ON FUNCTION public.modify_booking(uuid, timestamptz, timestamptz) IS
+  'Moves a confirmed booking (owner only) to a new window on the same car '
+  'unit, re-prices it with quote_booking_price() and debits or refunds the '
+  'difference in credit_ledger.';
@@ -0,0 +1,351 @@
+-- ============================================================================
+-- ForzaCars Rentals — Waitlist for fully-booked car models
+-- Migration: 20250209000027_waitlist
+--
+-- 1. waitlist_entries table — customer + car model + window (+ color)
+-- 2. join_waitlist / leave_waitlist RPCs
+-- 3. notify_waitlist() — walks the queue for a freed unit window
+-- 4. Triggers: a booking becoming CANCELED or a blackout being deleted
+--    frees its window and notifies the waitlist
+--
+-- Notification is in queue order (created_at): an entry is notified when
+-- the freed unit is now completely free for the entry's window (no
+-- confirmed booking, blackout or other customer's hold) and the window
+-- does not overlap one already offered in the same pass — so one freed
+-- unit is never promised to two customers for the same time. Each
+-- notified customer gets an in-app message; the email is sent by the app
+-- (src/lib/waitlist.ts) for entries whose email_sent_at is still NULL.
+-- ============================================================================
+
+
+-- ############################################################################
+-- 1. waitlist_entries
+-- ############################################################################
+
+CREATE TABLE IF NOT EXISTS public.waitlist_entries (
+  id                   uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  customer_id          uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  car_model_id         uuid NOT NULL REFERENCES public.car_models(id) ON DELETE CASCADE,
+  color                text,
+  start_ts             timestamptz NOT NULL,
+  end_ts               timestamptz NOT NULL,
+  status               text NOT NULL DEFAULT 'WAITING'
+                       CHECK (status IN ('WAITING', 'NOTIFIED', 'REMOVED')),
+  notified_at          timestamptz,
+  notified_car_unit_id uuid REFERENCES public.car_units(id) ON DELETE SET NULL,
+  email_sent_at        timestamptz,
+  created_at           timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT waitlist_entries_ts_order CHECK (end_ts > start_ts)
+);
+
+-- One active entry per customer, model and window
+CREATE UNIQUE INDEX IF NOT EXISTS idx_waitlist_entries_unique_waiting
+  ON public.waitlist_entries (customer_id, car_model_id, start_ts, end_ts)
+  WHERE status = 'WAITING';
+
+CREATE INDEX IF NOT EXISTS idx_waitlist_entries_queue
+  ON public.waitlist_entries (car_model_id, created_at)
+  WHERE status = 'WAITING';
+
+COMMENT ON TABLE public.waitlist_entries IS
+  'Customers waiting for a unit of a car model to free up in a time window. '
+  'Notified in created_at order by notify_waitlist().';
+COMMENT ON COLUMN public.waitlist_entries.color IS
+  'Only units of this color match (NULL = any color)';
+COMMENT ON COLUMN public.waitlist_entries.email_sent_at IS
+  'Set by the app once the notification email is claimed for sending';
+
+
+-- ---------------------------------------------------------------------------
+-- RLS: customers read their own entries; writes go through the RPCs
+-- (and notify_waitlist, as definer).
+-- ---------------------------------------------------------------------------
+
+ALTER TABLE public.waitlist_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "waitlist_entries: customers can read own"
+  ON public.waitlist_entries FOR SELECT
+  TO authenticated
+  USING (customer_id = auth.uid());
+
+CREATE POLICY "waitlist_entries: admins can read"
+  ON public.waitlist_entries FOR SELECT
+  TO authenticated
+  USING (public.is_admin());
+
+GRANT SELECT ON public.waitlist_entries TO authenticated;
+
+
+-- ############################################################################
+-- 2. join_waitlist / leave_waitlist
+--    Called by CUSTOMERs.
+-- ############################################################################
+
+CREATE OR REPLACE FUNCTION public.join_waitlist(
+  p_car_model_id uuid,
+  p_start_ts     timestamptz,
+  p_end_ts       timestamptz,
+  p_color        text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_uid      uuid;
+  v_role     text;
+  v_entry    public.waitlist_entries%ROWTYPE;
+  v_position int;
+BEGIN
+  v_uid := auth.uid();
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT role INTO v_role
+    FROM public.profiles
+   WHERE id = v_uid;
+
+  IF v_role IS NULL OR v_role <> 'CUSTOMER' THEN
+    RAISE EXCEPTION 'Only customers may join a waitlist';
+  END IF;
+
+  IF p_end_ts <= p_start_ts THEN
+    RAISE EXCEPTION 'End time must be after start time';
+  END IF;
+
+  IF p_start_ts <= now() THEN
+    RAISE EXCEPTION 'Cannot join a waitlist for a time in the past';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.car_models WHERE id = p_car_model_id) THEN
+    RAISE EXCEPTION 'Car model not found';
+  END IF;
+
+  INSERT INTO public.waitlist_entries
+         (customer_id, car_model_id, color, start_ts, end_ts)
+  VALUES (v_uid, p_car_model_id, nullif(btrim(p_color), ''), p_start_ts, p_end_ts)
+  ON CONFLICT (customer_id, car_model_id, start_ts, end_ts) WHERE status = 'WAITING'
+  DO UPDATE SET color = EXCLUDED.color
+  RETURNING * INTO v_entry;
+
+  -- Place in the queue among entries competing for an overlapping window
+  SELECT count(*) + 1 INTO v_position
+    FROM public.waitlist_entries w
+   WHERE w.car_model_id = p_car_model_id
+     AND w.status       = 'WAITING'
+     AND w.start_ts     < p_end_ts
+     AND w.end_ts       > p_start_ts
+     AND w.created_at   < v_entry.created_at;
+
+  RETURN jsonb_build_object(
+    'entry_id', v_entry.id,
+    'position', v_position
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.join_waitlist(uuid, timestamptz, timestamptz, text) FROM public;
+GRANT EXECUTE ON FUNCTION public.join_waitlist(uuid, timestamptz, timestamptz, text) TO authenticated;
+
+COMMENT ON FUNCTION public.join_waitlist(uuid, timestamptz, timestamptz, text) IS
+  'Adds the caller to the waitlist for a car model and window (optionally '
+  'one color) and returns their queue position.';
+
+
+CREATE OR REPLACE FUNCTION public.leave_waitlist(
+  p_entry_id uuid
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  UPDATE public.waitlist_entries
+     SET status = 'REMOVED'
+   WHERE id = p_entry_id
+     AND customer_id = auth.uid()
+     AND status = 'WAITING';
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.leave_waitlist(uuid) FROM public;
+GRANT EXECUTE ON FUNCTION public.leave_waitlist(uuid) TO authenticated;
+
+COMMENT ON FUNCTION public.leave_waitlist(uuid) IS
+  'Removes one of the caller''s waiting entries from the queue.';
+
+
+-- ############################################################################
+-- 3. notify_waitlist(unit, start, end)
+--    Internal — called by the triggers below.
+-- ############################################################################
+
+CREATE OR REPLACE FUNCTION public.notify_waitlist(
+  p_car_unit_id uuid,
+  p_start_ts    timestamptz,
+  p_end_ts      timestamptz
+)
+RETURNS int
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_unit      record;
+  v_entry     public.waitlist_entries%ROWTYPE;
+  v_offered   tstzrange[] := '{}';
+  v_sender    uuid;
+  v_thread_id uuid;
+  v_notified  int := 0;
+BEGIN
+  SELECT u.id, u.business_id, u.car_model_id, u.color, u.active,
+         coalesce(u.display_name, m.display_name) AS name
+    INTO v_unit
+    FROM public.car_units u
+    JOIN public.car_models m ON m.id = u.car_model_id
+   WHERE u.id = p_car_unit_id;
+
+  IF NOT FOUND OR NOT v_unit.active OR p_end_ts <= now() THEN
+    RETURN 0;
+  END IF;
+
+  -- Messages come from the unit's business (first business user)
+  SELECT p.id INTO v_sender
+    FROM public.profiles p
+   WHERE p.business_id = v_unit.business_id
+     AND p.role = 'BUSINESS'
+   ORDER BY p.created_at
+   LIMIT 1;
+
+  FOR v_entry IN
+    SELECT *
+      FROM public.waitlist_entries w
+     WHERE w.car_model_id = v_unit.car_model_id
+       AND w.status       = 'WAITING'
+       AND w.start_ts     > now()
+       AND w.start_ts     < p_end_ts
+       AND w.end_ts       > p_start_ts
+       AND (w.color IS NULL OR lower(w.color) = lower(v_unit.color))
+     ORDER BY w.created_at
+       FOR UPDATE SKIP LOCKED
+  LOOP
+    -- Already offered this unit for an overlapping time in this pass
+    CONTINUE WHEN EXISTS (
+      SELECT 1 FROM unnest(v_offered) r
+       WHERE r && tstzrange(v_entry.start_ts, v_entry.end_ts, '[)')
+    );
+
+    -- The unit must be completely free for the entry's own window
+    CONTINUE WHEN EXISTS (
+      SELECT 1 FROM public.bookings b
+       WHERE b.car_unit_id = p_car_unit_id
+         AND b.status      = 'CONFIRMED'
+         AND b.start_ts    < v_entry.end_ts
+         AND b.end_ts      > v_entry.start_ts
+    );
+    CONTINUE WHEN EXISTS (
+      SELECT 1 FROM public.car_blackouts bo
+       WHERE bo.car_unit_id = p_car_unit_id
+         AND bo.start_ts    < v_entry.end_ts
+         AND bo.end_ts      > v_entry.start_ts
+    );
+    CONTINUE WHEN public.unit_is_held(
+      p_car_unit_id, v_entry.start_ts, v_entry.end_ts, v_entry.customer_id);
+
+    UPDATE public.waitlist_entries
+       SET status               = 'NOTIFIED',
+           notified_at          = now(),
+           notified_car_unit_id = p_car_unit_id
+     WHERE id = v_entry.id;
+
+    v_offered := v_offered || tstzrange(v_entry.start_ts, v_entry.end_ts, '[)');
+
+    -- In-app notification
+    INSERT INTO public.message_threads (subject, created_by, business_id, customer_id)
+    VALUES (format('Waitlist: %s is available', v_unit.name),
+            coalesce(v_sender, v_entry.customer_id),
+            v_unit.business_id,
+            v_entry.customer_id)
+    RETURNING id INTO v_thread_id;
+
+    INSERT INTO public.messages (thread_id, sender_id, recipient_id, business_id, body)
+    VALUES (v_thread_id,
+            coalesce(v_sender, v_entry.customer_id),
+            v_entry.customer_id,
+            v_unit.business_id,
+            format('Good news — a %s you were waiting for is now free from %s to %s (Central Time). '
+                   'It is not reserved for you: book it from the car page before someone else does.',
+                   v_unit.name,
+                   to_char(v_entry.start_ts AT TIME ZONE 'America/Chicago', 'Mon DD, HH12:MI AM'),
+                   to_char(v_entry.end_ts   AT TIME ZONE 'America/Chicago', 'Mon DD, HH12:MI AM')));
+
+    INSERT INTO public.audit_log (actor_user_id, action, entity_type, entity_id, metadata)
+    VALUES (auth.uid(), 'waitlist.notified', 'waitlist_entry', v_entry.id,
+      jsonb_build_object(
+        'customer_id',  v_entry.customer_id,
+        'car_model_id', v_entry.car_model_id,
+        'car_unit_id',  p_car_unit_id,
+        'start_ts',     v_entry.start_ts AT TIME ZONE 'UTC',
+        'end_ts',       v_entry.end_ts   AT TIME ZONE 'UTC'
+    ));
+
+    v_notified := v_notified + 1;
+  END LOOP;
+
+  RETURN v_notified;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.notify_waitlist(uuid, timestamptz, timestamptz) FROM public, anon, authenticated;
+
+COMMENT ON FUNCTION public.notify_waitlist(uuid, timestamptz, timestamptz) IS
+  'Notifies waiting customers, in queue order, that a unit window has freed '
+  'up. Returns the number of entries notified.';
+
+
+-- ############################################################################
+-- 4. Triggers: cancellations and removed blackouts free a window
+-- ############################################################################
+
+CREATE OR REPLACE FUNCTION public.handle_booking_canceled_waitlist()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  PERFORM public.notify_waitlist(NEW.car_unit_id, NEW.start_ts, NEW.end_ts);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_booking_canceled_notify_waitlist
+  AFTER UPDATE OF status ON public.bookings
+  FOR EACH ROW
+  WHEN (OLD.status = 'CONFIRMED' AND NEW.status = 'CANCELED')
+  EXECUTE FUNCTION public.handle_booking_canceled_waitlist();
+
+
+CREATE OR REPLACE FUNCTION public.handle_blackout_deleted_waitlist()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  PERFORM public.notify_waitlist(OLD.car_unit_id, OLD.start_ts, OLD.end_ts);
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER on_blackout_deleted_notify_waitlist
+  AFTER DELETE ON public.car_blackouts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_blackout_deleted_waitlist();
@@ -0,0 +1,515 @@
+-- ============================================================================
+-- ForzaCars Rentals — Recurring bookings (booking series)
+-- Migration: 20250209000028_booking_series
+--
+-- 1. booking_series table + bookings.series_id
+-- 2. booking_series_plan() — expands a series into occurrences and flags
+--    the ones that conflict (booked, blacked out, held, in the past)
+-- 3. preview_booking_series RPC — the plan, for the booking form
+-- 4. create_booking_series RPC — books every non-conflicting occurrence
+--    in one transaction with a single combined ledger debit
+-- 5. cancel_booking_series RPC — cancels an occurrence and all later ones
+--
+-- Occurrences repeat daily or weekly in America/Chicago wall-clock time, so
+-- a "Friday 6 PM" series stays at 6 PM across DST changes. A series is
+-- limited to 52 occurrences, given either as a count or an end date.
+-- Each occurrence is an ordinary booking on the same car unit, priced by
+-- quote_booking_price() and cancelled under its cancellation policy.
+-- ============================================================================
+
+
+-- ############################################################################
+-- 1. booking_series
+-- ############################################################################
+
+CREATE TABLE IF NOT EXISTS public.booking_series (
+  id                    uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  customer_id           uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  car_unit_id           uuid NOT NULL REFERENCES public.car_units(id) ON DELETE CASCADE,
+  frequency             text NOT NULL CHECK (frequency IN ('DAILY', 'WEEKLY')),
+  first_start_ts        timestamptz NOT NULL,
+  first_end_ts          timestamptz NOT NULL,
+  occurrences_requested int CHECK (occurrences_requested BETWEEN 2 AND 52),
+  until_date            date,
+  credits_charged       int NOT NULL CHECK (credits_charged >= 0),
+  created_at            timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT booking_series_ts_order CHECK (first_end_ts > first_start_ts),
+  CONSTRAINT booking_series_one_limit CHECK (
+    (occurrences_requested IS NULL) <> (until_date IS NULL)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_series_customer
+  ON public.booking_series (customer_id);
+
+COMMENT ON TABLE public.booking_series IS
+  'Recurring bookings made together by create_booking_series (one booking '
+  'per occurrence).';
+
+ALTER TABLE public.bookings
+  ADD COLUMN IF NOT EXISTS series_id uuid REFERENCES public.booking_series(id);
+
+CREATE INDEX IF NOT EXISTS idx_bookings_series
+  ON public.bookings (series_id, start_ts)
+  WHERE series_id IS NOT NULL;
+
+COMMENT ON COLUMN public.bookings.series_id IS
+  'Recurring series this booking is an occurrence of (NULL = one-off)';
+
+
+-- ---------------------------------------------------------------------------
+-- RLS: read-only from the client; writes go through the RPCs.
+-- ---------------------------------------------------------------------------
+
+ALTER TABLE public.booking_series ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "booking_series: customers can read own"
+  ON public.booking_series FOR SELECT
+  TO authenticated
+  USING (customer_id = auth.uid());
+
+CREATE POLICY "booking_series: admins can read"
+  ON public.booking_series FOR SELECT
+  TO authenticated
+  USING (public.is_admin());
+
+GRANT SELECT ON public.booking_series TO authenticated;
+
+
+-- ############################################################################
+-- 2. booking_series_plan()
+--    Internal — shared by preview and create.
+-- ############################################################################
+
+CREATE OR REPLACE FUNCTION public.booking_series_plan(
+  p_car_unit_id uuid,
+  p_start_ts    timestamptz,
+  p_end_ts      timestamptz,
+  p_frequency   text,
+  p_occurrences int,
+  p_until_date  date,
+  p_customer_id uuid
+)
+RETURNS TABLE (
+  occurrence int,
+  start_ts   timestamptz,
+  end_ts     timestamptz,
+  conflict   text,
+  quote      jsonb
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_step       interval;
+  v_local_from timestamp;
+  v_local_to   timestamp;
+  v_max        int;
+BEGIN
+  IF p_frequency NOT IN ('DAILY', 'WEEKLY') THEN
+    RAISE EXCEPTION 'Repeat must be daily or weekly';
+  END IF;
+
+  IF p_end_ts <= p_start_ts THEN
+    RAISE EXCEPTION 'End time must be after start time';
+  END IF;
+
+  IF (p_occurrences IS NULL) = (p_until_date IS NULL) THEN
+    RAISE EXCEPTION 'Give either a number of occurrences or an end date';
+  END IF;
+
+  IF p_occurrences IS NOT NULL AND (p_occurrences < 2 OR p_occurrences > 52) THEN
+    RAISE EXCEPTION 'A series is 2 to 52 occurrences';
+  END IF;
+
+  v_step := CASE p_frequency WHEN 'DAILY' THEN interval '1 day' ELSE interval '1 week' END;
+
+  IF p_end_ts - p_start_ts > v_step THEN
+    RAISE EXCEPTION 'Each occurrence must end before the next one starts';
+  END IF;
+
+  v_local_from := p_start_ts AT TIME ZONE 'America/Chicago';
+  v_local_to   := p_end_ts   AT TIME ZONE 'America/Chicago';
+
+  IF p_until_date IS NOT NULL AND p_until_date <= v_local_from::date THEN
+    RAISE EXCEPTION 'The series must end after the first occurrence';
+  END IF;
+
+  v_max := coalesce(p_occurrences, 52);
+
+  RETURN QUERY
+  SELECT o.n + 1,
+         o.s,
+         o.e,
+         CASE
+           WHEN o.s <= now() THEN 'PAST'
+           WHEN EXISTS (
+             SELECT 1 FROM public.bookings b
+              WHERE b.car_unit_id = p_car_unit_id
+                AND b.status      = 'CONFIRMED'
+                AND b.start_ts    < o.e
+                AND b.end_ts      > o.s) THEN 'BOOKED'
+           WHEN EXISTS (
+             SELECT 1 FROM public.car_blackouts bo
+              WHERE bo.car_unit_id = p_car_unit_id
+                AND bo.start_ts    < o.e
+                AND bo.end_ts      > o.s) THEN 'BLACKOUT'
+           WHEN public.unit_is_held(p_car_unit_id, o.s, o.e, p_customer_id) THEN 'HELD'
+         END,
+         public.quote_booking_price(p_car_unit_id, o.s, o.e)
+    FROM (
+      SELECT g.n,
+             (v_local_from + g.n * v_step) AT TIME ZONE 'America/Chicago' AS s,
+             (v_local_to   + g.n * v_step) AT TIME ZONE 'America/Chicago' AS e
+        FROM generate_series(0, v_max - 1) AS g(n)
+       WHERE p_until_date IS NULL
+          OR (v_local_from + g.n * v_step)::date <= p_until_date
+    ) o
+   ORDER BY o.n;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.booking_series_plan(uuid, timestamptz, timestamptz, text, int, date, uuid) FROM public, anon, authenticated;
+
+
+-- ############################################################################
+-- 3. preview_booking_series
+-- ############################################################################
+
+CREATE OR REPLACE FUNCTION public.preview_booking_series(
+  p_car_unit_id uuid,
+  p_start_ts    timestamptz,
+  p_end_ts      timestamptz,
+  p_frequency   text,
+  p_occurrences int  DEFAULT NULL,
+  p_until_date  date DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  RETURN coalesce((
+    SELECT jsonb_agg(jsonb_build_object(
+             'occurrence', p.occurrence,
+             'start_ts',   p.start_ts,
+             'end_ts',     p.end_ts,
+             'conflict',   p.conflict,
+             'credits',    (p.quote->>'total_credits')::int
+           ) ORDER BY p.occurrence)
+      FROM public.booking_series_plan(p_car_unit_id, p_start_ts, p_end_ts,
+             p_frequency, p_occurrences, p_until_date, auth.uid()) p
+  ), '[]'::jsonb);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.preview_booking_series(uuid, timestamptz, timestamptz, text, int, date) FROM public;
+GRANT EXECUTE ON FUNCTION public.preview_booking_series(uuid, timestamptz, timestamptz, text, int, date) TO authenticated;
+
+COMMENT ON FUNCTION public.preview_booking_series(uuid, timestamptz, timestamptz, text, int, date) IS
+  'Lists the occurrences of a recurring booking with their price and any '
+  'conflict (PAST / BOOKED / BLACKOUT / HELD).';
+
+
+-- ############################################################################
+-- 4. create_booking_series
+--    Called by CUSTOMERs.
+-- ############################################################################
+
+CREATE OR REPLACE FUNCTION public.create_booking_series(
+  p_car_unit_id uuid,
+  p_start_ts    timestamptz,
+  p_end_ts      timestamptz,
+  p_frequency   text,
+  p_occurrences int  DEFAULT NULL,
+  p_until_date  date DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_uid          uuid;
+  v_role         text;
+  v_policy       public.pricing_policies%ROWTYPE;
+  v_duration_min int;
+  v_plan         record;
+  v_bookable     int := 0;
+  v_total        int := 0;
+  v_balance      int;
+  v_series_id    uuid;
+  v_booking_id   uuid;
+  v_booked       jsonb := '[]'::jsonb;
+  v_skipped      jsonb := '[]'::jsonb;
+  v_new_balance  int;
+BEGIN
+  -- ================================================================
+  -- 1. Auth: only CUSTOMERs may book
+  -- ================================================================
+  v_uid := auth.uid();
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT role INTO v_role
+    FROM public.profiles
+   WHERE id = v_uid;
+
+  IF v_role IS NULL OR v_role <> 'CUSTOMER' THEN
+    RAISE EXCEPTION 'Only customers may create bookings';
+  END IF;
+
+  -- ================================================================
+  -- 2. Unit (locked: serializes with holds and other bookings)
+  -- ================================================================
+  PERFORM 1
+     FROM public.car_units
+    WHERE id = p_car_unit_id
+      AND active = true
+      FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Car unit not found or is not currently active';
+  END IF;
+
+  SELECT * INTO v_policy
+    FROM public.pricing_policies
+   WHERE id = public.resolve_pricing_policy_id(p_car_unit_id);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No pricing policy configured for this car unit';
+  END IF;
+
+  v_duration_min := extract(epoch FROM (p_end_ts - p_start_ts))::int / 60;
+
+  IF v_duration_min < v_policy.min_duration_minutes THEN
+    RAISE EXCEPTION 'Minimum booking duration for this car is % minutes', v_policy.min_duration_minutes;
+  END IF;
+
+  -- ================================================================
+  -- 3. Price the bookable occurrences, then check the combined total
+  -- ================================================================
+  FOR v_plan IN
+    SELECT * FROM public.booking_series_plan(p_car_unit_id, p_start_ts, p_end_ts,
+                    p_frequency, p_occurrences, p_until_date, v_uid)
+  LOOP
+    IF v_plan.conflict IS NULL THEN
+      v_bookable := v_bookable + 1;
+      v_total    := v_total + (v_plan.quote->>'total_credits')::int;
+    END IF;
+  END LOOP;
+
+  IF v_bookable = 0 THEN
+    RAISE EXCEPTION 'None of the occurrences are available';
+  END IF;
+
+  SELECT coalesce(sum(delta), 0)
+    INTO v_balance
+    FROM public.credit_ledger
+   WHERE user_id = v_uid;
+
+  IF v_balance < v_total THEN
+    RAISE EXCEPTION 'Insufficient credit balance (have %, need %)', v_balance, v_total;
+  END IF;
+
+  -- ================================================================
+  -- 4. Insert series + bookings + one ledger debit + audit (atomic)
+  -- ================================================================
+  INSERT INTO public.booking_series
+         (customer_id, car_unit_id, frequency, first_start_ts, first_end_ts,
+          occurrences_requested, until_date, credits_charged)
+  VALUES (v_uid, p_car_unit_id, p_frequency, p_start_ts, p_end_ts,
+          p_occurrences, p_until_date, v_total)
+  RETURNING id INTO v_series_id;
+
+  BEGIN
+    FOR v_plan IN
+      SELECT * FROM public.booking_series_plan(p_car_unit_id, p_start_ts, p_end_ts,
+                      p_frequency, p_occurrences, p_until_date, v_uid)
+    LOOP
+      IF v_plan.conflict IS NOT NULL THEN
+        v_skipped := v_skipped || jsonb_build_object(
+          'occurrence', v_plan.occurrence,
+          'start_ts',   v_plan.start_ts,
+          'end_ts',     v_plan.end_ts,
+          'conflict',   v_plan.conflict);
+        CONTINUE;
+      END IF;
+
+      INSERT INTO public.bookings
+             (car_unit_id, customer_id, start_ts, end_ts, credits_charged,
+              pricing_mode, hourly_rate_used, day_price_used,
+              billable_days, duration_minutes, pricing_policy_id,
+              base_credits, surcharge_credits, surcharges, series_id)
+      VALUES (p_car_unit_id, v_uid, v_plan.start_ts, v_plan.end_ts,
+              (v_plan.quote->>'total_credits')::int,
+              v_plan.quote->>'pricing_mode', (v_plan.quote->>'hourly_rate')::int,
+              (v_plan.quote->>'day_rate')::int, (v_plan.quote->>'billable_days')::int,
+              v_duration_min, v_policy.id,
+              (v_plan.quote->>'base_credits')::int,
+              (v_plan.quote->>'surcharge_credits')::int,
+              v_plan.quote->'surcharges', v_series_id)
+      RETURNING id INTO v_booking_id;
+
+      v_booked := v_booked || jsonb_build_object(
+        'occurrence', v_plan.occurrence,
+        'booking_id', v_booking_id,
+        'start_ts',   v_plan.start_ts,
+        'end_ts',     v_plan.end_ts,
+        'credits',    (v_plan.quote->>'total_credits')::int);
+
+      INSERT INTO public.audit_log (actor_user_id, action, entity_type, entity_id, metadata)
+      VALUES (v_uid, 'booking.created', 'booking', v_booking_id,
+        jsonb_build_object(
+          'car_unit_id',       p_car_unit_id,
+          'series_id',         v_series_id,
+          'occurrence',        v_plan.occurrence,
+          'start_ts',          v_plan.start_ts AT TIME ZONE 'UTC',
+          'end_ts',            v_plan.end_ts   AT TIME ZONE 'UTC',
+          'pricing_mode',      v_plan.quote->'pricing_mode',
+          'base_credits',      v_plan.quote->'base_credits',
+          'surcharge_credits', v_plan.quote->'surcharge_credits',
+          'credits_charged',   v_plan.quote->'total_credits',
+          'policy_version',    v_policy.version
+      ));
+    END LOOP;
+  EXCEPTION
+    WHEN unique_violation OR exclusion_violation THEN
+      RAISE EXCEPTION 'One of the occurrences was just booked by someone else — please preview again';
+  END;
+
+  IF v_total > 0 THEN
+    INSERT INTO public.credit_ledger (user_id, delta, reason)
+    VALUES (v_uid, -v_total,
+            format('Recurring booking %s: %s occurrences', v_series_id, v_bookable));
+  END IF;
+
+  -- The caller's hold on the first occurrence is now a booking
+  DELETE FROM public.booking_holds
+   WHERE customer_id = v_uid
+     AND car_unit_id = p_car_unit_id;
+
+  INSERT INTO public.audit_log (actor_user_id, action, entity_type, entity_id, metadata)
+  VALUES (v_uid, 'booking_series.created', 'booking_series', v_series_id,
+    jsonb_build_object(
+      'car_unit_id',     p_car_unit_id,
+      'frequency',       p_frequency,
+      'occurrences',     p_occurrences,
+      'until_date',      p_until_date,
+      'booked',          v_bookable,
+      'skipped',         v_skipped,
+      'credits_charged', v_total
+  ));
+
+  SELECT coalesce(sum(delta), 0)
+    INTO v_new_balance
+    FROM public.credit_ledger
+   WHERE user_id = v_uid;
+
+  RETURN jsonb_build_object(
+    'series_id',       v_series_id,
+    'booked',          v_booked,
+    'skipped',         v_skipped,
+    'credits_charged', v_total,
+    'balance_after',   v_new_balance
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_booking_series(uuid, timestamptz, timestamptz, text, int, date) FROM public;
+GRANT EXECUTE ON FUNCTION public.create_booking_series(uuid, timestamptz, timestamptz, text, int, date) TO authenticated;
+
+COMMENT ON FUNCTION public.create_booking_series(uuid, timestamptz, timestamptz, text, int, date) IS
+  'Books every non-conflicting occurrence of a daily or weekly series on one '
+  'car unit in a single transaction with one combined ledger debit. '
+  'Conflicting occurrences are skipped and returned.';
+
+
+-- ############################################################################
+-- 5. cancel_booking_series(booking_id)
+--    Cancels the given occurrence and every later one in its series.
+-- ############################################################################
+
+CREATE OR REPLACE FUNCTION public.cancel_booking_series(
+  p_booking_id uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_uid      uuid;
+  v_booking  public.bookings%ROWTYPE;
+  v_next_id  uuid;
+  v_result   jsonb;
+  v_canceled int := 0;
+  v_refund   int := 0;
+BEGIN
+  v_uid := auth.uid();
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_booking
+    FROM public.bookings
+   WHERE id = p_booking_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  IF v_booking.customer_id <> v_uid THEN
+    RAISE EXCEPTION 'Not authorised to cancel this booking';
+  END IF;
+
+  IF v_booking.series_id IS NULL THEN
+    RAISE EXCEPTION 'This booking is not part of a recurring series';
+  END IF;
+
+  -- Each occurrence is refunded under its own cancellation policy
+  FOR v_next_id IN
+    SELECT b.id
+      FROM public.bookings b
+     WHERE b.series_id = v_booking.series_id
+       AND b.status    = 'CONFIRMED'
+       AND b.start_ts >= v_booking.start_ts
+     ORDER BY b.start_ts
+  LOOP
+    v_result   := public.cancel_booking(v_next_id);
+    v_canceled := v_canceled + 1;
+    v_refund   := v_refund + (v_result->>'refund')::int;
+  END LOOP;
+
+  INSERT INTO public.audit_log (actor_user_id, action, entity_type, entity_id, metadata)
+  VALUES (v_uid, 'booking_series.canceled', 'booking_series', v_booking.series_id,
+    jsonb_build_object(
+      'from_booking_id', p_booking_id,
+      'from_start_ts',   v_booking.start_ts AT TIME ZONE 'UTC',
+      'canceled',        v_canceled,
+      'refund_credits',  v_refund
+  ));
+
+  RETURN jsonb_build_object(
+    'series_id', v_booking.series_id,
+    'canceled',  v_canceled,
+    'refund',    v_refund
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.cancel_booking_series(uuid) FROM public;
+GRANT EXECUTE ON FUNCTION public.cancel_booking_series(uuid) TO authenticated;
+
+COMMENT ON FUNCTION public.cancel_booking_series(uuid) IS
+  'Cancels an occurrence of the caller''s recurring series and all later '
+  'occurrences, each refunded under its cancellation policy.';
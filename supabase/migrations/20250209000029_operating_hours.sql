@@ -0,0 +1,756 @@
+-- ============================================================================
+-- ForzaCars Rentals — Operating hours (car_availability_rules)
+-- Migration: 20250209000029_operating_hours
+--
+-- 1. car_availability_rules readable by anon (the car page greys out
+--    closed times before login)
+-- 2. unit_open_at() / unit_open_for_window() helpers
+-- 3. Trigger: bookings whose pick-up or return falls outside the unit's
+--    operating hours are rejected (create, group, series and modify)
+-- 4. business_set_operating_hours RPC — replaces the weekly hours of one
+--    unit or of every unit of a fleet model
+-- 5. create_group_booking, booking_series_plan and notify_waitlist skip
+--    units that are closed at pick-up or return
+--
+-- Rules are weekly windows (day_of_week 0 = Sunday … 6 = Saturday,
+-- start_time < end_time) in America/Chicago local time; end_time may be
+-- 24:00 for "until midnight". A unit with no rules is open around the
+-- clock. Only pick-up and return have to fall inside opening hours — a
+-- multi-day rental keeps the car overnight while the business is closed.
+-- ============================================================================
+
+
+-- ############################################################################
+-- 1. car_availability_rules — public read
+-- ############################################################################
+
+CREATE POLICY "car_availability_rules: anon can read"
+  ON public.car_availability_rules FOR SELECT
+  TO anon
+  USING (true);
+
+GRANT SELECT ON public.car_availability_rules TO anon;
+
+COMMENT ON TABLE public.car_availability_rules IS
+  'Weekly operating hours per car unit (America/Chicago local time). Pick-up '
+  'and return must fall inside a window; a unit with no rules is always open.';
+
+
+-- ############################################################################
+-- 2. Helpers
+-- ############################################################################
+
+-- Is the unit open for a pick-up (p_is_return = false) or a return at p_ts?
+-- A pick-up needs start_time <= t < end_time, a return start_time < t <=
+-- end_time; a return at midnight counts as 24:00 of the previous day.
+CREATE OR REPLACE FUNCTION public.unit_open_at(
+  p_car_unit_id uuid,
+  p_ts          timestamptz,
+  p_is_return   boolean
+)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_local timestamp;
+  v_dow   int;
+  v_time  time;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.car_availability_rules
+     WHERE car_unit_id = p_car_unit_id
+  ) THEN
+    RETURN true;
+  END IF;
+
+  v_local := p_ts AT TIME ZONE 'America/Chicago';
+  v_dow   := extract(dow FROM v_local)::int;
+  v_time  := v_local::time;
+
+  IF p_is_return AND v_time = '00:00' THEN
+    v_dow  := (v_dow + 6) % 7;
+    v_time := '24:00';
+  END IF;
+
+  RETURN EXISTS (
+    SELECT 1
+      FROM public.car_availability_rules r
+     WHERE r.car_unit_id = p_car_unit_id
+       AND r.day_of_week = v_dow
+       AND CASE WHEN p_is_return
+                THEN r.start_time <  v_time AND r.end_time >= v_time
+                ELSE r.start_time <= v_time AND r.end_time >  v_time
+           END
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.unit_open_at(uuid, timestamptz, boolean) FROM public, anon, authenticated;
+
+
+CREATE OR REPLACE FUNCTION public.unit_open_for_window(
+  p_car_unit_id uuid,
+  p_start_ts    timestamptz,
+  p_end_ts      timestamptz
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT public.unit_open_at(p_car_unit_id, p_start_ts, false)
+     AND public.unit_open_at(p_car_unit_id, p_end_ts, true);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.unit_open_for_window(uuid, timestamptz, timestamptz) FROM public, anon, authenticated;
+
+
+-- ############################################################################
+-- 3. Enforce operating hours on bookings
+--    Only a changed pick-up / return is checked, so a rental in progress
+--    can still be extended after the business changes its hours.
+-- ############################################################################
+
+CREATE OR REPLACE FUNCTION public.handle_booking_operating_hours()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF NEW.status <> 'CONFIRMED' THEN
+    RETURN NEW;
+  END IF;
+
+  IF (TG_OP = 'INSERT' OR NEW.start_ts IS DISTINCT FROM OLD.start_ts)
+     AND NOT public.unit_open_at(NEW.car_unit_id, NEW.start_ts, false) THEN
+    RAISE EXCEPTION 'Pick-up time is outside this car''s operating hours';
+  END IF;
+
+  IF (TG_OP = 'INSERT' OR NEW.end_ts IS DISTINCT FROM OLD.end_ts)
+     AND NOT public.unit_open_at(NEW.car_unit_id, NEW.end_ts, true) THEN
+    RAISE EXCEPTION 'Return time is outside this car''s operating hours';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_booking_check_operating_hours ON public.bookings;
+CREATE TRIGGER on_booking_check_operating_hours
+  BEFORE INSERT OR UPDATE OF start_ts, end_ts ON public.bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_booking_operating_hours();
+
+
+-- ############################################################################
+-- 4. business_set_operating_hours
+--    p_hours: [{ "day_of_week": 1, "start_time": "09:00", "end_time": "17:00" }, …]
+--    An empty array removes all rules (open around the clock).
+-- ############################################################################
+
+CREATE OR REPLACE FUNCTION public.business_set_operating_hours(
+  p_car_unit_id  uuid,
+  p_car_model_id uuid,
+  p_hours        jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_uid         uuid;
+  v_business_id uuid;
+  v_unit_ids    uuid[];
+  v_rule        jsonb;
+  v_rule_count  int;
+BEGIN
+  -- ================================================================
+  -- 1. Auth: caller must be a BUSINESS user with a business_id
+  -- ================================================================
+  v_uid := auth.uid();
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT business_id INTO v_business_id
+    FROM public.profiles
+   WHERE id = v_uid AND role = 'BUSINESS';
+
+  IF v_business_id IS NULL THEN
+    RAISE EXCEPTION 'Only business users with an assigned business can set operating hours';
+  END IF;
+
+  -- ================================================================
+  -- 2. Validate inputs
+  -- ================================================================
+  IF (p_car_unit_id IS NULL) = (p_car_model_id IS NULL) THEN
+    RAISE EXCEPTION 'Choose either a car unit or a fleet model';
+  END IF;
+
+  IF p_hours IS NULL OR jsonb_typeof(p_hours) <> 'array' THEN
+    RAISE EXCEPTION 'Operating hours must be a list of weekly windows';
+  END IF;
+
+  IF jsonb_array_length(p_hours) > 28 THEN
+    RAISE EXCEPTION 'At most 28 weekly windows are allowed';
+  END IF;
+
+  FOR v_rule IN SELECT * FROM jsonb_array_elements(p_hours) LOOP
+    IF (v_rule->>'day_of_week')::int NOT BETWEEN 0 AND 6 THEN
+      RAISE EXCEPTION 'Invalid day of week';
+    END IF;
+    IF (v_rule->>'start_time')::time >= (v_rule->>'end_time')::time THEN
+      RAISE EXCEPTION 'Closing time must be after opening time';
+    END IF;
+  END LOOP;
+
+  SELECT array_agg(id) INTO v_unit_ids
+    FROM public.car_units
+   WHERE business_id = v_business_id
+     AND (id = p_car_unit_id OR car_model_id = p_car_model_id);
+
+  IF v_unit_ids IS NULL THEN
+    RAISE EXCEPTION 'Car unit not found or not owned by your business';
+  END IF;
+
+  -- ================================================================
+  -- 3. Replace the rules of every target unit
+  -- ================================================================
+  DELETE FROM public.car_availability_rules
+   WHERE car_unit_id = ANY (v_unit_ids);
+
+  INSERT INTO public.car_availability_rules (car_unit_id, day_of_week, start_time, end_time)
+  SELECT u.id,
+         (h->>'day_of_week')::int,
+         (h->>'start_time')::time,
+         (h->>'end_time')::time
+    FROM unnest(v_unit_ids) AS u(id)
+   CROSS JOIN jsonb_array_elements(p_hours) AS h;
+
+  GET DIAGNOSTICS v_rule_count = ROW_COUNT;
+
+  -- ================================================================
+  -- 4. Audit log
+  -- ================================================================
+  INSERT INTO public.audit_log (actor_user_id, action, entity_type, entity_id, metadata)
+  VALUES (v_uid, 'operating_hours.updated',
+          CASE WHEN p_car_unit_id IS NULL THEN 'car_model' ELSE 'car_unit' END,
+          coalesce(p_car_unit_id, p_car_model_id),
+    jsonb_build_object(
+      'business_id', v_business_id,
+      'unit_count',  array_length(v_unit_ids, 1),
+      'hours',       p_hours
+  ));
+
+  RETURN jsonb_build_object(
+    'unit_count', array_length(v_unit_ids, 1),
+    'rule_count', v_rule_count
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.business_set_operating_hours(uuid, uuid, jsonb) FROM public;
+GRANT EXECUTE ON FUNCTION public.business_set_operating_hours(uuid, uuid, jsonb) TO authenticated;
+
+COMMENT ON FUNCTION public.business_set_operating_hours(uuid, uuid, jsonb) IS
+  'Replaces the weekly operating hours of one of the caller''s car units, or '
+  'of all their units of a car model. An empty list means always open.';
+
+
+-- ############################################################################
+-- 5a. create_group_booking — only units open at pick-up and return
+-- ############################################################################
+
+CREATE OR REPLACE FUNCTION public.create_group_booking(
+  p_car_model_id uuid,
+  p_quantity     int,
+  p_start_ts     timestamptz,
+  p_end_ts       timestamptz,
+  p_color        text    DEFAULT NULL,
+  p_same_color   boolean DEFAULT false
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_uid          uuid;
+  v_role         text;
+  v_color        text;
+  v_unit_ids     uuid[];
+  v_unit_id      uuid;
+  v_policy       public.pricing_policies%ROWTYPE;
+  v_duration_min int;
+  v_quote        jsonb;
+  v_quotes       jsonb := '{}'::jsonb;
+  v_total        int := 0;
+  v_balance      int;
+  v_group_id     uuid;
+  v_booking_id   uuid;
+  v_booking_ids  uuid[] := '{}';
+  v_new_balance  int;
+BEGIN
+  -- ================================================================
+  -- 1. Auth: only CUSTOMERs may book
+  -- ================================================================
+  v_uid := auth.uid();
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT role INTO v_role
+    FROM public.profiles
+   WHERE id = v_uid;
+
+  IF v_role IS NULL OR v_role <> 'CUSTOMER' THEN
+    RAISE EXCEPTION 'Only customers may create bookings';
+  END IF;
+
+  -- ================================================================
+  -- 2. Input validation
+  -- ================================================================
+  IF p_quantity IS NULL OR p_quantity < 2 OR p_quantity > 10 THEN
+    RAISE EXCEPTION 'A group booking is 2 to 10 cars';
+  END IF;
+
+  IF p_end_ts <= p_start_ts THEN
+    RAISE EXCEPTION 'End time must be after start time';
+  END IF;
+
+  v_duration_min := extract(epoch FROM (p_end_ts - p_start_ts))::int / 60;
+  v_color        := nullif(btrim(p_color), '');
+
+  -- ================================================================
+  -- 3. Pick units: active, free, not blacked out, open at pick-up
+  --    and return, minimum met.
+  --    With p_same_color and no explicit color, use the color with
+  --    the most free units.
+  -- ================================================================
+  IF v_color IS NULL AND p_same_color THEN
+    SELECT u.color INTO v_color
+      FROM public.car_units u
+     WHERE u.car_model_id = p_car_model_id
+       AND u.active = true
+       AND u.color IS NOT NULL
+       AND NOT EXISTS (
+             SELECT 1 FROM public.bookings b
+              WHERE b.car_unit_id = u.id
+                AND b.status = 'CONFIRMED'
+                AND b.start_ts < p_end_ts
+                AND b.end_ts   > p_start_ts)
+       AND NOT EXISTS (
+             SELECT 1 FROM public.car_blackouts bo
+              WHERE bo.car_unit_id = u.id
+                AND bo.start_ts < p_end_ts
+                AND bo.end_ts   > p_start_ts)
+       AND NOT public.unit_is_held(u.id, p_start_ts, p_end_ts, v_uid)
+       AND public.unit_open_for_window(u.id, p_start_ts, p_end_ts)
+     GROUP BY u.color
+    HAVING count(*) >= p_quantity
+     ORDER BY count(*) DESC, u.color
+     LIMIT 1;
+
+    IF v_color IS NULL THEN
+      RAISE EXCEPTION 'No single color has % units available for this window', p_quantity;
+    END IF;
+  END IF;
+
+  SELECT array_agg(x.id ORDER BY x.created_at, x.id)
+    INTO v_unit_ids
+    FROM (
+      SELECT u.id, u.created_at
+        FROM public.car_units u
+        JOIN public.pricing_policies pp
+          ON pp.id = public.resolve_pricing_policy_id(u.id)
+       WHERE u.car_model_id = p_car_model_id
+         AND u.active = true
+         AND (v_color IS NULL OR lower(u.color) = lower(v_color))
+         AND pp.min_duration_minutes <= v_duration_min
+         AND NOT EXISTS (
+               SELECT 1 FROM public.bookings b
+                WHERE b.car_unit_id = u.id
+                  AND b.status = 'CONFIRMED'
+                  AND b.start_ts < p_end_ts
+                  AND b.end_ts   > p_start_ts)
+         AND NOT EXISTS (
+               SELECT 1 FROM public.car_blackouts bo
+                WHERE bo.car_unit_id = u.id
+                  AND bo.start_ts < p_end_ts
+                  AND bo.end_ts   > p_start_ts)
+         AND NOT public.unit_is_held(u.id, p_start_ts, p_end_ts, v_uid)
+         AND public.unit_open_for_window(u.id, p_start_ts, p_end_ts)
+       ORDER BY u.created_at, u.id
+       LIMIT p_quantity
+    ) x;
+
+  IF coalesce(array_length(v_unit_ids, 1), 0) < p_quantity THEN
+    RAISE EXCEPTION 'Only % matching units are available for this window (need %)',
+      coalesce(array_length(v_unit_ids, 1), 0), p_quantity;
+  END IF;
+
+  -- Lock the picked units, then make sure no hold slipped in meanwhile
+  PERFORM 1
+     FROM public.car_units
+    WHERE id = ANY (v_unit_ids)
+    ORDER BY id
+      FOR UPDATE;
+
+  FOREACH v_unit_id IN ARRAY v_unit_ids LOOP
+    IF public.unit_is_held(v_unit_id, p_start_ts, p_end_ts, v_uid) THEN
+      RAISE EXCEPTION 'One of the selected units was just taken by someone else — please try again';
+    END IF;
+  END LOOP;
+
+  -- ================================================================
+  -- 4. Price every unit, then check the combined total
+  -- ================================================================
+  FOREACH v_unit_id IN ARRAY v_unit_ids LOOP
+    v_quote  := public.quote_booking_price(v_unit_id, p_start_ts, p_end_ts);
+    v_quotes := v_quotes || jsonb_build_object(v_unit_id::text, v_quote);
+    v_total  := v_total + (v_quote->>'total_credits')::int;
+  END LOOP;
+
+  SELECT coalesce(sum(delta), 0)
+    INTO v_balance
+    FROM public.credit_ledger
+   WHERE user_id = v_uid;
+
+  IF v_balance < v_total THEN
+    RAISE EXCEPTION 'Insufficient credit balance (have %, need %)', v_balance, v_total;
+  END IF;
+
+  -- ================================================================
+  -- 5. Insert group + bookings + one ledger debit + audit (atomic)
+  -- ================================================================
+  INSERT INTO public.booking_groups
+         (customer_id, car_model_id, color, unit_count, start_ts, end_ts, credits_charged)
+  VALUES (v_uid, p_car_model_id, v_color, p_quantity, p_start_ts, p_end_ts, v_total)
+  RETURNING id INTO v_group_id;
+
+  BEGIN
+    FOREACH v_unit_id IN ARRAY v_unit_ids LOOP
+      v_quote := v_quotes->(v_unit_id::text);
+
+      SELECT * INTO v_policy
+        FROM public.pricing_policies
+       WHERE id = public.resolve_pricing_policy_id(v_unit_id);
+
+      INSERT INTO public.bookings
+             (car_unit_id, customer_id, start_ts, end_ts, credits_charged,
+              pricing_mode, hourly_rate_used, day_price_used,
+              billable_days, duration_minutes, pricing_policy_id,
+              base_credits, surcharge_credits, surcharges, group_id)
+      VALUES (v_unit_id, v_uid, p_start_ts, p_end_ts, (v_quote->>'total_credits')::int,
+              v_quote->>'pricing_mode', (v_quote->>'hourly_rate')::int,
+              (v_quote->>'day_rate')::int, (v_quote->>'billable_days')::int,
+              v_duration_min, v_policy.id,
+              (v_quote->>'base_credits')::int, (v_quote->>'surcharge_credits')::int,
+              v_quote->'surcharges', v_group_id)
+      RETURNING id INTO v_booking_id;
+
+      v_booking_ids := v_booking_ids || v_booking_id;
+
+      INSERT INTO public.audit_log (actor_user_id, action, entity_type, entity_id, metadata)
+      VALUES (v_uid, 'booking.created', 'booking', v_booking_id,
+        jsonb_build_object(
+          'car_unit_id',       v_unit_id,
+          'group_id',          v_group_id,
+          'start_ts',          p_start_ts AT TIME ZONE 'UTC',
+          'end_ts',            p_end_ts   AT TIME ZONE 'UTC',
+          'pricing_mode',      v_quote->'pricing_mode',
+          'base_credits',      v_quote->'base_credits',
+          'surcharge_credits', v_quote->'surcharge_credits',
+          'credits_charged',   v_quote->'total_credits',
+          'policy_version',    v_policy.version
+      ));
+    END LOOP;
+  EXCEPTION
+    WHEN unique_violation OR exclusion_violation THEN
+      RAISE EXCEPTION 'One of the selected units was just booked by someone else — please try again';
+  END;
+
+  -- The caller's own holds on these units are now bookings
+  DELETE FROM public.booking_holds
+   WHERE customer_id = v_uid
+     AND car_unit_id = ANY (v_unit_ids);
+
+  IF v_total > 0 THEN
+    INSERT INTO public.credit_ledger (user_id, delta, reason)
+    VALUES (v_uid, -v_total,
+            format('Group booking %s: %s cars, %s → %s',
+                   v_group_id, p_quantity,
+                   p_start_ts AT TIME ZONE 'UTC', p_end_ts AT TIME ZONE 'UTC'));
+  END IF;
+
+  INSERT INTO public.audit_log (actor_user_id, action, entity_type, entity_id, metadata)
+  VALUES (v_uid, 'booking_group.created', 'booking_group', v_group_id,
+    jsonb_build_object(
+      'car_model_id',    p_car_model_id,
+      'color',           v_color,
+      'unit_count',      p_quantity,
+      'booking_ids',     to_jsonb(v_booking_ids),
+      'car_unit_ids',    to_jsonb(v_unit_ids),
+      'start_ts',        p_start_ts AT TIME ZONE 'UTC',
+      'end_ts',          p_end_ts   AT TIME ZONE 'UTC',
+      'credits_charged', v_total
+  ));
+
+  SELECT coalesce(sum(delta), 0)
+    INTO v_new_balance
+    FROM public.credit_ledger
+   WHERE user_id = v_uid;
+
+  RETURN jsonb_build_object(
+    'group_id',        v_group_id,
+    'booking_ids',     to_jsonb(v_booking_ids),
+    'car_unit_ids',    to_jsonb(v_unit_ids),
+    'color',           v_color,
+    'credits_charged', v_total,
+    'balance_after',   v_new_balance
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_group_booking(uuid, int, timestamptz, timestamptz, text, boolean) FROM public;
+GRANT EXECUTE ON FUNCTION public.create_group_booking(uuid, int, timestamptz, timestamptz, text, boolean) TO authenticated;
+
+COMMENT ON FUNCTION public.create_group_booking(uuid, int, timestamptz, timestamptz, text, boolean) IS
+  'Books N units of a car model for the same window in one transaction '
+  '(optionally one color), with a single combined ledger debit. Fails as a '
+  'whole if any unit cannot be booked.';
+
+
+
+-- ############################################################################
+-- 5b. booking_series_plan — CLOSED occurrences
+-- ############################################################################
+
+CREATE OR REPLACE FUNCTION public.booking_series_plan(
+  p_car_unit_id uuid,
+  p_start_ts    timestamptz,
+  p_end_ts      timestamptz,
+  p_frequency   text,
+  p_occurrences int,
+  p_until_date  date,
+  p_customer_id uuid
+)
+RETURNS TABLE (
+  occurrence int,
+  start_ts   timestamptz,
+  end_ts     timestamptz,
+  conflict   text,
+  quote      jsonb
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_step       interval;
+  v_local_from timestamp;
+  v_local_to   timestamp;
+  v_max        int;
+BEGIN
+  IF p_frequency NOT IN ('DAILY', 'WEEKLY') THEN
+    RAISE EXCEPTION 'Repeat must be daily or weekly';
+  END IF;
+
+  IF p_end_ts <= p_start_ts THEN
+    RAISE EXCEPTION 'End time must be after start time';
+  END IF;
+
+  IF (p_occurrences IS NULL) = (p_until_date IS NULL) THEN
+    RAISE EXCEPTION 'Give either a number of occurrences or an end date';
+  END IF;
+
+  IF p_occurrences IS NOT NULL AND (p_occurrences < 2 OR p_occurrences > 52) THEN
+    RAISE EXCEPTION 'A series is 2 to 52 occurrences';
+  END IF;
+
+  v_step := CASE p_frequency WHEN 'DAILY' THEN interval '1 day' ELSE interval '1 week' END;
+
+  IF p_end_ts - p_start_ts > v_step THEN
+    RAISE EXCEPTION 'Each occurrence must end before the next one starts';
+  END IF;
+
+  v_local_from := p_start_ts AT TIME ZONE 'America/Chicago';
+  v_local_to   := p_end_ts   AT TIME ZONE 'America/Chicago';
+
+  IF p_until_date IS NOT NULL AND p_until_date <= v_local_from::date THEN
+    RAISE EXCEPTION 'The series must end after the first occurrence';
+  END IF;
+
+  v_max := coalesce(p_occurrences, 52);
+
+  RETURN QUERY
+  SELECT o.n + 1,
+         o.s,
+         o.e,
+         CASE
+           WHEN o.s <= now() THEN 'PAST'
+           WHEN NOT public.unit_open_for_window(p_car_unit_id, o.s, o.e) THEN 'CLOSED'
+           WHEN EXISTS (
+             SELECT 1 FROM public.bookings b
+              WHERE b.car_unit_id = p_car_unit_id
+                AND b.status      = 'CONFIRMED'
+                AND b.start_ts    < o.e
+                AND b.end_ts      > o.s) THEN 'BOOKED'
+           WHEN EXISTS (
+             SELECT 1 FROM public.car_blackouts bo
+              WHERE bo.car_unit_id = p_car_unit_id
+                AND bo.start_ts    < o.e
+                AND bo.end_ts      > o.s) THEN 'BLACKOUT'
+           WHEN public.unit_is_held(p_car_unit_id, o.s, o.e, p_customer_id) THEN 'HELD'
+         END,
+         public.quote_booking_price(p_car_unit_id, o.s, o.e)
+    FROM (
+      SELECT g.n,
+             (v_local_from + g.n * v_step) AT TIME ZONE 'America/Chicago' AS s,
+             (v_local_to   + g.n * v_step) AT TIME ZONE 'America/Chicago' AS e
+        FROM generate_series(0, v_max - 1) AS g(n)
+       WHERE p_until_date IS NULL
+          OR (v_local_from + g.n * v_step)::date <= p_until_date
+    ) o
+   ORDER BY o.n;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.booking_series_plan(uuid, timestamptz, timestamptz, text, int, date, uuid) FROM public, anon, authenticated;
+
+
+-- ############################################################################
+-- 5c. notify_waitlist — only offer windows the unit is open for
+-- ############################################################################
+
+CREATE OR REPLACE FUNCTION public.notify_waitlist(
+  p_car_unit_id uuid,
+  p_start_ts    timestamptz,
+  p_end_ts      timestamptz
+)
+RETURNS int
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_unit      record;
+  v_entry     public.waitlist_entries%ROWTYPE;
+  v_offered   tstzrange[] := '{}';
+  v_sender    uuid;
+  v_thread_id uuid;
+  v_notified  int := 0;
+BEGIN
+  SELECT u.id, u.business_id, u.car_model_id, u.color, u.active,
+         coalesce(u.display_name, m.display_name) AS name
+    INTO v_unit
+    FROM public.car_units u
+    JOIN public.car_models m ON m.id = u.car_model_id
+   WHERE u.id = p_car_unit_id;
+
+  IF NOT FOUND OR NOT v_unit.active OR p_end_ts <= now() THEN
+    RETURN 0;
+  END IF;
+
+  -- Messages come from the unit's business (first business user)
+  SELECT p.id INTO v_sender
+    FROM public.profiles p
+   WHERE p.business_id = v_unit.business_id
+     AND p.role = 'BUSINESS'
+   ORDER BY p.created_at
+   LIMIT 1;
+
+  FOR v_entry IN
+    SELECT *
+      FROM public.waitlist_entries w
+     WHERE w.car_model_id = v_unit.car_model_id
+       AND w.status       = 'WAITING'
+       AND w.start_ts     > now()
+       AND w.start_ts     < p_end_ts
+       AND w.end_ts       > p_start_ts
+       AND (w.color IS NULL OR lower(w.color) = lower(v_unit.color))
+     ORDER BY w.created_at
+       FOR UPDATE SKIP LOCKED
+  LOOP
+    -- Already offered this unit for an overlapping time in this pass
+    CONTINUE WHEN EXISTS (
+      SELECT 1 FROM unnest(v_offered) r
+       WHERE r && tstzrange(v_entry.start_ts, v_entry.end_ts, '[)')
+    );
+
+    -- The unit must be open and completely free for the entry's own window
+    CONTINUE WHEN EXISTS (
+      SELECT 1 FROM public.bookings b
+       WHERE b.car_unit_id = p_car_unit_id
+         AND b.status      = 'CONFIRMED'
+         AND b.start_ts    < v_entry.end_ts
+         AND b.end_ts      > v_entry.start_ts
+    );
+    CONTINUE WHEN EXISTS (
+      SELECT 1 FROM public.car_blackouts bo
+       WHERE bo.car_unit_id = p_car_unit_id
+         AND bo.start_ts    < v_entry.end_ts
+         AND bo.end_ts      > v_entry.start_ts
+    );
+    CONTINUE WHEN NOT public.unit_open_for_window(
+      p_car_unit_id, v_entry.start_ts, v_entry.end_ts);
+    CONTINUE WHEN public.unit_is_held(
+      p_car_unit_id, v_entry.start_ts, v_entry.end_ts, v_entry.customer_id);
+
+    UPDATE public.waitlist_entries
+       SET status               = 'NOTIFIED',
+           notified_at          = now(),
+           notified_car_unit_id = p_car_unit_id
+     WHERE id = v_entry.id;
+
+    v_offered := v_offered || tstzrange(v_entry.start_ts, v_entry.end_ts, '[)');
+
+    -- In-app notification
+    INSERT INTO public.message_threads (subject, created_by, business_id, customer_id)
+    VALUES (format('Waitlist: %s is available', v_unit.name),
+            coalesce(v_sender, v_entry.customer_id),
+            v_unit.business_id,
+            v_entry.customer_id)
+    RETURNING id INTO v_thread_id;
+
+    INSERT INTO public.messages (thread_id, sender_id, recipient_id, business_id, body)
+    VALUES (v_thread_id,
+            coalesce(v_sender, v_entry.customer_id),
+            v_entry.customer_id,
+            v_unit.business_id,
+            format('Good news — a %s you were waiting for is now free from %s to %s (Central Time). '
+                   'It is not reserved for you: book it from the car page before someone else does.',
+                   v_unit.name,
+                   to_char(v_entry.start_ts AT TIME ZONE 'America/Chicago', 'Mon DD, HH12:MI AM'),
+                   to_char(v_entry.end_ts   AT TIME ZONE 'America/Chicago', 'Mon DD, HH12:MI AM')));
+
+    INSERT INTO public.audit_log (actor_user_id, action, entity_type, entity_id, metadata)
+    VALUES (auth.uid(), 'waitlist.notified', 'waitlist_entry', v_entry.id,
+      jsonb_build_object(
+        'customer_id',  v_entry.customer_id,
+        'car_model_id', v_entry.car_model_id,
+        'car_unit_id',  p_car_unit_id,
+        'start_ts',     v_entry.start_ts AT TIME ZONE 'UTC',
+        'end_ts',       v_entry.end_ts   AT TIME ZONE 'UTC'
+    ));
+
+    v_notified := v_notified + 1;
+  END LOOP;
+
+  RETURN v_notified;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.notify_waitlist(uuid, timestamptz, timestamptz) FROM public, anon, authenticated;
+
+COMMENT ON FUNCTION public.notify_waitlist(uuid, timestamptz, timestamptz) IS
+  'Notifies waiting customers, in queue order, that a unit window has freed '
+  'up. Returns the number of entries notified.';
+
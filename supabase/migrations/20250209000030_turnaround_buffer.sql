@@ -0,0 +1,863 @@
+-- ============================================================================
+-- ForzaCars Rentals — Turnaround buffer between bookings
+-- Migration: 20250209000030_turnaround_buffer
+--
+-- 1. businesses.turnaround_minutes (default for every unit) and
+--    car_units.turnaround_minutes (per-unit override, NULL = default)
+-- 2. bookings.blocked_until = end_ts + the unit's turnaround, snapshotted
+--    when the booking is made or its return time changes
+-- 3. bookings_no_overlap covers [start_ts, blocked_until) so a unit can't
+--    be picked up again before its prep time has passed
+-- 4. unit_turnaround_minutes() / unit_booked_during() helpers and the
+--    booked_unit_ids() RPC used by /api/availability
+-- 5. available_unit_count treats a unit in prep as unavailable
+-- 6. business_set_turnaround RPC
+-- 7. place_booking_hold, create_group_booking, booking_series_plan and
+--    notify_waitlist use unit_booked_during()
+--
+-- A new window [start, end) conflicts with an existing booking when
+-- start < booking.blocked_until (the other car is still being prepared)
+-- or when end + turnaround > booking.start_ts (this car would not be ready
+-- for the next customer). Existing bookings keep the buffer they were made
+-- with; changing the turnaround only affects bookings made afterwards.
+-- ============================================================================
+
+
+-- ############################################################################
+-- 1. Turnaround settings
+-- ############################################################################
+
+ALTER TABLE public.businesses
+  ADD COLUMN IF NOT EXISTS turnaround_minutes int NOT NULL DEFAULT 0
+    CONSTRAINT businesses_turnaround_minutes_check
+      CHECK (turnaround_minutes BETWEEN 0 AND 1440 AND turnaround_minutes % 15 = 0);
+
+ALTER TABLE public.car_units
+  ADD COLUMN IF NOT EXISTS turnaround_minutes int
+    CONSTRAINT car_units_turnaround_minutes_check
+      CHECK (turnaround_minutes BETWEEN 0 AND 1440 AND turnaround_minutes % 15 = 0);
+
+COMMENT ON COLUMN public.businesses.turnaround_minutes IS
+  'Prep time (cleaning, refueling) kept free after every booking, in minutes';
+COMMENT ON COLUMN public.car_units.turnaround_minutes IS
+  'Per-unit prep time after every booking (NULL = the business default)';
+
+
+-- ############################################################################
+-- 2. bookings.blocked_until
+-- ############################################################################
+
+ALTER TABLE public.bookings
+  ADD COLUMN IF NOT EXISTS blocked_until timestamptz;
+
+-- Existing bookings were made without a buffer
+UPDATE public.bookings
+   SET blocked_until = end_ts
+ WHERE blocked_until IS NULL;
+
+ALTER TABLE public.bookings
+  ALTER COLUMN blocked_until SET NOT NULL;
+
+ALTER TABLE public.bookings
+  ADD CONSTRAINT bookings_blocked_until_check CHECK (blocked_until >= end_ts);
+
+COMMENT ON COLUMN public.bookings.blocked_until IS
+  'end_ts plus the unit''s turnaround when the booking was made; the unit '
+  'cannot be picked up again before this';
+
+-- Effective turnaround of a unit: its own override, else the business default
+CREATE OR REPLACE FUNCTION public.unit_turnaround_minutes(
+  p_car_unit_id uuid
+)
+RETURNS int
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT coalesce(
+    (SELECT coalesce(u.turnaround_minutes, b.turnaround_minutes)
+       FROM public.car_units u
+       JOIN public.businesses b ON b.id = u.business_id
+      WHERE u.id = p_car_unit_id),
+    0);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.unit_turnaround_minutes(uuid) FROM public, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.handle_booking_blocked_until()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT'
+     OR NEW.end_ts      IS DISTINCT FROM OLD.end_ts
+     OR NEW.car_unit_id IS DISTINCT FROM OLD.car_unit_id THEN
+    NEW.blocked_until := NEW.end_ts
+      + make_interval(mins => public.unit_turnaround_minutes(NEW.car_unit_id));
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_booking_set_blocked_until ON public.bookings;
+CREATE TRIGGER on_booking_set_blocked_until
+  BEFORE INSERT OR UPDATE OF end_ts, car_unit_id ON public.bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_booking_blocked_until();
+
+
+-- ############################################################################
+-- 3. bookings_no_overlap includes the buffer
+-- ############################################################################
+
+ALTER TABLE public.bookings
+  DROP CONSTRAINT IF EXISTS bookings_no_overlap;
+
+ALTER TABLE public.bookings
+  ADD CONSTRAINT bookings_no_overlap
+  EXCLUDE USING gist (
+    car_unit_id WITH =,
+    tstzrange(start_ts, blocked_until, '[)') WITH &&
+  )
+  WHERE (status = 'CONFIRMED');
+
+
+-- ############################################################################
+-- 4. Conflict helpers
+-- ############################################################################
+
+-- Would booking the unit for [p_start_ts, p_end_ts) collide with a
+-- CONFIRMED booking, either side's turnaround included?
+CREATE OR REPLACE FUNCTION public.unit_booked_during(
+  p_car_unit_id uuid,
+  p_start_ts    timestamptz,
+  p_end_ts      timestamptz
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+      FROM public.bookings b
+     WHERE b.car_unit_id   = p_car_unit_id
+       AND b.status        = 'CONFIRMED'
+       AND b.start_ts      < p_end_ts
+             + make_interval(mins => public.unit_turnaround_minutes(p_car_unit_id))
+       AND b.blocked_until > p_start_ts
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.unit_booked_during(uuid, timestamptz, timestamptz) FROM public, anon, authenticated;
+
+-- Which of these units can't be booked for the window? Runs as owner so
+-- every customer's bookings are considered, not just the caller's.
+CREATE OR REPLACE FUNCTION public.booked_unit_ids(
+  p_unit_ids uuid[],
+  p_start_ts timestamptz,
+  p_end_ts   timestamptz
+)
+RETURNS SETOF uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT u.id
+    FROM unnest(p_unit_ids) AS u(id)
+   WHERE public.unit_booked_during(u.id, p_start_ts, p_end_ts);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.booked_unit_ids(uuid[], timestamptz, timestamptz) FROM public;
+GRANT EXECUTE ON FUNCTION public.booked_unit_ids(uuid[], timestamptz, timestamptz) TO anon, authenticated;
+
+COMMENT ON FUNCTION public.booked_unit_ids(uuid[], timestamptz, timestamptz) IS
+  'Returns the given units that have a CONFIRMED booking overlapping the '
+  'window, turnaround buffers included.';
+
+
+-- ############################################################################
+-- 5. available_unit_count — a unit in prep is not available
+-- ############################################################################
+
+CREATE OR REPLACE FUNCTION public.available_unit_count(p_model_id uuid)
+RETURNS int
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = ''
+STABLE
+AS $$
+  SELECT count(*)::int
+  FROM public.car_units cu
+  WHERE cu.car_model_id = p_model_id
+    AND cu.active = true
+    AND NOT EXISTS (
+      SELECT 1 FROM public.bookings b
+      WHERE b.car_unit_id = cu.id
+        AND b.status = 'CONFIRMED'
+        AND b.start_ts <= now()
+        AND b.blocked_until > now()
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM public.car_blackouts cb
+      WHERE cb.car_unit_id = cu.id
+        AND cb.start_ts <= now()
+        AND cb.end_ts > now()
+    );
+$$;
+
+COMMENT ON FUNCTION public.available_unit_count(uuid) IS
+  'Returns the number of currently-available car_units for a given car_model. '
+  'A unit is available if active, not in a confirmed booking or its turnaround, '
+  'and not blacked out. '
+  'SECURITY DEFINER so it sees all bookings regardless of the caller''s RLS context.';
+
+
+-- ############################################################################
+-- 6. business_set_turnaround
+--    p_car_unit_id NULL sets the business default; for a unit, p_minutes
+--    NULL falls back to the default.
+-- ############################################################################
+
+CREATE OR REPLACE FUNCTION public.business_set_turnaround(
+  p_car_unit_id uuid,
+  p_minutes     int
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_uid         uuid;
+  v_business_id uuid;
+BEGIN
+  -- ================================================================
+  -- 1. Auth: caller must be a BUSINESS user with a business_id
+  -- ================================================================
+  v_uid := auth.uid();
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT business_id INTO v_business_id
+    FROM public.profiles
+   WHERE id = v_uid AND role = 'BUSINESS';
+
+  IF v_business_id IS NULL THEN
+    RAISE EXCEPTION 'Only business users with an assigned business can set turnaround time';
+  END IF;
+
+  -- ================================================================
+  -- 2. Validate inputs
+  -- ================================================================
+  IF p_minutes IS NULL AND p_car_unit_id IS NULL THEN
+    RAISE EXCEPTION 'Choose a turnaround time';
+  END IF;
+
+  IF p_minutes IS NOT NULL
+     AND (p_minutes NOT BETWEEN 0 AND 1440 OR p_minutes % 15 <> 0) THEN
+    RAISE EXCEPTION 'Turnaround must be 0 to 24 hours in 15-minute steps';
+  END IF;
+
+  -- ================================================================
+  -- 3. Update the business default or the unit override
+  -- ================================================================
+  IF p_car_unit_id IS NULL THEN
+    UPDATE public.businesses
+       SET turnaround_minutes = p_minutes
+     WHERE id = v_business_id;
+  ELSE
+    UPDATE public.car_units
+       SET turnaround_minutes = p_minutes
+     WHERE id = p_car_unit_id
+       AND business_id = v_business_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Car unit not found or not owned by your business';
+    END IF;
+  END IF;
+
+  -- ================================================================
+  -- 4. Audit log
+  -- ================================================================
+  INSERT INTO public.audit_log (actor_user_id, action, entity_type, entity_id, metadata)
+  VALUES (v_uid, 'turnaround.updated',
+          CASE WHEN p_car_unit_id IS NULL THEN 'business' ELSE 'car_unit' END,
+          coalesce(p_car_unit_id, v_business_id),
+    jsonb_build_object(
+      'business_id', v_business_id,
+      'minutes',     p_minutes
+  ));
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.business_set_turnaround(uuid, int) FROM public;
+GRANT EXECUTE ON FUNCTION public.business_set_turnaround(uuid, int) TO authenticated;
+
+COMMENT ON FUNCTION public.business_set_turnaround(uuid, int) IS
+  'Sets the caller''s business-wide turnaround (p_car_unit_id NULL) or one '
+  'unit''s override (p_minutes NULL = use the business default). Applies to '
+  'bookings made afterwards.';
+
+
+-- ############################################################################
+-- 7a. place_booking_hold — turnaround-aware conflict check
+-- ############################################################################
+
+CREATE OR REPLACE FUNCTION public.place_booking_hold(
+  p_car_unit_id uuid,
+  p_start_ts    timestamptz,
+  p_end_ts      timestamptz
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_uid     uuid;
+  v_role    text;
+  v_hold_id uuid;
+  v_expires timestamptz;
+BEGIN
+  v_uid := auth.uid();
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT role INTO v_role
+    FROM public.profiles
+   WHERE id = v_uid;
+
+  IF v_role IS NULL OR v_role <> 'CUSTOMER' THEN
+    RAISE EXCEPTION 'Only customers may hold units';
+  END IF;
+
+  IF p_end_ts <= p_start_ts THEN
+    RAISE EXCEPTION 'End time must be after start time';
+  END IF;
+
+  -- Serialize with other holds and bookings on this unit
+  PERFORM 1
+     FROM public.car_units
+    WHERE id = p_car_unit_id
+      AND active = true
+      FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Car unit not found or is not currently active';
+  END IF;
+
+  DELETE FROM public.booking_holds
+   WHERE car_unit_id = p_car_unit_id
+     AND expires_at <= now();
+
+  IF public.unit_booked_during(p_car_unit_id, p_start_ts, p_end_ts) THEN
+    RAISE EXCEPTION 'This car unit was just booked for the selected time';
+  END IF;
+
+  IF public.unit_is_held(p_car_unit_id, p_start_ts, p_end_ts, v_uid) THEN
+    RAISE EXCEPTION 'Another customer is completing a booking for this car unit';
+  END IF;
+
+  -- One hold per customer: a new selection replaces the previous one
+  DELETE FROM public.booking_holds
+   WHERE customer_id = v_uid;
+
+  INSERT INTO public.booking_holds (car_unit_id, customer_id, start_ts, end_ts)
+  VALUES (p_car_unit_id, v_uid, p_start_ts, p_end_ts)
+  RETURNING id, expires_at INTO v_hold_id, v_expires;
+
+  RETURN jsonb_build_object(
+    'hold_id',    v_hold_id,
+    'expires_at', v_expires
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.place_booking_hold(uuid, timestamptz, timestamptz) FROM public;
+GRANT EXECUTE ON FUNCTION public.place_booking_hold(uuid, timestamptz, timestamptz) TO authenticated;
+
+COMMENT ON FUNCTION public.place_booking_hold(uuid, timestamptz, timestamptz) IS
+  'Holds a car unit window for the caller for 10 minutes, replacing any '
+  'previous hold of theirs. Fails if the window is booked or held by '
+  'someone else.';
+
+
+-- ############################################################################
+-- 7b. create_group_booking — skip units whose turnaround collides
+-- ############################################################################
+
+CREATE OR REPLACE FUNCTION public.create_group_booking(
+  p_car_model_id uuid,
+  p_quantity     int,
+  p_start_ts     timestamptz,
+  p_end_ts       timestamptz,
+  p_color        text    DEFAULT NULL,
+  p_same_color   boolean DEFAULT false
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_uid          uuid;
+  v_role         text;
+  v_color        text;
+  v_unit_ids     uuid[];
+  v_unit_id      uuid;
+  v_policy       public.pricing_policies%ROWTYPE;
+  v_duration_min int;
+  v_quote        jsonb;
+  v_quotes       jsonb := '{}'::jsonb;
+  v_total        int := 0;
+  v_balance      int;
+  v_group_id     uuid;
+  v_booking_id   uuid;
+  v_booking_ids  uuid[] := '{}';
+  v_new_balance  int;
+BEGIN
+  -- ================================================================
+  -- 1. Auth: only CUSTOMERs may book
+  -- ================================================================
+  v_uid := auth.uid();
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT role INTO v_role
+    FROM public.profiles
+   WHERE id = v_uid;
+
+  IF v_role IS NULL OR v_role <> 'CUSTOMER' THEN
+    RAISE EXCEPTION 'Only customers may create bookings';
+  END IF;
+
+  -- ================================================================
+  -- 2. Input validation
+  -- ================================================================
+  IF p_quantity IS NULL OR p_quantity < 2 OR p_quantity > 10 THEN
+    RAISE EXCEPTION 'A group booking is 2 to 10 cars';
+  END IF;
+
+  IF p_end_ts <= p_start_ts THEN
+    RAISE EXCEPTION 'End time must be after start time';
+  END IF;
+
+  v_duration_min := extract(epoch FROM (p_end_ts - p_start_ts))::int / 60;
+  v_color        := nullif(btrim(p_color), '');
+
+  -- ================================================================
+  -- 3. Pick units: active, free, not blacked out, open at pick-up
+  --    and return, minimum met.
+  --    With p_same_color and no explicit color, use the color with
+  --    the most free units.
+  -- ================================================================
+  IF v_color IS NULL AND p_same_color THEN
+    SELECT u.color INTO v_color
+      FROM public.car_units u
+     WHERE u.car_model_id = p_car_model_id
+       AND u.active = true
+       AND u.color IS NOT NULL
+       AND NOT public.unit_booked_during(u.id, p_start_ts, p_end_ts)
+       AND NOT EXISTS (
+             SELECT 1 FROM public.car_blackouts bo
+              WHERE bo.car_unit_id = u.id
+                AND bo.start_ts < p_end_ts
+                AND bo.end_ts   > p_start_ts)
+       AND NOT public.unit_is_held(u.id, p_start_ts, p_end_ts, v_uid)
+       AND public.unit_open_for_window(u.id, p_start_ts, p_end_ts)
+     GROUP BY u.color
+    HAVING count(*) >= p_quantity
+     ORDER BY count(*) DESC, u.color
+     LIMIT 1;
+
+    IF v_color IS NULL THEN
+      RAISE EXCEPTION 'No single color has % units available for this window', p_quantity;
+    END IF;
+  END IF;
+
+  SELECT array_agg(x.id ORDER BY x.created_at, x.id)
+    INTO v_unit_ids
+    FROM (
+      SELECT u.id, u.created_at
+        FROM public.car_units u
+        JOIN public.pricing_policies pp
+          ON pp.id = public.resolve_pricing_policy_id(u.id)
+       WHERE u.car_model_id = p_car_model_id
+         AND u.active = true
+         AND (v_color IS NULL OR lower(u.color) = lower(v_color))
+         AND pp.min_duration_minutes <= v_duration_min
+         AND NOT public.unit_booked_during(u.id, p_start_ts, p_end_ts)
+         AND NOT EXISTS (
+               SELECT 1 FROM public.car_blackouts bo
+                WHERE bo.car_unit_id = u.id
+                  AND bo.start_ts < p_end_ts
+                  AND bo.end_ts   > p_start_ts)
+         AND NOT public.unit_is_held(u.id, p_start_ts, p_end_ts, v_uid)
+         AND public.unit_open_for_window(u.id, p_start_ts, p_end_ts)
+       ORDER BY u.created_at, u.id
+       LIMIT p_quantity
+    ) x;
+
+  IF coalesce(array_length(v_unit_ids, 1), 0) < p_quantity THEN
+    RAISE EXCEPTION 'Only % matching units are available for this window (need %)',
+      coalesce(array_length(v_unit_ids, 1), 0), p_quantity;
+  END IF;
+
+  -- Lock the picked units, then make sure no hold slipped in meanwhile
+  PERFORM 1
+     FROM public.car_units
+    WHERE id = ANY (v_unit_ids)
+    ORDER BY id
+      FOR UPDATE;
+
+  FOREACH v_unit_id IN ARRAY v_unit_ids LOOP
+    IF public.unit_is_held(v_unit_id, p_start_ts, p_end_ts, v_uid) THEN
+      RAISE EXCEPTION 'One of the selected units was just taken by someone else — please try again';
+    END IF;
+  END LOOP;
+
+  -- ================================================================
+  -- 4. Price every unit, then check the combined total
+  -- ================================================================
+  FOREACH v_unit_id IN ARRAY v_unit_ids LOOP
+    v_quote  := public.quote_booking_price(v_unit_id, p_start_ts, p_end_ts);
+    v_quotes := v_quotes || jsonb_build_object(v_unit_id::text, v_quote);
+    v_total  := v_total + (v_quote->>'total_credits')::int;
+  END LOOP;
+
+  SELECT coalesce(sum(delta), 0)
+    INTO v_balance
+    FROM public.credit_ledger
+   WHERE user_id = v_uid;
+
+  IF v_balance < v_total THEN
+    RAISE EXCEPTION 'Insufficient credit balance (have %, need %)', v_balance, v_total;
+  END IF;
+
+  -- ================================================================
+  -- 5. Insert group + bookings + one ledger debit + audit (atomic)
+  -- ================================================================
+  INSERT INTO public.booking_groups
+         (customer_id, car_model_id, color, unit_count, start_ts, end_ts, credits_charged)
+  VALUES (v_uid, p_car_model_id, v_color, p_quantity, p_start_ts, p_end_ts, v_total)
+  RETURNING id INTO v_group_id;
+
+  BEGIN
+    FOREACH v_unit_id IN ARRAY v_unit_ids LOOP
+      v_quote := v_quotes->(v_unit_id::text);
+
+      SELECT * INTO v_policy
+        FROM public.pricing_policies
+       WHERE id = public.resolve_pricing_policy_id(v_unit_id);
+
+      INSERT INTO public.bookings
+             (car_unit_id, customer_id, start_ts, end_ts, credits_charged,
+              pricing_mode, hourly_rate_used, day_price_used,
+              billable_days, duration_minutes, pricing_policy_id,
+              base_credits, surcharge_credits, surcharges, group_id)
+      VALUES (v_unit_id, v_uid, p_start_ts, p_end_ts, (v_quote->>'total_credits')::int,
+              v_quote->>'pricing_mode', (v_quote->>'hourly_rate')::int,
+              (v_quote->>'day_rate')::int, (v_quote->>'billable_days')::int,
+              v_duration_min, v_policy.id,
+              (v_quote->>'base_credits')::int, (v_quote->>'surcharge_credits')::int,
+              v_quote->'surcharges', v_group_id)
+      RETURNING id INTO v_booking_id;
+
+      v_booking_ids := v_booking_ids || v_booking_id;
+
+      INSERT INTO public.audit_log (actor_user_id, action, entity_type, entity_id, metadata)
+      VALUES (v_uid, 'booking.created', 'booking', v_booking_id,
+        jsonb_build_object(
+          'car_unit_id',       v_unit_id,
+          'group_id',          v_group_id,
+          'start_ts',          p_start_ts AT TIME ZONE 'UTC',
+          'end_ts',            p_end_ts   AT TIME ZONE 'UTC',
+          'pricing_mode',      v_quote->'pricing_mode',
+          'base_credits',      v_quote->'base_credits',
+          'surcharge_credits', v_quote->'surcharge_credits',
+          'credits_charged',   v_quote->'total_credits',
+          'policy_version',    v_policy.version
+      ));
+    END LOOP;
+  EXCEPTION
+    WHEN unique_violation OR exclusion_violation THEN
+      RAISE EXCEPTION 'One of the selected units was just booked by someone else — please try again';
+  END;
+
+  -- The caller's own holds on these units are now bookings
+  DELETE FROM public.booking_holds
+   WHERE customer_id = v_uid
+     AND car_unit_id = ANY (v_unit_ids);
+
+  IF v_total > 0 THEN
+    INSERT INTO public.credit_ledger (user_id, delta, reason)
+    VALUES (v_uid, -v_total,
+            format('Group booking %s: %s cars, %s → %s',
+                   v_group_id, p_quantity,
+                   p_start_ts AT TIME ZONE 'UTC', p_end_ts AT TIME ZONE 'UTC'));
+  END IF;
+
+  INSERT INTO public.audit_log (actor_user_id, action, entity_type, entity_id, metadata)
+  VALUES (v_uid, 'booking_group.created', 'booking_group', v_group_id,
+    jsonb_build_object(
+      'car_model_id',    p_car_model_id,
+      'color',           v_color,
+      'unit_count',      p_quantity,
+      'booking_ids',     to_jsonb(v_booking_ids),
+      'car_unit_ids',    to_jsonb(v_unit_ids),
+      'start_ts',        p_start_ts AT TIME ZONE 'UTC',
+      'end_ts',          p_end_ts   AT TIME ZONE 'UTC',
+      'credits_charged', v_total
+  ));
+
+  SELECT coalesce(sum(delta), 0)
+    INTO v_new_balance
+    FROM public.credit_ledger
+   WHERE user_id = v_uid;
+
+  RETURN jsonb_build_object(
+    'group_id',        v_group_id,
+    'booking_ids',     to_jsonb(v_booking_ids),
+    'car_unit_ids',    to_jsonb(v_unit_ids),
+    'color',           v_color,
+    'credits_charged', v_total,
+    'balance_after',   v_new_balance
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_group_booking(uuid, int, timestamptz, timestamptz, text, boolean) FROM public;
+GRANT EXECUTE ON FUNCTION public.create_group_booking(uuid, int, timestamptz, timestamptz, text, boolean) TO authenticated;
+
+COMMENT ON FUNCTION public.create_group_booking(uuid, int, timestamptz, timestamptz, text, boolean) IS
+  'Books N units of a car model for the same window in one transaction '
+  '(optionally one color), with a single combined ledger debit. Fails as a '
+  'whole if any unit cannot be booked.';
+
+
+-- ############################################################################
+-- 7c. booking_series_plan — BOOKED includes turnaround
+-- ############################################################################
+
+CREATE OR REPLACE FUNCTION public.booking_series_plan(
+  p_car_unit_id uuid,
+  p_start_ts    timestamptz,
+  p_end_ts      timestamptz,
+  p_frequency   text,
+  p_occurrences int,
+  p_until_date  date,
+  p_customer_id uuid
+)
+RETURNS TABLE (
+  occurrence int,
+  start_ts   timestamptz,
+  end_ts     timestamptz,
+  conflict   text,
+  quote      jsonb
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_step       interval;
+  v_local_from timestamp;
+  v_local_to   timestamp;
+  v_max        int;
+BEGIN
+  IF p_frequency NOT IN ('DAILY', 'WEEKLY') THEN
+    RAISE EXCEPTION 'Repeat must be daily or weekly';
+  END IF;
+
+  IF p_end_ts <= p_start_ts THEN
+    RAISE EXCEPTION 'End time must be after start time';
+  END IF;
+
+  IF (p_occurrences IS NULL) = (p_until_date IS NULL) THEN
+    RAISE EXCEPTION 'Give either a number of occurrences or an end date';
+  END IF;
+
+  IF p_occurrences IS NOT NULL AND (p_occurrences < 2 OR p_occurrences > 52) THEN
+    RAISE EXCEPTION 'A series is 2 to 52 occurrences';
+  END IF;
+
+  v_step := CASE p_frequency WHEN 'DAILY' THEN interval '1 day' ELSE interval '1 week' END;
+
+  IF p_end_ts - p_start_ts > v_step THEN
+    RAISE EXCEPTION 'Each occurrence must end before the next one starts';
+  END IF;
+
+  v_local_from := p_start_ts AT TIME ZONE 'America/Chicago';
+  v_local_to   := p_end_ts   AT TIME ZONE 'America/Chicago';
+
+  IF p_until_date IS NOT NULL AND p_until_date <= v_local_from::date THEN
+    RAISE EXCEPTION 'The series must end after the first occurrence';
+  END IF;
+
+  v_max := coalesce(p_occurrences, 52);
+
+  RETURN QUERY
+  SELECT o.n + 1,
+         o.s,
+         o.e,
+         CASE
+           WHEN o.s <= now() THEN 'PAST'
+           WHEN NOT public.unit_open_for_window(p_car_unit_id, o.s, o.e) THEN 'CLOSED'
+           WHEN public.unit_booked_during(p_car_unit_id, o.s, o.e) THEN 'BOOKED'
+           WHEN EXISTS (
+             SELECT 1 FROM public.car_blackouts bo
+              WHERE bo.car_unit_id = p_car_unit_id
+                AND bo.start_ts    < o.e
+                AND bo.end_ts      > o.s) THEN 'BLACKOUT'
+           WHEN public.unit_is_held(p_car_unit_id, o.s, o.e, p_customer_id) THEN 'HELD'
+         END,
+         public.quote_booking_price(p_car_unit_id, o.s, o.e)
+    FROM (
+      SELECT g.n,
+             (v_local_from + g.n * v_step) AT TIME ZONE 'America/Chicago' AS s,
+             (v_local_to   + g.n * v_step) AT TIME ZONE 'America/Chicago' AS e
+        FROM generate_series(0, v_max - 1) AS g(n)
+       WHERE p_until_date IS NULL
+          OR (v_local_from + g.n * v_step)::date <= p_until_date
+    ) o
+   ORDER BY o.n;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.booking_series_plan(uuid, timestamptz, timestamptz, text, int, date, uuid) FROM public, anon, authenticated;
+
+
+-- ############################################################################
+-- 7d. notify_waitlist — turnaround-aware
+-- ############################################################################
+
+CREATE OR REPLACE FUNCTION public.notify_waitlist(
+  p_car_unit_id uuid,
+  p_start_ts    timestamptz,
+  p_end_ts      timestamptz
+)
+RETURNS int
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_unit      record;
+  v_entry     public.waitlist_entries%ROWTYPE;
+  v_offered   tstzrange[] := '{}';
+  v_sender    uuid;
+  v_thread_id uuid;
+  v_notified  int := 0;
+BEGIN
+  SELECT u.id, u.business_id, u.car_model_id, u.color, u.active,
+         coalesce(u.display_name, m.display_name) AS name
+    INTO v_unit
+    FROM public.car_units u
+    JOIN public.car_models m ON m.id = u.car_model_id
+   WHERE u.id = p_car_unit_id;
+
+  IF NOT FOUND OR NOT v_unit.active OR p_end_ts <= now() THEN
+    RETURN 0;
+  END IF;
+
+  -- Messages come from the unit's business (first business user)
+  SELECT p.id INTO v_sender
+    FROM public.profiles p
+   WHERE p.business_id = v_unit.business_id
+     AND p.role = 'BUSINESS'
+   ORDER BY p.created_at
+   LIMIT 1;
+
+  FOR v_entry IN
+    SELECT *
+      FROM public.waitlist_entries w
+     WHERE w.car_model_id = v_unit.car_model_id
+       AND w.status       = 'WAITING'
+       AND w.start_ts     > now()
+       AND w.start_ts     < p_end_ts
+       AND w.end_ts       > p_start_ts
+       AND (w.color IS NULL OR lower(w.color) = lower(v_unit.color))
+     ORDER BY w.created_at
+       FOR UPDATE SKIP LOCKED
+  LOOP
+    -- Already offered this unit for an overlapping time in this pass
+    CONTINUE WHEN EXISTS (
+      SELECT 1 FROM unnest(v_offered) r
+       WHERE r && tstzrange(v_entry.start_ts, v_entry.end_ts, '[)')
+    );
+
+    -- The unit must be open and completely free for the entry's own
+    -- window, turnaround included
+    CONTINUE WHEN public.unit_booked_during(
+      p_car_unit_id, v_entry.start_ts, v_entry.end_ts);
+    CONTINUE WHEN EXISTS (
+      SELECT 1 FROM public.car_blackouts bo
+       WHERE bo.car_unit_id = p_car_unit_id
+         AND bo.start_ts    < v_entry.end_ts
+         AND bo.end_ts      > v_entry.start_ts
+    );
+    CONTINUE WHEN NOT public.unit_open_for_window(
+      p_car_unit_id, v_entry.start_ts, v_entry.end_ts);
+    CONTINUE WHEN public.unit_is_held(
+      p_car_unit_id, v_entry.start_ts, v_entry.end_ts, v_entry.customer_id);
+
+    UPDATE public.waitlist_entries
+       SET status               = 'NOTIFIED',
+           notified_at          = now(),
+           notified_car_unit_id = p_car_unit_id
+     WHERE id = v_entry.id;
+
+    v_offered := v_offered || tstzrange(v_entry.start_ts, v_entry.end_ts, '[)');
+
+    -- In-app notification
+    INSERT INTO public.message_threads (subject, created_by, business_id, customer_id)
+    VALUES (format('Waitlist: %s is available', v_unit.name),
+            coalesce(v_sender, v_entry.customer_id),
+            v_unit.business_id,
+            v_entry.customer_id)
+    RETURNING id INTO v_thread_id;
+
+    INSERT INTO public.messages (thread_id, sender_id, recipient_id, business_id, body)
+    VALUES (v_thread_id,
+            coalesce(v_sender, v_entry.customer_id),
+            v_entry.customer_id,
+            v_unit.business_id,
+            format('Good news — a %s you were waiting for is now free from %s to %s (Central Time). '
+                   'It is not reserved for you: book it from the car page before someone else does.',
+                   v_unit.name,
+                   to_char(v_entry.start_ts AT TIME ZONE 'America/Chicago', 'Mon DD, HH12:MI AM'),
+                   to_char(v_entry.end_ts   AT TIME ZONE 'America/Chicago', 'Mon DD, HH12:MI AM')));
+
+    INSERT INTO public.audit_log (actor_user_id, action, entity_type, entity_id, metadata)
+    VALUES (auth.uid(), 'waitlist.notified', 'waitlist_entry', v_entry.id,
+      jsonb_build_object(
+        'customer_id',  v_entry.customer_id,
+        'car_model_id', v_entry.car_model_id,
+        'car_unit_id',  p_car_unit_id,
+        'start_ts',     v_entry.start_ts AT TIME ZONE 'UTC',
+        'end_ts',       v_entry.end_ts   AT TIME ZONE 'UTC'
+    ));
+
+    v_notified := v_notified + 1;
+  END LOOP;
+
+  RETURN v_notified;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.notify_waitlist(uuid, timestamptz, timestamptz) FROM public, anon, authenticated;
+
+COMMENT ON FUNCTION public.notify_waitlist(uuid, timestamptz, timestamptz) IS
+  'Notifies waiting customers, in queue order, that a unit window has freed '
+  'up. Returns the number of entries notified.';
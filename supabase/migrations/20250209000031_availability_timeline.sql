@@ -0,0 +1,112 @@
+-- ============================================================================
+-- ForzaCars Rentals — Per-unit availability timeline
+-- Migration: 20250209000031_availability_timeline
+--
+-- 1. unit_busy_intervals() — every booking, turnaround, blackout and other
+--    customer's hold on the given units within a date range
+-- 2. unit_turnarounds() — effective turnaround minutes of the given units
+--
+-- Both run as owner so a customer's calendar sees everyone's bookings, but
+-- only times are returned — never who booked. Closed (operating-hours)
+-- intervals are derived from car_availability_rules, which are public.
+-- Used by /api/availability/timeline.
+-- ============================================================================
+
+
+-- ############################################################################
+-- 1. unit_busy_intervals
+-- ############################################################################
+
+CREATE OR REPLACE FUNCTION public.unit_busy_intervals(
+  p_unit_ids uuid[],
+  p_from     timestamptz,
+  p_to       timestamptz
+)
+RETURNS TABLE (
+  car_unit_id uuid,
+  kind        text,
+  start_ts    timestamptz,
+  end_ts      timestamptz
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF p_to <= p_from THEN
+    RAISE EXCEPTION 'End of range must be after its start';
+  END IF;
+
+  IF p_to - p_from > interval '31 days' THEN
+    RAISE EXCEPTION 'Range can be at most 31 days';
+  END IF;
+
+  RETURN QUERY
+  SELECT b.car_unit_id, 'BOOKING'::text, b.start_ts, b.end_ts
+    FROM public.bookings b
+   WHERE b.car_unit_id = ANY (p_unit_ids)
+     AND b.status      = 'CONFIRMED'
+     AND b.start_ts    < p_to
+     AND b.end_ts      > p_from
+  UNION ALL
+  SELECT b.car_unit_id, 'TURNAROUND'::text, b.end_ts, b.blocked_until
+    FROM public.bookings b
+   WHERE b.car_unit_id   = ANY (p_unit_ids)
+     AND b.status        = 'CONFIRMED'
+     AND b.blocked_until > b.end_ts
+     AND b.end_ts        < p_to
+     AND b.blocked_until > p_from
+  UNION ALL
+  SELECT bo.car_unit_id, 'BLACKOUT'::text, bo.start_ts, bo.end_ts
+    FROM public.car_blackouts bo
+   WHERE bo.car_unit_id = ANY (p_unit_ids)
+     AND bo.start_ts    < p_to
+     AND bo.end_ts      > p_from
+  UNION ALL
+  -- The caller's own hold never blocks them
+  SELECT h.car_unit_id, 'HOLD'::text, h.start_ts, h.end_ts
+    FROM public.booking_holds h
+   WHERE h.car_unit_id = ANY (p_unit_ids)
+     AND h.customer_id IS DISTINCT FROM auth.uid()
+     AND h.expires_at  > now()
+     AND h.start_ts    < p_to
+     AND h.end_ts      > p_from
+   ORDER BY 1, 3;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.unit_busy_intervals(uuid[], timestamptz, timestamptz) FROM public;
+GRANT EXECUTE ON FUNCTION public.unit_busy_intervals(uuid[], timestamptz, timestamptz) TO anon, authenticated;
+
+COMMENT ON FUNCTION public.unit_busy_intervals(uuid[], timestamptz, timestamptz) IS
+  'Busy intervals (BOOKING, TURNAROUND, BLACKOUT, other customers'' HOLD) of '
+  'the given units overlapping a range of at most 31 days. Times only.';
+
+
+-- ############################################################################
+-- 2. unit_turnarounds
+-- ############################################################################
+
+CREATE OR REPLACE FUNCTION public.unit_turnarounds(
+  p_unit_ids uuid[]
+)
+RETURNS TABLE (
+  car_unit_id        uuid,
+  turnaround_minutes int
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT u.id, public.unit_turnaround_minutes(u.id)
+    FROM unnest(p_unit_ids) AS u(id);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.unit_turnarounds(uuid[]) FROM public;
+GRANT EXECUTE ON FUNCTION public.unit_turnarounds(uuid[]) TO anon, authenticated;
+
+COMMENT ON FUNCTION public.unit_turnarounds(uuid[]) IS
+  'Effective turnaround minutes (unit override or business default) of the '
+  'given units — a new booking must leave this much time before the next one.';
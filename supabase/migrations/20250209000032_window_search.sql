@@ -0,0 +1,116 @@
+-- ============================================================================
+-- ForzaCars Rentals — Catalog search by rental window
+-- Migration: 20250209000032_window_search
+--
+-- 1. free_unit_count(model_id, start_ts, end_ts) — units of a model that
+--    could be booked for the window right now
+-- 2. free_unit_counts(model_ids, start_ts, end_ts) — the same for a page
+--    of models
+-- 3. car_models_free_between(start_ts, end_ts) — car_models_with_price
+--    rows with at least one free unit. Returns SETOF the view so the
+--    catalog can filter, sort, count and paginate it like the view itself.
+--
+-- A unit is free when it is active, has no booking (turnaround included),
+-- blackout or other customer's hold in the window, is open at pick-up and
+-- return, and its pricing policy allows a rental this short — the same
+-- checks create_booking makes.
+-- ============================================================================
+
+
+-- ############################################################################
+-- 1. free_unit_count
+-- ############################################################################
+
+CREATE OR REPLACE FUNCTION public.free_unit_count(
+  p_car_model_id uuid,
+  p_start_ts     timestamptz,
+  p_end_ts       timestamptz
+)
+RETURNS int
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT count(*)::int
+    FROM public.car_units u
+    JOIN public.pricing_policies pp
+      ON pp.id = public.resolve_pricing_policy_id(u.id)
+   WHERE u.car_model_id = p_car_model_id
+     AND u.active = true
+     AND p_end_ts > p_start_ts
+     AND pp.min_duration_minutes <= extract(epoch FROM (p_end_ts - p_start_ts)) / 60
+     AND NOT public.unit_booked_during(u.id, p_start_ts, p_end_ts)
+     AND NOT EXISTS (
+           SELECT 1 FROM public.car_blackouts bo
+            WHERE bo.car_unit_id = u.id
+              AND bo.start_ts < p_end_ts
+              AND bo.end_ts   > p_start_ts)
+     AND NOT public.unit_is_held(u.id, p_start_ts, p_end_ts, auth.uid())
+     AND public.unit_open_for_window(u.id, p_start_ts, p_end_ts);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.free_unit_count(uuid, timestamptz, timestamptz) FROM public;
+GRANT EXECUTE ON FUNCTION public.free_unit_count(uuid, timestamptz, timestamptz) TO anon, authenticated;
+
+COMMENT ON FUNCTION public.free_unit_count(uuid, timestamptz, timestamptz) IS
+  'Number of units of a car model that can be booked for the window: no '
+  'booking (turnaround included), blackout or other customer''s hold, open '
+  'at pick-up and return, minimum duration met. Sees all bookings.';
+
+
+-- ############################################################################
+-- 2. free_unit_counts
+-- ############################################################################
+
+CREATE OR REPLACE FUNCTION public.free_unit_counts(
+  p_car_model_ids uuid[],
+  p_start_ts      timestamptz,
+  p_end_ts        timestamptz
+)
+RETURNS TABLE (
+  car_model_id    uuid,
+  free_unit_count int
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT m.id, public.free_unit_count(m.id, p_start_ts, p_end_ts)
+    FROM unnest(p_car_model_ids) AS m(id);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.free_unit_counts(uuid[], timestamptz, timestamptz) FROM public;
+GRANT EXECUTE ON FUNCTION public.free_unit_counts(uuid[], timestamptz, timestamptz) TO anon, authenticated;
+
+COMMENT ON FUNCTION public.free_unit_counts(uuid[], timestamptz, timestamptz) IS
+  'free_unit_count() for each of the given car models.';
+
+
+-- ############################################################################
+-- 3. car_models_free_between
+--    SECURITY INVOKER like the view; the unit checks run as owner inside
+--    free_unit_count().
+-- ############################################################################
+
+CREATE OR REPLACE FUNCTION public.car_models_free_between(
+  p_start_ts timestamptz,
+  p_end_ts   timestamptz
+)
+RETURNS SETOF public.car_models_with_price
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+  SELECT v.*
+    FROM public.car_models_with_price v
+   WHERE public.free_unit_count(v.id, p_start_ts, p_end_ts) > 0;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.car_models_free_between(timestamptz, timestamptz) FROM public;
+GRANT EXECUTE ON FUNCTION public.car_models_free_between(timestamptz, timestamptz) TO anon, authenticated;
+
+COMMENT ON FUNCTION public.car_models_free_between(timestamptz, timestamptz) IS
+  'Catalog rows (car_models_with_price) with at least one unit free for the '
+  'window. Filter, order and paginate the result like the view.';
@@ -0,0 +1,543 @@
+-- ============================================================================
+-- ForzaCars Rentals — Bulk and recurring blackouts
+-- Migration: 20250209000033_blackout_batches
+--
+-- 1. blackout_batches table + car_blackouts.batch_id
+-- 2. blackout_batch_plan() — expands a request into one window per unit
+--    and occurrence
+-- 3. blackout_batch_conflicts() — confirmed bookings the plan overlaps
+-- 4. preview_blackout_batch RPC — the plan's size and its conflict report
+-- 5. create_blackout_batch RPC — inserts every blackout in one transaction
+--    and notifies, or cancels and fully refunds, the affected customers
+--
+-- A batch targets one unit, every active unit of one model, or every
+-- active unit of the business. It happens once or repeats daily / weekly
+-- in America/Chicago wall-clock time (so "Monday 06:00–09:00" stays at
+-- 06:00 across DST changes), up to 52 occurrences given as a count or an
+-- end date — the same rules as booking series.
+-- ============================================================================
+
+
+-- ############################################################################
+-- 1. blackout_batches
+-- ############################################################################
+
+CREATE TABLE IF NOT EXISTS public.blackout_batches (
+  id                    uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id           uuid NOT NULL REFERENCES public.businesses(id) ON DELETE CASCADE,
+  car_unit_id           uuid REFERENCES public.car_units(id) ON DELETE SET NULL,
+  car_model_id          uuid REFERENCES public.car_models(id) ON DELETE SET NULL,
+  frequency             text NOT NULL CHECK (frequency IN ('ONCE', 'DAILY', 'WEEKLY')),
+  first_start_ts        timestamptz NOT NULL,
+  first_end_ts          timestamptz NOT NULL,
+  occurrences_requested int CHECK (occurrences_requested BETWEEN 2 AND 52),
+  until_date            date,
+  reason                text,
+  conflict_action       text NOT NULL CHECK (conflict_action IN ('NONE', 'NOTIFY', 'REFUND')),
+  created_by            uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at            timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT blackout_batches_ts_order CHECK (first_end_ts > first_start_ts)
+);
+
+CREATE INDEX IF NOT EXISTS idx_blackout_batches_business
+  ON public.blackout_batches (business_id, created_at DESC);
+
+COMMENT ON TABLE public.blackout_batches IS
+  'Blackouts created together by create_blackout_batch (several units and/or '
+  'a repeating window).';
+
+ALTER TABLE public.car_blackouts
+  ADD COLUMN IF NOT EXISTS batch_id uuid REFERENCES public.blackout_batches(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_car_blackouts_batch
+  ON public.car_blackouts (batch_id)
+  WHERE batch_id IS NOT NULL;
+
+COMMENT ON COLUMN public.car_blackouts.batch_id IS
+  'Bulk / recurring batch this blackout was created in (NULL = single)';
+
+
+-- ---------------------------------------------------------------------------
+-- RLS: read-only from the client; writes go through the RPC.
+-- ---------------------------------------------------------------------------
+
+ALTER TABLE public.blackout_batches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "blackout_batches: business users can read own"
+  ON public.blackout_batches FOR SELECT
+  TO authenticated
+  USING (business_id = public.get_my_business_id());
+
+CREATE POLICY "blackout_batches: admins can read"
+  ON public.blackout_batches FOR SELECT
+  TO authenticated
+  USING (public.is_admin());
+
+GRANT SELECT ON public.blackout_batches TO authenticated;
+
+
+-- ############################################################################
+-- 2. blackout_batch_plan()
+--    Internal. Validates the request and returns every blackout it would
+--    create. Units are limited to p_business_id.
+-- ############################################################################
+
+CREATE OR REPLACE FUNCTION public.blackout_batch_plan(
+  p_business_id  uuid,
+  p_car_unit_id  uuid,
+  p_car_model_id uuid,
+  p_start_ts     timestamptz,
+  p_end_ts       timestamptz,
+  p_frequency    text,
+  p_occurrences  int,
+  p_until_date   date
+)
+RETURNS TABLE (
+  car_unit_id uuid,
+  occurrence  int,
+  start_ts    timestamptz,
+  end_ts      timestamptz
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_step       interval;
+  v_local_from timestamp;
+  v_local_to   timestamp;
+  v_max        int;
+  v_units      uuid[];
+BEGIN
+  -- ================================================================
+  -- 1. Window and repeat
+  -- ================================================================
+  IF p_frequency NOT IN ('ONCE', 'DAILY', 'WEEKLY') THEN
+    RAISE EXCEPTION 'Repeat must be once, daily or weekly';
+  END IF;
+
+  IF p_end_ts <= p_start_ts THEN
+    RAISE EXCEPTION 'End time must be after start time';
+  END IF;
+
+  IF p_start_ts <= now() THEN
+    RAISE EXCEPTION 'Blackouts must start in the future';
+  END IF;
+
+  IF p_frequency = 'ONCE' THEN
+    IF p_occurrences IS NOT NULL OR p_until_date IS NOT NULL THEN
+      RAISE EXCEPTION 'A one-off blackout has no repeat limit';
+    END IF;
+    v_step := interval '0';
+    v_max  := 1;
+  ELSE
+    IF (p_occurrences IS NULL) = (p_until_date IS NULL) THEN
+      RAISE EXCEPTION 'Give either a number of occurrences or an end date';
+    END IF;
+
+    IF p_occurrences IS NOT NULL AND (p_occurrences < 2 OR p_occurrences > 52) THEN
+      RAISE EXCEPTION 'A repeating blackout is 2 to 52 occurrences';
+    END IF;
+
+    v_step := CASE p_frequency WHEN 'DAILY' THEN interval '1 day' ELSE interval '1 week' END;
+
+    IF p_end_ts - p_start_ts > v_step THEN
+      RAISE EXCEPTION 'Each occurrence must end before the next one starts';
+    END IF;
+
+    v_max := coalesce(p_occurrences, 52);
+  END IF;
+
+  v_local_from := p_start_ts AT TIME ZONE 'America/Chicago';
+  v_local_to   := p_end_ts   AT TIME ZONE 'America/Chicago';
+
+  IF p_until_date IS NOT NULL AND p_until_date <= v_local_from::date THEN
+    RAISE EXCEPTION 'The repeat must end after the first occurrence';
+  END IF;
+
+  -- ================================================================
+  -- 2. Units: one unit, a model's active units, or all active units
+  -- ================================================================
+  IF p_car_unit_id IS NOT NULL THEN
+    SELECT array_agg(u.id) INTO v_units
+      FROM public.car_units u
+     WHERE u.id = p_car_unit_id
+       AND u.business_id = p_business_id;
+
+    IF v_units IS NULL THEN
+      RAISE EXCEPTION 'Car unit not found or not owned by your business';
+    END IF;
+  ELSE
+    SELECT array_agg(u.id) INTO v_units
+      FROM public.car_units u
+     WHERE u.business_id = p_business_id
+       AND u.active = true
+       AND (p_car_model_id IS NULL OR u.car_model_id = p_car_model_id);
+
+    IF v_units IS NULL THEN
+      RAISE EXCEPTION 'No active units to black out';
+    END IF;
+  END IF;
+
+  IF cardinality(v_units) * v_max > 1000 THEN
+    RAISE EXCEPTION 'That would create more than 1000 blackouts — choose fewer units or occurrences';
+  END IF;
+
+  -- ================================================================
+  -- 3. One row per unit and occurrence
+  -- ================================================================
+  RETURN QUERY
+  SELECT u.id,
+         o.n + 1,
+         o.s,
+         o.e
+    FROM unnest(v_units) AS u(id)
+   CROSS JOIN (
+      SELECT g.n,
+             (v_local_from + g.n * v_step) AT TIME ZONE 'America/Chicago' AS s,
+             (v_local_to   + g.n * v_step) AT TIME ZONE 'America/Chicago' AS e
+        FROM generate_series(0, v_max - 1) AS g(n)
+       WHERE p_until_date IS NULL
+          OR (v_local_from + g.n * v_step)::date <= p_until_date
+    ) o
+   ORDER BY o.n, u.id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.blackout_batch_plan(uuid, uuid, uuid, timestamptz, timestamptz, text, int, date) FROM public, anon, authenticated;
+
+COMMENT ON FUNCTION public.blackout_batch_plan(uuid, uuid, uuid, timestamptz, timestamptz, text, int, date) IS
+  'Expands a bulk / recurring blackout request into one window per unit and '
+  'occurrence. Raises on invalid input.';
+
+
+-- ############################################################################
+-- 3. blackout_batch_conflicts()
+--    Internal. Each confirmed booking overlapping any planned window, once.
+--    Turnaround after a booking is not a conflict — the car is back.
+-- ############################################################################
+
+CREATE OR REPLACE FUNCTION public.blackout_batch_conflicts(
+  p_business_id  uuid,
+  p_car_unit_id  uuid,
+  p_car_model_id uuid,
+  p_start_ts     timestamptz,
+  p_end_ts       timestamptz,
+  p_frequency    text,
+  p_occurrences  int,
+  p_until_date   date
+)
+RETURNS TABLE (
+  booking_id      uuid,
+  customer_id     uuid,
+  customer_email  text,
+  car_unit_id     uuid,
+  unit_name       text,
+  start_ts        timestamptz,
+  end_ts          timestamptz,
+  credits_charged int
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT b.id,
+         b.customer_id,
+         pr.email,
+         b.car_unit_id,
+         coalesce(u.display_name, m.display_name),
+         b.start_ts,
+         b.end_ts,
+         b.credits_charged
+    FROM public.bookings b
+    JOIN public.car_units u  ON u.id = b.car_unit_id
+    JOIN public.car_models m ON m.id = u.car_model_id
+    JOIN public.profiles pr  ON pr.id = b.customer_id
+   WHERE b.status = 'CONFIRMED'
+     AND EXISTS (
+           SELECT 1
+             FROM public.blackout_batch_plan(p_business_id, p_car_unit_id, p_car_model_id,
+                    p_start_ts, p_end_ts, p_frequency, p_occurrences, p_until_date) p
+            WHERE p.car_unit_id = b.car_unit_id
+              AND p.start_ts    < b.end_ts
+              AND p.end_ts      > b.start_ts)
+   ORDER BY b.start_ts, b.id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.blackout_batch_conflicts(uuid, uuid, uuid, timestamptz, timestamptz, text, int, date) FROM public, anon, authenticated;
+
+COMMENT ON FUNCTION public.blackout_batch_conflicts(uuid, uuid, uuid, timestamptz, timestamptz, text, int, date) IS
+  'Confirmed bookings that a planned blackout batch would overlap.';
+
+
+-- ############################################################################
+-- 4. preview_blackout_batch
+--    Called by BUSINESS users before creating a batch.
+-- ############################################################################
+
+CREATE OR REPLACE FUNCTION public.preview_blackout_batch(
+  p_car_unit_id  uuid,
+  p_car_model_id uuid,
+  p_start_ts     timestamptz,
+  p_end_ts       timestamptz,
+  p_frequency    text,
+  p_occurrences  int  DEFAULT NULL,
+  p_until_date   date DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_business_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT business_id INTO v_business_id
+    FROM public.profiles
+   WHERE id = auth.uid() AND role = 'BUSINESS';
+
+  IF v_business_id IS NULL THEN
+    RAISE EXCEPTION 'Only business users with an assigned business can create blackouts';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'units', (
+      SELECT count(DISTINCT p.car_unit_id)
+        FROM public.blackout_batch_plan(v_business_id, p_car_unit_id, p_car_model_id,
+               p_start_ts, p_end_ts, p_frequency, p_occurrences, p_until_date) p),
+    'occurrences', (
+      SELECT coalesce(max(p.occurrence), 0)
+        FROM public.blackout_batch_plan(v_business_id, p_car_unit_id, p_car_model_id,
+               p_start_ts, p_end_ts, p_frequency, p_occurrences, p_until_date) p),
+    'blackouts', (
+      SELECT count(*)
+        FROM public.blackout_batch_plan(v_business_id, p_car_unit_id, p_car_model_id,
+               p_start_ts, p_end_ts, p_frequency, p_occurrences, p_until_date) p),
+    'conflicts', coalesce((
+      SELECT jsonb_agg(jsonb_build_object(
+               'booking_id',      c.booking_id,
+               'customer_email',  c.customer_email,
+               'car_unit_id',     c.car_unit_id,
+               'unit_name',       c.unit_name,
+               'start_ts',        c.start_ts,
+               'end_ts',          c.end_ts,
+               'credits_charged', c.credits_charged
+             ) ORDER BY c.start_ts)
+        FROM public.blackout_batch_conflicts(v_business_id, p_car_unit_id, p_car_model_id,
+               p_start_ts, p_end_ts, p_frequency, p_occurrences, p_until_date) c
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.preview_blackout_batch(uuid, uuid, timestamptz, timestamptz, text, int, date) FROM public;
+GRANT EXECUTE ON FUNCTION public.preview_blackout_batch(uuid, uuid, timestamptz, timestamptz, text, int, date) TO authenticated;
+
+COMMENT ON FUNCTION public.preview_blackout_batch(uuid, uuid, timestamptz, timestamptz, text, int, date) IS
+  'How many blackouts a bulk / recurring request would create and the '
+  'confirmed bookings it would overlap (the conflict report).';
+
+
+-- ############################################################################
+-- 5. create_blackout_batch
+--    Called by BUSINESS users. p_conflict_action decides what happens to
+--    overlapping confirmed bookings:
+--      NONE   — nothing; they stay booked
+--      NOTIFY — the customer gets an in-app message; they stay booked
+--      REFUND — canceled with a full refund and an in-app message
+-- ############################################################################
+
+CREATE OR REPLACE FUNCTION public.create_blackout_batch(
+  p_car_unit_id     uuid,
+  p_car_model_id    uuid,
+  p_start_ts        timestamptz,
+  p_end_ts          timestamptz,
+  p_frequency       text,
+  p_occurrences     int  DEFAULT NULL,
+  p_until_date      date DEFAULT NULL,
+  p_reason          text DEFAULT NULL,
+  p_conflict_action text DEFAULT 'NONE'
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_uid         uuid;
+  v_business_id uuid;
+  v_reason      text;
+  v_batch_id    uuid;
+  v_created     int;
+  v_conflict    record;
+  v_canceled    boolean;
+  v_thread_id   uuid;
+  v_affected    jsonb := '[]'::jsonb;
+  v_notified    int := 0;
+  v_refunded    int := 0;
+  v_refund_sum  int := 0;
+BEGIN
+  -- ================================================================
+  -- 1. Auth: caller must be a BUSINESS user with a business_id
+  -- ================================================================
+  v_uid := auth.uid();
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT business_id INTO v_business_id
+    FROM public.profiles
+   WHERE id = v_uid AND role = 'BUSINESS';
+
+  IF v_business_id IS NULL THEN
+    RAISE EXCEPTION 'Only business users with an assigned business can create blackouts';
+  END IF;
+
+  IF p_conflict_action NOT IN ('NONE', 'NOTIFY', 'REFUND') THEN
+    RAISE EXCEPTION 'Invalid action for overlapping bookings';
+  END IF;
+
+  v_reason := nullif(btrim(p_reason), '');
+
+  -- ================================================================
+  -- 2. Batch + blackouts (the plan validates the request)
+  -- ================================================================
+  INSERT INTO public.blackout_batches (
+    business_id, car_unit_id, car_model_id, frequency,
+    first_start_ts, first_end_ts, occurrences_requested, until_date,
+    reason, conflict_action, created_by
+  ) VALUES (
+    v_business_id, p_car_unit_id, p_car_model_id, p_frequency,
+    p_start_ts, p_end_ts, p_occurrences, p_until_date,
+    v_reason, p_conflict_action, v_uid
+  )
+  RETURNING id INTO v_batch_id;
+
+  INSERT INTO public.car_blackouts (car_unit_id, start_ts, end_ts, reason, batch_id)
+  SELECT p.car_unit_id, p.start_ts, p.end_ts, v_reason, v_batch_id
+    FROM public.blackout_batch_plan(v_business_id, p_car_unit_id, p_car_model_id,
+           p_start_ts, p_end_ts, p_frequency, p_occurrences, p_until_date) p;
+
+  GET DIAGNOSTICS v_created = ROW_COUNT;
+
+  -- ================================================================
+  -- 3. Overlapping bookings
+  -- ================================================================
+  FOR v_conflict IN
+    SELECT *
+      FROM public.blackout_batch_conflicts(v_business_id, p_car_unit_id, p_car_model_id,
+             p_start_ts, p_end_ts, p_frequency, p_occurrences, p_until_date)
+  LOOP
+    v_canceled := false;
+
+    IF p_conflict_action = 'REFUND' THEN
+      UPDATE public.bookings
+         SET status = 'CANCELED'
+       WHERE id = v_conflict.booking_id
+         AND status = 'CONFIRMED';
+      v_canceled := FOUND;
+
+      IF v_canceled THEN
+        IF v_conflict.credits_charged > 0 THEN
+          INSERT INTO public.credit_ledger (user_id, delta, reason, related_booking_id)
+          VALUES (v_conflict.customer_id, v_conflict.credits_charged,
+                  'Refund: booking canceled for a blackout', v_conflict.booking_id);
+        END IF;
+
+        INSERT INTO public.audit_log (actor_user_id, action, entity_type, entity_id, metadata)
+        VALUES (v_uid, 'booking.canceled', 'booking', v_conflict.booking_id,
+          jsonb_build_object(
+            'refund_credits',    v_conflict.credits_charged,
+            'refund_pct',        1,
+            'car_unit_id',       v_conflict.car_unit_id,
+            'blackout_batch_id', v_batch_id,
+            'canceled_by',       'business'
+        ));
+
+        v_refunded   := v_refunded + 1;
+        v_refund_sum := v_refund_sum + v_conflict.credits_charged;
+      END IF;
+    END IF;
+
+    IF p_conflict_action = 'NOTIFY' OR v_canceled THEN
+      INSERT INTO public.message_threads (subject, created_by, business_id, customer_id)
+      VALUES (CASE WHEN v_canceled
+                   THEN format('Booking canceled: %s', v_conflict.unit_name)
+                   ELSE format('Heads-up about your %s booking', v_conflict.unit_name) END,
+              v_uid, v_business_id, v_conflict.customer_id)
+      RETURNING id INTO v_thread_id;
+
+      INSERT INTO public.messages (thread_id, sender_id, recipient_id, business_id, body)
+      VALUES (v_thread_id, v_uid, v_conflict.customer_id, v_business_id,
+        CASE WHEN v_canceled THEN
+          format('Your booking of the %s from %s to %s (Central Time) was canceled because the car is '
+                 'unavailable%s. All %s credits have been refunded to your wallet.',
+                 v_conflict.unit_name,
+                 to_char(v_conflict.start_ts AT TIME ZONE 'America/Chicago', 'Mon DD, HH12:MI AM'),
+                 to_char(v_conflict.end_ts   AT TIME ZONE 'America/Chicago', 'Mon DD, HH12:MI AM'),
+                 coalesce(format(' (%s)', v_reason), ''),
+                 v_conflict.credits_charged)
+        ELSE
+          format('The %s you booked from %s to %s (Central Time) is scheduled to be unavailable for '
+                 'part of that time%s. Your booking is still confirmed — reply here to sort out '
+                 'another time or car.',
+                 v_conflict.unit_name,
+                 to_char(v_conflict.start_ts AT TIME ZONE 'America/Chicago', 'Mon DD, HH12:MI AM'),
+                 to_char(v_conflict.end_ts   AT TIME ZONE 'America/Chicago', 'Mon DD, HH12:MI AM'),
+                 coalesce(format(' (%s)', v_reason), ''))
+        END);
+
+      IF NOT v_canceled THEN
+        v_notified := v_notified + 1;
+      END IF;
+    END IF;
+
+    v_affected := v_affected || jsonb_build_object(
+      'booking_id',      v_conflict.booking_id,
+      'customer_email',  v_conflict.customer_email,
+      'credits_charged', v_conflict.credits_charged,
+      'canceled',        v_canceled
+    );
+  END LOOP;
+
+  -- ================================================================
+  -- 4. Audit log
+  -- ================================================================
+  INSERT INTO public.audit_log (actor_user_id, action, entity_type, entity_id, metadata)
+  VALUES (v_uid, 'blackout_batch.created', 'blackout_batch', v_batch_id,
+    jsonb_build_object(
+      'business_id',     v_business_id,
+      'car_unit_id',     p_car_unit_id,
+      'car_model_id',    p_car_model_id,
+      'frequency',       p_frequency,
+      'blackouts',       v_created,
+      'conflicts',       jsonb_array_length(v_affected),
+      'conflict_action', p_conflict_action,
+      'refund_credits',  v_refund_sum
+  ));
+
+  RETURN jsonb_build_object(
+    'batch_id',       v_batch_id,
+    'blackouts',      v_created,
+    'conflicts',      v_affected,
+    'notified',       v_notified,
+    'refunded',       v_refunded,
+    'refund_credits', v_refund_sum
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_blackout_batch(uuid, uuid, timestamptz, timestamptz, text, int, date, text, text) FROM public;
+GRANT EXECUTE ON FUNCTION public.create_blackout_batch(uuid, uuid, timestamptz, timestamptz, text, int, date, text, text) TO authenticated;
+
+COMMENT ON FUNCTION public.create_blackout_batch(uuid, uuid, timestamptz, timestamptz, text, int, date, text, text) IS
+  'Creates blackouts for one unit, a model''s units or the whole fleet, once '
+  'or repeating, and leaves, notifies or cancels + refunds the confirmed '
+  'bookings they overlap.';
@@ -0,0 +1,151 @@
+-- ============================================================================
+-- ForzaCars Rentals — Business-initiated booking cancellation
+-- Migration: 20250209000034_business_cancel_booking
+--
+-- 1. business_cancel_booking(booking_id, reason) RPC
+--
+-- cancel_booking() is for the customer (or an admin) and refunds by the
+-- booking's cancellation policy. When the business cancels — the car broke
+-- down, failed inspection — the customer did nothing wrong, so the refund
+-- is always 100%. A reason is required; it goes to the customer in an
+-- in-app message (the app also emails it) and into the audit log as
+-- booking.canceled_by_business.
+-- ============================================================================
+
+
+-- ############################################################################
+-- 1. business_cancel_booking
+--    Called by BUSINESS users for bookings on their own units.
+-- ############################################################################
+
+CREATE OR REPLACE FUNCTION public.business_cancel_booking(
+  p_booking_id uuid,
+  p_reason     text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_uid         uuid;
+  v_business_id uuid;
+  v_reason      text;
+  v_booking     record;
+  v_thread_id   uuid;
+BEGIN
+  -- ================================================================
+  -- 1. Auth: caller must be a BUSINESS user with a business_id
+  -- ================================================================
+  v_uid := auth.uid();
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT business_id INTO v_business_id
+    FROM public.profiles
+   WHERE id = v_uid AND role = 'BUSINESS';
+
+  IF v_business_id IS NULL THEN
+    RAISE EXCEPTION 'Only business users with an assigned business can cancel bookings';
+  END IF;
+
+  v_reason := nullif(btrim(p_reason), '');
+  IF v_reason IS NULL THEN
+    RAISE EXCEPTION 'Give the customer a reason for the cancellation';
+  END IF;
+  IF length(v_reason) > 500 THEN
+    RAISE EXCEPTION 'Reason must be 500 characters or fewer';
+  END IF;
+
+  -- ================================================================
+  -- 2. Lock the booking; it must be on one of the business's units
+  -- ================================================================
+  SELECT b.*, u.business_id AS unit_business_id,
+         coalesce(u.display_name, m.display_name) AS unit_name,
+         pr.email AS customer_email
+    INTO v_booking
+    FROM public.bookings b
+    JOIN public.car_units u  ON u.id = b.car_unit_id
+    JOIN public.car_models m ON m.id = u.car_model_id
+    JOIN public.profiles pr  ON pr.id = b.customer_id
+   WHERE b.id = p_booking_id
+     FOR UPDATE OF b;
+
+  IF NOT FOUND OR v_booking.unit_business_id <> v_business_id THEN
+    RAISE EXCEPTION 'Booking not found or not for one of your units';
+  END IF;
+
+  IF v_booking.status = 'CANCELED' THEN
+    RAISE EXCEPTION 'Booking is already canceled';
+  END IF;
+
+  IF v_booking.end_ts <= now() THEN
+    RAISE EXCEPTION 'This booking has already ended';
+  END IF;
+
+  -- ================================================================
+  -- 3. Cancel + full refund
+  -- ================================================================
+  UPDATE public.bookings
+     SET status = 'CANCELED'
+   WHERE id = p_booking_id;
+
+  IF v_booking.credits_charged > 0 THEN
+    INSERT INTO public.credit_ledger (user_id, delta, reason, related_booking_id)
+    VALUES (v_booking.customer_id, v_booking.credits_charged,
+            'Refund: canceled by the business (100%)', p_booking_id);
+  END IF;
+
+  -- ================================================================
+  -- 4. Tell the customer in-app
+  -- ================================================================
+  INSERT INTO public.message_threads (subject, created_by, business_id, customer_id)
+  VALUES (format('Booking canceled: %s', v_booking.unit_name),
+          v_uid, v_business_id, v_booking.customer_id)
+  RETURNING id INTO v_thread_id;
+
+  INSERT INTO public.messages (thread_id, sender_id, recipient_id, business_id, body)
+  VALUES (v_thread_id, v_uid, v_booking.customer_id, v_business_id,
+    format('We''re sorry — we had to cancel your booking of the %s from %s to %s (Central Time). '
+           'Reason: %s. All %s credits have been refunded to your wallet. Reply here if you '
+           'have any questions.',
+           v_booking.unit_name,
+           to_char(v_booking.start_ts AT TIME ZONE 'America/Chicago', 'Mon DD, HH12:MI AM'),
+           to_char(v_booking.end_ts   AT TIME ZONE 'America/Chicago', 'Mon DD, HH12:MI AM'),
+           v_reason,
+           v_booking.credits_charged));
+
+  -- ================================================================
+  -- 5. Audit log
+  -- ================================================================
+  INSERT INTO public.audit_log (actor_user_id, action, entity_type, entity_id, metadata)
+  VALUES (v_uid, 'booking.canceled_by_business', 'booking', p_booking_id,
+    jsonb_build_object(
+      'business_id',    v_business_id,
+      'customer_id',    v_booking.customer_id,
+      'car_unit_id',    v_booking.car_unit_id,
+      'refund_credits', v_booking.credits_charged,
+      'refund_pct',     1,
+      'reason',         v_reason,
+      'thread_id',      v_thread_id
+  ));
+
+  RETURN jsonb_build_object(
+    'booking_id',     p_booking_id,
+    'status',         'CANCELED',
+    'refund',         v_booking.credits_charged,
+    'customer_email', v_booking.customer_email,
+    'unit_name',      v_booking.unit_name,
+    'start_ts',       v_booking.start_ts,
+    'end_ts',         v_booking.end_ts
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.business_cancel_booking(uuid, text) FROM public;
+GRANT EXECUTE ON FUNCTION public.business_cancel_booking(uuid, text) TO authenticated;
+
+COMMENT ON FUNCTION public.business_cancel_booking(uuid, text) IS
+  'Cancels a booking on one of the caller''s units with a full refund, '
+  'messages the customer the reason and audits booking.canceled_by_business.';
@@ -0,0 +1,462 @@
+-- ============================================================================
+-- ForzaCars Rentals — Reassign bookings when a unit is deactivated
+-- Migration: 20250209000035_unit_reassignment
+--
+-- 1. booking_reassignments table — one row per affected booking: moved to
+--    another unit, or canceled with a full refund
+-- 2. reassign_unit_bookings(unit_id) — moves each upcoming confirmed
+--    booking of a unit to an equivalent free unit, else cancels + refunds
+-- 3. Trigger: a unit going from active to inactive runs it, whichever
+--    path deactivated it (/biz/cars, /biz/inventory, business_adjust_quantity)
+-- 4. business_adjust_quantity — reducing a model's quantity now
+--    deactivates the units with the fewest upcoming bookings instead of
+--    refusing when every candidate has one
+--
+-- An equivalent unit is another active unit of the same model and
+-- business that is free for the whole booking — no booking (turnaround
+-- included), blackout or other customer's hold, open at pick-up and
+-- return. Same color is preferred, then an equal or lower rate, then the
+-- closest rate. The booking keeps its times and price. Bookings already
+-- under way are left alone: the customer has the car.
+--
+-- Customers get an in-app message here; the app emails them for rows
+-- whose email_sent_at is still NULL (src/lib/reassignment.ts) and shows the
+-- business the outcome.
+-- ============================================================================
+
+
+-- ############################################################################
+-- 1. booking_reassignments
+-- ############################################################################
+
+CREATE TABLE IF NOT EXISTS public.booking_reassignments (
+  id               uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id       uuid NOT NULL REFERENCES public.bookings(id) ON DELETE CASCADE,
+  business_id      uuid NOT NULL REFERENCES public.businesses(id) ON DELETE CASCADE,
+  customer_id      uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  from_car_unit_id uuid REFERENCES public.car_units(id) ON DELETE SET NULL,
+  to_car_unit_id   uuid REFERENCES public.car_units(id) ON DELETE SET NULL,
+  outcome          text NOT NULL CHECK (outcome IN ('REASSIGNED', 'CANCELED')),
+  refund_credits   int NOT NULL DEFAULT 0 CHECK (refund_credits >= 0),
+  email_sent_at    timestamptz,
+  created_at       timestamptz NOT NULL DEFAULT now(),
+  -- Only moved bookings have a target unit
+  CONSTRAINT booking_reassignments_target CHECK (
+    outcome = 'REASSIGNED' OR to_car_unit_id IS NULL
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_reassignments_business
+  ON public.booking_reassignments (business_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_booking_reassignments_unsent
+  ON public.booking_reassignments (created_at)
+  WHERE email_sent_at IS NULL;
+
+COMMENT ON TABLE public.booking_reassignments IS
+  'What happened to each upcoming booking of a deactivated unit: moved to '
+  'an equivalent unit or canceled with a full refund.';
+
+
+-- ---------------------------------------------------------------------------
+-- RLS: read-only from the client; rows are written by the trigger.
+-- ---------------------------------------------------------------------------
+
+ALTER TABLE public.booking_reassignments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "booking_reassignments: business users can read own"
+  ON public.booking_reassignments FOR SELECT
+  TO authenticated
+  USING (business_id = public.get_my_business_id());
+
+CREATE POLICY "booking_reassignments: customers can read own"
+  ON public.booking_reassignments FOR SELECT
+  TO authenticated
+  USING (customer_id = auth.uid());
+
+CREATE POLICY "booking_reassignments: admins can read"
+  ON public.booking_reassignments FOR SELECT
+  TO authenticated
+  USING (public.is_admin());
+
+GRANT SELECT ON public.booking_reassignments TO authenticated;
+
+
+-- ############################################################################
+-- 2. reassign_unit_bookings
+--    Internal. Returns the number of bookings handled.
+-- ############################################################################
+
+CREATE OR REPLACE FUNCTION public.reassign_unit_bookings(
+  p_car_unit_id uuid
+)
+RETURNS int
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_unit      record;
+  v_booking   public.bookings%ROWTYPE;
+  v_target    record;
+  v_sender    uuid;
+  v_thread_id uuid;
+  v_when      text;
+  v_handled   int := 0;
+BEGIN
+  SELECT u.id, u.business_id, u.car_model_id, u.color,
+         coalesce(u.credits_per_hour, m.suggested_credits_per_hour) AS rate,
+         coalesce(u.display_name, m.display_name) AS name
+    INTO v_unit
+    FROM public.car_units u
+    JOIN public.car_models m ON m.id = u.car_model_id
+   WHERE u.id = p_car_unit_id;
+
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  -- Messages come from the acting business user, else the first one
+  SELECT p.id INTO v_sender
+    FROM public.profiles p
+   WHERE p.business_id = v_unit.business_id
+     AND p.role = 'BUSINESS'
+   ORDER BY (p.id = auth.uid()) DESC, p.created_at
+   LIMIT 1;
+
+  FOR v_booking IN
+    SELECT *
+      FROM public.bookings b
+     WHERE b.car_unit_id = p_car_unit_id
+       AND b.status      = 'CONFIRMED'
+       AND b.start_ts    > now()
+     ORDER BY b.start_ts
+       FOR UPDATE
+  LOOP
+    v_when := format('%s to %s (Central Time)',
+      to_char(v_booking.start_ts AT TIME ZONE 'America/Chicago', 'Mon DD, HH12:MI AM'),
+      to_char(v_booking.end_ts   AT TIME ZONE 'America/Chicago', 'Mon DD, HH12:MI AM'));
+
+    -- ==============================================================
+    -- Best equivalent unit that is free for the whole booking
+    -- ==============================================================
+    SELECT u.id, u.color,
+           coalesce(u.display_name, m.display_name) AS name
+      INTO v_target
+      FROM public.car_units u
+      JOIN public.car_models m ON m.id = u.car_model_id
+     WHERE u.car_model_id = v_unit.car_model_id
+       AND u.business_id  = v_unit.business_id
+       AND u.id          <> p_car_unit_id
+       AND u.active       = true
+       AND NOT public.unit_booked_during(u.id, v_booking.start_ts, v_booking.end_ts)
+       AND NOT EXISTS (
+             SELECT 1 FROM public.car_blackouts bo
+              WHERE bo.car_unit_id = u.id
+                AND bo.start_ts    < v_booking.end_ts
+                AND bo.end_ts      > v_booking.start_ts)
+       AND NOT public.unit_is_held(u.id, v_booking.start_ts, v_booking.end_ts, v_booking.customer_id)
+       AND public.unit_open_for_window(u.id, v_booking.start_ts, v_booking.end_ts)
+     ORDER BY (lower(u.color) IS NOT DISTINCT FROM lower(v_unit.color)) DESC,
+              coalesce(coalesce(u.credits_per_hour, m.suggested_credits_per_hour) <= v_unit.rate, false) DESC,
+              abs(coalesce(u.credits_per_hour, m.suggested_credits_per_hour) - v_unit.rate),
+              u.created_at
+     LIMIT 1;
+
+    IF FOUND THEN
+      -- Same times and price; blocked_until follows the new unit's turnaround
+      UPDATE public.bookings
+         SET car_unit_id = v_target.id
+       WHERE id = v_booking.id;
+
+      INSERT INTO public.booking_reassignments
+             (booking_id, business_id, customer_id, from_car_unit_id, to_car_unit_id, outcome)
+      VALUES (v_booking.id, v_unit.business_id, v_booking.customer_id,
+              p_car_unit_id, v_target.id, 'REASSIGNED');
+
+      INSERT INTO public.message_threads (subject, created_by, business_id, customer_id)
+      VALUES (format('Your %s booking moved to another car', v_unit.name),
+              coalesce(v_sender, v_booking.customer_id), v_unit.business_id, v_booking.customer_id)
+      RETURNING id INTO v_thread_id;
+
+      INSERT INTO public.messages (thread_id, sender_id, recipient_id, business_id, body)
+      VALUES (v_thread_id, coalesce(v_sender, v_booking.customer_id), v_booking.customer_id,
+              v_unit.business_id,
+              format('The car you booked for %s is no longer available, so we moved your booking to '
+                     'an equivalent %s%s. Your times and price are unchanged.',
+                     v_when,
+                     v_target.name,
+                     coalesce(format(' (%s)', v_target.color), '')));
+
+      INSERT INTO public.audit_log (actor_user_id, action, entity_type, entity_id, metadata)
+      VALUES (auth.uid(), 'booking.reassigned', 'booking', v_booking.id,
+        jsonb_build_object(
+          'customer_id',      v_booking.customer_id,
+          'from_car_unit_id', p_car_unit_id,
+          'to_car_unit_id',   v_target.id,
+          'same_color',       lower(v_target.color) IS NOT DISTINCT FROM lower(v_unit.color)
+      ));
+    ELSE
+      -- ==============================================================
+      -- Nothing equivalent is free: cancel with a full refund
+      -- ==============================================================
+      UPDATE public.bookings
+         SET status = 'CANCELED'
+       WHERE id = v_booking.id;
+
+      IF v_booking.credits_charged > 0 THEN
+        INSERT INTO public.credit_ledger (user_id, delta, reason, related_booking_id)
+        VALUES (v_booking.customer_id, v_booking.credits_charged,
+                'Refund: car no longer available (100%)', v_booking.id);
+      END IF;
+
+      INSERT INTO public.booking_reassignments
+             (booking_id, business_id, customer_id, from_car_unit_id, outcome, refund_credits)
+      VALUES (v_booking.id, v_unit.business_id, v_booking.customer_id,
+              p_car_unit_id, 'CANCELED', v_booking.credits_charged);
+
+      INSERT INTO public.message_threads (subject, created_by, business_id, customer_id)
+      VALUES (format('Booking canceled: %s', v_unit.name),
+              coalesce(v_sender, v_booking.customer_id), v_unit.business_id, v_booking.customer_id)
+      RETURNING id INTO v_thread_id;
+
+      INSERT INTO public.messages (thread_id, sender_id, recipient_id, business_id, body)
+      VALUES (v_thread_id, coalesce(v_sender, v_booking.customer_id), v_booking.customer_id,
+              v_unit.business_id,
+              format('We''re sorry — the %s you booked for %s is no longer available and no '
+                     'equivalent car is free then, so your booking was canceled. All %s credits '
+                     'have been refunded to your wallet.',
+                     v_unit.name, v_when, v_booking.credits_charged));
+
+      INSERT INTO public.audit_log (actor_user_id, action, entity_type, entity_id, metadata)
+      VALUES (auth.uid(), 'booking.canceled_by_business', 'booking', v_booking.id,
+        jsonb_build_object(
+          'business_id',    v_unit.business_id,
+          'customer_id',    v_booking.customer_id,
+          'car_unit_id',    p_car_unit_id,
+          'refund_credits', v_booking.credits_charged,
+          'refund_pct',     1,
+          'reason',         'Unit deactivated; no equivalent unit free',
+          'thread_id',      v_thread_id
+      ));
+    END IF;
+
+    v_handled := v_handled + 1;
+  END LOOP;
+
+  RETURN v_handled;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reassign_unit_bookings(uuid) FROM public, anon, authenticated;
+
+COMMENT ON FUNCTION public.reassign_unit_bookings(uuid) IS
+  'Moves each upcoming confirmed booking of a unit to an equivalent free '
+  'unit (same model; same color, then equal or lower rate preferred), or '
+  'cancels it with a full refund. Records booking_reassignments rows.';
+
+
+-- ############################################################################
+-- 3. Trigger: deactivating a unit
+-- ############################################################################
+
+CREATE OR REPLACE FUNCTION public.handle_unit_deactivated()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  PERFORM public.reassign_unit_bookings(NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_unit_deactivated_reassign ON public.car_units;
+CREATE TRIGGER on_unit_deactivated_reassign
+  AFTER UPDATE OF active ON public.car_units
+  FOR EACH ROW
+  WHEN (OLD.active = true AND NEW.active = false)
+  EXECUTE FUNCTION public.handle_unit_deactivated();
+
+
+-- ############################################################################
+-- 4. business_adjust_quantity — deactivate the least-booked units
+--    Unchanged apart from step 3's DECREASING branch.
+-- ############################################################################
+
+CREATE OR REPLACE FUNCTION public.business_adjust_quantity(
+  p_car_model_id uuid,
+  p_new_qty      int
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_uid            uuid;
+  v_role           text;
+  v_business_id    uuid;
+  v_current_qty    int;
+  v_active_units   uuid[];
+  v_units_to_add   int;
+  v_units_to_remove int;
+  v_sample_unit    record;
+  v_new_id         uuid;
+  v_added_ids      uuid[] := '{}';
+  v_removed_ids    uuid[] := '{}';
+  v_unit_id        uuid;
+BEGIN
+  -- ==================================================================
+  -- 1. Authenticate & authorise (BUSINESS only)
+  -- ==================================================================
+  v_uid := auth.uid();
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT role, business_id
+    INTO STRICT v_role, v_business_id
+    FROM public.profiles
+   WHERE id = v_uid;
+
+  IF v_role IS DISTINCT FROM 'BUSINESS' THEN
+    RAISE EXCEPTION 'Only business users can manage fleet';
+  END IF;
+
+  IF v_business_id IS NULL THEN
+    RAISE EXCEPTION 'Business user must be associated with a business';
+  END IF;
+
+  -- ==================================================================
+  -- 2. Validate inputs
+  -- ==================================================================
+  IF p_new_qty < 0 OR p_new_qty > 100 THEN
+    RAISE EXCEPTION 'Quantity must be between 0 and 100';
+  END IF;
+
+  -- Get current active units for this model
+  SELECT array_agg(id), count(*)::int
+    INTO v_active_units, v_current_qty
+    FROM public.car_units
+   WHERE business_id = v_business_id
+     AND car_model_id = p_car_model_id
+     AND active = true;
+
+  v_current_qty := COALESCE(v_current_qty, 0);
+  v_active_units := COALESCE(v_active_units, '{}');
+
+  IF v_current_qty = 0 AND p_new_qty > 0 THEN
+    RAISE EXCEPTION 'Model not in fleet. Use add model to fleet first.';
+  END IF;
+
+  IF p_new_qty = v_current_qty THEN
+    RETURN jsonb_build_object(
+      'car_model_id', p_car_model_id,
+      'previous_qty', v_current_qty,
+      'new_qty', p_new_qty,
+      'added_ids', '[]'::jsonb,
+      'removed_ids', '[]'::jsonb,
+      'message', 'No change needed'
+    );
+  END IF;
+
+  -- ==================================================================
+  -- 3. Adjust quantity
+  -- ==================================================================
+
+  IF p_new_qty > v_current_qty THEN
+    -- INCREASING: Add new units
+    v_units_to_add := p_new_qty - v_current_qty;
+
+    -- Get a sample unit to copy color from
+    SELECT * INTO v_sample_unit
+      FROM public.car_units
+     WHERE business_id = v_business_id
+       AND car_model_id = p_car_model_id
+       AND active = true
+     LIMIT 1;
+
+    FOR v_i IN 1..v_units_to_add LOOP
+      INSERT INTO public.car_units (
+        business_id,
+        car_model_id,
+        color,
+        color_hex,
+        credits_per_hour,
+        active
+      ) VALUES (
+        v_business_id,
+        p_car_model_id,
+        COALESCE(v_sample_unit.color, 'Unspecified'),
+        v_sample_unit.color_hex,
+        v_sample_unit.credits_per_hour,
+        true
+      )
+      RETURNING id INTO v_new_id;
+
+      v_added_ids := v_added_ids || v_new_id;
+    END LOOP;
+
+  ELSE
+    -- DECREASING: Deactivate units (never delete, just set active=false),
+    -- fewest upcoming bookings first. The deactivation trigger moves
+    -- their bookings to the remaining units or cancels + refunds them.
+    v_units_to_remove := v_current_qty - p_new_qty;
+
+    FOR v_unit_id IN
+      SELECT u.id
+        FROM unnest(v_active_units) AS u(id)
+       ORDER BY (
+               SELECT count(*)
+                 FROM public.bookings b
+                WHERE b.car_unit_id = u.id
+                  AND b.status      = 'CONFIRMED'
+                  AND b.end_ts      > now()
+             ),
+             u.id
+       LIMIT v_units_to_remove
+    LOOP
+      UPDATE public.car_units
+         SET active = false,
+             updated_at = now()
+       WHERE id = v_unit_id;
+
+      v_removed_ids := v_removed_ids || v_unit_id;
+    END LOOP;
+  END IF;
+
+  -- ==================================================================
+  -- 4. Audit log
+  -- ==================================================================
+  INSERT INTO public.audit_log (
+    actor_user_id, action, entity_type, entity_id, metadata
+  ) VALUES (
+    v_uid,
+    'fleet.quantity_adjusted',
+    'car_model',
+    p_car_model_id,
+    jsonb_build_object(
+      'business_id', v_business_id,
+      'previous_qty', v_current_qty,
+      'new_qty', p_new_qty,
+      'added_ids', v_added_ids,
+      'removed_ids', v_removed_ids
+    )
+  );
+
+  RETURN jsonb_build_object(
+    'car_model_id', p_car_model_id,
+    'previous_qty', v_current_qty,
+    'new_qty', p_new_qty,
+    'added_ids', v_added_ids,
+    'removed_ids', v_removed_ids
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.business_adjust_quantity(uuid, int) IS
+  'RPC – BUSINESS-only. Adjusts unit quantity for a model. Deactivates the '
+  'units with the fewest upcoming bookings; their bookings are reassigned '
+  'or canceled with a refund.';
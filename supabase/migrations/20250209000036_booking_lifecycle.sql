@@ -0,0 +1,616 @@
+-- ============================================================================
+-- ForzaCars Rentals — Booking lifecycle: pick-up, return, no-show, late
+-- Migration: 20250209000036_booking_lifecycle
+--
+-- 1. bookings.status gains CHECKED_OUT, RETURNED, NO_SHOW and LATE;
+--    checked_out_at / returned_at / late_fee_credits columns
+-- 2. Trigger: only lifecycle transitions are allowed, and each one is
+--    recorded in audit_log as booking.status_changed
+-- 3. bookings_no_overlap and the availability helpers (unit_booked_during,
+--    available_unit_count, unit_busy_intervals, blackout_batch_conflicts)
+--    count every status that holds the unit, not just CONFIRMED
+-- 4. business_check_out_booking / business_check_in_booking /
+--    business_mark_no_show / business_flag_late_bookings RPCs
+-- 5. The waitlist trigger also fires on NO_SHOW, which frees the unit
+--    like a cancellation does
+--
+--   CONFIRMED ──▶ CHECKED_OUT ──▶ RETURNED
+--       │              └──▶ LATE ──┘
+--       ├──▶ CANCELED
+--       └──▶ NO_SHOW
+--
+-- A car can be handed over from 60 minutes before pick-up until the
+-- booking ends, and a booking can be marked a no-show from 60 minutes
+-- after pick-up (no refund; the unit is freed). A car still out 15 minutes
+-- past its return time is LATE. On check-in, a return more than 15 minutes
+-- late is charged the extra time under the booking's pricing policy, at the
+-- rate it was booked at (compute_rental_price; lateReturnFee() in
+-- src/lib/bookingLifecycle.ts).
+--
+-- RETURNED bookings keep holding their window (and turnaround), so an
+-- early return never lets a new booking squeeze in before the prep time
+-- the customer paid around.
+-- ============================================================================
+
+
+-- ############################################################################
+-- 1. Statuses and timestamps
+-- ############################################################################
+
+ALTER TABLE public.bookings
+  DROP CONSTRAINT IF EXISTS bookings_status_check;
+
+ALTER TABLE public.bookings
+  ADD CONSTRAINT bookings_status_check
+  CHECK (status IN ('CONFIRMED', 'CHECKED_OUT', 'LATE', 'RETURNED', 'NO_SHOW', 'CANCELED'));
+
+ALTER TABLE public.bookings
+  ADD COLUMN IF NOT EXISTS checked_out_at   timestamptz,
+  ADD COLUMN IF NOT EXISTS returned_at      timestamptz,
+  ADD COLUMN IF NOT EXISTS late_fee_credits int NOT NULL DEFAULT 0
+    CONSTRAINT bookings_late_fee_credits_check CHECK (late_fee_credits >= 0);
+
+COMMENT ON COLUMN public.bookings.checked_out_at IS
+  'When the business handed the car over (status CHECKED_OUT)';
+COMMENT ON COLUMN public.bookings.returned_at IS
+  'When the business checked the car back in (status RETURNED)';
+COMMENT ON COLUMN public.bookings.late_fee_credits IS
+  'Credits charged at check-in for returning after end_ts plus the grace period';
+
+-- Bookings that ended before the lifecycle existed were returned on time
+UPDATE public.bookings
+   SET status         = 'RETURNED',
+       checked_out_at = start_ts,
+       returned_at    = end_ts
+ WHERE status = 'CONFIRMED'
+   AND end_ts <= now();
+
+
+-- ############################################################################
+-- 2. Status transitions + history
+-- ############################################################################
+
+CREATE OR REPLACE FUNCTION public.handle_booking_status_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF NOT (
+       (OLD.status = 'CONFIRMED'   AND NEW.status IN ('CHECKED_OUT', 'NO_SHOW', 'CANCELED'))
+    OR (OLD.status = 'CHECKED_OUT' AND NEW.status IN ('LATE', 'RETURNED'))
+    OR (OLD.status = 'LATE'        AND NEW.status = 'RETURNED')
+  ) THEN
+    RAISE EXCEPTION 'A % booking can''t be changed to %', OLD.status, NEW.status;
+  END IF;
+
+  INSERT INTO public.audit_log (actor_user_id, action, entity_type, entity_id, metadata)
+  VALUES (auth.uid(), 'booking.status_changed', 'booking', NEW.id,
+    jsonb_build_object(
+      'from',             OLD.status,
+      'to',               NEW.status,
+      'car_unit_id',      NEW.car_unit_id,
+      'checked_out_at',   NEW.checked_out_at,
+      'returned_at',      NEW.returned_at,
+      'late_fee_credits', NEW.late_fee_credits
+  ));
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_booking_status_change ON public.bookings;
+CREATE TRIGGER on_booking_status_change
+  AFTER UPDATE OF status ON public.bookings
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION public.handle_booking_status_change();
+
+
+-- ############################################################################
+-- 3. Every status that holds the unit blocks it
+-- ############################################################################
+
+ALTER TABLE public.bookings
+  DROP CONSTRAINT IF EXISTS bookings_no_overlap;
+
+ALTER TABLE public.bookings
+  ADD CONSTRAINT bookings_no_overlap
+  EXCLUDE USING gist (
+    car_unit_id WITH =,
+    tstzrange(start_ts, blocked_until, '[)') WITH &&
+  )
+  WHERE (status IN ('CONFIRMED', 'CHECKED_OUT', 'LATE', 'RETURNED'));
+
+DROP INDEX IF EXISTS public.idx_bookings_unit_confirmed;
+
+CREATE INDEX IF NOT EXISTS idx_bookings_unit_occupying
+  ON public.bookings (car_unit_id, start_ts, end_ts)
+  WHERE status IN ('CONFIRMED', 'CHECKED_OUT', 'LATE', 'RETURNED');
+
+CREATE OR REPLACE FUNCTION public.unit_booked_during(
+  p_car_unit_id uuid,
+  p_start_ts    timestamptz,
+  p_end_ts      timestamptz
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+      FROM public.bookings b
+     WHERE b.car_unit_id   = p_car_unit_id
+       AND b.status        IN ('CONFIRMED', 'CHECKED_OUT', 'LATE', 'RETURNED')
+       AND b.start_ts      < p_end_ts
+             + make_interval(mins => public.unit_turnaround_minutes(p_car_unit_id))
+       AND b.blocked_until > p_start_ts
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.unit_booked_during(uuid, timestamptz, timestamptz) FROM public, anon, authenticated;
+
+COMMENT ON FUNCTION public.booked_unit_ids(uuid[], timestamptz, timestamptz) IS
+  'Returns the given units that have a booking (confirmed, picked up, late or '
+  'returned) overlapping the window, turnaround buffers included.';
+
+-- A car that is still out after its return time is not available either
+CREATE OR REPLACE FUNCTION public.available_unit_count(p_model_id uuid)
+RETURNS int
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = ''
+STABLE
+AS $$
+  SELECT count(*)::int
+  FROM public.car_units cu
+  WHERE cu.car_model_id = p_model_id
+    AND cu.active = true
+    AND NOT EXISTS (
+      SELECT 1 FROM public.bookings b
+      WHERE b.car_unit_id = cu.id
+        AND (
+              (b.status IN ('CONFIRMED', 'CHECKED_OUT', 'LATE', 'RETURNED')
+               AND b.start_ts <= now()
+               AND b.blocked_until > now())
+           OR b.status = 'LATE'
+        )
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM public.car_blackouts cb
+      WHERE cb.car_unit_id = cu.id
+        AND cb.start_ts <= now()
+        AND cb.end_ts > now()
+    );
+$$;
+
+COMMENT ON FUNCTION public.available_unit_count(uuid) IS
+  'Returns the number of currently-available car_units for a given car_model. '
+  'A unit is available if active, not in a booking or its turnaround, not '
+  'out on a late return, and not blacked out. '
+  'SECURITY DEFINER so it sees all bookings regardless of the caller''s RLS context.';
+
+CREATE OR REPLACE FUNCTION public.unit_busy_intervals(
+  p_unit_ids uuid[],
+  p_from     timestamptz,
+  p_to       timestamptz
+)
+RETURNS TABLE (
+  car_unit_id uuid,
+  kind        text,
+  start_ts    timestamptz,
+  end_ts      timestamptz
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF p_to <= p_from THEN
+    RAISE EXCEPTION 'End of range must be after its start';
+  END IF;
+
+  IF p_to - p_from > interval '31 days' THEN
+    RAISE EXCEPTION 'Range can be at most 31 days';
+  END IF;
+
+  RETURN QUERY
+  SELECT b.car_unit_id, 'BOOKING'::text, b.start_ts, b.end_ts
+    FROM public.bookings b
+   WHERE b.car_unit_id = ANY (p_unit_ids)
+     AND b.status      IN ('CONFIRMED', 'CHECKED_OUT', 'LATE', 'RETURNED')
+     AND b.start_ts    < p_to
+     AND b.end_ts      > p_from
+  UNION ALL
+  SELECT b.car_unit_id, 'TURNAROUND'::text, b.end_ts, b.blocked_until
+    FROM public.bookings b
+   WHERE b.car_unit_id   = ANY (p_unit_ids)
+     AND b.status        IN ('CONFIRMED', 'CHECKED_OUT', 'LATE', 'RETURNED')
+     AND b.blocked_until > b.end_ts
+     AND b.end_ts        < p_to
+     AND b.blocked_until > p_from
+  UNION ALL
+  SELECT bo.car_unit_id, 'BLACKOUT'::text, bo.start_ts, bo.end_ts
+    FROM public.car_blackouts bo
+   WHERE bo.car_unit_id = ANY (p_unit_ids)
+     AND bo.start_ts    < p_to
+     AND bo.end_ts      > p_from
+  UNION ALL
+  -- The caller's own hold never blocks them
+  SELECT h.car_unit_id, 'HOLD'::text, h.start_ts, h.end_ts
+    FROM public.booking_holds h
+   WHERE h.car_unit_id = ANY (p_unit_ids)
+     AND h.customer_id IS DISTINCT FROM auth.uid()
+     AND h.expires_at  > now()
+     AND h.start_ts    < p_to
+     AND h.end_ts      > p_from
+   ORDER BY 1, 3;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.unit_busy_intervals(uuid[], timestamptz, timestamptz) FROM public;
+GRANT EXECUTE ON FUNCTION public.unit_busy_intervals(uuid[], timestamptz, timestamptz) TO anon, authenticated;
+
+-- A blackout over a car that is out is a conflict too; only CONFIRMED
+-- bookings can be canceled by create_blackout_batch (it checks FOUND).
+CREATE OR REPLACE FUNCTION public.blackout_batch_conflicts(
+  p_business_id  uuid,
+  p_car_unit_id  uuid,
+  p_car_model_id uuid,
+  p_start_ts     timestamptz,
+  p_end_ts       timestamptz,
+  p_frequency    text,
+  p_occurrences  int,
+  p_until_date   date
+)
+RETURNS TABLE (
+  booking_id      uuid,
+  customer_id     uuid,
+  customer_email  text,
+  car_unit_id     uuid,
+  unit_name       text,
+  start_ts        timestamptz,
+  end_ts          timestamptz,
+  credits_charged int
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT b.id,
+         b.customer_id,
+         pr.email,
+         b.car_unit_id,
+         coalesce(u.display_name, m.display_name),
+         b.start_ts,
+         b.end_ts,
+         b.credits_charged
+    FROM public.bookings b
+    JOIN public.car_units u  ON u.id = b.car_unit_id
+    JOIN public.car_models m ON m.id = u.car_model_id
+    JOIN public.profiles pr  ON pr.id = b.customer_id
+   WHERE b.status IN ('CONFIRMED', 'CHECKED_OUT', 'LATE')
+     AND EXISTS (
+           SELECT 1
+             FROM public.blackout_batch_plan(p_business_id, p_car_unit_id, p_car_model_id,
+                    p_start_ts, p_end_ts, p_frequency, p_occurrences, p_until_date) p
+            WHERE p.car_unit_id = b.car_unit_id
+              AND p.start_ts    < b.end_ts
+              AND p.end_ts      > b.start_ts)
+   ORDER BY b.start_ts, b.id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.blackout_batch_conflicts(uuid, uuid, uuid, timestamptz, timestamptz, text, int, date) FROM public, anon, authenticated;
+
+
+-- ############################################################################
+-- 4. Lifecycle RPCs
+--    Called by BUSINESS users for bookings on their own units.
+-- ############################################################################
+
+-- ============================================================================
+-- 4a. business_check_out_booking — the customer picked the car up
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.business_check_out_booking(
+  p_booking_id uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_uid         uuid;
+  v_business_id uuid;
+  v_booking     record;
+BEGIN
+  v_uid := auth.uid();
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT business_id INTO v_business_id
+    FROM public.profiles
+   WHERE id = v_uid AND role = 'BUSINESS';
+
+  IF v_business_id IS NULL THEN
+    RAISE EXCEPTION 'Only business users with an assigned business can check out cars';
+  END IF;
+
+  SELECT b.*, u.business_id AS unit_business_id
+    INTO v_booking
+    FROM public.bookings b
+    JOIN public.car_units u ON u.id = b.car_unit_id
+   WHERE b.id = p_booking_id
+     FOR UPDATE OF b;
+
+  IF NOT FOUND OR v_booking.unit_business_id <> v_business_id THEN
+    RAISE EXCEPTION 'Booking not found or not for one of your units';
+  END IF;
+
+  IF v_booking.status <> 'CONFIRMED' THEN
+    RAISE EXCEPTION 'Only confirmed bookings can be checked out (this one is %)', v_booking.status;
+  END IF;
+
+  IF now() < v_booking.start_ts - interval '60 minutes' THEN
+    RAISE EXCEPTION 'Too early — the car can be handed over from 60 minutes before pick-up';
+  END IF;
+
+  IF now() >= v_booking.end_ts THEN
+    RAISE EXCEPTION 'This booking has already ended — mark it as a no-show instead';
+  END IF;
+
+  UPDATE public.bookings
+     SET status         = 'CHECKED_OUT',
+         checked_out_at = now()
+   WHERE id = p_booking_id;
+
+  RETURN jsonb_build_object(
+    'booking_id',     p_booking_id,
+    'status',         'CHECKED_OUT',
+    'checked_out_at', now()
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.business_check_out_booking(uuid) FROM public;
+GRANT EXECUTE ON FUNCTION public.business_check_out_booking(uuid) TO authenticated;
+
+COMMENT ON FUNCTION public.business_check_out_booking(uuid) IS
+  'Marks a confirmed booking on one of the caller''s units as picked up '
+  '(from 60 minutes before start until it ends).';
+
+
+-- ============================================================================
+-- 4b. business_check_in_booking — the car came back; charge a late fee
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.business_check_in_booking(
+  p_booking_id uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_uid          uuid;
+  v_business_id  uuid;
+  v_booking      record;
+  v_late_minutes int;
+  v_fee          int := 0;
+  v_thread_id    uuid;
+BEGIN
+  v_uid := auth.uid();
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT business_id INTO v_business_id
+    FROM public.profiles
+   WHERE id = v_uid AND role = 'BUSINESS';
+
+  IF v_business_id IS NULL THEN
+    RAISE EXCEPTION 'Only business users with an assigned business can check in cars';
+  END IF;
+
+  SELECT b.*, u.business_id AS unit_business_id, u.credits_per_hour AS unit_rate,
+         coalesce(u.display_name, m.display_name) AS unit_name
+    INTO v_booking
+    FROM public.bookings b
+    JOIN public.car_units u  ON u.id = b.car_unit_id
+    JOIN public.car_models m ON m.id = u.car_model_id
+   WHERE b.id = p_booking_id
+     FOR UPDATE OF b;
+
+  IF NOT FOUND OR v_booking.unit_business_id <> v_business_id THEN
+    RAISE EXCEPTION 'Booking not found or not for one of your units';
+  END IF;
+
+  IF v_booking.status NOT IN ('CHECKED_OUT', 'LATE') THEN
+    RAISE EXCEPTION 'Only picked-up bookings can be checked in (this one is %)', v_booking.status;
+  END IF;
+
+  -- ================================================================
+  -- Late fee: the extra time priced like a rental of that length
+  -- ================================================================
+  v_late_minutes := greatest(floor(extract(epoch FROM (now() - v_booking.end_ts)) / 60), 0)::int;
+
+  IF v_late_minutes > 15 THEN
+    v_fee := (public.compute_rental_price(
+                v_late_minutes,
+                coalesce(v_booking.hourly_rate_used, v_booking.unit_rate, 0),
+                v_booking.pricing_policy_id
+              )->>'total_credits')::int;
+  ELSE
+    v_late_minutes := 0;
+  END IF;
+
+  UPDATE public.bookings
+     SET status           = 'RETURNED',
+         returned_at      = now(),
+         late_fee_credits = v_fee
+   WHERE id = p_booking_id;
+
+  IF v_fee > 0 THEN
+    INSERT INTO public.credit_ledger (user_id, delta, reason, related_booking_id)
+    VALUES (v_booking.customer_id, -v_fee,
+            format('Late return fee (%s min late)', v_late_minutes), p_booking_id);
+
+    INSERT INTO public.message_threads (subject, created_by, business_id, customer_id)
+    VALUES (format('Late return: %s', v_booking.unit_name),
+            v_uid, v_business_id, v_booking.customer_id)
+    RETURNING id INTO v_thread_id;
+
+    INSERT INTO public.messages (thread_id, sender_id, recipient_id, business_id, body)
+    VALUES (v_thread_id, v_uid, v_booking.customer_id, v_business_id,
+      format('The %s was due back at %s (Central Time) and was returned %s minutes late, '
+             'so a late fee of %s credits has been charged. Reply here if you have any questions.',
+             v_booking.unit_name,
+             to_char(v_booking.end_ts AT TIME ZONE 'America/Chicago', 'Mon DD, HH12:MI AM'),
+             v_late_minutes,
+             v_fee));
+  END IF;
+
+  RETURN jsonb_build_object(
+    'booking_id',   p_booking_id,
+    'status',       'RETURNED',
+    'returned_at',  now(),
+    'late_minutes', v_late_minutes,
+    'late_fee',     v_fee
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.business_check_in_booking(uuid) FROM public;
+GRANT EXECUTE ON FUNCTION public.business_check_in_booking(uuid) TO authenticated;
+
+COMMENT ON FUNCTION public.business_check_in_booking(uuid) IS
+  'Marks a picked-up booking on one of the caller''s units as returned and, '
+  'more than 15 minutes late, debits a late fee priced by compute_rental_price.';
+
+
+-- ============================================================================
+-- 4c. business_mark_no_show — the customer never picked the car up
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.business_mark_no_show(
+  p_booking_id uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_uid         uuid;
+  v_business_id uuid;
+  v_booking     record;
+BEGIN
+  v_uid := auth.uid();
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT business_id INTO v_business_id
+    FROM public.profiles
+   WHERE id = v_uid AND role = 'BUSINESS';
+
+  IF v_business_id IS NULL THEN
+    RAISE EXCEPTION 'Only business users with an assigned business can mark no-shows';
+  END IF;
+
+  SELECT b.*, u.business_id AS unit_business_id
+    INTO v_booking
+    FROM public.bookings b
+    JOIN public.car_units u ON u.id = b.car_unit_id
+   WHERE b.id = p_booking_id
+     FOR UPDATE OF b;
+
+  IF NOT FOUND OR v_booking.unit_business_id <> v_business_id THEN
+    RAISE EXCEPTION 'Booking not found or not for one of your units';
+  END IF;
+
+  IF v_booking.status <> 'CONFIRMED' THEN
+    RAISE EXCEPTION 'Only confirmed bookings can be marked as no-shows (this one is %)', v_booking.status;
+  END IF;
+
+  IF now() < v_booking.start_ts + interval '60 minutes' THEN
+    RAISE EXCEPTION 'A booking can be marked as a no-show from 60 minutes after pick-up';
+  END IF;
+
+  UPDATE public.bookings
+     SET status = 'NO_SHOW'
+   WHERE id = p_booking_id;
+
+  RETURN jsonb_build_object(
+    'booking_id', p_booking_id,
+    'status',     'NO_SHOW'
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.business_mark_no_show(uuid) FROM public;
+GRANT EXECUTE ON FUNCTION public.business_mark_no_show(uuid) TO authenticated;
+
+COMMENT ON FUNCTION public.business_mark_no_show(uuid) IS
+  'Marks a confirmed booking on one of the caller''s units as a no-show '
+  '(from 60 minutes after start). No refund; the unit is freed.';
+
+
+-- ============================================================================
+-- 4d. business_flag_late_bookings — cars still out past the grace period
+--     Called when /biz/bookings loads.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.business_flag_late_bookings()
+RETURNS int
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_business_id uuid;
+  v_flagged     int;
+BEGIN
+  SELECT business_id INTO v_business_id
+    FROM public.profiles
+   WHERE id = auth.uid() AND role = 'BUSINESS';
+
+  IF v_business_id IS NULL THEN
+    RAISE EXCEPTION 'Only business users with an assigned business can flag late returns';
+  END IF;
+
+  UPDATE public.bookings b
+     SET status = 'LATE'
+    FROM public.car_units u
+   WHERE u.id          = b.car_unit_id
+     AND u.business_id = v_business_id
+     AND b.status      = 'CHECKED_OUT'
+     AND b.end_ts + interval '15 minutes' < now();
+
+  GET DIAGNOSTICS v_flagged = ROW_COUNT;
+  RETURN v_flagged;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.business_flag_late_bookings() FROM public;
+GRANT EXECUTE ON FUNCTION public.business_flag_late_bookings() TO authenticated;
+
+COMMENT ON FUNCTION public.business_flag_late_bookings() IS
+  'Moves the caller''s picked-up bookings more than 15 minutes past their '
+  'return time to LATE. Returns how many were flagged.';
+
+
+-- ############################################################################
+-- 5. No-shows notify the waitlist (20250209000027 only covered CANCELED)
+-- ############################################################################
+
+DROP TRIGGER IF EXISTS on_booking_canceled_notify_waitlist ON public.bookings;
+CREATE TRIGGER on_booking_canceled_notify_waitlist
+  AFTER UPDATE OF status ON public.bookings
+  FOR EACH ROW
+  WHEN (OLD.status = 'CONFIRMED' AND NEW.status IN ('CANCELED', 'NO_SHOW'))
+  EXECUTE FUNCTION public.handle_booking_canceled_waitlist();
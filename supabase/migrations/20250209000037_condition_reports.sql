@@ -0,0 +1,230 @@
+-- ============================================================================
+-- ForzaCars Rentals — Vehicle condition reports at pick-up and return
+-- Migration: 20250209000037_condition_reports
+--
+-- 1. booking_condition_reports — one CHECK_OUT and one CHECK_IN report per
+--    booking: mileage, fuel level (eighths) and damage notes
+-- 2. condition_report_photos — photos of a report (original + thumbnail
+--    in the private car-images bucket under conditions/)
+-- 3. RLS: the booking's customer, the business that owns the unit and
+--    admins can read both; writes go through the RPC / API route
+-- 4. business_save_condition_report RPC
+--
+-- The check-out report can be written while the booking is confirmed or
+-- picked up; the check-in report once the car is out (picked up, late or
+-- returned). Photos are uploaded by POST /api/biz/condition-reports/[id]/photos,
+-- which applies the same rule (conditionReportEditable() in
+-- src/lib/conditionReport.ts). Both sides see the reports so a damage
+-- dispute has the before and after on record.
+-- ============================================================================
+
+
+-- ############################################################################
+-- 1. booking_condition_reports
+-- ############################################################################
+
+CREATE TABLE IF NOT EXISTS public.booking_condition_reports (
+  id           uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id   uuid NOT NULL REFERENCES public.bookings(id) ON DELETE CASCADE,
+  kind         text NOT NULL CHECK (kind IN ('CHECK_OUT', 'CHECK_IN')),
+  mileage      int CHECK (mileage >= 0),
+  fuel_level   smallint CHECK (fuel_level BETWEEN 0 AND 8),
+  damage_notes text CHECK (length(damage_notes) <= 2000),
+  created_by   uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at   timestamptz NOT NULL DEFAULT now(),
+  updated_at   timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT booking_condition_reports_booking_kind_key UNIQUE (booking_id, kind)
+);
+
+COMMENT ON TABLE public.booking_condition_reports IS
+  'Vehicle condition at pick-up (CHECK_OUT) and return (CHECK_IN) of a booking.';
+COMMENT ON COLUMN public.booking_condition_reports.fuel_level IS
+  'Fuel gauge in eighths: 0 = empty, 8 = full';
+
+
+-- ############################################################################
+-- 2. condition_report_photos
+-- ############################################################################
+
+CREATE TABLE IF NOT EXISTS public.condition_report_photos (
+  id          uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  report_id   uuid NOT NULL REFERENCES public.booking_condition_reports(id) ON DELETE CASCADE,
+  image_path  text NOT NULL,
+  thumb_path  text NOT NULL,
+  uploaded_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at  timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_condition_report_photos_report
+  ON public.condition_report_photos (report_id, created_at);
+
+COMMENT ON COLUMN public.condition_report_photos.image_path IS
+  'Original in the car-images bucket, e.g. conditions/{booking_id}/{report_id}/{photo_id}.jpg';
+COMMENT ON COLUMN public.condition_report_photos.thumb_path IS
+  'Thumbnail in the car-images bucket, e.g. conditions/{booking_id}/{report_id}/{photo_id}.thumb.webp';
+
+
+-- ############################################################################
+-- 3. RLS: read-only from the client
+-- ############################################################################
+
+ALTER TABLE public.booking_condition_reports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.condition_report_photos   ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "booking_condition_reports: customers can read own"
+  ON public.booking_condition_reports FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM public.bookings b
+     WHERE b.id = booking_id
+       AND b.customer_id = auth.uid()
+  ));
+
+CREATE POLICY "booking_condition_reports: business users can read own units"
+  ON public.booking_condition_reports FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM public.bookings b
+      JOIN public.car_units u ON u.id = b.car_unit_id
+     WHERE b.id = booking_id
+       AND u.business_id = public.get_my_business_id()
+  ));
+
+CREATE POLICY "booking_condition_reports: admins can read"
+  ON public.booking_condition_reports FOR SELECT
+  TO authenticated
+  USING (public.is_admin());
+
+-- Photos are visible to whoever can see their report
+CREATE POLICY "condition_report_photos: readable with their report"
+  ON public.condition_report_photos FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM public.booking_condition_reports r
+     WHERE r.id = report_id
+  ));
+
+
+-- ############################################################################
+-- 4. business_save_condition_report
+--    Called by BUSINESS users for bookings on their own units. Creates or
+--    updates the booking's report of that kind and returns its id.
+-- ############################################################################
+
+CREATE OR REPLACE FUNCTION public.business_save_condition_report(
+  p_booking_id   uuid,
+  p_kind         text,
+  p_mileage      int,
+  p_fuel_level   int,
+  p_damage_notes text
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_uid         uuid;
+  v_business_id uuid;
+  v_booking     record;
+  v_notes       text;
+  v_out_mileage int;
+  v_report_id   uuid;
+BEGIN
+  -- ================================================================
+  -- 1. Auth: caller must be a BUSINESS user with a business_id
+  -- ================================================================
+  v_uid := auth.uid();
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT business_id INTO v_business_id
+    FROM public.profiles
+   WHERE id = v_uid AND role = 'BUSINESS';
+
+  IF v_business_id IS NULL THEN
+    RAISE EXCEPTION 'Only business users with an assigned business can write condition reports';
+  END IF;
+
+  -- ================================================================
+  -- 2. Validate
+  -- ================================================================
+  IF p_kind NOT IN ('CHECK_OUT', 'CHECK_IN') THEN
+    RAISE EXCEPTION 'Report must be for check-out or check-in';
+  END IF;
+
+  IF p_mileage IS NOT NULL AND p_mileage < 0 THEN
+    RAISE EXCEPTION 'Mileage can''t be negative';
+  END IF;
+
+  IF p_fuel_level IS NOT NULL AND p_fuel_level NOT BETWEEN 0 AND 8 THEN
+    RAISE EXCEPTION 'Fuel level must be between empty and full';
+  END IF;
+
+  v_notes := nullif(btrim(p_damage_notes), '');
+  IF length(v_notes) > 2000 THEN
+    RAISE EXCEPTION 'Damage notes must be 2000 characters or fewer';
+  END IF;
+
+  SELECT b.*, u.business_id AS unit_business_id
+    INTO v_booking
+    FROM public.bookings b
+    JOIN public.car_units u ON u.id = b.car_unit_id
+   WHERE b.id = p_booking_id;
+
+  IF NOT FOUND OR v_booking.unit_business_id <> v_business_id THEN
+    RAISE EXCEPTION 'Booking not found or not for one of your units';
+  END IF;
+
+  IF p_kind = 'CHECK_OUT' AND v_booking.status NOT IN ('CONFIRMED', 'CHECKED_OUT') THEN
+    RAISE EXCEPTION 'The pick-up report can only be written before or while the car is out';
+  END IF;
+
+  IF p_kind = 'CHECK_IN' AND v_booking.status NOT IN ('CHECKED_OUT', 'LATE', 'RETURNED') THEN
+    RAISE EXCEPTION 'The return report can only be written once the car has been picked up';
+  END IF;
+
+  IF p_kind = 'CHECK_IN' AND p_mileage IS NOT NULL THEN
+    SELECT mileage INTO v_out_mileage
+      FROM public.booking_condition_reports
+     WHERE booking_id = p_booking_id AND kind = 'CHECK_OUT';
+
+    IF p_mileage < v_out_mileage THEN
+      RAISE EXCEPTION 'Return mileage (%) is below the pick-up mileage (%)', p_mileage, v_out_mileage;
+    END IF;
+  END IF;
+
+  -- ================================================================
+  -- 3. Upsert + audit
+  -- ================================================================
+  INSERT INTO public.booking_condition_reports
+         (booking_id, kind, mileage, fuel_level, damage_notes, created_by)
+  VALUES (p_booking_id, p_kind, p_mileage, p_fuel_level, v_notes, v_uid)
+  ON CONFLICT (booking_id, kind)
+  DO UPDATE SET mileage      = EXCLUDED.mileage,
+                fuel_level   = EXCLUDED.fuel_level,
+                damage_notes = EXCLUDED.damage_notes,
+                updated_at   = now()
+  RETURNING id INTO v_report_id;
+
+  INSERT INTO public.audit_log (actor_user_id, action, entity_type, entity_id, metadata)
+  VALUES (v_uid, 'condition_report.saved', 'booking', p_booking_id,
+    jsonb_build_object(
+      'report_id',    v_report_id,
+      'kind',         p_kind,
+      'mileage',      p_mileage,
+      'fuel_level',   p_fuel_level,
+      'damage_notes', v_notes
+  ));
+
+  RETURN v_report_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.business_save_condition_report(uuid, text, int, int, text) FROM public;
+GRANT EXECUTE ON FUNCTION public.business_save_condition_report(uuid, text, int, int, text) TO authenticated;
+
+COMMENT ON FUNCTION public.business_save_condition_report(uuid, text, int, int, text) IS
+  'Creates or updates the pick-up (CHECK_OUT) or return (CHECK_IN) condition '
+  'report of a booking on one of the caller''s units.';
@@ -0,0 +1,720 @@
+-- ============================================================================
+-- ForzaCars Rentals — Security deposits and damage claims
+-- Migration: 20250209000038_security_deposits
+--
+-- 1. car_units.deposit_credits — optional per-unit security deposit
+-- 2. booking_deposits — the deposit held for a booking (HELD → RELEASED or
+--    CAPTURED) and damage_claims — a business's claim against it
+-- 3. RLS: the customer, the unit's business and admins can read both;
+--    writes go through the triggers and RPCs below
+-- 4. Placing the deposit: every new booking on a unit with a deposit
+--    holds it from the customer's credits (trigger), and the customer must
+--    be able to cover it when the transaction commits
+-- 5. Releasing the deposit: on cancel / no-show, on a clean return, or
+--    once the claim window has passed without a claim
+-- 6. business_file_damage_claim / customer_respond_damage_claim /
+--    admin_resolve_damage_claim RPCs
+--
+-- A held deposit is a debit in credit_ledger, so it can't be spent while
+-- the car is out; settling it credits back whatever isn't captured. A
+-- return is clean when the return condition report notes no damage. Any
+-- other return keeps the deposit for 48 hours
+-- (DEPOSIT_CLAIM_WINDOW_HOURS in src/lib/deposits.ts), during which the
+-- business can claim up to the full deposit with the return report as
+-- evidence. The customer accepts the claim or disputes it; an admin
+-- settles disputes (and claims the customer never answers).
+-- ============================================================================
+
+
+-- ############################################################################
+-- 1. Per-unit deposit
+-- ############################################################################
+
+ALTER TABLE public.car_units
+  ADD COLUMN IF NOT EXISTS deposit_credits int NOT NULL DEFAULT 0
+    CONSTRAINT car_units_deposit_credits_check CHECK (deposit_credits BETWEEN 0 AND 10000);
+
+COMMENT ON COLUMN public.car_units.deposit_credits IS
+  'Security deposit held from the customer''s credits for each booking (0 = none)';
+
+
+-- ############################################################################
+-- 2. booking_deposits + damage_claims
+-- ############################################################################
+
+CREATE TABLE IF NOT EXISTS public.booking_deposits (
+  id               uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id       uuid NOT NULL UNIQUE REFERENCES public.bookings(id) ON DELETE CASCADE,
+  customer_id      uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  amount           int  NOT NULL CHECK (amount > 0),
+  status           text NOT NULL DEFAULT 'HELD'
+                   CHECK (status IN ('HELD', 'RELEASED', 'CAPTURED')),
+  captured_credits int  NOT NULL DEFAULT 0,
+  created_at       timestamptz NOT NULL DEFAULT now(),
+  settled_at       timestamptz,
+  CONSTRAINT booking_deposits_captured_check
+    CHECK (captured_credits BETWEEN 0 AND amount)
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_deposits_customer_held
+  ON public.booking_deposits (customer_id)
+  WHERE status = 'HELD';
+
+COMMENT ON TABLE public.booking_deposits IS
+  'Security deposit held from the customer''s credits for a booking.';
+COMMENT ON COLUMN public.booking_deposits.captured_credits IS
+  'Part of the deposit kept for damage; the rest was credited back';
+
+CREATE TABLE IF NOT EXISTS public.damage_claims (
+  id                uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id        uuid NOT NULL UNIQUE REFERENCES public.bookings(id) ON DELETE CASCADE,
+  deposit_id        uuid NOT NULL REFERENCES public.booking_deposits(id) ON DELETE CASCADE,
+  business_id       uuid NOT NULL REFERENCES public.businesses(id) ON DELETE CASCADE,
+  customer_id       uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  amount_credits    int  NOT NULL CHECK (amount_credits > 0),
+  description       text NOT NULL CHECK (length(description) BETWEEN 1 AND 2000),
+  status            text NOT NULL DEFAULT 'OPEN'
+                    CHECK (status IN ('OPEN', 'ACCEPTED', 'DISPUTED', 'RESOLVED')),
+  customer_response text CHECK (length(customer_response) <= 2000),
+  responded_at      timestamptz,
+  captured_credits  int,
+  resolution_note   text CHECK (length(resolution_note) <= 2000),
+  resolved_by       uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  resolved_at       timestamptz,
+  created_by        uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at        timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_damage_claims_status
+  ON public.damage_claims (status, created_at);
+
+COMMENT ON TABLE public.damage_claims IS
+  'A business''s claim against a booking''s security deposit: OPEN until the '
+  'customer accepts or disputes it, RESOLVED once an admin settles it.';
+
+
+-- ############################################################################
+-- 3. RLS: read-only from the client
+-- ############################################################################
+
+ALTER TABLE public.booking_deposits ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.damage_claims    ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "booking_deposits: customers can read own"
+  ON public.booking_deposits FOR SELECT
+  TO authenticated
+  USING (customer_id = auth.uid());
+
+CREATE POLICY "booking_deposits: business users can read own units"
+  ON public.booking_deposits FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM public.bookings b
+      JOIN public.car_units u ON u.id = b.car_unit_id
+     WHERE b.id = booking_id
+       AND u.business_id = public.get_my_business_id()
+  ));
+
+CREATE POLICY "booking_deposits: admins can read"
+  ON public.booking_deposits FOR SELECT
+  TO authenticated
+  USING (public.is_admin());
+
+CREATE POLICY "damage_claims: customers can read own"
+  ON public.damage_claims FOR SELECT
+  TO authenticated
+  USING (customer_id = auth.uid());
+
+CREATE POLICY "damage_claims: business users can read own"
+  ON public.damage_claims FOR SELECT
+  TO authenticated
+  USING (business_id = public.get_my_business_id());
+
+CREATE POLICY "damage_claims: admins can read"
+  ON public.damage_claims FOR SELECT
+  TO authenticated
+  USING (public.is_admin());
+
+
+-- ############################################################################
+-- 4. Placing the deposit
+-- ############################################################################
+
+-- ============================================================================
+-- 4a. Every booking path (create_booking, group, series) inserts into
+--     bookings, so the hold is placed here
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.handle_booking_deposit_hold()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_amount int;
+BEGIN
+  SELECT deposit_credits INTO v_amount
+    FROM public.car_units
+   WHERE id = NEW.car_unit_id;
+
+  IF coalesce(v_amount, 0) = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.booking_deposits (booking_id, customer_id, amount)
+  VALUES (NEW.id, NEW.customer_id, v_amount);
+
+  INSERT INTO public.credit_ledger (user_id, delta, reason, related_booking_id)
+  VALUES (NEW.customer_id, -v_amount,
+          format('Security deposit held for booking %s', NEW.id), NEW.id);
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_booking_hold_deposit ON public.bookings;
+CREATE TRIGGER on_booking_hold_deposit
+  AFTER INSERT ON public.bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_booking_deposit_hold();
+
+-- ============================================================================
+-- 4b. The booking RPCs check the balance against the rental price and
+--     debit it after inserting the bookings; checked at commit, the
+--     balance covers both
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.check_deposit_covered()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_balance int;
+BEGIN
+  SELECT coalesce(sum(delta), 0)
+    INTO v_balance
+    FROM public.credit_ledger
+   WHERE user_id = NEW.customer_id;
+
+  IF v_balance < 0 THEN
+    RAISE EXCEPTION 'Insufficient credit balance for the % credit security deposit (% more needed)',
+      NEW.amount, -v_balance;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_booking_deposit_check_balance ON public.booking_deposits;
+CREATE CONSTRAINT TRIGGER on_booking_deposit_check_balance
+  AFTER INSERT ON public.booking_deposits
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_deposit_covered();
+
+REVOKE EXECUTE ON FUNCTION public.handle_booking_deposit_hold() FROM public, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.check_deposit_covered() FROM public, anon, authenticated;
+
+
+-- ############################################################################
+-- 5. Releasing the deposit
+-- ############################################################################
+
+-- ============================================================================
+-- 5a. settle_booking_deposit — internal: keep p_captured, credit back the
+--     rest. No-op unless the deposit is still held.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.settle_booking_deposit(
+  p_deposit_id uuid,
+  p_captured   int,
+  p_reason     text
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_deposit public.booking_deposits%ROWTYPE;
+BEGIN
+  SELECT * INTO v_deposit
+    FROM public.booking_deposits
+   WHERE id = p_deposit_id
+     FOR UPDATE;
+
+  IF NOT FOUND OR v_deposit.status <> 'HELD' THEN
+    RETURN;
+  END IF;
+
+  IF v_deposit.amount - p_captured > 0 THEN
+    INSERT INTO public.credit_ledger (user_id, delta, reason, related_booking_id)
+    VALUES (v_deposit.customer_id, v_deposit.amount - p_captured, p_reason,
+            v_deposit.booking_id);
+  END IF;
+
+  UPDATE public.booking_deposits
+     SET status           = CASE WHEN p_captured > 0 THEN 'CAPTURED' ELSE 'RELEASED' END,
+         captured_credits = p_captured,
+         settled_at       = now()
+   WHERE id = p_deposit_id;
+
+  INSERT INTO public.audit_log (actor_user_id, action, entity_type, entity_id, metadata)
+  VALUES (auth.uid(),
+          CASE WHEN p_captured > 0 THEN 'deposit.captured' ELSE 'deposit.released' END,
+          'booking', v_deposit.booking_id,
+    jsonb_build_object(
+      'deposit_id',       p_deposit_id,
+      'amount',           v_deposit.amount,
+      'captured_credits', p_captured,
+      'released_credits', v_deposit.amount - p_captured,
+      'reason',           p_reason
+  ));
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.settle_booking_deposit(uuid, int, text) FROM public, anon, authenticated;
+
+-- ============================================================================
+-- 5b. Canceled, no-show and clean returns release the deposit straight away
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.handle_booking_deposit_status()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_deposit_id uuid;
+BEGIN
+  SELECT id INTO v_deposit_id
+    FROM public.booking_deposits
+   WHERE booking_id = NEW.id
+     AND status = 'HELD';
+
+  IF v_deposit_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IN ('CANCELED', 'NO_SHOW') THEN
+    PERFORM public.settle_booking_deposit(v_deposit_id, 0,
+      format('Security deposit returned (booking %s %s)', NEW.id,
+             CASE NEW.status WHEN 'CANCELED' THEN 'canceled' ELSE 'not picked up' END));
+  ELSIF NEW.status = 'RETURNED' AND EXISTS (
+    SELECT 1
+      FROM public.booking_condition_reports r
+     WHERE r.booking_id = NEW.id
+       AND r.kind = 'CHECK_IN'
+       AND r.damage_notes IS NULL
+  ) THEN
+    PERFORM public.settle_booking_deposit(v_deposit_id, 0,
+      format('Security deposit returned (booking %s returned without damage)', NEW.id));
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_booking_deposit_status ON public.bookings;
+CREATE TRIGGER on_booking_deposit_status
+  AFTER UPDATE OF status ON public.bookings
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION public.handle_booking_deposit_status();
+
+REVOKE EXECUTE ON FUNCTION public.handle_booking_deposit_status() FROM public, anon, authenticated;
+
+-- ============================================================================
+-- 5c. release_due_deposits — deposits of returns whose claim window
+--     passed without a claim. There is no scheduler: the bookings and
+--     wallet pages call this when they load.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.release_due_deposits()
+RETURNS int
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_deposit record;
+  v_count   int := 0;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  FOR v_deposit IN
+    SELECT d.id, d.booking_id
+      FROM public.booking_deposits d
+      JOIN public.bookings b ON b.id = d.booking_id
+     WHERE d.status = 'HELD'
+       AND b.status = 'RETURNED'
+       AND b.returned_at < now() - interval '48 hours'
+       AND NOT EXISTS (
+         SELECT 1 FROM public.damage_claims c WHERE c.deposit_id = d.id
+       )
+  LOOP
+    PERFORM public.settle_booking_deposit(v_deposit.id, 0,
+      format('Security deposit returned (booking %s, no damage claimed)', v_deposit.booking_id));
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.release_due_deposits() FROM public;
+GRANT EXECUTE ON FUNCTION public.release_due_deposits() TO authenticated;
+
+COMMENT ON FUNCTION public.release_due_deposits() IS
+  'Returns the deposits of bookings returned more than 48 hours ago that '
+  'have no damage claim. Returns how many were released.';
+
+
+-- ############################################################################
+-- 6. Damage claims
+-- ############################################################################
+
+-- ============================================================================
+-- 6a. business_file_damage_claim — within 48 hours of the return, with the
+--     return condition report as evidence
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.business_file_damage_claim(
+  p_booking_id  uuid,
+  p_amount      int,
+  p_description text
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_uid         uuid;
+  v_business_id uuid;
+  v_booking     record;
+  v_deposit     public.booking_deposits%ROWTYPE;
+  v_description text;
+  v_claim_id    uuid;
+  v_thread_id   uuid;
+BEGIN
+  -- ================================================================
+  -- 1. Auth: caller must be a BUSINESS user with a business_id
+  -- ================================================================
+  v_uid := auth.uid();
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT business_id INTO v_business_id
+    FROM public.profiles
+   WHERE id = v_uid AND role = 'BUSINESS';
+
+  IF v_business_id IS NULL THEN
+    RAISE EXCEPTION 'Only business users with an assigned business can file damage claims';
+  END IF;
+
+  -- ================================================================
+  -- 2. Booking, deposit and evidence
+  -- ================================================================
+  SELECT b.*, u.business_id AS unit_business_id,
+         coalesce(u.display_name, m.display_name) AS unit_name
+    INTO v_booking
+    FROM public.bookings b
+    JOIN public.car_units u  ON u.id = b.car_unit_id
+    JOIN public.car_models m ON m.id = u.car_model_id
+   WHERE b.id = p_booking_id
+     FOR UPDATE OF b;
+
+  IF NOT FOUND OR v_booking.unit_business_id <> v_business_id THEN
+    RAISE EXCEPTION 'Booking not found or not for one of your units';
+  END IF;
+
+  IF v_booking.status <> 'RETURNED' THEN
+    RAISE EXCEPTION 'Damage can only be claimed once the car has been returned';
+  END IF;
+
+  SELECT * INTO v_deposit
+    FROM public.booking_deposits
+   WHERE booking_id = p_booking_id
+     FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This booking has no security deposit to claim against';
+  END IF;
+
+  IF v_deposit.status <> 'HELD' THEN
+    RAISE EXCEPTION 'The security deposit has already been settled';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.damage_claims WHERE booking_id = p_booking_id) THEN
+    RAISE EXCEPTION 'A damage claim has already been filed for this booking';
+  END IF;
+
+  IF now() > v_booking.returned_at + interval '48 hours' THEN
+    RAISE EXCEPTION 'Damage claims must be filed within 48 hours of the return';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.booking_condition_reports
+     WHERE booking_id = p_booking_id AND kind = 'CHECK_IN'
+  ) THEN
+    RAISE EXCEPTION 'Write the return condition report first — it is the evidence for the claim';
+  END IF;
+
+  -- ================================================================
+  -- 3. Validate
+  -- ================================================================
+  IF p_amount IS NULL OR p_amount < 1 OR p_amount > v_deposit.amount THEN
+    RAISE EXCEPTION 'Claim between 1 and % credits (the deposit)', v_deposit.amount;
+  END IF;
+
+  v_description := nullif(btrim(p_description), '');
+  IF v_description IS NULL THEN
+    RAISE EXCEPTION 'Describe the damage';
+  END IF;
+
+  IF length(v_description) > 2000 THEN
+    RAISE EXCEPTION 'Description must be 2000 characters or fewer';
+  END IF;
+
+  -- ================================================================
+  -- 4. Claim + customer notice + audit
+  -- ================================================================
+  INSERT INTO public.damage_claims
+         (booking_id, deposit_id, business_id, customer_id, amount_credits,
+          description, created_by)
+  VALUES (p_booking_id, v_deposit.id, v_business_id, v_booking.customer_id, p_amount,
+          v_description, v_uid)
+  RETURNING id INTO v_claim_id;
+
+  INSERT INTO public.message_threads (subject, created_by, business_id, customer_id)
+  VALUES (format('Damage claim: %s', v_booking.unit_name),
+          v_uid, v_business_id, v_booking.customer_id)
+  RETURNING id INTO v_thread_id;
+
+  INSERT INTO public.messages (thread_id, sender_id, recipient_id, business_id, body)
+  VALUES (v_thread_id, v_uid, v_booking.customer_id, v_business_id,
+    format('We found damage on the %s after your rental and have claimed %s of your %s credit '
+           'security deposit: %s' || chr(10) || chr(10) ||
+           'The return condition report and photos are on the booking under My bookings, '
+           'where you can accept the claim or dispute it.',
+           v_booking.unit_name, p_amount, v_deposit.amount, v_description));
+
+  INSERT INTO public.audit_log (actor_user_id, action, entity_type, entity_id, metadata)
+  VALUES (v_uid, 'damage_claim.filed', 'booking', p_booking_id,
+    jsonb_build_object(
+      'claim_id',       v_claim_id,
+      'deposit_id',     v_deposit.id,
+      'deposit',        v_deposit.amount,
+      'amount_credits', p_amount
+  ));
+
+  RETURN v_claim_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.business_file_damage_claim(uuid, int, text) FROM public;
+GRANT EXECUTE ON FUNCTION public.business_file_damage_claim(uuid, int, text) TO authenticated;
+
+COMMENT ON FUNCTION public.business_file_damage_claim(uuid, int, text) IS
+  'Claims up to the security deposit of a returned booking on one of the '
+  'caller''s units for damage (within 48 hours of the return, once the return '
+  'condition report is written) and messages the customer.';
+
+-- ============================================================================
+-- 6b. customer_respond_damage_claim — accept (the claim is captured) or
+--     dispute (an admin decides)
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.customer_respond_damage_claim(
+  p_claim_id uuid,
+  p_accept   boolean,
+  p_response text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_uid      uuid;
+  v_claim    public.damage_claims%ROWTYPE;
+  v_response text;
+BEGIN
+  v_uid := auth.uid();
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_claim
+    FROM public.damage_claims
+   WHERE id = p_claim_id
+     FOR UPDATE;
+
+  IF NOT FOUND OR v_claim.customer_id <> v_uid THEN
+    RAISE EXCEPTION 'Damage claim not found';
+  END IF;
+
+  IF v_claim.status <> 'OPEN' THEN
+    RAISE EXCEPTION 'This claim has already been answered';
+  END IF;
+
+  v_response := nullif(btrim(p_response), '');
+  IF length(v_response) > 2000 THEN
+    RAISE EXCEPTION 'Response must be 2000 characters or fewer';
+  END IF;
+
+  IF p_accept THEN
+    PERFORM public.settle_booking_deposit(v_claim.deposit_id, v_claim.amount_credits,
+      format('Security deposit for booking %s: %s credits kept for damage (claim accepted)',
+             v_claim.booking_id, v_claim.amount_credits));
+
+    UPDATE public.damage_claims
+       SET status            = 'ACCEPTED',
+           customer_response = v_response,
+           responded_at      = now(),
+           captured_credits  = amount_credits
+     WHERE id = p_claim_id;
+  ELSE
+    IF v_response IS NULL THEN
+      RAISE EXCEPTION 'Tell us why you dispute the claim';
+    END IF;
+
+    UPDATE public.damage_claims
+       SET status            = 'DISPUTED',
+           customer_response = v_response,
+           responded_at      = now()
+     WHERE id = p_claim_id;
+  END IF;
+
+  INSERT INTO public.audit_log (actor_user_id, action, entity_type, entity_id, metadata)
+  VALUES (v_uid,
+          CASE WHEN p_accept THEN 'damage_claim.accepted' ELSE 'damage_claim.disputed' END,
+          'booking', v_claim.booking_id,
+    jsonb_build_object(
+      'claim_id',       p_claim_id,
+      'amount_credits', v_claim.amount_credits,
+      'response',       v_response
+  ));
+
+  RETURN jsonb_build_object(
+    'claim_id', p_claim_id,
+    'status',   CASE WHEN p_accept THEN 'ACCEPTED' ELSE 'DISPUTED' END
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.customer_respond_damage_claim(uuid, boolean, text) FROM public;
+GRANT EXECUTE ON FUNCTION public.customer_respond_damage_claim(uuid, boolean, text) TO authenticated;
+
+COMMENT ON FUNCTION public.customer_respond_damage_claim(uuid, boolean, text) IS
+  'The customer accepts an open damage claim (the claimed credits are kept '
+  'from the deposit, the rest returned) or disputes it for an admin to resolve.';
+
+-- ============================================================================
+-- 6c. admin_resolve_damage_claim — settle a disputed (or unanswered) claim
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.admin_resolve_damage_claim(
+  p_claim_id uuid,
+  p_captured int,
+  p_note     text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_uid       uuid;
+  v_claim     public.damage_claims%ROWTYPE;
+  v_note      text;
+  v_thread_id uuid;
+BEGIN
+  v_uid := auth.uid();
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can resolve damage claims';
+  END IF;
+
+  SELECT * INTO v_claim
+    FROM public.damage_claims
+   WHERE id = p_claim_id
+     FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Damage claim not found';
+  END IF;
+
+  IF v_claim.status NOT IN ('OPEN', 'DISPUTED') THEN
+    RAISE EXCEPTION 'This claim has already been settled';
+  END IF;
+
+  IF p_captured IS NULL OR p_captured < 0 OR p_captured > v_claim.amount_credits THEN
+    RAISE EXCEPTION 'Keep between 0 and % credits (the amount claimed)', v_claim.amount_credits;
+  END IF;
+
+  v_note := nullif(btrim(p_note), '');
+  IF v_note IS NULL THEN
+    RAISE EXCEPTION 'Explain the decision';
+  END IF;
+
+  IF length(v_note) > 2000 THEN
+    RAISE EXCEPTION 'Note must be 2000 characters or fewer';
+  END IF;
+
+  PERFORM public.settle_booking_deposit(v_claim.deposit_id, p_captured,
+    CASE WHEN p_captured > 0
+      THEN format('Security deposit for booking %s: %s credits kept for damage (claim resolved)',
+                  v_claim.booking_id, p_captured)
+      ELSE format('Security deposit returned (booking %s, damage claim rejected)',
+                  v_claim.booking_id)
+    END);
+
+  UPDATE public.damage_claims
+     SET status           = 'RESOLVED',
+         captured_credits = p_captured,
+         resolution_note  = v_note,
+         resolved_by      = v_uid,
+         resolved_at      = now()
+   WHERE id = p_claim_id;
+
+  INSERT INTO public.message_threads (subject, created_by, business_id, customer_id)
+  VALUES ('Damage claim decision', v_uid, v_claim.business_id, v_claim.customer_id)
+  RETURNING id INTO v_thread_id;
+
+  INSERT INTO public.messages (thread_id, sender_id, recipient_id, business_id, body)
+  VALUES (v_thread_id, v_uid, v_claim.customer_id, v_claim.business_id,
+    format('We reviewed the %s credit damage claim on your booking. %s' || chr(10) || chr(10) || '%s',
+           v_claim.amount_credits,
+           CASE WHEN p_captured > 0
+             THEN format('%s credits are kept from your security deposit and the rest has been returned.', p_captured)
+             ELSE 'The claim was rejected and your security deposit has been returned in full.'
+           END,
+           v_note));
+
+  INSERT INTO public.audit_log (actor_user_id, action, entity_type, entity_id, metadata)
+  VALUES (v_uid, 'damage_claim.resolved', 'booking', v_claim.booking_id,
+    jsonb_build_object(
+      'claim_id',         p_claim_id,
+      'previous_status',  v_claim.status,
+      'amount_credits',   v_claim.amount_credits,
+      'captured_credits', p_captured,
+      'note',             v_note
+  ));
+
+  RETURN jsonb_build_object(
+    'claim_id',         p_claim_id,
+    'captured_credits', p_captured
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.admin_resolve_damage_claim(uuid, int, text) FROM public;
+GRANT EXECUTE ON FUNCTION public.admin_resolve_damage_claim(uuid, int, text) TO authenticated;
+
+COMMENT ON FUNCTION public.admin_resolve_damage_claim(uuid, int, text) IS
+  'ADMIN-only. Settles an open or disputed damage claim: keeps 0 to the '
+  'claimed credits from the deposit, returns the rest and messages the customer.';
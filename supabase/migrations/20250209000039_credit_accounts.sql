@@ -0,0 +1,1648 @@
+-- ============================================================================
+-- ForzaCars Rentals — Materialized credit balances
+-- Migration: 20250209000039_credit_accounts
+--
+-- 1. credit_accounts — one balance row per user, backfilled from the ledger
+-- 2. Every credit_ledger insert moves the balance in the same transaction
+--    (trigger); ledger amounts can no longer be edited after the fact
+-- 3. lock_credit_account — internal: the caller's balance, row-locked
+-- 4. The booking and grant RPCs (and the deposit check) read the account
+--    instead of summing the ledger; the check-in late fee locks it too and
+--    never takes the balance below zero
+-- 5. credit_reconciliation_runs + reconcile_credit_accounts — verifies
+--    balance = sum(ledger) for every account and reports (optionally fixes)
+--    the drift
+--
+-- Summing the ledger on every booking got slower with each transaction, and
+-- two concurrent bookings could both pass the balance check on the same
+-- credits. The account row is locked (FOR UPDATE) before the check, so a
+-- second booking by the same customer waits for the first to commit and
+-- then sees the debited balance. credit_ledger stays the source of truth:
+-- it is still appended to by every RPC, and the reconciliation job
+-- (scripts/reconcile_credit_accounts.ts) proves the two agree.
+-- ============================================================================
+
+
+-- ############################################################################
+-- 1. credit_accounts
+-- ############################################################################
+
+CREATE TABLE IF NOT EXISTS public.credit_accounts (
+  user_id    uuid PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  balance    int  NOT NULL DEFAULT 0,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE public.credit_accounts IS
+  'Current credit balance per user, kept equal to sum(credit_ledger.delta) '
+  'by the ledger trigger';
+
+ALTER TABLE public.credit_accounts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "credit_accounts: users can read own"
+  ON public.credit_accounts FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "credit_accounts: admins can read all"
+  ON public.credit_accounts FOR SELECT
+  TO authenticated
+  USING (public.is_admin());
+
+-- No INSERT / UPDATE / DELETE policies: balances only move with the ledger
+
+INSERT INTO public.credit_accounts (user_id, balance)
+SELECT p.id, coalesce(sum(l.delta), 0)
+  FROM public.profiles p
+  LEFT JOIN public.credit_ledger l ON l.user_id = p.id
+ GROUP BY p.id
+ON CONFLICT (user_id) DO NOTHING;
+
+
+-- ############################################################################
+-- 2. Keep the balance in step with the ledger
+-- ############################################################################
+
+-- ============================================================================
+-- 2a. Inserts move the balance; deletes (only via the profile cascade)
+--     move it back. Accounts are created on a user's first entry.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.handle_credit_ledger_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.credit_accounts (user_id, balance)
+    VALUES (NEW.user_id, NEW.delta)
+    ON CONFLICT (user_id) DO UPDATE
+      SET balance    = public.credit_accounts.balance + EXCLUDED.balance,
+          updated_at = now();
+    RETURN NEW;
+  END IF;
+
+  UPDATE public.credit_accounts
+     SET balance    = balance - OLD.delta,
+         updated_at = now()
+   WHERE user_id = OLD.user_id;
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_credit_ledger_change ON public.credit_ledger;
+CREATE TRIGGER on_credit_ledger_change
+  AFTER INSERT OR DELETE ON public.credit_ledger
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_credit_ledger_change();
+
+-- ============================================================================
+-- 2b. Entries are corrected with a new entry, never edited
+--     (related_booking_id may still be nulled when a booking is deleted)
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.prevent_credit_ledger_edit()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  RAISE EXCEPTION 'credit_ledger entries cannot be changed; record a correcting entry instead';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_credit_ledger_edit ON public.credit_ledger;
+CREATE TRIGGER on_credit_ledger_edit
+  BEFORE UPDATE OF user_id, delta ON public.credit_ledger
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_credit_ledger_edit();
+
+REVOKE EXECUTE ON FUNCTION public.handle_credit_ledger_change() FROM public, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.prevent_credit_ledger_edit() FROM public, anon, authenticated;
+
+
+-- ############################################################################
+-- 3. lock_credit_account — internal
+--    Returns the user's balance with their account row locked until the
+--    transaction ends. Call it before checking a balance you are about to
+--    debit.
+-- ############################################################################
+
+CREATE OR REPLACE FUNCTION public.lock_credit_account(
+  p_user_id uuid
+)
+RETURNS int
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_balance int;
+BEGIN
+  INSERT INTO public.credit_accounts (user_id)
+  VALUES (p_user_id)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  SELECT balance
+    INTO v_balance
+    FROM public.credit_accounts
+   WHERE user_id = p_user_id
+     FOR UPDATE;
+
+  RETURN v_balance;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.lock_credit_account(uuid) FROM public, anon, authenticated;
+
+
+-- ############################################################################
+-- 4. RPCs read the account instead of summing the ledger
+--    Bodies unchanged from their latest migrations apart from the balance
+--    lookups.
+-- ############################################################################
+
+-- ============================================================================
+-- 4a. admin_grant_credits
+-- ============================================================================
+create or replace function public.admin_grant_credits(
+  p_user_id uuid,
+  p_amount  int,
+  p_reason  text
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_uid        uuid;
+  v_role       text;
+  v_entry_id   uuid;
+  v_new_balance int;
+begin
+  -- ==================================================================
+  -- 1. Authenticate & authorise (ADMIN only)
+  -- ==================================================================
+  v_uid := auth.uid();
+  if v_uid is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select role into strict v_role
+    from public.profiles
+   where id = v_uid;
+
+  if v_role is distinct from 'ADMIN' then
+    raise exception 'Only admins can grant credits';
+  end if;
+
+  -- ==================================================================
+  -- 2. Validate inputs
+  -- ==================================================================
+  if p_amount <= 0 then
+    raise exception 'Amount must be a positive integer';
+  end if;
+
+  if p_reason is null or trim(p_reason) = '' then
+    raise exception 'A reason is required when granting credits';
+  end if;
+
+  -- Target user must exist
+  if not exists (select 1 from public.profiles where id = p_user_id) then
+    raise exception 'Target user not found';
+  end if;
+
+  -- ==================================================================
+  -- 3. Insert ledger entry + audit log
+  -- ==================================================================
+  insert into public.credit_ledger (user_id, delta, reason)
+  values (p_user_id, p_amount, trim(p_reason))
+  returning id into v_entry_id;
+
+  select balance
+    into v_new_balance
+    from public.credit_accounts
+   where user_id = p_user_id;
+
+  insert into public.audit_log
+         (actor_user_id, action, entity_type, entity_id, metadata)
+  values (
+    v_uid,
+    'credits.granted',
+    'profile',
+    p_user_id,
+    jsonb_build_object(
+      'amount',          p_amount,
+      'reason',          trim(p_reason),
+      'new_balance',     v_new_balance,
+      'ledger_entry_id', v_entry_id
+    )
+  );
+
+  return jsonb_build_object(
+    'user_id',     p_user_id,
+    'granted',     p_amount,
+    'new_balance', v_new_balance
+  );
+end;
+$$;
+
+comment on function public.admin_grant_credits(uuid, int, text) is
+  'RPC – ADMIN-only.  Adds credits to a user''s balance and records '
+  'the grant in the audit log.';
+
+revoke execute on function public.admin_grant_credits(uuid, int, text) from public;
+grant  execute on function public.admin_grant_credits(uuid, int, text) to authenticated;
+
+
+-- ============================================================================
+-- 4b. business_grant_credits
+-- ============================================================================
+create or replace function public.business_grant_credits(
+  p_user_id   uuid,
+  p_amount    int,
+  p_reason    text,
+  p_thread_id uuid
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_uid           uuid;
+  v_role          text;
+  v_business_id   uuid;
+  v_entry_id      uuid;
+  v_new_balance   int;
+  v_thread        record;
+  v_msg_id        uuid;
+begin
+  -- ==================================================================
+  -- 1. Authenticate & authorise (BUSINESS only)
+  -- ==================================================================
+  v_uid := auth.uid();
+  if v_uid is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select role, business_id
+    into strict v_role, v_business_id
+    from public.profiles
+   where id = v_uid;
+
+  if v_role is distinct from 'BUSINESS' then
+    raise exception 'Only business users can use this function';
+  end if;
+
+  if v_business_id is null then
+    raise exception 'Business user must be associated with a business';
+  end if;
+
+  -- ==================================================================
+  -- 2. Validate inputs
+  -- ==================================================================
+  if p_amount <= 0 then
+    raise exception 'Amount must be a positive integer';
+  end if;
+
+  if p_reason is null or trim(p_reason) = '' then
+    raise exception 'A reason is required when granting credits';
+  end if;
+
+  -- Target user must exist
+  if not exists (select 1 from public.profiles where id = p_user_id) then
+    raise exception 'Target user not found';
+  end if;
+
+  -- Thread must exist
+  select * into v_thread
+    from public.message_threads
+   where id = p_thread_id;
+
+  if not found then
+    raise exception 'Thread not found';
+  end if;
+
+  -- ==================================================================
+  -- 3. Verify caller is participant in the thread
+  --    Business can grant credits if:
+  --    a) They created the thread, OR
+  --    b) Thread's business_id matches their business_id, OR
+  --    c) They have sent/received messages in this thread
+  -- ==================================================================
+  if v_thread.created_by <> v_uid
+     and (v_thread.business_id is null or v_thread.business_id <> v_business_id)
+     and not exists (
+       select 1 from public.messages m
+        where m.thread_id = p_thread_id
+          and (m.sender_id = v_uid or m.recipient_id = v_uid)
+     )
+  then
+    raise exception 'Not authorized to grant credits in this thread';
+  end if;
+
+  -- ==================================================================
+  -- 4. Insert ledger entry + audit log
+  -- ==================================================================
+  insert into public.credit_ledger (user_id, delta, reason)
+  values (
+    p_user_id,
+    p_amount,
+    format('%s (thread: %s)', trim(p_reason), p_thread_id)
+  )
+  returning id into v_entry_id;
+
+  select balance
+    into v_new_balance
+    from public.credit_accounts
+   where user_id = p_user_id;
+
+  insert into public.audit_log
+         (actor_user_id, action, entity_type, entity_id, metadata)
+  values (
+    v_uid,
+    'credits.business_granted',
+    'profile',
+    p_user_id,
+    jsonb_build_object(
+      'amount',          p_amount,
+      'reason',          trim(p_reason),
+      'new_balance',     v_new_balance,
+      'thread_id',       p_thread_id,
+      'business_id',     v_business_id,
+      'ledger_entry_id', v_entry_id
+    )
+  );
+
+  -- ==================================================================
+  -- 5. Post automatic confirmation message in thread
+  -- ==================================================================
+  insert into public.messages
+         (thread_id, sender_id, recipient_id, body)
+  values (
+    p_thread_id,
+    v_uid,
+    p_user_id,
+    format('Granted %s credits. Reason: %s', p_amount, trim(p_reason))
+  )
+  returning id into v_msg_id;
+
+  -- Update thread last_message_at
+  update public.message_threads
+     set last_message_at = now()
+   where id = p_thread_id;
+
+  return jsonb_build_object(
+    'user_id',     p_user_id,
+    'granted',     p_amount,
+    'new_balance', v_new_balance,
+    'message_id',  v_msg_id
+  );
+end;
+$$;
+
+comment on function public.business_grant_credits(uuid, int, text, uuid) is
+  'RPC – BUSINESS-only. Grants credits to a user within a message thread context. '
+  'Posts an automatic confirmation message in the thread.';
+
+revoke execute on function public.business_grant_credits(uuid, int, text, uuid) from public;
+grant  execute on function public.business_grant_credits(uuid, int, text, uuid) to authenticated;
+
+
+-- ============================================================================
+-- 4c. create_booking
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.create_booking(
+  p_car_unit_id uuid,
+  p_start_ts    timestamptz,
+  p_end_ts      timestamptz,
+  p_promo_code  text DEFAULT NULL,
+  p_hold_id     uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_uid          uuid;
+  v_role         text;
+  v_unit         record;
+  v_policy       public.pricing_policies%ROWTYPE;
+  v_promo        public.promo_codes%ROWTYPE;
+  v_start_utc    timestamp;
+  v_end_utc      timestamp;
+  v_duration_min int;
+  v_quote        jsonb;
+  v_subtotal     int;
+  v_discount     int := 0;
+  v_credits      int;
+  v_balance      int;
+  v_booking_id   uuid;
+  v_new_balance  int;
+BEGIN
+  -- ================================================================
+  -- 1. Auth: only CUSTOMERs may book
+  -- ================================================================
+  v_uid := auth.uid();
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT role INTO v_role
+    FROM public.profiles
+   WHERE id = v_uid;
+
+  IF v_role IS NULL OR v_role <> 'CUSTOMER' THEN
+    RAISE EXCEPTION 'Only customers may create bookings';
+  END IF;
+
+  -- ================================================================
+  -- 2. Basic time validation
+  -- ================================================================
+  IF p_end_ts <= p_start_ts THEN
+    RAISE EXCEPTION 'End time must be after start time';
+  END IF;
+
+  v_start_utc    := p_start_ts AT TIME ZONE 'UTC';
+  v_end_utc      := p_end_ts   AT TIME ZONE 'UTC';
+  v_duration_min := extract(epoch FROM (p_end_ts - p_start_ts))::int / 60;
+
+  -- ================================================================
+  -- 3. Fetch and validate unit (locked: serializes with holds)
+  -- ================================================================
+  SELECT * INTO v_unit
+    FROM public.car_units
+   WHERE id = p_car_unit_id
+     AND active = true
+     FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Car unit not found or is not currently active';
+  END IF;
+
+  -- ================================================================
+  -- 4. Resolve the unit's pricing policy; enforce its minimum
+  -- ================================================================
+  SELECT * INTO v_policy
+    FROM public.pricing_policies
+   WHERE id = public.resolve_pricing_policy_id(p_car_unit_id);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No pricing policy configured for this car unit';
+  END IF;
+
+  IF v_duration_min < v_policy.min_duration_minutes THEN
+    RAISE EXCEPTION 'Minimum booking duration for this car is % minutes', v_policy.min_duration_minutes;
+  END IF;
+
+  -- ================================================================
+  -- 5. Blackout check
+  -- ================================================================
+  IF EXISTS (
+    SELECT 1
+      FROM public.car_blackouts b
+     WHERE b.car_unit_id = p_car_unit_id
+       AND b.start_ts    < p_end_ts
+       AND b.end_ts      > p_start_ts
+  ) THEN
+    RAISE EXCEPTION 'Car unit is blacked out during the requested time window';
+  END IF;
+
+  -- Someone else is mid-booking on this window (the caller's own hold,
+  -- p_hold_id or not, never blocks them)
+  IF public.unit_is_held(p_car_unit_id, p_start_ts, p_end_ts, v_uid) THEN
+    RAISE EXCEPTION 'Another customer is completing a booking for this car unit — please pick another time or unit';
+  END IF;
+
+  -- ================================================================
+  -- 6. Price the rental (policy + surge), then the promo discount
+  -- ================================================================
+  v_quote    := public.quote_booking_price(p_car_unit_id, p_start_ts, p_end_ts);
+  v_subtotal := (v_quote->>'total_credits')::int;
+
+  IF nullif(btrim(p_promo_code), '') IS NOT NULL THEN
+    v_promo    := public.validate_promo_code(p_promo_code, p_car_unit_id, v_uid);
+    v_discount := public.promo_discount_credits(
+                    v_promo.discount_type, v_promo.discount_value, v_subtotal);
+  END IF;
+
+  v_credits := v_subtotal - v_discount;
+
+  -- ================================================================
+  -- 7. Credit-balance check
+  -- ================================================================
+  -- Locked until commit: a concurrent debit by the same user waits here
+  v_balance := public.lock_credit_account(v_uid);
+
+  IF v_balance < v_credits THEN
+    RAISE EXCEPTION 'Insufficient credit balance (have %, need %)', v_balance, v_credits;
+  END IF;
+
+  -- ================================================================
+  -- 8. Insert booking + debit ledger + audit log (atomic)
+  -- ================================================================
+  BEGIN
+    INSERT INTO public.bookings
+           (car_unit_id, customer_id, start_ts, end_ts, credits_charged,
+            pricing_mode, hourly_rate_used, day_price_used,
+            billable_days, duration_minutes, pricing_policy_id,
+            base_credits, surcharge_credits, surcharges,
+            promo_code_id, discount_credits)
+    VALUES (p_car_unit_id, v_uid, p_start_ts, p_end_ts, v_credits,
+            v_quote->>'pricing_mode', (v_quote->>'hourly_rate')::int,
+            (v_quote->>'day_rate')::int, (v_quote->>'billable_days')::int,
+            v_duration_min, v_policy.id,
+            (v_quote->>'base_credits')::int, (v_quote->>'surcharge_credits')::int,
+            v_quote->'surcharges',
+            v_promo.id, v_discount)
+    RETURNING id INTO v_booking_id;
+
+    -- A 100 % promo makes the booking free: nothing to debit
+    IF v_credits > 0 THEN
+      INSERT INTO public.credit_ledger (user_id, delta, reason)
+      VALUES (v_uid, -v_credits,
+              format('Booking %s: %s → %s', v_booking_id, v_start_utc, v_end_utc));
+    END IF;
+
+    INSERT INTO public.audit_log (actor_user_id, action, entity_type, entity_id, metadata)
+    VALUES (v_uid, 'booking.created', 'booking', v_booking_id,
+      jsonb_build_object(
+        'car_unit_id',       p_car_unit_id,
+        'start_ts',          v_start_utc,
+        'end_ts',            v_end_utc,
+        'duration_hours',    v_quote->'duration_hours',
+        'pricing_mode',      v_quote->'pricing_mode',
+        'hourly_rate',       v_quote->'hourly_rate',
+        'day_price',         v_quote->'day_rate',
+        'full_weeks',        v_quote->'full_weeks',
+        'full_days',         v_quote->'full_days',
+        'remainder_hours',   v_quote->'remainder_hours',
+        'remainder_cost',    v_quote->'remainder_cost',
+        'base_credits',      v_quote->'base_credits',
+        'surcharge_credits', v_quote->'surcharge_credits',
+        'surcharges',        v_quote->'surcharges',
+        'promo_code',        v_promo.code,
+        'discount_credits',  v_discount,
+        'credits_charged',   v_credits,
+        'hold_id',           p_hold_id,
+        'policy_version',    v_policy.version
+    ));
+
+    IF v_promo.id IS NOT NULL THEN
+      INSERT INTO public.audit_log (actor_user_id, action, entity_type, entity_id, metadata)
+      VALUES (v_uid, 'promo_code.redeemed', 'promo_code', v_promo.id,
+        jsonb_build_object(
+          'code',             v_promo.code,
+          'booking_id',       v_booking_id,
+          'subtotal_credits', v_subtotal,
+          'discount_credits', v_discount
+      ));
+    END IF;
+  EXCEPTION
+    WHEN unique_violation OR exclusion_violation THEN
+      RAISE EXCEPTION 'This car unit is already booked during the requested time window';
+  END;
+
+  -- The hold has become the booking
+  DELETE FROM public.booking_holds
+   WHERE customer_id = v_uid
+     AND (id = p_hold_id OR car_unit_id = p_car_unit_id);
+
+  -- Compute new balance
+  SELECT balance
+    INTO v_new_balance
+    FROM public.credit_accounts
+   WHERE user_id = v_uid;
+
+  RETURN jsonb_build_object(
+    'booking_id',        v_booking_id,
+    'credits_charged',   v_credits,
+    'balance_after',     v_new_balance,
+    'pricing_mode',      v_quote->'pricing_mode',
+    'duration_hours',    v_quote->'duration_hours',
+    'hourly_rate',       v_quote->'hourly_rate',
+    'day_rate',          v_quote->'day_rate',
+    'full_weeks',        v_quote->'full_weeks',
+    'full_days',         v_quote->'full_days',
+    'remainder_hours',   v_quote->'remainder_hours',
+    'remainder_cost',    v_quote->'remainder_cost',
+    'base_credits',      v_quote->'base_credits',
+    'surcharge_credits', v_quote->'surcharge_credits',
+    'surcharges',        v_quote->'surcharges',
+    'promo_code',        v_promo.code,
+    'discount_credits',  v_discount,
+    'policy_version',    v_policy.version
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_booking(uuid, timestamptz, timestamptz, text, uuid) FROM public;
+GRANT EXECUTE ON FUNCTION public.create_booking(uuid, timestamptz, timestamptz, text, uuid) TO authenticated;
+
+COMMENT ON FUNCTION public.create_booking(uuid, timestamptz, timestamptz, text, uuid) IS
+  'Creates a booking priced by quote_booking_price() (resolved pricing policy + '
+  'surge surcharges) less an optional promo code discount, debits the ledger '
+  'and records the price breakdown. Converts the caller''s hold on the '
+  'window (if any) and refuses windows held by other customers.';
+
+
+-- ============================================================================
+-- 4d. create_group_booking
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.create_group_booking(
+  p_car_model_id uuid,
+  p_quantity     int,
+  p_start_ts     timestamptz,
+  p_end_ts       timestamptz,
+  p_color        text    DEFAULT NULL,
+  p_same_color   boolean DEFAULT false
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_uid          uuid;
+  v_role         text;
+  v_color        text;
+  v_unit_ids     uuid[];
+  v_unit_id      uuid;
+  v_policy       public.pricing_policies%ROWTYPE;
+  v_duration_min int;
+  v_quote        jsonb;
+  v_quotes       jsonb := '{}'::jsonb;
+  v_total        int := 0;
+  v_balance      int;
+  v_group_id     uuid;
+  v_booking_id   uuid;
+  v_booking_ids  uuid[] := '{}';
+  v_new_balance  int;
+BEGIN
+  -- ================================================================
+  -- 1. Auth: only CUSTOMERs may book
+  -- ================================================================
+  v_uid := auth.uid();
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT role INTO v_role
+    FROM public.profiles
+   WHERE id = v_uid;
+
+  IF v_role IS NULL OR v_role <> 'CUSTOMER' THEN
+    RAISE EXCEPTION 'Only customers may create bookings';
+  END IF;
+
+  -- ================================================================
+  -- 2. Input validation
+  -- ================================================================
+  IF p_quantity IS NULL OR p_quantity < 2 OR p_quantity > 10 THEN
+    RAISE EXCEPTION 'A group booking is 2 to 10 cars';
+  END IF;
+
+  IF p_end_ts <= p_start_ts THEN
+    RAISE EXCEPTION 'End time must be after start time';
+  END IF;
+
+  v_duration_min := extract(epoch FROM (p_end_ts - p_start_ts))::int / 60;
+  v_color        := nullif(btrim(p_color), '');
+
+  -- ================================================================
+  -- 3. Pick units: active, free, not blacked out, open at pick-up
+  --    and return, minimum met.
+  --    With p_same_color and no explicit color, use the color with
+  --    the most free units.
+  -- ================================================================
+  IF v_color IS NULL AND p_same_color THEN
+    SELECT u.color INTO v_color
+      FROM public.car_units u
+     WHERE u.car_model_id = p_car_model_id
+       AND u.active = true
+       AND u.color IS NOT NULL
+       AND NOT public.unit_booked_during(u.id, p_start_ts, p_end_ts)
+       AND NOT EXISTS (
+             SELECT 1 FROM public.car_blackouts bo
+              WHERE bo.car_unit_id = u.id
+                AND bo.start_ts < p_end_ts
+                AND bo.end_ts   > p_start_ts)
+       AND NOT public.unit_is_held(u.id, p_start_ts, p_end_ts, v_uid)
+       AND public.unit_open_for_window(u.id, p_start_ts, p_end_ts)
+     GROUP BY u.color
+    HAVING count(*) >= p_quantity
+     ORDER BY count(*) DESC, u.color
+     LIMIT 1;
+
+    IF v_color IS NULL THEN
+      RAISE EXCEPTION 'No single color has % units available for this window', p_quantity;
+    END IF;
+  END IF;
+
+  SELECT array_agg(x.id ORDER BY x.created_at, x.id)
+    INTO v_unit_ids
+    FROM (
+      SELECT u.id, u.created_at
+        FROM public.car_units u
+        JOIN public.pricing_policies pp
+          ON pp.id = public.resolve_pricing_policy_id(u.id)
+       WHERE u.car_model_id = p_car_model_id
+         AND u.active = true
+         AND (v_color IS NULL OR lower(u.color) = lower(v_color))
+         AND pp.min_duration_minutes <= v_duration_min
+         AND NOT public.unit_booked_during(u.id, p_start_ts, p_end_ts)
+         AND NOT EXISTS (
+               SELECT 1 FROM public.car_blackouts bo
+                WHERE bo.car_unit_id = u.id
+                  AND bo.start_ts < p_end_ts
+                  AND bo.end_ts   > p_start_ts)
+         AND NOT public.unit_is_held(u.id, p_start_ts, p_end_ts, v_uid)
+         AND public.unit_open_for_window(u.id, p_start_ts, p_end_ts)
+       ORDER BY u.created_at, u.id
+       LIMIT p_quantity
+    ) x;
+
+  IF coalesce(array_length(v_unit_ids, 1), 0) < p_quantity THEN
+    RAISE EXCEPTION 'Only % matching units are available for this window (need %)',
+      coalesce(array_length(v_unit_ids, 1), 0), p_quantity;
+  END IF;
+
+  -- Lock the picked units, then make sure no hold slipped in meanwhile
+  PERFORM 1
+     FROM public.car_units
+    WHERE id = ANY (v_unit_ids)
+    ORDER BY id
+      FOR UPDATE;
+
+  FOREACH v_unit_id IN ARRAY v_unit_ids LOOP
+    IF public.unit_is_held(v_unit_id, p_start_ts, p_end_ts, v_uid) THEN
+      RAISE EXCEPTION 'One of the selected units was just taken by someone else — please try again';
+    END IF;
+  END LOOP;
+
+  -- ================================================================
+  -- 4. Price every unit, then check the combined total
+  -- ================================================================
+  FOREACH v_unit_id IN ARRAY v_unit_ids LOOP
+    v_quote  := public.quote_booking_price(v_unit_id, p_start_ts, p_end_ts);
+    v_quotes := v_quotes || jsonb_build_object(v_unit_id::text, v_quote);
+    v_total  := v_total + (v_quote->>'total_credits')::int;
+  END LOOP;
+
+  -- Locked until commit: a concurrent debit by the same user waits here
+  v_balance := public.lock_credit_account(v_uid);
+
+  IF v_balance < v_total THEN
+    RAISE EXCEPTION 'Insufficient credit balance (have %, need %)', v_balance, v_total;
+  END IF;
+
+  -- ================================================================
+  -- 5. Insert group + bookings + one ledger debit + audit (atomic)
+  -- ================================================================
+  INSERT INTO public.booking_groups
+         (customer_id, car_model_id, color, unit_count, start_ts, end_ts, credits_charged)
+  VALUES (v_uid, p_car_model_id, v_color, p_quantity, p_start_ts, p_end_ts, v_total)
+  RETURNING id INTO v_group_id;
+
+  BEGIN
+    FOREACH v_unit_id IN ARRAY v_unit_ids LOOP
+      v_quote := v_quotes->(v_unit_id::text);
+
+      SELECT * INTO v_policy
+        FROM public.pricing_policies
+       WHERE id = public.resolve_pricing_policy_id(v_unit_id);
+
+      INSERT INTO public.bookings
+             (car_unit_id, customer_id, start_ts, end_ts, credits_charged,
+              pricing_mode, hourly_rate_used, day_price_used,
+              billable_days, duration_minutes, pricing_policy_id,
+              base_credits, surcharge_credits, surcharges, group_id)
+      VALUES (v_unit_id, v_uid, p_start_ts, p_end_ts, (v_quote->>'total_credits')::int,
+              v_quote->>'pricing_mode', (v_quote->>'hourly_rate')::int,
+              (v_quote->>'day_rate')::int, (v_quote->>'billable_days')::int,
+              v_duration_min, v_policy.id,
+              (v_quote->>'base_credits')::int, (v_quote->>'surcharge_credits')::int,
+              v_quote->'surcharges', v_group_id)
+      RETURNING id INTO v_booking_id;
+
+      v_booking_ids := v_booking_ids || v_booking_id;
+
+      INSERT INTO public.audit_log (actor_user_id, action, entity_type, entity_id, metadata)
+      VALUES (v_uid, 'booking.created', 'booking', v_booking_id,
+        jsonb_build_object(
+          'car_unit_id',       v_unit_id,
+          'group_id',          v_group_id,
+          'start_ts',          p_start_ts AT TIME ZONE 'UTC',
+          'end_ts',            p_end_ts   AT TIME ZONE 'UTC',
+          'pricing_mode',      v_quote->'pricing_mode',
+          'base_credits',      v_quote->'base_credits',
+          'surcharge_credits', v_quote->'surcharge_credits',
+          'credits_charged',   v_quote->'total_credits',
+          'policy_version',    v_policy.version
+      ));
+    END LOOP;
+  EXCEPTION
+    WHEN unique_violation OR exclusion_violation THEN
+      RAISE EXCEPTION 'One of the selected units was just booked by someone else — please try again';
+  END;
+
+  -- The caller's own holds on these units are now bookings
+  DELETE FROM public.booking_holds
+   WHERE customer_id = v_uid
+     AND car_unit_id = ANY (v_unit_ids);
+
+  IF v_total > 0 THEN
+    INSERT INTO public.credit_ledger (user_id, delta, reason)
+    VALUES (v_uid, -v_total,
+            format('Group booking %s: %s cars, %s → %s',
+                   v_group_id, p_quantity,
+                   p_start_ts AT TIME ZONE 'UTC', p_end_ts AT TIME ZONE 'UTC'));
+  END IF;
+
+  INSERT INTO public.audit_log (actor_user_id, action, entity_type, entity_id, metadata)
+  VALUES (v_uid, 'booking_group.created', 'booking_group', v_group_id,
+    jsonb_build_object(
+      'car_model_id',    p_car_model_id,
+      'color',           v_color,
+      'unit_count',      p_quantity,
+      'booking_ids',     to_jsonb(v_booking_ids),
+      'car_unit_ids',    to_jsonb(v_unit_ids),
+      'start_ts',        p_start_ts AT TIME ZONE 'UTC',
+      'end_ts',          p_end_ts   AT TIME ZONE 'UTC',
+      'credits_charged', v_total
+  ));
+
+  SELECT balance
+    INTO v_new_balance
+    FROM public.credit_accounts
+   WHERE user_id = v_uid;
+
+  RETURN jsonb_build_object(
+    'group_id',        v_group_id,
+    'booking_ids',     to_jsonb(v_booking_ids),
+    'car_unit_ids',    to_jsonb(v_unit_ids),
+    'color',           v_color,
+    'credits_charged', v_total,
+    'balance_after',   v_new_balance
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_group_booking(uuid, int, timestamptz, timestamptz, text, boolean) FROM public;
+GRANT EXECUTE ON FUNCTION public.create_group_booking(uuid, int, timestamptz, timestamptz, text, boolean) TO authenticated;
+
+COMMENT ON FUNCTION public.create_group_booking(uuid, int, timestamptz, timestamptz, text, boolean) IS
+  'Books N units of a car model for the same window in one transaction '
+  '(optionally one color), with a single combined ledger debit. Fails as a '
+  'whole if any unit cannot be booked.';
+
+
+-- ============================================================================
+-- 4e. create_booking_series
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.create_booking_series(
+  p_car_unit_id uuid,
+  p_start_ts    timestamptz,
+  p_end_ts      timestamptz,
+  p_frequency   text,
+  p_occurrences int  DEFAULT NULL,
+  p_until_date  date DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_uid          uuid;
+  v_role         text;
+  v_policy       public.pricing_policies%ROWTYPE;
+  v_duration_min int;
+  v_plan         record;
+  v_bookable     int := 0;
+  v_total        int := 0;
+  v_balance      int;
+  v_series_id    uuid;
+  v_booking_id   uuid;
+  v_booked       jsonb := '[]'::jsonb;
+  v_skipped      jsonb := '[]'::jsonb;
+  v_new_balance  int;
+BEGIN
+  -- ================================================================
+  -- 1. Auth: only CUSTOMERs may book
+  -- ================================================================
+  v_uid := auth.uid();
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT role INTO v_role
+    FROM public.profiles
+   WHERE id = v_uid;
+
+  IF v_role IS NULL OR v_role <> 'CUSTOMER' THEN
+    RAISE EXCEPTION 'Only customers may create bookings';
+  END IF;
+
+  -- ================================================================
+  -- 2. Unit (locked: serializes with holds and other bookings)
+  -- ================================================================
+  PERFORM 1
+     FROM public.car_units
+    WHERE id = p_car_unit_id
+      AND active = true
+      FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Car unit not found or is not currently active';
+  END IF;
+
+  SELECT * INTO v_policy
+    FROM public.pricing_policies
+   WHERE id = public.resolve_pricing_policy_id(p_car_unit_id);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No pricing policy configured for this car unit';
+  END IF;
+
+  v_duration_min := extract(epoch FROM (p_end_ts - p_start_ts))::int / 60;
+
+  IF v_duration_min < v_policy.min_duration_minutes THEN
+    RAISE EXCEPTION 'Minimum booking duration for this car is % minutes', v_policy.min_duration_minutes;
+  END IF;
+
+  -- ================================================================
+  -- 3. Price the bookable occurrences, then check the combined total
+  -- ================================================================
+  FOR v_plan IN
+    SELECT * FROM public.booking_series_plan(p_car_unit_id, p_start_ts, p_end_ts,
+                    p_frequency, p_occurrences, p_until_date, v_uid)
+  LOOP
+    IF v_plan.conflict IS NULL THEN
+      v_bookable := v_bookable + 1;
+      v_total    := v_total + (v_plan.quote->>'total_credits')::int;
+    END IF;
+  END LOOP;
+
+  IF v_bookable = 0 THEN
+    RAISE EXCEPTION 'None of the occurrences are available';
+  END IF;
+
+  -- Locked until commit: a concurrent debit by the same user waits here
+  v_balance := public.lock_credit_account(v_uid);
+
+  IF v_balance < v_total THEN
+    RAISE EXCEPTION 'Insufficient credit balance (have %, need %)', v_balance, v_total;
+  END IF;
+
+  -- ================================================================
+  -- 4. Insert series + bookings + one ledger debit + audit (atomic)
+  -- ================================================================
+  INSERT INTO public.booking_series
+         (customer_id, car_unit_id, frequency, first_start_ts, first_end_ts,
+          occurrences_requested, until_date, credits_charged)
+  VALUES (v_uid, p_car_unit_id, p_frequency, p_start_ts, p_end_ts,
+          p_occurrences, p_until_date, v_total)
+  RETURNING id INTO v_series_id;
+
+  BEGIN
+    FOR v_plan IN
+      SELECT * FROM public.booking_series_plan(p_car_unit_id, p_start_ts, p_end_ts,
+                      p_frequency, p_occurrences, p_until_date, v_uid)
+    LOOP
+      IF v_plan.conflict IS NOT NULL THEN
+        v_skipped := v_skipped || jsonb_build_object(
+          'occurrence', v_plan.occurrence,
+          'start_ts',   v_plan.start_ts,
+          'end_ts',     v_plan.end_ts,
+          'conflict',   v_plan.conflict);
+        CONTINUE;
+      END IF;
+
+      INSERT INTO public.bookings
+             (car_unit_id, customer_id, start_ts, end_ts, credits_charged,
+              pricing_mode, hourly_rate_used, day_price_used,
+              billable_days, duration_minutes, pricing_policy_id,
+              base_credits, surcharge_credits, surcharges, series_id)
+      VALUES (p_car_unit_id, v_uid, v_plan.start_ts, v_plan.end_ts,
+              (v_plan.quote->>'total_credits')::int,
+              v_plan.quote->>'pricing_mode', (v_plan.quote->>'hourly_rate')::int,
+              (v_plan.quote->>'day_rate')::int, (v_plan.quote->>'billable_days')::int,
+              v_duration_min, v_policy.id,
+              (v_plan.quote->>'base_credits')::int,
+              (v_plan.quote->>'surcharge_credits')::int,
+              v_plan.quote->'surcharges', v_series_id)
+      RETURNING id INTO v_booking_id;
+
+      v_booked := v_booked || jsonb_build_object(
+        'occurrence', v_plan.occurrence,
+        'booking_id', v_booking_id,
+        'start_ts',   v_plan.start_ts,
+        'end_ts',     v_plan.end_ts,
+        'credits',    (v_plan.quote->>'total_credits')::int);
+
+      INSERT INTO public.audit_log (actor_user_id, action, entity_type, entity_id, metadata)
+      VALUES (v_uid, 'booking.created', 'booking', v_booking_id,
+        jsonb_build_object(
+          'car_unit_id',       p_car_unit_id,
+          'series_id',         v_series_id,
+          'occurrence',        v_plan.occurrence,
+          'start_ts',          v_plan.start_ts AT TIME ZONE 'UTC',
+          'end_ts',            v_plan.end_ts   AT TIME ZONE 'UTC',
+          'pricing_mode',      v_plan.quote->'pricing_mode',
+          'base_credits',      v_plan.quote->'base_credits',
+          'surcharge_credits', v_plan.quote->'surcharge_credits',
+          'credits_charged',   v_plan.quote->'total_credits',
+          'policy_version',    v_policy.version
+      ));
+    END LOOP;
+  EXCEPTION
+    WHEN unique_violation OR exclusion_violation THEN
+      RAISE EXCEPTION 'One of the occurrences was just booked by someone else — please preview again';
+  END;
+
+  IF v_total > 0 THEN
+    INSERT INTO public.credit_ledger (user_id, delta, reason)
+    VALUES (v_uid, -v_total,
+            format('Recurring booking %s: %s occurrences', v_series_id, v_bookable));
+  END IF;
+
+  -- The caller's hold on the first occurrence is now a booking
+  DELETE FROM public.booking_holds
+   WHERE customer_id = v_uid
+     AND car_unit_id = p_car_unit_id;
+
+  INSERT INTO public.audit_log (actor_user_id, action, entity_type, entity_id, metadata)
+  VALUES (v_uid, 'booking_series.created', 'booking_series', v_series_id,
+    jsonb_build_object(
+      'car_unit_id',     p_car_unit_id,
+      'frequency',       p_frequency,
+      'occurrences',     p_occurrences,
+      'until_date',      p_until_date,
+      'booked',          v_bookable,
+      'skipped',         v_skipped,
+      'credits_charged', v_total
+  ));
+
+  SELECT balance
+    INTO v_new_balance
+    FROM public.credit_accounts
+   WHERE user_id = v_uid;
+
+  RETURN jsonb_build_object(
+    'series_id',       v_series_id,
+    'booked',          v_booked,
+    'skipped',         v_skipped,
+    'credits_charged', v_total,
+    'balance_after',   v_new_balance
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_booking_series(uuid, timestamptz, timestamptz, text, int, date) FROM public;
+GRANT EXECUTE ON FUNCTION public.create_booking_series(uuid, timestamptz, timestamptz, text, int, date) TO authenticated;
+
+COMMENT ON FUNCTION public.create_booking_series(uuid, timestamptz, timestamptz, text, int, date) IS
+  'Books every non-conflicting occurrence of a daily or weekly series on one '
+  'car unit in a single transaction with one combined ledger debit. '
+  'Conflicting occurrences are skipped and returned.';
+
+
+-- ============================================================================
+-- 4f. modify_booking (the lock is only taken when the change costs more)
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.modify_booking(
+  p_booking_id uuid,
+  p_start_ts   timestamptz,
+  p_end_ts     timestamptz
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_uid          uuid;
+  v_booking      public.bookings%ROWTYPE;
+  v_policy       public.pricing_policies%ROWTYPE;
+  v_promo        public.promo_codes%ROWTYPE;
+  v_duration_min int;
+  v_quote        jsonb;
+  v_subtotal     int;
+  v_discount     int := 0;
+  v_credits      int;
+  v_delta        int;
+  v_balance      int;
+  v_new_balance  int;
+BEGIN
+  -- ================================================================
+  -- 1. Auth + lock the booking
+  -- ================================================================
+  v_uid := auth.uid();
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_booking
+    FROM public.bookings
+   WHERE id = p_booking_id
+     FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  IF v_booking.customer_id <> v_uid THEN
+    RAISE EXCEPTION 'Not authorised to modify this booking';
+  END IF;
+
+  IF v_booking.status <> 'CONFIRMED' THEN
+    RAISE EXCEPTION 'Only confirmed bookings can be modified';
+  END IF;
+
+  -- ================================================================
+  -- 2. Time validation
+  --    Upcoming bookings can move freely into the future; a rental
+  --    already under way keeps its start and can only change its end.
+  -- ================================================================
+  IF p_end_ts <= p_start_ts THEN
+    RAISE EXCEPTION 'End time must be after start time';
+  END IF;
+
+  IF v_booking.end_ts <= now() THEN
+    RAISE EXCEPTION 'This booking has already ended';
+  END IF;
+
+  IF v_booking.start_ts <= now() THEN
+    IF p_start_ts <> v_booking.start_ts THEN
+      RAISE EXCEPTION 'The rental has started; only the end time can be changed';
+    END IF;
+    IF p_end_ts <= now() THEN
+      RAISE EXCEPTION 'New end time must be in the future';
+    END IF;
+  ELSIF p_start_ts <= now() THEN
+    RAISE EXCEPTION 'New start time must be in the future';
+  END IF;
+
+  IF p_start_ts = v_booking.start_ts AND p_end_ts = v_booking.end_ts THEN
+    RAISE EXCEPTION 'The booking already has these times';
+  END IF;
+
+  v_duration_min := extract(epoch FROM (p_end_ts - p_start_ts))::int / 60;
+
+  -- ================================================================
+  -- 3. Unit still bookable; minimum duration under its current policy
+  -- ================================================================
+  PERFORM 1
+     FROM public.car_units
+    WHERE id = v_booking.car_unit_id
+      AND active = true
+      FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Car unit is no longer active';
+  END IF;
+
+  SELECT * INTO v_policy
+    FROM public.pricing_policies
+   WHERE id = public.resolve_pricing_policy_id(v_booking.car_unit_id);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No pricing policy configured for this car unit';
+  END IF;
+
+  IF v_duration_min < v_policy.min_duration_minutes THEN
+    RAISE EXCEPTION 'Minimum booking duration for this car is % minutes', v_policy.min_duration_minutes;
+  END IF;
+
+  -- ================================================================
+  -- 4. Blackout and hold checks
+  -- ================================================================
+  IF EXISTS (
+    SELECT 1
+      FROM public.car_blackouts b
+     WHERE b.car_unit_id = v_booking.car_unit_id
+       AND b.start_ts    < p_end_ts
+       AND b.end_ts      > p_start_ts
+  ) THEN
+    RAISE EXCEPTION 'Car unit is blacked out during the requested time window';
+  END IF;
+
+  IF public.unit_is_held(v_booking.car_unit_id, p_start_ts, p_end_ts, v_uid) THEN
+    RAISE EXCEPTION 'Another customer is completing a booking for this car unit at that time';
+  END IF;
+
+  -- ================================================================
+  -- 5. Re-price the new window (policy + surge, then the booking's promo)
+  -- ================================================================
+  v_quote    := public.quote_booking_price(v_booking.car_unit_id, p_start_ts, p_end_ts);
+  v_subtotal := (v_quote->>'total_credits')::int;
+
+  IF v_booking.promo_code_id IS NOT NULL THEN
+    SELECT * INTO v_promo
+      FROM public.promo_codes
+     WHERE id = v_booking.promo_code_id;
+
+    v_discount := public.promo_discount_credits(
+                    v_promo.discount_type, v_promo.discount_value, v_subtotal);
+  END IF;
+
+  v_credits := v_subtotal - v_discount;
+  v_delta   := v_credits - v_booking.credits_charged;
+
+  -- ================================================================
+  -- 6. Credit-balance check for the extra charge
+  -- ================================================================
+  IF v_delta > 0 THEN
+    -- Locked until commit: a concurrent debit by the same user waits here
+    v_balance := public.lock_credit_account(v_uid);
+
+    IF v_balance < v_delta THEN
+      RAISE EXCEPTION 'Insufficient credit balance (have %, need %)', v_balance, v_delta;
+    END IF;
+  END IF;
+
+  -- ================================================================
+  -- 7. Update booking + ledger difference + audit log (atomic)
+  -- ================================================================
+  BEGIN
+    UPDATE public.bookings
+       SET start_ts          = p_start_ts,
+           end_ts            = p_end_ts,
+           credits_charged   = v_credits,
+           pricing_mode      = v_quote->>'pricing_mode',
+           hourly_rate_used  = (v_quote->>'hourly_rate')::int,
+           day_price_used    = (v_quote->>'day_rate')::int,
+           billable_days     = (v_quote->>'billable_days')::int,
+           duration_minutes  = v_duration_min,
+           pricing_policy_id = v_policy.id,
+           base_credits      = (v_quote->>'base_credits')::int,
+           surcharge_credits = (v_quote->>'surcharge_credits')::int,
+           surcharges        = v_quote->'surcharges',
+           discount_credits  = v_discount
+     WHERE id = p_booking_id;
+  EXCEPTION
+    WHEN exclusion_violation THEN
+      RAISE EXCEPTION 'This car unit is already booked during the requested time window';
+  END;
+
+  IF v_delta <> 0 THEN
+    INSERT INTO public.credit_ledger
+           (user_id, delta, reason, related_booking_id)
+    VALUES (
+      v_uid,
+      -v_delta,
+      format('Booking %s modified: %s → %s',
+             p_booking_id,
+             p_start_ts AT TIME ZONE 'UTC',
+             p_end_ts   AT TIME ZONE 'UTC'),
+      p_booking_id
+    );
+  END IF;
+
+  INSERT INTO public.audit_log (actor_user_id, action, entity_type, entity_id, metadata)
+  VALUES (v_uid, 'booking.modified', 'booking', p_booking_id,
+    jsonb_build_object(
+      'car_unit_id',          v_booking.car_unit_id,
+      'before_start_ts',      v_booking.start_ts AT TIME ZONE 'UTC',
+      'before_end_ts',        v_booking.end_ts   AT TIME ZONE 'UTC',
+      'after_start_ts',       p_start_ts AT TIME ZONE 'UTC',
+      'after_end_ts',         p_end_ts   AT TIME ZONE 'UTC',
+      'before_credits',       v_booking.credits_charged,
+      'after_credits',        v_credits,
+      'credit_delta',         v_delta,
+      'pricing_mode',         v_quote->'pricing_mode',
+      'base_credits',         v_quote->'base_credits',
+      'surcharge_credits',    v_quote->'surcharge_credits',
+      'discount_credits',     v_discount,
+      'policy_version',       v_policy.version
+  ));
+
+  SELECT balance
+    INTO v_new_balance
+    FROM public.credit_accounts
+   WHERE user_id = v_uid;
+
+  RETURN jsonb_build_object(
+    'booking_id',        p_booking_id,
+    'start_ts',          p_start_ts,
+    'end_ts',            p_end_ts,
+    'credits_charged',   v_credits,
+    'credit_delta',      v_delta,
+    'balance_after',     v_new_balance,
+    'pricing_mode',      v_quote->'pricing_mode',
+    'base_credits',      v_quote->'base_credits',
+    'surcharge_credits', v_quote->'surcharge_credits',
+    'discount_credits',  v_discount
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.modify_booking(uuid, timestamptz, timestamptz) FROM public;
+GRANT EXECUTE ON FUNCTION public.modify_booking(uuid, timestamptz, timestamptz) TO authenticated;
+
+COMMENT ON FUNCTION public.modify_booking(uuid, timestamptz, timestamptz) IS
+  'Moves a confirmed booking (owner only) to a new window on the same car '
+  'unit, re-prices it with quote_booking_price() and debits or refunds the '
+  'difference in credit_ledger.';
+
+
+-- ============================================================================
+-- 4g. check_deposit_covered (20250209000038)
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.check_deposit_covered()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_balance int;
+BEGIN
+  SELECT balance
+    INTO v_balance
+    FROM public.credit_accounts
+   WHERE user_id = NEW.customer_id;
+
+  IF v_balance < 0 THEN
+    RAISE EXCEPTION 'Insufficient credit balance for the % credit security deposit (% more needed)',
+      NEW.amount, -v_balance;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.check_deposit_covered() FROM public, anon, authenticated;
+
+-- ============================================================================
+-- 4h. business_check_in_booking (20250209000036) — the late fee is debited
+--     under the account lock, and only as far as the balance covers it:
+--     the car is back either way, so a shortfall doesn't block the
+--     check-in. The uncollected part is audited and told to the customer;
+--     late_fee_credits records what was actually charged.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.business_check_in_booking(
+  p_booking_id uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_uid          uuid;
+  v_business_id  uuid;
+  v_booking      record;
+  v_late_minutes int;
+  v_fee          int := 0;
+  v_charged      int := 0;
+  v_balance      int;
+  v_thread_id    uuid;
+BEGIN
+  v_uid := auth.uid();
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT business_id INTO v_business_id
+    FROM public.profiles
+   WHERE id = v_uid AND role = 'BUSINESS';
+
+  IF v_business_id IS NULL THEN
+    RAISE EXCEPTION 'Only business users with an assigned business can check in cars';
+  END IF;
+
+  SELECT b.*, u.business_id AS unit_business_id, u.credits_per_hour AS unit_rate,
+         coalesce(u.display_name, m.display_name) AS unit_name
+    INTO v_booking
+    FROM public.bookings b
+    JOIN public.car_units u  ON u.id = b.car_unit_id
+    JOIN public.car_models m ON m.id = u.car_model_id
+   WHERE b.id = p_booking_id
+     FOR UPDATE OF b;
+
+  IF NOT FOUND OR v_booking.unit_business_id <> v_business_id THEN
+    RAISE EXCEPTION 'Booking not found or not for one of your units';
+  END IF;
+
+  IF v_booking.status NOT IN ('CHECKED_OUT', 'LATE') THEN
+    RAISE EXCEPTION 'Only picked-up bookings can be checked in (this one is %)', v_booking.status;
+  END IF;
+
+  -- ================================================================
+  -- Late fee: the extra time priced like a rental of that length
+  -- ================================================================
+  v_late_minutes := greatest(floor(extract(epoch FROM (now() - v_booking.end_ts)) / 60), 0)::int;
+
+  IF v_late_minutes > 15 THEN
+    v_fee := (public.compute_rental_price(
+                v_late_minutes,
+                coalesce(v_booking.hourly_rate_used, v_booking.unit_rate, 0),
+                v_booking.pricing_policy_id
+              )->>'total_credits')::int;
+  ELSE
+    v_late_minutes := 0;
+  END IF;
+
+  -- Lock the customer's account before reading the balance the fee is
+  -- taken from, as every other debit does
+  IF v_fee > 0 THEN
+    v_balance := public.lock_credit_account(v_booking.customer_id);
+    v_charged := least(v_fee, greatest(v_balance, 0));
+  END IF;
+
+  UPDATE public.bookings
+     SET status           = 'RETURNED',
+         returned_at      = now(),
+         late_fee_credits = v_charged
+   WHERE id = p_booking_id;
+
+  IF v_charged > 0 THEN
+    INSERT INTO public.credit_ledger (user_id, delta, reason, related_booking_id)
+    VALUES (v_booking.customer_id, -v_charged,
+            format('Late return fee (%s min late)', v_late_minutes), p_booking_id);
+  END IF;
+
+  IF v_charged < v_fee THEN
+    INSERT INTO public.audit_log (actor_user_id, action, entity_type, entity_id, metadata)
+    VALUES (v_uid, 'booking.late_fee_shortfall', 'booking', p_booking_id,
+      jsonb_build_object(
+        'customer_id',  v_booking.customer_id,
+        'late_minutes', v_late_minutes,
+        'late_fee',     v_fee,
+        'charged',      v_charged,
+        'uncollected',  v_fee - v_charged
+    ));
+  END IF;
+
+  IF v_fee > 0 THEN
+    INSERT INTO public.message_threads (subject, created_by, business_id, customer_id)
+    VALUES (format('Late return: %s', v_booking.unit_name),
+            v_uid, v_business_id, v_booking.customer_id)
+    RETURNING id INTO v_thread_id;
+
+    INSERT INTO public.messages (thread_id, sender_id, recipient_id, business_id, body)
+    VALUES (v_thread_id, v_uid, v_booking.customer_id, v_business_id,
+      format('The %s was due back at %s (Central Time) and was returned %s minutes late, '
+             'so a late fee of %s credits applies. %s Reply here if you have any questions.',
+             v_booking.unit_name,
+             to_char(v_booking.end_ts AT TIME ZONE 'America/Chicago', 'Mon DD, HH12:MI AM'),
+             v_late_minutes,
+             v_fee,
+             CASE WHEN v_charged = v_fee
+               THEN format('%s credits have been charged.', v_charged)
+               ELSE format('Your balance covered %s credits, which have been charged; '
+                           'the remaining %s are still owed.', v_charged, v_fee - v_charged)
+             END));
+  END IF;
+
+  RETURN jsonb_build_object(
+    'booking_id',          p_booking_id,
+    'status',              'RETURNED',
+    'returned_at',         now(),
+    'late_minutes',        v_late_minutes,
+    'late_fee',            v_charged,
+    'late_fee_uncollected', v_fee - v_charged
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.business_check_in_booking(uuid) FROM public;
+GRANT EXECUTE ON FUNCTION public.business_check_in_booking(uuid) TO authenticated;
+
+COMMENT ON FUNCTION public.business_check_in_booking(uuid) IS
+  'Marks a picked-up booking on one of the caller''s units as returned and, '
+  'more than 15 minutes late, debits a late fee priced by compute_rental_price '
+  '(as far as the customer''s balance covers it).';
+
+
+-- ############################################################################
+-- 5. Reconciliation
+-- ############################################################################
+
+-- ============================================================================
+-- 5a. credit_reconciliation_runs — one row per check, with the accounts
+--     that disagreed with their ledger
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.credit_reconciliation_runs (
+  id               uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_by           uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  accounts_checked int  NOT NULL,
+  drifted_accounts int  NOT NULL,
+  fixed            boolean NOT NULL DEFAULT false,
+  drift            jsonb NOT NULL DEFAULT '[]'::jsonb,
+  created_at       timestamptz NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.credit_reconciliation_runs.run_by IS
+  'Admin who ran the check; NULL when run by the service-role job';
+COMMENT ON COLUMN public.credit_reconciliation_runs.drift IS
+  'Array of { user_id, balance, ledger_balance, drift } for accounts that '
+  'disagreed (balance NULL = no account row)';
+
+ALTER TABLE public.credit_reconciliation_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "credit_reconciliation_runs: admins can read"
+  ON public.credit_reconciliation_runs FOR SELECT
+  TO authenticated
+  USING (public.is_admin());
+
+-- ============================================================================
+-- 5b. reconcile_credit_accounts — compares every balance with its ledger
+--     sum, records the run and, with p_fix, resets drifted balances to the
+--     ledger
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.reconcile_credit_accounts(
+  p_fix boolean DEFAULT false
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_uid     uuid := auth.uid();
+  v_checked int;
+  v_drift   jsonb;
+  v_run_id  uuid;
+BEGIN
+  -- Admins, or the service-role job (no auth.uid())
+  IF v_uid IS NOT NULL AND NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can reconcile credit accounts';
+  END IF;
+
+  -- Fixing writes the sums back, so hold off new entries until commit
+  IF p_fix THEN
+    LOCK TABLE public.credit_ledger IN SHARE MODE;
+  END IF;
+
+  -- A single statement sees one snapshot, and an entry commits together
+  -- with its balance change, so in-flight bookings don't show as drift
+  WITH ledger AS (
+    SELECT user_id, sum(delta)::int AS ledger_balance
+      FROM public.credit_ledger
+     GROUP BY user_id
+  ), compared AS (
+    SELECT coalesce(a.user_id, l.user_id)  AS user_id,
+           a.balance,
+           coalesce(l.ledger_balance, 0)   AS ledger_balance
+      FROM public.credit_accounts a
+      FULL JOIN ledger l ON l.user_id = a.user_id
+  )
+  SELECT count(*)::int,
+         coalesce(
+           jsonb_agg(jsonb_build_object(
+             'user_id',        user_id,
+             'balance',        balance,
+             'ledger_balance', ledger_balance,
+             'drift',          coalesce(balance, 0) - ledger_balance
+           ) ORDER BY user_id) FILTER (WHERE balance IS DISTINCT FROM ledger_balance),
+           '[]'::jsonb
+         )
+    INTO v_checked, v_drift
+    FROM compared;
+
+  IF p_fix AND jsonb_array_length(v_drift) > 0 THEN
+    INSERT INTO public.credit_accounts (user_id, balance)
+    SELECT (d->>'user_id')::uuid, (d->>'ledger_balance')::int
+      FROM jsonb_array_elements(v_drift) d
+    ON CONFLICT (user_id) DO UPDATE
+      SET balance    = EXCLUDED.balance,
+          updated_at = now();
+  END IF;
+
+  INSERT INTO public.credit_reconciliation_runs
+         (run_by, accounts_checked, drifted_accounts, fixed, drift)
+  VALUES (v_uid, v_checked, jsonb_array_length(v_drift),
+          p_fix AND jsonb_array_length(v_drift) > 0, v_drift)
+  RETURNING id INTO v_run_id;
+
+  INSERT INTO public.audit_log (actor_user_id, action, entity_type, entity_id, metadata)
+  VALUES (v_uid, 'credit_accounts.reconciled', 'credit_reconciliation_run', v_run_id,
+    jsonb_build_object(
+      'accounts_checked', v_checked,
+      'drifted_accounts', jsonb_array_length(v_drift),
+      'fixed',            p_fix AND jsonb_array_length(v_drift) > 0
+  ));
+
+  RETURN jsonb_build_object(
+    'run_id',           v_run_id,
+    'accounts_checked', v_checked,
+    'drifted_accounts', jsonb_array_length(v_drift),
+    'fixed',            p_fix AND jsonb_array_length(v_drift) > 0,
+    'drift',            v_drift
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reconcile_credit_accounts(boolean) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.reconcile_credit_accounts(boolean) TO authenticated;
+
+COMMENT ON FUNCTION public.reconcile_credit_accounts(boolean) IS
+  'ADMIN or service role. Verifies credit_accounts.balance = sum(credit_ledger.delta) '
+  'for every user, records the run in credit_reconciliation_runs and returns '
+  'the drifted accounts. With p_fix, drifted balances are reset to the ledger.';
@@ -0,0 +1,337 @@
+-- ============================================================================
+-- ForzaCars Rentals — Credit purchases
+-- Migration: 20250209000040_credit_purchases
+--
+-- 1. credit_packages — self-serve credit bundles and their price
+-- 2. credit_purchases — one checkout per purchase attempt
+--    (PENDING → PAID or FAILED)
+-- 3. RLS: anyone can read active packages; customers read their own
+--    purchases; admins read everything
+-- 4. start_credit_purchase RPC (customer) — records a PENDING purchase
+--    priced from the package
+-- 5. fulfill_credit_purchase / fail_credit_purchase — service role only,
+--    called by the payment webhook route
+--
+-- The payment itself happens at a provider (src/lib/payments): the app
+-- opens a checkout session for the PENDING purchase and the provider's
+-- webhook reports the outcome. Providers deliver webhooks at least once,
+-- so fulfillment locks the purchase row and only the first successful
+-- event writes the credit_ledger entry; redeliveries are no-ops.
+-- ============================================================================
+
+
+-- ############################################################################
+-- 1. credit_packages
+-- ############################################################################
+
+CREATE TABLE IF NOT EXISTS public.credit_packages (
+  id          uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name        text NOT NULL,
+  credits     int  NOT NULL CHECK (credits > 0),
+  price_cents int  NOT NULL CHECK (price_cents > 0),
+  currency    text NOT NULL DEFAULT 'USD' CHECK (currency ~ '^[A-Z]{3}$'),
+  active      boolean NOT NULL DEFAULT true,
+  sort_order  int  NOT NULL DEFAULT 0,
+  created_at  timestamptz NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.credit_packages (name, credits, price_cents, sort_order)
+VALUES ('Starter',  100,  1000, 1),
+       ('Weekend',  500,  4500, 2),
+       ('Road trip', 1200, 9900, 3);
+
+
+-- ############################################################################
+-- 2. credit_purchases
+-- ############################################################################
+
+CREATE TABLE IF NOT EXISTS public.credit_purchases (
+  id                  uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id             uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  package_id          uuid NOT NULL REFERENCES public.credit_packages(id),
+  credits             int  NOT NULL CHECK (credits > 0),
+  amount_cents        int  NOT NULL CHECK (amount_cents > 0),
+  currency            text NOT NULL,
+  provider            text NOT NULL,
+  provider_session_id text,
+  status              text NOT NULL DEFAULT 'PENDING'
+                      CHECK (status IN ('PENDING', 'PAID', 'FAILED')),
+  failure_reason      text,
+  ledger_entry_id     uuid REFERENCES public.credit_ledger(id) ON DELETE SET NULL,
+  created_at          timestamptz NOT NULL DEFAULT now(),
+  paid_at             timestamptz,
+  CONSTRAINT credit_purchases_session_key UNIQUE (provider, provider_session_id)
+);
+
+COMMENT ON COLUMN public.credit_purchases.credits IS
+  'Credits and price are copied from the package when the purchase starts';
+
+CREATE INDEX IF NOT EXISTS idx_credit_purchases_user
+  ON public.credit_purchases (user_id, created_at DESC);
+
+
+-- ############################################################################
+-- 3. RLS: read-only from the client
+-- ############################################################################
+
+ALTER TABLE public.credit_packages  ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.credit_purchases ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "credit_packages: anyone can read active"
+  ON public.credit_packages FOR SELECT
+  TO anon, authenticated
+  USING (active);
+
+CREATE POLICY "credit_packages: admins can read all"
+  ON public.credit_packages FOR SELECT
+  TO authenticated
+  USING (public.is_admin());
+
+CREATE POLICY "credit_purchases: users can read own"
+  ON public.credit_purchases FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "credit_purchases: admins can read all"
+  ON public.credit_purchases FOR SELECT
+  TO authenticated
+  USING (public.is_admin());
+
+
+-- ############################################################################
+-- 4. start_credit_purchase(package_id, provider)
+--    Called by CUSTOMERs before they are sent to the provider's checkout.
+-- ############################################################################
+
+CREATE OR REPLACE FUNCTION public.start_credit_purchase(
+  p_package_id uuid,
+  p_provider   text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_uid         uuid;
+  v_role        text;
+  v_package     public.credit_packages%ROWTYPE;
+  v_purchase_id uuid;
+BEGIN
+  v_uid := auth.uid();
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT role INTO v_role FROM public.profiles WHERE id = v_uid;
+  IF v_role IS DISTINCT FROM 'CUSTOMER' THEN
+    RAISE EXCEPTION 'Only customers can buy credits';
+  END IF;
+
+  IF p_provider IS NULL OR trim(p_provider) = '' THEN
+    RAISE EXCEPTION 'A payment provider is required';
+  END IF;
+
+  SELECT * INTO v_package
+    FROM public.credit_packages
+   WHERE id = p_package_id
+     AND active;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Credit package not found';
+  END IF;
+
+  INSERT INTO public.credit_purchases
+         (user_id, package_id, credits, amount_cents, currency, provider)
+  VALUES (v_uid, v_package.id, v_package.credits, v_package.price_cents,
+          v_package.currency, p_provider)
+  RETURNING id INTO v_purchase_id;
+
+  INSERT INTO public.audit_log (actor_user_id, action, entity_type, entity_id, metadata)
+  VALUES (v_uid, 'credit_purchase.started', 'credit_purchase', v_purchase_id,
+    jsonb_build_object(
+      'package_id',   v_package.id,
+      'credits',      v_package.credits,
+      'amount_cents', v_package.price_cents,
+      'currency',     v_package.currency,
+      'provider',     p_provider
+  ));
+
+  RETURN jsonb_build_object(
+    'purchase_id',  v_purchase_id,
+    'package_name', v_package.name,
+    'credits',      v_package.credits,
+    'amount_cents', v_package.price_cents,
+    'currency',     v_package.currency
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.start_credit_purchase(uuid, text) FROM public;
+GRANT EXECUTE ON FUNCTION public.start_credit_purchase(uuid, text) TO authenticated;
+
+COMMENT ON FUNCTION public.start_credit_purchase(uuid, text) IS
+  'Records a PENDING purchase of an active credit package for the caller, '
+  'priced from the package. Credits are only added once the payment '
+  'provider confirms the payment (fulfill_credit_purchase).';
+
+
+-- ############################################################################
+-- 5. Webhook fulfillment — service role only
+-- ############################################################################
+
+-- ============================================================================
+-- 5a. fulfill_credit_purchase — credits the purchase once, however many
+--     times the provider reports the payment
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.fulfill_credit_purchase(
+  p_purchase_id  uuid,
+  p_provider     text,
+  p_session_id   text,
+  p_amount_cents int,
+  p_currency     text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_purchase    public.credit_purchases%ROWTYPE;
+  v_package     text;
+  v_entry_id    uuid;
+  v_new_balance int;
+BEGIN
+  -- Concurrent deliveries of the same event queue here
+  SELECT * INTO v_purchase
+    FROM public.credit_purchases
+   WHERE id = p_purchase_id
+     FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase not found';
+  END IF;
+
+  IF v_purchase.provider <> p_provider
+     OR v_purchase.provider_session_id IS DISTINCT FROM p_session_id THEN
+    RAISE EXCEPTION 'Payment does not belong to this purchase';
+  END IF;
+
+  -- FAILED → PAID is allowed: a payment can still succeed after an
+  -- earlier attempt at the same checkout failed
+  IF v_purchase.status = 'PAID' THEN
+    RETURN jsonb_build_object(
+      'purchase_id', v_purchase.id,
+      'fulfilled',   false,
+      'reason',      'already_paid'
+    );
+  END IF;
+
+  IF p_amount_cents IS DISTINCT FROM v_purchase.amount_cents
+     OR upper(p_currency) IS DISTINCT FROM v_purchase.currency THEN
+    RAISE EXCEPTION 'Paid amount % % does not match the purchase (% %)',
+      p_amount_cents, p_currency, v_purchase.amount_cents, v_purchase.currency;
+  END IF;
+
+  SELECT name INTO v_package FROM public.credit_packages WHERE id = v_purchase.package_id;
+
+  INSERT INTO public.credit_ledger (user_id, delta, reason)
+  VALUES (v_purchase.user_id, v_purchase.credits,
+          format('Purchased %s credits (%s package)', v_purchase.credits, v_package))
+  RETURNING id INTO v_entry_id;
+
+  UPDATE public.credit_purchases
+     SET status          = 'PAID',
+         paid_at         = now(),
+         failure_reason  = NULL,
+         ledger_entry_id = v_entry_id
+   WHERE id = v_purchase.id;
+
+  SELECT balance
+    INTO v_new_balance
+    FROM public.credit_accounts
+   WHERE user_id = v_purchase.user_id;
+
+  INSERT INTO public.audit_log (actor_user_id, action, entity_type, entity_id, metadata)
+  VALUES (v_purchase.user_id, 'credit_purchase.paid', 'credit_purchase', v_purchase.id,
+    jsonb_build_object(
+      'credits',         v_purchase.credits,
+      'amount_cents',    v_purchase.amount_cents,
+      'currency',        v_purchase.currency,
+      'provider',        v_purchase.provider,
+      'session_id',      p_session_id,
+      'ledger_entry_id', v_entry_id,
+      'new_balance',     v_new_balance
+  ));
+
+  RETURN jsonb_build_object(
+    'purchase_id', v_purchase.id,
+    'fulfilled',   true,
+    'credited',    v_purchase.credits,
+    'new_balance', v_new_balance
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.fulfill_credit_purchase(uuid, text, text, int, text) FROM public, anon, authenticated;
+
+COMMENT ON FUNCTION public.fulfill_credit_purchase(uuid, text, text, int, text) IS
+  'Service role (payment webhook). Marks a purchase PAID and credits the '
+  'ledger once; repeated deliveries return fulfilled = false.';
+
+-- ============================================================================
+-- 5b. fail_credit_purchase — a declined / abandoned checkout. Paid
+--     purchases are never reverted.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.fail_credit_purchase(
+  p_purchase_id uuid,
+  p_provider    text,
+  p_session_id  text,
+  p_reason      text
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_purchase public.credit_purchases%ROWTYPE;
+BEGIN
+  SELECT * INTO v_purchase
+    FROM public.credit_purchases
+   WHERE id = p_purchase_id
+     FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase not found';
+  END IF;
+
+  IF v_purchase.provider <> p_provider
+     OR v_purchase.provider_session_id IS DISTINCT FROM p_session_id THEN
+    RAISE EXCEPTION 'Payment does not belong to this purchase';
+  END IF;
+
+  IF v_purchase.status <> 'PENDING' THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.credit_purchases
+     SET status         = 'FAILED',
+         failure_reason = nullif(trim(p_reason), '')
+   WHERE id = v_purchase.id;
+
+  INSERT INTO public.audit_log (actor_user_id, action, entity_type, entity_id, metadata)
+  VALUES (v_purchase.user_id, 'credit_purchase.failed', 'credit_purchase', v_purchase.id,
+    jsonb_build_object(
+      'provider',   v_purchase.provider,
+      'session_id', p_session_id,
+      'reason',     nullif(trim(p_reason), '')
+  ));
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.fail_credit_purchase(uuid, text, text, text) FROM public, anon, authenticated;
+
+COMMENT ON FUNCTION public.fail_credit_purchase(uuid, text, text, text) IS
+  'Service role (payment webhook). Marks a PENDING purchase FAILED; no-op '
+  'for purchases already paid or failed.';
@@ -0,0 +1,492 @@
+-- ============================================================================
+-- ForzaCars Rentals — Credit buckets and expiry
+-- Migration: 20250209000041_credit_buckets
+--
+-- 1. credit_ledger.source / expires_at / bucket_id — what kind of credits
+--    an entry adds and when they expire; which bucket an expiry removes
+-- 2. credit_buckets — every credit entry opens a bucket that debits draw
+--    down; existing balances become one STANDARD bucket per user
+-- 3. Spend order (trigger): promotional credits first, then whatever
+--    expires soonest, then the oldest
+-- 4. Expiry: expired buckets are removed with a negative ledger entry,
+--    before every balance check (lock_credit_account) and by the
+--    expire_due_credits() job
+-- 5. admin_grant_promotional_credits RPC — credits that expire after N days
+-- 6. fulfill_credit_purchase — purchased credits are tagged PURCHASED
+--
+-- credit_accounts.balance is still the spendable total and the ledger the
+-- record of every change; buckets only track which credits make up the
+-- balance so the right ones are spent and expired. Refunds open a new
+-- bucket here; 20250209000048 returns them to the buckets they were spent
+-- from instead.
+-- ============================================================================
+
+
+-- ############################################################################
+-- 1. Ledger columns
+-- ############################################################################
+
+ALTER TABLE public.credit_ledger
+  ADD COLUMN IF NOT EXISTS source text NOT NULL DEFAULT 'STANDARD'
+    CONSTRAINT credit_ledger_source_check
+    CHECK (source IN ('STANDARD', 'PURCHASED', 'PROMOTIONAL')),
+  ADD COLUMN IF NOT EXISTS expires_at timestamptz
+    CONSTRAINT credit_ledger_expires_at_check
+    CHECK (expires_at IS NULL OR delta > 0);
+
+COMMENT ON COLUMN public.credit_ledger.source IS
+  'Kind of credits a positive entry adds (its bucket''s source); ignored for debits';
+COMMENT ON COLUMN public.credit_ledger.expires_at IS
+  'When the credits a positive entry adds expire (NULL = never)';
+
+
+-- ############################################################################
+-- 2. credit_buckets
+-- ############################################################################
+
+CREATE TABLE IF NOT EXISTS public.credit_buckets (
+  id              uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id         uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  ledger_entry_id uuid UNIQUE REFERENCES public.credit_ledger(id) ON DELETE CASCADE,
+  source          text NOT NULL
+                  CHECK (source IN ('STANDARD', 'PURCHASED', 'PROMOTIONAL')),
+  credits         int  NOT NULL CHECK (credits > 0),
+  remaining       int  NOT NULL,
+  expires_at      timestamptz,
+  created_at      timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT credit_buckets_remaining_check CHECK (remaining BETWEEN 0 AND credits)
+);
+
+COMMENT ON COLUMN public.credit_buckets.ledger_entry_id IS
+  'Entry that added the credits; NULL for the opening balance bucket';
+
+CREATE INDEX IF NOT EXISTS idx_credit_buckets_user_open
+  ON public.credit_buckets (user_id)
+  WHERE remaining > 0;
+
+ALTER TABLE public.credit_ledger
+  ADD COLUMN IF NOT EXISTS bucket_id uuid
+    REFERENCES public.credit_buckets(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.credit_ledger.bucket_id IS
+  'For an expiry debit: the bucket it removes (other debits follow the spend order)';
+
+ALTER TABLE public.credit_buckets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "credit_buckets: users can read own"
+  ON public.credit_buckets FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "credit_buckets: admins can read all"
+  ON public.credit_buckets FOR SELECT
+  TO authenticated
+  USING (public.is_admin());
+
+-- Opening balances: everything held today is STANDARD and never expires
+INSERT INTO public.credit_buckets (user_id, source, credits, remaining)
+SELECT user_id, 'STANDARD', balance, balance
+  FROM public.credit_accounts
+ WHERE balance > 0;
+
+
+-- ############################################################################
+-- 3. Credits open a bucket; debits draw buckets down in spend order
+-- ############################################################################
+
+CREATE OR REPLACE FUNCTION public.handle_credit_ledger_buckets()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_left   int;
+  v_take   int;
+  v_bucket record;
+BEGIN
+  IF NEW.delta > 0 THEN
+    INSERT INTO public.credit_buckets
+           (user_id, ledger_entry_id, source, credits, remaining, expires_at)
+    VALUES (NEW.user_id, NEW.id, NEW.source, NEW.delta, NEW.delta, NEW.expires_at);
+    RETURN NEW;
+  END IF;
+
+  -- Expiry: removes exactly the bucket it names
+  IF NEW.bucket_id IS NOT NULL THEN
+    UPDATE public.credit_buckets
+       SET remaining = greatest(remaining + NEW.delta, 0)
+     WHERE id = NEW.bucket_id
+       AND user_id = NEW.user_id;
+    RETURN NEW;
+  END IF;
+
+  -- Spend order: promotional first, then soonest to expire, then oldest.
+  -- A shortfall (balance already below the buckets) is left to the
+  -- account balance.
+  v_left := -NEW.delta;
+
+  FOR v_bucket IN
+    SELECT id, remaining
+      FROM public.credit_buckets
+     WHERE user_id = NEW.user_id
+       AND remaining > 0
+       AND (expires_at IS NULL OR expires_at > now())
+     ORDER BY (source = 'PROMOTIONAL') DESC,
+              expires_at ASC NULLS LAST,
+              created_at ASC
+       FOR UPDATE
+  LOOP
+    EXIT WHEN v_left = 0;
+    v_take := least(v_bucket.remaining, v_left);
+
+    UPDATE public.credit_buckets
+       SET remaining = remaining - v_take
+     WHERE id = v_bucket.id;
+
+    v_left := v_left - v_take;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_credit_ledger_buckets ON public.credit_ledger;
+CREATE TRIGGER on_credit_ledger_buckets
+  AFTER INSERT ON public.credit_ledger
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_credit_ledger_buckets();
+
+REVOKE EXECUTE ON FUNCTION public.handle_credit_ledger_buckets() FROM public, anon, authenticated;
+
+
+-- ############################################################################
+-- 4. Expiry
+-- ############################################################################
+
+-- ============================================================================
+-- 4a. expire_user_credit_buckets — internal: writes a negative entry for
+--     each of the user's expired buckets, with their account locked.
+--     Returns the credits expired.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.expire_user_credit_buckets(
+  p_user_id uuid
+)
+RETURNS int
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_bucket  record;
+  v_total   int := 0;
+  v_buckets uuid[] := '{}';
+BEGIN
+  PERFORM 1
+     FROM public.credit_accounts
+    WHERE user_id = p_user_id
+      FOR UPDATE;
+
+  FOR v_bucket IN
+    SELECT id, source, remaining, expires_at
+      FROM public.credit_buckets
+     WHERE user_id = p_user_id
+       AND remaining > 0
+       AND expires_at <= now()
+     ORDER BY expires_at
+       FOR UPDATE
+  LOOP
+    INSERT INTO public.credit_ledger (user_id, delta, reason, bucket_id)
+    VALUES (p_user_id, -v_bucket.remaining,
+            format('%s %s credits expired', v_bucket.remaining, lower(v_bucket.source)),
+            v_bucket.id);
+
+    v_total   := v_total + v_bucket.remaining;
+    v_buckets := v_buckets || v_bucket.id;
+  END LOOP;
+
+  IF v_total > 0 THEN
+    INSERT INTO public.audit_log (actor_user_id, action, entity_type, entity_id, metadata)
+    VALUES (auth.uid(), 'credits.expired', 'profile', p_user_id,
+      jsonb_build_object(
+        'credits',    v_total,
+        'bucket_ids', to_jsonb(v_buckets)
+    ));
+  END IF;
+
+  RETURN v_total;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.expire_user_credit_buckets(uuid) FROM public, anon, authenticated;
+
+-- ============================================================================
+-- 4b. lock_credit_account (20250209000039) — expires due credits first, so
+--     a balance check never counts credits that have expired
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.lock_credit_account(
+  p_user_id uuid
+)
+RETURNS int
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_balance int;
+BEGIN
+  INSERT INTO public.credit_accounts (user_id)
+  VALUES (p_user_id)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  PERFORM public.expire_user_credit_buckets(p_user_id);
+
+  SELECT balance
+    INTO v_balance
+    FROM public.credit_accounts
+   WHERE user_id = p_user_id
+     FOR UPDATE;
+
+  RETURN v_balance;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.lock_credit_account(uuid) FROM public, anon, authenticated;
+
+-- ============================================================================
+-- 4c. expire_due_credits — the expiry job. With p_all, admins, the service
+--     role (scripts/expire_credits.ts) or the hourly pg_cron job
+--     (20250209000045) sweep every user; customers can expire their own.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.expire_due_credits(
+  p_all boolean DEFAULT false
+)
+RETURNS int
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_uid   uuid := auth.uid();
+  v_user  uuid;
+  v_total int := 0;
+BEGIN
+  IF NOT p_all THEN
+    IF v_uid IS NULL THEN
+      RAISE EXCEPTION 'Not authenticated';
+    END IF;
+    RETURN public.expire_user_credit_buckets(v_uid);
+  END IF;
+
+  IF v_uid IS NOT NULL AND NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can expire credits for every user';
+  END IF;
+
+  FOR v_user IN
+    SELECT DISTINCT user_id
+      FROM public.credit_buckets
+     WHERE remaining > 0
+       AND expires_at <= now()
+  LOOP
+    v_total := v_total + public.expire_user_credit_buckets(v_user);
+  END LOOP;
+
+  RETURN v_total;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.expire_due_credits(boolean) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.expire_due_credits(boolean) TO authenticated;
+
+COMMENT ON FUNCTION public.expire_due_credits(boolean) IS
+  'Removes expired credits with a negative ledger entry per bucket — the '
+  'caller''s own, or with p_all (admin or service role) every user''s. '
+  'Returns the credits expired.';
+
+
+-- ############################################################################
+-- 5. admin_grant_promotional_credits
+--    ADMIN-only: bonus credits that are spent first and expire after
+--    p_expires_in_days.
+-- ############################################################################
+
+CREATE OR REPLACE FUNCTION public.admin_grant_promotional_credits(
+  p_user_id         uuid,
+  p_amount          int,
+  p_reason          text,
+  p_expires_in_days int
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_uid         uuid;
+  v_expires_at  timestamptz;
+  v_entry_id    uuid;
+  v_new_balance int;
+BEGIN
+  v_uid := auth.uid();
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can grant credits';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be a positive integer';
+  END IF;
+
+  IF p_reason IS NULL OR trim(p_reason) = '' THEN
+    RAISE EXCEPTION 'A reason is required when granting credits';
+  END IF;
+
+  IF p_expires_in_days IS NULL OR p_expires_in_days NOT BETWEEN 1 AND 365 THEN
+    RAISE EXCEPTION 'Promotional credits must expire within 1 to 365 days';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.profiles WHERE id = p_user_id) THEN
+    RAISE EXCEPTION 'Target user not found';
+  END IF;
+
+  v_expires_at := now() + make_interval(days => p_expires_in_days);
+
+  INSERT INTO public.credit_ledger (user_id, delta, reason, source, expires_at)
+  VALUES (p_user_id, p_amount, trim(p_reason), 'PROMOTIONAL', v_expires_at)
+  RETURNING id INTO v_entry_id;
+
+  SELECT balance
+    INTO v_new_balance
+    FROM public.credit_accounts
+   WHERE user_id = p_user_id;
+
+  INSERT INTO public.audit_log (actor_user_id, action, entity_type, entity_id, metadata)
+  VALUES (v_uid, 'credits.granted', 'profile', p_user_id,
+    jsonb_build_object(
+      'amount',          p_amount,
+      'reason',          trim(p_reason),
+      'source',          'PROMOTIONAL',
+      'expires_at',      v_expires_at,
+      'new_balance',     v_new_balance,
+      'ledger_entry_id', v_entry_id
+  ));
+
+  RETURN jsonb_build_object(
+    'user_id',     p_user_id,
+    'granted',     p_amount,
+    'expires_at',  v_expires_at,
+    'new_balance', v_new_balance
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.admin_grant_promotional_credits(uuid, int, text, int) FROM public;
+GRANT EXECUTE ON FUNCTION public.admin_grant_promotional_credits(uuid, int, text, int) TO authenticated;
+
+COMMENT ON FUNCTION public.admin_grant_promotional_credits(uuid, int, text, int) IS
+  'RPC – ADMIN-only. Grants promotional credits that are spent before any '
+  'other credits and expire after the given number of days.';
+
+
+-- ############################################################################
+-- 6. fulfill_credit_purchase (20250209000040) — tags purchased credits
+-- ############################################################################
+
+CREATE OR REPLACE FUNCTION public.fulfill_credit_purchase(
+  p_purchase_id  uuid,
+  p_provider     text,
+  p_session_id   text,
+  p_amount_cents int,
+  p_currency     text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_purchase    public.credit_purchases%ROWTYPE;
+  v_package     text;
+  v_entry_id    uuid;
+  v_new_balance int;
+BEGIN
+  -- Concurrent deliveries of the same event queue here
+  SELECT * INTO v_purchase
+    FROM public.credit_purchases
+   WHERE id = p_purchase_id
+     FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase not found';
+  END IF;
+
+  IF v_purchase.provider <> p_provider
+     OR v_purchase.provider_session_id IS DISTINCT FROM p_session_id THEN
+    RAISE EXCEPTION 'Payment does not belong to this purchase';
+  END IF;
+
+  -- FAILED → PAID is allowed: a payment can still succeed after an
+  -- earlier attempt at the same checkout failed
+  IF v_purchase.status = 'PAID' THEN
+    RETURN jsonb_build_object(
+      'purchase_id', v_purchase.id,
+      'fulfilled',   false,
+      'reason',      'already_paid'
+    );
+  END IF;
+
+  IF p_amount_cents IS DISTINCT FROM v_purchase.amount_cents
+     OR upper(p_currency) IS DISTINCT FROM v_purchase.currency THEN
+    RAISE EXCEPTION 'Paid amount % % does not match the purchase (% %)',
+      p_amount_cents, p_currency, v_purchase.amount_cents, v_purchase.currency;
+  END IF;
+
+  SELECT name INTO v_package FROM public.credit_packages WHERE id = v_purchase.package_id;
+
+  INSERT INTO public.credit_ledger (user_id, delta, reason, source)
+  VALUES (v_purchase.user_id, v_purchase.credits,
+          format('Purchased %s credits (%s package)', v_purchase.credits, v_package),
+          'PURCHASED')
+  RETURNING id INTO v_entry_id;
+
+  UPDATE public.credit_purchases
+     SET status          = 'PAID',
+         paid_at         = now(),
+         failure_reason  = NULL,
+         ledger_entry_id = v_entry_id
+   WHERE id = v_purchase.id;
+
+  SELECT balance
+    INTO v_new_balance
+    FROM public.credit_accounts
+   WHERE user_id = v_purchase.user_id;
+
+  INSERT INTO public.audit_log (actor_user_id, action, entity_type, entity_id, metadata)
+  VALUES (v_purchase.user_id, 'credit_purchase.paid', 'credit_purchase', v_purchase.id,
+    jsonb_build_object(
+      'credits',         v_purchase.credits,
+      'amount_cents',    v_purchase.amount_cents,
+      'currency',        v_purchase.currency,
+      'provider',        v_purchase.provider,
+      'session_id',      p_session_id,
+      'ledger_entry_id', v_entry_id,
+      'new_balance',     v_new_balance
+  ));
+
+  RETURN jsonb_build_object(
+    'purchase_id', v_purchase.id,
+    'fulfilled',   true,
+    'credited',    v_purchase.credits,
+    'new_balance', v_new_balance
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.fulfill_credit_purchase(uuid, text, text, int, text) FROM public, anon, authenticated;
+
+COMMENT ON FUNCTION public.fulfill_credit_purchase(uuid, text, text, int, text) IS
+  'Service role (payment webhook). Marks a purchase PAID and credits the '
+  'ledger once; repeated deliveries return fulfilled = false.';
@@ -0,0 +1,284 @@
+-- ============================================================================
+-- ForzaCars Rentals — Credit requests
+-- Migration: 20250209000042_credit_requests
+--
+-- 1. credit_requests — a customer's request for credits and the admin's
+--    decision (PENDING → APPROVED, PARTIALLY_APPROVED or DENIED)
+-- 2. RLS: customers read their own requests, admins read all
+-- 3. request_credits RPC (customer)
+-- 4. admin_decide_credit_request / admin_decide_credit_requests RPCs —
+--    approve (fully or partly) or deny one request, or a batch
+--
+-- Replaces the free-text "Credit Request" message thread sent to the first
+-- admin found: requests are now a queue any admin can work from
+-- /admin/credit-requests, and the customer sees each one's status on
+-- /wallet. Approving grants the credits through admin_grant_credits, so
+-- the grant is audited like any other.
+-- ============================================================================
+
+
+-- ############################################################################
+-- 1. credit_requests
+-- ############################################################################
+
+CREATE TABLE IF NOT EXISTS public.credit_requests (
+  id               uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id          uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  amount           int  NOT NULL CHECK (amount BETWEEN 1 AND 10000),
+  note             text,
+  status           text NOT NULL DEFAULT 'PENDING'
+                   CHECK (status IN ('PENDING', 'APPROVED', 'PARTIALLY_APPROVED', 'DENIED')),
+  approved_credits int  NOT NULL DEFAULT 0,
+  decision_note    text,
+  decided_by       uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  decided_at       timestamptz,
+  created_at       timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT credit_requests_approved_check
+    CHECK (approved_credits BETWEEN 0 AND amount)
+);
+
+CREATE INDEX IF NOT EXISTS idx_credit_requests_pending
+  ON public.credit_requests (created_at)
+  WHERE status = 'PENDING';
+
+CREATE INDEX IF NOT EXISTS idx_credit_requests_user
+  ON public.credit_requests (user_id, created_at DESC);
+
+
+-- ############################################################################
+-- 2. RLS: read-only from the client
+-- ############################################################################
+
+ALTER TABLE public.credit_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "credit_requests: users can read own"
+  ON public.credit_requests FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "credit_requests: admins can read all"
+  ON public.credit_requests FOR SELECT
+  TO authenticated
+  USING (public.is_admin());
+
+
+-- ############################################################################
+-- 3. request_credits(amount, note)
+--    Called by CUSTOMERs. At most 3 requests can be pending at once.
+-- ############################################################################
+
+CREATE OR REPLACE FUNCTION public.request_credits(
+  p_amount int,
+  p_note   text
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_uid        uuid;
+  v_role       text;
+  v_request_id uuid;
+BEGIN
+  v_uid := auth.uid();
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT role INTO v_role FROM public.profiles WHERE id = v_uid;
+  IF v_role IS DISTINCT FROM 'CUSTOMER' THEN
+    RAISE EXCEPTION 'Only customers can request credits';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount NOT BETWEEN 1 AND 10000 THEN
+    RAISE EXCEPTION 'Request between 1 and 10000 credits';
+  END IF;
+
+  IF (SELECT count(*) FROM public.credit_requests
+       WHERE user_id = v_uid AND status = 'PENDING') >= 3 THEN
+    RAISE EXCEPTION 'You already have 3 requests waiting for review';
+  END IF;
+
+  INSERT INTO public.credit_requests (user_id, amount, note)
+  VALUES (v_uid, p_amount, nullif(trim(p_note), ''))
+  RETURNING id INTO v_request_id;
+
+  INSERT INTO public.audit_log (actor_user_id, action, entity_type, entity_id, metadata)
+  VALUES (v_uid, 'credit_request.created', 'credit_request', v_request_id,
+    jsonb_build_object('amount', p_amount));
+
+  RETURN v_request_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.request_credits(int, text) FROM public;
+GRANT EXECUTE ON FUNCTION public.request_credits(int, text) TO authenticated;
+
+COMMENT ON FUNCTION public.request_credits(int, text) IS
+  'Files a PENDING credit request for the calling customer (1–10000 credits, '
+  'at most 3 pending at a time) for an admin to decide.';
+
+
+-- ############################################################################
+-- 4. Deciding requests (ADMIN only)
+-- ############################################################################
+
+-- ============================================================================
+-- 4a. admin_decide_credit_request — grants p_approved credits (all of the
+--     request → APPROVED, some → PARTIALLY_APPROVED, none → DENIED)
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.admin_decide_credit_request(
+  p_request_id uuid,
+  p_approved   int,
+  p_note       text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_uid     uuid;
+  v_request public.credit_requests%ROWTYPE;
+  v_status  text;
+  v_note    text := nullif(trim(p_note), '');
+  v_grant   jsonb;
+BEGIN
+  v_uid := auth.uid();
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can decide credit requests';
+  END IF;
+
+  -- Two admins deciding the same request: the second one waits, then fails
+  SELECT * INTO v_request
+    FROM public.credit_requests
+   WHERE id = p_request_id
+     FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Credit request not found';
+  END IF;
+
+  IF v_request.status <> 'PENDING' THEN
+    RAISE EXCEPTION 'This request has already been decided';
+  END IF;
+
+  IF p_approved IS NULL OR p_approved NOT BETWEEN 0 AND v_request.amount THEN
+    RAISE EXCEPTION 'Approve between 0 and % credits', v_request.amount;
+  END IF;
+
+  v_status := CASE
+    WHEN p_approved = 0                THEN 'DENIED'
+    WHEN p_approved = v_request.amount THEN 'APPROVED'
+    ELSE 'PARTIALLY_APPROVED'
+  END;
+
+  IF p_approved > 0 THEN
+    v_grant := public.admin_grant_credits(
+      v_request.user_id,
+      p_approved,
+      CASE WHEN v_status = 'APPROVED'
+        THEN 'Credit request approved'
+        ELSE format('Credit request partly approved (%s of %s credits)', p_approved, v_request.amount)
+      END
+    );
+  END IF;
+
+  UPDATE public.credit_requests
+     SET status           = v_status,
+         approved_credits = p_approved,
+         decision_note    = v_note,
+         decided_by       = v_uid,
+         decided_at       = now()
+   WHERE id = v_request.id;
+
+  INSERT INTO public.audit_log (actor_user_id, action, entity_type, entity_id, metadata)
+  VALUES (v_uid, 'credit_request.' || lower(v_status), 'credit_request', v_request.id,
+    jsonb_build_object(
+      'user_id',   v_request.user_id,
+      'requested', v_request.amount,
+      'approved',  p_approved,
+      'note',      v_note
+  ));
+
+  RETURN jsonb_build_object(
+    'request_id',  v_request.id,
+    'status',      v_status,
+    'approved',    p_approved,
+    'new_balance', v_grant->'new_balance'
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.admin_decide_credit_request(uuid, int, text) FROM public;
+GRANT EXECUTE ON FUNCTION public.admin_decide_credit_request(uuid, int, text) TO authenticated;
+
+COMMENT ON FUNCTION public.admin_decide_credit_request(uuid, int, text) IS
+  'RPC – ADMIN-only. Decides a pending credit request, granting the approved '
+  'credits through admin_grant_credits (0 denies it).';
+
+-- ============================================================================
+-- 4b. admin_decide_credit_requests — bulk approve in full or deny. Requests
+--     another admin decided in the meantime are skipped.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.admin_decide_credit_requests(
+  p_request_ids uuid[],
+  p_approve     boolean,
+  p_note        text
+)
+RETURNS int
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_request record;
+  v_count   int := 0;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can decide credit requests';
+  END IF;
+
+  IF coalesce(array_length(p_request_ids, 1), 0) = 0 THEN
+    RAISE EXCEPTION 'Select at least one request';
+  END IF;
+
+  IF array_length(p_request_ids, 1) > 100 THEN
+    RAISE EXCEPTION 'Decide at most 100 requests at a time';
+  END IF;
+
+  FOR v_request IN
+    SELECT id, amount
+      FROM public.credit_requests
+     WHERE id = ANY (p_request_ids)
+       AND status = 'PENDING'
+     ORDER BY created_at
+       FOR UPDATE
+  LOOP
+    PERFORM public.admin_decide_credit_request(
+      v_request.id,
+      CASE WHEN p_approve THEN v_request.amount ELSE 0 END,
+      p_note
+    );
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.admin_decide_credit_requests(uuid[], boolean, text) FROM public;
+GRANT EXECUTE ON FUNCTION public.admin_decide_credit_requests(uuid[], boolean, text) TO authenticated;
+
+COMMENT ON FUNCTION public.admin_decide_credit_requests(uuid[], boolean, text) IS
+  'RPC – ADMIN-only. Approves (in full) or denies every still-pending request '
+  'in the list in one transaction. Returns how many were decided.';
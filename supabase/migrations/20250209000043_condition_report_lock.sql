@@ -0,0 +1,218 @@
+-- ============================================================================
+-- ForzaCars Rentals — Lock the return report once it is claim evidence
+-- Migration: 20250209000043_condition_report_lock
+--
+-- 1. check_condition_report_editable — internal: the one rule for when a
+--    booking's report (and its photos) can still be written
+-- 2. business_save_condition_report — redefined to use it
+-- 3. condition_report_photos trigger — photos can't be added to a locked
+--    report, whoever inserts them (the upload route uses the service role)
+--
+-- The return (CHECK_IN) report is the evidence for a damage claim, so it
+-- stops being editable as soon as a claim is filed against the booking or
+-- the claim window (48 hours after the return) closes — otherwise the
+-- business could rewrite it while the admin is judging the claim.
+-- conditionReportEditable() in src/lib/conditionReport.ts mirrors this.
+-- ============================================================================
+
+
+-- ############################################################################
+-- 1. check_condition_report_editable(booking_id, kind)
+--    Raises when the report can't be written. Takes a share lock on the
+--    booking, so it waits for (and then sees) a damage claim being filed.
+-- ############################################################################
+
+CREATE OR REPLACE FUNCTION public.check_condition_report_editable(
+  p_booking_id uuid,
+  p_kind       text
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_status      text;
+  v_returned_at timestamptz;
+BEGIN
+  SELECT status, returned_at INTO v_status, v_returned_at
+    FROM public.bookings
+   WHERE id = p_booking_id
+     FOR SHARE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  IF p_kind = 'CHECK_OUT' AND v_status NOT IN ('CONFIRMED', 'CHECKED_OUT') THEN
+    RAISE EXCEPTION 'The pick-up report can only be written before or while the car is out';
+  END IF;
+
+  IF p_kind = 'CHECK_IN' THEN
+    IF v_status NOT IN ('CHECKED_OUT', 'LATE', 'RETURNED') THEN
+      RAISE EXCEPTION 'The return report can only be written once the car has been picked up';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM public.damage_claims WHERE booking_id = p_booking_id) THEN
+      RAISE EXCEPTION 'The return report is evidence for a damage claim and can no longer be changed';
+    END IF;
+
+    IF v_status = 'RETURNED' AND now() > v_returned_at + interval '48 hours' THEN
+      RAISE EXCEPTION 'The return report can no longer be changed — the claim window has closed';
+    END IF;
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.check_condition_report_editable(uuid, text) FROM public, anon, authenticated;
+
+
+-- ############################################################################
+-- 2. business_save_condition_report — same as 20250209000037 except the
+--    status checks, now check_condition_report_editable()
+-- ############################################################################
+
+CREATE OR REPLACE FUNCTION public.business_save_condition_report(
+  p_booking_id   uuid,
+  p_kind         text,
+  p_mileage      int,
+  p_fuel_level   int,
+  p_damage_notes text
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_uid         uuid;
+  v_business_id uuid;
+  v_booking     record;
+  v_notes       text;
+  v_out_mileage int;
+  v_report_id   uuid;
+BEGIN
+  -- ================================================================
+  -- 1. Auth: caller must be a BUSINESS user with a business_id
+  -- ================================================================
+  v_uid := auth.uid();
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT business_id INTO v_business_id
+    FROM public.profiles
+   WHERE id = v_uid AND role = 'BUSINESS';
+
+  IF v_business_id IS NULL THEN
+    RAISE EXCEPTION 'Only business users with an assigned business can write condition reports';
+  END IF;
+
+  -- ================================================================
+  -- 2. Validate
+  -- ================================================================
+  IF p_kind NOT IN ('CHECK_OUT', 'CHECK_IN') THEN
+    RAISE EXCEPTION 'Report must be for check-out or check-in';
+  END IF;
+
+  IF p_mileage IS NOT NULL AND p_mileage < 0 THEN
+    RAISE EXCEPTION 'Mileage can''t be negative';
+  END IF;
+
+  IF p_fuel_level IS NOT NULL AND p_fuel_level NOT BETWEEN 0 AND 8 THEN
+    RAISE EXCEPTION 'Fuel level must be between empty and full';
+  END IF;
+
+  v_notes := nullif(btrim(p_damage_notes), '');
+  IF length(v_notes) > 2000 THEN
+    RAISE EXCEPTION 'Damage notes must be 2000 characters or fewer';
+  END IF;
+
+  SELECT b.*, u.business_id AS unit_business_id
+    INTO v_booking
+    FROM public.bookings b
+    JOIN public.car_units u ON u.id = b.car_unit_id
+   WHERE b.id = p_booking_id;
+
+  IF NOT FOUND OR v_booking.unit_business_id <> v_business_id THEN
+    RAISE EXCEPTION 'Booking not found or not for one of your units';
+  END IF;
+
+  PERFORM public.check_condition_report_editable(p_booking_id, p_kind);
+
+  IF p_kind = 'CHECK_IN' AND p_mileage IS NOT NULL THEN
+    SELECT mileage INTO v_out_mileage
+      FROM public.booking_condition_reports
+     WHERE booking_id = p_booking_id AND kind = 'CHECK_OUT';
+
+    IF p_mileage < v_out_mileage THEN
+      RAISE EXCEPTION 'Return mileage (%) is below the pick-up mileage (%)', p_mileage, v_out_mileage;
+    END IF;
+  END IF;
+
+  -- ================================================================
+  -- 3. Upsert + audit
+  -- ================================================================
+  INSERT INTO public.booking_condition_reports
+         (booking_id, kind, mileage, fuel_level, damage_notes, created_by)
+  VALUES (p_booking_id, p_kind, p_mileage, p_fuel_level, v_notes, v_uid)
+  ON CONFLICT (booking_id, kind)
+  DO UPDATE SET mileage      = EXCLUDED.mileage,
+                fuel_level   = EXCLUDED.fuel_level,
+                damage_notes = EXCLUDED.damage_notes,
+                updated_at   = now()
+  RETURNING id INTO v_report_id;
+
+  INSERT INTO public.audit_log (actor_user_id, action, entity_type, entity_id, metadata)
+  VALUES (v_uid, 'condition_report.saved', 'booking', p_booking_id,
+    jsonb_build_object(
+      'report_id',    v_report_id,
+      'kind',         p_kind,
+      'mileage',      p_mileage,
+      'fuel_level',   p_fuel_level,
+      'damage_notes', v_notes
+  ));
+
+  RETURN v_report_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.business_save_condition_report(uuid, text, int, int, text) FROM public;
+GRANT EXECUTE ON FUNCTION public.business_save_condition_report(uuid, text, int, int, text) TO authenticated;
+
+COMMENT ON FUNCTION public.business_save_condition_report(uuid, text, int, int, text) IS
+  'Creates or updates the pick-up (CHECK_OUT) or return (CHECK_IN) condition '
+  'report of a booking on one of the caller''s units. The return report locks '
+  'once a damage claim is filed or the claim window closes.';
+
+
+-- ############################################################################
+-- 3. No photos on a locked report
+-- ############################################################################
+
+CREATE OR REPLACE FUNCTION public.handle_condition_photo_insert()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_booking_id uuid;
+  v_kind       text;
+BEGIN
+  SELECT booking_id, kind INTO v_booking_id, v_kind
+    FROM public.booking_condition_reports
+   WHERE id = NEW.report_id;
+
+  PERFORM public.check_condition_report_editable(v_booking_id, v_kind);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_condition_photo_insert ON public.condition_report_photos;
+CREATE TRIGGER on_condition_photo_insert
+  BEFORE INSERT ON public.condition_report_photos
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_condition_photo_insert();
+
+REVOKE EXECUTE ON FUNCTION public.handle_condition_photo_insert() FROM public, anon, authenticated;
@@ -0,0 +1,58 @@
+-- ============================================================================
+-- ForzaCars Rentals — Release the deposit when a clean return report is saved
+-- Migration: 20250209000044_clean_return_release
+--
+-- 1. handle_condition_report_deposit — returns the held deposit when the
+--    return (CHECK_IN) report of a RETURNED booking is saved without damage
+--    notes
+--
+-- on_booking_deposit_status (20250209000038) only releases a clean return
+-- if the return report already exists when the booking is checked in. The
+-- usual order is the other way round — check the car in, then write the
+-- report — so the release has to fire on the report as well.
+-- ============================================================================
+
+
+-- ############################################################################
+-- 1. Clean return report on a returned booking → deposit back
+-- ############################################################################
+
+CREATE OR REPLACE FUNCTION public.handle_condition_report_deposit()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_deposit_id uuid;
+BEGIN
+  IF NEW.kind <> 'CHECK_IN' OR NEW.damage_notes IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT d.id INTO v_deposit_id
+    FROM public.booking_deposits d
+    JOIN public.bookings b ON b.id = d.booking_id
+   WHERE d.booking_id = NEW.booking_id
+     AND d.status = 'HELD'
+     AND b.status = 'RETURNED'
+     AND NOT EXISTS (
+       SELECT 1 FROM public.damage_claims c WHERE c.deposit_id = d.id
+     );
+
+  IF v_deposit_id IS NOT NULL THEN
+    PERFORM public.settle_booking_deposit(v_deposit_id, 0,
+      format('Security deposit returned (booking %s returned without damage)', NEW.booking_id));
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_condition_report_deposit ON public.booking_condition_reports;
+CREATE TRIGGER on_condition_report_deposit
+  AFTER INSERT OR UPDATE OF damage_notes ON public.booking_condition_reports
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_condition_report_deposit();
+
+REVOKE EXECUTE ON FUNCTION public.handle_condition_report_deposit() FROM public, anon, authenticated;
@@ -0,0 +1,76 @@
+-- ============================================================================
+-- ForzaCars Rentals — Scheduled deposit release and credit expiry
+-- Migration: 20250209000045_scheduled_sweeps
+--
+-- 1. release_due_deposits — redefined as a job-only function (no caller
+--    check; not executable by clients)
+-- 2. pg_cron jobs: release due deposits every 15 minutes, expire due
+--    credits hourly
+--
+-- Both sweeps used to run from page renders (/bookings, /biz/bookings,
+-- /wallet), which put writes for every user into GET requests and only
+-- released deposits when someone happened to load a page. They now run on
+-- a schedule inside the database; pages only read. Balance checks still
+-- expire a user's own credits first (lock_credit_account()), so credits
+-- past their expiry can't be spent between runs.
+-- ============================================================================
+
+
+-- ############################################################################
+-- 1. release_due_deposits — same as 20250209000038 minus the auth check
+-- ############################################################################
+
+CREATE OR REPLACE FUNCTION public.release_due_deposits()
+RETURNS int
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_deposit record;
+  v_count   int := 0;
+BEGIN
+  FOR v_deposit IN
+    SELECT d.id, d.booking_id
+      FROM public.booking_deposits d
+      JOIN public.bookings b ON b.id = d.booking_id
+     WHERE d.status = 'HELD'
+       AND b.status = 'RETURNED'
+       AND b.returned_at < now() - interval '48 hours'
+       AND NOT EXISTS (
+         SELECT 1 FROM public.damage_claims c WHERE c.deposit_id = d.id
+       )
+  LOOP
+    PERFORM public.settle_booking_deposit(v_deposit.id, 0,
+      format('Security deposit returned (booking %s, no damage claimed)', v_deposit.booking_id));
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.release_due_deposits() FROM public, anon, authenticated;
+
+COMMENT ON FUNCTION public.release_due_deposits() IS
+  'Job (pg_cron) – returns the deposits of bookings returned more than 48 '
+  'hours ago that have no damage claim. Returns how many were released.';
+
+
+-- ############################################################################
+-- 2. Schedule (cron.schedule replaces a job of the same name)
+-- ############################################################################
+
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA pg_catalog;
+
+SELECT cron.schedule(
+  'release-due-deposits',
+  '*/15 * * * *',
+  'SELECT public.release_due_deposits()'
+);
+
+SELECT cron.schedule(
+  'expire-due-credits',
+  '5 * * * *',
+  'SELECT public.expire_due_credits(true)'
+);
@@ -0,0 +1,87 @@
+-- ============================================================================
+-- ForzaCars Rentals — Filter and page the window search inside the function
+-- Migration: 20250209000046_window_search_filters
+--
+-- 1. car_models_free_between — dropped
+-- 2. search_car_models_free_between(start_ts, end_ts, filters…, limit,
+--    offset) — one page of models with a unit free for the window, with
+--    their free unit counts and the total
+--
+-- car_models_free_between() (20250209000032) could not be inlined — it
+-- sets search_path — so PostgREST's filters, order and range were applied
+-- to its result: every search ran free_unit_count() for every model in the
+-- catalog before the manufacturer/class/price filters and the page cut it
+-- down. The catalog filters now run first, and free_unit_count() only runs
+-- for the models that pass them, once each.
+-- ============================================================================
+
+
+-- ############################################################################
+-- 1. Drop the unfiltered search
+-- ############################################################################
+
+DROP FUNCTION IF EXISTS public.car_models_free_between(timestamptz, timestamptz);
+
+
+-- ############################################################################
+-- 2. search_car_models_free_between
+--    SECURITY INVOKER like the view; the unit checks run as owner inside
+--    free_unit_count(). Filters mirror applyCatalogFilters() in
+--    src/lib/carCatalog.ts (NULL = not filtered); sorted like the catalog.
+--    total_count is repeated on every row (no rows → nothing matched or
+--    the offset is past the end).
+-- ############################################################################
+
+CREATE OR REPLACE FUNCTION public.search_car_models_free_between(
+  p_start_ts     timestamptz,
+  p_end_ts       timestamptz,
+  p_manufacturer text DEFAULT NULL,
+  p_class        text DEFAULT NULL,
+  p_source_game  text DEFAULT NULL,
+  p_q            text DEFAULT NULL,
+  p_price_min    int  DEFAULT NULL,
+  p_price_max    int  DEFAULT NULL,
+  p_limit        int  DEFAULT 24,
+  p_offset       int  DEFAULT 0
+)
+RETURNS TABLE (
+  car_model_id    uuid,
+  free_unit_count int,
+  total_count     int
+)
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+  WITH candidates AS MATERIALIZED (
+    SELECT v.id, v.manufacturer, v.model
+      FROM public.car_models_with_price v
+     WHERE (p_manufacturer IS NULL OR v.manufacturer = p_manufacturer)
+       AND (p_class IS NULL OR v.class = p_class)
+       AND (p_source_game IS NULL OR v.source_game = p_source_game)
+       AND (p_q IS NULL
+            OR v.manufacturer ILIKE '%' || p_q || '%'
+            OR v.model ILIKE '%' || p_q || '%')
+       AND (p_price_min IS NULL OR v.starting_price >= p_price_min)
+       AND (p_price_max IS NULL OR v.starting_price <= p_price_max)
+  ),
+  free AS MATERIALIZED (
+    SELECT c.id, c.manufacturer, c.model,
+           public.free_unit_count(c.id, p_start_ts, p_end_ts) AS free_units
+      FROM candidates c
+  )
+  SELECT f.id, f.free_units, (count(*) OVER ())::int
+    FROM free f
+   WHERE f.free_units > 0
+   ORDER BY f.manufacturer, f.model, f.id
+   LIMIT greatest(p_limit, 0)
+  OFFSET greatest(p_offset, 0);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.search_car_models_free_between(timestamptz, timestamptz, text, text, text, text, int, int, int, int) FROM public;
+GRANT EXECUTE ON FUNCTION public.search_car_models_free_between(timestamptz, timestamptz, text, text, text, text, int, int, int, int) TO anon, authenticated;
+
+COMMENT ON FUNCTION public.search_car_models_free_between(timestamptz, timestamptz, text, text, text, text, int, int, int, int) IS
+  'One page of catalog models (by manufacturer, model) with at least one unit '
+  'free for the window, after the catalog filters, with each model''s free '
+  'unit count and the number of matching models.';
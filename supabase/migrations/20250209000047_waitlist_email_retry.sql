@@ -0,0 +1,42 @@
+-- ============================================================================
+-- ForzaCars Rentals — Retry waitlist emails until they are sent
+-- Migration: 20250209000047_waitlist_email_retry
+--
+-- 1. waitlist_entries.email_claimed_at — a sender's claim on the email,
+--    reclaimable once it is older than the claim timeout
+-- 2. email_sent_at now means the email was actually sent
+--
+-- src/lib/waitlist.ts used to set email_sent_at before sending, so a
+-- failed send, or a server action stopped after its response, lost the
+-- email for good — and entries notified by SQL-only paths (deposit release
+-- job, blackout batches, reassignment fallback) were only emailed if some
+-- later action happened to drain the queue. The app now claims with
+-- email_claimed_at, sets email_sent_at after a successful send, releases
+-- the claim on failure, and drains the queue on a schedule
+-- (/api/cron/waitlist-emails) as well as after actions.
+-- ============================================================================
+
+
+-- ############################################################################
+-- 1. email_claimed_at
+-- ############################################################################
+
+ALTER TABLE public.waitlist_entries
+  ADD COLUMN IF NOT EXISTS email_claimed_at timestamptz;
+
+-- Entries still waiting for their email
+CREATE INDEX IF NOT EXISTS idx_waitlist_entries_unsent
+  ON public.waitlist_entries (created_at)
+  WHERE status = 'NOTIFIED' AND email_sent_at IS NULL;
+
+COMMENT ON COLUMN public.waitlist_entries.email_claimed_at IS
+  'Set by the app while it sends the notification email; a claim older '
+  'than the timeout in src/lib/waitlist.ts can be taken over';
+
+
+-- ############################################################################
+-- 2. email_sent_at
+-- ############################################################################
+
+COMMENT ON COLUMN public.waitlist_entries.email_sent_at IS
+  'Set by the app once the notification email has been sent';
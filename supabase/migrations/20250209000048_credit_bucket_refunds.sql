@@ -0,0 +1,320 @@
+-- ============================================================================
+-- ForzaCars Rentals — Refunds go back to the buckets they were spent from
+-- Migration: 20250209000048_credit_bucket_refunds
+--
+-- 1. credit_bucket_allocations — which buckets each debit drew from, and
+--    for which booking
+-- 2. credit_ledger.refund_of / booking_deposits.hold_entry_id — a deposit
+--    release names the hold it gives back
+-- 3. Bucket trigger: debits record their allocations; refunds restore them
+-- 4. The deposit hold and settlement fill in hold_entry_id / refund_of
+--
+-- Every positive entry used to open a new STANDARD bucket, so a booking
+-- paid with promotional credits and then canceled, shortened or released
+-- from its deposit handed the customer credits that never expire. Refunds
+-- now put the credits back into the buckets they came from, keeping their
+-- source and expires_at (credits whose bucket has expired in the meantime
+-- are removed by the next expiry sweep). Only what has no allocation to
+-- return to — grants, purchases, refunds of debits made before this
+-- migration — opens a bucket of its own.
+-- ============================================================================
+
+
+-- ############################################################################
+-- 1. credit_bucket_allocations
+-- ############################################################################
+
+CREATE TABLE IF NOT EXISTS public.credit_bucket_allocations (
+  id              uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  ledger_entry_id uuid NOT NULL REFERENCES public.credit_ledger(id) ON DELETE CASCADE,
+  user_id         uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  booking_id      uuid REFERENCES public.bookings(id) ON DELETE SET NULL,
+  bucket_id       uuid NOT NULL REFERENCES public.credit_buckets(id) ON DELETE CASCADE,
+  credits         int  NOT NULL CHECK (credits > 0),
+  restored        int  NOT NULL DEFAULT 0,
+  -- clock_timestamp: one debit writes several rows, restored newest first
+  created_at      timestamptz NOT NULL DEFAULT clock_timestamp(),
+  CONSTRAINT credit_bucket_allocations_restored_check CHECK (restored BETWEEN 0 AND credits)
+);
+
+COMMENT ON TABLE public.credit_bucket_allocations IS
+  'Credits a debit drew from one bucket; refunds return them to that bucket';
+COMMENT ON COLUMN public.credit_bucket_allocations.booking_id IS
+  'Booking the credits paid for; NULL for debits not tied to a booking';
+COMMENT ON COLUMN public.credit_bucket_allocations.restored IS
+  'How many of the credits refunds have already returned';
+
+CREATE INDEX IF NOT EXISTS idx_credit_bucket_allocations_entry
+  ON public.credit_bucket_allocations (ledger_entry_id);
+
+CREATE INDEX IF NOT EXISTS idx_credit_bucket_allocations_booking
+  ON public.credit_bucket_allocations (booking_id)
+  WHERE booking_id IS NOT NULL;
+
+ALTER TABLE public.credit_bucket_allocations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "credit_bucket_allocations: users can read own"
+  ON public.credit_bucket_allocations FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "credit_bucket_allocations: admins can read all"
+  ON public.credit_bucket_allocations FOR SELECT
+  TO authenticated
+  USING (public.is_admin());
+
+
+-- ############################################################################
+-- 2. refund_of / hold_entry_id
+-- ############################################################################
+
+ALTER TABLE public.credit_ledger
+  ADD COLUMN IF NOT EXISTS refund_of uuid
+    REFERENCES public.credit_ledger(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.credit_ledger.refund_of IS
+  'For a positive entry: the debit whose buckets it refills (otherwise '
+  'refunds refill the buckets of related_booking_id''s charges)';
+
+ALTER TABLE public.booking_deposits
+  ADD COLUMN IF NOT EXISTS hold_entry_id uuid
+    REFERENCES public.credit_ledger(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.booking_deposits.hold_entry_id IS
+  'Ledger entry that took the deposit; NULL for deposits held before '
+  '20250209000048';
+
+
+-- ############################################################################
+-- 3. Debits record their allocations; refunds restore them
+-- ############################################################################
+
+CREATE OR REPLACE FUNCTION public.handle_credit_ledger_buckets()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_left     int;
+  v_take     int;
+  v_part     int;
+  v_bucket   record;
+  v_alloc    record;
+  v_bookings uuid[];
+  v_needs    int[];
+  v_i        int := 1;
+BEGIN
+  IF NEW.delta > 0 THEN
+    v_left := NEW.delta;
+
+    -- A refund refills what the refunded debit drew, newest draw first:
+    -- the deposit hold it names, or the booking's charges (not its deposit)
+    IF NEW.refund_of IS NOT NULL OR NEW.related_booking_id IS NOT NULL THEN
+      FOR v_alloc IN
+        SELECT a.id, a.bucket_id, a.credits - a.restored AS open
+          FROM public.credit_bucket_allocations a
+         WHERE a.user_id = NEW.user_id
+           AND a.restored < a.credits
+           AND CASE
+                 WHEN NEW.refund_of IS NOT NULL THEN
+                   a.ledger_entry_id = NEW.refund_of
+                 ELSE
+                   a.booking_id = NEW.related_booking_id
+                   AND NOT EXISTS (
+                     SELECT 1 FROM public.booking_deposits d
+                      WHERE d.hold_entry_id = a.ledger_entry_id
+                   )
+               END
+         ORDER BY a.created_at DESC
+           FOR UPDATE
+      LOOP
+        EXIT WHEN v_left = 0;
+        v_take := least(v_alloc.open, v_left);
+
+        UPDATE public.credit_bucket_allocations
+           SET restored = restored + v_take
+         WHERE id = v_alloc.id;
+
+        UPDATE public.credit_buckets
+           SET remaining = remaining + v_take
+         WHERE id = v_alloc.bucket_id;
+
+        v_left := v_left - v_take;
+      END LOOP;
+    END IF;
+
+    IF v_left > 0 THEN
+      INSERT INTO public.credit_buckets
+             (user_id, ledger_entry_id, source, credits, remaining, expires_at)
+      VALUES (NEW.user_id, NEW.id, NEW.source, v_left, v_left, NEW.expires_at);
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  -- Expiry: removes exactly the bucket it names
+  IF NEW.bucket_id IS NOT NULL THEN
+    UPDATE public.credit_buckets
+       SET remaining = greatest(remaining + NEW.delta, 0)
+     WHERE id = NEW.bucket_id
+       AND user_id = NEW.user_id;
+    RETURN NEW;
+  END IF;
+
+  -- Bookings the debit pays for: the one it names or, for the booking
+  -- RPCs (one debit after inserting all their bookings), the customer's
+  -- bookings inserted in this transaction, each up to its price
+  IF NEW.related_booking_id IS NOT NULL THEN
+    v_bookings := ARRAY[NEW.related_booking_id];
+    v_needs    := ARRAY[-NEW.delta];
+  ELSE
+    SELECT coalesce(array_agg(id ORDER BY start_ts, id), '{}'),
+           coalesce(array_agg(credits_charged ORDER BY start_ts, id), '{}')
+      INTO v_bookings, v_needs
+      FROM public.bookings
+     WHERE customer_id = NEW.user_id
+       AND created_at = now()
+       AND credits_charged > 0;
+  END IF;
+
+  -- Spend order: promotional first, then soonest to expire, then oldest.
+  -- A shortfall (balance already below the buckets) is left to the
+  -- account balance.
+  v_left := -NEW.delta;
+
+  FOR v_bucket IN
+    SELECT id, remaining
+      FROM public.credit_buckets
+     WHERE user_id = NEW.user_id
+       AND remaining > 0
+       AND (expires_at IS NULL OR expires_at > now())
+     ORDER BY (source = 'PROMOTIONAL') DESC,
+              expires_at ASC NULLS LAST,
+              created_at ASC
+       FOR UPDATE
+  LOOP
+    EXIT WHEN v_left = 0;
+    v_take := least(v_bucket.remaining, v_left);
+
+    UPDATE public.credit_buckets
+       SET remaining = remaining - v_take
+     WHERE id = v_bucket.id;
+
+    v_left := v_left - v_take;
+
+    -- Record the draw, split across the bookings it pays for
+    WHILE v_take > 0 LOOP
+      IF v_i <= coalesce(array_length(v_bookings, 1), 0) THEN
+        v_part := least(v_take, v_needs[v_i]);
+      ELSE
+        v_part := v_take;
+      END IF;
+
+      INSERT INTO public.credit_bucket_allocations
+             (ledger_entry_id, user_id, booking_id, bucket_id, credits)
+      VALUES (NEW.id, NEW.user_id, v_bookings[v_i], v_bucket.id, v_part);
+
+      IF v_i <= coalesce(array_length(v_bookings, 1), 0) THEN
+        v_needs[v_i] := v_needs[v_i] - v_part;
+        IF v_needs[v_i] = 0 THEN
+          v_i := v_i + 1;
+        END IF;
+      END IF;
+
+      v_take := v_take - v_part;
+    END LOOP;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.handle_credit_ledger_buckets() FROM public, anon, authenticated;
+
+
+-- ############################################################################
+-- 4. Deposit hold and settlement
+-- ############################################################################
+
+CREATE OR REPLACE FUNCTION public.handle_booking_deposit_hold()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_amount   int;
+  v_entry_id uuid;
+BEGIN
+  SELECT deposit_credits INTO v_amount
+    FROM public.car_units
+   WHERE id = NEW.car_unit_id;
+
+  IF coalesce(v_amount, 0) = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.credit_ledger (user_id, delta, reason, related_booking_id)
+  VALUES (NEW.customer_id, -v_amount,
+          format('Security deposit held for booking %s', NEW.id), NEW.id)
+  RETURNING id INTO v_entry_id;
+
+  INSERT INTO public.booking_deposits (booking_id, customer_id, amount, hold_entry_id)
+  VALUES (NEW.id, NEW.customer_id, v_amount, v_entry_id);
+
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.handle_booking_deposit_hold() FROM public, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.settle_booking_deposit(
+  p_deposit_id uuid,
+  p_captured   int,
+  p_reason     text
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_deposit public.booking_deposits%ROWTYPE;
+BEGIN
+  SELECT * INTO v_deposit
+    FROM public.booking_deposits
+   WHERE id = p_deposit_id
+     FOR UPDATE;
+
+  IF NOT FOUND OR v_deposit.status <> 'HELD' THEN
+    RETURN;
+  END IF;
+
+  IF v_deposit.amount - p_captured > 0 THEN
+    INSERT INTO public.credit_ledger
+           (user_id, delta, reason, related_booking_id, refund_of)
+    VALUES (v_deposit.customer_id, v_deposit.amount - p_captured, p_reason,
+            v_deposit.booking_id, v_deposit.hold_entry_id);
+  END IF;
+
+  UPDATE public.booking_deposits
+     SET status           = CASE WHEN p_captured > 0 THEN 'CAPTURED' ELSE 'RELEASED' END,
+         captured_credits = p_captured,
+         settled_at       = now()
+   WHERE id = p_deposit_id;
+
+  INSERT INTO public.audit_log (actor_user_id, action, entity_type, entity_id, metadata)
+  VALUES (auth.uid(),
+          CASE WHEN p_captured > 0 THEN 'deposit.captured' ELSE 'deposit.released' END,
+          'booking', v_deposit.booking_id,
+    jsonb_build_object(
+      'deposit_id',       p_deposit_id,
+      'amount',           v_deposit.amount,
+      'captured_credits', p_captured,
+      'released_credits', v_deposit.amount - p_captured,
+      'reason',           p_reason
+  ));
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.settle_booking_deposit(uuid, int, text) FROM public, anon, authenticated;
@@ -0,0 +1,275 @@
+-- ============================================================================
+-- ForzaCars Rentals — Refund booking changes per the cancellation policy
+-- Migration: 20250209000049_modify_booking_refund_tier
+--
+-- 1. modify_booking — a lower price is refunded at the booking's
+--    cancellation tier; credit_delta is the balance change and refund_pct
+--    the tier applied
+--
+-- modify_booking (20250209000039) refunded the whole price difference, so
+-- shortening a booking inside a partial-refund tier — or after the rental
+-- started — returned credits cancel_booking would have kept: a customer
+-- could shorten to the minimum for a full refund of the rest. The
+-- reduction is now refunded like a cancellation of that part, using the
+-- booking's cancellation_policy_id and the hours until its current start
+-- (refundPctFor() / modificationRefund() in src/lib/cancellation.ts).
+-- ============================================================================
+
+
+-- ############################################################################
+-- 1. modify_booking
+-- ############################################################################
+
+CREATE OR REPLACE FUNCTION public.modify_booking(
+  p_booking_id uuid,
+  p_start_ts   timestamptz,
+  p_end_ts     timestamptz
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_uid          uuid;
+  v_booking      public.bookings%ROWTYPE;
+  v_policy       public.pricing_policies%ROWTYPE;
+  v_promo        public.promo_codes%ROWTYPE;
+  v_duration_min int;
+  v_quote        jsonb;
+  v_subtotal     int;
+  v_discount     int := 0;
+  v_credits      int;
+  v_delta        int;
+  v_tiers        jsonb;
+  v_hours_until  numeric;
+  v_refund_pct   int;
+  v_balance      int;
+  v_new_balance  int;
+BEGIN
+  -- ================================================================
+  -- 1. Auth + lock the booking
+  -- ================================================================
+  v_uid := auth.uid();
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_booking
+    FROM public.bookings
+   WHERE id = p_booking_id
+     FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  IF v_booking.customer_id <> v_uid THEN
+    RAISE EXCEPTION 'Not authorised to modify this booking';
+  END IF;
+
+  IF v_booking.status <> 'CONFIRMED' THEN
+    RAISE EXCEPTION 'Only confirmed bookings can be modified';
+  END IF;
+
+  -- ================================================================
+  -- 2. Time validation
+  --    Upcoming bookings can move freely into the future; a rental
+  --    already under way keeps its start and can only change its end.
+  -- ================================================================
+  IF p_end_ts <= p_start_ts THEN
+    RAISE EXCEPTION 'End time must be after start time';
+  END IF;
+
+  IF v_booking.end_ts <= now() THEN
+    RAISE EXCEPTION 'This booking has already ended';
+  END IF;
+
+  IF v_booking.start_ts <= now() THEN
+    IF p_start_ts <> v_booking.start_ts THEN
+      RAISE EXCEPTION 'The rental has started; only the end time can be changed';
+    END IF;
+    IF p_end_ts <= now() THEN
+      RAISE EXCEPTION 'New end time must be in the future';
+    END IF;
+  ELSIF p_start_ts <= now() THEN
+    RAISE EXCEPTION 'New start time must be in the future';
+  END IF;
+
+  IF p_start_ts = v_booking.start_ts AND p_end_ts = v_booking.end_ts THEN
+    RAISE EXCEPTION 'The booking already has these times';
+  END IF;
+
+  v_duration_min := extract(epoch FROM (p_end_ts - p_start_ts))::int / 60;
+
+  -- ================================================================
+  -- 3. Unit still bookable; minimum duration under its current policy
+  -- ================================================================
+  PERFORM 1
+     FROM public.car_units
+    WHERE id = v_booking.car_unit_id
+      AND active = true
+      FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Car unit is no longer active';
+  END IF;
+
+  SELECT * INTO v_policy
+    FROM public.pricing_policies
+   WHERE id = public.resolve_pricing_policy_id(v_booking.car_unit_id);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No pricing policy configured for this car unit';
+  END IF;
+
+  IF v_duration_min < v_policy.min_duration_minutes THEN
+    RAISE EXCEPTION 'Minimum booking duration for this car is % minutes', v_policy.min_duration_minutes;
+  END IF;
+
+  -- ================================================================
+  -- 4. Blackout and hold checks
+  -- ================================================================
+  IF EXISTS (
+    SELECT 1
+      FROM public.car_blackouts b
+     WHERE b.car_unit_id = v_booking.car_unit_id
+       AND b.start_ts    < p_end_ts
+       AND b.end_ts      > p_start_ts
+  ) THEN
+    RAISE EXCEPTION 'Car unit is blacked out during the requested time window';
+  END IF;
+
+  IF public.unit_is_held(v_booking.car_unit_id, p_start_ts, p_end_ts, v_uid) THEN
+    RAISE EXCEPTION 'Another customer is completing a booking for this car unit at that time';
+  END IF;
+
+  -- ================================================================
+  -- 5. Re-price the new window (policy + surge, then the booking's promo)
+  -- ================================================================
+  v_quote    := public.quote_booking_price(v_booking.car_unit_id, p_start_ts, p_end_ts);
+  v_subtotal := (v_quote->>'total_credits')::int;
+
+  IF v_booking.promo_code_id IS NOT NULL THEN
+    SELECT * INTO v_promo
+      FROM public.promo_codes
+     WHERE id = v_booking.promo_code_id;
+
+    v_discount := public.promo_discount_credits(
+                    v_promo.discount_type, v_promo.discount_value, v_subtotal);
+  END IF;
+
+  v_credits := v_subtotal - v_discount;
+  v_delta   := v_credits - v_booking.credits_charged;
+
+  -- A lower price is a partial cancellation: refunded at the tier the
+  -- booking's cancellation policy gives for cancelling now (nothing once
+  -- the rental has started). v_delta becomes the balance change.
+  IF v_delta < 0 THEN
+    SELECT tiers INTO v_tiers
+      FROM public.cancellation_policies
+     WHERE id = v_booking.cancellation_policy_id;
+
+    v_hours_until := extract(epoch FROM (v_booking.start_ts - now())) / 3600.0;
+    v_refund_pct  := public.cancellation_refund_pct(coalesce(v_tiers, '[]'), v_hours_until);
+    v_delta       := -floor(-v_delta * v_refund_pct / 100.0)::int;
+  END IF;
+
+  -- ================================================================
+  -- 6. Credit-balance check for the extra charge
+  -- ================================================================
+  IF v_delta > 0 THEN
+    -- Locked until commit: a concurrent debit by the same user waits here
+    v_balance := public.lock_credit_account(v_uid);
+
+    IF v_balance < v_delta THEN
+      RAISE EXCEPTION 'Insufficient credit balance (have %, need %)', v_balance, v_delta;
+    END IF;
+  END IF;
+
+  -- ================================================================
+  -- 7. Update booking + ledger difference + audit log (atomic)
+  -- ================================================================
+  BEGIN
+    UPDATE public.bookings
+       SET start_ts          = p_start_ts,
+           end_ts            = p_end_ts,
+           credits_charged   = v_credits,
+           pricing_mode      = v_quote->>'pricing_mode',
+           hourly_rate_used  = (v_quote->>'hourly_rate')::int,
+           day_price_used    = (v_quote->>'day_rate')::int,
+           billable_days     = (v_quote->>'billable_days')::int,
+           duration_minutes  = v_duration_min,
+           pricing_policy_id = v_policy.id,
+           base_credits      = (v_quote->>'base_credits')::int,
+           surcharge_credits = (v_quote->>'surcharge_credits')::int,
+           surcharges        = v_quote->'surcharges',
+           discount_credits  = v_discount
+     WHERE id = p_booking_id;
+  EXCEPTION
+    WHEN exclusion_violation THEN
+      RAISE EXCEPTION 'This car unit is already booked during the requested time window';
+  END;
+
+  IF v_delta <> 0 THEN
+    INSERT INTO public.credit_ledger
+           (user_id, delta, reason, related_booking_id)
+    VALUES (
+      v_uid,
+      -v_delta,
+      format('Booking %s modified: %s → %s',
+             p_booking_id,
+             p_start_ts AT TIME ZONE 'UTC',
+             p_end_ts   AT TIME ZONE 'UTC'),
+      p_booking_id
+    );
+  END IF;
+
+  INSERT INTO public.audit_log (actor_user_id, action, entity_type, entity_id, metadata)
+  VALUES (v_uid, 'booking.modified', 'booking', p_booking_id,
+    jsonb_build_object(
+      'car_unit_id',          v_booking.car_unit_id,
+      'before_start_ts',      v_booking.start_ts AT TIME ZONE 'UTC',
+      'before_end_ts',        v_booking.end_ts   AT TIME ZONE 'UTC',
+      'after_start_ts',       p_start_ts AT TIME ZONE 'UTC',
+      'after_end_ts',         p_end_ts   AT TIME ZONE 'UTC',
+      'before_credits',       v_booking.credits_charged,
+      'after_credits',        v_credits,
+      'credit_delta',         v_delta,
+      'refund_pct',           v_refund_pct,
+      'pricing_mode',         v_quote->'pricing_mode',
+      'base_credits',         v_quote->'base_credits',
+      'surcharge_credits',    v_quote->'surcharge_credits',
+      'discount_credits',     v_discount,
+      'policy_version',       v_policy.version
+  ));
+
+  SELECT balance
+    INTO v_new_balance
+    FROM public.credit_accounts
+   WHERE user_id = v_uid;
+
+  RETURN jsonb_build_object(
+    'booking_id',        p_booking_id,
+    'start_ts',          p_start_ts,
+    'end_ts',            p_end_ts,
+    'credits_charged',   v_credits,
+    'credit_delta',      v_delta,
+    'refund_pct',        v_refund_pct,
+    'balance_after',     v_new_balance,
+    'pricing_mode',      v_quote->'pricing_mode',
+    'base_credits',      v_quote->'base_credits',
+    'surcharge_credits', v_quote->'surcharge_credits',
+    'discount_credits',  v_discount
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.modify_booking(uuid, timestamptz, timestamptz) FROM public;
+GRANT EXECUTE ON FUNCTION public.modify_booking(uuid, timestamptz, timestamptz) TO authenticated;
+
+COMMENT ON FUNCTION public.modify_booking(uuid, timestamptz, timestamptz) IS
+  'Moves a confirmed booking (owner only) to a new window on the same car '
+  'unit, re-prices it with quote_booking_price() and debits the difference, '
+  'or refunds a price decrease at the booking''s cancellation tier, in '
+  'credit_ledger.';